@@ -1,5 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '../utils/database.js';
+import { ODS_MIME_TYPE, readOds, writeOdsStream } from '../utils/ods.js';
+import { cellRows, parseRange } from '../utils/sheetCells.js';
+import { XLSX_MIME_TYPE, writeXlsxStream } from '../utils/xlsx.js';
+import { drain } from '../utils/zip.js';
 
 function runAsync(sql, params = []) {
   return new Promise((resolve, reject) => {
@@ -29,7 +33,73 @@ function allAsync(sql, params = []) {
 }
 
 /**
- * Import CSV data into spreadsheet
+ * Insert a cell read from a file, or overwrite the one already at its address
+ */
+async function saveCell(sheetId, cell) {
+  const fields = [
+    cell.value || '',
+    cell.formula || null,
+    cell.bold ? 1 : 0,
+    cell.italic ? 1 : 0,
+    cell.underline ? 1 : 0,
+    cell.color || null,
+    cell.background_color || null,
+  ];
+  const existing = await getAsync(
+    'SELECT id FROM cells WHERE sheet_id = ? AND cell_id = ?',
+    [sheetId, cell.cell_id]
+  );
+
+  if (existing) {
+    await runAsync(
+      `UPDATE cells SET value = ?, formula = ?, bold = ?, italic = ?, underline = ?,
+       color = ?, background_color = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [...fields, existing.id]
+    );
+  } else {
+    await runAsync(
+      `INSERT INTO cells (id, sheet_id, cell_id, value, formula, bold, italic, underline, color, background_color)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), sheetId, cell.cell_id, ...fields]
+    );
+  }
+}
+
+/**
+ * Import the sheets of a workbook file: the first into the chosen sheet, the others into
+ * the spreadsheet's sheets of the same name, added when missing
+ */
+async function importWorkbookSheets(spreadsheetId, sheetId, workbook) {
+  const existing = await allAsync(
+    'SELECT id, name, position FROM sheets WHERE spreadsheet_id = ?',
+    [spreadsheetId]
+  );
+  let position = Math.max(-1, ...existing.map((sheet) => sheet.position ?? 0));
+  let cellsImported = 0;
+
+  for (let index = 0; index < workbook.sheets.length; index++) {
+    const sheet = workbook.sheets[index];
+    let targetId = index === 0 ? sheetId : existing.find((candidate) => candidate.id !== sheetId && candidate.name === sheet.name)?.id;
+
+    if (!targetId) {
+      targetId = uuidv4();
+      await runAsync(
+        'INSERT INTO sheets (id, spreadsheet_id, name, position) VALUES (?, ?, ?, ?)',
+        [targetId, spreadsheetId, sheet.name, ++position]
+      );
+    }
+
+    for (const cell of sheet.cells) {
+      await saveCell(targetId, cell);
+      cellsImported++;
+    }
+  }
+  return cellsImported;
+}
+
+/**
+ * Import CSV data, or an OpenDocument spreadsheet (base64 encoded), into spreadsheet
  * CRITICAL ENDPOINT #3: importData
  */
 export async function importData(req, res) {
@@ -65,7 +135,14 @@ export async function importData(req, res) {
 
     // Parse CSV data (simple comma-separated format)
     let rows = [];
-    if (format === 'csv' && typeof data === 'string') {
+    let workbook = null;
+    if (format === 'ods' && typeof data === 'string') {
+      try {
+        workbook = readOds(Buffer.from(data, 'base64'));
+      } catch (err) {
+        return res.status(400).json({ error: `Invalid ODS file: ${err.message}` });
+      }
+    } else if (format === 'csv' && typeof data === 'string') {
       rows = data
         .trim()
         .split('\n')
@@ -84,6 +161,11 @@ export async function importData(req, res) {
     let cellsImported = 0;
     const cellMap = {};
 
+    // Workbook files carry their own addresses and formatting
+    if (workbook) {
+      cellsImported = await importWorkbookSheets(spreadsheetId, sheetId, workbook);
+    }
+
     for (let rowIdx = 0; rowIdx < rows.length; rowIdx++) {
       const row = rows[rowIdx];
       for (let colIdx = 0; colIdx < row.length; colIdx++) {
@@ -129,7 +211,7 @@ export async function importData(req, res) {
         spreadsheetId,
         dataJson,
         userId,
-        'Imported CSV data',
+        `Imported ${workbook ? 'ODS' : 'CSV'} data`,
         cellsImported,
         dataJson.length,
       ]
@@ -144,11 +226,23 @@ export async function importData(req, res) {
         spreadsheetId,
         userId,
         'import',
-        'Imported CSV data',
+        `Imported ${workbook ? 'ODS' : 'CSV'} data`,
         JSON.stringify({ cellsImported, format }),
       ]
     );
 
+    if (workbook) {
+      // Merges and names have no place in the cells table; the client applies them
+      return res.json({
+        success: true,
+        message: 'Data imported successfully',
+        cellsImported,
+        sheetsImported: workbook.sheets.length,
+        sheets: workbook.sheets.map((sheet) => ({ name: sheet.name, merges: sheet.merges })),
+        names: workbook.names,
+      });
+    }
+
     res.json({
       success: true,
       message: 'Data imported successfully',
@@ -161,20 +255,135 @@ export async function importData(req, res) {
   }
 }
 
+// Row and column numbers (1-based) of a cell_id, so SQLite hands cells over in sheet order
+const CELL_LETTERS = "rtrim(upper(cell_id), '0123456789')";
+const CELL_ROW = "CAST(ltrim(upper(cell_id), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ') AS INTEGER)";
+const CELL_COLUMN = `(CASE length(${CELL_LETTERS})
+  WHEN 1 THEN unicode(${CELL_LETTERS}) - 64
+  WHEN 2 THEN (unicode(${CELL_LETTERS}) - 64) * 26 + unicode(substr(${CELL_LETTERS}, 2)) - 64
+  ELSE ((unicode(${CELL_LETTERS}) - 64) * 26 + unicode(substr(${CELL_LETTERS}, 2)) - 64) * 26 + unicode(substr(${CELL_LETTERS}, 3)) - 64
+END)`;
+
+const CELL_FIELDS = 'cell_id, value, formula, bold, italic, underline, color, background_color';
+const EXPORT_FORMATS = ['csv', 'json', 'xlsx', 'ods'];
+
+/**
+ * SQL conditions keeping the cells inside a range from parseRange
+ */
+function rangeFilter(range) {
+  const conditions = [];
+  const params = [];
+  if (range && range.startRow !== null) {
+    conditions.push(`${CELL_ROW} BETWEEN ? AND ?`);
+    params.push(range.startRow + 1, range.endRow + 1);
+  }
+  if (range && range.startCol !== null) {
+    conditions.push(`${CELL_COLUMN} BETWEEN ? AND ?`);
+    params.push(range.startCol + 1, range.endCol + 1);
+  }
+  return { sql: conditions.map((condition) => ` AND ${condition}`).join(''), params };
+}
+
+/**
+ * Last row and column (1-based) holding a cell, 0 for an empty sheet
+ */
+async function cellBounds(sheetId, filter) {
+  const bounds = await getAsync(
+    `SELECT MAX(${CELL_ROW}) AS rows, MAX(${CELL_COLUMN}) AS columns
+     FROM cells WHERE sheet_id = ?${filter.sql}`,
+    [sheetId, ...filter.params]
+  );
+  return { rows: bounds?.rows || 0, columns: bounds?.columns || 0 };
+}
+
+/**
+ * A sheet's cells in row-major order, read one at a time so a large sheet is never
+ * held in memory
+ */
+async function* streamCells(sheetId, filter, fields) {
+  const database = getDatabase();
+  const statement = await new Promise((resolve, reject) => {
+    const prepared = database.prepare(
+      `SELECT ${fields} FROM cells WHERE sheet_id = ?${filter.sql}
+       ORDER BY ${CELL_ROW}, ${CELL_COLUMN}`,
+      [sheetId, ...filter.params],
+      (err) => (err ? reject(err) : resolve(prepared))
+    );
+  });
+
+  try {
+    for (;;) {
+      const cell = await new Promise((resolve, reject) => {
+        statement.get((err, row) => (err ? reject(err) : resolve(row)));
+      });
+      if (!cell) return;
+      yield cell;
+    }
+  } finally {
+    statement.finalize();
+  }
+}
+
+async function write(res, text) {
+  if (!res.write(text)) await drain(res);
+}
+
+/**
+ * CSV of the cells in a rectangle, padded with empty fields and rows as before
+ */
+async function writeCsv(res, cells, area) {
+  let nextRow = area.startRow;
+  let count = 0;
+  const line = (rowCells) => write(res, `${nextRow > area.startRow ? '\n' : ''}${csvLine(rowCells, area)}`);
+
+  for await (const { row, cells: rowCells } of cellRows(cells)) {
+    for (; nextRow < row; nextRow++) await line([]);
+    await line(rowCells);
+    count += rowCells.length;
+    nextRow = row + 1;
+  }
+  for (; nextRow <= area.endRow; nextRow++) await line([]);
+  return count;
+}
+
+function csvLine(rowCells, area) {
+  const fields = [];
+  let index = 0;
+  for (let col = area.startCol; col <= area.endCol; col++) {
+    const cell = rowCells[index]?.col === col ? rowCells[index++].cell : null;
+    // Escape CSV values
+    fields.push(`"${String(cell?.value ?? '').replace(/"/g, '""')}"`);
+  }
+  return fields.join(',');
+}
+
 /**
  * Export spreadsheet data
  * CRITICAL ENDPOINT #3b: exportData
+ *
+ * Exports one sheet (sheetId, or the sheet named in range) or, for JSON, XLSX and ODS,
+ * every sheet in order. `range` ("A1:C10", "B:D", "2:5", "'Sheet 2'!A1:B5") limits the
+ * cells exported. The response is written as cells are read.
  */
 export async function exportData(req, res) {
-  const { spreadsheetId, sheetId, format = 'csv' } = req.query;
+  const { spreadsheetId, sheetId, range: rangeText, format = 'csv' } = req.query;
   const userId = req.user.id;
 
-  if (!spreadsheetId || !sheetId) {
+  if (!spreadsheetId) {
     return res.status(400).json({
-      error: 'spreadsheetId and sheetId are required',
+      error: 'spreadsheetId is required',
     });
   }
 
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: 'Unsupported format. Use csv, json, xlsx or ods' });
+  }
+
+  const range = rangeText ? parseRange(rangeText) : null;
+  if (rangeText && !range) {
+    return res.status(400).json({ error: `Invalid range: ${rangeText}` });
+  }
+
   try {
     // Verify ownership/access
     const spreadsheet = await getAsync(
@@ -196,45 +405,84 @@ export async function exportData(req, res) {
       }
     }
 
-    // Get cells
-    const cells = await allAsync(
-      `SELECT cell_id, value FROM cells WHERE sheet_id = ? ORDER BY cell_id`,
-      [sheetId]
+    // The sheet named in the range wins over sheetId; neither means every sheet
+    let sheets = await allAsync(
+      'SELECT id, name FROM sheets WHERE spreadsheet_id = ? ORDER BY position',
+      [spreadsheetId]
     );
+    if (range?.sheet) {
+      sheets = sheets.filter((sheet) => sheet.name.toUpperCase() === range.sheet.toUpperCase());
+    } else if (sheetId) {
+      sheets = sheets.filter((sheet) => sheet.id === sheetId);
+    }
 
-    if (format === 'csv') {
-      // Convert to CSV format
-      const maxCol = Math.max(
-        ...cells.map((c) => c.cell_id.charCodeAt(0) - 65),
-        0
-      );
-      const maxRow = Math.max(
-        ...cells.map((c) => parseInt(c.cell_id.substring(1))),
-        1
-      );
+    if (sheets.length === 0 && (range?.sheet || sheetId)) {
+      return res.status(404).json({ error: 'Sheet not found' });
+    }
+    if (format === 'csv' && sheets.length !== 1) {
+      return res.status(400).json({ error: 'CSV holds one sheet: give a sheetId or a range with a sheet name' });
+    }
 
-      const csv = [];
-      for (let row = 1; row <= maxRow; row++) {
-        const rowData = [];
-        for (let col = 0; col <= maxCol; col++) {
-          const cellId = String.fromCharCode(65 + col) + row;
-          const cell = cells.find((c) => c.cell_id === cellId);
-          const value = cell ? cell.value : '';
-          // Escape CSV values
-          rowData.push(`"${(value || '').replace(/"/g, '""')}"`);
+    const filter = rangeFilter(range);
+    const bounds = [];
+    for (const sheet of sheets) {
+      bounds.push(await cellBounds(sheet.id, filter));
+    }
+    const fileName = spreadsheet.name || 'spreadsheet';
+    let cellsExported = 0;
+
+    try {
+      if (format === 'csv') {
+        // Open ends of the range stop at the last cell; without a range the CSV starts at A1
+        const area = {
+          startRow: range?.startRow ?? 0,
+          endRow: range?.endRow ?? Math.max(bounds[0].rows, 1) - 1,
+          startCol: range?.startCol ?? 0,
+          endCol: range?.endCol ?? Math.max(bounds[0].columns, 1) - 1,
+        };
+        res.type('text/csv');
+        cellsExported = await writeCsv(res, streamCells(sheets[0].id, filter, 'cell_id, value'), area);
+        res.end();
+      } else if (format === 'json') {
+        res.type('application/json');
+        const single = sheets.length === 1 && (sheetId || range?.sheet);
+        await write(res, `{"spreadsheet":${JSON.stringify(spreadsheet.name)},${single ? '' : '"sheets":['}`);
+        for (let index = 0; index < sheets.length; index++) {
+          if (!single) await write(res, `${index ? ',' : ''}{"name":${JSON.stringify(sheets[index].name)},`);
+          await write(res, '"cells":[');
+          let first = true;
+          for await (const cell of streamCells(sheets[index].id, filter, 'cell_id, value')) {
+            await write(res, `${first ? '' : ','}${JSON.stringify(cell)}`);
+            first = false;
+            cellsExported++;
+          }
+          await write(res, single ? ']' : ']}');
         }
-        csv.push(rowData.join(','));
-      }
+        await write(res, `${single ? '' : ']'},"exportedAt":${JSON.stringify(new Date().toISOString())}}`);
+        res.end();
+      } else {
+        const counted = async function* (cells) {
+          for await (const cell of cells) {
+            cellsExported++;
+            yield cell;
+          }
+        };
+        const workbook = sheets.map((sheet, index) => ({
+          name: sheet.name,
+          columns: bounds[index].columns,
+          cells: counted(streamCells(sheet.id, filter, CELL_FIELDS)),
+        }));
 
-      res.type('text/csv').send(csv.join('\n'));
-    } else if (format === 'json') {
-      res.json({
-        spreadsheet: spreadsheet.name,
-        cells: cells,
-        exportedAt: new Date().toISOString(),
-      });
-    } else {
-      res.status(400).json({ error: 'Unsupported format. Use csv or json' });
+        res.type(format === 'xlsx' ? XLSX_MIME_TYPE : ODS_MIME_TYPE).attachment(`${fileName}.${format}`);
+        await (format === 'xlsx' ? writeXlsxStream(res, workbook) : writeOdsStream(res, workbook));
+        res.end();
+      }
+    } catch (error) {
+      // Once the file has started there is no status left to send
+      if (!res.headersSent) throw error;
+      console.error('Export data error:', error);
+      res.destroy(error);
+      return;
     }
 
     // Log activity
@@ -247,7 +495,7 @@ export async function exportData(req, res) {
         userId,
         'export',
         'Exported spreadsheet',
-        JSON.stringify({ format, cellsExported: cells.length }),
+        JSON.stringify({ format, range: rangeText || null, sheetsExported: sheets.length, cellsExported }),
       ]
     );
   } catch (error) {
@@ -44,6 +44,22 @@ class InMemoryDb {
     setImmediate(() => callback(null, []));
   }
 
+  prepare(sql, params, callback) {
+    if (typeof params === 'function') {
+      callback = params;
+    }
+    if (callback) setImmediate(() => callback(null));
+    // A statement with no rows
+    return {
+      get(cb) {
+        setImmediate(() => cb(null, undefined));
+      },
+      finalize(cb) {
+        if (cb) setImmediate(cb);
+      },
+    };
+  }
+
   close(callback) {
     if (callback) setImmediate(callback);
   }
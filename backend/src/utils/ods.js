@@ -0,0 +1,368 @@
+import { ZipWriter, collector, readZip } from './zip.js';
+import { cellContent, cellRows, columnLetter, parseCellId, sortCells, styleRegistry } from './sheetCells.js';
+import { XML_DECLARATION, attribute, childElement, childElements, descendants, escapeXml, parseXml, xmlElement } from './xml.js';
+
+/**
+ * OpenDocument spreadsheets (.ods) for the rows of the cells table.
+ *
+ * Sheets are { name, columns, cells: [{ cell_id, value, formula, bold, italic, underline,
+ * color, background_color }] }, written with their cells in row-major order. Formulas are
+ * stored with their "=" and written in OpenFormula syntax ("of:=SUM([.A1:.B2])"). Reading
+ * also returns merged ranges and named ranges, which the cells table has no place for.
+ */
+
+export const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+const NAMESPACES = {
+  'xmlns:office': 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+  'xmlns:style': 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+  'xmlns:text': 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+  'xmlns:table': 'urn:oasis:names:tc:opendocument:xmlns:table:1.0',
+  'xmlns:fo': 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+  'xmlns:of': 'urn:oasis:names:tc:opendocument:xmlns:of:1.2',
+};
+
+// Empty rows and columns repeated further than this are the rest of the sheet, not content
+const MAX_REPEAT = 1024;
+
+// Excel functions OpenFormula has no name for, which LibreOffice stores with a vendor prefix
+const MICROSOFT_FUNCTIONS = new Set([
+  'CONCAT', 'FILTER', 'IFS', 'LET', 'MAXIFS', 'MINIFS', 'SEQUENCE', 'SORT', 'SORTBY', 'SWITCH',
+  'TEXTJOIN', 'UNIQUE', 'XLOOKUP', 'XMATCH',
+]);
+const VENDOR_PREFIX = /^(COM\.MICROSOFT|ORG\.OPENOFFICE|ORG\.LIBREOFFICE|_XLFN)\./i;
+
+const SHEET_NAME = "'(?:[^']|'')+'|[A-Za-z_\\u00C0-\\uFFFF][\\w.\\u00C0-\\uFFFF]*";
+const CELL = '\\$?[A-Za-z]{1,3}\\$?\\d+';
+const AREA = `${CELL}(?::${CELL})?|\\$?[A-Za-z]{1,3}:\\$?[A-Za-z]{1,3}|\\$?\\d+:\\$?\\d+`;
+
+// Strings, references, TRUE/FALSE, function names and separators of a grid formula
+const GRID_TOKENS = new RegExp(
+  `("(?:[^"]|"")*")|(?<![\\w.$])(?:(${SHEET_NAME})!)?(${AREA})(?![\\w.(!])|(?<![\\w.])(TRUE|FALSE)(?![\\w.(])|(?<![\\w.])([A-Za-z_][\\w.]*)(?=\\()|([,;{}])`,
+  'gi'
+);
+
+// ...and of an OpenFormula expression
+const OPEN_FORMULA_TOKENS = /("(?:[^"]|"")*")|\[([^\]]*)\]|(?<![\w.])(TRUE|FALSE)\(\)|(?<![\w.])([A-Za-z_][\w.]*)(?=\()|([;|~])/gi;
+
+/**
+ * A grid formula ("=SUM(A1:B2, Sheet2!C3)") in OpenFormula syntax ("of:=SUM([.A1:.B2];[$Sheet2.C3])")
+ */
+export function toOpenFormula(formula) {
+  let arrays = 0;
+  const text = formula.replace(/^=/, '').replace(GRID_TOKENS, (match, string, sheet, area, constant, name, separator) => {
+    if (string) return string;
+    if (area) return `[${cellAddress(sheet, area.toUpperCase())}]`;
+    if (constant) return `${constant.toUpperCase()}()`;
+    if (name) return MICROSOFT_FUNCTIONS.has(name.toUpperCase()) ? `COM.MICROSOFT.${name}` : name;
+    switch (separator) {
+      case '{': arrays++; return match;
+      case '}': arrays = Math.max(0, arrays - 1); return match;
+      case ';': return arrays ? '|' : match;
+      default: return ';';
+    }
+  });
+  return `of:=${text}`;
+}
+
+/** A formula as stored in a file ("of:=SUM([.A1:.B2])") as the grid has it, with its "=" */
+export function fromOpenFormula(formula) {
+  const namespace = /^([a-z]+):=?/i.exec(formula);
+  const text = namespace ? formula.substring(namespace[0].length) : formula.replace(/^=/, '');
+  // Formulas LibreOffice keeps in Excel's own syntax
+  if (namespace && namespace[1].toLowerCase() === 'msoxl') return `=${text}`;
+
+  return `=${text.replace(OPEN_FORMULA_TOKENS, (match, string, reference, constant, name, separator) => {
+    if (string) return string;
+    if (reference !== undefined) return gridReference(reference);
+    if (constant) return constant.toUpperCase();
+    if (name) return name.replace(VENDOR_PREFIX, '');
+    return separator === '|' ? ';' : ',';
+  })}`;
+}
+
+/** An ODF cell or range address: "$Sheet1.A1:.B2", or ".A1" without a sheet */
+function cellAddress(sheet, area) {
+  // Dots end a sheet name unless it is quoted
+  const name = sheet && !sheet.startsWith("'") && sheet.includes('.') ? `'${sheet}'` : sheet;
+  const prefix = name ? `$${name}` : '';
+  const [first, second] = area.split(':');
+  return second === undefined ? `${prefix}.${first}` : `${prefix}.${first}:.${second}`;
+}
+
+/** An ODF address ("$'My Sheet'.$A$1:.B2") as the grid writes it ("'My Sheet'!$A$1:B2") */
+function gridReference(address) {
+  const parts = address.trim().split(':').map((part) => {
+    const match = /^\$?(?:'((?:[^']|'')*)'|(.*?))\.([^.]*)$/.exec(part.trim());
+    if (!match) return { sheet: '', cell: part.trim() };
+    return { sheet: match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2], cell: match[3] };
+  });
+  if (parts.some((part) => part.cell.includes('#REF!') || part.sheet.includes('#REF!'))) return '#REF!';
+  const sheet = parts[0].sheet;
+  const prefix = !sheet ? '' : /^[A-Za-z_][\w.]*$/.test(sheet) ? `${sheet}!` : `'${sheet.replace(/'/g, "''")}'!`;
+  return prefix + parts.map((part) => part.cell).join(':');
+}
+
+// ---------------------------------------------------------------------------------------
+// Writing
+
+/**
+ * Write sheets as an .ods file to a writable stream, as the rows arrive
+ */
+export async function writeOdsStream(output, sheets) {
+  const styles = styleRegistry();
+  const zip = new ZipWriter(output);
+  // The first entry, uncompressed, so the type can be read from the file's first bytes
+  await zip.add('mimetype', ODS_MIME_TYPE, { stored: true });
+  await zip.add('content.xml', contentXml(sheets, styles));
+  // Cell styles are only known once every cell is written, so they are common styles
+  // in styles.xml rather than automatic styles ahead of the cells in content.xml
+  await zip.add('styles.xml', stylesXml(styles.list()));
+  await zip.add('META-INF/manifest.xml', XML_DECLARATION + xmlElement('manifest:manifest', {
+    'xmlns:manifest': 'urn:oasis:names:tc:opendocument:xmlns:manifest:1.0',
+    'manifest:version': '1.3',
+  }, [
+    xmlElement('manifest:file-entry', { 'manifest:full-path': '/', 'manifest:version': '1.3', 'manifest:media-type': ODS_MIME_TYPE }),
+    xmlElement('manifest:file-entry', { 'manifest:full-path': 'content.xml', 'manifest:media-type': 'text/xml' }),
+    xmlElement('manifest:file-entry', { 'manifest:full-path': 'styles.xml', 'manifest:media-type': 'text/xml' }),
+  ]));
+  await zip.finish();
+}
+
+/**
+ * Package sheets held in memory as an .ods file
+ */
+export async function writeOds(sheets) {
+  const sink = collector();
+  await writeOdsStream(sink, sheets.map((sheet) => {
+    const cells = sortCells(sheet.cells || []);
+    const columns = cells.reduce((widest, cell) => Math.max(widest, parseCellId(cell.cell_id).col + 1), 0);
+    return { name: sheet.name, columns, cells };
+  }));
+  return sink.toBuffer();
+}
+
+async function* contentXml(sheets, styles) {
+  yield `${XML_DECLARATION}<office:document-content${namespaceAttributes()} office:version="1.3"><office:body><office:spreadsheet>`;
+  for (let index = 0; index < sheets.length; index++) {
+    yield* tableXml(sheets[index], index, styles);
+  }
+  yield '</office:spreadsheet></office:body></office:document-content>';
+}
+
+async function* tableXml(sheet, index, styles) {
+  yield `<table:table table:name="${escapeXml(sheet.name || `Sheet${index + 1}`)}">`;
+  yield xmlElement('table:table-column', { 'table:number-columns-repeated': sheet.columns > 1 ? sheet.columns : undefined });
+
+  let nextRow = 0;
+  for await (const { row, cells } of cellRows(sheet.cells)) {
+    if (row > nextRow) yield emptyRows(row - nextRow);
+    const written = [];
+    let nextCol = 0;
+    cells.forEach(({ col, cell }) => {
+      if (col > nextCol) written.push(xmlElement('table:table-cell', { 'table:number-columns-repeated': col - nextCol > 1 ? col - nextCol : undefined }));
+      const style = styles.id(cell);
+      written.push(cellXml(cell, style ? `ce${style}` : undefined));
+      nextCol = col + 1;
+    });
+    yield xmlElement('table:table-row', {}, written);
+    nextRow = row + 1;
+  }
+  // A table has at least one row
+  if (nextRow === 0) yield emptyRows(1);
+  yield '</table:table>';
+}
+
+function emptyRows(count) {
+  return xmlElement('table:table-row', { 'table:number-rows-repeated': count > 1 ? count : undefined }, xmlElement('table:table-cell'));
+}
+
+function cellXml(cell, style) {
+  const { formula, result, type } = cellContent(cell);
+  const attributes = { 'table:style-name': style, 'table:formula': formula ? toOpenFormula(formula) : undefined };
+
+  if (type === 'number') {
+    Object.assign(attributes, { 'office:value-type': 'float', 'office:value': Number(result) });
+  } else if (type === 'boolean') {
+    Object.assign(attributes, { 'office:value-type': 'boolean', 'office:boolean-value': result.toLowerCase() });
+  } else if (result !== '' || formula) {
+    attributes['office:value-type'] = 'string';
+    if (formula) attributes['office:string-value'] = result;
+  }
+  return xmlElement('table:table-cell', attributes, result === '' ? undefined : paragraphs(result));
+}
+
+function paragraphs(text) {
+  return text
+    .split('\n')
+    .map((line) => xmlElement('text:p', {}, escapeXml(line).replace(/ {2,}/g, (spaces) => ` ${xmlElement('text:s', { 'text:c': spaces.length > 2 ? spaces.length - 1 : undefined })}`)))
+    .join('');
+}
+
+function stylesXml(styles) {
+  return XML_DECLARATION + xmlElement('office:document-styles', { ...NAMESPACES, 'office:version': '1.3' },
+    xmlElement('office:styles', {}, styles.map((style) =>
+      xmlElement('style:style', { 'style:name': `ce${style.id}`, 'style:family': 'table-cell' }, [
+        style.background_color ? xmlElement('style:table-cell-properties', { 'fo:background-color': style.background_color }) : '',
+        xmlElement('style:text-properties', {
+          'fo:font-weight': style.bold ? 'bold' : undefined,
+          'fo:font-style': style.italic ? 'italic' : undefined,
+          'style:text-underline-style': style.underline ? 'solid' : undefined,
+          'style:text-underline-width': style.underline ? 'auto' : undefined,
+          'style:text-underline-color': style.underline ? 'font-color' : undefined,
+          'fo:color': style.color || undefined,
+        }),
+      ])
+    ))
+  );
+}
+
+function namespaceAttributes() {
+  return Object.entries(NAMESPACES).map(([name, uri]) => ` ${name}="${uri}"`).join('');
+}
+
+// ---------------------------------------------------------------------------------------
+// Reading
+
+/**
+ * Sheets, merged ranges ("A1:B2" by sheet) and named ranges of an .ods file
+ */
+export function readOds(data) {
+  const entries = readZip(data);
+  const contentXml = entries.get('content.xml');
+  if (!contentXml) throw new Error('The file is not an OpenDocument spreadsheet');
+
+  const content = parseXml(contentXml.toString('utf8'));
+  const stylesXml = entries.get('styles.xml');
+  const styles = readStyles([
+    ...(stylesXml ? descendants(parseXml(stylesXml.toString('utf8')), 'style') : []),
+    ...descendants(childElement(content, 'automatic-styles'), 'style'),
+  ]);
+
+  const spreadsheet = descendants(content, 'spreadsheet')[0];
+  const sheets = childElements(spreadsheet, 'table').map((table) => readTable(table, styles));
+
+  const names = {};
+  const named = childElement(spreadsheet, 'named-expressions');
+  childElements(named, 'named-range').forEach((range) => {
+    names[attribute(range, 'name')] = gridReference(attribute(range, 'cell-range-address') || '');
+  });
+  childElements(named, 'named-expression').forEach((expression) => {
+    names[attribute(expression, 'name')] = fromOpenFormula(attribute(expression, 'expression') || '').substring(1);
+  });
+
+  return { sheets, names };
+}
+
+/** Cell formatting by style name, with parent styles applied */
+function readStyles(elements) {
+  const defined = new Map(elements.map((element) => [attribute(element, 'name'), element]));
+  const resolved = new Map();
+  const resolve = (name, depth = 0) => {
+    if (!name || !defined.has(name) || depth > 16) return {};
+    if (resolved.has(name)) return resolved.get(name);
+    const element = defined.get(name);
+    const text = childElement(element, 'text-properties');
+    const background = attribute(childElement(element, 'table-cell-properties'), 'background-color');
+    const weight = attribute(text, 'font-weight');
+    const fontStyle = attribute(text, 'font-style');
+    const underline = attribute(text, 'text-underline-style');
+    const own = {
+      bold: weight === undefined ? undefined : weight === 'bold' || Number(weight) >= 600,
+      italic: fontStyle === undefined ? undefined : fontStyle === 'italic' || fontStyle === 'oblique',
+      underline: underline === undefined ? undefined : underline !== 'none',
+      color: attribute(text, 'color'),
+      background_color: background && background !== 'transparent' ? background : undefined,
+    };
+    const format = { ...resolve(attribute(element, 'parent-style-name'), depth + 1) };
+    Object.entries(own).forEach(([key, value]) => {
+      if (value !== undefined) format[key] = value;
+    });
+    resolved.set(name, format);
+    return format;
+  };
+  return { get: (name) => resolve(name) };
+}
+
+function readTable(table, styles) {
+  const cells = [];
+  const merges = [];
+  const columnStyles = [];
+  descendants(table, 'table-column').forEach((column) => {
+    const repeat = Math.min(Number(attribute(column, 'number-columns-repeated') || 1), MAX_REPEAT);
+    for (let i = 0; i < repeat; i++) columnStyles.push(attribute(column, 'default-cell-style-name'));
+  });
+
+  let row = 0;
+  descendants(table, 'table-row').forEach((rowElement) => {
+    const cellElements = childElements(rowElement).filter((element) => /^(covered-)?table-cell$/.test(element.name.split(':').pop()));
+    const rowRepeat = Number(attribute(rowElement, 'number-rows-repeated') || 1);
+    const hasContent = cellElements.some((element) => element.children.length || attribute(element, 'formula') || attribute(element, 'value-type'));
+    // Trailing empty rows stretch to the bottom of the sheet
+    const repeat = hasContent ? Math.min(rowRepeat, MAX_REPEAT) : 1;
+
+    for (let r = 0; r < repeat; r++, row++) {
+      let col = 0;
+      cellElements.forEach((element) => {
+        const colRepeat = Number(attribute(element, 'number-columns-repeated') || 1);
+        const covered = element.name.endsWith('covered-table-cell');
+        const cell = covered ? null : readCell(element, styles, columnStyles[col]);
+        const spanRows = Number(attribute(element, 'number-rows-spanned') || 1);
+        const spanCols = Number(attribute(element, 'number-columns-spanned') || 1);
+        if (!covered && (spanRows > 1 || spanCols > 1)) {
+          merges.push(`${columnLetter(col)}${row + 1}:${columnLetter(col + spanCols - 1)}${row + spanRows}`);
+        }
+        if (cell) {
+          for (let c = 0; c < Math.min(colRepeat, MAX_REPEAT); c++) {
+            cells.push({ ...cell, cell_id: `${columnLetter(col + c)}${row + 1}` });
+          }
+        }
+        col += colRepeat;
+      });
+    }
+    if (!hasContent) row += rowRepeat - 1;
+  });
+
+  return { name: attribute(table, 'name'), cells, merges };
+}
+
+function readCell(element, styles, columnStyle) {
+  const type = attribute(element, 'value-type');
+  const formula = attribute(element, 'formula');
+  const format = styles.get(attribute(element, 'style-name') || columnStyle);
+  const text = childElements(element, 'p').map(paragraphText).join('\n');
+
+  let value = text;
+  if (type === 'float' || type === 'percentage' || type === 'currency') value = attribute(element, 'value') ?? text;
+  else if (type === 'boolean') value = attribute(element, 'boolean-value') === 'true' ? 'TRUE' : 'FALSE';
+  else if (type === 'date') value = attribute(element, 'date-value') ?? text;
+  else if (type === 'time') value = attribute(element, 'time-value') ?? text;
+  else if (type === 'string' && attribute(element, 'string-value') !== undefined) value = attribute(element, 'string-value');
+
+  const styled = format.bold || format.italic || format.underline || format.color || format.background_color;
+  if (!formula && value === '' && !styled) return null;
+  return {
+    value,
+    formula: formula ? fromOpenFormula(formula) : null,
+    bold: format.bold ? 1 : 0,
+    italic: format.italic ? 1 : 0,
+    underline: format.underline ? 1 : 0,
+    color: format.color || null,
+    background_color: format.background_color || null,
+  };
+}
+
+/** Text of a paragraph, with <text:s>, tabs and line breaks as the characters they stand for */
+function paragraphText(element) {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') return child;
+      const name = child.name.split(':').pop();
+      if (name === 's') return ' '.repeat(Number(attribute(child, 'c') || 1));
+      if (name === 'tab') return '\t';
+      if (name === 'line-break') return '\n';
+      if (name === 'annotation') return '';
+      return paragraphText(child);
+    })
+    .join('');
+}
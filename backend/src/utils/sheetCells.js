@@ -0,0 +1,126 @@
+/**
+ * Helpers shared by the file writers: A1-style references, rows of the cells table in
+ * sheet order, and the formatting combinations cells use
+ */
+
+export function columnLetter(col) {
+  let letters = '';
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** "B12" as { row: 11, col: 1 } */
+export function parseCellId(cellId) {
+  const match = /^\$?([A-Z]{1,3})\$?(\d+)$/i.exec(String(cellId).trim());
+  if (!match) return null;
+  const col = match[1].toUpperCase().split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  return { row: Number(match[2]) - 1, col };
+}
+
+/**
+ * A range such as "A1:C10", "B:D", "2:5" or "'My Sheet'!A1:B2" as 0-based bounds, with the
+ * sheet name when it has one. Whole columns and rows leave the other bounds open.
+ */
+export function parseRange(text) {
+  const value = String(text).trim();
+  const bang = value.lastIndexOf('!');
+  const sheet = bang === -1 ? null : value.substring(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+  const [first, second = first] = value.substring(bang + 1).replace(/\$/g, '').toUpperCase().split(':');
+
+  const corner = (part) => {
+    const cell = parseCellId(part);
+    if (cell) return cell;
+    if (/^[A-Z]{1,3}$/.test(part)) return { row: null, col: parseCellId(`${part}1`).col };
+    if (/^\d+$/.test(part) && Number(part) > 0) return { row: Number(part) - 1, col: null };
+    return undefined;
+  };
+  const start = corner(first);
+  const end = corner(second);
+  if (!start || !end || (start.row === null) !== (end.row === null) || (start.col === null) !== (end.col === null)) return null;
+
+  const bound = (a, b, pick) => (a === null ? null : pick(a, b));
+  return {
+    sheet,
+    startRow: bound(start.row, end.row, Math.min),
+    endRow: bound(start.row, end.row, Math.max),
+    startCol: bound(start.col, end.col, Math.min),
+    endCol: bound(start.col, end.col, Math.max),
+  };
+}
+
+/** Cells in row-major order, the order file writers take them in */
+export function sortCells(cells) {
+  return cells
+    .map((cell) => ({ cell, position: parseCellId(cell.cell_id) }))
+    .filter(({ position }) => position)
+    .sort((a, b) => a.position.row - b.position.row || a.position.col - b.position.col)
+    .map(({ cell }) => cell);
+}
+
+/**
+ * Cells grouped into rows: { row, cells: [{ col, cell }] } for each row holding a cell,
+ * from cells already in row-major order (an array or an async iterable)
+ */
+export async function* cellRows(cells) {
+  let current = null;
+  for await (const cell of cells) {
+    const position = parseCellId(cell.cell_id);
+    if (!position) continue;
+    if (current && position.row === current.row) {
+      // Cells out of order or at the same address are dropped
+      if (position.col > current.cells[current.cells.length - 1].col) current.cells.push({ col: position.col, cell });
+      continue;
+    }
+    if (current && position.row < current.row) continue;
+    if (current) yield current;
+    current = { row: position.row, cells: [{ col: position.col, cell }] };
+  }
+  if (current) yield current;
+}
+
+export function isNumber(value) {
+  return /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(String(value).trim());
+}
+
+/**
+ * What a cell shows and how: formulas keep their "="; `result` is the last calculated
+ * value of a formula, or the constant
+ */
+export function cellContent(cell) {
+  const value = cell.value === null || cell.value === undefined ? '' : String(cell.value);
+  const formula = cell.formula || (value.startsWith('=') ? value : null);
+  // An apostrophe enters the rest of a constant as text ('007)
+  if (!formula && value.startsWith("'")) return { formula, result: value.substring(1), type: 'text' };
+  // A formula cell's value is its last result, unless the value is the formula itself
+  const result = formula && value === formula ? '' : value;
+  const type = result !== '' && isNumber(result) ? 'number' : /^(TRUE|FALSE)$/i.test(result) ? 'boolean' : 'text';
+  return { formula, result, type };
+}
+
+/**
+ * Numbers the distinct formatting of cells (bold, italic, underline, color,
+ * background_color) in the order first seen; 0 is unformatted
+ */
+export function styleRegistry() {
+  const styles = new Map();
+  return {
+    id(cell) {
+      const key = [cell.bold ? 1 : 0, cell.italic ? 1 : 0, cell.underline ? 1 : 0, cell.color || '', cell.background_color || ''].join('|');
+      if (key === '0|0|0||') return 0;
+      if (!styles.has(key)) {
+        styles.set(key, {
+          id: styles.size + 1,
+          bold: Boolean(cell.bold),
+          italic: Boolean(cell.italic),
+          underline: Boolean(cell.underline),
+          color: cell.color || null,
+          background_color: cell.background_color || null,
+        });
+      }
+      return styles.get(key).id;
+    },
+    list: () => [...styles.values()],
+  };
+}
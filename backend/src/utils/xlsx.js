@@ -0,0 +1,195 @@
+import { ZipWriter } from './zip.js';
+import { cellContent, cellRows, columnLetter, styleRegistry } from './sheetCells.js';
+import { XML_DECLARATION, escapeXml, xmlElement } from './xml.js';
+
+/**
+ * Office Open XML workbooks (.xlsx) for the rows of the cells table, written as a stream.
+ *
+ * Sheets are { name, cells } as for writeOdsStream, with cells in row-major
+ * order. Text is written inline rather than in a shared string table, which would have
+ * to be complete before the first sheet. Formulas are written without their "=", with
+ * the names files give newer functions and spill references, and with the stored value as
+ * their cached result.
+ */
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const SPREADSHEET_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Excel limits sheet names to 31 characters without these
+const INVALID_SHEET_NAME = /[[\]:*?/\\]/g;
+
+// Functions added to Excel after 2007, which files name with a prefix
+const FUTURE_FUNCTIONS = new Set([
+  'AGGREGATE', 'ARABIC', 'BASE', 'BITAND', 'BITOR', 'BITXOR', 'BYCOL', 'BYROW', 'CEILING.MATH',
+  'CHOOSECOLS', 'CHOOSEROWS', 'CONCAT', 'CONFIDENCE.NORM', 'DAYS', 'DECIMAL', 'DROP', 'EXPAND',
+  'FLOOR.MATH', 'FORECAST.LINEAR', 'FORMULATEXT', 'HSTACK', 'IFNA', 'IFS', 'ISFORMULA', 'ISOMITTED',
+  'ISOWEEKNUM', 'LAMBDA', 'LET', 'MAKEARRAY', 'MAP', 'MAXIFS', 'MINIFS', 'MODE.SNGL', 'NORM.DIST',
+  'NORM.INV', 'NORM.S.DIST', 'NUMBERVALUE', 'PERCENTILE.EXC', 'PERCENTILE.INC', 'QUARTILE.EXC',
+  'QUARTILE.INC', 'RANDARRAY', 'RANK.AVG', 'RANK.EQ', 'REDUCE', 'SCAN', 'SEQUENCE', 'SHEET', 'SHEETS',
+  'SORTBY', 'STDEV.P', 'STDEV.S', 'SWITCH', 'T.TEST', 'TAKE', 'TEXTAFTER', 'TEXTBEFORE', 'TEXTJOIN',
+  'TEXTSPLIT', 'TOCOL', 'TOROW', 'UNICHAR', 'UNICODE', 'UNIQUE', 'VAR.P', 'VAR.S', 'VSTACK', 'WRAPCOLS',
+  'WRAPROWS', 'XLOOKUP', 'XMATCH', 'XOR',
+]);
+// ...and those that also carry the worksheet prefix
+const WORKSHEET_FUNCTIONS = new Set(['FILTER', 'SORT']);
+
+// Spill references (A1#, 'My Sheet'!A1#), skipping string literals and other quoted sheet names
+const SPILL_REFERENCE = /("(?:[^"]|"")*")|(?<![A-Za-z0-9_.$])((?:'(?:[^']|'')*'|[A-Za-z_][A-Za-z0-9_.]*)!)?(\$?[A-Za-z]{1,3}\$?\d+)#|'(?:[^']|'')*'/g;
+
+export async function writeXlsxStream(output, sheets) {
+  const styles = styleRegistry();
+  const names = sheetNames(sheets);
+  const zip = new ZipWriter(output);
+
+  await zip.add('[Content_Types].xml', contentTypesXml(sheets.length));
+  await zip.add('_rels/.rels', XML_DECLARATION + xmlElement('Relationships', { xmlns: PACKAGE_RELATIONSHIPS },
+    xmlElement('Relationship', { Id: 'rId1', Type: `${RELATIONSHIP_TYPE}/officeDocument`, Target: 'xl/workbook.xml' })
+  ));
+  await zip.add('xl/workbook.xml', XML_DECLARATION + xmlElement('workbook', { xmlns: MAIN, 'xmlns:r': RELATIONSHIPS },
+    xmlElement('sheets', {}, names.map((name, index) =>
+      xmlElement('sheet', { name, sheetId: index + 1, 'r:id': `rId${index + 1}` })
+    ))
+  ));
+  await zip.add('xl/_rels/workbook.xml.rels', XML_DECLARATION + xmlElement('Relationships', { xmlns: PACKAGE_RELATIONSHIPS }, [
+    ...sheets.map((sheet, index) =>
+      xmlElement('Relationship', { Id: `rId${index + 1}`, Type: `${RELATIONSHIP_TYPE}/worksheet`, Target: `worksheets/sheet${index + 1}.xml` })
+    ),
+    xmlElement('Relationship', { Id: `rId${sheets.length + 1}`, Type: `${RELATIONSHIP_TYPE}/styles`, Target: 'styles.xml' }),
+  ]));
+  for (let index = 0; index < sheets.length; index++) {
+    await zip.add(`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(sheets[index], styles));
+  }
+  // Written last: the formats in use are only known once every cell is written
+  await zip.add('xl/styles.xml', stylesXml(styles.list()));
+  await zip.finish();
+}
+
+function contentTypesXml(sheetCount) {
+  return XML_DECLARATION + xmlElement('Types', { xmlns: CONTENT_TYPES }, [
+    xmlElement('Default', { Extension: 'rels', ContentType: 'application/vnd.openxmlformats-package.relationships+xml' }),
+    xmlElement('Default', { Extension: 'xml', ContentType: 'application/xml' }),
+    xmlElement('Override', { PartName: '/xl/workbook.xml', ContentType: `${SPREADSHEET_TYPE}.sheet.main+xml` }),
+    ...Array.from({ length: sheetCount }, (_, index) =>
+      xmlElement('Override', { PartName: `/xl/worksheets/sheet${index + 1}.xml`, ContentType: `${SPREADSHEET_TYPE}.worksheet+xml` })
+    ),
+    xmlElement('Override', { PartName: '/xl/styles.xml', ContentType: `${SPREADSHEET_TYPE}.styles+xml` }),
+  ]);
+}
+
+/** Sheet names Excel accepts, unique regardless of case */
+function sheetNames(sheets) {
+  const used = new Set();
+  return sheets.map((sheet, index) => {
+    const base = String(sheet.name || '').replace(INVALID_SHEET_NAME, '_').replace(/^'+|'+$/g, '').substring(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toUpperCase()); n++) {
+      name = `${base.substring(0, 31 - String(n).length - 3)} (${n})`;
+    }
+    used.add(name.toUpperCase());
+    return name;
+  });
+}
+
+async function* worksheetXml(sheet, styles) {
+  yield `${XML_DECLARATION}<worksheet xmlns="${MAIN}" xmlns:r="${RELATIONSHIPS}">`;
+  yield '<sheetData>';
+  for await (const { row, cells } of cellRows(sheet.cells)) {
+    yield xmlElement('row', { r: row + 1 }, cells.map(({ col, cell }) => cellXml(`${columnLetter(col)}${row + 1}`, cell, styles.id(cell))));
+  }
+  yield '</sheetData></worksheet>';
+}
+
+/**
+ * A grid formula, without its "=", as files write it: "_xlfn.XLOOKUP(...)" and
+ * "SUM(_xlfn.ANCHORARRAY(A1))" for XLOOKUP(...) and SUM(A1#)
+ */
+function toFileFormula(formula) {
+  // Names outside string literals and quoted sheet names
+  const named = formula.replace(/"(?:[^"]|"")*"|'(?:[^']|'')*'|[^"']+/g, (part) =>
+    (part[0] === '"' || part[0] === "'" ? part : part.replace(/(?<![A-Za-z0-9_.])[A-Za-z][A-Za-z0-9.]*(?=\()/g, (name) => {
+      const upper = name.toUpperCase();
+      if (WORKSHEET_FUNCTIONS.has(upper)) return `_xlfn._xlws.${name}`;
+      return FUTURE_FUNCTIONS.has(upper) ? `_xlfn.${name}` : name;
+    })));
+  return named.replace(SPILL_REFERENCE, (match, string, sheet, cell) =>
+    (string || !cell ? match : `_xlfn.ANCHORARRAY(${sheet || ''}${cell})`));
+}
+
+function cellXml(ref, cell, style) {
+  const { formula, result, type } = cellContent(cell);
+  const attributes = { r: ref, s: style || undefined };
+  const children = [];
+  if (formula) children.push(xmlElement('f', {}, escapeXml(toFileFormula(formula.substring(1)))));
+
+  if (type === 'number') {
+    children.push(xmlElement('v', {}, String(Number(result))));
+  } else if (type === 'boolean') {
+    attributes.t = 'b';
+    children.push(xmlElement('v', {}, result.toUpperCase() === 'TRUE' ? '1' : '0'));
+  } else if (formula) {
+    attributes.t = 'str';
+    if (result !== '') children.push(xmlElement('v', {}, escapeXml(result)));
+  } else if (result !== '') {
+    attributes.t = 'inlineStr';
+    children.push(xmlElement('is', {}, xmlElement('t', { 'xml:space': /^\s|\s$|\n/.test(result) ? 'preserve' : undefined }, escapeXml(result))));
+  }
+  return xmlElement('c', attributes, children);
+}
+
+/** "#RRGGBB" as Excel's "FFRRGGBB" */
+function argb(color) {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(String(color || '').trim());
+  return hex ? `FF${hex[1].toUpperCase()}` : undefined;
+}
+
+function stylesXml(styles) {
+  // Font 0, fills 0 and 1 (which Excel reserves) and format 0 are the defaults
+  const fonts = [xmlElement('font', {}, [xmlElement('sz', { val: 11 }), xmlElement('name', { val: 'Calibri' })])];
+  const fills = [
+    xmlElement('fill', {}, xmlElement('patternFill', { patternType: 'none' })),
+    xmlElement('fill', {}, xmlElement('patternFill', { patternType: 'gray125' })),
+  ];
+  const formats = [xmlElement('xf', { numFmtId: 0, fontId: 0, fillId: 0, borderId: 0, xfId: 0 })];
+
+  styles.forEach((style) => {
+    const color = argb(style.color);
+    fonts.push(xmlElement('font', {}, [
+      style.bold ? xmlElement('b') : '',
+      style.italic ? xmlElement('i') : '',
+      style.underline ? xmlElement('u') : '',
+      xmlElement('sz', { val: 11 }),
+      color ? xmlElement('color', { rgb: color }) : '',
+      xmlElement('name', { val: 'Calibri' }),
+    ]));
+    const background = argb(style.background_color);
+    let fillId = 0;
+    if (background) {
+      fillId = fills.length;
+      fills.push(xmlElement('fill', {}, xmlElement('patternFill', { patternType: 'solid' }, xmlElement('fgColor', { rgb: background }))));
+    }
+    formats.push(xmlElement('xf', {
+      numFmtId: 0,
+      fontId: fonts.length - 1,
+      fillId,
+      borderId: 0,
+      xfId: 0,
+      applyFont: 1,
+      applyFill: fillId ? 1 : undefined,
+    }));
+  });
+
+  return XML_DECLARATION + xmlElement('styleSheet', { xmlns: MAIN }, [
+    xmlElement('fonts', { count: fonts.length }, fonts),
+    xmlElement('fills', { count: fills.length }, fills),
+    xmlElement('borders', { count: 1 }, xmlElement('border', {}, [xmlElement('left'), xmlElement('right'), xmlElement('top'), xmlElement('bottom'), xmlElement('diagonal')])),
+    xmlElement('cellStyleXfs', { count: 1 }, xmlElement('xf', { numFmtId: 0, fontId: 0, fillId: 0, borderId: 0 })),
+    xmlElement('cellXfs', { count: formats.length }, formats),
+    xmlElement('cellStyles', { count: 1 }, xmlElement('cellStyle', { name: 'Normal', xfId: 0, builtinId: 0 })),
+  ]);
+}
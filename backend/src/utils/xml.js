@@ -0,0 +1,163 @@
+/**
+ * A small XML reader and writer for the parts of spreadsheet files. The reader builds a
+ * tree of { name, attributes, children } elements (text children are strings); it skips
+ * comments, processing instructions and DOCTYPEs and does not validate.
+ */
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+export function decodeEntities(text) {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Markup for an element; undefined attributes are left out and children are markup already
+ */
+export function xmlElement(name, attributes = {}, children) {
+  const written = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  const content = Array.isArray(children) ? children.join('') : children;
+  return content === undefined || content === '' ? `<${name}${written}/>` : `<${name}${written}>${content}</${name}>`;
+}
+
+export function parseXml(xml) {
+  const root = { name: '#document', attributes: {}, children: [] };
+  const stack = [root];
+  let position = 0;
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    const parent = stack[stack.length - 1];
+    if (open === -1) {
+      appendText(parent, xml.substring(position));
+      break;
+    }
+    if (open > position) appendText(parent, xml.substring(position, open));
+
+    if (xml.startsWith('<!--', open)) {
+      position = endOf(xml, '-->', open);
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      const end = xml.indexOf(']]>', open);
+      const close = end === -1 ? xml.length : end;
+      parent.children.push(xml.substring(open + 9, close));
+      position = close + 3;
+    } else if (xml[open + 1] === '?' || xml[open + 1] === '!') {
+      position = endOf(xml, '>', open);
+    } else if (xml[open + 1] === '/') {
+      position = endOf(xml, '>', open);
+      if (stack.length > 1) stack.pop();
+    } else {
+      const { element, selfClosing, end } = readTag(xml, open);
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = end;
+    }
+  }
+
+  const element = root.children.find((child) => typeof child !== 'string');
+  if (!element) throw new Error('The file holds no XML document');
+  return element;
+}
+
+export function localName(name) {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.substring(colon + 1);
+}
+
+/** Child elements, optionally only those with a (local) name */
+export function childElements(element, name) {
+  if (!element) return [];
+  return element.children.filter(
+    (child) => typeof child !== 'string' && (!name || child.name === name || localName(child.name) === name)
+  );
+}
+
+export function childElement(element, name) {
+  return childElements(element, name)[0];
+}
+
+/** Every element below this one with a (local) name, in document order */
+export function descendants(element, name) {
+  const found = [];
+  const visit = (node) => {
+    node.children.forEach((child) => {
+      if (typeof child === 'string') return;
+      if (child.name === name || localName(child.name) === name) found.push(child);
+      visit(child);
+    });
+  };
+  if (element) visit(element);
+  return found;
+}
+
+/** Attribute by full or local name */
+export function attribute(element, name) {
+  if (!element) return undefined;
+  if (name in element.attributes) return element.attributes[name];
+  const key = Object.keys(element.attributes).find((candidate) => localName(candidate) === name);
+  return key === undefined ? undefined : element.attributes[key];
+}
+
+function appendText(element, raw) {
+  const text = decodeEntities(raw);
+  const last = element.children[element.children.length - 1];
+  if (typeof last === 'string') element.children[element.children.length - 1] = last + text;
+  else element.children.push(text);
+}
+
+function endOf(xml, terminator, from) {
+  const end = xml.indexOf(terminator, from);
+  return end === -1 ? xml.length : end + terminator.length;
+}
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function readTag(xml, open) {
+  // The closing ">" outside quoted attribute values
+  let position = open + 1;
+  let quote = null;
+  while (position < xml.length) {
+    const char = xml[position];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      break;
+    }
+    position++;
+  }
+  const inner = xml.substring(open + 1, position);
+  const selfClosing = inner.endsWith('/');
+  const body = selfClosing ? inner.substring(0, inner.length - 1) : inner;
+  const nameEnd = body.search(/[\s/]/);
+  const name = nameEnd === -1 ? body : body.substring(0, nameEnd);
+
+  const attributes = {};
+  const rest = nameEnd === -1 ? '' : body.substring(nameEnd);
+  for (const match of rest.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+  }
+  return { element: { name, attributes, children: [] }, selfClosing, end: position + 1 };
+}
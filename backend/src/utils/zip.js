@@ -0,0 +1,251 @@
+import { once } from 'events';
+import { createDeflateRaw, inflateRawSync } from 'zlib';
+
+/**
+ * ZIP packages for spreadsheet files (.ods, .xlsx). Entries are written to a stream as
+ * they are produced, so a large export never sits in memory whole.
+ * ZIP64 and encrypted archives are not supported.
+ */
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// Bit 3: sizes and CRC follow the data; bit 11: names are UTF-8
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const BATCH_SIZE = 64 * 1024;
+
+let crcTable = null;
+
+/** CRC-32 of data, continuing from the CRC of what came before it */
+export function crc32(data, previous = 0) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes a ZIP archive to a writable stream, one entry after another, waiting for the
+ * stream to drain so a slow client holds back the producer
+ */
+export class ZipWriter {
+  constructor(output) {
+    this.output = output;
+    this.offset = 0;
+    this.central = [];
+  }
+
+  /**
+   * Add an entry. `source` is a string, a Buffer or an (async) iterable of them.
+   * `stored` skips compression, as ODF requires for its "mimetype" entry; stored entries
+   * must be a string or Buffer.
+   */
+  async add(path, source, { stored = false } = {}) {
+    const name = Buffer.from(path, 'utf8');
+    const { time, date } = dosDateTime(new Date());
+    const entry = { name, time, date, offset: this.offset, crc: 0, size: 0, compressedSize: 0 };
+
+    if (stored) {
+      const data = toBuffer(source);
+      Object.assign(entry, { method: METHOD_STORED, flags: FLAG_UTF8, crc: crc32(data), size: data.length, compressedSize: data.length });
+      await this.write(localHeader(entry));
+      await this.write(data);
+    } else {
+      Object.assign(entry, { method: METHOD_DEFLATE, flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR });
+      await this.write(localHeader(entry));
+
+      const deflate = createDeflateRaw();
+      const feed = (async () => {
+        // Sources yield a row or a cell at a time; compress them in batches
+        let pending = [];
+        let pendingSize = 0;
+        const flush = async () => {
+          const data = Buffer.concat(pending);
+          pending = [];
+          pendingSize = 0;
+          entry.crc = crc32(data, entry.crc);
+          entry.size += data.length;
+          if (!deflate.write(data)) await once(deflate, 'drain');
+        };
+        for await (const chunk of typeof source === 'string' || Buffer.isBuffer(source) ? [source] : source) {
+          const data = toBuffer(chunk);
+          pending.push(data);
+          pendingSize += data.length;
+          if (pendingSize >= BATCH_SIZE) await flush();
+        }
+        if (pendingSize) await flush();
+        deflate.end();
+      })().catch((error) => deflate.destroy(error));
+
+      for await (const compressed of deflate) {
+        entry.compressedSize += compressed.length;
+        await this.write(compressed);
+      }
+      await feed;
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+      descriptor.writeUInt32LE(entry.crc, 4);
+      descriptor.writeUInt32LE(entry.compressedSize, 8);
+      descriptor.writeUInt32LE(entry.size, 12);
+      await this.write(descriptor);
+    }
+    this.central.push(entry);
+  }
+
+  /** Write the central directory; the output is not ended */
+  async finish() {
+    const start = this.offset;
+    for (const entry of this.central) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.central.length, 8);
+    end.writeUInt16LE(this.central.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+
+  async write(data) {
+    this.offset += data.length;
+    if (!this.output.write(data)) await drain(this.output);
+  }
+}
+
+/**
+ * Wait until a stream takes more data; fails when it closes first, as when a client
+ * goes away mid-download
+ */
+export async function drain(stream) {
+  if (stream.destroyed) throw new Error('The output closed before it was written');
+  const controller = new AbortController();
+  try {
+    await Promise.race([
+      once(stream, 'drain', { signal: controller.signal }),
+      once(stream, 'close', { signal: controller.signal }).then(() => {
+        throw new Error('The output closed before it was written');
+      }),
+    ]);
+  } finally {
+    controller.abort();
+  }
+}
+
+/**
+ * A writable that keeps what is written, for archives built in memory
+ */
+export function collector() {
+  const chunks = [];
+  return {
+    write(data) {
+      chunks.push(data);
+      return true;
+    },
+    toBuffer: () => Buffer.concat(chunks),
+  };
+}
+
+function localHeader(entry) {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(entry.method, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  // Zero for entries with a data descriptor
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  return Buffer.concat([header, entry.name]);
+}
+
+function toBuffer(data) {
+  return typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+}
+
+/**
+ * Entries of an archive as a Map of path -> Buffer, read through the central directory
+ */
+export function readZip(data) {
+  const endOffset = findEndOfCentralDirectory(data);
+  if (endOffset === -1) throw new Error('The file is not a ZIP archive');
+
+  const count = data.readUInt16LE(endOffset + 10);
+  let position = data.readUInt32LE(endOffset + 16);
+  const entries = new Map();
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > data.length || data.readUInt32LE(position) !== CENTRAL_HEADER) {
+      throw new Error('The ZIP archive is damaged');
+    }
+    const flags = data.readUInt16LE(position + 8);
+    const method = data.readUInt16LE(position + 10);
+    const compressedSize = data.readUInt32LE(position + 20);
+    const nameLength = data.readUInt16LE(position + 28);
+    const extraLength = data.readUInt16LE(position + 30);
+    const commentLength = data.readUInt16LE(position + 32);
+    const localOffset = data.readUInt32LE(position + 42);
+    const path = data.toString('utf8', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 1) throw new Error(`${path} is encrypted`);
+    if (path.endsWith('/')) continue;
+
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(start, start + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.set(path, compressed);
+    } else if (method === METHOD_DEFLATE) {
+      entries.set(path, inflateRawSync(compressed));
+    } else {
+      throw new Error(`${path} uses an unsupported compression method (${method})`);
+    }
+  }
+  return entries;
+}
+
+function findEndOfCentralDirectory(data) {
+  // The record is 22 bytes, followed by a comment of up to 65,535 bytes
+  const last = Math.max(0, data.length - 22 - 0xffff);
+  for (let position = data.length - 22; position >= last; position--) {
+    if (data.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY) return position;
+  }
+  return -1;
+}
+
+function dosDateTime(when) {
+  return {
+    time: (when.getHours() << 11) | (when.getMinutes() << 5) | Math.floor(when.getSeconds() / 2),
+    date: ((Math.max(1980, when.getFullYear()) - 1980) << 9) | ((when.getMonth() + 1) << 5) | when.getDate(),
+  };
+}
@@ -0,0 +1,270 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+
+// A database of its own, created before the modules that open it are loaded
+process.env.DB_URL = ':memory:';
+const { getDatabase, initializeDatabase } = await import('../src/utils/database.js');
+const { default: importExportRoutes } = await import('../src/routes/importExport.js');
+const { readOds } = await import('../src/utils/ods.js');
+const { readZip } = await import('../src/utils/zip.js');
+
+function runAsync(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+}
+
+// supertest collects binary bodies as a Buffer
+function binaryParser(res, callback) {
+  const chunks = [];
+  res.on('data', (chunk) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/import-export', importExportRoutes);
+  return app;
+}
+
+async function createTestUser() {
+  const userId = uuidv4();
+  const testEmail = `export-${uuidv4()}@example.com`;
+
+  await runAsync(
+    'INSERT INTO users (id, name, email) VALUES (?, ?, ?)',
+    [userId, 'Export User', testEmail]
+  );
+
+  const token = jwt.sign(
+    { id: userId, name: 'Export User', email: testEmail },
+    process.env.JWT_SECRET || 'dev-secret-key'
+  );
+
+  return { userId, token };
+}
+
+// A spreadsheet with a sheet for each { name: { A1: value | { value, formula, bold } } }
+async function createWorkbook(userId, sheets) {
+  const spreadsheetId = uuidv4();
+  await runAsync(
+    'INSERT INTO spreadsheets (id, name, owner_id) VALUES (?, ?, ?)',
+    [spreadsheetId, 'Quarterly Report', userId]
+  );
+
+  const sheetIds = [];
+  const names = Object.keys(sheets);
+  for (let position = 0; position < names.length; position++) {
+    const sheetId = uuidv4();
+    sheetIds.push(sheetId);
+    await runAsync(
+      'INSERT INTO sheets (id, spreadsheet_id, name, position) VALUES (?, ?, ?, ?)',
+      [sheetId, spreadsheetId, names[position], position]
+    );
+    for (const [cellId, content] of Object.entries(sheets[names[position]])) {
+      const cell = typeof content === 'string' ? { value: content } : content;
+      await runAsync(
+        `INSERT INTO cells (id, sheet_id, cell_id, value, formula, bold, italic, underline)
+         VALUES (?, ?, ?, ?, ?, ?, 0, 0)`,
+        [uuidv4(), sheetId, cellId, cell.value, cell.formula || null, cell.bold ? 1 : 0]
+      );
+    }
+  }
+  return { spreadsheetId, sheetIds };
+}
+
+test('Export endpoint', async (t) => {
+  // Connection messages on stdout would land in the middle of the runner's own output
+  t.mock.method(console, 'log', () => {});
+  await initializeDatabase();
+  const app = createApp();
+  const { userId, token } = await createTestUser();
+
+  const { spreadsheetId, sheetIds } = await createWorkbook(userId, {
+    Sales: {
+      A1: { value: 'Region', bold: true },
+      B1: { value: 'Q1', bold: true },
+      A2: 'North',
+      B2: '120',
+      C2: { value: '240', formula: '=B2*2' },
+      A10: 'Total',
+      B10: { value: '120', formula: '=SUM(B2:B9)' },
+      AA3: 'Far, away',
+    },
+    'Cost Centers': {
+      A1: 'Rent',
+      B1: '"Office"',
+    },
+  });
+
+  const exportRequest = (query) =>
+    request(app)
+      .get('/api/import-export/export')
+      .query({ spreadsheetId, ...query })
+      .set('Authorization', `Bearer ${token}`);
+
+  await t.test('CSV - exports one sheet padded from A1', async () => {
+    const res = await exportRequest({ sheetId: sheetIds[1], format: 'csv' });
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers['content-type'], /text\/csv/);
+    assert.equal(res.text, '"Rent","""Office"""');
+  });
+
+  await t.test('CSV - a range limits and positions the cells', async () => {
+    const res = await exportRequest({ sheetId: sheetIds[0], format: 'csv', range: 'B1:C3' });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.text, ['"Q1",""', '"120","240"', '"",""'].join('\n'));
+  });
+
+  await t.test('CSV - columns past Z are not folded onto single letters', async () => {
+    const res = await exportRequest({ sheetId: sheetIds[0], format: 'csv', range: '3:3' });
+
+    assert.equal(res.status, 200);
+    const fields = res.text.split('","');
+    assert.equal(fields.length, 27, 'Row 3 should run to column AA');
+    assert.equal(fields[26], 'Far, away"');
+  });
+
+  await t.test('CSV - needs a single sheet', async () => {
+    const res = await exportRequest({ format: 'csv' });
+
+    assert.equal(res.status, 400);
+  });
+
+  await t.test('JSON - one sheet keeps the original shape, in row order', async () => {
+    const res = await exportRequest({ sheetId: sheetIds[0], format: 'json' });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.spreadsheet, 'Quarterly Report');
+    assert.ok(res.body.exportedAt, 'Should stamp the export');
+    assert.deepEqual(
+      res.body.cells.map((cell) => cell.cell_id),
+      ['A1', 'B1', 'A2', 'B2', 'C2', 'AA3', 'A10', 'B10'],
+      'A10 should follow row 3, not A1'
+    );
+  });
+
+  await t.test('JSON - without a sheet exports every sheet', async () => {
+    const res = await exportRequest({ format: 'json' });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.sheets.map((sheet) => sheet.name), ['Sales', 'Cost Centers']);
+    assert.equal(res.body.sheets[0].cells.length, 8);
+    assert.deepEqual(res.body.sheets[1].cells, [
+      { cell_id: 'A1', value: 'Rent' },
+      { cell_id: 'B1', value: '"Office"' },
+    ]);
+  });
+
+  await t.test('XLSX - every sheet with formulas and formatting', async () => {
+    const res = await exportRequest({ format: 'xlsx' }).buffer(true).parse(binaryParser);
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers['content-type'], /spreadsheetml\.sheet/);
+    assert.match(res.headers['content-disposition'], /Quarterly Report\.xlsx/);
+
+    const parts = readZip(res.body);
+    const workbook = parts.get('xl/workbook.xml').toString('utf8');
+    assert.match(workbook, /<sheet name="Sales" sheetId="1"/);
+    assert.match(workbook, /<sheet name="Cost Centers" sheetId="2"/);
+
+    const sales = parts.get('xl/worksheets/sheet1.xml').toString('utf8');
+    assert.match(sales, /<c r="A1" s="1" t="inlineStr"><is><t>Region<\/t><\/is><\/c>/);
+    assert.match(sales, /<c r="C2"><f>B2\*2<\/f><v>240<\/v><\/c>/);
+    assert.match(sales, /<c r="AA3" t="inlineStr">/);
+    assert.ok(sales.indexOf('r="AA3"') < sales.indexOf('r="A10"'), 'Rows should be in order');
+    assert.match(parts.get('xl/styles.xml').toString('utf8'), /<cellXfs count="2">/);
+  });
+
+  await t.test('ODS - a range on a named sheet', async () => {
+    const res = await exportRequest({ format: 'ods', range: "'Sales'!A1:B2" }).buffer(true).parse(binaryParser);
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers['content-type'], /opendocument\.spreadsheet/);
+
+    const workbook = readOds(res.body);
+    assert.equal(workbook.sheets.length, 1);
+    assert.equal(workbook.sheets[0].name, 'Sales');
+    assert.deepEqual(workbook.sheets[0].cells.map((cell) => cell.cell_id), ['A1', 'B1', 'A2', 'B2']);
+    assert.equal(workbook.sheets[0].cells[0].bold, 1);
+  });
+
+  await t.test('XLSX - newer functions and spill references as Excel names them', async () => {
+    const { spreadsheetId: lookupsId } = await createWorkbook(userId, {
+      Lookups: {
+        A1: { value: '3', formula: '=XLOOKUP(1,B1:B3,C1:C3)' },
+        A2: { value: '1', formula: '=SORT(B1:B3)' },
+        A5: { value: '9', formula: '=SUM(A2#)+LEN("A2#")' },
+      },
+    });
+    const res = await request(app)
+      .get('/api/import-export/export')
+      .query({ spreadsheetId: lookupsId, format: 'xlsx' })
+      .set('Authorization', `Bearer ${token}`)
+      .buffer(true)
+      .parse(binaryParser);
+
+    assert.equal(res.status, 200);
+    const sheet = readZip(res.body).get('xl/worksheets/sheet1.xml').toString('utf8');
+    assert.match(sheet, /<f>_xlfn\.XLOOKUP\(1,B1:B3,C1:C3\)<\/f>/);
+    assert.match(sheet, /<f>_xlfn\._xlws\.SORT\(B1:B3\)<\/f>/);
+    assert.match(sheet, /<f>SUM\(_xlfn\.ANCHORARRAY\(A2\)\)\+LEN\(&quot;A2#&quot;\)<\/f>/);
+  });
+
+  await t.test('Rejects unknown formats, ranges and sheets', async () => {
+    assert.equal((await exportRequest({ format: 'pdf' })).status, 400);
+    assert.equal((await exportRequest({ format: 'csv', range: 'A1:nope' })).status, 400);
+    assert.equal((await exportRequest({ format: 'csv', range: 'Missing!A1:B2' })).status, 404);
+  });
+
+  await t.test('Refuses users without access', async () => {
+    const stranger = await createTestUser();
+    const res = await request(app)
+      .get('/api/import-export/export')
+      .query({ spreadsheetId, format: 'json' })
+      .set('Authorization', `Bearer ${stranger.token}`);
+
+    assert.equal(res.status, 403);
+  });
+
+  await t.test('Large sheets are streamed', async () => {
+    const rows = 2000;
+    const columns = 20;
+    const { spreadsheetId: largeId, sheetIds: [largeSheet] } = await createWorkbook(userId, { Large: {} });
+    await runAsync('BEGIN');
+    for (let row = 1; row <= rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        await runAsync(
+          'INSERT INTO cells (id, sheet_id, cell_id, value, bold, italic, underline) VALUES (?, ?, ?, ?, 0, 0, 0)',
+          [uuidv4(), largeSheet, `${String.fromCharCode(65 + col)}${row}`, String(row * col)]
+        );
+      }
+    }
+    await runAsync('COMMIT');
+
+    const res = await request(app)
+      .get('/api/import-export/export')
+      .query({ spreadsheetId: largeId, format: 'xlsx' })
+      .set('Authorization', `Bearer ${token}`)
+      .buffer(true)
+      .parse(binaryParser);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.headers['content-length'], undefined, 'The file should be sent as it is written');
+    assert.equal(res.headers['transfer-encoding'], 'chunked');
+
+    const sheet = readZip(res.body).get('xl/worksheets/sheet1.xml').toString('utf8');
+    assert.equal(sheet.match(/<c /g).length, rows * columns);
+    assert.match(sheet, /<c r="T2000"><v>38000<\/v><\/c><\/row><\/sheetData>/);
+  });
+});
@@ -3,6 +3,7 @@ import assert from 'node:assert';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '../src/utils/database.js';
+import { readOds, writeOds } from '../src/utils/ods.js';
 
 // Helper to run database queries
 function runAsync(sql, params = []) {
@@ -232,6 +233,32 @@ Bob,28,SF`;
     assert.equal(exportedA2.value, 'John', 'Exported A2 should match imported');
   });
 
+  await t.test('IMPORT/EXPORT - should round-trip formulas and styles through ODS', async () => {
+    // Rows as the cells table returns them; the writer needs no database
+    const cells = [
+      { cell_id: 'A1', value: 'Total', formula: null, bold: 1, italic: 0, underline: 0, color: '#ff0000', background_color: null },
+      { cell_id: 'B1', value: '6', formula: '=SUM(C1:C3, Other!A1)', bold: 0, italic: 1, underline: 0, color: null, background_color: '#ffff00' }
+    ];
+    const ods = await writeOds([{ name: 'Sheet 1', cells }]);
+
+    assert.equal(ods.toString('utf8', 30, 38), 'mimetype', 'The mimetype entry should come first');
+
+    const workbook = readOds(ods);
+    assert.equal(workbook.sheets.length, 1, 'Should read one sheet');
+    assert.equal(workbook.sheets[0].name, 'Sheet 1', 'Sheet name should survive');
+
+    const total = workbook.sheets[0].cells.find((c) => c.cell_id === 'A1');
+    assert.equal(total.value, 'Total');
+    assert.equal(total.bold, 1, 'A1 should stay bold');
+    assert.equal(total.color, '#ff0000');
+
+    const sum = workbook.sheets[0].cells.find((c) => c.cell_id === 'B1');
+    assert.equal(sum.formula, '=SUM(C1:C3, Other!A1)', 'Formula should come back in grid syntax');
+    assert.equal(sum.value, '6', 'The cached result should be kept');
+    assert.equal(sum.italic, 1);
+    assert.equal(sum.background_color, '#ffff00');
+  });
+
   await t.test('PERMISSION CHECK - update should fail for viewer access', async () => {
     const { userId, token } = await createTestUser();
     const { spreadsheetId, sheetId } = await createTestSpreadsheet(userId);
@@ -6,9 +6,11 @@ import { FileSpreadsheet, Plus, Sparkles, Upload, Clock, Moon, Sun, Trash2 } fro
 import logoImage from "figma:asset/14bd33c00fb18a1e46e6fbec8038e908490efbfd.png";
 import { getRecentSheets, formatDate, deleteSpreadsheet, type SpreadsheetData } from "../utils/spreadsheetStorage";
 import { trackActivity } from "../utils/notificationSystem";
+import { importWorkbook, isWorkbookFile } from "../utils/exportImport";
 import { NotificationCenter } from "./NotificationCenter";
 import { ProfileMenu } from "./ProfileMenu";
 import { TemplatePickerDialog } from "./TemplatePickerDialog";
+import { CsvImportDialog } from "./dialogs/CsvImportDialog";
 
 interface DashboardProps {
   userName: string;
@@ -37,6 +39,7 @@ export function Dashboard({
 }: DashboardProps) {
   const [recentSheets, setRecentSheets] = useState<SpreadsheetData[]>([]);
   const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(() => {
     // Check localStorage, default to light mode
     const saved = localStorage.getItem('darkMode');
@@ -106,10 +109,18 @@ export function Dashboard({
   const handleImportFile = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.csv,.xls,.xlsx';
+    input.accept = '.csv,.tsv,.txt,.xls,.xlsx,.ods';
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
+      if (file && isWorkbookFile(file.name)) {
+        // Excel and OpenDocument workbooks open with all their sheets
+        importWorkbook(file)
+          .then(workbook => onImportFile?.({ workbook, fileName: file.name }))
+          .catch(error => alert(`Could not open ${file.name}: ${error instanceof Error ? error.message : error}`));
+      } else if (file && /\.(csv|tsv|txt)$/i.test(file.name)) {
+        // Delimited text goes through the import wizard
+        setCsvFile(file);
+      } else if (file) {
         const reader = new FileReader();
         reader.onload = (event) => {
           const content = event.target?.result as string;
@@ -117,37 +128,8 @@ export function Dashboard({
           
           let data: { [key: string]: string } = {};
           
-          if (fileExtension === 'csv') {
-            // Parse CSV
-            const rows = content.split('\n').map(row => {
-              // Handle quoted values with commas
-              const cells: string[] = [];
-              let current = '';
-              let inQuotes = false;
-              
-              for (let i = 0; i < row.length; i++) {
-                const char = row[i];
-                if (char === '"') {
-                  inQuotes = !inQuotes;
-                } else if (char === ',' && !inQuotes) {
-                  cells.push(current.trim());
-                  current = '';
-                } else {
-                  current += char;
-                }
-              }
-              cells.push(current.trim());
-              return cells;
-            });
-            
-            rows.forEach((row, rowIndex) => {
-              row.forEach((cell, colIndex) => {
-                const cellKey = `${String.fromCharCode(65 + colIndex)}${rowIndex + 1}`;
-                data[cellKey] = cell.replace(/^"(.*)"$/, '$1').trim();
-              });
-            });
-          } else if (fileExtension === 'xls' || fileExtension === 'xlsx') {
-            // For XLS/XLSX files, parse as tab-separated or treat as CSV
+          if (fileExtension === 'xls') {
+            // .xls files saved by the earlier tab-separated export
             const rows = content.split('\n').map(row => row.split(/\t|,/));
             
             rows.forEach((row, rowIndex) => {
@@ -442,6 +424,14 @@ export function Dashboard({
         </motion.div>
       </motion.div>
 
+      {/* CSV/TSV Import Wizard */}
+      <CsvImportDialog
+        open={!!csvFile}
+        file={csvFile}
+        onClose={() => setCsvFile(null)}
+        onImport={({ cells }) => onImportFile?.(cells)}
+      />
+
       {/* Template Picker Dialog */}
       <TemplatePickerDialog 
         open={templateDialogOpen}
@@ -376,12 +376,12 @@ export function DataValidation({
                   value={formula}
                   onChange={(e) => setFormula(e.target.value)}
                   onKeyDown={(e) => e.stopPropagation()}
-                  placeholder="e.g., $VALUE > 0 && $VALUE < 100"
+                  placeholder="e.g., =AND($VALUE > 0, $VALUE < 100)"
                   className="mt-1 font-mono"
                   rows={3}
                 />
                 <p className="text-xs text-gray-500 mt-2">
-                  Use $VALUE to reference the cell value. Formula must return true/false.
+                  Use $VALUE to reference the cell value. Formula must return TRUE/FALSE.
                 </p>
               </div>
             )}
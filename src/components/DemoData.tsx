@@ -135,7 +135,9 @@ export function generateDemoData(type: "sales" | "expenses" | "grades"): Map<str
         cells.set(`B${i + 2}`, { value: Math.floor(Math.random() * 30 + 70).toString() });
         cells.set(`C${i + 2}`, { value: Math.floor(Math.random() * 30 + 70).toString() });
         cells.set(`D${i + 2}`, { value: Math.floor(Math.random() * 30 + 70).toString() });
-        cells.set(`E${i + 2}`, { value: "=AVERAGE(B" + (i + 2) + ":D" + (i + 2) + ")", formula: "=AVERAGE(B" + (i + 2) + ":D" + (i + 2) + ")" });
+        // IFERROR keeps the average blank until a student has at least one score
+        const average = "=IFERROR(AVERAGE(B" + (i + 2) + ":D" + (i + 2) + "),\"\")";
+        cells.set(`E${i + 2}`, { value: average, formula: average });
       });
       break;
   }
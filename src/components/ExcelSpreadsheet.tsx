@@ -15,7 +15,7 @@ import { UndoRedoProvider } from '../contexts/UndoRedoContext';
 import { ClipboardProvider } from '../contexts/ClipboardContext';
 import { User } from '../types/spreadsheet';
 import { trackActivity } from '../utils/notificationSystem';
-import { clearSheetStorage, generateSheetUUID, initializeBlankSheet } from '../utils/sheetStorageManager';
+import { clearSheetStorage, initializeBlankSheet } from '../utils/sheetStorageManager';
 
 function ExcelContent({ 
   activeTab, 
@@ -30,11 +30,7 @@ function ExcelContent({
   spreadsheetTitle?: string;
   onTitleChange?: (title: string) => void;
 }) {
-  const { showFormulaBar } = useSpreadsheet();
-  const [sheets, setSheets] = useState([
-    { id: generateSheetUUID(), name: 'Sheet1' } // Initialize with UUID
-  ]);
-  const [activeSheetId, setActiveSheetId] = useState(() => sheets[0].id);
+  const { showFormulaBar, sheets, activeSheetId, setActiveSheetId, addSheet, renameSheet } = useSpreadsheet();
   
   // Initialize the first sheet with empty data
   useEffect(() => {
@@ -54,30 +50,6 @@ function ExcelContent({
     }
   };
 
-  const handleAddSheet = () => {
-    // Generate new UUID for the sheet
-    const newSheetUUID = generateSheetUUID();
-    const newSheetNumber = sheets.length + 1;
-    const newSheet = {
-      id: newSheetUUID, // Use UUID instead of simple counter
-      name: `Sheet${newSheetNumber}`
-    };
-    
-    // Initialize blank sheet with explicit empty data immediately
-    initializeBlankSheet(newSheetUUID);
-    
-    setSheets([...sheets, newSheet]);
-    setActiveSheetId(newSheet.id); // Set as active - this triggers load of empty data
-    
-    console.log(`\ud83c\udd95 Created new blank sheet: ${newSheetUUID}`);
-  };
-
-  const handleRenameSheet = (sheetId: string, newName: string) => {
-    setSheets(sheets.map(sheet => 
-      sheet.id === sheetId ? { ...sheet, name: newName } : sheet
-    ));
-  };
-  
   // Update global activeSheetId whenever it changes for SpreadsheetGrid
   useEffect(() => {
     (window as any).__activeSheetId = activeSheetId;
@@ -106,7 +78,7 @@ function ExcelContent({
       </div>
       {showFormulaBar && <FormulaBar />}
       <div className="flex-1 flex flex-col overflow-hidden">
-        <div className="flex-1 overflow-auto">
+        <div className="flex-1 overflow-hidden">
           <SpreadsheetGrid />
         </div>
         <div style={{ zIndex: 100 }}>
@@ -114,8 +86,8 @@ function ExcelContent({
             sheets={sheets}
             activeSheetId={activeSheetId}
             onSheetChange={setActiveSheetId}
-            onAddSheet={handleAddSheet}
-            onRenameSheet={handleRenameSheet}
+            onAddSheet={addSheet}
+            onRenameSheet={renameSheet}
           />
         </div>
       </div>
@@ -148,10 +120,13 @@ export function ExcelSpreadsheet({ user, onLogout, onBackToHome, importedData, c
     (!currentSpreadsheet.cellData || Object.keys(currentSpreadsheet.cellData).length === 0) &&
     !importedData;
 
+  // Excel workbooks arrive whole, with every sheet; other imports are the first sheet's cells
+  const importedWorkbook = importedData?.workbook;
+
   // Initialize data immediately based on the spreadsheet type
   const initialData = isNewBlankSpreadsheet 
     ? {} 
-    : (currentSpreadsheet?.cellData || importedData || {});
+    : (currentSpreadsheet?.cellData || (importedWorkbook ? {} : importedData) || {});
   
   // Update when currentSpreadsheet changes and track activity
   useEffect(() => {
@@ -177,8 +152,8 @@ export function ExcelSpreadsheet({ user, onLogout, onBackToHome, importedData, c
   }, [currentSpreadsheet, user?.email, isNewBlankSpreadsheet]);
 
   return (
-    <SpreadsheetProvider key={spreadsheetId} initialData={initialData}>
-      <UndoRedoProvider>
+    <SpreadsheetProvider key={spreadsheetId} initialData={initialData} initialWorkbook={importedWorkbook}>
+      <UndoRedoProvider spreadsheetId={spreadsheetId}>
         <ClipboardProvider>
           <ExcelContent 
             activeTab={activeTab} 
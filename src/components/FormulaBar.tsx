@@ -1,15 +1,17 @@
 import { useState, useRef, useEffect } from 'react';
-import { X, Check, Sigma } from 'lucide-react';
+import { X, Check, Sigma, Bookmark } from 'lucide-react';
 import { useSpreadsheet } from '../contexts/SpreadsheetContext';
 import { FormulaBuilder, FormulaDefinition } from './FormulaBuilder';
+import { NamedRanges, NamedRange } from './NamedRanges';
 
 interface FormulaBarProps {
   isDarkMode?: boolean;
 }
 
 export function FormulaBar({ isDarkMode = false }: FormulaBarProps) {
-  const { selectedCell, cellData, setCellData, getCellKey, setIsFormulaMode, setFormulaSelectionCells, setActiveFormula, isFormulaMode } = useSpreadsheet();
+  const { selectedCell, cellData, setCellData, getCellKey, setIsFormulaMode, setFormulaSelectionCells, setActiveFormula, isFormulaMode, sheets, namedRanges, defineName, deleteName } = useSpreadsheet();
   const [showFormulaBuilder, setShowFormulaBuilder] = useState(false);
+  const [showNameManager, setShowNameManager] = useState(false);
   const [builderPosition, setBuilderPosition] = useState({ x: 0, y: 0 });
   const formulaButtonRef = useRef<HTMLButtonElement>(null);
   
@@ -45,6 +47,17 @@ export function FormulaBar({ isDarkMode = false }: FormulaBarProps) {
     setShowFormulaBuilder(false);
   };
 
+  // Workbook names first, then each sheet's own names
+  const definedNames: NamedRange[] = [
+    ...Array.from(namedRanges, ([name, range]) => ({ name, range })),
+    ...sheets.flatMap(sheet => Array.from(sheet.namedRanges || new Map<string, string>(), ([name, range]) => ({ name, range, sheetId: sheet.id })))
+  ];
+
+  const handleEditName = (oldName: string, newName: string, range: string, sheetId?: string) => {
+    deleteName(oldName, sheetId);
+    defineName(newName, range, sheetId);
+  };
+
   const handleCancelFormula = () => {
     setIsFormulaMode(false);
     setFormulaSelectionCells([]);
@@ -93,6 +106,18 @@ export function FormulaBar({ isDarkMode = false }: FormulaBarProps) {
           >
             {displayCell}
           </div>
+          <button 
+            onClick={() => setShowNameManager(true)}
+            className="h-7 w-7 flex items-center justify-center rounded"
+            style={{
+              background: isDarkMode ? '#1a1a1a' : 'transparent'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.background = isDarkMode ? '#374151' : '#f3f4f6'}
+            onMouseLeave={(e) => e.currentTarget.style.background = isDarkMode ? '#1a1a1a' : 'transparent'}
+            title="Name Manager"
+          >
+            <Bookmark className="w-4 h-4" style={{ color: isDarkMode ? '#CCCCCC' : '#4b5563' }} />
+          </button>
           <button 
             ref={formulaButtonRef}
             onClick={handleFormulaButtonClick}
@@ -151,6 +176,16 @@ export function FormulaBar({ isDarkMode = false }: FormulaBarProps) {
         onClose={() => setShowFormulaBuilder(false)}
         onSelectFormula={handleSelectFormula}
       />
+
+      <NamedRanges
+        open={showNameManager}
+        onClose={() => setShowNameManager(false)}
+        namedRanges={definedNames}
+        sheets={sheets}
+        onAdd={defineName}
+        onDelete={deleteName}
+        onEdit={handleEditName}
+      />
     </>
   );
 }
@@ -1,4 +1,4 @@
-import { FileSpreadsheet, Save, Undo, Redo, LayoutDashboard, Edit2, Moon, Sun } from 'lucide-react';
+import { FileSpreadsheet, Save, Undo, Redo, LayoutDashboard, Edit2, Moon, Sun, ChevronDown } from 'lucide-react';
 import { Button } from './ui/button';
 import { useUndoRedo } from '../contexts/UndoRedoContext';
 import { useSpreadsheet } from '../contexts/SpreadsheetContext';
@@ -8,6 +8,7 @@ import { saveSpreadsheetToIPFS } from '../utils/pinataService';
 import { autoSaveSpreadsheet } from '../utils/spreadsheetStorage';
 import { trackActivity } from '../utils/notificationSystem';
 import { CollaborationMenu } from './CollaborationMenu';
+import FloatingDropdown from './ui/FloatingDropdown';
 
 interface HeaderProps {
   spreadsheetId: string;
@@ -18,11 +19,14 @@ interface HeaderProps {
 }
 
 export function Header({ spreadsheetId, spreadsheetTitle, onTitleChange, isDarkMode = false, onToggleTheme }: HeaderProps) {
-  const { canUndo, canRedo, undo, redo } = useUndoRedo();
-  const { setCellData, setCellFormats, cellData, inputMessage, cellFormats } = useSpreadsheet();
+  const { canUndo, canRedo, undo, redo, undoHistory } = useUndoRedo();
+  const { cellData, inputMessage, cellFormats } = useSpreadsheet();
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [title, setTitle] = useState(spreadsheetTitle);
   const titleInputRef = useRef<HTMLInputElement>(null);
+  const [historyAnchor, setHistoryAnchor] = useState<DOMRect | null>(null);
+  // Steps the history list would undo, while hovering it
+  const [historySteps, setHistorySteps] = useState(1);
 
   // Get user info from localStorage
   const userEmail = localStorage.getItem('userEmail') || 'user@etherx.com';
@@ -54,19 +58,16 @@ export function Header({ spreadsheetId, spreadsheetTitle, onTitleChange, isDarkM
   }, [spreadsheetId, title, userEmail, cellData, cellFormats]);
 
   const handleUndo = () => {
-    const prevState = undo();
-    if (prevState) {
-      setCellData(prevState.cellData);
-      setCellFormats(prevState.cellFormats);
-    }
+    undo();
   };
 
   const handleRedo = () => {
-    const nextState = redo();
-    if (nextState) {
-      setCellData(nextState.cellData);
-      setCellFormats(nextState.cellFormats);
-    }
+    redo();
+  };
+
+  const handleUndoSteps = (steps: number) => {
+    undo(steps);
+    setHistoryAnchor(null);
   };
 
   const handleTitleSubmit = () => {
@@ -167,6 +168,39 @@ export function Header({ spreadsheetId, spreadsheetTitle, onTitleChange, isDarkM
         >
           <Undo className="w-2 h-2" />
         </Button>
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          className={`h-4 w-2 p-0 -ml-2 text-black hover:bg-black hover:bg-opacity-10 ${!canUndo ? 'opacity-50 cursor-not-allowed' : ''}`}
+          onClick={(e) => {
+            setHistorySteps(1);
+            setHistoryAnchor(e.currentTarget.getBoundingClientRect());
+          }}
+          disabled={!canUndo}
+          title="Undo history"
+        >
+          <ChevronDown className="w-1.5 h-1.5" />
+        </Button>
+        {historyAnchor && (
+          <FloatingDropdown anchorRect={historyAnchor} onClose={() => setHistoryAnchor(null)}>
+            <div className="max-h-64 overflow-y-auto" onMouseLeave={() => setHistorySteps(1)}>
+              {undoHistory.map((entry, index) => (
+                <div
+                  key={entry.id}
+                  className="px-4 py-1 text-xs cursor-pointer whitespace-nowrap"
+                  style={{ color: '#000000', background: index < historySteps ? '#FFF3B0' : 'transparent' }}
+                  onMouseEnter={() => setHistorySteps(index + 1)}
+                  onClick={() => handleUndoSteps(index + 1)}
+                >
+                  {entry.label}
+                </div>
+              ))}
+            </div>
+            <div className="px-4 pt-1 mt-1 text-xs border-t" style={{ color: '#555555' }}>
+              Undo {historySteps} {historySteps === 1 ? 'Action' : 'Actions'}
+            </div>
+          </FloatingDropdown>
+        )}
         <Button 
           variant="ghost" 
           size="sm" 
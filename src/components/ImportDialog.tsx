@@ -20,6 +20,8 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { toast } from "sonner@2.0.3";
+import { importFromCSV, importWorkbook, isWorkbookFile } from "../utils/exportImport";
+import type { WorkbookFile } from "../utils/workbookFile";
 
 interface CloudFile {
   id: string;
@@ -34,9 +36,11 @@ interface ImportDialogProps {
   open: boolean;
   onClose: () => void;
   onImport: (data: Map<string, any>) => void;
+  // Excel workbooks are passed whole, with all their sheets
+  onImportWorkbook?: (workbook: WorkbookFile) => void;
 }
 
-export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
+export function ImportDialog({ open, onClose, onImport, onImportWorkbook }: ImportDialogProps) {
   const [selectedTab, setSelectedTab] = useState("local");
   const [isLoading, setIsLoading] = useState(false);
   const [googleDriveConnected, setGoogleDriveConnected] = useState(false);
@@ -121,47 +125,34 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.endsWith(".csv")) {
-      toast.error("Please select a CSV file");
+    const isWorkbook = isWorkbookFile(file.name);
+    if (!/\.(csv|tsv|txt)$/i.test(file.name) && !(isWorkbook && onImportWorkbook)) {
+      toast.error(onImportWorkbook ? "Please select a CSV, Excel (.xlsx) or OpenDocument (.ods) file" : "Please select a CSV file");
+      return;
+    }
+
+    if (isWorkbook) {
+      setIsLoading(true);
+      try {
+        onImportWorkbook!(await importWorkbook(file));
+        toast.success(`Imported ${file.name} successfully!`);
+        onClose();
+      } catch (err) {
+        toast.error(`Failed to read ${file.name}: ${err instanceof Error ? err.message : "not a spreadsheet workbook"}`);
+      } finally {
+        setIsLoading(false);
+      }
       return;
     }
 
     setIsLoading(true);
     try {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const text = event.target?.result as string;
-          const rows = text.split("\n").map((row) =>
-            row.split(",").map((cell) => cell.replace(/^"|"$/g, "").trim())
-          );
-
-          const cells = new Map();
-          rows.forEach((row, rowIndex) => {
-            row.forEach((value, colIndex) => {
-              if (value) {
-                const cellId = `${String.fromCharCode(65 + colIndex)}${rowIndex + 1}`;
-                cells.set(cellId, { value });
-              }
-            });
-          });
-
-          onImport(cells);
-          toast.success(`Imported ${file.name} successfully!`);
-          onClose();
-        } catch (err) {
-          toast.error("Failed to parse CSV file");
-        } finally {
-          setIsLoading(false);
-        }
-      };
-      reader.onerror = () => {
-        toast.error("Failed to read file");
-        setIsLoading(false);
-      };
-      reader.readAsText(file);
+      onImport(await importFromCSV(file));
+      toast.success(`Imported ${file.name} successfully!`);
+      onClose();
     } catch (err) {
-      toast.error("Failed to import file");
+      toast.error("Failed to parse CSV file");
+    } finally {
       setIsLoading(false);
     }
   };
@@ -262,12 +253,12 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
                     Click to upload or drag and drop
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    CSV files only (max 10MB)
+                    {onImportWorkbook ? "CSV, Excel (.xlsx) or OpenDocument (.ods) files (max 10MB)" : "CSV files only (max 10MB)"}
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept={onImportWorkbook ? ".csv,.tsv,.txt,.xlsx,.ods" : ".csv,.tsv,.txt"}
                     onChange={handleLocalFileSelect}
                     className="hidden"
                   />
@@ -276,7 +267,7 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
                 <div className="flex items-center gap-2 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                   <FileUp className="w-4 h-4 text-blue-500" />
                   <p className="text-sm text-muted-foreground">
-                    CSV format: Comma-separated values with headers in the first row
+                    CSV format: Comma, semicolon or tab separated values; headers in the first row are detected
                   </p>
                 </div>
 
@@ -2,60 +2,89 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Button } from "./ui/button";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { useState } from "react";
 import { Bookmark, Trash2, Edit } from "lucide-react";
+import { getFunctionNames, isCellRef } from "../utils/formulaEngine";
 
-interface NamedRange {
+export interface NamedRange {
   name: string;
   range: string;
+  // Sheet the name is visible on; workbook-wide when omitted
+  sheetId?: string;
 }
 
 interface NamedRangesProps {
   open: boolean;
   onClose: () => void;
-  namedRanges: Map<string, string>;
-  onAdd: (name: string, range: string) => void;
-  onDelete: (name: string) => void;
-  onEdit: (oldName: string, newName: string, range: string) => void;
+  namedRanges: NamedRange[];
+  sheets: { id: string; name: string }[];
+  onAdd: (name: string, range: string, sheetId?: string) => void;
+  onDelete: (name: string, sheetId?: string) => void;
+  onEdit: (oldName: string, newName: string, range: string, sheetId?: string) => void;
 }
 
+const WORKBOOK_SCOPE = "workbook";
+
 export function NamedRanges({
   open,
   onClose,
   namedRanges,
+  sheets,
   onAdd,
   onDelete,
   onEdit,
 }: NamedRangesProps) {
   const [newName, setNewName] = useState("");
   const [newRange, setNewRange] = useState("");
+  const [newScope, setNewScope] = useState(WORKBOOK_SCOPE);
   const [editingName, setEditingName] = useState<string | null>(null);
   const [editName, setEditName] = useState("");
   const [editRange, setEditRange] = useState("");
+  const [editScope, setEditScope] = useState<string | undefined>(undefined);
+
+  // Names must start with a letter and must not read as a cell reference (e.g. "Q1")
+  const isValidName = (name: string) => {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) || isCellRef(name) || /^(TRUE|FALSE)$/i.test(name)) {
+      alert("Name must start with a letter, contain only letters, numbers, and underscores, and must not look like a cell reference");
+      return false;
+    }
+    // A name holding a LAMBDA is called like a function, so it must not hide a built-in one
+    if (getFunctionNames().includes(name.toUpperCase())) {
+      alert(`${name.toUpperCase()} is a built-in function name`);
+      return false;
+    }
+    return true;
+  };
+
+  const sheetName = (sheetId?: string) =>
+    sheetId ? sheets.find((sheet) => sheet.id === sheetId)?.name ?? "Sheet" : "Workbook";
 
   const handleAdd = () => {
     if (newName && newRange) {
-      // Validate name (alphanumeric and underscores only)
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(newName)) {
-        alert("Name must start with a letter and contain only letters, numbers, and underscores");
+      if (!isValidName(newName)) {
         return;
       }
       
-      onAdd(newName, newRange);
+      onAdd(newName, newRange, newScope === WORKBOOK_SCOPE ? undefined : newScope);
       setNewName("");
       setNewRange("");
     }
   };
 
-  const handleStartEdit = (name: string, range: string) => {
+  const handleStartEdit = (name: string, range: string, sheetId?: string) => {
     setEditingName(name);
     setEditName(name);
     setEditRange(range);
+    setEditScope(sheetId);
   };
 
   const handleSaveEdit = () => {
     if (editingName && editName && editRange) {
-      onEdit(editingName, editName, editRange);
+      if (!isValidName(editName)) {
+        return;
+      }
+      onEdit(editingName, editName, editRange, editScope);
       setEditingName(null);
       setEditName("");
       setEditRange("");
@@ -68,7 +97,7 @@ export function NamedRanges({
     setEditRange("");
   };
 
-  const ranges = Array.from(namedRanges.entries()).map(([name, range]) => ({ name, range }));
+  const ranges = namedRanges;
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -82,13 +111,13 @@ export function NamedRanges({
 
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
-            Create named ranges to use in formulas (e.g., =SUM(Sales))
+            Create named ranges to use in formulas (e.g., =SUM(Sales)). A name can also hold a LAMBDA and be called like a function (e.g., =MARGIN(B2, C2)). Sheet-scoped names are only visible on their sheet.
           </p>
 
           {/* Add new range */}
           <div className="border border-border rounded-md p-4 space-y-3">
             <h4 className="text-sm">Add New Range</h4>
-            <div className="grid grid-cols-2 gap-3">
+            <div className="grid grid-cols-3 gap-3">
               <div>
                 <Label>Name</Label>
                 <Input
@@ -100,11 +129,25 @@ export function NamedRanges({
               <div>
                 <Label>Range</Label>
                 <Input
-                  placeholder="e.g., A1:A10"
+                  placeholder="e.g., A1:A10 or =LAMBDA(price, cost, (price - cost) / price)"
                   value={newRange}
                   onChange={(e) => setNewRange(e.target.value)}
                 />
               </div>
+              <div>
+                <Label>Scope</Label>
+                <Select value={newScope} onValueChange={setNewScope}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WORKBOOK_SCOPE}>Workbook</SelectItem>
+                    {sheets.map((sheet) => (
+                      <SelectItem key={sheet.id} value={sheet.id}>{sheet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <Button onClick={handleAdd} className="w-full">
               Add Named Range
@@ -118,8 +161,8 @@ export function NamedRanges({
               {ranges.length > 0 ? (
                 <div className="divide-y divide-border">
                   {ranges.map((range) => (
-                    <div key={range.name} className="p-3">
-                      {editingName === range.name ? (
+                    <div key={`${range.sheetId ?? WORKBOOK_SCOPE}:${range.name}`} className="p-3">
+                      {editingName === range.name && editScope === range.sheetId ? (
                         <div className="space-y-2">
                           <div className="grid grid-cols-2 gap-2">
                             <Input
@@ -146,20 +189,22 @@ export function NamedRanges({
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="font-medium">{range.name}</p>
-                            <p className="text-sm text-muted-foreground">{range.range}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {range.range} · {sheetName(range.sheetId)}
+                            </p>
                           </div>
                           <div className="flex gap-1">
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => handleStartEdit(range.name, range.range)}
+                              onClick={() => handleStartEdit(range.name, range.range, range.sheetId)}
                             >
                               <Edit className="w-4 h-4" />
                             </Button>
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => onDelete(range.name)}
+                              onClick={() => onDelete(range.name, range.sheetId)}
                             >
                               <Trash2 className="w-4 h-4 text-destructive" />
                             </Button>
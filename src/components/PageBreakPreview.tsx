@@ -0,0 +1,69 @@
+import { COLUMN_HEADER_HEIGHT, ROW_HEADER_WIDTH, type GridAxis } from "../utils/gridVirtualization";
+import type { PageLayout, PageSpan, PrintSettings } from "../utils/pageLayout";
+
+interface PageBreakPreviewProps {
+  layout: PageLayout;
+  settings: PrintSettings;
+  rowAxis: GridAxis;
+  colAxis: GridAxis;
+  /** Extent of the grid in view, from A1 */
+  width: number;
+  height: number;
+  zoom: number;
+}
+
+const BREAK_COLOR = "#1f4e9c";
+
+/**
+ * Page Break Preview - The printed pages drawn over the grid: cells outside the print
+ * area greyed out, automatic breaks dashed, manual breaks and print area edges solid
+ */
+export function PageBreakPreview({ layout, settings, rowAxis, colAxis, width, height, zoom }: PageBreakPreviewProps) {
+  const box = (rows: PageSpan, columns: PageSpan) => ({
+    x: colAxis.offsetOf(columns.start),
+    y: rowAxis.offsetOf(rows.start),
+    width: colAxis.offsetOf(columns.end + 1) - colAxis.offsetOf(columns.start),
+    height: rowAxis.offsetOf(rows.end + 1) - rowAxis.offsetOf(rows.start),
+  });
+  const areas = layout.areas.map(area => box({ start: area.startRow, end: area.endRow }, { start: area.startCol, end: area.endCol }));
+  // Fitting to the page ignores manual breaks
+  const isManual = (breaks: number[] | undefined, index: number) => !settings.fitToPage && !!breaks?.includes(index);
+
+  return (
+    <svg className="absolute pointer-events-none" style={{ left: ROW_HEADER_WIDTH, top: COLUMN_HEADER_HEIGHT, zIndex: 35 }} width={width} height={height}>
+      <path
+        d={[`M0 0H${width}V${height}H0Z`, ...areas.map(area => `M${area.x} ${area.y}h${area.width}v${area.height}h${-area.width}Z`)].join(" ")}
+        fill="rgba(128, 128, 128, 0.35)"
+        fillRule="evenodd"
+      />
+      {layout.pages.map(page => {
+        const { x, y, width: pageWidth, height: pageHeight } = box(page.rows, page.columns);
+        return (
+          <g key={page.number}>
+            <text
+              x={x + pageWidth / 2}
+              y={y + pageHeight / 2}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={Math.max(12, Math.min(48 * zoom, pageHeight / 4, pageWidth / 5))}
+              fontWeight="bold"
+              fill="rgba(128, 128, 128, 0.45)"
+            >
+              Page {page.number}
+            </text>
+            <rect x={x} y={y} width={pageWidth} height={pageHeight} fill="none" stroke={BREAK_COLOR} strokeWidth={1.5} strokeDasharray="6 4" />
+            {isManual(settings.rowBreaks, page.rows.start) && (
+              <line x1={x} y1={y} x2={x + pageWidth} y2={y} stroke={BREAK_COLOR} strokeWidth={2.5} />
+            )}
+            {isManual(settings.columnBreaks, page.columns.start) && (
+              <line x1={x} y1={y} x2={x} y2={y + pageHeight} stroke={BREAK_COLOR} strokeWidth={2.5} />
+            )}
+          </g>
+        );
+      })}
+      {areas.map((area, index) => (
+        <rect key={index} x={area.x} y={area.y} width={area.width} height={area.height} fill="none" stroke={BREAK_COLOR} strokeWidth={2.5} />
+      ))}
+    </svg>
+  );
+}
@@ -4,32 +4,25 @@ import { Label } from "./ui/label";
 import { Input } from "./ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Checkbox } from "./ui/checkbox";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Printer, FileDown } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { PageOrder, PaperSize, PrintSettings, parseTitleSpan, printAreas } from "../utils/pageLayout";
+
+export type { PrintSettings } from "../utils/pageLayout";
 
 interface PrintLayoutProps {
   open: boolean;
   onClose: () => void;
-  onPrint: (settings: PrintSettings) => void;
-}
-
-export interface PrintSettings {
-  orientation: 'portrait' | 'landscape';
-  paperSize: 'A4' | 'Letter' | 'Legal';
-  margins: { top: number; right: number; bottom: number; left: number };
-  scaling: number;
-  fitToPage: boolean;
-  showGridlines: boolean;
-  showHeaders: boolean;
-  headerText?: string;
-  footerText?: string;
-  pageNumbers: boolean;
+  /** The sheet's page setup the dialog opens with */
+  settings: PrintSettings;
+  onApply: (settings: PrintSettings) => void;
+  onExportPdf: (settings: PrintSettings) => void;
 }
 
-export function PrintLayout({ open, onClose, onPrint }: PrintLayoutProps) {
+export function PrintLayout({ open, onClose, settings, onApply, onExportPdf }: PrintLayoutProps) {
   const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
-  const [paperSize, setPaperSize] = useState<'A4' | 'Letter' | 'Legal'>('A4');
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4');
   const [scaling, setScaling] = useState("100");
   const [fitToPage, setFitToPage] = useState(false);
   const [showGridlines, setShowGridlines] = useState(true);
@@ -41,27 +34,75 @@ export function PrintLayout({ open, onClose, onPrint }: PrintLayoutProps) {
   const [marginRight, setMarginRight] = useState("0.7");
   const [marginBottom, setMarginBottom] = useState("0.75");
   const [marginLeft, setMarginLeft] = useState("0.7");
+  const [printArea, setPrintArea] = useState("");
+  const [titleRows, setTitleRows] = useState("");
+  const [titleColumns, setTitleColumns] = useState("");
+  const [pageOrder, setPageOrder] = useState<PageOrder>('downThenOver');
+
+  // Each opening starts from the sheet's current page setup
+  useEffect(() => {
+    if (!open) return;
+    setOrientation(settings.orientation);
+    setPaperSize(settings.paperSize);
+    setScaling(String(settings.scaling));
+    setFitToPage(settings.fitToPage);
+    setShowGridlines(settings.showGridlines);
+    setShowHeaders(settings.showHeaders);
+    setHeaderText(settings.headerText || "");
+    setFooterText(settings.footerText || "");
+    setPageNumbers(settings.pageNumbers);
+    setMarginTop(String(settings.margins.top));
+    setMarginRight(String(settings.margins.right));
+    setMarginBottom(String(settings.margins.bottom));
+    setMarginLeft(String(settings.margins.left));
+    setPrintArea(settings.printArea || "");
+    setTitleRows(settings.printTitleRows || "");
+    setTitleColumns(settings.printTitleColumns || "");
+    setPageOrder(settings.pageOrder || 'downThenOver');
+  }, [open]);
+
+  const printAreaInvalid = !!printArea.trim() && printAreas({ ...settings, printArea }, { row: -1, col: -1 }).length === 0;
+  const titleRowsInvalid = !!titleRows.trim() && !parseTitleSpan(titleRows, 'rows');
+  const titleColumnsInvalid = !!titleColumns.trim() && !parseTitleSpan(titleColumns, 'columns');
+  const invalid = printAreaInvalid || titleRowsInvalid || titleColumnsInvalid;
 
-  const handlePrint = () => {
-    const settings: PrintSettings = {
-      orientation,
-      paperSize,
-      margins: {
-        top: parseFloat(marginTop),
-        right: parseFloat(marginRight),
-        bottom: parseFloat(marginBottom),
-        left: parseFloat(marginLeft),
-      },
-      scaling: parseInt(scaling),
-      fitToPage,
-      showGridlines,
-      showHeaders,
-      headerText: headerText || undefined,
-      footerText: footerText || undefined,
-      pageNumbers,
-    };
-    
-    onPrint(settings);
+  const margin = (text: string, fallback: number) => {
+    const value = parseFloat(text);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  const buildSettings = (): PrintSettings => ({
+    ...settings,
+    orientation,
+    paperSize,
+    margins: {
+      top: margin(marginTop, settings.margins.top),
+      right: margin(marginRight, settings.margins.right),
+      bottom: margin(marginBottom, settings.margins.bottom),
+      left: margin(marginLeft, settings.margins.left),
+    },
+    scaling: parseInt(scaling) || 100,
+    fitToPage,
+    showGridlines,
+    showHeaders,
+    headerText: headerText || undefined,
+    footerText: footerText || undefined,
+    pageNumbers,
+    printArea: printArea.trim() || undefined,
+    printTitleRows: titleRows.trim() || undefined,
+    printTitleColumns: titleColumns.trim() || undefined,
+    pageOrder,
+  });
+
+  const handleApply = () => {
+    onApply(buildSettings());
+    onClose();
+  };
+
+  const handleExport = () => {
+    const next = buildSettings();
+    onApply(next);
+    onExportPdf(next);
     onClose();
   };
 
@@ -76,10 +117,11 @@ export function PrintLayout({ open, onClose, onPrint }: PrintLayoutProps) {
         </DialogHeader>
 
         <Tabs defaultValue="page" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="page">Page Setup</TabsTrigger>
             <TabsTrigger value="margins">Margins</TabsTrigger>
             <TabsTrigger value="header">Header/Footer</TabsTrigger>
+            <TabsTrigger value="sheet">Sheet</TabsTrigger>
           </TabsList>
 
           <TabsContent value="page" className="space-y-4 mt-4">
@@ -233,7 +275,7 @@ export function PrintLayout({ open, onClose, onPrint }: PrintLayoutProps) {
                 onChange={(e) => setFooterText(e.target.value)}
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Use {'{page}'} for page number, {'{date}'} for date
+                Use {'{page}'} for page number, {'{pages}'} for the page count, {'{date}'} for date and {'{sheet}'} for the sheet name
               </p>
             </div>
 
@@ -258,21 +300,77 @@ export function PrintLayout({ open, onClose, onPrint }: PrintLayoutProps) {
                 </div>
                 {footerText && (
                   <div className="text-center text-sm mt-2 pt-2 border-t border-border">
-                    {footerText.replace('{page}', '1').replace('{date}', new Date().toLocaleDateString())}
+                    {footerText.replace('{page}', '1').replace('{pages}', '1').replace('{date}', new Date().toLocaleDateString())}
                   </div>
                 )}
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="sheet" className="space-y-4 mt-4">
+            <div>
+              <Label>Print Area</Label>
+              <Input
+                placeholder="e.g., A1:F40 (the whole sheet when empty)"
+                value={printArea}
+                onChange={(e) => setPrintArea(e.target.value)}
+              />
+              <p className={`text-xs mt-1 ${printAreaInvalid ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {printAreaInvalid ? 'Enter ranges such as A1:F40, separated by commas' : 'Separate ranges with commas; each range starts on a new page'}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Rows to repeat at top</Label>
+                <Input
+                  placeholder="e.g., $1:$1"
+                  value={titleRows}
+                  onChange={(e) => setTitleRows(e.target.value)}
+                />
+                {titleRowsInvalid && <p className="text-xs text-red-600 mt-1">Enter rows such as $1:$2</p>}
+              </div>
+              <div>
+                <Label>Columns to repeat at left</Label>
+                <Input
+                  placeholder="e.g., $A:$A"
+                  value={titleColumns}
+                  onChange={(e) => setTitleColumns(e.target.value)}
+                />
+                {titleColumnsInvalid && <p className="text-xs text-red-600 mt-1">Enter columns such as $A:$B</p>}
+              </div>
+            </div>
+
+            <div>
+              <Label>Page Order</Label>
+              <Select value={pageOrder} onValueChange={(v: any) => setPageOrder(v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="downThenOver">Down, then over</SelectItem>
+                  <SelectItem value="overThenDown">Over, then down</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Manual page breaks: {(settings.rowBreaks?.length || 0) + (settings.columnBreaks?.length || 0)}
+              {' '}(insert and remove them from the View tab)
+            </p>
+          </TabsContent>
         </Tabs>
 
         <DialogFooter className="gap-2">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handlePrint}>
-            <Printer className="w-4 h-4 mr-2" />
-            Print Preview
+          <Button variant="outline" onClick={handleApply} disabled={invalid}>
+            OK
+          </Button>
+          <Button onClick={handleExport} disabled={invalid}>
+            <FileDown className="w-4 h-4 mr-2" />
+            Export PDF
           </Button>
         </DialogFooter>
       </DialogContent>
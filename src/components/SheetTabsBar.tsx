@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Plus, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface Sheet {
@@ -11,7 +11,8 @@ interface SheetTabsBarProps {
   activeSheetId: string;
   onSheetChange: (sheetId: string) => void;
   onAddSheet: () => void;
-  onRenameSheet?: (sheetId: string, newName: string) => void;
+  /** Renames a sheet, returning why it could not be renamed or null when it was */
+  onRenameSheet?: (sheetId: string, newName: string) => string | null;
 }
 
 export function SheetTabsBar({ 
@@ -23,17 +24,29 @@ export function SheetTabsBar({
 }: SheetTabsBarProps) {
   const [editingSheetId, setEditingSheetId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   const handleDoubleClick = (sheet: Sheet) => {
     setEditingSheetId(sheet.id);
     setEditName(sheet.name);
+    setRenameError(null);
   };
 
+  const stopEditing = () => {
+    setEditingSheetId(null);
+    setRenameError(null);
+  };
+
+  // A name the workbook rejects keeps the tab in edit mode with the reason shown, as Excel does
   const handleRename = (sheetId: string) => {
-    if (editName.trim() && onRenameSheet) {
-      onRenameSheet(sheetId, editName.trim());
+    const error = editName.trim() && onRenameSheet ? onRenameSheet(sheetId, editName.trim()) : null;
+    if (!error) {
+      stopEditing();
+      return;
     }
-    setEditingSheetId(null);
+    setRenameError(error);
+    setTimeout(() => inputRef.current?.select());
   };
 
   return (
@@ -94,19 +107,34 @@ export function SheetTabsBar({
             }}
           >
             {editingSheetId === sheet.id ? (
-              <input
-                type="text"
-                value={editName}
-                onChange={(e) => setEditName(e.target.value)}
-                onBlur={() => handleRename(sheet.id)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') handleRename(sheet.id);
-                  if (e.key === 'Escape') setEditingSheetId(null);
-                }}
-                autoFocus
-                className="w-24 px-1 text-xs border border-blue-500 outline-none"
-                style={{ fontFamily: 'Calibri, sans-serif' }}
-              />
+              <>
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={editName}
+                  onChange={(e) => {
+                    setEditName(e.target.value);
+                    setRenameError(null);
+                  }}
+                  onBlur={() => handleRename(sheet.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(sheet.id);
+                    if (e.key === 'Escape') stopEditing();
+                  }}
+                  autoFocus
+                  aria-invalid={renameError !== null}
+                  className={`w-24 px-1 text-xs border outline-none ${renameError ? 'border-red-500' : 'border-blue-500'}`}
+                  style={{ fontFamily: 'Calibri, sans-serif' }}
+                />
+                {renameError && (
+                  <span
+                    role="alert"
+                    className="absolute left-0 bottom-full mb-1 px-2 py-1 text-xs text-white bg-red-600 rounded shadow whitespace-nowrap"
+                  >
+                    {renameError}
+                  </span>
+                )}
+              </>
             ) : (
               <span 
                 className="text-xs font-semibold select-none"
@@ -1,16 +1,32 @@
 interface SpreadsheetGridProps {
   isDarkMode?: boolean;
 }
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { FormulaDropdown, FormulaOption } from './FormulaDropdown';
-import { parseAndEvaluate, extractCellReferences, getRangeCells, FormulaContext } from '../utils/formulaEngine';
+import { formatCellValue, getRangeCells, MAX_COLUMNS, MAX_ROWS, shownInput } from '../utils/formulaEngine';
+import { resolveFormatCode } from '../utils/numberFormatPresets';
+import { AUTO_FIT_CONSTANTS, VERTICAL_TEXT_ROTATION, measureTextWidth } from '../utils/autoFit';
+import { CellBorders, borderCss } from '../utils/cellBorders';
+import {
+  createDataIndex,
+  createGridAxis,
+  findDataEdge,
+  firstIndexShowing,
+  visibleIndexes,
+  GridDirection,
+  COLUMN_HEADER_HEIGHT,
+  MAX_SCROLL_SIZE,
+  ROW_HEADER_WIDTH
+} from '../utils/gridVirtualization';
+import { sheetPageLayout } from '../utils/pdfExport';
 import { saveSpreadsheetToIPFS, loadSpreadsheetFromIPFS, autoSaveToIPFS } from '../utils/pinataService';
 import ShapeCanvas from './shapes/ShapeCanvas';
 import { validateCellValue, ValidationResult } from '../utils/validationBackend';
 import { CellValidation } from '../types/spreadsheet';
 import { ChevronDown } from 'lucide-react';
-import { getCellDisplayValue } from '../utils/formulaBackend';
 import { ChartRenderer } from './ChartRenderer';
+import { DynamicArrayIndicator, SpilledCellOverlay } from './DynamicArrayIndicator';
+import { PageBreakPreview } from './PageBreakPreview';
 import { 
   saveSheetData, 
   loadSheetData, 
@@ -45,18 +61,69 @@ type CellFormat = {
   textDecoration?: string;
   linkUrl?: string;
   backgroundColor?: string;
+  numberFormat?: string;
+  borders?: CellBorders;
+  wrapText?: boolean;
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  indent?: number;
+  textRotation?: number;
+  shrinkToFit?: boolean;
+  style?: string;
 };
 import { useClipboard } from '../contexts/ClipboardContext';
 import { useSpreadsheetWithHistory } from '../hooks/useSpreadsheetWithHistory';
 
-const COLS = 52; // A-Z, AA-AZ (52 columns - double Excel's default view)
-const ROWS = 100; // 100 rows (expandable, matches Excel's typical view)
+const COLS = MAX_COLUMNS; // A to XFD, as in Excel
+const ROWS = MAX_ROWS; // 1,048,576 rows; only the rows in view are rendered
+
+const ARROW_DIRECTIONS: Record<string, GridDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
+
+const VERTICAL_ALIGN_ITEMS = { top: 'flex-start', middle: 'center', bottom: 'flex-end' };
+
+/**
+ * Layout of a cell's text: wrapping, indent, rotation and the font size shrink-to-fit
+ * settles on for the column's width
+ */
+function textLayoutStyle(format: CellFormat, text: string, fontSize: string, columnWidth: number): React.CSSProperties {
+  const indent = (format.indent || 0) * AUTO_FIT_CONSTANTS.INDENT_WIDTH;
+  const style: React.CSSProperties = {
+    textAlign: (format.textAlign as any) || 'left',
+    whiteSpace: format.wrapText ? 'pre-wrap' : 'nowrap',
+    overflow: format.wrapText ? 'hidden' : 'visible',
+    overflowWrap: format.wrapText ? 'break-word' : undefined
+  };
+  if (indent) {
+    if (format.textAlign === 'right') style.paddingRight = indent;
+    else style.paddingLeft = indent;
+  }
+
+  if (format.shrinkToFit && !format.wrapText && text) {
+    const size = parseFloat(fontSize) || 11;
+    const width = measureTextWidth(text, { fontFamily: format.fontFamily, fontSize: `${size}px`, bold: format.bold, italic: format.italic });
+    const available = columnWidth - indent - 12;
+    if (width > available && available > 0) style.fontSize = `${Math.max(1, size * available / width)}px`;
+  }
+
+  if (format.textRotation === VERTICAL_TEXT_ROTATION) {
+    style.writingMode = 'vertical-rl';
+    style.textOrientation = 'upright';
+  } else if (format.textRotation) {
+    style.display = 'inline-block';
+    style.transform = `rotate(${-format.textRotation}deg)`;
+  }
+  return style;
+}
 
 function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
 
   // All state/context variables must be declared at the top, before any useEffect or logic that references them
   const [showAutosave, setShowAutosave] = useState(false);
-  const { selectedCell, setSelectedCell, selectedRange, setSelectedRange, cellData, setCellData, cellFormats, setCellFormats, cellValidations, inputMessage, setInputMessage, floatingImages, setFloatingImages, floatingCharts, setFloatingCharts, floatingTextBoxes, setFloatingTextBoxes, shapes, setShapes, drawingShapeType, setDrawingShapeType, selectedImage, setSelectedImage, setHasTextSelection, isTextBoxMode, setIsTextBoxMode, isFormulaMode, setIsFormulaMode, formulaSelectionCells, setFormulaSelectionCells, activeFormula, setActiveFormula, getCellKey, undo, redo, canUndo, canRedo, showGridlines, showHeadings, zoomLevel, freezePanes, evaluateConditionalFormatting } = useSpreadsheetWithHistory();
+  const { selectedCell, setSelectedCell, selectedRange, setSelectedRange, cellData, setCellData, cellFormats, setCellFormats, cellValidations, inputMessage, setInputMessage, floatingImages, setFloatingImages, floatingCharts, setFloatingCharts, floatingTextBoxes, setFloatingTextBoxes, shapes, setShapes, drawingShapeType, setDrawingShapeType, selectedImage, setSelectedImage, setHasTextSelection, isTextBoxMode, setIsTextBoxMode, isFormulaMode, setIsFormulaMode, formulaSelectionCells, setFormulaSelectionCells, activeFormula, setActiveFormula, getCellKey, undo, redo, canUndo, canRedo, showGridlines, showHeadings, zoomLevel, freezePanes, evaluateConditionalFormatting, formulaContext, getDisplayValue, getCyclePath, getSpillInfo, columnWidths, rowHeights, resolveFormat, formatPainter, stopFormatPainter, applyFormatPainter, pageBreakPreview, printSettings, buildPrintDrawings, hiddenRows } = useSpreadsheetWithHistory();
 
   const [isDrawing, setIsDrawing] = useState(false);
   const [drawStart, setDrawStart] = useState<{ x: number; y: number } | null>(null);
@@ -80,6 +147,85 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Windowed rendering: only the frozen panes and the rows and columns in view are in the DOM.
+  // Scrolling snaps to whole rows and columns, as in Excel.
+  const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [scrollPosition, setScrollPosition] = useState({ top: 0, left: 0 });
+  const zoom = zoomLevel / 100;
+  const rowAxis = useMemo(() => createGridAxis(ROWS, AUTO_FIT_CONSTANTS.DEFAULT_ROW_HEIGHT, rowHeights, zoom), [rowHeights, zoom]);
+  const colAxis = useMemo(() => createGridAxis(COLS, AUTO_FIT_CONSTANTS.DEFAULT_COLUMN_WIDTH, columnWidths, zoom), [columnWidths, zoom]);
+  const dataIndex = useMemo(() => createDataIndex(cellData), [cellData]);
+
+  const frozenRows = Math.min(freezePanes?.row ?? 0, ROWS - 1);
+  const frozenCols = Math.min(freezePanes?.col ?? 0, COLS - 1);
+  const frozenHeight = rowAxis.offsetOf(frozenRows);
+  const frozenWidth = colAxis.offsetOf(frozenCols);
+  const rowSpace = viewportSize.height - COLUMN_HEADER_HEIGHT - frozenHeight;
+  const colSpace = viewportSize.width - ROW_HEADER_WIDTH - frozenWidth;
+  // The scrollable parts of the sheet, squeezed into what the browser can lay out
+  const scaleY = Math.max(1, (rowAxis.totalSize - frozenHeight) / MAX_SCROLL_SIZE);
+  const scaleX = Math.max(1, (colAxis.totalSize - frozenWidth) / MAX_SCROLL_SIZE);
+  const firstRow = Math.max(frozenRows, rowAxis.indexAt(frozenHeight + scrollPosition.top * scaleY));
+  const firstCol = Math.max(frozenCols, colAxis.indexAt(frozenWidth + scrollPosition.left * scaleX));
+  const renderedRows = [
+    ...visibleIndexes(rowAxis, 0, viewportSize.height).filter(row => row < frozenRows),
+    ...visibleIndexes(rowAxis, firstRow, rowSpace)
+  ];
+  const renderedCols = [
+    ...visibleIndexes(colAxis, 0, viewportSize.width).filter(col => col < frozenCols),
+    ...visibleIndexes(colAxis, firstCol, colSpace)
+  ];
+  // How far the scrolled panes have moved, for overlays positioned in sheet coordinates
+  const scrolledY = rowAxis.offsetOf(firstRow) - frozenHeight;
+  const scrolledX = colAxis.offsetOf(firstCol) - frozenWidth;
+
+  // Page Break Preview outlines the pages the PDF export would print
+  const pageBreakLayout = useMemo(
+    () => pageBreakPreview
+      ? sheetPageLayout({ cells: cellData, formats: cellFormats, columnWidths, rowHeights }, printSettings, { drawings: buildPrintDrawings(), hiddenRows }).layout
+      : null,
+    [pageBreakPreview, printSettings, cellData, cellFormats, columnWidths, rowHeights, hiddenRows, floatingCharts, floatingImages, floatingTextBoxes, shapes]
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setViewportSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Bring the selected cell into view when the keyboard moves it out of the scrolled panes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!selectedCell || !container) return;
+    const { row, col } = selectedCell;
+    if (row >= frozenRows) {
+      const top = firstIndexShowing(rowAxis, firstRow, row, rowSpace);
+      if (top !== firstRow) container.scrollTop = Math.ceil((rowAxis.offsetOf(top) - frozenHeight) / scaleY);
+    }
+    if (col >= frozenCols) {
+      const left = firstIndexShowing(colAxis, firstCol, col, colSpace);
+      if (left !== firstCol) container.scrollLeft = Math.ceil((colAxis.offsetOf(left) - frozenWidth) / scaleX);
+    }
+  }, [selectedCell]);
+
+  // Ctrl+Arrow jumps to the edge of the data; plain arrows move one cell
+  const moveByArrow = (key: string, ctrlKey: boolean, row: number, col: number) => {
+    if (ctrlKey) {
+      return findDataEdge(dataIndex, { row, col }, ARROW_DIRECTIONS[key], { rows: ROWS, cols: COLS });
+    }
+    let newRow = row;
+    let newCol = col;
+    if (key === "ArrowUp" && row > 0) newRow--;
+    if (key === "ArrowDown" && row < ROWS - 1) newRow++;
+    if (key === "ArrowLeft" && col > 0) newCol--;
+    if (key === "ArrowRight" && col < COLS - 1) newCol++;
+    return { row: newRow, col: newCol };
+  };
+
   // Formula state
   const [showFormulaDropdown, setShowFormulaDropdown] = useState(false);
   const [formulaDropdownPosition, setFormulaDropdownPosition] = useState({ top: 0, left: 0 });
@@ -88,7 +234,6 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
   const [formulaSelectionMode, setFormulaSelectionMode] = useState(false);
   const [formulaSelectedCells, setFormulaSelectedCells] = useState<string[]>([]);
   const [formulaRangeStart, setFormulaRangeStart] = useState<string | null>(null);
-  const [cellEvaluatedValues, setCellEvaluatedValues] = useState<Map<string, any>>(new Map());
 
   // Validation state
   const [showValidationDropdown, setShowValidationDropdown] = useState(false);
@@ -292,6 +437,28 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
     return () => document.removeEventListener('mouseup', handleGlobalMouseUp);
   }, [isDragging]);
 
+  // A selection made while the Format Painter is on is painted once the mouse is released
+  const paintingRef = useRef(false);
+  useEffect(() => {
+    if (isDragging || !paintingRef.current) return;
+    paintingRef.current = false;
+    const target = selectedRange || (selectedCell && { startRow: selectedCell.row, startCol: selectedCell.col, endRow: selectedCell.row, endCol: selectedCell.col });
+    if (target) applyFormatPainter(target);
+  }, [isDragging]);
+
+  // Esc turns the Format Painter off before anything else sees the key
+  useEffect(() => {
+    if (!formatPainter) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      e.stopPropagation();
+      stopFormatPainter();
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [formatPainter, stopFormatPainter]);
+
   // Keyboard delete for charts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -334,6 +501,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
     }
     
     // Start range selection on mouse down
+    paintingRef.current = !!formatPainter;
     setIsDragging(true);
     setDragStart({ row, col });
     setSelectedCell({ row, col });
@@ -810,7 +978,6 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
     
     // Just update the cell data without validation on every keystroke
     setCellData(prev => ({ ...prev, [key]: value }));
-    evaluateFormulas();
   };
 
   // New function to validate on blur/enter
@@ -830,7 +997,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
       return true;
     }
     
-    const validationResult = validateCellValue(value, validation);
+    const validationResult = validateCellValue(value, validation, formulaContext);
     console.log('Validation result:', validationResult);
     
     if (!validationResult.valid) {
@@ -879,48 +1046,6 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
     return true;
   };
 
-  // Formula evaluation context
-  const createFormulaContext = (): FormulaContext => ({
-    getCellValue: (cellId: string) => {
-      const evaluated = cellEvaluatedValues.get(cellId);
-      if (evaluated !== undefined) return evaluated;
-      return cellData[cellId] || '';
-    },
-    getRangeValues: (startCell: string, endCell: string) => {
-      const cells = getRangeCells(startCell, endCell);
-      return cells.map(cellId => {
-        const evaluated = cellEvaluatedValues.get(cellId);
-        if (evaluated !== undefined) return evaluated;
-        return cellData[cellId] || '';
-      });
-    }
-  });
-
-  // Evaluate all formulas
-  const evaluateFormulas = () => {
-    const newEvaluatedValues = new Map<string, any>();
-    
-    Object.entries(cellData).forEach(([key, value]) => {
-      const cellValue = String(value);
-      if (cellValue.startsWith('=')) {
-        try {
-          const context = createFormulaContext();
-          const result = parseAndEvaluate(cellValue, context);
-          newEvaluatedValues.set(key, result);
-        } catch (error) {
-          newEvaluatedValues.set(key, '#ERROR!');
-        }
-      }
-    });
-    
-    setCellEvaluatedValues(newEvaluatedValues);
-  };
-
-  // Evaluate formulas when cell data changes
-  useEffect(() => {
-    evaluateFormulas();
-  }, [cellData]);
-
   const handleFormulaSelect = (formula: FormulaOption) => {
     setSelectedFormula(formula);
     setShowFormulaDropdown(false);
@@ -1008,12 +1133,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
     if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(e.key)) {
       e.preventDefault();
       e.stopPropagation();
-      let newRow = row;
-      let newCol = col;
-      if (e.key === "ArrowUp" && row > 0) newRow--;
-      if (e.key === "ArrowDown" && row < ROWS - 1) newRow++;
-      if (e.key === "ArrowLeft" && col > 0) newCol--;
-      if (e.key === "ArrowRight" && col < COLS - 1) newCol++;
+      const { row: newRow, col: newCol } = moveByArrow(e.key, e.ctrlKey || e.metaKey, row, col);
       setSelectedCell({ row: newRow, col: newCol });
       setEditingCell({ row: newRow, col: newCol });
       setShowCursor(false); // Hide cursor when navigating
@@ -1098,12 +1218,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
       if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(e.key)) {
         e.preventDefault();
         e.stopPropagation();
-        let newRow = row;
-        let newCol = col;
-        if (e.key === "ArrowUp" && row > 0) newRow--;
-        if (e.key === "ArrowDown" && row < ROWS - 1) newRow++;
-        if (e.key === "ArrowLeft" && col > 0) newCol--;
-        if (e.key === "ArrowRight" && col < COLS - 1) newCol++;
+        const { row: newRow, col: newCol } = moveByArrow(e.key, e.ctrlKey || e.metaKey, row, col);
         setSelectedCell({ row: newRow, col: newCol });
         setEditingCell({ row: newRow, col: newCol });
         setShowCursor(false);
@@ -1469,7 +1584,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
   };
 
   return (
-    <div className="w-full" style={{ position: 'relative', fontSize: '13px', minHeight: '100%' }}>
+    <div className="w-full" style={{ position: 'relative', fontSize: '13px', height: '100%' }}>
       <AutosaveNotification visible={showAutosave} />
       
       {/* Formula Dropdown */}
@@ -1552,47 +1667,59 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
       <div 
         ref={containerRef}
         className="overflow-auto bg-white"
+        onScroll={(e) => setScrollPosition({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
         style={{ 
           cursor: isTextBoxMode ? 'crosshair' : 'default',
           userSelect: isDragging ? 'none' : 'auto',
           WebkitUserSelect: isDragging ? 'none' : 'auto',
           MozUserSelect: isDragging ? 'none' : 'auto',
           msUserSelect: isDragging ? 'none' : 'element',
-          position: 'relative'
+          position: 'relative',
+          height: '100%'
         } as React.CSSProperties}
       >
-        <div className="inline-block relative" style={{ minWidth: '100%' }}>
-          <div style={{ position: 'relative' }}>
-            <table className="border-collapse" style={{ fontSize: `${zoomLevel}%`, tableLayout: 'auto', userSelect: 'none', fontFamily: 'Calibri, sans-serif', width: 'auto' }}>
+        {/* Sized like the whole sheet so the scrollbars cover every row and column */}
+        <div style={{
+          position: 'relative',
+          width: ROW_HEADER_WIDTH + frozenWidth + (colAxis.totalSize - frozenWidth) / scaleX,
+          height: COLUMN_HEADER_HEIGHT + frozenHeight + (rowAxis.totalSize - frozenHeight) / scaleY
+        }}>
+          {/* Stays in view while scrolling; renders the frozen panes and the rows/columns in view */}
+          <div style={{ position: 'sticky', top: 0, left: 0, width: viewportSize.width, height: viewportSize.height, overflow: 'hidden' }}>
+            <table className="border-collapse" style={{ fontSize: `${zoomLevel}%`, tableLayout: 'fixed', userSelect: 'none', fontFamily: 'Calibri, sans-serif', width: ROW_HEADER_WIDTH + renderedCols.reduce((total, col) => total + colAxis.sizeOf(col), 0) }}>
+              <colgroup>
+                <col style={{ width: ROW_HEADER_WIDTH }} />
+                {renderedCols.map(colIndex => (
+                  <col key={colIndex} style={{ width: colAxis.sizeOf(colIndex) }} />
+                ))}
+              </colgroup>
               <thead>
                 <tr>
-                  <th className="sticky top-0 left-0" style={{ 
-                    width: '42px', 
-                    height: '28px', 
-                    minHeight: '28px',
+                  <th style={{ 
+                    width: `${ROW_HEADER_WIDTH}px`, 
+                    height: `${COLUMN_HEADER_HEIGHT}px`, 
                     backgroundColor: '#f0f0f0', 
                     borderRight: '1px solid #d0d0d0', 
                     borderBottom: '1px solid #a6a6a6',
                     zIndex: 30,
                     visibility: showHeadings ? 'visible' : 'hidden' 
                   }}></th>
-                  {Array.from({ length: COLS }).map((_, colIndex) => (
+                  {renderedCols.map(colIndex => (
                     <th
                       key={colIndex}
-                      className="sticky top-0 text-center"
+                      className="text-center"
                       style={{ 
-                        minWidth: '64px',
-                        height: '28px', 
-                        minHeight: '28px', 
+                        height: `${COLUMN_HEADER_HEIGHT}px`, 
                         padding: '0', 
                         fontSize: '11px', 
-                        lineHeight: '28px',
+                        lineHeight: `${COLUMN_HEADER_HEIGHT}px`,
                         fontWeight: 'bold',
                         fontFamily: 'Calibri, sans-serif',
                         backgroundColor: '#f0f0f0',
                         borderRight: '1px solid #d0d0d0',
                         borderBottom: '1px solid #a6a6a6',
                         color: '#000000',
+                        overflow: 'hidden',
                         zIndex: 20,
                         visibility: showHeadings ? 'visible' : 'hidden'
                       }}
@@ -1603,17 +1730,12 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                 </tr>
               </thead>
               <tbody>
-                {Array.from({ length: ROWS }).map((_, rowIndex) => (
-                  <tr key={rowIndex}>
-                    <td className="sticky left-0 text-center" style={{ 
-                      width: '42px',
-                      minWidth: '42px',
-                      maxWidth: '42px',
-                      height: '20px', 
-                      minHeight: '20px', 
+                {renderedRows.map(rowIndex => (
+                  <tr key={rowIndex} style={{ height: rowAxis.sizeOf(rowIndex) }}>
+                    <td className="text-center" style={{ 
+                      height: rowAxis.sizeOf(rowIndex), 
                       padding: '0',
                       fontSize: '11px', 
-                      lineHeight: '20px',
                       fontWeight: 'bold',
                       fontFamily: 'Calibri, sans-serif',
                       backgroundColor: '#f0f0f0',
@@ -1625,7 +1747,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                     }}>
                       {rowIndex + 1}
                     </td>
-                    {Array.from({ length: COLS }).map((_, colIndex) => {
+                    {renderedCols.map(colIndex => {
                       const isSelected = selectedCell?.row === rowIndex && selectedCell?.col === colIndex;
                       const isInRange = isCellInRange(rowIndex, colIndex);
                       const isEditing = editingCell?.row === rowIndex && editingCell?.col === colIndex;
@@ -1649,7 +1771,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                         cellValue = String(rawValue);
                       }
                       
-                      const cellFormat: CellFormat = cellFormats[cellKey] || {};
+                      const cellFormat: CellFormat = resolveFormat(cellFormats[cellKey]);
                       
                       // Check if this cell is part of formula selection (local or context)
                       const localFormulaIndex = formulaSelectedCells.indexOf(cellKey);
@@ -1658,12 +1780,18 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                       const isFormulaSelected = formulaSelectionIndex !== -1;
                       const formulaColor = isFormulaSelected ? selectionColors[formulaSelectionIndex % selectionColors.length] : null;
 
-                      // Get display value (evaluated for formulas using backend)
+                      // Get display value (formulas are evaluated by the shared formula engine)
                       // Safe check: only call startsWith on strings
                       const isFormula = typeof cellValue === 'string' && cellValue.startsWith('=');
-                      const displayValue = isFormula
-                        ? getCellDisplayValue(cellData, cellKey)
-                        : (cellEvaluatedValues.has(cellKey) ? String(cellEvaluatedValues.get(cellKey)) : cellValue);
+                      // Empty cells filled by a dynamic array show the spilled value
+                      const spillInfo = getSpillInfo(cellKey);
+                      const formatCode = resolveFormatCode(cellFormat.numberFormat);
+                      // The number format decides what shows; the stored value is left as entered
+                      const formatted = formatCode && (cellValue !== '' || spillInfo)
+                        ? formatCellValue(formulaContext.getCellValue(cellKey), formatCode)
+                        : null;
+                      const displayValue = formatted ? formatted.text : isFormula || spillInfo ? getDisplayValue(cellKey) : typeof cellValue === 'string' ? shownInput(cellValue) : cellValue;
+                      const cyclePath = isFormula ? getCyclePath(cellKey) : null;
 
                       // Evaluate conditional formatting for this cell (always pass string)
                       const conditionalFormat = evaluateConditionalFormatting(cellKey, cellValue || '');
@@ -1690,6 +1818,8 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                           console.log('Applying text color to cell', cellKey, ':', cellFormat.color);
                         }
                         if (cellFormat.backgroundColor) style.backgroundColor = cellFormat.backgroundColor; // Apply fill color
+                        // Colors picked by the format code's section ("[Red]"); [ColorN] palette entries are not shown
+                        if (formatted?.color && !formatted.color.startsWith('color')) style.color = formatted.color;
                         
                         // Apply conditional formatting (overrides base formatting where applicable)
                         if (conditionalFormat) {
@@ -1713,14 +1843,12 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                           data-cell-key={cellKey}
                           style={{ 
                             position: 'relative',
-                            minWidth: '64px',
-                            height: 'auto',
-                            minHeight: '20px',
-                            padding: '2px 4px',
+                            height: rowAxis.sizeOf(rowIndex),
+                            padding: '0 4px',
                             overflow: 'visible',
                             fontFamily: 'Calibri, sans-serif',
                             fontSize: '11px',
-                            cursor: isFillDragging ? 'crosshair' : 'default',
+                            cursor: isFillDragging ? 'crosshair' : formatPainter ? 'copy' : 'default',
                             backgroundColor: isInRange && !isSelected ? '#e7f3ff' : 
                                            isFillDragging && selectedRange && 
                                            rowIndex >= selectedRange.startRow && rowIndex <= selectedRange.endRow &&
@@ -1781,6 +1909,20 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                             if (isFillDragging) handleFillDragEnd();
                           }}
                         >
+                          {cellFormat.borders && (
+                            <div
+                              style={{
+                                position: 'absolute',
+                                inset: '-1px 0 0 -1px',
+                                pointerEvents: 'none',
+                                zIndex: 1,
+                                borderTop: borderCss(cellFormat.borders.top),
+                                borderRight: borderCss(cellFormat.borders.right),
+                                borderBottom: borderCss(cellFormat.borders.bottom),
+                                borderLeft: borderCss(cellFormat.borders.left)
+                              }}
+                            />
+                          )}
                           {shouldShowInput ? (
                             <input
                               ref={inputRef}
@@ -1811,19 +1953,30 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                                 }
                               }}
                               autoFocus
-                              style={{...getCellStyle(), height: 'auto', minHeight: '20px', lineHeight: '1.2', padding: '2px'}}
+                              style={{...getCellStyle(), height: '100%', lineHeight: '1.2', padding: '0 2px'}}
                               className="w-full h-full px-1 outline-none border-none bg-white"
                             />
                           ) : (
                             <div 
-                              style={{...getCellStyle(), height: 'auto', minHeight: '20px', lineHeight: '1.2', padding: '2px'}}
+                              style={{
+                                ...getCellStyle(),
+                                height: '100%',
+                                lineHeight: '1.2',
+                                padding: '0 2px',
+                                alignItems: VERTICAL_ALIGN_ITEMS[cellFormat.verticalAlign || 'middle'],
+                                overflow: cellFormat.wrapText ? 'hidden' : undefined
+                              }}
                               className="px-1 h-full flex items-center"
+                              title={cyclePath ? `Circular reference: ${cyclePath.join(' → ')}` : undefined}
                               onMouseUp={() => {
                                 const selection = window.getSelection();
                                 setHasTextSelection(selection ? selection.toString().length > 0 : false);
                               }}
                             >
-                              <span className="w-full" style={{ textAlign: (cellFormat.textAlign as any) || 'left', whiteSpace: 'nowrap', overflow: 'visible' }}>
+                              <span
+                                className={cellFormat.textRotation ? undefined : 'w-full'}
+                                style={textLayoutStyle(cellFormat, String(displayValue ?? ''), String(getCellStyle().fontSize), colAxis.sizeOf(colIndex) / zoom)}
+                              >
                                 {cellFormat.isLink && cellFormat.linkUrl ? (
                                   <a
                                     href={cellFormat.linkUrl}
@@ -1839,6 +1992,17 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                                   displayValue
                                 )}
                               </span>
+                              {spillInfo && (spillInfo.isAnchor ? (
+                                isSelected && (
+                                  <DynamicArrayIndicator
+                                    sourceCell={spillInfo.anchor}
+                                    spillRange={spillInfo.range}
+                                    formula={cellValue}
+                                  />
+                                )
+                              ) : (
+                                <SpilledCellOverlay />
+                              ))}
                               {/* List Validation Dropdown Arrow */}
                               {cellValidations[cellKey]?.type === 'list' && cellValidations[cellKey]?.options && (
                                 <button
@@ -1894,6 +2058,26 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                 ))}
               </tbody>
             </table>
+            {/* Lines under the frozen rows and beside the frozen columns */}
+            {frozenRows > 0 && (
+              <div className="absolute pointer-events-none" style={{ top: COLUMN_HEADER_HEIGHT + frozenHeight - 1, left: 0, right: 0, height: 2, backgroundColor: '#a6a6a6', zIndex: 40 }} />
+            )}
+            {frozenCols > 0 && (
+              <div className="absolute pointer-events-none" style={{ left: ROW_HEADER_WIDTH + frozenWidth - 1, top: 0, bottom: 0, width: 2, backgroundColor: '#a6a6a6', zIndex: 40 }} />
+            )}
+            {/* Overlays are placed in sheet coordinates and move with the scrolled panes */}
+            <div className="absolute" style={{ top: 0, left: 0, transform: `translate(${-scrolledX}px, ${-scrolledY}px)` }}>
+            {pageBreakLayout && (
+              <PageBreakPreview
+                layout={pageBreakLayout}
+                settings={printSettings}
+                rowAxis={rowAxis}
+                colAxis={colAxis}
+                width={scrolledX + viewportSize.width}
+                height={scrolledY + viewportSize.height}
+                zoom={zoom}
+              />
+            )}
             {/* Overlays: charts, images, textboxes, drawing path preview */}
             {floatingCharts.map(chart => {
               console.log('Mapping chart for display:', chart.id, chart);
@@ -2110,6 +2294,7 @@ function SpreadsheetGrid({ isDarkMode = false }: SpreadsheetGridProps) {
                 )}
               </div>
             ))}
+            </div>
             {/* Drawing Path Preview */}
             {isDrawingPath && drawPath.length > 0 && (
               <svg 
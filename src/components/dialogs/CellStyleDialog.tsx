@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import {
+  NORMAL_STYLE,
+  NamedCellStyle,
+  STYLE_PARTS,
+  StyleFormat,
+  StylePart,
+  describeStyle,
+  pickStyleParts,
+  styleFormat
+} from '../../utils/cellStyles';
+
+interface CellStyleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Style being modified; a new style is made when there is none */
+  style?: NamedCellStyle;
+  /** Formatting of the active cell, which a new style is taken from */
+  cellFormat: StyleFormat;
+  styles: NamedCellStyle[];
+  onSave: (style: NamedCellStyle, previousName?: string) => void;
+  onDelete: (name: string) => void;
+}
+
+const ALL_PARTS = STYLE_PARTS.map(({ part }) => part);
+
+export function CellStyleDialog({ open, onClose, style, cellFormat, styles, onSave, onDelete }: CellStyleDialogProps) {
+  const [name, setName] = useState('');
+  const [basedOn, setBasedOn] = useState('');
+  const [parts, setParts] = useState<StylePart[]>(ALL_PARTS);
+  const [fromSelection, setFromSelection] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(style ? style.name : nextStyleName(styles));
+    setBasedOn(style?.basedOn || '');
+    setParts(style ? ALL_PARTS.filter(part => describeStyle(style.format)[part]) : ALL_PARTS);
+    setFromSelection(!style);
+  }, [open, style]);
+
+  // A modified style keeps its own formatting unless it is updated to match the active cell
+  const source = fromSelection || !style ? cellFormat : style.format;
+  const format = pickStyleParts(source, parts);
+  const inherited = basedOn ? styleFormat(basedOn, styles) : {};
+  const described = describeStyle({ ...inherited, ...format });
+
+  const trimmed = name.trim();
+  const error = !trimmed
+    ? 'Type a name for the style.'
+    : styles.some(existing => existing.name.toLowerCase() === trimmed.toLowerCase() && existing.name !== style?.name)
+      ? 'A style with this name already exists.'
+      : null;
+
+  const togglePart = (part: StylePart, checked: boolean) => {
+    setParts(prev => (checked ? [...prev, part] : prev.filter(existing => existing !== part)));
+  };
+
+  const toggleFromSelection = (checked: boolean) => {
+    setFromSelection(checked);
+    if (checked) setParts(ALL_PARTS);
+  };
+
+  const handleSave = () => {
+    if (error) return;
+    onSave(
+      {
+        name: style?.builtIn ? style.name : trimmed,
+        basedOn: basedOn || undefined,
+        builtIn: style?.builtIn,
+        group: style?.group || 'Custom',
+        format
+      },
+      style?.name
+    );
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!style) return;
+    onDelete(style.name);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{style ? 'Modify Style' : 'New Cell Style'}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-3 py-2">
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label htmlFor="style-name">Style name</Label>
+            <Input
+              id="style-name"
+              className="col-span-2"
+              value={name}
+              disabled={style?.builtIn}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label htmlFor="style-based-on">Based on</Label>
+            <select
+              id="style-based-on"
+              className="col-span-2 h-8 px-2 text-sm border rounded"
+              value={basedOn}
+              onChange={(e) => setBasedOn(e.target.value)}
+            >
+              <option value="">(none)</option>
+              {styles.filter(candidate => candidate.name !== style?.name).map(candidate => (
+                <option key={candidate.name} value={candidate.name}>{candidate.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <Label>Style includes</Label>
+            <div className="border rounded p-2 grid gap-1">
+              {STYLE_PARTS.map(({ part, label }) => (
+                <label key={part} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={parts.includes(part)}
+                    onChange={(e) => togglePart(part, e.target.checked)}
+                  />
+                  <span className="w-20 shrink-0">{label}</span>
+                  <span className="text-xs text-gray-600 break-words">{described[part] || 'General'}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {style && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={fromSelection}
+                onChange={(e) => toggleFromSelection(e.target.checked)}
+              />
+              Update to match the selected cell
+            </label>
+          )}
+
+          {error && <div className="text-xs" style={{ color: '#C00000' }}>{error}</div>}
+        </div>
+        <DialogFooter>
+          {style && style.name !== NORMAL_STYLE && (
+            <Button variant="outline" className="mr-auto" onClick={handleDelete}>
+              {style.builtIn ? 'Reset' : 'Delete'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!!error}>OK</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// "Style 1", "Style 2", ... the first not taken
+function nextStyleName(styles: NamedCellStyle[]): string {
+  let index = 1;
+  while (styles.some(style => style.name === `Style ${index}`)) index++;
+  return `Style ${index}`;
+}
@@ -0,0 +1,330 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import { Progress } from '../ui/progress';
+import { parseCellRef, shownInput, toCellRef } from '../../utils/formulaEngine';
+import {
+  ColumnSetting,
+  ColumnType,
+  CsvImportOptions,
+  CsvImportResult,
+  DELIMITERS,
+  DateOrder,
+  ENCODINGS,
+  SAMPLE_SIZE,
+  convertRow,
+  detectOptions,
+  previewRows,
+  readDelimitedFile,
+  readSample
+} from '../../utils/csvImport';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  /** File being imported; its first bytes are read to guess the options */
+  file: File | null;
+  onClose: () => void;
+  onImport: (result: CsvImportResult) => void;
+  /** Cell the data goes to unless changed, such as the active cell */
+  defaultTarget?: string;
+}
+
+const PREVIEW_ROWS = 20;
+
+const COLUMN_TYPES: { type: ColumnType; label: string }[] = [
+  { type: 'general', label: 'General' },
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'skip', label: 'Do not import' }
+];
+
+const DATE_ORDERS: DateOrder[] = ['MDY', 'DMY', 'YMD'];
+
+const THOUSANDS_SEPARATORS = [
+  { value: '', label: '(none)' },
+  { value: ',', label: 'Comma (,)' },
+  { value: '.', label: 'Period (.)' },
+  { value: ' ', label: 'Space' },
+  { value: "'", label: "Apostrophe (')" }
+];
+
+export function CsvImportDialog({ open, file, onClose, onImport, defaultTarget = 'A1' }: CsvImportDialogProps) {
+  const [sample, setSample] = useState<Uint8Array | null>(null);
+  const [options, setOptions] = useState<CsvImportOptions | null>(null);
+  const [target, setTarget] = useState(defaultTarget);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const complete = !!file && file.size <= SAMPLE_SIZE;
+
+  // Guess the options from the start of the file
+  useEffect(() => {
+    if (!open || !file) return;
+    let cancelled = false;
+    setSample(null);
+    setOptions(null);
+    setError(null);
+    setProgress(null);
+    setTarget(defaultTarget);
+    readSample(file)
+      .then(bytes => {
+        if (cancelled) return;
+        setSample(bytes);
+        setOptions(detectOptions(bytes, file.size <= SAMPLE_SIZE));
+      })
+      .catch(err => !cancelled && setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : err}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, file]);
+
+  const change = (changes: Partial<CsvImportOptions>) => {
+    setOptions(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const changeColumn = (col: number, changes: Partial<ColumnSetting>) => {
+    if (!options) return;
+    const columns = [...options.columns];
+    for (let i = columns.length; i <= col; i++) columns[i] = { type: 'general' };
+    columns[col] = { ...columns[col], ...changes };
+    if (columns[col].type === 'date' && !columns[col].dateOrder) columns[col].dateOrder = 'MDY';
+    change({ columns });
+  };
+
+  let rows: string[][] = [];
+  try {
+    rows = sample && options ? previewRows(sample, options, complete, PREVIEW_ROWS) : [];
+  } catch {
+    // An encoding the browser cannot decode
+  }
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const targetCell = parseCellRef(target.trim().toUpperCase());
+  const otherDelimiter = !!options && !DELIMITERS.some(({ value }) => value === options.delimiter);
+  const importing = progress !== null;
+
+  const handleImport = async () => {
+    if (!file || !options || !targetCell || importing) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setProgress(0);
+    setError(null);
+    try {
+      const result = await readDelimitedFile(file, { ...options, target: targetCell }, fraction => setProgress(fraction * 100), controller.signal);
+      onImport(result);
+      onClose();
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`);
+      }
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abort.current?.abort();
+    onClose();
+  };
+
+  const selectClass = 'h-8 px-2 text-sm border rounded';
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Text Import{file ? ` - ${file.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {options ? (
+          <div className="grid gap-3 py-2">
+            <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="csv-encoding">File origin</Label>
+                <select
+                  id="csv-encoding"
+                  className={selectClass}
+                  value={options.encoding}
+                  onChange={(e) => change({ encoding: e.target.value })}
+                >
+                  {ENCODINGS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="csv-target">Put data in cell</Label>
+                <Input
+                  id="csv-target"
+                  className="h-8"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="csv-delimiter">Delimiter</Label>
+                <div className="flex gap-1">
+                  <select
+                    id="csv-delimiter"
+                    className={`${selectClass} flex-1`}
+                    value={otherDelimiter ? 'other' : options.delimiter}
+                    onChange={(e) => change({ delimiter: e.target.value === 'other' ? '' : e.target.value })}
+                  >
+                    {DELIMITERS.map(({ value, label }) => <option key={label} value={value}>{label}</option>)}
+                    <option value="other">Other</option>
+                  </select>
+                  {otherDelimiter && (
+                    <Input
+                      className="h-8 w-10"
+                      maxLength={1}
+                      value={options.delimiter}
+                      onChange={(e) => change({ delimiter: e.target.value })}
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="csv-quote">Text qualifier</Label>
+                <select
+                  id="csv-quote"
+                  className={selectClass}
+                  value={options.quote}
+                  onChange={(e) => change({ quote: e.target.value })}
+                >
+                  <option value={'"'}>"</option>
+                  <option value="'">'</option>
+                  <option value="">(none)</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="csv-decimal">Decimal separator</Label>
+                <select
+                  id="csv-decimal"
+                  className={selectClass}
+                  value={options.decimalSeparator}
+                  onChange={(e) => change({
+                    decimalSeparator: e.target.value,
+                    thousandsSeparator: options.thousandsSeparator === e.target.value ? '' : options.thousandsSeparator
+                  })}
+                >
+                  <option value=".">Period (.)</option>
+                  <option value=",">Comma (,)</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="csv-thousands">Thousands separator</Label>
+                <select
+                  id="csv-thousands"
+                  className={selectClass}
+                  value={options.thousandsSeparator}
+                  onChange={(e) => change({ thousandsSeparator: e.target.value })}
+                >
+                  {THOUSANDS_SEPARATORS.filter(({ value }) => value !== options.decimalSeparator).map(({ value, label }) => (
+                    <option key={label} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={options.hasHeader}
+                onChange={(e) => change({ hasHeader: e.target.checked })}
+              />
+              My data has headers
+            </label>
+
+            <div>
+              <Label>Preview (choose a type for each column)</Label>
+              <div className="border rounded overflow-auto" style={{ maxHeight: 280 }}>
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      {Array.from({ length: width }, (_, col) => {
+                        const setting = options.columns[col] ?? { type: 'general' as ColumnType };
+                        return (
+                          <th key={col} className="p-1 border-b text-left align-top font-normal" style={{ background: '#F2F2F2' }}>
+                            <select
+                              className="h-6 px-1 text-xs border rounded w-full"
+                              value={setting.type}
+                              onChange={(e) => changeColumn(col, { type: e.target.value as ColumnType })}
+                            >
+                              {COLUMN_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+                            </select>
+                            {setting.type === 'date' && (
+                              <select
+                                className="h-6 px-1 mt-1 text-xs border rounded w-full"
+                                value={setting.dateOrder ?? 'MDY'}
+                                onChange={(e) => changeColumn(col, { dateOrder: e.target.value as DateOrder })}
+                              >
+                                {DATE_ORDERS.map(order => <option key={order} value={order}>{order}</option>)}
+                              </select>
+                            )}
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => {
+                      const header = options.hasHeader && index === 0;
+                      // Fields as they will land, in the sheet's columns once skipped ones drop out
+                      const converted = convertRow(row, options, header);
+                      let shown = 0;
+                      return (
+                        <tr key={index}>
+                          {Array.from({ length: width }, (_, col) => {
+                            const skipped = options.columns[col]?.type === 'skip';
+                            const value = skipped ? row[col] ?? '' : col < row.length ? converted[shown++] : '';
+                            return (
+                              <td
+                                key={col}
+                                className="px-2 py-0.5 border-b whitespace-pre max-w-[200px] overflow-hidden text-ellipsis"
+                                style={{ color: skipped ? '#A6A6A6' : '#000000', fontWeight: header ? 600 : undefined }}
+                              >
+                                {shownInput(value)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {targetCell && (
+                <div className="text-xs text-gray-600 mt-1">
+                  Data starts at {toCellRef(targetCell.row, targetCell.col)}
+                  {complete ? '' : `; showing the first ${Math.min(rows.length, PREVIEW_ROWS)} rows`}
+                </div>
+              )}
+            </div>
+
+            {importing && <Progress value={progress!} />}
+          </div>
+        ) : (
+          <div className="py-6 text-sm text-center">{error ? '' : 'Reading file...'}</div>
+        )}
+
+        {!targetCell && options && <div className="text-xs" style={{ color: '#C00000' }}>Type a cell such as A1 to put the data in.</div>}
+        {!options?.delimiter && options && <div className="text-xs" style={{ color: '#C00000' }}>Type the character fields are separated by.</div>}
+        {error && <div className="text-xs" style={{ color: '#C00000' }}>{error}</div>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!options || !options.delimiter || !targetCell || importing}>
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import { ScalarValue, formatCellValue, validateFormatCode } from '../../utils/formulaEngine';
+import {
+  CATEGORY_CODES,
+  CURRENCY_SYMBOLS,
+  CUSTOM_CODES,
+  FORMAT_CATEGORIES,
+  FormatCategory,
+  FormatOptions,
+  NegativeStyle,
+  buildFormatCode,
+  describeFormatCode,
+  resolveFormatCode
+} from '../../utils/numberFormatPresets';
+
+interface FormatCellsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Format code of the active cell, or one of the older named formats */
+  numberFormat?: string;
+  /** Value of the active cell, shown in the preview */
+  sampleValue: ScalarValue;
+  onApply: (code: string) => void;
+}
+
+const NEGATIVE_STYLES: { style: NegativeStyle; label: string; red: boolean }[] = [
+  { style: 'minus', label: '-1234.10', red: false },
+  { style: 'red', label: '1234.10', red: true },
+  { style: 'parentheses', label: '(1234.10)', red: false },
+  { style: 'red-parentheses', label: '(1234.10)', red: true }
+];
+
+const CATEGORY_HINTS: Record<FormatCategory, string> = {
+  General: 'General format cells have no specific number format.',
+  Number: 'Number is used for general display of numbers.',
+  Currency: 'Currency formats are used for general monetary values.',
+  Accounting: 'Accounting formats line up the currency symbols and decimal points in a column.',
+  Date: 'Date formats display date and time serial numbers as date values.',
+  Time: 'Time formats display date and time serial numbers as time values.',
+  Percentage: 'Percentage formats multiply the cell value by 100 and display the result with a percent symbol.',
+  Fraction: 'Fraction formats display the value as a whole number and a fraction.',
+  Scientific: 'Scientific formats display the value in exponential notation.',
+  Text: 'Text format cells are treated as text, displayed exactly as entered.',
+  Custom: 'Type the number format code, using one of the existing codes as a starting point.'
+};
+
+export function FormatCellsDialog({ open, onClose, numberFormat, sampleValue, onApply }: FormatCellsDialogProps) {
+  const [category, setCategory] = useState<FormatCategory>('General');
+  const [options, setOptions] = useState<FormatOptions>(describeFormatCode(undefined).options);
+  const [code, setCode] = useState('General');
+
+  // Open on the cell's current format
+  useEffect(() => {
+    if (!open) return;
+    const described = describeFormatCode(numberFormat);
+    setCategory(described.category);
+    setOptions(described.options);
+    setCode(resolveFormatCode(numberFormat) || 'General');
+  }, [open, numberFormat]);
+
+  const chooseCategory = (next: FormatCategory) => {
+    setCategory(next);
+    if (next !== 'Custom') setCode(buildFormatCode(next, options));
+  };
+
+  const changeOptions = (changes: Partial<FormatOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    setCode(buildFormatCode(category, next));
+  };
+
+  const error = validateFormatCode(code);
+  // Text and empty cells have nothing to show a number format on, so preview a number
+  const previewValue = sampleValue === null || (typeof sampleValue === 'string' && category !== 'Text' && category !== 'Custom')
+    ? 1234.5678
+    : sampleValue;
+  const preview = error ? null : formatCellValue(previewValue, code);
+
+  const handleApply = () => {
+    if (error) return;
+    onApply(code);
+    onClose();
+  };
+
+  const listed = category === 'Custom' ? CUSTOM_CODES : CATEGORY_CODES[category];
+  const hasDecimals = ['Number', 'Currency', 'Accounting', 'Percentage', 'Scientific'].includes(category);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Format Cells</DialogTitle>
+        </DialogHeader>
+        <div className="flex gap-4 py-2">
+          <div className="w-32 border rounded overflow-y-auto" style={{ maxHeight: 300 }}>
+            {FORMAT_CATEGORIES.map(name => (
+              <div
+                key={name}
+                className="px-2 py-1 text-sm cursor-pointer"
+                style={{ background: name === category ? '#FFD700' : 'transparent', color: '#000000' }}
+                onClick={() => chooseCategory(name)}
+              >
+                {name}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 grid gap-3 content-start">
+            <div>
+              <Label>Sample</Label>
+              <div
+                className="h-8 px-2 border rounded flex items-center text-sm"
+                style={{ color: preview?.color || '#000000' }}
+              >
+                {preview ? preview.text : ''}
+              </div>
+            </div>
+
+            {hasDecimals && (
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="format-decimals">Decimal places</Label>
+                <Input
+                  id="format-decimals"
+                  type="number"
+                  min="0"
+                  max="30"
+                  value={options.decimals}
+                  onChange={(e) => changeOptions({ decimals: Math.max(0, Math.min(30, parseInt(e.target.value) || 0)) })}
+                />
+              </div>
+            )}
+
+            {category === 'Number' && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={options.thousands}
+                  onChange={(e) => changeOptions({ thousands: e.target.checked })}
+                />
+                Use 1000 Separator (,)
+              </label>
+            )}
+
+            {(category === 'Currency' || category === 'Accounting') && (
+              <div className="grid grid-cols-2 items-center gap-2">
+                <Label htmlFor="format-symbol">Symbol</Label>
+                <select
+                  id="format-symbol"
+                  className="h-8 px-2 text-sm border rounded"
+                  value={options.symbol}
+                  onChange={(e) => changeOptions({ symbol: e.target.value })}
+                >
+                  {CURRENCY_SYMBOLS.map(symbol => (
+                    <option key={symbol.label} value={symbol.code}>{symbol.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {(category === 'Number' || category === 'Currency') && (
+              <div>
+                <Label>Negative numbers</Label>
+                <div className="border rounded">
+                  {NEGATIVE_STYLES.map(({ style, label, red }) => (
+                    <div
+                      key={style}
+                      className="px-2 py-0.5 text-sm cursor-pointer"
+                      style={{ color: red ? '#FF0000' : '#000000', background: options.negative === style ? '#FFF3B0' : 'transparent' }}
+                      onClick={() => changeOptions({ negative: style })}
+                    >
+                      {category === 'Currency' && options.symbol ? label.replace(/\d/, digit => `${describeSymbol(options.symbol)}${digit}`) : label}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {category === 'Custom' && (
+              <div className="grid gap-1">
+                <Label htmlFor="format-code">Type</Label>
+                <Input id="format-code" value={code} onChange={(e) => setCode(e.target.value)} />
+              </div>
+            )}
+
+            {listed && (
+              <div className="border rounded overflow-y-auto" style={{ maxHeight: 140 }}>
+                {listed.map(candidate => (
+                  <div
+                    key={candidate}
+                    className="px-2 py-0.5 text-sm cursor-pointer font-mono"
+                    style={{ background: candidate === code ? '#FFF3B0' : 'transparent', color: '#000000' }}
+                    onClick={() => setCode(candidate)}
+                  >
+                    {category === 'Custom' ? candidate : formatCellValue(previewValue, candidate).text}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {error
+              ? <div className="text-xs" style={{ color: '#C00000' }}>{error}</div>
+              : <div className="text-xs text-gray-600">{CATEGORY_HINTS[category]}</div>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleApply} disabled={!!error}>OK</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The symbol a currency tag such as "[$£-809]" shows
+function describeSymbol(symbol: string): string {
+  return symbol.startsWith('[$') ? symbol.substring(2).split(/[-\]]/)[0] : symbol;
+}
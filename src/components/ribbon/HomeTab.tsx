@@ -22,17 +22,44 @@ import {
   ChevronUp,
   Trash2,
   Paintbrush,
-  Type
+  Brush,
+  Type,
+  WrapText,
+  AlignVerticalJustifyStart,
+  AlignVerticalJustifyCenter,
+  AlignVerticalJustifyEnd,
+  IndentIncrease,
+  IndentDecrease,
+  RotateCcw,
+  Grid3x3,
+  Minimize2,
+  FileSpreadsheet
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Separator } from '../ui/separator';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 
 import { useClipboard } from '../../contexts/ClipboardContext';
-import { useSpreadsheet } from '../../contexts/SpreadsheetContext';
+import { useSpreadsheetWithHistory } from '../../hooks/useSpreadsheetWithHistory';
+import { FormatCellsDialog } from '../dialogs/FormatCellsDialog';
+import {
+  DEFAULT_FORMAT_OPTIONS,
+  FORMAT_CATEGORIES,
+  buildFormatCode,
+  describeFormatCode,
+  resolveFormatCode
+} from '../../utils/numberFormatPresets';
+import { BORDER_PRESETS, BORDER_STYLES, BorderPreset, BorderStyle, applyBorderPreset } from '../../utils/cellBorders';
+import { VERTICAL_TEXT_ROTATION } from '../../utils/autoFit';
+import { NamedCellStyle, STYLE_GROUPS, THEMES, applyStyleToFormat, effectiveFormat } from '../../utils/cellStyles';
+import { borderCss } from '../../utils/cellBorders';
+import { CellStyleDialog } from '../dialogs/CellStyleDialog';
+import { CsvImportDialog } from '../dialogs/CsvImportDialog';
+import type { CsvImportResult } from '../../utils/csvImport';
 
 import FloatingDropdown from '../ui/FloatingDropdown';
 import { exportToCSV } from '../../utils/csvExport';
+import { exportToODS, exportToPDF, exportToXLSX, importWorkbook, isWorkbookFile } from '../../utils/exportImport';
 import { useState } from 'react';
 
 interface HomeTabProps {
@@ -52,8 +79,25 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
     getCellKey, 
     insertCells, 
     deleteCells,
-    clearSelection
-  } = useSpreadsheet();
+    insertRows,
+    insertColumns,
+    clearSelection,
+    formulaContext,
+    cellStyles,
+    saveCellStyle,
+    deleteCellStyle,
+    workbookTheme,
+    setWorkbookTheme,
+    resolveFormat,
+    formatPainter,
+    startFormatPainter,
+    stopFormatPainter,
+    buildWorkbookFile,
+    loadWorkbookFile,
+    buildPrintDrawings,
+    printSettings,
+    hiddenRows
+  } = useSpreadsheetWithHistory();
   const [openMenu, setOpenMenu] = useState<string | null>(null);
   const [anchorRect, setAnchorRect] = useState<DOMRect | null>(null);
   const [insertRowAboveCount, setInsertRowAboveCount] = useState(1);
@@ -63,6 +107,21 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
   const [appliedActions, setAppliedActions] = useState<Set<string>>(new Set());
   const [textColorOpen, setTextColorOpen] = useState(false);
   const [fillColorOpen, setFillColorOpen] = useState(false);
+  const [formatCellsOpen, setFormatCellsOpen] = useState(false);
+  const [bordersOpen, setBordersOpen] = useState(false);
+  const [borderStyle, setBorderStyle] = useState<BorderStyle>('thin');
+  const [borderColor, setBorderColor] = useState('#000000');
+  const [styleDialog, setStyleDialog] = useState<{ style?: NamedCellStyle } | null>(null);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+
+  const orientations = [
+    { rotation: 0, label: 'Horizontal' },
+    { rotation: 45, label: 'Angle Counterclockwise' },
+    { rotation: -45, label: 'Angle Clockwise' },
+    { rotation: VERTICAL_TEXT_ROTATION, label: 'Vertical Text' },
+    { rotation: 90, label: 'Rotate Text Up' },
+    { rotation: -90, label: 'Rotate Text Down' }
+  ];
 
   // Preset color palette for quick selection
   const colorPalette = [
@@ -82,12 +141,16 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
   };
 
   const handleInsertWithCount = (type: string, count: number) => {
-    for (let i = 0; i < count; i++) {
-      if (type === 'row-above') insertCells('entire-row');
-      else if (type === 'row-below') insertCells('entire-row');
-      else if (type === 'col-left') insertCells('entire-column');
-      else if (type === 'col-right') insertCells('entire-column');
-    }
+    if (!selectedCell && !selectedRange) return;
+    const row = selectedRange ? selectedRange.startRow : selectedCell!.row;
+    const col = selectedRange ? selectedRange.startCol : selectedCell!.col;
+    const lastRow = selectedRange ? selectedRange.endRow : row;
+    const lastCol = selectedRange ? selectedRange.endCol : col;
+
+    if (type === 'row-above') insertRows(row, count);
+    else if (type === 'row-below') insertRows(lastRow + 1, count);
+    else if (type === 'col-left') insertColumns(col, count);
+    else if (type === 'col-right') insertColumns(lastCol + 1, count);
     setAppliedActions(prev => new Set([...prev, type]));
     setTimeout(() => setAppliedActions(prev => {
       const newSet = new Set(prev);
@@ -96,82 +159,24 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
     }), 2000);
   };
 
-  const performInsertRows = (startRow: number, count: number, direction: 'above' | 'below') => {
-    const newCellData = { ...cellData };
-    const newCellFormats = { ...cellFormats };
-    const maxRows = 1000;
-    const maxCols = 26;
-    
-    const insertAtRow = direction === 'above' ? startRow : startRow + 1;
-    
-    // Shift existing rows down
-    for (let row = maxRows - 1; row >= insertAtRow; row--) {
-      for (let col = 0; col < maxCols; col++) {
-        const oldKey = getCellKey(row, col);
-        const newKey = getCellKey(row + count, col);
-        
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    }
-    
-    setCellData(newCellData);
-    setCellFormats(newCellFormats);
-  };
-
-  const performInsertColumns = (startCol: number, count: number, direction: 'left' | 'right') => {
-    const newCellData = { ...cellData };
-    const newCellFormats = { ...cellFormats };
-    const maxRows = 1000;
-    const maxCols = 26;
-    
-    const insertAtCol = direction === 'left' ? startCol : startCol + 1;
-    
-    // Shift existing columns right
-    for (let col = maxCols - 1; col >= insertAtCol; col--) {
-      for (let row = 0; row < maxRows; row++) {
-        const oldKey = getCellKey(row, col);
-        const newKey = getCellKey(row, col + count);
-        
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    }
-    
-    setCellData(newCellData);
-    setCellFormats(newCellFormats);
-  };
-
   const handleInsertAll = () => {
     if (!selectedCell && !selectedRange) return;
     
     const row = selectedRange ? selectedRange.startRow : selectedCell!.row;
     const col = selectedRange ? selectedRange.startCol : selectedCell!.col;
     
-    // Execute insertions in order to avoid conflicts
-    if (insertRowAboveCount > 0) {
-      performInsertRows(row, insertRowAboveCount, 'above');
-    }
+    // Below and right first, so the rows and columns above and left still start where selected
     if (insertRowBelowCount > 0) {
-      performInsertRows(row, insertRowBelowCount, 'below');
+      insertRows(row + 1, insertRowBelowCount);
     }
-    if (insertColLeftCount > 0) {
-      performInsertColumns(col, insertColLeftCount, 'left');
+    if (insertRowAboveCount > 0) {
+      insertRows(row, insertRowAboveCount);
     }
     if (insertColRightCount > 0) {
-      performInsertColumns(col, insertColRightCount, 'right');
+      insertColumns(col + 1, insertColRightCount);
+    }
+    if (insertColLeftCount > 0) {
+      insertColumns(col, insertColLeftCount);
     }
     
     // Reset counters after successful insertion
@@ -291,6 +296,39 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
     setCellFormats(newFormats);
   };
 
+  const handleBorderPreset = (preset: BorderPreset) => {
+    if (!selectedCell && !selectedRange) return;
+    const range = selectedRange || { startRow: selectedCell!.row, startCol: selectedCell!.col, endRow: selectedCell!.row, endCol: selectedCell!.col };
+    setCellFormats(prev => applyBorderPreset(prev, range, preset, { style: borderStyle, color: borderColor }));
+    setBordersOpen(false);
+  };
+
+  const handleApplyStyle = (name: string) => {
+    if (!selectedCell && !selectedRange) return;
+    const range = selectedRange || { startRow: selectedCell!.row, startCol: selectedCell!.col, endRow: selectedCell!.row, endCol: selectedCell!.col };
+    setCellFormats(prev => {
+      const next = { ...prev };
+      for (let row = range.startRow; row <= range.endRow; row++) {
+        for (let col = range.startCol; col <= range.endCol; col++) {
+          const cellKey = getCellKey(row, col);
+          next[cellKey] = applyStyleToFormat(prev[cellKey], name, cellStyles);
+        }
+      }
+      return next;
+    });
+    closeDropdown();
+  };
+
+  const openStyleDialog = (style?: NamedCellStyle) => {
+    closeDropdown();
+    setStyleDialog({ style });
+  };
+
+  const handleIndent = (delta: number) => {
+    const indent = Math.max(0, Math.min(15, ((getCurrentFormat('indent') as number) || 0) + delta));
+    handleFormatChange('indent', indent || undefined);
+  };
+
   const getCurrentFormat = (formatType: string) => {
     // Check the first cell in the selection (either single cell or top-left of range)
     const checkCell = selectedRange 
@@ -305,141 +343,70 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
   const handleImportCSV = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.csv';
+    input.accept = '.csv,.tsv,.txt,.xlsx,.ods';
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          const csv = event.target?.result as string;
-          const rows = csv.split('\n');
-          const newCellData: { [key: string]: string } = {};
-          
-          rows.forEach((row, rowIndex) => {
-            const cells = row.split(',');
-            cells.forEach((cell, colIndex) => {
-              if (cell.trim()) {
-                const colLetter = String.fromCharCode(65 + colIndex);
-                const cellKey = `${colLetter}${rowIndex + 1}`;
-                newCellData[cellKey] = cell.trim().replace(/^"|"$/g, '');
-              }
-            });
-          });
-          
-          setCellData(newCellData);
-        };
-        reader.readAsText(file);
+      if (file && isWorkbookFile(file.name)) {
+        importWorkbook(file)
+          .then(loadWorkbookFile)
+          .catch(error => alert(`Could not open ${file.name}: ${error instanceof Error ? error.message : error}`));
+      } else if (file) {
+        // Delimited text goes through the import wizard
+        setCsvFile(file);
       }
     };
     input.click();
   };
 
+  const importDelimitedText = ({ cells, headerCells }: CsvImportResult) => {
+    setCellData(prev => ({ ...prev, ...cells }));
+    if (headerCells.length) {
+      setCellFormats(prev => {
+        const next = { ...prev };
+        headerCells.forEach(key => {
+          next[key] = { ...next[key], bold: true };
+        });
+        return next;
+      });
+    }
+  };
+
   const handleExportCSV = () => {
     exportToCSV(cellData, 'spreadsheet.csv');
   };
 
-  const handleExportPDF = () => {
-    // Simple PDF export using browser print
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      const tableHTML = generateTableHTML();
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Spreadsheet Export</title>
-            <style>
-              table { border-collapse: collapse; width: 100%; }
-              th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-              th { background-color: #f2f2f2; }
-            </style>
-          </head>
-          <body>
-            ${tableHTML}
-            <script>window.print(); window.close();</script>
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
-    }
+  const handleExportXLSX = () => {
+    exportToXLSX(buildWorkbookFile(), 'spreadsheet.xlsx')
+      .catch(error => alert(`Could not export the workbook: ${error instanceof Error ? error.message : error}`));
   };
 
-  const generateTableHTML = () => {
-    const cellKeys = Object.keys(cellData);
-    if (cellKeys.length === 0) return '<p>No data to export</p>';
-    
-    let maxRow = 0;
-    let maxCol = 0;
-    
-    cellKeys.forEach(key => {
-      const match = key.match(/^([A-Z]+)(\d+)$/);
-      if (match) {
-        const col = match[1].charCodeAt(0) - 65;
-        const row = parseInt(match[2]) - 1;
-        maxRow = Math.max(maxRow, row);
-        maxCol = Math.max(maxCol, col);
-      }
-    });
-    
-    let html = '<table>';
-    for (let row = 0; row <= maxRow; row++) {
-      html += '<tr>';
-      for (let col = 0; col <= maxCol; col++) {
-        const colLetter = String.fromCharCode(65 + col);
-        const cellKey = `${colLetter}${row + 1}`;
-        const cellValue = cellData[cellKey] || '';
-        html += `<td>${cellValue}</td>`;
-      }
-      html += '</tr>';
-    }
-    html += '</table>';
-    return html;
+  const handleExportODS = () => {
+    exportToODS(buildWorkbookFile(), 'spreadsheet.ods')
+      .catch(error => alert(`Could not export the workbook: ${error instanceof Error ? error.message : error}`));
   };
 
-  const formatNumber = (value: string, format: string) => {
-    const num = parseFloat(value);
-    if (isNaN(num)) return value;
-    
-    switch (format) {
-      case 'Number':
-        return num.toFixed(2);
-      case 'Currency':
-        return `$${num.toFixed(2)}`;
-      case 'Percentage':
-        return `${(num * 100).toFixed(2)}%`;
-      case 'Date':
-        return new Date(num).toLocaleDateString();
-      default:
-        return value;
-    }
+  // The active sheet as its page setup lays it out, straight to a file
+  const handleExportPDF = () => {
+    const workbook = buildWorkbookFile();
+    const sheet = workbook.sheets[workbook.activeSheet];
+    exportToPDF(sheet, printSettings, { drawings: buildPrintDrawings(), hiddenRows }, `${sheet.name}.pdf`)
+      .catch(error => alert(`Could not export the PDF: ${error instanceof Error ? error.message : error}`));
   };
 
+  // Number formats only change how values show; the values stay as entered
   const handleNumberFormat = (format: string) => {
     if (!selectedCell && !selectedRange) return;
-    
-    handleFormatChange('numberFormat', format);
-    
-    const newCellData = { ...cellData };
-    
-    if (selectedRange) {
-      // Apply to all cells in the range
-      for (let row = selectedRange.startRow; row <= selectedRange.endRow; row++) {
-        for (let col = selectedRange.startCol; col <= selectedRange.endCol; col++) {
-          const cellKey = getCellKey(row, col);
-          const currentValue = cellData[cellKey] || '';
-          if (currentValue && !isNaN(parseFloat(currentValue))) {
-            newCellData[cellKey] = formatNumber(currentValue, format);
-          }
-        }
-      }
-    } else if (selectedCell) {
-      const cellKey = getCellKey(selectedCell.row, selectedCell.col);
-      const currentValue = cellData[cellKey] || '';
-      if (currentValue && !isNaN(parseFloat(currentValue))) {
-        newCellData[cellKey] = formatNumber(currentValue, format);
-      }
+    if (format === 'More') {
+      setFormatCellsOpen(true);
+      return;
     }
-    
-    setCellData(newCellData);
+    const category = FORMAT_CATEGORIES.find(name => name === format);
+    handleFormatChange('numberFormat', category ? buildFormatCode(category, DEFAULT_FORMAT_OPTIONS) : resolveFormatCode(format) || 'General');
+  };
+
+  const activeCellKey = () => {
+    const cell = selectedRange ? { row: selectedRange.startRow, col: selectedRange.startCol } : selectedCell;
+    return cell ? getCellKey(cell.row, cell.col) : null;
   };
 
   const handleTextColorChange = (color: string) => {
@@ -546,6 +513,19 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
               <Copy className="w-3 h-3" />
               <span className="ml-1">Copy</span>
             </Button>
+            {/* Click to paint once, double-click to keep painting until Esc */}
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className={`h-4 px-2 text-xs ${buttonClass} ${formatPainter ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+              onClick={() => (formatPainter ? stopFormatPainter() : startFormatPainter(false))}
+              onDoubleClick={() => startFormatPainter(true)}
+              disabled={!selectedCell && !selectedRange}
+              title="Format Painter"
+            >
+              <Brush className="w-3 h-3" />
+              <span className="ml-1">Format Painter</span>
+            </Button>
           </div>
         </div>
       </div>
@@ -750,6 +730,130 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
           >
             <AlignRight className="w-4 h-4" />
           </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass}`}
+            onClick={() => handleIndent(-1)}
+            title="Decrease Indent"
+          >
+            <IndentDecrease className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass}`}
+            onClick={() => handleIndent(1)}
+            title="Increase Indent"
+          >
+            <IndentIncrease className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass} ${getCurrentFormat('verticalAlign') === 'top' ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+            onClick={() => handleFormatChange('verticalAlign', 'top')}
+            title="Top Align"
+          >
+            <AlignVerticalJustifyStart className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass} ${getCurrentFormat('verticalAlign') === 'middle' ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+            onClick={() => handleFormatChange('verticalAlign', 'middle')}
+            title="Middle Align"
+          >
+            <AlignVerticalJustifyCenter className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass} ${getCurrentFormat('verticalAlign') === 'bottom' ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+            onClick={() => handleFormatChange('verticalAlign', 'bottom')}
+            title="Bottom Align"
+          >
+            <AlignVerticalJustifyEnd className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass} ${getCurrentFormat('wrapText') ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+            onClick={() => handleFormatChange('wrapText', !getCurrentFormat('wrapText'))}
+            title="Wrap Text"
+          >
+            <WrapText className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass} ${getCurrentFormat('shrinkToFit') ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+            onClick={() => handleFormatChange('shrinkToFit', !getCurrentFormat('shrinkToFit'))}
+            title="Shrink to Fit"
+          >
+            <Minimize2 className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className={`h-7 w-7 p-0 ${buttonClass} ${getCurrentFormat('textRotation') ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+            onClick={(e) => openDropdown("orientation", e)}
+            title="Orientation"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+
+          {/* Borders */}
+          <Popover open={bordersOpen} onOpenChange={setBordersOpen}>
+            <PopoverTrigger asChild>
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                className={`h-7 w-7 p-0 ${buttonClass}`}
+                disabled={!selectedCell && !selectedRange}
+                title="Borders"
+              >
+                <Grid3x3 className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" sideOffset={8} className="w-64 p-2">
+              <div className="space-y-2">
+                <div>
+                  {BORDER_PRESETS.map(({ preset, label }) => (
+                    <div
+                      key={preset}
+                      className="px-2 py-1 text-sm cursor-pointer rounded hover:bg-gray-100"
+                      style={{ color: '#000000' }}
+                      onClick={() => handleBorderPreset(preset)}
+                    >
+                      {label}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="text-xs font-medium">Line Style</label>
+                  <select
+                    className="h-7 px-1 text-xs border rounded flex-1"
+                    value={borderStyle}
+                    onChange={(e) => setBorderStyle(e.target.value as BorderStyle)}
+                  >
+                    {BORDER_STYLES.map(style => (
+                      <option key={style} value={style}>{style}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="color"
+                    className="w-8 h-7 rounded border border-gray-300 cursor-pointer"
+                    value={borderColor}
+                    onChange={(e) => setBorderColor(e.target.value)}
+                    title="Line Color"
+                  />
+                </div>
+              </div>
+            </PopoverContent>
+          </Popover>
         </div>
       </div>
 
@@ -761,14 +865,13 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
         <div className="flex items-center gap-1">
           <select 
             className={`h-7 px-2 text-xs sm:text-sm border rounded ${inputClass}`}
-            value={(getCurrentFormat('numberFormat') as string) || 'General'}
+            value={describeFormatCode(getCurrentFormat('numberFormat') as string).category}
             onChange={(e) => handleNumberFormat(e.target.value)}
           >
-            <option>General</option>
-            <option>Number</option>
-            <option>Currency</option>
-            <option>Percentage</option>
-            <option>Date</option>
+            {FORMAT_CATEGORIES.map(category => (
+              <option key={category} value={category} hidden={category === 'Custom'}>{category}</option>
+            ))}
+            <option value="More">More Number Formats...</option>
           </select>
           <Button 
             variant="ghost" 
@@ -791,6 +894,27 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
 
       <Separator orientation="vertical" className={`h-12 ${isDarkMode ? 'bg-gray-700' : ''}`} />
 
+      {/* Styles Group */}
+      <div className="flex flex-col gap-1 min-w-fit">
+        <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-700'} mb-1`}>Styles</div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={(e) => openDropdown("cellStyles", e)}
+            className="px-2 py-1 hover:bg-gray-100 rounded text-gray-900"
+          >
+            Cell Styles ▼
+          </button>
+          <button
+            onClick={(e) => openDropdown("themes", e)}
+            className="px-2 py-1 hover:bg-gray-100 rounded text-gray-900"
+          >
+            Themes ▼
+          </button>
+        </div>
+      </div>
+
+      <Separator orientation="vertical" className={`h-12 ${isDarkMode ? 'bg-gray-700' : ''}`} />
+
       {/* Import/Export Group */}
       <div className="flex flex-col gap-1 min-w-fit">
         <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-700'} mb-1`}>Import/Export</div>
@@ -819,11 +943,34 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
               size="sm" 
               className={`h-4 px-2 text-xs ${buttonClass}`}
               onClick={handleExportPDF}
+              title="Export the sheet as a PDF, paginated as set up in Page Setup"
             >
               <Download className="w-3 h-3 mr-1" />
               PDF
             </Button>
           </div>
+          <div className="flex flex-col gap-1">
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className={`h-4 px-2 text-xs ${buttonClass}`}
+              onClick={handleExportXLSX}
+              title="Export all sheets as an Excel workbook (.xlsx)"
+            >
+              <FileSpreadsheet className="w-3 h-3 mr-1" />
+              XLSX
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className={`h-4 px-2 text-xs ${buttonClass}`}
+              onClick={handleExportODS}
+              title="Export all sheets as an OpenDocument spreadsheet (.ods) for LibreOffice"
+            >
+              <FileSpreadsheet className="w-3 h-3 mr-1" />
+              ODS
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -848,6 +995,108 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
         </div>
       </div>
       
+      {openMenu === "cellStyles" && (
+        <FloatingDropdown anchorRect={anchorRect} onClose={closeDropdown}>
+          <div className="px-3 overflow-y-auto" style={{ width: 480, maxHeight: 420 }}>
+            {STYLE_GROUPS.map(group => {
+              const styles = cellStyles.filter(style => style.group === group);
+              if (styles.length === 0) return null;
+              return (
+                <div key={group} className="mb-2">
+                  <div className="text-xs font-semibold mb-1" style={{ color: '#000000' }}>{group}</div>
+                  <div className="grid grid-cols-4 gap-1">
+                    {styles.map(style => {
+                      const format = resolveFormat({ style: style.name });
+                      return (
+                        <div
+                          key={style.name}
+                          className="h-7 px-1 flex items-center text-xs cursor-pointer truncate hover:outline hover:outline-2 hover:outline-yellow-400"
+                          style={{
+                            color: format.color || '#000000',
+                            backgroundColor: format.backgroundColor || '#FFFFFF',
+                            fontFamily: format.fontFamily,
+                            fontWeight: format.bold ? 'bold' : 'normal',
+                            fontStyle: format.italic ? 'italic' : 'normal',
+                            borderTop: borderCss(format.borders?.top),
+                            borderRight: borderCss(format.borders?.right),
+                            borderBottom: borderCss(format.borders?.bottom),
+                            borderLeft: borderCss(format.borders?.left)
+                          }}
+                          title={`${style.name} (right-click to modify)`}
+                          onClick={() => handleApplyStyle(style.name)}
+                          onContextMenu={(e) => { e.preventDefault(); openStyleDialog(style); }}
+                        >
+                          {style.name}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+            <div 
+              className="flex items-center px-1 py-2 cursor-pointer rounded transition-all"
+              onClick={() => openStyleDialog()}
+              onMouseEnter={(e) => e.currentTarget.style.background = 'linear-gradient(135deg, #FFFACD 0%, #FFD700 25%, #FFFACD 50%, #FFD700 75%, #FFFACD 100%)'}
+              onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+              style={{ color: '#000000' }}
+            >
+              <Plus className="w-4 h-4 mr-2" style={{ color: '#000000' }} />
+              <span className="text-black font-medium">New Cell Style...</span>
+            </div>
+          </div>
+        </FloatingDropdown>
+      )}
+
+      {openMenu === "themes" && (
+        <FloatingDropdown anchorRect={anchorRect} onClose={closeDropdown}>
+          <>
+            {THEMES.map(theme => (
+              <div 
+                key={theme.name}
+                className="flex items-center px-4 py-2 cursor-pointer rounded transition-all"
+                onClick={() => { setWorkbookTheme(theme.name); closeDropdown(); }}
+                onMouseEnter={(e) => e.currentTarget.style.background = 'linear-gradient(135deg, #FFFACD 0%, #FFD700 25%, #FFFACD 50%, #FFD700 75%, #FFFACD 100%)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+                style={{ color: '#000000' }}
+              >
+                {workbookTheme.name === theme.name
+                  ? <Check className="w-4 h-4 mr-2" style={{ color: '#000000' }} />
+                  : <span className="w-4 h-4 mr-2" />}
+                <span className="text-black font-medium w-36" style={{ fontFamily: theme.fonts.major }}>{theme.name}</span>
+                <div className="flex">
+                  {[theme.colors.dark2, theme.colors.accent1, theme.colors.accent2, theme.colors.accent3, theme.colors.accent4, theme.colors.accent5, theme.colors.accent6].map((color, index) => (
+                    <div key={index} className="w-3 h-4" style={{ backgroundColor: color }} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </>
+        </FloatingDropdown>
+      )}
+
+      {openMenu === "orientation" && (
+        <FloatingDropdown anchorRect={anchorRect} onClose={closeDropdown}>
+          <>
+            {orientations.map(({ rotation, label }) => (
+              <div 
+                key={rotation}
+                className="flex items-center px-4 py-2 cursor-pointer rounded transition-all"
+                onClick={() => { handleFormatChange('textRotation', rotation || undefined); closeDropdown(); }}
+                onMouseEnter={(e) => e.currentTarget.style.background = 'linear-gradient(135deg, #FFFACD 0%, #FFD700 25%, #FFFACD 50%, #FFD700 75%, #FFFACD 100%)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+                style={{ color: '#000000' }}
+              >
+                {((getCurrentFormat('textRotation') as number) || 0) === rotation
+                  ? <Check className="w-4 h-4 mr-2" style={{ color: '#000000' }} />
+                  : <span className="w-4 h-4 mr-2" />}
+                <span className="text-black font-medium">{label}</span>
+              </div>
+            ))}
+          </>
+        </FloatingDropdown>
+      )}
+
       {openMenu === "insert" && (
         <FloatingDropdown anchorRect={anchorRect} onClose={closeDropdown}>
           {/* Insert Dropdown Content */}
@@ -1059,6 +1308,32 @@ export function HomeTab({ isDarkMode }: HomeTabProps) {
           </>
         </FloatingDropdown>
       )}
+
+      <FormatCellsDialog
+        open={formatCellsOpen}
+        onClose={() => setFormatCellsOpen(false)}
+        numberFormat={getCurrentFormat('numberFormat') as string | undefined}
+        sampleValue={activeCellKey() ? formulaContext.getCellValue(activeCellKey()!) : null}
+        onApply={(code) => handleFormatChange('numberFormat', code)}
+      />
+
+      <CsvImportDialog
+        open={!!csvFile}
+        file={csvFile}
+        onClose={() => setCsvFile(null)}
+        onImport={importDelimitedText}
+        defaultTarget={activeCellKey() || 'A1'}
+      />
+
+      <CellStyleDialog
+        open={!!styleDialog}
+        onClose={() => setStyleDialog(null)}
+        style={styleDialog?.style}
+        cellFormat={effectiveFormat(activeCellKey() ? cellFormats[activeCellKey()!] : undefined, cellStyles)}
+        styles={cellStyles}
+        onSave={saveCellStyle}
+        onDelete={deleteCellStyle}
+      />
     </div>
   );
 }
@@ -6,12 +6,19 @@ import {
   ZoomOut,
   Maximize2,
   Code,
-  ChevronDown
+  ChevronDown,
+  Crop,
+  SeparatorHorizontal,
+  Settings2
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Separator } from '../ui/separator';
 import { useSpreadsheet } from '../../contexts/SpreadsheetContext';
 import { useState } from 'react';
+import { PrintLayout } from '../PrintLayout';
+import { exportToPDF } from '../../utils/exportImport';
+import type { PrintSettings } from '../../utils/pageLayout';
+import { rangeRef } from '../../utils/workbookFile';
 
 interface ViewTabProps {}
 
@@ -27,9 +34,18 @@ export function ViewTab({}: ViewTabProps) {
     setZoomLevel,
     freezePanes,
     setFreezePanes,
-    selectedCell
+    selectedCell,
+    selectedRange,
+    printSettings,
+    setPrintSettings,
+    pageBreakPreview,
+    setPageBreakPreview,
+    buildWorkbookFile,
+    buildPrintDrawings,
+    hiddenRows
   } = useSpreadsheet();
   const [showFreezePanesMenu, setShowFreezePanesMenu] = useState(false);
+  const [pageSetupOpen, setPageSetupOpen] = useState(false);
   const buttonClass = 'hover:bg-gray-50 text-gray-900 border border-yellow-600/20 hover:border-yellow-600/40 shadow-sm';
   
   const handleZoomIn = () => setZoomLevel(Math.min(zoomLevel + 10, 200));
@@ -47,8 +63,113 @@ export function ViewTab({}: ViewTabProps) {
     }
   };
 
+  // Page breaks go before the selected cell's row and column, as Excel inserts them
+  const breakCell = () => (selectedRange ? { row: selectedRange.startRow, col: selectedRange.startCol } : selectedCell);
+
+  const handleSetPrintArea = () => {
+    const range = selectedRange || (selectedCell && { startRow: selectedCell.row, startCol: selectedCell.col, endRow: selectedCell.row, endCol: selectedCell.col });
+    if (range) setPrintSettings({ printArea: rangeRef(range) });
+  };
+
+  const handleInsertBreak = () => {
+    const cell = breakCell();
+    if (!cell) return;
+    const rowBreaks = printSettings.rowBreaks || [];
+    const columnBreaks = printSettings.columnBreaks || [];
+    setPrintSettings({
+      rowBreaks: cell.row > 0 && !rowBreaks.includes(cell.row) ? [...rowBreaks, cell.row].sort((a, b) => a - b) : rowBreaks,
+      columnBreaks: cell.col > 0 && !columnBreaks.includes(cell.col) ? [...columnBreaks, cell.col].sort((a, b) => a - b) : columnBreaks
+    });
+  };
+
+  const handleRemoveBreak = () => {
+    const cell = breakCell();
+    if (!cell) return;
+    setPrintSettings({
+      rowBreaks: (printSettings.rowBreaks || []).filter(row => row !== cell.row),
+      columnBreaks: (printSettings.columnBreaks || []).filter(col => col !== cell.col)
+    });
+  };
+
+  const handleExportPdf = (settings: PrintSettings) => {
+    const workbook = buildWorkbookFile();
+    const sheet = workbook.sheets[workbook.activeSheet];
+    exportToPDF(sheet, settings, { drawings: buildPrintDrawings(), hiddenRows }, `${sheet.name}.pdf`)
+      .catch(error => alert(`Could not export the PDF: ${error instanceof Error ? error.message : error}`));
+  };
+
   return (
     <div className="flex items-center gap-2 sm:gap-4 px-2 sm:px-4 py-3 overflow-x-auto" style={{ transform: 'scale(0.75)', transformOrigin: 'left top', width: '133.33%' }}>
+      {/* Workbook Views Group */}
+      <div className="flex flex-col gap-1 min-w-fit">
+        <div className="text-xs text-gray-700 mb-1">Workbook Views</div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-9 px-2 flex-col gap-0.5 text-xs ${buttonClass} ${!pageBreakPreview ? 'bg-yellow-100' : ''}`}
+            onClick={() => setPageBreakPreview(false)}
+          >
+            <Grid className="w-4 h-4" />
+            <span>Normal</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-9 px-2 flex-col gap-0.5 text-xs ${buttonClass} ${pageBreakPreview ? 'bg-yellow-100' : ''}`}
+            onClick={() => setPageBreakPreview(true)}
+            title="Show where the sheet breaks into printed pages"
+          >
+            <Layout className="w-4 h-4" />
+            <span>Page Break Preview</span>
+          </Button>
+        </div>
+      </div>
+
+      <Separator orientation="vertical" className="h-12" />
+
+      {/* Page Setup Group */}
+      <div className="flex flex-col gap-1 min-w-fit">
+        <div className="text-xs text-gray-700 mb-1">Page Setup</div>
+        <div className="flex items-center gap-1">
+          <div className="flex flex-col gap-1">
+            <Button variant="ghost" size="sm" className={`h-4 px-2 text-xs ${buttonClass}`} onClick={handleSetPrintArea} title="Print only the selected cells">
+              <Crop className="w-3 h-3 mr-1" />
+              Set Print Area
+            </Button>
+            <Button variant="ghost" size="sm" className={`h-4 px-2 text-xs ${buttonClass}`} onClick={() => setPrintSettings({ printArea: undefined })} disabled={!printSettings.printArea}>
+              Clear Print Area
+            </Button>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Button variant="ghost" size="sm" className={`h-4 px-2 text-xs ${buttonClass}`} onClick={handleInsertBreak} title="Start a new page above and left of the selected cell">
+              <SeparatorHorizontal className="w-3 h-3 mr-1" />
+              Insert Page Break
+            </Button>
+            <Button variant="ghost" size="sm" className={`h-4 px-2 text-xs ${buttonClass}`} onClick={handleRemoveBreak}>
+              Remove Page Break
+            </Button>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-4 px-2 text-xs ${buttonClass}`}
+              onClick={() => setPrintSettings({ rowBreaks: [], columnBreaks: [] })}
+              disabled={!printSettings.rowBreaks?.length && !printSettings.columnBreaks?.length}
+            >
+              Reset All Page Breaks
+            </Button>
+            <Button variant="ghost" size="sm" className={`h-4 px-2 text-xs ${buttonClass}`} onClick={() => setPageSetupOpen(true)}>
+              <Settings2 className="w-3 h-3 mr-1" />
+              Page Setup...
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Separator orientation="vertical" className="h-12" />
+
       {/* Show Group */}
       <div className="flex flex-col gap-1 min-w-fit">
         <div className="text-xs text-gray-700 mb-1">Show</div>
@@ -82,6 +203,14 @@ export function ViewTab({}: ViewTabProps) {
           </label>
         </div>
       </div>
+
+      <PrintLayout
+        open={pageSetupOpen}
+        onClose={() => setPageSetupOpen(false)}
+        settings={printSettings}
+        onApply={setPrintSettings}
+        onExportPdf={handleExportPdf}
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { ArrowLeft, ArrowUp, Trash2, Minus, X } from 'lucide-react';
 import FloatingDropdown from './FloatingDropdown';
 import { Button } from './button';
+import { useSpreadsheetWithHistory } from '../../hooks/useSpreadsheetWithHistory';
 
 interface DeleteCellsMenuProps {
   isOpen: boolean;
@@ -14,6 +15,7 @@ type DeleteAction = 'shift-left' | 'shift-up' | 'entire-row' | 'entire-column' |
 
 export function DeleteCellsMenu({ isOpen, onClose, isDarkMode, triggerRef, anchorRect }: DeleteCellsMenuProps & { anchorRect: DOMRect | null }) {
   const [activeAction, setActiveAction] = useState<DeleteAction | null>(null);
+  const { deleteCells } = useSpreadsheetWithHistory();
 
   const menuItems = [
     {
@@ -45,8 +47,12 @@ export function DeleteCellsMenu({ isOpen, onClose, isDarkMode, triggerRef, ancho
 
   const handleItemClick = (action: DeleteAction) => {
     setActiveAction(action);
-    // Here you would implement the actual delete logic
-    console.log(`Delete action: ${action}`);
+    if (action === 'blank-rows') {
+      // Here you would implement the actual delete logic
+      console.log(`Delete action: ${action}`);
+    } else {
+      deleteCells(action);
+    }
     onClose();
   };
 
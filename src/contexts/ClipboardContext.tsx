@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
 import { useSpreadsheet } from './SpreadsheetContext';
+import { useUndoRedo } from './UndoRedoContext';
 
 // Cell data structure matching SpreadsheetContext
 interface CellData {
@@ -42,6 +43,7 @@ const ClipboardContext = createContext<ClipboardContextType | undefined>(undefin
 export const ClipboardProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [clipboard, setClipboard] = useState<ClipboardPayload | null>(null);
   const spreadsheet = useSpreadsheet();
+  const { record } = useUndoRedo();
 
   // Helper to get column label from index
   const getColumnLabel = useCallback((index: number): string => {
@@ -159,9 +161,11 @@ export const ClipboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
     }
 
-    setCellData(newCellData);
-    setCellFormats(newCellFormats);
-  }, [spreadsheet, clipboard, copySelection, getCellKey]);
+    record('Cut', () => {
+      setCellData(newCellData);
+      setCellFormats(newCellFormats);
+    });
+  }, [spreadsheet, clipboard, copySelection, getCellKey, record]);
 
   // Paste clipboard data at active cell
   const pasteClipboard = useCallback(() => {
@@ -200,15 +204,17 @@ export const ClipboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
     }
 
-    // Update spreadsheet state
-    setCellData(newCellData);
-    setCellFormats(newCellFormats);
+    // Update spreadsheet state as a single undo step
+    record('Paste', () => {
+      setCellData(newCellData);
+      setCellFormats(newCellFormats);
+    });
 
     // If it was a cut operation, clear the clipboard
     if (clipboard.isCut) {
       setClipboard(null);
     }
-  }, [clipboard, spreadsheet, getCellKey]);
+  }, [clipboard, spreadsheet, getCellKey, record]);
 
   // Check if clipboard has data
   const hasClipboardData = useCallback(() => {
@@ -1,28 +1,40 @@
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { CellValidation } from '../types/spreadsheet';
+import React, { createContext, useContext, useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { CellFormat, CellValidation, FilterState, Sheet } from '../types/spreadsheet';
 import { validateCellValue, applyValidationRule, removeValidation, getValidationForCell, ValidationResult } from '../utils/validationBackend';
 import { updateCollaboratorActivity } from '../utils/collaborationSystem';
 import { Shape, ShapeType } from '../types/shapes';
 import { measureCellContent, AUTO_FIT_CONSTANTS } from '../utils/autoFit';
+import { NamedCellStyle, WorkbookTheme, getTheme, mergeStyles, resolveCellFormat } from '../utils/cellStyles';
+import { FormatSnapshot, captureFormats, paintArea, paintFormats } from '../utils/formatPainter';
+import {
+  createRecalcEngine,
+  evaluateCondition,
+  isErrorValue,
+  isFormula,
+  parseCellRef,
+  renameSheetInFormula,
+  shiftArea,
+  shiftCellPosition,
+  shiftReferencesInFormula,
+  toCellRef,
+  CellData,
+  DefinedName,
+  FormulaContext,
+  SpillInfo,
+  StructuralEdit
+} from '../utils/formulaEngine';
+import { CellRange, cellInputText, cellNumber, createCellStore } from '../utils/cellStore';
+import { CellFormats, createCellDataAdapter } from '../utils/cellStoreAdapter';
+import { clearSheetStorage, generateSheetUUID, initializeBlankSheet, loadSheetData, saveSheetData } from '../utils/sheetStorageManager';
+import type { SheetFile, WorkbookFile } from '../utils/workbookFile';
+import { DEFAULT_PRINT_SETTINGS, parseTitleSpan, titleSpanRef, type PrintSettings } from '../utils/pageLayout';
+import type { PrintDrawing } from '../utils/pdfExport';
+import { COLUMN_HEADER_HEIGHT, ROW_HEADER_WIDTH } from '../utils/gridVirtualization';
 
 // Grid dimensions - matching SpreadsheetGrid constants
 const MAX_COLS = 52; // Support up to 52 columns (A-AZ) - expandable to 16384
 const MAX_ROWS = 100; // Support up to 100 rows - expandable to 1048576
 
-interface CellFormat {
-  fontFamily?: string;
-  fontSize?: string | number;
-  bold?: boolean;
-  italic?: boolean;
-  underline?: boolean;
-  textAlign?: 'left' | 'center' | 'right';
-  color?: string;
-  backgroundColor?: string;
-  isLink?: boolean;
-  linkUrl?: string;
-  textDecoration?: string;
-}
-
 interface FloatingImage {
   id: string;
   src: string;
@@ -87,6 +99,98 @@ interface FloatingTextBox {
   drawPath?: { x: number; y: number }[];
 }
 
+// Sheet tab metadata; cell data of inactive sheets lives in sheet storage. Merged areas read
+// from a file are kept so they are written back out. Page setup is kept per sheet.
+type SheetInfo = Pick<Sheet, 'id' | 'name' | 'namedRanges' | 'filterState'> & { merges?: CellRange[]; printSettings?: PrintSettings };
+
+// Workbook parts a structural edit rewrites outside the active sheet's cells
+export interface WorkbookState {
+  namedRanges: Map<string, string>;
+  sheetNames: Map<string, Map<string, string> | undefined>;
+  sheetMerges: Map<string, CellRange[] | undefined>;
+  sheetPrintSettings: Map<string, PrintSettings | undefined>;
+  otherSheets: { [sheetId: string]: CellData };
+  conditionalFormattingRules: any[];
+  floatingCharts: FloatingChart[];
+  columnWidths: Map<number, number>;
+  rowHeights: Map<number, number>;
+  cellStyles: NamedCellStyle[];
+  workbookTheme: string;
+}
+
+// Formatting the Format Painter picked up; sticky painters stay on until stopped (Esc)
+interface FormatPainterState {
+  source: CellRange;
+  snapshot: FormatSnapshot<CellFormat, CellValidation>;
+  sticky: boolean;
+}
+
+// Characters Excel does not allow in sheet names
+const INVALID_SHEET_NAME = /[\[\]:*?/\\]/;
+
+// Rewrite every formula in a set of cells, keeping the same object when nothing changes
+function rewriteCells<T extends { [key: string]: string }>(cells: T, rewrite: (formula: string) => string): T {
+  let changed = false;
+  const next: { [key: string]: string } = {};
+  Object.entries(cells).forEach(([key, value]) => {
+    next[key] = rewrite(value);
+    if (next[key] !== value) changed = true;
+  });
+  return changed ? next as T : cells;
+}
+
+// Rewrite a reference stored without its "=" (names, rule ranges) the way a formula is rewritten
+function rewriteReference(reference: string, rewrite: (formula: string) => string): string {
+  return rewrite(`=${reference.replace(/^=/, '')}`).substring(1);
+}
+
+function rewriteNames(names: Map<string, string> | undefined, rewrite: (formula: string) => string) {
+  if (!names) return names;
+  return new Map(Array.from(names, ([name, reference]) => [name, rewriteReference(reference, rewrite)]));
+}
+
+/**
+ * Page setup after a structural edit of its sheet: print areas and print titles are
+ * rewritten like names and manual breaks move with their rows and columns. Parts that were
+ * deleted are dropped.
+ */
+function rewritePrintSettings(settings: PrintSettings | undefined, rewrite: (formula: string) => string, edit: StructuralEdit): PrintSettings | undefined {
+  if (!settings) return settings;
+  const kept = (reference: string) => {
+    const rewritten = rewriteReference(reference, rewrite);
+    return rewritten.includes('#REF!') ? undefined : rewritten;
+  };
+  // Titles may be written "3" or "C", which as formulas are not references
+  const title = (text: string | undefined, axis: 'rows' | 'columns') => {
+    const span = parseTitleSpan(text, axis);
+    return span ? kept(titleSpanRef(span, axis)) : text;
+  };
+  const moveBreaks = (breaks: number[] | undefined, axis: 'row' | 'column') => {
+    if (!breaks || edit.band || edit.axis !== axis) return breaks;
+    return breaks.flatMap(index => {
+      const moved = shiftCellPosition(axis === 'row' ? { row: index, col: 0 } : { row: 0, col: index }, edit);
+      return moved ? [axis === 'row' ? moved.row : moved.col] : [];
+    });
+  };
+  return {
+    ...settings,
+    printArea: settings.printArea?.split(',').map(reference => kept(reference.trim())).filter(Boolean).join(', ') || undefined,
+    printTitleRows: title(settings.printTitleRows, 'rows'),
+    printTitleColumns: title(settings.printTitleColumns, 'columns'),
+    rowBreaks: moveBreaks(settings.rowBreaks, 'row'),
+    columnBreaks: moveBreaks(settings.columnBreaks, 'column')
+  };
+}
+
+// Point every formula in a set of cells (or name definitions) at a renamed sheet
+function renameSheetInCells<T extends { [key: string]: string }>(cells: T, oldName: string, newName: string): T {
+  return rewriteCells(cells, formula => renameSheetInFormula(formula, oldName, newName));
+}
+
+function renameSheetInNames(names: Map<string, string> | undefined, oldName: string, newName: string) {
+  return rewriteNames(names, formula => renameSheetInFormula(formula, oldName, newName));
+}
+
 interface SpreadsheetContextType {
   selectedCell: { row: number; col: number } | null;
   setSelectedCell: (cell: { row: number; col: number } | null) => void;
@@ -94,6 +198,25 @@ interface SpreadsheetContextType {
   setSelectedRange: (range: { startRow: number; startCol: number; endRow: number; endCol: number } | null) => void;
   cellData: { [key: string]: string };
   setCellData: React.Dispatch<React.SetStateAction<{ [key: string]: string }>>;
+  formulaContext: FormulaContext;
+  getDisplayValue: (cellKey: string) => string;
+  getCyclePath: (cellKey: string) => string[] | null;
+  getSpillInfo: (cellKey: string) => SpillInfo | null;
+  // Workbook sheets and defined names
+  sheets: SheetInfo[];
+  activeSheetId: string;
+  setActiveSheetId: (sheetId: string) => void;
+  addSheet: () => void;
+  // Returns why the sheet could not be renamed, or null when it was
+  renameSheet: (sheetId: string, newName: string) => string | null;
+  namedRanges: Map<string, string>;
+  defineName: (name: string, reference: string, sheetId?: string) => void;
+  deleteName: (name: string, sheetId?: string) => void;
+  // Every sheet as spreadsheet files hold it, and replacing the workbook with one read from a file
+  buildWorkbookFile: () => WorkbookFile;
+  loadWorkbookFile: (workbook: WorkbookFile) => void;
+  // Charts, shapes, text boxes and pictures as the PDF export draws them over the cells
+  buildPrintDrawings: () => PrintDrawing[];
   cellFormats: { [key: string]: CellFormat };
   setCellFormats: React.Dispatch<React.SetStateAction<{ [key: string]: CellFormat }>>;
   cellValidations: { [key: string]: CellValidation };
@@ -136,8 +259,18 @@ interface SpreadsheetContextType {
   getCellKey: (row: number, col: number) => string;
   insertCells: (option: 'shift-right' | 'shift-down' | 'shift-left' | 'shift-up' | 'entire-row' | 'entire-column') => void;
   deleteCells: (option: 'shift-left' | 'shift-up' | 'entire-row' | 'entire-column') => void;
+  // Insert rows above `row` (columns left of `col`), rewriting references across the workbook
+  insertRows: (row: number, count: number) => void;
+  insertColumns: (col: number, count: number) => void;
   insertTable: (columns: number, rows: number) => void;
   moveColumnLeft: () => void;
+  // Format Painter: pick up the selection's formatting, then paint it over target blocks
+  formatPainter: FormatPainterState | null;
+  startFormatPainter: (sticky: boolean) => void;
+  stopFormatPainter: () => void;
+  applyFormatPainter: (target: CellRange) => void;
+  captureWorkbookState: () => WorkbookState;
+  restoreWorkbookState: (state: Partial<WorkbookState>) => void;
   validateCell: (cellId: string, value: string) => ValidationResult;
   applyValidation: (range: string, validation: CellValidation) => void;
   removeValidationFromRange: (range: string) => void;
@@ -169,11 +302,27 @@ interface SpreadsheetContextType {
   setZoomLevel: (level: number) => void;
   freezePanes: { row: number; col: number } | null;
   setFreezePanes: (panes: { row: number; col: number } | null) => void;
+  // Page setup of the active sheet, and the grid showing where its pages break
+  printSettings: PrintSettings;
+  setPrintSettings: (changes: Partial<PrintSettings>) => void;
+  pageBreakPreview: boolean;
+  setPageBreakPreview: (preview: boolean) => void;
   theme: 'light' | 'dark';
   setTheme: (theme: 'light' | 'dark') => void;
+  // Cell styles and the workbook theme
+  cellStyles: NamedCellStyle[];
+  // Add a style, or replace the one named `previousName` (or its own name)
+  saveCellStyle: (style: NamedCellStyle, previousName?: string) => void;
+  deleteCellStyle: (name: string) => void;
+  workbookTheme: WorkbookTheme;
+  setWorkbookTheme: (name: string) => void;
+  // The formatting a cell is shown with: its style under its own format, theme colors looked up
+  resolveFormat: (format: CellFormat | undefined) => CellFormat;
   // Data operations
   sortData: (column: number, direction: 'asc' | 'desc') => void;
-  filterData: (column: number, criteria: any) => void;
+  // Keeps rows whose value in the column is one of the criteria; null criteria clear the filter
+  filterData: (column: number, criteria: string[] | null) => void;
+  hiddenRows: Set<number>;
   removeDuplicates: (columns: number[]) => void;
   textToColumns: (column: number, delimiter: string) => void;
   // Clipboard operations  
@@ -198,11 +347,9 @@ interface SpreadsheetContextType {
 
 const SpreadsheetContext = createContext<SpreadsheetContextType | undefined>(undefined);
 
-export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialData?: any }> = ({ children, initialData }) => {
+export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialData?: any; initialWorkbook?: WorkbookFile }> = ({ children, initialData, initialWorkbook }) => {
   const [selectedCell, setSelectedCell] = useState<{ row: number; col: number } | null>(null);
   const [selectedRange, setSelectedRange] = useState<{ startRow: number; startCol: number; endRow: number; endCol: number } | null>(null);
-  const [cellData, setCellData] = useState<{ [key: string]: string }>(initialData || {});
-  const [cellFormats, setCellFormats] = useState<{ [key: string]: CellFormat }>({});
   const [cellValidations, setCellValidations] = useState<{ [key: string]: CellValidation }>({});
   const [inputMessage, setInputMessage] = useState<{ title?: string; message?: string } | null>(null);
   const [floatingImages, setFloatingImages] = useState<FloatingImage[]>([]);
@@ -212,6 +359,200 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
   const [shapes, setShapes] = useState<Shape[]>([]);
   const [drawingShapeType, setDrawingShapeType] = useState<ShapeType | null>(null);
 
+  // Workbook sheets - cellData always holds the active sheet
+  const [sheets, setSheets] = useState<SheetInfo[]>(() => [{ id: generateSheetUUID(), name: 'Sheet1' }]);
+  const [activeSheetId, setActiveSheetId] = useState(() => sheets[0].id);
+  // Workbook-scoped names; sheet-scoped names live on their sheet
+  const [namedRanges, setNamedRanges] = useState<Map<string, string>>(new Map());
+  const activeSheet = sheets.find(sheet => sheet.id === activeSheetId) || sheets[0];
+
+  // Cells of every sheet live in one sparse store. cellData and cellFormats are adapter views
+  // of the active sheet, and their setters write the edited copies back to the store.
+  const [cellAdapter] = useState(() => {
+    const adapter = createCellDataAdapter(createCellStore());
+    if (initialData) adapter.writeCellData(sheets[0].id, initialData);
+    return adapter;
+  });
+  const cellStore = cellAdapter.store;
+  const [storeRevision, setStoreRevision] = useState(0);
+  const activeSheetIdRef = useRef(activeSheet.id);
+  activeSheetIdRef.current = activeSheet.id;
+
+  const cellData = useMemo(() => cellAdapter.readCellData(activeSheet.id), [cellAdapter, activeSheet.id, storeRevision]);
+  const cellFormats = useMemo(
+    () => cellAdapter.readCellFormats(activeSheet.id) as { [key: string]: CellFormat },
+    [cellAdapter, activeSheet.id, storeRevision]
+  );
+
+  // A sheet opened for the first time this session starts from its saved data
+  useLayoutEffect(() => {
+    if (cellStore.hasSheet(activeSheet.id)) return;
+    const saved = loadSheetData(activeSheet.id);
+    if (saved && cellAdapter.writeCellData(activeSheet.id, saved)) setStoreRevision(revision => revision + 1);
+  }, [cellAdapter, activeSheet.id]);
+
+  const setCellData = useCallback<React.Dispatch<React.SetStateAction<CellData>>>(action => {
+    const sheetId = activeSheetIdRef.current;
+    const next = typeof action === 'function' ? action(cellAdapter.readCellData(sheetId)) : action;
+    if (cellAdapter.writeCellData(sheetId, next)) setStoreRevision(revision => revision + 1);
+  }, [cellAdapter]);
+
+  const setCellFormats = useCallback<React.Dispatch<React.SetStateAction<{ [key: string]: CellFormat }>>>(action => {
+    const sheetId = activeSheetIdRef.current;
+    const previous = cellAdapter.readCellFormats(sheetId) as { [key: string]: CellFormat };
+    const next = typeof action === 'function' ? action(previous) : action;
+    if (cellAdapter.writeCellFormats(sheetId, next as CellFormats)) setStoreRevision(revision => revision + 1);
+  }, [cellAdapter]);
+
+  // Formula recalculation - the engine diffs each cellData snapshot against the last one and
+  // recalculates only the edited cells and their dependents. It is brought up to date in
+  // layout effects, before the browser paints, and each update bumps engineRevision so what
+  // reads its values renders again.
+  const [recalcEngine] = useState(createRecalcEngine);
+  const [engineRevision, setEngineRevision] = useState(0);
+  const engineUpdated = () => setEngineRevision(revision => revision + 1);
+  const syncedSheetNames = useRef<string[]>([]);
+  const syncedHiddenRows = useRef('');
+
+  // Inactive sheets are read from the store, or from their saved data when they have not been
+  // opened yet, so cross-sheet references resolve
+  const inactiveSheetData = useMemo(() => sheets
+    .filter(sheet => sheet.id !== activeSheet.id)
+    .map(sheet => ({
+      name: sheet.name,
+      cells: cellStore.hasSheet(sheet.id) ? cellAdapter.readCellData(sheet.id) : loadSheetData(sheet.id) || {}
+    })), [sheets, activeSheet.id]);
+
+  useLayoutEffect(() => {
+    const names = sheets.map(sheet => sheet.name);
+    syncedSheetNames.current
+      .filter(name => !names.includes(name))
+      .forEach(name => recalcEngine.removeSheet(name));
+    syncedSheetNames.current = names;
+
+    recalcEngine.setActiveSheet(activeSheet.name);
+    inactiveSheetData.forEach(({ name, cells }) => recalcEngine.update(cells, name));
+    engineUpdated();
+  }, [recalcEngine, inactiveSheetData]);
+
+  const definedNames = useMemo<DefinedName[]>(() => [
+    ...Array.from(namedRanges, ([name, reference]) => ({ name, reference })),
+    ...sheets.flatMap(sheet => Array.from(sheet.namedRanges || new Map<string, string>(), ([name, reference]) => ({ name, reference, sheet: sheet.name })))
+  ], [namedRanges, sheets]);
+  useLayoutEffect(() => {
+    recalcEngine.setNames(definedNames);
+    engineUpdated();
+  }, [recalcEngine, definedNames]);
+
+  useLayoutEffect(() => {
+    recalcEngine.update(cellData);
+    engineUpdated();
+  }, [recalcEngine, cellData, activeSheet.name]);
+
+  // Rows (0-based) the active sheet's filter hides; row 1 holds the headers and always shows
+  const hiddenRows = useMemo(() => {
+    const hidden = new Set<number>();
+    const filter = activeSheet.filterState;
+    if (!filter) return hidden;
+
+    let lastRow = 0;
+    Object.keys(cellData).forEach(cellKey => {
+      const match = /^([A-Z]+)(\d+)$/.exec(cellKey);
+      if (match && match[1] === filter.column) lastRow = Math.max(lastRow, parseInt(match[2], 10));
+    });
+    for (let row = 1; row < lastRow; row++) {
+      if (!filter.criteria.includes(recalcEngine.getDisplayValue(`${filter.column}${row + 1}`))) hidden.add(row);
+    }
+    return hidden;
+  }, [recalcEngine, activeSheet.filterState, cellData, engineRevision]);
+  // Hiding rows recalculates SUBTOTAL and AGGREGATE, which re-renders with the same rows
+  useLayoutEffect(() => {
+    const rows = [...hiddenRows];
+    if (rows.join() === syncedHiddenRows.current) return;
+    syncedHiddenRows.current = rows.join();
+    recalcEngine.setHiddenRows(rows);
+    engineUpdated();
+  }, [recalcEngine, hiddenRows]);
+
+  const formulaContext = recalcEngine.context;
+
+  const getDisplayValue = useCallback((cellKey: string) => {
+    return recalcEngine.getDisplayValue(cellKey);
+  }, [recalcEngine, engineRevision]);
+
+  const getCyclePath = useCallback((cellKey: string) => {
+    return recalcEngine.getCyclePath(cellKey);
+  }, [recalcEngine, engineRevision]);
+
+  const getSpillInfo = useCallback((cellKey: string) => {
+    return recalcEngine.getSpillInfo(cellKey);
+  }, [recalcEngine, engineRevision]);
+
+  const addSheet = useCallback(() => {
+    const newSheet = { id: generateSheetUUID(), name: `Sheet${sheets.length + 1}` };
+    // Initialize blank sheet with explicit empty data immediately
+    initializeBlankSheet(newSheet.id);
+    setSheets(prev => [...prev, newSheet]);
+    setActiveSheetId(newSheet.id);
+    console.log(`🆕 Created new blank sheet: ${newSheet.id}`);
+  }, [sheets.length]);
+
+  // Rename a sheet and rewrite every formula and name that refers to it by its old name
+  const renameSheet = useCallback((sheetId: string, newName: string): string | null => {
+    const sheet = sheets.find(s => s.id === sheetId);
+    if (!sheet || sheet.name === newName) return null;
+    if (INVALID_SHEET_NAME.test(newName)) return 'Sheet names cannot contain any of these characters: [ ] : * ? / \\';
+    if (newName.length > 31) return 'Sheet names can be at most 31 characters long';
+    if (sheets.some(s => s.id !== sheetId && s.name.toUpperCase() === newName.toUpperCase())) {
+      return `A sheet named ${newName} already exists`;
+    }
+
+    const oldName = sheet.name;
+    sheets.forEach(s => {
+      if (s.id === activeSheet.id) return;
+      if (cellStore.hasSheet(s.id)) {
+        cellAdapter.writeCellData(s.id, renameSheetInCells(cellAdapter.readCellData(s.id), oldName, newName));
+      }
+      const saved = loadSheetData(s.id);
+      if (!saved) return;
+      const rewritten = renameSheetInCells(saved, oldName, newName);
+      if (rewritten !== saved) saveSheetData(s.id, rewritten);
+    });
+    setCellData(prev => renameSheetInCells(prev, oldName, newName));
+    setNamedRanges(prev => renameSheetInNames(prev, oldName, newName)!);
+    setSheets(prev => prev.map(s => ({
+      ...s,
+      name: s.id === sheetId ? newName : s.name,
+      namedRanges: renameSheetInNames(s.namedRanges, oldName, newName)
+    })));
+    return null;
+  }, [sheets, activeSheet.id]);
+
+  const defineName = useCallback((name: string, reference: string, sheetId?: string) => {
+    if (!sheetId) {
+      setNamedRanges(prev => new Map(prev).set(name, reference));
+      return;
+    }
+    setSheets(prev => prev.map(sheet =>
+      sheet.id === sheetId ? { ...sheet, namedRanges: new Map(sheet.namedRanges).set(name, reference) } : sheet
+    ));
+  }, []);
+
+  const deleteName = useCallback((name: string, sheetId?: string) => {
+    const without = (names: Map<string, string> | undefined) => {
+      const next = new Map(names);
+      next.delete(name);
+      return next;
+    };
+    if (!sheetId) {
+      setNamedRanges(prev => without(prev));
+      return;
+    }
+    setSheets(prev => prev.map(sheet =>
+      sheet.id === sheetId ? { ...sheet, namedRanges: without(sheet.namedRanges) } : sheet
+    ));
+  }, []);
+
   // AutoFit state
   const [columnWidths, setColumnWidths] = useState<Map<number, number>>(new Map());
   const [rowHeights, setRowHeights] = useState<Map<number, number>>(new Map());
@@ -305,6 +646,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
   const [showHeadings, setShowHeadings] = useState(true);
   const [zoomLevel, setZoomLevel] = useState(100);
   const [freezePanes, setFreezePanes] = useState<{ row: number; col: number } | null>(null);
+  const [pageBreakPreview, setPageBreakPreview] = useState(false);
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     const saved = localStorage.getItem('theme');
     return (saved as 'light' | 'dark') || 'light';
@@ -316,6 +658,26 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
   // Conditional formatting state
   const [conditionalFormattingRules, setConditionalFormattingRules] = useState<any[]>([]);
 
+  // Styles the workbook added or modified; the built-in ones are always there
+  const [customCellStyles, setCustomCellStyles] = useState<NamedCellStyle[]>([]);
+  const [workbookThemeName, setWorkbookThemeName] = useState(getTheme(undefined).name);
+  const cellStyles = useMemo(() => mergeStyles(customCellStyles), [customCellStyles]);
+  const workbookTheme = useMemo(() => getTheme(workbookThemeName), [workbookThemeName]);
+
+  const resolveFormat = useCallback((format: CellFormat | undefined) => resolveCellFormat(format, cellStyles, workbookTheme), [cellStyles, workbookTheme]);
+
+  const saveCellStyle = useCallback((style: NamedCellStyle, previousName = style.name) => {
+    setCustomCellStyles(prev => {
+      const kept = prev.filter(existing => existing.name !== previousName && existing.name !== style.name);
+      return [...kept, style];
+    });
+  }, []);
+
+  // Cells using a deleted style show as Normal; built-in styles go back to their defaults
+  const deleteCellStyle = useCallback((name: string) => {
+    setCustomCellStyles(prev => prev.filter(style => style.name !== name));
+  }, []);
+
   // Auto-save effect - saves every 30 seconds
   useEffect(() => {
     const userEmail = localStorage.getItem('userEmail');
@@ -333,6 +695,8 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
             floatingShapes,
             floatingCharts,
             floatingTextBoxes,
+            cellStyles: customCellStyles,
+            workbookTheme: workbookThemeName,
           },
           userEmail
         );
@@ -342,7 +706,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
     }, 30000); // 30 seconds
 
     return () => clearInterval(autoSaveInterval);
-  }, [cellData, cellFormats, cellValidations, floatingImages, floatingShapes, floatingCharts, floatingTextBoxes]);
+  }, [cellData, cellFormats, cellValidations, floatingImages, floatingShapes, floatingCharts, floatingTextBoxes, customCellStyles, workbookThemeName]);
 
   // Periodic activity update for collaboration (every 2 minutes)
   useEffect(() => {
@@ -374,8 +738,8 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
     if (!validation) {
       return { valid: true };
     }
-    return validateCellValue(value, validation);
-  }, [cellValidations]);
+    return validateCellValue(value, validation, formulaContext);
+  }, [cellValidations, formulaContext, engineRevision]);
 
   const applyValidation = useCallback((range: string, validation: CellValidation) => {
     setCellValidations(prev => {
@@ -437,203 +801,332 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
 
 
 
-  const insertCells = (option: 'shift-right' | 'shift-down' | 'shift-left' | 'shift-up' | 'entire-row' | 'entire-column') => {
-    if (!selectedCell && !selectedRange) return;
-    
-    // Use range if available, otherwise use selected cell
-    const startRow = selectedRange ? selectedRange.startRow : selectedCell!.row;
-    const endRow = selectedRange ? selectedRange.endRow : selectedCell!.row;
-    const startCol = selectedRange ? selectedRange.startCol : selectedCell!.col;
-    const endCol = selectedRange ? selectedRange.endCol : selectedCell!.col;
-    
-    const row = startRow;
-    const col = startCol;
-    const newCellData = { ...cellData };
-    const newCellFormats = { ...cellFormats };
-    
-    if (option === 'shift-right') {
-      for (let c = 25; c > col; c--) {
-        const oldKey = getCellKey(row, c - 1);
-        const newKey = getCellKey(row, c);
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    } else if (option === 'shift-down') {
-      for (let r = 29; r > row; r--) {
-        const oldKey = getCellKey(r - 1, col);
-        const newKey = getCellKey(r, col);
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    } else if (option === 'shift-left') {
-      for (let c = col; c < 25; c++) {
-        const oldKey = getCellKey(row, c + 1);
-        const newKey = getCellKey(row, c);
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    } else if (option === 'shift-up') {
-      for (let r = row; r < 29; r++) {
-        const oldKey = getCellKey(r + 1, col);
-        const newKey = getCellKey(r, col);
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
+  // Structural edits - move the active sheet's cells and point every reference in the
+  // workbook (formulas, names, validations, rule ranges, chart ranges) at where its cells
+  // went. References to deleted cells become #REF!.
+  const applyStructuralEdit = (edit: StructuralEdit) => {
+    const sheetName = activeSheet.name;
+    const shiftIn = (host: string) => (formula: string) => shiftReferencesInFormula(formula, edit, host);
+    const shiftHere = shiftIn(sheetName);
+
+    const moveCells = <T,>(cells: { [key: string]: T }, rewrite: (value: T) => T = value => value) => {
+      const next: { [key: string]: T } = {};
+      Object.entries(cells).forEach(([key, value]) => {
+        const position = parseCellRef(key);
+        const moved = position && shiftCellPosition(position, edit);
+        if (moved) next[toCellRef(moved.row, moved.col)] = rewrite(value);
+      });
+      return next;
+    };
+    // Merged areas move with their cells; deleting part of one shrinks it, and one left a
+    // single cell is no longer merged
+    const moveMerges = (merges: CellRange[] | undefined) => merges?.flatMap(range => {
+      const area = shiftArea({ start: { row: range.startRow, col: range.startCol }, end: { row: range.endRow, col: range.endCol } }, edit);
+      if (!area || (area.start.row === area.end.row && area.start.col === area.end.col)) return [];
+      return [{ startRow: area.start.row, startCol: area.start.col, endRow: area.end.row, endCol: area.end.col }];
+    });
+    const moveSizes = (sizes: Map<number, number>) => {
+      const next = new Map<number, number>();
+      sizes.forEach((size, index) => {
+        const moved = shiftCellPosition(edit.axis === 'row' ? { row: index, col: 0 } : { row: 0, col: index }, edit);
+        if (moved) next.set(edit.axis === 'row' ? moved.row : moved.col, size);
+      });
+      return next;
+    };
+
+    setCellData(prev => moveCells<string>(prev, shiftHere));
+    setCellFormats(prev => moveCells<CellFormat>(prev));
+    setCellValidations(prev => moveCells<CellValidation>(prev, validation => (validation.formula
+      ? { ...validation, formula: validation.formula.startsWith('=') ? shiftHere(validation.formula) : rewriteReference(validation.formula, shiftHere) }
+      : validation)));
+
+    // Formulas on the other sheets that reach into this one
+    sheets.forEach(sheet => {
+      if (sheet.id === activeSheet.id) return;
+      if (cellStore.hasSheet(sheet.id)) {
+        cellAdapter.writeCellData(sheet.id, rewriteCells(cellAdapter.readCellData(sheet.id), shiftIn(sheet.name)));
       }
-    } else if (option === 'entire-row') {
-      for (let r = MAX_ROWS - 1; r > row; r--) {
-        for (let c = 0; c < MAX_COLS; c++) {
-          const oldKey = getCellKey(r - 1, c);
-          const newKey = getCellKey(r, c);
-          if (newCellData[oldKey]) {
-            newCellData[newKey] = newCellData[oldKey];
-            delete newCellData[oldKey];
-          }
-          if (newCellFormats[oldKey]) {
-            newCellFormats[newKey] = newCellFormats[oldKey];
-            delete newCellFormats[oldKey];
+      const saved = loadSheetData(sheet.id);
+      if (!saved) return;
+      const rewritten = rewriteCells(saved, shiftIn(sheet.name));
+      if (rewritten !== saved) saveSheetData(sheet.id, rewritten);
+    });
+    setNamedRanges(prev => rewriteNames(prev, shiftHere)!);
+    setSheets(prev => prev.map(sheet => ({
+      ...sheet,
+      namedRanges: rewriteNames(sheet.namedRanges, shiftIn(sheet.name)),
+      merges: sheet.id === activeSheet.id ? moveMerges(sheet.merges) : sheet.merges,
+      printSettings: sheet.id === activeSheet.id ? rewritePrintSettings(sheet.printSettings, shiftHere, edit) : sheet.printSettings
+    })));
+
+    // Rules whose whole range was deleted go with it
+    setConditionalFormattingRules(prev => prev
+      .map(rule => ({
+        ...rule,
+        range: rewriteReference(rule.range, shiftHere),
+        criteria: rule.criteria?.formula ? { ...rule.criteria, formula: rewriteReference(rule.criteria.formula, shiftHere) } : rule.criteria
+      }))
+      .filter(rule => !rule.range.includes('#REF!')));
+    // Charts whose source range was deleted keep the data they last showed
+    setFloatingCharts(prev => prev.map(chart => {
+      if (!chart.dataRange) return chart;
+      const dataRange = rewriteReference(chart.dataRange, shiftHere);
+      return { ...chart, dataRange: dataRange.includes('#REF!') ? undefined : dataRange };
+    }));
+
+    if (!edit.band) {
+      if (edit.axis === 'row') setRowHeights(moveSizes);
+      else setColumnWidths(moveSizes);
+    }
+    updateActivity(); // Update collaboration activity
+  };
+
+  // What a structural edit changes beyond the active sheet's cells, so undo can put it back
+  const captureWorkbookState = (): WorkbookState => ({
+    namedRanges,
+    sheetNames: new Map(sheets.map(sheet => [sheet.id, sheet.namedRanges])),
+    sheetMerges: new Map(sheets.map(sheet => [sheet.id, sheet.merges])),
+    sheetPrintSettings: new Map(sheets.map(sheet => [sheet.id, sheet.printSettings])),
+    otherSheets: Object.fromEntries(sheets
+      .filter(sheet => sheet.id !== activeSheet.id)
+      .map(sheet => [sheet.id, cellStore.hasSheet(sheet.id) ? cellAdapter.readCellData(sheet.id) : loadSheetData(sheet.id) || {}])),
+    conditionalFormattingRules,
+    floatingCharts,
+    columnWidths,
+    rowHeights,
+    cellStyles: customCellStyles,
+    workbookTheme: workbookThemeName
+  });
+
+  // Put back the parts a state holds; other sheets' cells are replaced sheet by sheet
+  const restoreWorkbookState = (state: Partial<WorkbookState>) => {
+    Object.entries(state.otherSheets || {}).forEach(([sheetId, cells]) => {
+      if (sheetId === activeSheet.id) return;
+      if (cellStore.hasSheet(sheetId)) cellAdapter.writeCellData(sheetId, cells);
+      if (loadSheetData(sheetId)) saveSheetData(sheetId, cells);
+    });
+    const { sheetNames, sheetMerges, sheetPrintSettings } = state;
+    if (state.namedRanges) setNamedRanges(state.namedRanges);
+    if (sheetNames) {
+      setSheets(prev => prev.map(sheet => (sheetNames.has(sheet.id) ? { ...sheet, namedRanges: sheetNames.get(sheet.id) } : sheet)));
+    }
+    if (sheetMerges) {
+      setSheets(prev => prev.map(sheet => (sheetMerges.has(sheet.id) ? { ...sheet, merges: sheetMerges.get(sheet.id) } : sheet)));
+    }
+    if (sheetPrintSettings) {
+      setSheets(prev => prev.map(sheet => (sheetPrintSettings.has(sheet.id) ? { ...sheet, printSettings: sheetPrintSettings.get(sheet.id) } : sheet)));
+    }
+    if (state.conditionalFormattingRules) setConditionalFormattingRules(state.conditionalFormattingRules);
+    if (state.floatingCharts) setFloatingCharts(state.floatingCharts);
+    if (state.columnWidths) setColumnWidths(state.columnWidths);
+    if (state.rowHeights) setRowHeights(state.rowHeights);
+    if (state.cellStyles) setCustomCellStyles(state.cellStyles);
+    if (state.workbookTheme) setWorkbookThemeName(state.workbookTheme);
+    setStoreRevision(revision => revision + 1);
+  };
+
+  // Formatting is written as shown, with styles and theme colors resolved. The grid keeps one
+  // set of validation, sizes and frozen panes, which go with the active sheet.
+  const buildWorkbookFile = (): WorkbookFile => ({
+    sheets: sheets.map((sheet): SheetFile => {
+      const isActive = sheet.id === activeSheet.id;
+      const cells = isActive
+        ? cellData
+        : cellStore.hasSheet(sheet.id) ? cellAdapter.readCellData(sheet.id) : loadSheetData(sheet.id) || {};
+      const formats = cellStore.hasSheet(sheet.id) ? cellAdapter.readCellFormats(sheet.id) as { [key: string]: CellFormat } : {};
+      const context = isActive ? formulaContext : formulaContext.getSheetContext?.(sheet.name);
+      const values: SheetFile['values'] = {};
+      const spills: SheetFile['spills'] = {};
+      Object.entries(cells).forEach(([key, input]) => {
+        if (!isFormula(input)) return;
+        const value = context ? context.getCellValue(key) : null;
+        values[key] = value;
+
+        // A blocked array still spills, over its own cell only
+        const anchor = parseCellRef(key);
+        const spill = context?.getSpillRange?.(key);
+        const end = spill ? parseCellRef(spill.end) : isErrorValue(value) && value.code === '#SPILL!' ? anchor : null;
+        if (!anchor || !end) return;
+        spills[key] = { startRow: anchor.row, startCol: anchor.col, endRow: end.row, endCol: end.col };
+        for (let row = anchor.row; row <= end.row; row++) {
+          for (let col = anchor.col; col <= end.col; col++) {
+            const cell = toCellRef(row, col);
+            if (cell !== key) values[cell] = context!.getCellValue(cell);
           }
         }
-      }
+      });
+      return {
+        name: sheet.name,
+        cells,
+        values,
+        spills,
+        formats: Object.fromEntries(Object.entries(formats).map(([key, format]) => [key, resolveFormat(format)])),
+        validations: isActive ? cellValidations : {},
+        merges: sheet.merges || [],
+        columnWidths: isActive ? columnWidths : new Map(),
+        rowHeights: isActive ? rowHeights : new Map(),
+        freezePanes: isActive ? freezePanes : null,
+        names: sheet.namedRanges || new Map()
+      };
+    }),
+    names: namedRanges,
+    activeSheet: Math.max(0, sheets.findIndex(sheet => sheet.id === activeSheet.id))
+  });
+
+  // Floating objects are placed in grid coordinates, which start at the corner of the headings
+  const buildPrintDrawings = (): PrintDrawing[] => {
+    const x = (left: number) => left - ROW_HEADER_WIDTH;
+    const y = (top: number) => top - COLUMN_HEADER_HEIGHT;
+    return [
+      ...floatingCharts.map((chart): PrintDrawing => ({
+        kind: 'chart',
+        x: x(chart.x),
+        y: y(chart.y),
+        width: chart.width,
+        height: chart.height,
+        chartType: chart.config?.chartType || chart.type,
+        title: chart.config?.title,
+        // Charts inserted before chart configuration hold one series of label/value points
+        data: chart.chartData || { labels: chart.data.map(point => point.label), datasets: [{ label: '', data: chart.data.map(point => point.value) }] },
+        colors: chart.config?.colors,
+        showLegend: chart.config?.showLegend
+      })),
+      ...floatingImages.map((image): PrintDrawing => ({
+        kind: 'image',
+        x: x(image.x),
+        y: y(image.y),
+        width: image.width,
+        height: image.height,
+        rotation: image.rotation,
+        opacity: image.opacity,
+        src: image.src
+      })),
+      ...floatingTextBoxes.map((textBox): PrintDrawing => ({ ...textBox, kind: 'textBox', x: x(textBox.x), y: y(textBox.y) })),
+      ...shapes.map((shape): PrintDrawing => ({ kind: 'shape', shape: { ...shape, x: x(shape.x), y: y(shape.y) } }))
+    ];
+  };
+
+  // The file's sheets replace the workbook's; the sheet it opens on brings its layout and validation
+  const loadWorkbookFile = (workbook: WorkbookFile) => {
+    const loaded: SheetInfo[] = workbook.sheets.map(sheet => ({
+      id: generateSheetUUID(),
+      name: sheet.name,
+      namedRanges: sheet.names.size ? new Map(sheet.names) : undefined,
+      merges: sheet.merges.length ? sheet.merges : undefined
+    }));
+    workbook.sheets.forEach((sheet, index) => {
+      cellAdapter.writeCellData(loaded[index].id, sheet.cells);
+      cellAdapter.writeCellFormats(loaded[index].id, sheet.formats as CellFormats);
+      saveSheetData(loaded[index].id, sheet.cells);
+    });
+    sheets.forEach(sheet => {
+      cellStore.removeSheet(sheet.id);
+      clearSheetStorage(sheet.id);
+    });
+
+    const activeIndex = workbook.sheets[workbook.activeSheet] ? workbook.activeSheet : 0;
+    const active = workbook.sheets[activeIndex];
+    setSheets(loaded);
+    setActiveSheetId(loaded[activeIndex].id);
+    setNamedRanges(new Map(workbook.names));
+    setCellValidations(active.validations);
+    setColumnWidths(new Map(active.columnWidths));
+    setRowHeights(new Map(active.rowHeights));
+    setFreezePanes(active.freezePanes);
+    setSelectedCell({ row: 0, col: 0 });
+    setSelectedRange(null);
+    setStoreRevision(revision => revision + 1);
+  };
+
+  // A workbook opened from a file replaces the blank one the provider starts with
+  useEffect(() => {
+    if (initialWorkbook) loadWorkbookFile(initialWorkbook);
+  }, []);
+
+  // Rows or columns the selection covers, or the selected cell's
+  const selectionBounds = () => {
+    if (selectedRange) return selectedRange;
+    if (selectedCell) return { startRow: selectedCell.row, endRow: selectedCell.row, startCol: selectedCell.col, endCol: selectedCell.col };
+    return null;
+  };
+
+  const [formatPainter, setFormatPainter] = useState<FormatPainterState | null>(null);
+
+  const startFormatPainter = (sticky: boolean) => {
+    const source = selectionBounds();
+    if (!source) return;
+    const snapshot = captureFormats<CellFormat, CellValidation>(source, {
+      formats: cellFormats,
+      validations: cellValidations,
+      rules: conditionalFormattingRules
+    });
+    setFormatPainter({ source, snapshot, sticky });
+  };
+
+  const stopFormatPainter = () => setFormatPainter(null);
+
+  // Paints over the target and selects what was painted
+  const applyFormatPainter = (target: CellRange) => {
+    if (!formatPainter) return;
+    const painted = paintFormats(
+      formatPainter.snapshot,
+      target,
+      { formats: cellFormats, validations: cellValidations, rules: conditionalFormattingRules },
+      index => `rule_${Date.now()}_${index}`
+    );
+    setCellFormats(painted.formats);
+    setCellValidations(painted.validations);
+    if (painted.rules.length !== conditionalFormattingRules.length) setConditionalFormattingRules(painted.rules);
+    setSelectedRange(paintArea(formatPainter.snapshot, target));
+    if (!formatPainter.sticky) setFormatPainter(null);
+  };
+
+  const insertRows = (row: number, count: number) => {
+    applyStructuralEdit({ sheet: activeSheet.name, axis: 'row', index: row, count });
+  };
+
+  const insertColumns = (col: number, count: number) => {
+    applyStructuralEdit({ sheet: activeSheet.name, axis: 'column', index: col, count });
+  };
+
+  // Inserts as many rows, columns or cells as are selected. "Shift left" and "shift up"
+  // remove the selected cells, closing the gap from the right or from below.
+  const insertCells = (option: 'shift-right' | 'shift-down' | 'shift-left' | 'shift-up' | 'entire-row' | 'entire-column') => {
+    if (option === 'shift-left' || option === 'shift-up') {
+      deleteCells(option);
+      return;
+    }
+    const bounds = selectionBounds();
+    if (!bounds) return;
+    const rows = bounds.endRow - bounds.startRow + 1;
+    const cols = bounds.endCol - bounds.startCol + 1;
+
+    if (option === 'entire-row') {
+      insertRows(bounds.startRow, rows);
     } else if (option === 'entire-column') {
-      for (let c = MAX_COLS - 1; c > col; c--) {
-        for (let r = 0; r < MAX_ROWS; r++) {
-          const oldKey = getCellKey(r, c - 1);
-          const newKey = getCellKey(r, c);
-          if (newCellData[oldKey]) {
-            newCellData[newKey] = newCellData[oldKey];
-            delete newCellData[oldKey];
-          }
-          if (newCellFormats[oldKey]) {
-            newCellFormats[newKey] = newCellFormats[oldKey];
-            delete newCellFormats[oldKey];
-          }
-        }
-      }
+      insertColumns(bounds.startCol, cols);
+    } else if (option === 'shift-down') {
+      applyStructuralEdit({ sheet: activeSheet.name, axis: 'row', index: bounds.startRow, count: rows, band: { start: bounds.startCol, end: bounds.endCol } });
+    } else {
+      applyStructuralEdit({ sheet: activeSheet.name, axis: 'column', index: bounds.startCol, count: cols, band: { start: bounds.startRow, end: bounds.endRow } });
     }
-    
-    setCellData(newCellData);
-    setCellFormats(newCellFormats);
-    updateActivity(); // Update collaboration activity
   };
 
   const deleteCells = (option: 'shift-left' | 'shift-up' | 'entire-row' | 'entire-column') => {
-    if (!selectedCell && !selectedRange) return;
-    
-    // Use range if available, otherwise use selected cell
-    const startRow = selectedRange ? selectedRange.startRow : selectedCell!.row;
-    const endRow = selectedRange ? selectedRange.endRow : selectedCell!.row;
-    const startCol = selectedRange ? selectedRange.startCol : selectedCell!.col;
-    const endCol = selectedRange ? selectedRange.endCol : selectedCell!.col;
-    
-    const row = startRow;
-    const col = startCol;
-    const newCellData = { ...cellData };
-    const newCellFormats = { ...cellFormats };
-    
-    if (option === 'shift-left') {
-      // Clear current cell and shift cells from right
-      const currentKey = getCellKey(row, col);
-      delete newCellData[currentKey];
-      delete newCellFormats[currentKey];
-      
-      for (let c = col + 1; c < MAX_COLS; c++) {
-        const oldKey = getCellKey(row, c);
-        const newKey = getCellKey(row, c - 1);
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    } else if (option === 'shift-up') {
-      // Clear current cell and shift cells from below
-      const currentKey = getCellKey(row, col);
-      delete newCellData[currentKey];
-      delete newCellFormats[currentKey];
-      
-      for (let r = row + 1; r < MAX_ROWS; r++) {
-        const oldKey = getCellKey(r, col);
-        const newKey = getCellKey(r - 1, col);
-        if (newCellData[oldKey]) {
-          newCellData[newKey] = newCellData[oldKey];
-          delete newCellData[oldKey];
-        }
-        if (newCellFormats[oldKey]) {
-          newCellFormats[newKey] = newCellFormats[oldKey];
-          delete newCellFormats[oldKey];
-        }
-      }
-    } else if (option === 'entire-row') {
-      // Delete entire row and shift rows up
-      for (let c = 0; c < MAX_COLS; c++) {
-        const currentKey = getCellKey(row, c);
-        delete newCellData[currentKey];
-        delete newCellFormats[currentKey];
-        
-        for (let r = row + 1; r < MAX_ROWS; r++) {
-          const oldKey = getCellKey(r, c);
-          const newKey = getCellKey(r - 1, c);
-          if (newCellData[oldKey]) {
-            newCellData[newKey] = newCellData[oldKey];
-            delete newCellData[oldKey];
-          }
-          if (newCellFormats[oldKey]) {
-            newCellFormats[newKey] = newCellFormats[oldKey];
-            delete newCellFormats[oldKey];
-          }
-        }
-      }
+    const bounds = selectionBounds();
+    if (!bounds) return;
+    const rows = bounds.endRow - bounds.startRow + 1;
+    const cols = bounds.endCol - bounds.startCol + 1;
+
+    if (option === 'entire-row') {
+      applyStructuralEdit({ sheet: activeSheet.name, axis: 'row', index: bounds.startRow, count: -rows });
     } else if (option === 'entire-column') {
-      // Delete entire column and shift columns left
-      for (let r = 0; r < MAX_ROWS; r++) {
-        const currentKey = getCellKey(r, col);
-        delete newCellData[currentKey];
-        delete newCellFormats[currentKey];
-        
-        for (let c = col + 1; c < MAX_COLS; c++) {
-          const oldKey = getCellKey(r, c);
-          const newKey = getCellKey(r, c - 1);
-          if (newCellData[oldKey]) {
-            newCellData[newKey] = newCellData[oldKey];
-            delete newCellData[oldKey];
-          }
-          if (newCellFormats[oldKey]) {
-            newCellFormats[newKey] = newCellFormats[oldKey];
-            delete newCellFormats[oldKey];
-          }
-        }
-      }
+      applyStructuralEdit({ sheet: activeSheet.name, axis: 'column', index: bounds.startCol, count: -cols });
+    } else if (option === 'shift-up') {
+      applyStructuralEdit({ sheet: activeSheet.name, axis: 'row', index: bounds.startRow, count: -rows, band: { start: bounds.startCol, end: bounds.endCol } });
+    } else {
+      applyStructuralEdit({ sheet: activeSheet.name, axis: 'column', index: bounds.startCol, count: -cols, band: { start: bounds.startRow, end: bounds.endRow } });
     }
-    
-    setCellData(newCellData);
-    setCellFormats(newCellFormats);
   };
 
   const insertTable = (columns: number, rows: number) => {
@@ -959,10 +1452,18 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
     setCellFormats(newCellFormats);
   }, [selectedRange, selectedCell, cellData, cellFormats, getCellKey]);
 
-  const filterData = useCallback((column: number, criteria: any) => {
-    // Placeholder for filter implementation
-    console.log('Filter data:', column, criteria);
-  }, []);
+  const printSettings = useMemo(() => ({ ...DEFAULT_PRINT_SETTINGS, ...activeSheet.printSettings }), [activeSheet.printSettings]);
+
+  const setPrintSettings = useCallback((changes: Partial<PrintSettings>) => {
+    setSheets(prev => prev.map(sheet => (sheet.id === activeSheetId
+      ? { ...sheet, printSettings: { ...DEFAULT_PRINT_SETTINGS, ...sheet.printSettings, ...changes } }
+      : sheet)));
+  }, [activeSheetId]);
+
+  const filterData = useCallback((column: number, criteria: string[] | null) => {
+    const filterState: FilterState | undefined = criteria ? { column: getCellKey(0, column).replace(/\d+$/, ''), criteria } : undefined;
+    setSheets(prev => prev.map(sheet => (sheet.id === activeSheetId ? { ...sheet, filterState } : sheet)));
+  }, [activeSheetId]);
 
   const removeDuplicates = useCallback((columns: number[]) => {
     if (!selectedRange && !selectedCell) return;
@@ -1092,13 +1593,12 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
     
     if (entries.length === 0) return;
     
-    const [firstKey] = entries[0];
-    const [firstRow, firstCol] = firstKey.split('-').map(Number);
+    const first = parseCellRef(entries[0][0])!;
     
     entries.forEach(([cellKey, value]) => {
-      const [origRow, origCol] = cellKey.split('-').map(Number);
-      const offsetRow = origRow - firstRow;
-      const offsetCol = origCol - firstCol;
+      const origin = parseCellRef(cellKey)!;
+      const offsetRow = origin.row - first.row;
+      const offsetCol = origin.col - first.col;
       
       const newRow = targetRow + offsetRow;
       const newCol = targetCol + offsetCol;
@@ -1193,9 +1693,21 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
   };
 
   const evaluateConditionalFormatting = useCallback((cellKey: string, value: string) => {
-    const [row, col] = cellKey.split('-').map(Number);
+    const position = parseCellRef(cellKey);
+    if (!position) return {};
+    const { row, col } = position;
     let appliedFormat: any = {};
 
+    // Numbers (and dates) stored in a rule's range
+    const rangeNumbers = (range: CellRange) => {
+      const numbers: { value: number; key: string }[] = [];
+      cellStore.eachInRange(activeSheet.id, range, (cell, r, c) => {
+        const number = cellNumber(cell);
+        if (number !== null) numbers.push({ value: number, key: getCellKey(r, c) });
+      });
+      return numbers;
+    };
+
     // Get enabled rules sorted by priority
     const enabledRules = conditionalFormattingRules
       .filter(rule => rule.enabled)
@@ -1247,16 +1759,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
 
         case 'topBottom':
           // Collect all numeric values in range
-          const rangeValues: { value: number; key: string }[] = [];
-          for (let r = startRow; r <= endRow; r++) {
-            for (let c = startCol; c <= endCol; c++) {
-              const key = getCellKey(r, c);
-              const val = parseFloat(cellData[key]);
-              if (!isNaN(val)) {
-                rangeValues.push({ value: val, key });
-              }
-            }
-          }
+          const rangeValues = rangeNumbers({ startRow, startCol, endRow, endCol });
           
           // Sort descending and check if current cell is in top N
           rangeValues.sort((a, b) => b.value - a.value);
@@ -1273,14 +1776,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
 
         case 'aboveBelow':
           // Calculate average of range
-          const avgValues: number[] = [];
-          for (let r = startRow; r <= endRow; r++) {
-            for (let c = startCol; c <= endCol; c++) {
-              const key = getCellKey(r, c);
-              const val = parseFloat(cellData[key]);
-              if (!isNaN(val)) avgValues.push(val);
-            }
-          }
+          const avgValues = rangeNumbers({ startRow, startCol, endRow, endCol }).map(item => item.value);
           
           if (avgValues.length > 0) {
             const average = avgValues.reduce((a, b) => a + b, 0) / avgValues.length;
@@ -1304,14 +1800,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
           const dataBarValue = parseFloat(value);
           if (!isNaN(dataBarValue)) {
             // Collect all values to determine scale
-            const allValues: number[] = [];
-            for (let r = startRow; r <= endRow; r++) {
-              for (let c = startCol; c <= endCol; c++) {
-                const key = getCellKey(r, c);
-                const val = parseFloat(cellData[key]);
-                if (!isNaN(val)) allValues.push(val);
-              }
-            }
+            const allValues = rangeNumbers({ startRow, startCol, endRow, endCol }).map(item => item.value);
             
             if (allValues.length > 0) {
               const minVal = Math.min(...allValues);
@@ -1332,14 +1821,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
           // Color scales apply gradient colors based on value position
           const scaleValue = parseFloat(value);
           if (!isNaN(scaleValue)) {
-            const scaleValues: number[] = [];
-            for (let r = startRow; r <= endRow; r++) {
-              for (let c = startCol; c <= endCol; c++) {
-                const key = getCellKey(r, c);
-                const val = parseFloat(cellData[key]);
-                if (!isNaN(val)) scaleValues.push(val);
-              }
-            }
+            const scaleValues = rangeNumbers({ startRow, startCol, endRow, endCol }).map(item => item.value);
             
             if (scaleValues.length > 0) {
               const minVal = Math.min(...scaleValues);
@@ -1372,14 +1854,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
           // Icon sets - apply different colored backgrounds based on value terciles
           const iconValue = parseFloat(value);
           if (!isNaN(iconValue)) {
-            const iconValues: number[] = [];
-            for (let r = startRow; r <= endRow; r++) {
-              for (let c = startCol; c <= endCol; c++) {
-                const key = getCellKey(r, c);
-                const val = parseFloat(cellData[key]);
-                if (!isNaN(val)) iconValues.push(val);
-              }
-            }
+            const iconValues = rangeNumbers({ startRow, startCol, endRow, endCol }).map(item => item.value);
             
             if (iconValues.length > 0) {
               iconValues.sort((a, b) => a - b);
@@ -1438,21 +1913,8 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
           break;
 
         case 'customFormula':
-          // Simple formula evaluation (basic implementation)
-          try {
-            const formula = rule.criteria.formula;
-            if (formula && formula.startsWith('=')) {
-              const expr = formula.substring(1).replace(/([A-Z]+\d+)/g, (match) => {
-                // Replace cell references with their values
-                const refCol = match.match(/[A-Z]+/)[0].charCodeAt(0) - 65;
-                const refRow = parseInt(match.match(/\d+/)[0]) - 1;
-                const refKey = getCellKey(refRow, refCol);
-                return cellData[refKey] || '0';
-              });
-              matches = eval(expr);
-            }
-          } catch (e) {
-            console.error('Formula evaluation error:', e);
+          if (rule.criteria.formula) {
+            matches = evaluateCondition(rule.criteria.formula, formulaContext);
           }
           break;
       }
@@ -1464,7 +1926,7 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
     }
 
     return appliedFormat;
-  }, [conditionalFormattingRules, cellData, getCellKey]);
+  }, [conditionalFormattingRules, cellData, cellStore, activeSheet.id, getCellKey, formulaContext, engineRevision]);
 
   // Undo/Redo functions for charts
   const undoChart = useCallback(() => {
@@ -1506,87 +1968,101 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
     });
   }, []);
 
-  const autoFitColumn = useCallback((col: number) => {
+  // Width the cells of a column need, capped at 1000px
+  const measureColumn = useCallback((col: number) => {
     let maxWidth = AUTO_FIT_CONSTANTS.MIN_COLUMN_WIDTH;
     
-    // Measure all cells in this column
-    for (let row = 0; row < MAX_ROWS; row++) {
-      const key = getCellKey(row, col);
-      const content = cellData[key];
+    // Measure the cells in this column that hold something
+    cellStore.eachInColumn(activeSheet.id, col, cell => {
+      const content = cellInputText(cell);
+      if (!content) return;
+      const format = resolveFormat(cellStore.getStyle(cell.styleId) as CellFormat | undefined);
+      // Wrapped and shrunk text fits whatever width the column has
+      if (format?.wrapText || format?.shrinkToFit) return;
+      const measurement = measureCellContent(content, {
+        format: {
+          fontFamily: format?.fontFamily,
+          fontSize: format?.fontSize,
+          bold: format?.bold,
+          italic: format?.italic
+        },
+        wrap: false,
+        rotation: format?.textRotation,
+        indent: format?.indent
+      });
       
-      if (content) {
-        const format = cellFormats[key];
-        const measurement = measureCellContent(content, {
-          format: {
-            fontFamily: format?.fontFamily,
-            fontSize: format?.fontSize,
-            bold: format?.bold,
-            italic: format?.italic
-          },
-          wrap: false
-        });
-        
-        maxWidth = Math.max(maxWidth, measurement.totalWidth);
-      }
-    }
+      maxWidth = Math.max(maxWidth, measurement.totalWidth);
+    });
     
-    setColumnWidth(col, Math.min(maxWidth, 1000)); // Cap at 1000px
-  }, [cellData, cellFormats, getCellKey, setColumnWidth]);
+    return Math.min(maxWidth, 1000);
+  }, [cellStore, activeSheet.id, storeRevision, resolveFormat]);
 
-  const autoFitRow = useCallback((row: number) => {
+  // Height the cells of a row need, wrapping the text of cells set to wrap, capped at 500px
+  const measureRow = useCallback((row: number) => {
     let maxHeight = AUTO_FIT_CONSTANTS.MIN_ROW_HEIGHT;
     
-    // Measure all cells in this row
-    for (let col = 0; col < MAX_COLS; col++) {
-      const key = getCellKey(row, col);
-      const content = cellData[key];
+    // Measure the cells in this row that hold something
+    cellStore.eachInRow(activeSheet.id, row, (cell, _, col) => {
+      const content = cellInputText(cell);
+      if (!content) return;
+      const format = resolveFormat(cellStore.getStyle(cell.styleId) as CellFormat | undefined);
+      const measurement = measureCellContent(content, {
+        format: {
+          fontFamily: format?.fontFamily,
+          fontSize: format?.fontSize,
+          bold: format?.bold,
+          italic: format?.italic
+        },
+        wrap: !!format?.wrapText,
+        maxWidth: getColumnWidth(col),
+        rotation: format?.textRotation,
+        indent: format?.indent
+      });
       
-      if (content) {
-        const format = cellFormats[key];
-        const colWidth = getColumnWidth(col);
-        const measurement = measureCellContent(content, {
-          format: {
-            fontFamily: format?.fontFamily,
-            fontSize: format?.fontSize,
-            bold: format?.bold,
-            italic: format?.italic
-          },
-          wrap: true,
-          maxWidth: colWidth
-        });
-        
-        maxHeight = Math.max(maxHeight, measurement.totalHeight);
-      }
-    }
+      maxHeight = Math.max(maxHeight, measurement.totalHeight);
+    });
     
-    setRowHeight(row, Math.min(maxHeight, 500)); // Cap at 500px
-  }, [cellData, cellFormats, getCellKey, getColumnWidth, setRowHeight]);
+    return Math.min(maxHeight, 500);
+  }, [cellStore, activeSheet.id, storeRevision, getColumnWidth, resolveFormat]);
 
-  // Auto-fit on cell data change
+  const autoFitColumn = useCallback((col: number) => {
+    setColumnWidth(col, measureColumn(col));
+  }, [measureColumn, setColumnWidth]);
+
+  const autoFitRow = useCallback((row: number) => {
+    setRowHeight(row, measureRow(row));
+  }, [measureRow, setRowHeight]);
+
+  // Grow the rows and columns of edited cells to fit their new contents; they never shrink
+  // here, only through an explicit auto-fit
+  const autoFitSnapshot = useRef(cellData);
   useEffect(() => {
+    const previous = autoFitSnapshot.current;
+    autoFitSnapshot.current = cellData;
+    if (previous === cellData) return;
+
     const changedCells = new Map<number, Set<number>>(); // col -> Set of rows
-    
-    Object.keys(cellData).forEach(key => {
-      const [rowStr, colStr] = key.split(',');
-      const row = parseInt(rowStr);
-      const col = parseInt(colStr);
-      
-      if (!isNaN(row) && !isNaN(col)) {
-        if (!changedCells.has(col)) {
-          changedCells.set(col, new Set());
-        }
-        changedCells.get(col)!.add(row);
+    new Set([...Object.keys(previous), ...Object.keys(cellData)]).forEach(key => {
+      if (previous[key] === cellData[key]) return;
+      const position = parseCellRef(key);
+      if (!position) return;
+      if (!changedCells.has(position.col)) {
+        changedCells.set(position.col, new Set());
       }
+      changedCells.get(position.col)!.add(position.row);
     });
     
-    // Auto-fit changed columns
     requestAnimationFrame(() => {
       changedCells.forEach((rows, col) => {
-        autoFitColumn(col);
-        rows.forEach(row => autoFitRow(row));
+        const width = measureColumn(col);
+        if (width > getColumnWidth(col)) setColumnWidth(col, width);
+        rows.forEach(row => {
+          const height = measureRow(row);
+          if (height > getRowHeight(row)) setRowHeight(row, height);
+        });
       });
     });
-  }, [cellData, autoFitColumn, autoFitRow]);
+  }, [cellData, measureColumn, measureRow, getColumnWidth, getRowHeight, setColumnWidth, setRowHeight]);
 
   return (
     <SpreadsheetContext.Provider value={{ 
@@ -1596,6 +2072,21 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
       setSelectedRange, 
       cellData, 
       setCellData,
+      formulaContext,
+      getDisplayValue,
+      getCyclePath,
+      getSpillInfo,
+      sheets,
+      activeSheetId: activeSheet.id,
+      setActiveSheetId,
+      addSheet,
+      renameSheet,
+      namedRanges,
+      defineName,
+      deleteName,
+      buildWorkbookFile,
+      loadWorkbookFile,
+      buildPrintDrawings,
       cellFormats,
       setCellFormats,
       cellValidations,
@@ -1629,8 +2120,16 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
       getCellKey,
       insertCells,
       deleteCells,
+      insertRows,
+      insertColumns,
       insertTable,
       moveColumnLeft,
+      captureWorkbookState,
+      restoreWorkbookState,
+      formatPainter,
+      startFormatPainter,
+      stopFormatPainter,
+      applyFormatPainter,
       validateCell,
       applyValidation,
       removeValidationFromRange,
@@ -1658,10 +2157,21 @@ export const SpreadsheetProvider: React.FC<{ children: React.ReactNode; initialD
       setZoomLevel,
       freezePanes,
       setFreezePanes,
+      printSettings,
+      setPrintSettings,
+      pageBreakPreview,
+      setPageBreakPreview,
       theme,
       setTheme,
+      cellStyles,
+      saveCellStyle,
+      deleteCellStyle,
+      workbookTheme,
+      setWorkbookTheme: setWorkbookThemeName,
+      resolveFormat,
       sortData,
       filterData,
+      hiddenRows,
       removeDuplicates,
       textToColumns,
       copySelection,
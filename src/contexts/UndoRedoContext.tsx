@@ -1,61 +1,220 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
-
-interface UndoRedoState {
-  cellData: Record<string, string>;
-  cellFormats: Record<string, any>;
-  cellValidations?: Record<string, any>;
-  floatingCharts?: any[];
-  floatingImages?: any[];
-  floatingShapes?: any[];
-  floatingTextBoxes?: any[];
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { useSpreadsheet, WorkbookState } from './SpreadsheetContext';
+import type { CellFormat, CellValidation } from '../types/spreadsheet';
+import {
+  HistoryCommand,
+  SheetHistory,
+  WorkbookHistory,
+  applyEntries,
+  canCoalesce,
+  diffEntries,
+  isEmptyCommand,
+  loadHistory,
+  pushCommand,
+  saveHistory,
+  typingLabel
+} from '../utils/undoHistory';
+
+export interface RecordOptions {
+  /** Typing: edits of the same cell in quick succession become one step */
+  coalesce?: boolean;
+  /** The action can rewrite the rest of the workbook (structural edits) */
+  workbook?: boolean;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  time: number;
 }
 
 interface UndoRedoContextType {
   canUndo: boolean;
   canRedo: boolean;
-  undo: () => UndoRedoState | undefined;
-  redo: () => UndoRedoState | undefined;
-  saveState: (state: UndoRedoState) => void;
+  /** Undo the last `steps` commands of the active sheet (one by default) */
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  /** The active sheet's commands, the next one to undo (or redo) first */
+  undoHistory: HistoryEntry[];
+  redoHistory: HistoryEntry[];
+  /**
+   * Run an action as one undoable step. Everything it changes in the active sheet's cells,
+   * formats and validations is recorded once React has applied it; actions recorded in the
+   * same event become a single step.
+   */
+  record: (label: string, action: () => void, options?: RecordOptions) => void;
 }
 
+interface PendingCommand {
+  label: string;
+  options: RecordOptions;
+  sheetId: string;
+  cellData: { [key: string]: string };
+  cellFormats: { [key: string]: CellFormat };
+  cellValidations: { [key: string]: CellValidation };
+  workbook?: WorkbookState;
+}
+
+const EMPTY_HISTORY: SheetHistory = { undo: [], redo: [] };
+
+// Whole-value workbook parts; the other sheets' cells are diffed cell by cell
+const WORKBOOK_PARTS: (keyof WorkbookState)[] = [
+  'namedRanges',
+  'sheetNames',
+  'sheetMerges',
+  'sheetPrintSettings',
+  'conditionalFormattingRules',
+  'floatingCharts',
+  'columnWidths',
+  'rowHeights',
+  'cellStyles',
+  'workbookTheme'
+];
+
 const UndoRedoContext = createContext<UndoRedoContextType | undefined>(undefined);
 
-export function UndoRedoProvider({ children }: { children: React.ReactNode }) {
-  const [history, setHistory] = useState<UndoRedoState[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(-1);
+export function UndoRedoProvider({ spreadsheetId = 'default', children }: { spreadsheetId?: string; children: React.ReactNode }) {
+  const spreadsheet = useSpreadsheet();
+  const { sheets, activeSheetId, cellData, cellFormats, cellValidations, captureWorkbookState } = spreadsheet;
+  const [history, setHistory] = useState<WorkbookHistory>(() => loadHistory(spreadsheetId, sheets));
+  const pendingRef = useRef<PendingCommand | null>(null);
+  // Only the command recorded last may be extended by more typing
+  const lastRecordedRef = useRef<string | null>(null);
+  const nextIdRef = useRef(0);
+
+  const sheetHistory = history[activeSheetId] || EMPTY_HISTORY;
+
+  // Sheets that leave the workbook take their history with them
+  useEffect(() => {
+    const sheetIds = new Set(sheets.map(sheet => sheet.id));
+    setHistory(prev => (Object.keys(prev).every(sheetId => sheetIds.has(sheetId))
+      ? prev
+      : Object.fromEntries(Object.entries(prev).filter(([sheetId]) => sheetIds.has(sheetId)))));
+  }, [sheets]);
+
+  useEffect(() => {
+    saveHistory(spreadsheetId, history, sheets);
+  }, [spreadsheetId, history, sheets]);
+
+  const record = useCallback((label: string, action: () => void, options: RecordOptions = {}) => {
+    const pending = pendingRef.current;
+    if (pending) {
+      // Another action in the same event: one step, named after the more specific action
+      if (pending.options.coalesce && !options.coalesce) pending.label = label;
+      pending.options = {
+        coalesce: pending.options.coalesce && options.coalesce,
+        workbook: pending.options.workbook || options.workbook
+      };
+      if (options.workbook && !pending.workbook) pending.workbook = captureWorkbookState();
+    } else {
+      pendingRef.current = {
+        label,
+        options,
+        sheetId: activeSheetId,
+        cellData,
+        cellFormats,
+        cellValidations,
+        workbook: options.workbook ? captureWorkbookState() : undefined
+      };
+    }
+    action();
+  }, [activeSheetId, cellData, cellFormats, cellValidations, captureWorkbookState]);
+
+  // Turn the pending action into a command once its changes have been rendered
+  useEffect(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    if (pending.sheetId !== activeSheetId) return;
+
+    const command: HistoryCommand = {
+      id: `${Date.now().toString(36)}-${nextIdRef.current++}`,
+      label: pending.label,
+      time: Date.now(),
+      coalesce: pending.options.coalesce,
+      data: diffEntries(pending.cellData, cellData),
+      formats: diffEntries(pending.cellFormats, cellFormats),
+      validations: diffEntries(pending.cellValidations, cellValidations)
+    };
+    if (pending.workbook) {
+      const before = pending.workbook;
+      const after = captureWorkbookState();
+      const workbook: HistoryCommand['workbook'] = { before: {}, after: {}, sheets: {} };
+      WORKBOOK_PARTS.forEach(part => {
+        if (before[part] === after[part]) return;
+        workbook.before[part] = before[part];
+        workbook.after[part] = after[part];
+      });
+      Object.keys(after.otherSheets).forEach(sheetId => {
+        const changes = diffEntries<string>(before.otherSheets[sheetId] || {}, after.otherSheets[sheetId]);
+        if (Object.keys(changes).length > 0) workbook.sheets[sheetId] = changes;
+      });
+      command.workbook = workbook;
+    }
+    if (isEmptyCommand(command)) return;
+    command.label = typingLabel(command, command.label);
 
-  const saveState = useCallback((state: UndoRedoState) => {
     setHistory(prev => {
-      const newHistory = prev.slice(0, currentIndex + 1);
-      newHistory.push(state);
-      return newHistory.slice(-50); // Keep last 50 states
+      const current = prev[pending.sheetId] || EMPTY_HISTORY;
+      const top = current.undo[current.undo.length - 1];
+      const coalesce = top?.id === lastRecordedRef.current && canCoalesce(top, command);
+      const next = pushCommand(current, command, coalesce);
+      lastRecordedRef.current = next.undo[next.undo.length - 1]?.id ?? null;
+      return { ...prev, [pending.sheetId]: next };
     });
-    setCurrentIndex(prev => Math.min(prev + 1, 49));
-  }, [currentIndex]);
+  });
 
-  const undo = useCallback(() => {
-    if (currentIndex > 0) {
-      setCurrentIndex(prev => prev - 1);
-      return history[currentIndex - 1];
-    }
-    return undefined;
-  }, [currentIndex, history]);
+  // Put one side of a command back: 0 undoes it, 1 redoes it
+  const applyCommand = (command: HistoryCommand, side: 0 | 1) => {
+    spreadsheet.setCellData(prev => applyEntries(prev, command.data, side));
+    spreadsheet.setCellFormats(prev => applyEntries(prev, command.formats, side));
+    spreadsheet.setCellValidations(prev => applyEntries(prev, command.validations, side));
+    if (!command.workbook) return;
 
-  const redo = useCallback(() => {
-    if (currentIndex < history.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-      return history[currentIndex + 1];
+    const { before, after, sheets } = command.workbook;
+    const current = spreadsheet.captureWorkbookState();
+    const otherSheets: WorkbookState['otherSheets'] = {};
+    Object.entries(sheets).forEach(([sheetId, changes]) => {
+      otherSheets[sheetId] = applyEntries(current.otherSheets[sheetId] || {}, changes, side);
+    });
+    spreadsheet.restoreWorkbookState({ ...(side === 0 ? before : after), otherSheets });
+  };
+
+  const step = (direction: 'undo' | 'redo', steps: number) => {
+    // Changes not yet recorded would be recorded on top of the undone state
+    if (pendingRef.current) return;
+    const current = history[activeSheetId] || EMPTY_HISTORY;
+    const from = current[direction].slice();
+    const to = current[direction === 'undo' ? 'redo' : 'undo'].slice();
+    const count = Math.min(steps, from.length);
+    for (let i = 0; i < count; i++) {
+      const command = from.pop()!;
+      applyCommand(command, direction === 'undo' ? 0 : 1);
+      to.push(command);
     }
-    return undefined;
-  }, [currentIndex, history]);
+    if (count === 0) return;
+    lastRecordedRef.current = null;
+    setHistory(prev => ({
+      ...prev,
+      [activeSheetId]: direction === 'undo' ? { undo: from, redo: to } : { undo: to, redo: from }
+    }));
+  };
+
+  const undo = useCallback((steps = 1) => step('undo', steps), [history, activeSheetId, spreadsheet]);
+  const redo = useCallback((steps = 1) => step('redo', steps), [history, activeSheetId, spreadsheet]);
+
+  const entries = (commands: HistoryCommand[]) =>
+    commands.slice().reverse().map(({ id, label, time }) => ({ id, label, time }));
 
   return (
     <UndoRedoContext.Provider value={{
-      canUndo: currentIndex > 0,
-      canRedo: currentIndex < history.length - 1,
+      canUndo: sheetHistory.undo.length > 0,
+      canRedo: sheetHistory.redo.length > 0,
       undo,
       redo,
-      saveState
+      undoHistory: entries(sheetHistory.undo),
+      redoHistory: entries(sheetHistory.redo),
+      record
     }}>
       {children}
     </UndoRedoContext.Provider>
@@ -68,4 +227,4 @@ export function useUndoRedo() {
     throw new Error('useUndoRedo must be used within UndoRedoProvider');
   }
   return context;
-}
\ No newline at end of file
+}
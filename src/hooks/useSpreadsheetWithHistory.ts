@@ -1,82 +1,79 @@
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback } from 'react';
 import { useSpreadsheet } from '../contexts/SpreadsheetContext';
 import { useUndoRedo } from '../contexts/UndoRedoContext';
 
 export function useSpreadsheetWithHistory() {
   const spreadsheet = useSpreadsheet();
-  const { saveState, undo, redo, canUndo, canRedo } = useUndoRedo();
-  const initialStateSaved = useRef(false);
-
-  // Save initial state once
-  useEffect(() => {
-    if (!initialStateSaved.current) {
-      saveState({ 
-        cellData: spreadsheet.cellData, 
-        cellFormats: spreadsheet.cellFormats,
-        cellValidations: spreadsheet.cellValidations 
-      });
-      initialStateSaved.current = true;
-    }
-  }, [saveState, spreadsheet.cellData, spreadsheet.cellFormats, spreadsheet.cellValidations]);
-
-  const saveCurrentState = useCallback(() => {
-    saveState({ 
-      cellData: spreadsheet.cellData, 
-      cellFormats: spreadsheet.cellFormats,
-      cellValidations: spreadsheet.cellValidations 
-    });
-  }, [spreadsheet.cellData, spreadsheet.cellFormats, spreadsheet.cellValidations, saveState]);
+  const { record, undo, redo, canUndo, canRedo } = useUndoRedo();
 
+  // Single-cell edits in quick succession (typing) coalesce into one step
   const setCellDataWithHistory = useCallback((newData: { [key: string]: string } | ((prev: { [key: string]: string }) => { [key: string]: string })) => {
-    if (initialStateSaved.current) {
-      saveCurrentState();
-    }
-    spreadsheet.setCellData(newData);
-  }, [saveCurrentState, spreadsheet.setCellData]);
+    record('Edit Cells', () => spreadsheet.setCellData(newData), { coalesce: true });
+  }, [record, spreadsheet.setCellData]);
 
   const setCellFormatsWithHistory = useCallback((newFormats: { [key: string]: any } | ((prev: { [key: string]: any }) => { [key: string]: any })) => {
-    if (initialStateSaved.current) {
-      saveCurrentState();
-    }
-    spreadsheet.setCellFormats(newFormats);
-  }, [saveCurrentState, spreadsheet.setCellFormats]);
+    record('Format Cells', () => spreadsheet.setCellFormats(newFormats));
+  }, [record, spreadsheet.setCellFormats]);
 
   const moveColumnLeftWithHistory = useCallback(() => {
-    if (initialStateSaved.current) {
-      saveCurrentState();
-    }
-    spreadsheet.moveColumnLeft();
-  }, [saveCurrentState, spreadsheet.moveColumnLeft]);
+    record('Move Column', spreadsheet.moveColumnLeft);
+  }, [record, spreadsheet.moveColumnLeft]);
+
+  // Structural edits are recorded as one step, whatever they rewrite across the workbook
+  const insertCellsWithHistory = useCallback((option: Parameters<typeof spreadsheet.insertCells>[0]) => {
+    const label = option === 'shift-left' || option === 'shift-up' ? 'Delete Cells' : 'Insert Cells';
+    record(label, () => spreadsheet.insertCells(option), { workbook: true });
+  }, [record, spreadsheet.insertCells]);
+
+  const deleteCellsWithHistory = useCallback((option: Parameters<typeof spreadsheet.deleteCells>[0]) => {
+    record('Delete Cells', () => spreadsheet.deleteCells(option), { workbook: true });
+  }, [record, spreadsheet.deleteCells]);
+
+  const insertRowsWithHistory = useCallback((row: number, count: number) => {
+    record('Insert Rows', () => spreadsheet.insertRows(row, count), { workbook: true });
+  }, [record, spreadsheet.insertRows]);
+
+  const insertColumnsWithHistory = useCallback((col: number, count: number) => {
+    record('Insert Columns', () => spreadsheet.insertColumns(col, count), { workbook: true });
+  }, [record, spreadsheet.insertColumns]);
+
+  // Painting can add conditional formatting rules as well as formats and validation
+  const applyFormatPainterWithHistory = useCallback((target: Parameters<typeof spreadsheet.applyFormatPainter>[0]) => {
+    record('Format Painter', () => spreadsheet.applyFormatPainter(target), { workbook: true });
+  }, [record, spreadsheet.applyFormatPainter]);
+
+  // Style and theme changes restyle cells across the workbook
+  const saveCellStyleWithHistory = useCallback((style: Parameters<typeof spreadsheet.saveCellStyle>[0], previousName?: string) => {
+    record(previousName ? 'Modify Style' : 'New Cell Style', () => spreadsheet.saveCellStyle(style, previousName), { workbook: true });
+  }, [record, spreadsheet.saveCellStyle]);
+
+  const deleteCellStyleWithHistory = useCallback((name: string) => {
+    record('Delete Style', () => spreadsheet.deleteCellStyle(name), { workbook: true });
+  }, [record, spreadsheet.deleteCellStyle]);
 
-  const handleUndo = useCallback(() => {
-    const previousState = undo();
-    if (previousState) {
-      spreadsheet.setCellData(previousState.cellData);
-      spreadsheet.setCellFormats(previousState.cellFormats);
-      if (previousState.cellValidations) {
-        spreadsheet.setCellValidations(previousState.cellValidations);
-      }
-    }
-  }, [undo, spreadsheet.setCellData, spreadsheet.setCellFormats, spreadsheet.setCellValidations]);
+  const setWorkbookThemeWithHistory = useCallback((name: string) => {
+    record('Change Theme', () => spreadsheet.setWorkbookTheme(name), { workbook: true });
+  }, [record, spreadsheet.setWorkbookTheme]);
 
-  const handleRedo = useCallback(() => {
-    const nextState = redo();
-    if (nextState) {
-      spreadsheet.setCellData(nextState.cellData);
-      spreadsheet.setCellFormats(nextState.cellFormats);
-      if (nextState.cellValidations) {
-        spreadsheet.setCellValidations(nextState.cellValidations);
-      }
-    }
-  }, [redo, spreadsheet.setCellData, spreadsheet.setCellFormats, spreadsheet.setCellValidations]);
+  const handleUndo = useCallback(() => undo(), [undo]);
+  const handleRedo = useCallback(() => redo(), [redo]);
 
   return {
     ...spreadsheet,
     setCellData: setCellDataWithHistory,
     setCellFormats: setCellFormatsWithHistory,
+    moveColumnLeft: moveColumnLeftWithHistory,
+    insertCells: insertCellsWithHistory,
+    deleteCells: deleteCellsWithHistory,
+    insertRows: insertRowsWithHistory,
+    insertColumns: insertColumnsWithHistory,
+    applyFormatPainter: applyFormatPainterWithHistory,
+    saveCellStyle: saveCellStyleWithHistory,
+    deleteCellStyle: deleteCellStyleWithHistory,
+    setWorkbookTheme: setWorkbookThemeWithHistory,
     undo: handleUndo,
     redo: handleRedo,
     canUndo,
     canRedo
   };
-}
\ No newline at end of file
+}
@@ -8,6 +8,8 @@
  * TODO: Update field mappings if backend response structures change
  */
 
+import { detectDelimiter, parseDelimited } from '../utils/csvImport';
+
 const API_BASE_URL = (import.meta as any).env?.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
 type AnyObject = Record<string, any>;
@@ -315,30 +317,32 @@ export async function importData(
 }
 
 /**
- * Export spreadsheet data
+ * Export spreadsheet data: one sheet, or every sheet when sheetId is null (not CSV).
+ * `range` ("A1:C10", "'Sheet 2'!B:D") limits the cells exported. Files come back as a Blob.
  * CRITICAL ENDPOINT
  */
 export async function exportData(
   spreadsheetId: string,
-  sheetId: string,
-  format: string = 'csv'
+  sheetId: string | null,
+  format: 'csv' | 'json' | 'xlsx' | 'ods' = 'csv',
+  range?: string
 ): Promise<Blob | AnyObject> {
-  const res = await fetch(
-    `${API_BASE_URL}/import-export/export?spreadsheetId=${spreadsheetId}&sheetId=${sheetId}&format=${format}`,
-    {
-      headers: getAuthHeader(),
-    }
-  );
+  const params = new URLSearchParams({ spreadsheetId, format });
+  if (sheetId) params.set('sheetId', sheetId);
+  if (range) params.set('range', range);
+  const res = await fetch(`${API_BASE_URL}/import-export/export?${params}`, {
+    headers: getAuthHeader(),
+  });
 
   if (!res.ok) {
     const data = await res.json();
     throw new Error(data.error || 'Failed to export data');
   }
 
-  if (format === 'csv') {
-    return await res.blob();
-  } else {
+  if (format === 'json') {
     return await res.json();
+  } else {
+    return await res.blob();
   }
 }
 
@@ -347,17 +351,11 @@ export async function exportData(
 // ============================================================================
 
 /**
- * Convert CSV string to 2D array
+ * Convert CSV string to 2D array. Quoted fields may hold delimiters, line breaks and
+ * doubled quotes; the delimiter is guessed when not given (semicolons, tabs, ...).
  */
-export function parseCSV(csvString: string): string[][] {
-  return csvString
-    .trim()
-    .split('\n')
-    .map((line: string) =>
-      line
-        .split(',')
-        .map((cell: string) => cell.trim().replace(/^"(.*)"$/, '$1'))
-    );
+export function parseCSV(csvString: string, delimiter: string = detectDelimiter(csvString)): string[][] {
+  return parseDelimited(csvString, delimiter);
 }
 
 /**
@@ -1,3 +1,5 @@
+import type { CellBorders } from '../utils/cellBorders';
+
 export interface Cell {
   value: string;
   formula?: string;
@@ -7,7 +9,9 @@ export interface Cell {
   color?: string;
   backgroundColor?: string;
   textAlign?: 'left' | 'center' | 'right';
-  numberFormat?: 'currency' | 'percentage' | 'number' | 'decimal';
+  // Excel format code ("#,##0.00", "0.0%", "yyyy-mm-dd"); the older names 'currency',
+  // 'percentage', 'number' and 'decimal' are still read
+  numberFormat?: string;
   // New properties
   validation?: CellValidation;
   hyperlink?: string;
@@ -18,6 +22,33 @@ export interface Cell {
   sparkline?: SparklineData;
 }
 
+export interface CellFormat {
+  fontFamily?: string;
+  fontSize?: string | number;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  textAlign?: 'left' | 'center' | 'right';
+  color?: string;
+  backgroundColor?: string;
+  isLink?: boolean;
+  linkUrl?: string;
+  textDecoration?: string;
+  // Excel format code the value is shown with; the stored value is not changed
+  numberFormat?: string;
+  borders?: CellBorders;
+  wrapText?: boolean;
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  // Indent levels from the aligned edge
+  indent?: number;
+  // Degrees counterclockwise (-90 to 90), or VERTICAL_TEXT_ROTATION for stacked letters
+  textRotation?: number;
+  // Scale the font down until the text fits the column (ignored with wrapText)
+  shrinkToFit?: boolean;
+  // Named cell style the cell's own formatting overrides
+  style?: string;
+}
+
 export interface CellValidation {
   type: 'wholeNumber' | 'decimal' | 'list' | 'date' | 'time' | 'textLength' | 'custom';
   // For list validation
@@ -58,7 +89,7 @@ export interface Sheet {
   cells: Map<string, Cell>;
   frozenRows?: number;
   frozenCols?: number;
-  namedRanges?: Map<string, string>; // name -> range (e.g., "Sales" -> "A1:A10")
+  namedRanges?: Map<string, string>; // name -> range or formula (e.g., "Sales" -> "A1:A10", "MARGIN" -> "=LAMBDA(price, cost, (price - cost) / price)")
   protected?: boolean;
   protectionPassword?: string;
   sortState?: SortState;
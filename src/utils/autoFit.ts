@@ -3,6 +3,8 @@
  * Measures text using Canvas API with actual font settings and handles wrapping, images, and formatting
  */
 
+import { toCellRef } from './formulaEngine';
+
 // Constants
 const DEFAULT_CELL_PADDING = 8; // px horizontal padding per side
 const DEFAULT_VERTICAL_PADDING = 4; // px vertical padding per side
@@ -14,6 +16,10 @@ const MIN_COLUMN_WIDTH = 40; // Minimum column width in px
 const MIN_ROW_HEIGHT = 24; // Minimum row height in px
 const DEFAULT_COLUMN_WIDTH = 100;
 const DEFAULT_ROW_HEIGHT = 25;
+const INDENT_WIDTH = 9; // px per indent level
+
+// Excel's textRotation value for letters stacked top to bottom
+export const VERTICAL_TEXT_ROTATION = 255;
 
 // Shared canvas for measurements (reused for performance)
 let measurementCanvas: HTMLCanvasElement | null = null;
@@ -212,6 +218,10 @@ export function measureCellContent(
     padding?: { horizontal: number; vertical: number };
     hasImage?: boolean;
     imageSize?: { width: number; height: number };
+    /** Degrees counterclockwise (-90 to 90), or VERTICAL_TEXT_ROTATION */
+    rotation?: number;
+    /** Indent levels before the text */
+    indent?: number;
   } = {}
 ): CellMeasurement {
   const padding = options.padding || {
@@ -229,29 +239,47 @@ export function measureCellContent(
     };
   }
   
-  // Handle wrapped text
-  if (options.wrap && options.maxWidth) {
-    const availableWidth = options.maxWidth - (padding.horizontal * 2);
-    const wrapped = measureWrappedText(content, availableWidth, options.format);
-    
+  const indentWidth = (options.indent || 0) * INDENT_WIDTH;
+
+  // Stacked letters: one line per character, as wide as the widest one
+  if (options.rotation === VERTICAL_TEXT_ROTATION) {
+    const characters = Array.from(content);
+    const width = Math.max(0, ...characters.map(character => measureTextWidth(character, options.format)));
+    const height = measureTextHeight(options.format) * Math.max(characters.length, 1);
     return {
-      contentWidth: wrapped.width,
-      contentHeight: wrapped.height,
-      totalWidth: wrapped.width + (padding.horizontal * 2),
-      totalHeight: wrapped.height + (padding.vertical * 2),
-      lines: wrapped.lines
+      contentWidth: width,
+      contentHeight: height,
+      totalWidth: width + indentWidth + (padding.horizontal * 2),
+      totalHeight: height + (padding.vertical * 2)
     };
   }
-  
-  // Handle single-line text
-  const width = measureTextWidth(content, options.format);
-  const height = measureTextHeight(options.format);
-  
+
+  // Handle wrapped text
+  let measured: { width: number; height: number; lines?: string[] };
+  if (options.wrap && options.maxWidth) {
+    const availableWidth = options.maxWidth - indentWidth - (padding.horizontal * 2);
+    measured = measureWrappedText(content, availableWidth, options.format);
+  } else {
+    // Handle single-line text
+    measured = { width: measureTextWidth(content, options.format), height: measureTextHeight(options.format) };
+  }
+
+  // Rotated text takes the space of its bounding box
+  let { width, height } = measured;
+  if (options.rotation) {
+    const angle = (options.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    width = Math.ceil(measured.width * cos + measured.height * sin);
+    height = Math.ceil(measured.width * sin + measured.height * cos);
+  }
+
   return {
     contentWidth: width,
     contentHeight: height,
-    totalWidth: width + (padding.horizontal * 2),
-    totalHeight: height + (padding.vertical * 2)
+    totalWidth: width + indentWidth + (padding.horizontal * 2),
+    totalHeight: height + (padding.vertical * 2),
+    lines: measured.lines
   };
 }
 
@@ -265,6 +293,8 @@ export function calculateOptimalColumnWidth(
     wrap?: boolean;
     hasImage?: boolean;
     imageSize?: { width: number; height: number };
+    rotation?: number;
+    indent?: number;
   }>,
   options: {
     minWidth?: number;
@@ -282,7 +312,9 @@ export function calculateOptimalColumnWidth(
         format: cell.format,
         wrap: false,
         hasImage: cell.hasImage,
-        imageSize: cell.imageSize
+        imageSize: cell.imageSize,
+        rotation: cell.rotation,
+        indent: cell.indent
       });
       
       maxRequiredWidth = Math.max(maxRequiredWidth, measurement.totalWidth);
@@ -303,6 +335,8 @@ export function calculateOptimalRowHeight(
     columnWidth?: number;
     hasImage?: boolean;
     imageSize?: { width: number; height: number };
+    rotation?: number;
+    indent?: number;
   }>,
   options: {
     minHeight?: number;
@@ -320,7 +354,9 @@ export function calculateOptimalRowHeight(
       wrap: cell.wrap,
       maxWidth: cell.columnWidth,
       hasImage: cell.hasImage,
-      imageSize: cell.imageSize
+      imageSize: cell.imageSize,
+      rotation: cell.rotation,
+      indent: cell.indent
     });
     
     maxRequiredHeight = Math.max(maxRequiredHeight, measurement.totalHeight);
@@ -330,7 +366,7 @@ export function calculateOptimalRowHeight(
 }
 
 /**
- * Batch measurement for performance
+ * Batch measurement for performance, keyed by cell ID ("A1")
  */
 export function batchMeasureCells(
   cells: Array<{
@@ -340,16 +376,20 @@ export function batchMeasureCells(
     format?: any;
     wrap?: boolean;
     columnWidth?: number;
+    rotation?: number;
+    indent?: number;
   }>
 ): Map<string, CellMeasurement> {
   const results = new Map<string, CellMeasurement>();
   
   for (const cell of cells) {
-    const key = `${cell.row},${cell.col}`;
+    const key = toCellRef(cell.row, cell.col);
     const measurement = measureCellContent(cell.content, {
       format: cell.format,
       wrap: cell.wrap,
-      maxWidth: cell.columnWidth
+      maxWidth: cell.columnWidth,
+      rotation: cell.rotation,
+      indent: cell.indent
     });
     results.set(key, measurement);
   }
@@ -383,5 +423,6 @@ export const AUTO_FIT_CONSTANTS = {
   MIN_COLUMN_WIDTH,
   MIN_ROW_HEIGHT,
   DEFAULT_COLUMN_WIDTH,
-  DEFAULT_ROW_HEIGHT
+  DEFAULT_ROW_HEIGHT,
+  INDENT_WIDTH
 };
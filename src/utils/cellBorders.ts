@@ -0,0 +1,154 @@
+/**
+ * Cell Borders - Per-edge border lines of a cell and the border presets of the Home tab,
+ * applied to a selection as Excel does: inner edges belong to the cells on both sides
+ */
+
+import { toCellRef } from './formulaEngine';
+
+export type BorderStyle = 'thin' | 'medium' | 'thick' | 'dashed' | 'dotted' | 'double';
+
+export interface CellBorder {
+  style: BorderStyle;
+  color?: string;
+}
+
+export interface CellBorders {
+  top?: CellBorder;
+  right?: CellBorder;
+  bottom?: CellBorder;
+  left?: CellBorder;
+}
+
+export type BorderEdge = keyof CellBorders;
+
+export type BorderPreset =
+  | 'bottom'
+  | 'top'
+  | 'left'
+  | 'right'
+  | 'none'
+  | 'all'
+  | 'outside'
+  | 'thick-outside'
+  | 'double-bottom'
+  | 'thick-bottom'
+  | 'top-bottom'
+  | 'top-thick-bottom'
+  | 'top-double-bottom';
+
+export const BORDER_PRESETS: { preset: BorderPreset; label: string }[] = [
+  { preset: 'bottom', label: 'Bottom Border' },
+  { preset: 'top', label: 'Top Border' },
+  { preset: 'left', label: 'Left Border' },
+  { preset: 'right', label: 'Right Border' },
+  { preset: 'none', label: 'No Border' },
+  { preset: 'all', label: 'All Borders' },
+  { preset: 'outside', label: 'Outside Borders' },
+  { preset: 'thick-outside', label: 'Thick Outside Borders' },
+  { preset: 'double-bottom', label: 'Bottom Double Border' },
+  { preset: 'thick-bottom', label: 'Thick Bottom Border' },
+  { preset: 'top-bottom', label: 'Top and Bottom Border' },
+  { preset: 'top-thick-bottom', label: 'Top and Thick Bottom Border' },
+  { preset: 'top-double-bottom', label: 'Top and Double Bottom Border' }
+];
+
+export const BORDER_STYLES: BorderStyle[] = ['thin', 'medium', 'thick', 'dashed', 'dotted', 'double'];
+
+const DEFAULT_BORDER_COLOR = '#000000';
+
+const BORDER_CSS: Record<BorderStyle, string> = {
+  thin: '1px solid',
+  medium: '2px solid',
+  thick: '3px solid',
+  dashed: '1px dashed',
+  dotted: '1px dotted',
+  double: '3px double'
+};
+
+/**
+ * CSS shorthand for a border line ("2px solid #FF0000"), or undefined for no line
+ */
+export function borderCss(border: CellBorder | undefined): string | undefined {
+  return border ? `${BORDER_CSS[border.style]} ${border.color || DEFAULT_BORDER_COLOR}` : undefined;
+}
+
+interface FormatWithBorders {
+  borders?: CellBorders;
+  [property: string]: unknown;
+}
+
+/**
+ * Formats with a preset applied to a block of cells. `line` is the style and color picked
+ * in the ribbon; presets naming a style of their own (thick, double) keep its color only.
+ */
+export function applyBorderPreset<T extends FormatWithBorders>(
+  formats: { [key: string]: T },
+  range: { startRow: number; startCol: number; endRow: number; endCol: number },
+  preset: BorderPreset,
+  line: CellBorder = { style: 'thin' }
+): { [key: string]: T } {
+  const next = { ...formats };
+  const withStyle = (style: BorderStyle): CellBorder => ({ ...line, style });
+
+  const setEdge = (row: number, col: number, edge: BorderEdge, border: CellBorder | undefined) => {
+    const key = toCellRef(row, col);
+    if (!border && !next[key]?.borders?.[edge]) return;
+    const borders: CellBorders = { ...next[key]?.borders };
+    if (border) borders[edge] = border;
+    else delete borders[edge];
+    next[key] = { ...next[key], borders: Object.keys(borders).length > 0 ? borders : undefined } as T;
+  };
+  const eachCell = (visit: (row: number, col: number) => void) => {
+    for (let row = range.startRow; row <= range.endRow; row++) {
+      for (let col = range.startCol; col <= range.endCol; col++) visit(row, col);
+    }
+  };
+  const topEdge = (border: CellBorder | undefined) => {
+    for (let col = range.startCol; col <= range.endCol; col++) setEdge(range.startRow, col, 'top', border);
+  };
+  const bottomEdge = (border: CellBorder | undefined) => {
+    for (let col = range.startCol; col <= range.endCol; col++) setEdge(range.endRow, col, 'bottom', border);
+  };
+  const leftEdge = (border: CellBorder | undefined) => {
+    for (let row = range.startRow; row <= range.endRow; row++) setEdge(row, range.startCol, 'left', border);
+  };
+  const rightEdge = (border: CellBorder | undefined) => {
+    for (let row = range.startRow; row <= range.endRow; row++) setEdge(row, range.endCol, 'right', border);
+  };
+  const outside = (border: CellBorder) => {
+    topEdge(border);
+    bottomEdge(border);
+    leftEdge(border);
+    rightEdge(border);
+  };
+
+  switch (preset) {
+    case 'bottom': bottomEdge(line); break;
+    case 'top': topEdge(line); break;
+    case 'left': leftEdge(line); break;
+    case 'right': rightEdge(line); break;
+    case 'none':
+      eachCell((row, col) => (['top', 'right', 'bottom', 'left'] as BorderEdge[]).forEach(edge => setEdge(row, col, edge, undefined)));
+      break;
+    case 'all':
+      eachCell((row, col) => (['top', 'right', 'bottom', 'left'] as BorderEdge[]).forEach(edge => setEdge(row, col, edge, line)));
+      break;
+    case 'outside': outside(line); break;
+    case 'thick-outside': outside(withStyle('thick')); break;
+    case 'double-bottom': bottomEdge(withStyle('double')); break;
+    case 'thick-bottom': bottomEdge(withStyle('thick')); break;
+    case 'top-bottom':
+      topEdge(line);
+      bottomEdge(line);
+      break;
+    case 'top-thick-bottom':
+      topEdge(line);
+      bottomEdge(withStyle('thick'));
+      break;
+    case 'top-double-bottom':
+      topEdge(line);
+      bottomEdge(withStyle('double'));
+      break;
+  }
+  return next;
+}
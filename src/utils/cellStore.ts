@@ -0,0 +1,350 @@
+/**
+ * Cell Store - Sparse storage for the cells of every sheet, keyed by (sheet, row, col), with
+ * typed values, formula source, a shared style table and per-cell metadata
+ *
+ * Only cells holding something are stored. Rows and columns are indexed both ways so a
+ * row, a column or a block can be walked without visiting empty positions.
+ */
+
+import {
+  DateFormat,
+  ErrorCode,
+  formatSerial,
+  isErrorValue,
+  isFormula,
+  parseCellInput,
+  readDateTime
+} from './formulaEngine';
+
+export type CellValue =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; value: ErrorCode }
+  /** Date and time values keep their serial number and how they were typed */
+  | { type: 'date'; value: number; format: DateFormat };
+
+export interface CellMetadata {
+  comment?: string;
+  hyperlink?: string;
+  locked?: boolean;
+}
+
+export interface StoredCell {
+  /** Typed constant, or the last result stored for a formula; null when blank */
+  value: CellValue | null;
+  /** Formula source with its leading "=" */
+  formula?: string;
+  /** Text as entered, kept only when it differs from how the value prints ("1.50", "2024-03-15") */
+  input?: string;
+  /** Entry in the store's style table */
+  styleId?: string;
+  meta?: CellMetadata;
+}
+
+/** Formatting properties shared by every cell using a style */
+export interface CellStyle {
+  [property: string]: unknown;
+}
+
+export interface CellRange {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+export type CellVisitor = (cell: StoredCell, row: number, col: number) => void;
+
+export interface CellStore {
+  get: (sheet: string, row: number, col: number) => StoredCell | undefined;
+  /** Replace a cell; null or a cell with nothing in it removes the position */
+  set: (sheet: string, row: number, col: number, cell: StoredCell | null) => void;
+  update: (sheet: string, row: number, col: number, changes: Partial<StoredCell>) => void;
+  /** Cells of a block, row by row and left to right */
+  eachInRange: (sheet: string, range: CellRange, visit: CellVisitor) => void;
+  eachInRow: (sheet: string, row: number, visit: CellVisitor, fromCol?: number, toCol?: number) => void;
+  eachInColumn: (sheet: string, col: number, visit: CellVisitor, fromRow?: number, toRow?: number) => void;
+  /** Smallest block holding every stored cell, or null for an empty sheet */
+  usedRange: (sheet: string) => CellRange | null;
+  size: (sheet: string) => number;
+  hasSheet: (sheet: string) => boolean;
+  removeSheet: (sheet: string) => void;
+  /**
+   * Counters bumped whenever a sheet's contents (values, formulas) or its formatting
+   * (styles, metadata) change, for callers caching what they read
+   */
+  revision: (sheet: string) => { content: number; style: number };
+  /** Id of a style with these properties, added to the table the first time it is seen */
+  internStyle: (style: CellStyle) => string;
+  getStyle: (styleId: string | undefined) => CellStyle | undefined;
+}
+
+interface SheetCells {
+  rows: Map<number, Map<number, StoredCell>>;
+  columns: Map<number, Map<number, StoredCell>>;
+  size: number;
+  // Sorted keys, rebuilt lazily after a row or column gains or loses its first cell
+  sortedRows: number[] | null;
+  sortedColumns: number[] | null;
+  sortedByRow: Map<number, number[]>;
+  sortedByColumn: Map<number, number[]>;
+  content: number;
+  style: number;
+}
+
+const NO_LIMIT = Number.MAX_SAFE_INTEGER;
+
+const BLANK_CELL: StoredCell = { value: null };
+
+export function createCellStore(): CellStore {
+  const sheets = new Map<string, SheetCells>();
+  const styles = new Map<string, CellStyle>();
+  const styleIds = new Map<string, string>();
+
+  const sheetCells = (sheet: string) => {
+    let cells = sheets.get(sheet);
+    if (!cells) {
+      cells = {
+        rows: new Map(),
+        columns: new Map(),
+        size: 0,
+        sortedRows: null,
+        sortedColumns: null,
+        sortedByRow: new Map(),
+        sortedByColumn: new Map(),
+        content: 0,
+        style: 0
+      };
+      sheets.set(sheet, cells);
+    }
+    return cells;
+  };
+
+  const sortedKeys = (map: Map<number, unknown>, cache: Map<number, number[]>, key: number) => {
+    let sorted = cache.get(key);
+    if (!sorted) {
+      sorted = Array.from(map.keys()).sort((a, b) => a - b);
+      cache.set(key, sorted);
+    }
+    return sorted;
+  };
+
+  const get = (sheet: string, row: number, col: number) => sheets.get(sheet)?.rows.get(row)?.get(col);
+
+  const set = (sheet: string, row: number, col: number, cell: StoredCell | null) => {
+    const cells = sheetCells(sheet);
+    const previous = cells.rows.get(row)?.get(col);
+    const next = cell && !isEmptyCell(cell) ? cell : undefined;
+    if (!previous && !next) return;
+
+    if (contentChanged(previous || BLANK_CELL, next || BLANK_CELL)) cells.content++;
+    if (styleChanged(previous || BLANK_CELL, next || BLANK_CELL)) cells.style++;
+
+    if (next) {
+      if (!previous) {
+        cells.size++;
+        if (!cells.rows.has(row)) cells.sortedRows = null;
+        if (!cells.columns.has(col)) cells.sortedColumns = null;
+        cells.sortedByRow.delete(row);
+        cells.sortedByColumn.delete(col);
+      }
+      if (!cells.rows.has(row)) cells.rows.set(row, new Map());
+      if (!cells.columns.has(col)) cells.columns.set(col, new Map());
+      cells.rows.get(row)!.set(col, next);
+      cells.columns.get(col)!.set(row, next);
+      return;
+    }
+
+    cells.size--;
+    cells.sortedByRow.delete(row);
+    cells.sortedByColumn.delete(col);
+    const rowCells = cells.rows.get(row)!;
+    const columnCells = cells.columns.get(col)!;
+    rowCells.delete(col);
+    columnCells.delete(row);
+    if (rowCells.size === 0) {
+      cells.rows.delete(row);
+      cells.sortedRows = null;
+    }
+    if (columnCells.size === 0) {
+      cells.columns.delete(col);
+      cells.sortedColumns = null;
+    }
+  };
+
+  const update = (sheet: string, row: number, col: number, changes: Partial<StoredCell>) => {
+    set(sheet, row, col, { value: null, ...get(sheet, row, col), ...changes });
+  };
+
+  const eachInRow = (sheet: string, row: number, visit: CellVisitor, fromCol = 0, toCol = NO_LIMIT) => {
+    const cells = sheets.get(sheet);
+    const rowCells = cells?.rows.get(row);
+    if (!rowCells) return;
+    const columns = sortedKeys(rowCells, cells.sortedByRow, row);
+    for (let i = lowerBound(columns, fromCol); i < columns.length && columns[i] <= toCol; i++) {
+      visit(rowCells.get(columns[i])!, row, columns[i]);
+    }
+  };
+
+  const eachInColumn = (sheet: string, col: number, visit: CellVisitor, fromRow = 0, toRow = NO_LIMIT) => {
+    const cells = sheets.get(sheet);
+    const columnCells = cells?.columns.get(col);
+    if (!columnCells) return;
+    const rows = sortedKeys(columnCells, cells.sortedByColumn, col);
+    for (let i = lowerBound(rows, fromRow); i < rows.length && rows[i] <= toRow; i++) {
+      visit(columnCells.get(rows[i])!, rows[i], col);
+    }
+  };
+
+  const eachInRange = (sheet: string, range: CellRange, visit: CellVisitor) => {
+    const cells = sheets.get(sheet);
+    if (!cells) return;
+    if (!cells.sortedRows) cells.sortedRows = Array.from(cells.rows.keys()).sort((a, b) => a - b);
+    const rows = cells.sortedRows;
+    for (let i = lowerBound(rows, range.startRow); i < rows.length && rows[i] <= range.endRow; i++) {
+      eachInRow(sheet, rows[i], visit, range.startCol, range.endCol);
+    }
+  };
+
+  const usedRange = (sheet: string): CellRange | null => {
+    const cells = sheets.get(sheet);
+    if (!cells || cells.size === 0) return null;
+    if (!cells.sortedRows) cells.sortedRows = Array.from(cells.rows.keys()).sort((a, b) => a - b);
+    if (!cells.sortedColumns) cells.sortedColumns = Array.from(cells.columns.keys()).sort((a, b) => a - b);
+    return {
+      startRow: cells.sortedRows[0],
+      startCol: cells.sortedColumns[0],
+      endRow: cells.sortedRows[cells.sortedRows.length - 1],
+      endCol: cells.sortedColumns[cells.sortedColumns.length - 1]
+    };
+  };
+
+  const internStyle = (style: CellStyle) => {
+    const key = styleKey(style);
+    let id = styleIds.get(key);
+    if (!id) {
+      id = `s${styleIds.size + 1}`;
+      styleIds.set(key, id);
+      styles.set(id, { ...style });
+    }
+    return id;
+  };
+
+  return {
+    get,
+    set,
+    update,
+    eachInRange,
+    eachInRow,
+    eachInColumn,
+    usedRange,
+    size: sheet => sheets.get(sheet)?.size || 0,
+    hasSheet: sheet => sheets.has(sheet),
+    removeSheet: sheet => {
+      sheets.delete(sheet);
+    },
+    revision: sheet => {
+      const cells = sheets.get(sheet);
+      return { content: cells?.content || 0, style: cells?.style || 0 };
+    },
+    internStyle,
+    getStyle: styleId => (styleId ? styles.get(styleId) : undefined)
+  };
+}
+
+/**
+ * Typed contents of text entered in a cell: formulas keep their source, everything else is
+ * read the way Excel reads typed input. The empty string is kept as an empty text value.
+ */
+export function parseCellValue(raw: string): Pick<StoredCell, 'value' | 'formula' | 'input'> {
+  if (isFormula(raw)) return { value: null, formula: raw };
+  if (raw === '') return { value: { type: 'string', value: '' } };
+
+  const typed = parseCellInput(raw);
+  let value: CellValue;
+  if (typeof typed === 'number') {
+    const dateTime = readDateTime(raw);
+    value = dateTime
+      ? { type: 'date', value: dateTime.serial, format: dateTime.format }
+      : { type: 'number', value: typed };
+  } else if (typeof typed === 'boolean') {
+    value = { type: 'boolean', value: typed };
+  } else if (isErrorValue(typed)) {
+    value = { type: 'error', value: typed.code };
+  } else {
+    value = { type: 'string', value: typed as string };
+  }
+  return valueText(value) === raw ? { value } : { value, input: raw };
+}
+
+/**
+ * Text of a typed value the way a cell shows it before any number format
+ */
+export function valueText(value: CellValue | null): string {
+  if (!value) return '';
+  switch (value.type) {
+    case 'number':
+      return String(value.value);
+    case 'boolean':
+      return value.value ? 'TRUE' : 'FALSE';
+    case 'date':
+      return formatSerial(value.value, value.format);
+    default:
+      return value.value;
+  }
+}
+
+/**
+ * What was entered in a cell: the formula, the text as typed, or the value's own text
+ */
+export function cellInputText(cell: StoredCell | undefined): string {
+  if (!cell) return '';
+  return cell.formula ?? cell.input ?? valueText(cell.value);
+}
+
+/**
+ * Numeric reading of a cell for comparisons and scales; dates count as their serials
+ */
+export function cellNumber(cell: StoredCell | undefined): number | null {
+  const value = cell?.value;
+  return value && (value.type === 'number' || value.type === 'date') ? value.value : null;
+}
+
+function isEmptyCell(cell: StoredCell): boolean {
+  return cell.value === null && cell.formula === undefined && !cell.styleId && !cell.meta;
+}
+
+function contentChanged(a: StoredCell, b: StoredCell): boolean {
+  return a.formula !== b.formula || a.input !== b.input || valueKey(a.value) !== valueKey(b.value);
+}
+
+function styleChanged(a: StoredCell, b: StoredCell): boolean {
+  return a.styleId !== b.styleId || a.meta !== b.meta;
+}
+
+function valueKey(value: CellValue | null): string {
+  return value ? `${value.type}:${value.value}` : '';
+}
+
+/** Properties in a fixed order, leaving out unset ones, so equal styles share a key */
+function styleKey(style: CellStyle): string {
+  return JSON.stringify(Object.keys(style)
+    .filter(property => style[property] !== undefined)
+    .sort()
+    .map(property => [property, style[property]]));
+}
+
+/**
+ * Position of the first key not below a value
+ */
+function lowerBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
@@ -0,0 +1,148 @@
+/**
+ * Cell Store Adapter - Presents a sheet of the cell store as the string-keyed cellData and
+ * cellFormats objects components were written against, and writes edited copies of those
+ * objects back to the store, so components can move to the store one at a time
+ */
+
+import { CellData, normalizeCellValue, parseCellRef, toCellRef } from './formulaEngine';
+import { CellStore, CellStyle, StoredCell, cellInputText, parseCellValue } from './cellStore';
+
+export interface CellFormats {
+  [key: string]: CellStyle;
+}
+
+export interface CellDataAdapter {
+  store: CellStore;
+  /**
+   * What was entered in each cell with contents, keyed by cell ID ("A1"). The same object
+   * is returned until the sheet's contents change.
+   */
+  readCellData: (sheet: string) => CellData;
+  /** Store what differs between an edited cellData object and the sheet; true if anything did */
+  writeCellData: (sheet: string, next: CellData) => boolean;
+  /** Formatting of each formatted cell, keyed by cell ID */
+  readCellFormats: (sheet: string) => CellFormats;
+  writeCellFormats: (sheet: string, next: CellFormats) => boolean;
+}
+
+interface CachedView<T> {
+  revision: number;
+  view: T;
+}
+
+/** Blank contents: clearing a cell leaves its formatting in place */
+const NO_CONTENTS: Partial<StoredCell> = { value: null, formula: undefined, input: undefined };
+
+/**
+ * Position of a cellData key. Cell IDs are the norm; the 0-based "row-col" and "row,col"
+ * keys a few older code paths produced are read as well.
+ */
+export function parseCellKey(key: string): { row: number; col: number } | null {
+  const position = parseCellRef(key);
+  if (position) return position;
+  const match = /^(\d+)[-,](\d+)$/.exec(key);
+  return match ? { row: Number(match[1]), col: Number(match[2]) } : null;
+}
+
+export function createCellDataAdapter(store: CellStore): CellDataAdapter {
+  const dataViews = new Map<string, CachedView<CellData>>();
+  const formatViews = new Map<string, CachedView<CellFormats>>();
+
+  const collect = <T>(sheet: string, read: (cell: StoredCell) => T | undefined) => {
+    const view: { [key: string]: T } = {};
+    const range = store.usedRange(sheet);
+    if (range) {
+      store.eachInRange(sheet, range, (cell, row, col) => {
+        const entry = read(cell);
+        if (entry !== undefined) view[toCellRef(row, col)] = entry;
+      });
+    }
+    return view;
+  };
+
+  const readCellData = (sheet: string) => {
+    const revision = store.revision(sheet).content;
+    const cached = dataViews.get(sheet);
+    if (cached && cached.revision === revision) return cached.view;
+
+    const view = collect(sheet, cell => (cell.value !== null || cell.formula !== undefined ? cellInputText(cell) : undefined));
+    dataViews.set(sheet, { revision, view });
+    return view;
+  };
+
+  const readCellFormats = (sheet: string) => {
+    const revision = store.revision(sheet).style;
+    const cached = formatViews.get(sheet);
+    if (cached && cached.revision === revision) return cached.view;
+
+    // Copies, so that editing one cell's format in place cannot restyle others sharing it
+    const view = collect(sheet, cell => {
+      const style = store.getStyle(cell.styleId);
+      return style ? { ...style } : undefined;
+    });
+    formatViews.set(sheet, { revision, view });
+    return view;
+  };
+
+  /**
+   * Apply the entries of `next` that differ from `previous` and clear the ones it dropped.
+   * When `next` already reads exactly like the sheet it becomes the cached view.
+   */
+  const write = <T>(
+    sheet: string,
+    previous: { [key: string]: T },
+    next: { [key: string]: T },
+    apply: (row: number, col: number, entry: T | undefined) => boolean,
+    views: Map<string, CachedView<{ [key: string]: T }>>,
+    part: 'content' | 'style'
+  ) => {
+    if (next === previous) return false;
+    let changed = false;
+    let exact = true;
+    const kept = new Set<string>();
+
+    Object.keys(next).forEach(key => {
+      const position = parseCellKey(key);
+      if (!position) {
+        exact = false;
+        return;
+      }
+      const cellId = toCellRef(position.row, position.col);
+      if (cellId !== key) exact = false;
+      kept.add(cellId);
+      if (previous[cellId] === next[key]) return;
+      if (apply(position.row, position.col, next[key])) exact = false;
+      changed = true;
+    });
+    Object.keys(previous).forEach(cellId => {
+      if (kept.has(cellId)) return;
+      const position = parseCellRef(cellId)!;
+      apply(position.row, position.col, undefined);
+      changed = true;
+    });
+
+    if (changed && exact) views.set(sheet, { revision: store.revision(sheet)[part], view: next });
+    return changed;
+  };
+
+  // Each apply returns true when the stored result will read differently from the entry given
+  const writeCellData = (sheet: string, next: CellData) =>
+    write(sheet, readCellData(sheet), next, (row, col, entry) => {
+      if (entry === undefined) {
+        store.update(sheet, row, col, NO_CONTENTS);
+        return false;
+      }
+      const text = normalizeCellValue(entry);
+      store.update(sheet, row, col, { ...NO_CONTENTS, ...parseCellValue(text) });
+      return text !== entry;
+    }, dataViews, 'content');
+
+  const writeCellFormats = (sheet: string, next: CellFormats) =>
+    write(sheet, readCellFormats(sheet), next, (row, col, entry) => {
+      const styled = entry && Object.keys(entry).some(property => entry[property] !== undefined);
+      store.update(sheet, row, col, { styleId: styled ? store.internStyle(entry) : undefined });
+      return entry !== undefined && !styled;
+    }, formatViews, 'style');
+
+  return { store, readCellData, writeCellData, readCellFormats, writeCellFormats };
+}
@@ -0,0 +1,379 @@
+/**
+ * Cell Styles - Named styles of the workbook ("Heading 1", "Total", "Input"), the theme
+ * their colors and fonts come from, and the formatting a cell ends up with
+ *
+ * A cell names its style in `style` and keeps only its own overrides. Colors may name a
+ * theme slot ("theme:accent1", or "theme:accent1:0.4" to lighten it by 40%) and fonts the
+ * theme's heading or body font ("theme:major", "theme:minor"), so changing the theme
+ * re-skins every cell using them.
+ */
+
+import { CellBorder, CellBorders } from './cellBorders';
+
+export interface ThemeColors {
+  dark1: string;
+  light1: string;
+  dark2: string;
+  light2: string;
+  accent1: string;
+  accent2: string;
+  accent3: string;
+  accent4: string;
+  accent5: string;
+  accent6: string;
+  hyperlink: string;
+}
+
+export type ThemeColorSlot = keyof ThemeColors;
+
+export interface WorkbookTheme {
+  name: string;
+  colors: ThemeColors;
+  /** Heading (major) and body (minor) fonts */
+  fonts: { major: string; minor: string };
+}
+
+/** Formatting a style can set, as stored in a cell's format */
+export interface StyleFormat {
+  fontFamily?: string;
+  fontSize?: string | number;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  backgroundColor?: string;
+  borders?: CellBorders;
+  numberFormat?: string;
+  textAlign?: 'left' | 'center' | 'right';
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  wrapText?: boolean;
+  indent?: number;
+  textRotation?: number;
+}
+
+export interface NamedCellStyle {
+  name: string;
+  /** Style whose formatting this one starts from */
+  basedOn?: string;
+  builtIn?: boolean;
+  /** Gallery section the style is listed under */
+  group: StyleGroup;
+  format: StyleFormat;
+}
+
+export type StyleGroup = 'Custom' | 'Good, Bad and Neutral' | 'Data and Model' | 'Titles and Headings' | 'Themed Cell Styles' | 'Number Format';
+
+export const STYLE_GROUPS: StyleGroup[] = ['Custom', 'Good, Bad and Neutral', 'Data and Model', 'Titles and Headings', 'Themed Cell Styles', 'Number Format'];
+
+/** Parts of a style, as the style dialog offers them */
+export type StylePart = 'number' | 'alignment' | 'font' | 'border' | 'fill';
+
+export const STYLE_PARTS: { part: StylePart; label: string; properties: (keyof StyleFormat)[] }[] = [
+  { part: 'number', label: 'Number', properties: ['numberFormat'] },
+  { part: 'alignment', label: 'Alignment', properties: ['textAlign', 'verticalAlign', 'wrapText', 'indent', 'textRotation'] },
+  { part: 'font', label: 'Font', properties: ['fontFamily', 'fontSize', 'bold', 'italic', 'underline', 'color'] },
+  { part: 'border', label: 'Border', properties: ['borders'] },
+  { part: 'fill', label: 'Fill', properties: ['backgroundColor'] }
+];
+
+export const THEMES: WorkbookTheme[] = [
+  {
+    name: 'Office',
+    colors: {
+      dark1: '#000000', light1: '#FFFFFF', dark2: '#44546A', light2: '#E7E6E6',
+      accent1: '#4472C4', accent2: '#ED7D31', accent3: '#A5A5A5', accent4: '#FFC000', accent5: '#5B9BD5', accent6: '#70AD47',
+      hyperlink: '#0563C1'
+    },
+    fonts: { major: 'Calibri Light', minor: 'Calibri' }
+  },
+  {
+    name: 'Office 2007 - 2010',
+    colors: {
+      dark1: '#000000', light1: '#FFFFFF', dark2: '#1F497D', light2: '#EEECE1',
+      accent1: '#4F81BD', accent2: '#C0504D', accent3: '#9BBB59', accent4: '#8064A2', accent5: '#4BACC6', accent6: '#F79646',
+      hyperlink: '#0000FF'
+    },
+    fonts: { major: 'Cambria', minor: 'Calibri' }
+  },
+  {
+    name: 'Facet',
+    colors: {
+      dark1: '#000000', light1: '#FFFFFF', dark2: '#2C3C43', light2: '#EBEBEB',
+      accent1: '#90C226', accent2: '#54A021', accent3: '#E6B91E', accent4: '#E76618', accent5: '#C42F1A', accent6: '#918655',
+      hyperlink: '#99CA3C'
+    },
+    fonts: { major: 'Trebuchet MS', minor: 'Trebuchet MS' }
+  },
+  {
+    name: 'Ion',
+    colors: {
+      dark1: '#000000', light1: '#FFFFFF', dark2: '#1E5155', light2: '#EBEBEB',
+      accent1: '#B01513', accent2: '#EA6312', accent3: '#E6B729', accent4: '#6AAC90', accent5: '#5F9C9D', accent6: '#9E5E9B',
+      hyperlink: '#58C1BA'
+    },
+    fonts: { major: 'Century Gothic', minor: 'Century Gothic' }
+  },
+  {
+    name: 'Retrospect',
+    colors: {
+      dark1: '#000000', light1: '#FFFFFF', dark2: '#637052', light2: '#CCDDEA',
+      accent1: '#E48312', accent2: '#BD582C', accent3: '#865640', accent4: '#9B8357', accent5: '#C2BC80', accent6: '#94A088',
+      hyperlink: '#2998E3'
+    },
+    fonts: { major: 'Calibri Light', minor: 'Calibri' }
+  }
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+export const NORMAL_STYLE = 'Normal';
+
+const thin = (color: string): CellBorder => ({ style: 'thin', color });
+const box = (border: CellBorder): CellBorders => ({ top: border, right: border, bottom: border, left: border });
+
+const accentStyles = (): NamedCellStyle[] => {
+  const styles: NamedCellStyle[] = [];
+  [0.8, 0.6, 0.4].forEach(tint => {
+    for (let accent = 1; accent <= 6; accent++) {
+      styles.push({
+        name: `${Math.round((1 - tint) * 100)}% - Accent${accent}`,
+        builtIn: true,
+        group: 'Themed Cell Styles',
+        format: { backgroundColor: `theme:accent${accent}:${tint}`, color: tint === 0.4 ? 'theme:light1' : 'theme:dark1' }
+      });
+    }
+  });
+  for (let accent = 1; accent <= 6; accent++) {
+    styles.push({
+      name: `Accent${accent}`,
+      builtIn: true,
+      group: 'Themed Cell Styles',
+      format: { backgroundColor: `theme:accent${accent}`, color: 'theme:light1' }
+    });
+  }
+  return styles;
+};
+
+export const BUILT_IN_STYLES: NamedCellStyle[] = [
+  { name: NORMAL_STYLE, builtIn: true, group: 'Good, Bad and Neutral', format: { fontFamily: 'theme:minor', fontSize: '11px', color: 'theme:dark1' } },
+  { name: 'Bad', builtIn: true, group: 'Good, Bad and Neutral', format: { backgroundColor: '#FFC7CE', color: '#9C0006' } },
+  { name: 'Good', builtIn: true, group: 'Good, Bad and Neutral', format: { backgroundColor: '#C6EFCE', color: '#006100' } },
+  { name: 'Neutral', builtIn: true, group: 'Good, Bad and Neutral', format: { backgroundColor: '#FFEB9C', color: '#9C5700' } },
+  {
+    name: 'Calculation', builtIn: true, group: 'Data and Model',
+    format: { backgroundColor: '#F2F2F2', color: '#FA7D00', bold: true, borders: box(thin('#7F7F7F')) }
+  },
+  {
+    name: 'Check Cell', builtIn: true, group: 'Data and Model',
+    format: { backgroundColor: '#A5A5A5', color: 'theme:light1', bold: true, borders: box({ style: 'double', color: '#3F3F3F' }) }
+  },
+  { name: 'Explanatory Text', builtIn: true, group: 'Data and Model', format: { italic: true, color: '#7F7F7F' } },
+  {
+    name: 'Input', builtIn: true, group: 'Data and Model',
+    format: { backgroundColor: '#FFCC99', color: '#3F3F76', borders: box(thin('#7F7F7F')) }
+  },
+  { name: 'Linked Cell', builtIn: true, group: 'Data and Model', format: { color: '#FA7D00', borders: { bottom: { style: 'double', color: '#FF8001' } } } },
+  { name: 'Note', builtIn: true, group: 'Data and Model', format: { backgroundColor: '#FFFFCC', borders: box(thin('#B2B2B2')) } },
+  {
+    name: 'Output', builtIn: true, group: 'Data and Model',
+    format: { backgroundColor: '#F2F2F2', color: '#3F3F3F', bold: true, borders: box(thin('#3F3F3F')) }
+  },
+  { name: 'Warning Text', builtIn: true, group: 'Data and Model', format: { color: '#FF0000' } },
+  {
+    name: 'Heading 1', builtIn: true, group: 'Titles and Headings',
+    format: { fontSize: '15px', bold: true, color: 'theme:dark2', borders: { bottom: { style: 'thick', color: 'theme:accent1' } } }
+  },
+  {
+    name: 'Heading 2', builtIn: true, group: 'Titles and Headings',
+    format: { fontSize: '13px', bold: true, color: 'theme:dark2', borders: { bottom: { style: 'thick', color: 'theme:accent1:0.5' } } }
+  },
+  {
+    name: 'Heading 3', builtIn: true, group: 'Titles and Headings',
+    format: { fontSize: '11px', bold: true, color: 'theme:dark2', borders: { bottom: { style: 'medium', color: 'theme:accent1:0.4' } } }
+  },
+  { name: 'Heading 4', builtIn: true, group: 'Titles and Headings', format: { bold: true, color: 'theme:dark2' } },
+  { name: 'Title', builtIn: true, group: 'Titles and Headings', format: { fontFamily: 'theme:major', fontSize: '18px', color: 'theme:dark2' } },
+  {
+    name: 'Total', builtIn: true, group: 'Titles and Headings',
+    format: { bold: true, borders: { top: thin('theme:accent1'), bottom: { style: 'double', color: 'theme:accent1' } } }
+  },
+  ...accentStyles(),
+  { name: 'Comma', builtIn: true, group: 'Number Format', format: { numberFormat: '_(* #,##0.00_);_(* (#,##0.00);_(* "-"??_);_(@_)' } },
+  { name: 'Comma [0]', builtIn: true, group: 'Number Format', format: { numberFormat: '_(* #,##0_);_(* (#,##0);_(* "-"_);_(@_)' } },
+  { name: 'Currency', builtIn: true, group: 'Number Format', format: { numberFormat: '_($* #,##0.00_);_($* (#,##0.00);_($* "-"??_);_(@_)' } },
+  { name: 'Currency [0]', builtIn: true, group: 'Number Format', format: { numberFormat: '_($* #,##0_);_($* (#,##0);_($* "-"_);_(@_)' } },
+  { name: 'Percent', builtIn: true, group: 'Number Format', format: { numberFormat: '0%' } }
+];
+
+/**
+ * Theme by name, falling back to the default theme for names no longer known
+ */
+export function getTheme(name: string | undefined): WorkbookTheme {
+  return THEMES.find(theme => theme.name === name) || DEFAULT_THEME;
+}
+
+/**
+ * The workbook's styles: the built-in ones, with any the workbook has modified or added
+ * taking their place or following them
+ */
+export function mergeStyles(custom: NamedCellStyle[]): NamedCellStyle[] {
+  const byName = new Map(custom.map(style => [style.name, style]));
+  const merged = BUILT_IN_STYLES.map(style => byName.get(style.name) || style);
+  custom.forEach(style => {
+    if (!BUILT_IN_STYLES.some(builtIn => builtIn.name === style.name)) merged.push(style);
+  });
+  return merged;
+}
+
+/**
+ * Color a theme reference stands for, lightened (positive tint) or darkened (negative)
+ * as Excel does; other colors are returned as they are
+ */
+export function resolveThemeColor(color: string | undefined, theme: WorkbookTheme): string | undefined {
+  if (!color || !color.startsWith('theme:')) return color;
+  const [, slot, tint] = color.split(':');
+  const base = theme.colors[slot as ThemeColorSlot];
+  if (!base) return undefined;
+  return tint ? applyTint(base, parseFloat(tint)) : base;
+}
+
+export function resolveThemeFont(font: string | undefined, theme: WorkbookTheme): string | undefined {
+  if (font === 'theme:major') return theme.fonts.major;
+  if (font === 'theme:minor') return theme.fonts.minor;
+  return font;
+}
+
+/**
+ * Formatting of a style, with what it is based on underneath; cycles of basedOn end at
+ * the style seen twice
+ */
+export function styleFormat(name: string | undefined, styles: NamedCellStyle[]): StyleFormat {
+  const chain: NamedCellStyle[] = [];
+  const seen = new Set<string>();
+  let current = name;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const style = styles.find(candidate => candidate.name === current);
+    if (!style) break;
+    chain.unshift(style);
+    current = style.basedOn;
+  }
+  return chain.reduce<StyleFormat>((format, style) => mergeFormat(format, style.format), {});
+}
+
+/**
+ * A cell's style formatting with its own overrides on top, theme references kept
+ */
+export function effectiveFormat<T extends StyleFormat & { style?: string }>(format: T | undefined, styles: NamedCellStyle[]): T {
+  const own = format || ({} as T);
+  return own.style ? mergeFormat(styleFormat(own.style, styles), own) : own;
+}
+
+/**
+ * The formatting a cell is shown with: its style's, then its own overrides, with theme
+ * colors and fonts looked up. Cells without a style are left as they are apart from that.
+ */
+export function resolveCellFormat<T extends StyleFormat & { style?: string }>(
+  format: T | undefined,
+  styles: NamedCellStyle[],
+  theme: WorkbookTheme
+): T {
+  const merged = effectiveFormat(format, styles);
+  if (!needsTheme(merged)) return merged;
+
+  const resolved = { ...merged };
+  resolved.color = resolveThemeColor(merged.color, theme);
+  resolved.backgroundColor = resolveThemeColor(merged.backgroundColor, theme);
+  resolved.fontFamily = resolveThemeFont(merged.fontFamily, theme);
+  if (merged.borders) {
+    const borders: CellBorders = {};
+    (Object.keys(merged.borders) as (keyof CellBorders)[]).forEach(edge => {
+      const border = merged.borders![edge];
+      if (border) borders[edge] = { ...border, color: resolveThemeColor(border.color, theme) };
+    });
+    resolved.borders = borders;
+  }
+  return resolved;
+}
+
+/**
+ * A cell's format once a style is applied. As in Excel, formatting of the cell's own that
+ * the style also sets is dropped, so the style shows; the rest stays as an override.
+ */
+export function applyStyleToFormat<T extends StyleFormat & { style?: string }>(
+  format: T | undefined,
+  name: string,
+  styles: NamedCellStyle[]
+): T {
+  const next = { ...format } as T;
+  const applied = styleFormat(name, styles);
+  (Object.keys(applied) as (keyof StyleFormat)[]).forEach(property => {
+    delete next[property];
+  });
+  if (name === NORMAL_STYLE) delete next.style;
+  else next.style = name;
+  return next;
+}
+
+/**
+ * Formatting for a new style taken from a cell, keeping only the chosen parts
+ */
+export function pickStyleParts(format: StyleFormat, parts: StylePart[]): StyleFormat {
+  const picked: StyleFormat = {};
+  STYLE_PARTS.filter(({ part }) => parts.includes(part)).forEach(({ properties }) => {
+    properties.forEach(property => {
+      if (format[property] !== undefined) copyProperty(picked, format, property);
+    });
+  });
+  return picked;
+}
+
+function copyProperty<K extends keyof StyleFormat>(target: StyleFormat, source: StyleFormat, property: K): void {
+  target[property] = source[property];
+}
+
+/** Short description of what a style sets, as the style dialog lists it */
+export function describeStyle(format: StyleFormat): { [part in StylePart]?: string } {
+  const described: { [part in StylePart]?: string } = {};
+  STYLE_PARTS.forEach(({ part, properties }) => {
+    const set = properties.filter(property => format[property] !== undefined);
+    if (set.length > 0) described[part] = set.map(property => describeProperty(property, format[property])).join(', ');
+  });
+  return described;
+}
+
+function describeProperty(property: keyof StyleFormat, value: unknown): string {
+  if (property === 'borders') {
+    return Object.entries(value as CellBorders).filter(([, border]) => border).map(([edge, border]) => `${edge} ${border!.style}`).join(', ');
+  }
+  if (typeof value === 'boolean') return value ? property : `no ${property}`;
+  return `${property} ${value}`;
+}
+
+// Properties of `over` replace those of `base`; borders merge edge by edge
+function mergeFormat<T extends StyleFormat>(base: StyleFormat, over: T): T {
+  const merged = { ...base } as T;
+  (Object.keys(over) as (keyof T)[]).forEach(property => {
+    if (over[property] === undefined) return;
+    if (property === 'borders') {
+      merged.borders = { ...base.borders, ...over.borders };
+    } else {
+      merged[property] = over[property];
+    }
+  });
+  return merged;
+}
+
+function needsTheme(format: StyleFormat): boolean {
+  const isReference = (value: string | undefined) => typeof value === 'string' && value.startsWith('theme:');
+  return isReference(format.color)
+    || isReference(format.backgroundColor)
+    || isReference(format.fontFamily)
+    || (!!format.borders && Object.values(format.borders).some(border => isReference(border?.color)));
+}
+
+function applyTint(hex: string, tint: number): string {
+  const channels = [1, 3, 5].map(start => parseInt(hex.substring(start, start + 2), 16));
+  const tinted = channels.map(channel => (tint < 0 ? channel * (1 + tint) : channel + (255 - channel) * tint));
+  return `#${tinted.map(channel => Math.round(Math.max(0, Math.min(255, channel))).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
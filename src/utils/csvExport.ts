@@ -1,3 +1,5 @@
+import { shownInput } from './formulaEngine';
+
 export const exportToCSV = (cellData: { [key: string]: string }, filename: string = 'spreadsheet.csv') => {
   // Get all cell keys and determine the grid dimensions
   const cellKeys = Object.keys(cellData);
@@ -34,7 +36,7 @@ export const exportToCSV = (cellData: { [key: string]: string }, filename: strin
     if (match) {
       const col = columnToIndex(match[1]);
       const row = parseInt(match[2]) - 1;
-      csvData[row][col] = cellData[key] || '';
+      csvData[row][col] = shownInput(cellData[key] || '');
     }
   });
 
@@ -0,0 +1,463 @@
+/**
+ * Delimited Text Import - Reads CSV, TSV and other delimited text files into cells
+ *
+ * Fields may be quoted to hold delimiters, line breaks and doubled quotes (""). Files are
+ * decoded and parsed a chunk at a time, yielding to the browser between chunks so large
+ * files do not freeze the tab. The encoding, delimiter, quote, header row, separators and
+ * column types are guessed from the start of the file and can be changed before importing.
+ */
+
+import { MAX_COLUMNS, MAX_ROWS, textInput, toCellRef } from './formulaEngine';
+
+export type ColumnType = 'general' | 'text' | 'number' | 'date' | 'skip';
+
+/** Order of the day, month and year in a column's dates */
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+export interface ColumnSetting {
+  type: ColumnType;
+  dateOrder?: DateOrder;
+}
+
+export interface CsvImportOptions {
+  encoding: string;
+  delimiter: string;
+  /** Character fields are quoted with; '' when quotes are ordinary text */
+  quote: string;
+  /** The first row holds column names: imported as text and made bold */
+  hasHeader: boolean;
+  decimalSeparator: string;
+  /** '' when numbers are not grouped */
+  thousandsSeparator: string;
+  /** Settings by column of the file; columns without one are General */
+  columns: ColumnSetting[];
+  /** Cell the first field lands in, 0-based */
+  target: { row: number; col: number };
+}
+
+export interface CsvImportResult {
+  cells: { [key: string]: string };
+  /** Cells of the header row */
+  headerCells: string[];
+  rows: number;
+  /** Rows or columns beyond the sheet were left out */
+  truncated: boolean;
+}
+
+export const ENCODINGS = [
+  { value: 'utf-8', label: 'Unicode (UTF-8)' },
+  { value: 'utf-16le', label: 'Unicode (UTF-16 LE)' },
+  { value: 'utf-16be', label: 'Unicode (UTF-16 BE)' },
+  { value: 'windows-1252', label: 'Western European (Windows-1252)' },
+  { value: 'iso-8859-15', label: 'Western European (ISO-8859-15)' },
+  { value: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'shift_jis', label: 'Japanese (Shift-JIS)' },
+  { value: 'gbk', label: 'Chinese Simplified (GBK)' },
+  { value: 'big5', label: 'Chinese Traditional (Big5)' }
+];
+
+export const DELIMITERS = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+  { value: ' ', label: 'Space' }
+];
+
+/** Bytes read to guess the options and show the preview */
+export const SAMPLE_SIZE = 64 * 1024;
+const CHUNK_SIZE = 512 * 1024;
+
+/**
+ * Splits delimited text into rows of fields. Text can be pushed in pieces; a row is
+ * returned once its line ends, so quoted fields may span pieces and lines.
+ */
+export class DelimitedParser {
+  private row: string[] = [];
+  private field = '';
+  private quoted = false;
+  /** A quote was read inside a quoted field: the next character tells whether it ends the field */
+  private quotePending = false;
+  /** The field was quoted, so it is kept even when empty */
+  private fieldStarted = false;
+  private skipLineFeed = false;
+  private started = false;
+
+  constructor(private delimiter: string, private quote = '"') {}
+
+  push(text: string, final = false): string[][] {
+    const rows: string[][] = [];
+    const { delimiter, quote } = this;
+    let start = 0;
+    if (!this.started && text) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === quote) {
+          this.field += quote;
+          continue;
+        }
+        this.quoted = false;
+      } else if (this.quoted) {
+        if (char === quote) this.quotePending = true;
+        else this.field += char;
+        continue;
+      }
+
+      if (char === delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endField();
+        rows.push(this.row);
+        this.row = [];
+        this.skipLineFeed = char === '\r';
+      } else if (char === quote && this.field === '' && !this.fieldStarted) {
+        this.quoted = true;
+        this.fieldStarted = true;
+      } else {
+        this.field += char;
+      }
+    }
+
+    if (final) {
+      // An unclosed quote runs to the end of the file
+      if (this.quotePending) this.quotePending = false;
+      this.quoted = false;
+      if (this.field !== '' || this.fieldStarted || this.row.length) {
+        this.endField();
+        rows.push(this.row);
+        this.row = [];
+      }
+    }
+    return rows;
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+}
+
+/**
+ * Parse a whole text at once
+ */
+export function parseDelimited(text: string, delimiter: string, quote = '"'): string[][] {
+  return new DelimitedParser(delimiter, quote).push(text, true);
+}
+
+export async function readSample(file: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(0, SAMPLE_SIZE).arrayBuffer());
+}
+
+/**
+ * Encoding from a byte order mark, or from how the bytes look: UTF-16 text is full of
+ * zero bytes, and text that is not valid UTF-8 is most likely Windows-1252
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const length = Math.min(bytes.length, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2) oddZeros++;
+      else evenZeros++;
+    }
+  }
+  if (oddZeros > length / 4) return 'utf-16le';
+  if (evenZeros > length / 4) return 'utf-16be';
+
+  try {
+    // Streaming, so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+export function decodeSample(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(bytes, { stream: true });
+}
+
+/**
+ * The delimiter that splits the sample's lines into the same number of fields most often
+ */
+export function detectDelimiter(text: string, quote = '"'): string {
+  let best = { delimiter: ',', score: 0 };
+  DELIMITERS.forEach(({ value }) => {
+    const counts = new Map<number, number>();
+    sampleRows(text, value, quote, true).slice(0, 50).forEach(row => {
+      if (row.length > 1) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    });
+    counts.forEach((rows, fields) => {
+      // Spaces split ordinary text too, so they win only when nothing else does
+      const score = rows * 100 + fields - (value === ' ' ? 50 : 0);
+      if (score > best.score) best = { delimiter: value, score };
+    });
+  });
+  return best.delimiter;
+}
+
+/**
+ * Options for a file, guessed from its first bytes. `complete` when the sample is the
+ * whole file, so its last line is not cut off.
+ */
+export function detectOptions(bytes: Uint8Array, complete: boolean): CsvImportOptions {
+  const encoding = detectEncoding(bytes);
+  const text = decodeSample(bytes, encoding);
+  const quote = !text.includes('"') && /(^|[,;\t|])'[^'\r\n]*'(?=[,;\t|\r\n]|$)/m.test(text) ? "'" : '"';
+  const delimiter = detectDelimiter(text, quote);
+  const rows = sampleRows(text, delimiter, quote, complete);
+  const { decimalSeparator, thousandsSeparator } = detectSeparators(rows, delimiter);
+
+  const options: CsvImportOptions = {
+    encoding,
+    delimiter,
+    quote,
+    hasHeader: false,
+    decimalSeparator,
+    thousandsSeparator,
+    columns: [],
+    target: { row: 0, col: 0 }
+  };
+  options.hasHeader = detectHeader(rows, options);
+  options.columns = detectColumns(options.hasHeader ? rows.slice(1) : rows, options);
+  return options;
+}
+
+/**
+ * Rows of a sample as they will be imported, for the preview
+ */
+export function previewRows(bytes: Uint8Array, options: CsvImportOptions, complete: boolean, count = 20): string[][] {
+  return sampleRows(decodeSample(bytes, options.encoding), options.delimiter, options.quote, complete).slice(0, count);
+}
+
+function sampleRows(text: string, delimiter: string, quote: string, complete = false): string[][] {
+  const parser = new DelimitedParser(delimiter, quote);
+  const rows = parser.push(text);
+  return complete ? [...rows, ...parser.push('', true)] : rows.slice(0, 200);
+}
+
+function detectSeparators(rows: string[][], delimiter: string): { decimalSeparator: string; thousandsSeparator: string } {
+  // "1.234,56" and "3,5" read as decimal commas unless commas split the fields
+  const decimalComma = delimiter !== ',' && rows.some(row => row.some(field =>
+    /^[+-]?\d{1,3}(\.\d{3})*,\d+$/.test(field.trim()) && !/^[+-]?\d{1,3},\d{3}$/.test(field.trim())));
+  return decimalComma
+    ? { decimalSeparator: ',', thousandsSeparator: '.' }
+    : { decimalSeparator: '.', thousandsSeparator: ',' };
+}
+
+/**
+ * The first row is taken as a header when it is all text while a column below it holds
+ * numbers or dates
+ */
+function detectHeader(rows: string[][], options: CsvImportOptions): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  const isValue = (field: string) => parseNumber(field, options) !== null || readDate(field, 'MDY') !== null || readDate(field, 'DMY') !== null;
+  if (first.some(field => !field.trim() || isValue(field))) return false;
+  return first.some((_, col) => {
+    const fields = rest.map(row => row[col]).filter(field => field !== undefined && field.trim() !== '');
+    return fields.length > 0 && fields.every(isValue);
+  });
+}
+
+/**
+ * Dates where every value of a column reads as one, and Text where numbers have leading
+ * zeros (codes and zip codes) that General would drop
+ */
+function detectColumns(rows: string[][], options: CsvImportOptions): ColumnSetting[] {
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const columns: ColumnSetting[] = [];
+  for (let col = 0; col < width; col++) {
+    const fields = rows.map(row => (row[col] ?? '').trim()).filter(field => field !== '');
+    const dateOrder = fields.length ? detectDateOrder(fields) : null;
+    if (dateOrder) columns.push({ type: 'date', dateOrder });
+    else if (fields.some(field => /^0\d+$/.test(field))) columns.push({ type: 'text' });
+    else columns.push({ type: 'general' });
+  }
+  return columns;
+}
+
+function detectDateOrder(fields: string[]): DateOrder | null {
+  if (!fields.every(field => DATE_PATTERN.test(field))) return null;
+  const parts = fields.map(field => DATE_PATTERN.exec(field)!);
+  if (parts.every(match => match[1].length === 4)) return fields.every(field => readDate(field, 'YMD')) ? 'YMD' : null;
+  // Days over 12 give the order away; otherwise month first, as typed dates are read
+  const order: DateOrder = parts.some(match => Number(match[1]) > 12) ? 'DMY' : 'MDY';
+  return fields.every(field => readDate(field, order)) ? order : null;
+}
+
+// ---------------------------------------------------------------------------------------
+// Values
+
+const DATE_PATTERN = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[AP]M)?))?$/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A number written with the file's separators, in the form the grid reads ("1234.5")
+ */
+export function parseNumber(text: string, options: Pick<CsvImportOptions, 'decimalSeparator' | 'thousandsSeparator'>): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const decimal = escapeRegExp(options.decimalSeparator || '.');
+  const grouped = options.thousandsSeparator ? `\\d{1,3}(?:${escapeRegExp(options.thousandsSeparator)}\\d{3})+|` : '';
+  const match = new RegExp(`^([+-])?(${grouped}\\d+)?(?:${decimal}(\\d+))?([eE][+-]?\\d+)?$`).exec(trimmed);
+  if (!match || (match[2] === undefined && match[3] === undefined)) return null;
+
+  const digits = (match[2] ?? '0').replace(/\D/g, '');
+  const value = Number(`${match[1] ?? ''}${digits}${match[3] ? `.${match[3]}` : ''}${match[4] ?? ''}`);
+  return Number.isFinite(value) ? String(value) : null;
+}
+
+/**
+ * The number in a field written for people: "$1,200", "12 %", and "(300)" or "300-" for -300
+ */
+function numberPart(field: string): string {
+  const trimmed = field.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || /-$/.test(trimmed);
+  const digits = trimmed.replace(/^\(|\)$|-$/g, '').replace(/^[^\d+\-.,]+|[^\d.,]+$/g, '');
+  return negative && !digits.startsWith('-') ? `-${digits}` : digits;
+}
+
+/**
+ * A date in the column's order as an ISO date ("2024-03-15", with its time when it has one),
+ * which the grid reads as a date
+ */
+export function readDate(text: string, order: DateOrder): string | null {
+  const match = DATE_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const [first, second, third] = [match[1], match[2], match[3]];
+  const [year, month, day] = order === 'YMD'
+    ? [first, second, third]
+    : order === 'DMY' ? [third, second, first] : [third, first, second];
+  if (year.length === 3 || year.length === 1 || month.length > 2 || day.length > 2) return null;
+
+  // Two-digit years follow Excel: 00-29 -> 2000s, 30-99 -> 1900s
+  const fullYear = year.length === 2 ? (Number(year) < 30 ? 2000 : 1900) + Number(year) : Number(year);
+  const monthNumber = Number(month);
+  const dayNumber = Number(day);
+  const date = new Date(Date.UTC(fullYear, monthNumber - 1, dayNumber));
+  if (monthNumber < 1 || monthNumber > 12 || date.getUTCDate() !== dayNumber) return null;
+
+  const iso = `${String(fullYear).padStart(4, '0')}-${String(monthNumber).padStart(2, '0')}-${String(dayNumber).padStart(2, '0')}`;
+  return match[4] ? `${iso} ${match[4]}` : iso;
+}
+
+/**
+ * A field as a cell holds it under its column's type; `undefined` for skipped columns.
+ * Fields that do not read as the column's type are kept as text. Text columns keep every
+ * field as text, with the text prefix where it would read as a number ('02134).
+ */
+export function convertField(field: string, setting: ColumnSetting | undefined, options: CsvImportOptions): string | undefined {
+  switch (setting?.type ?? 'general') {
+    case 'skip':
+      return undefined;
+    case 'text':
+      return textInput(field);
+    case 'date':
+      return readDate(field, setting!.dateOrder ?? 'MDY') ?? field;
+    case 'number': {
+      const number = parseNumber(field, options) ?? parseNumber(numberPart(field), options);
+      if (number === null) return field;
+      return /%\s*$/.test(field) ? String(Number(number) / 100) : number;
+    }
+    default:
+      return parseNumber(field, options) ?? field;
+  }
+}
+
+/**
+ * Fields of a row in the columns they are imported to, with skipped columns left out
+ */
+export function convertRow(row: string[], options: CsvImportOptions, header: boolean): string[] {
+  const converted: string[] = [];
+  row.forEach((field, col) => {
+    const setting = options.columns[col];
+    if (setting?.type === 'skip') return;
+    converted.push(header ? field : convertField(field, setting, options)!);
+  });
+  return converted;
+}
+
+// ---------------------------------------------------------------------------------------
+// Importing
+
+/**
+ * Import a whole file. Progress is reported from 0 to 1; aborting the signal stops the
+ * import with an AbortError.
+ */
+export async function readDelimitedFile(
+  file: Blob,
+  options: CsvImportOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<CsvImportResult> {
+  const decoder = new TextDecoder(options.encoding);
+  const parser = new DelimitedParser(options.delimiter, options.quote);
+  const result: CsvImportResult = { cells: {}, headerCells: [], rows: 0, truncated: false };
+  const { row: targetRow, col: targetCol } = options.target;
+
+  const addRows = (rows: string[][]) => {
+    rows.forEach(row => {
+      const sheetRow = targetRow + result.rows;
+      if (sheetRow >= MAX_ROWS) {
+        result.truncated = true;
+        return;
+      }
+      const header = options.hasHeader && result.rows === 0;
+      convertRow(row, options, header).forEach((value, index) => {
+        if (value === '') return;
+        if (targetCol + index >= MAX_COLUMNS) {
+          result.truncated = true;
+          return;
+        }
+        const key = toCellRef(sheetRow, targetCol + index);
+        result.cells[key] = value;
+        if (header) result.headerCells.push(key);
+      });
+      result.rows++;
+    });
+  };
+
+  let offset = 0;
+  do {
+    if (signal?.aborted) throw new DOMException('The import was cancelled', 'AbortError');
+    const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    offset += CHUNK_SIZE;
+    const final = offset >= file.size;
+    addRows(parser.push(decoder.decode(bytes, { stream: !final }), final));
+    onProgress?.(Math.min(1, offset / Math.max(1, file.size)));
+    // Let the page repaint and respond between chunks
+    if (!final) await new Promise(resolve => setTimeout(resolve, 0));
+  } while (offset < file.size);
+
+  return result;
+}
+
+/**
+ * Import a file with the options guessed from its start
+ */
+export async function importDelimitedFile(file: Blob): Promise<CsvImportResult> {
+  const options = detectOptions(await readSample(file), file.size <= SAMPLE_SIZE);
+  return readDelimitedFile(file, options);
+}
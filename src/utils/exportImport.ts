@@ -1,143 +1,92 @@
 import { Sheet, Cell } from "../types/spreadsheet";
 import { saveSpreadsheetState, prepareExportData } from "./spreadsheetBackend";
+import { XLSX_MIME_TYPE, readXlsx, writeXlsx } from "./xlsx";
+import { ODS_MIME_TYPE, readOds, writeOds } from "./ods";
+import type { SheetFile, WorkbookFile } from "./workbookFile";
+import type { PrintSettings } from "./pageLayout";
+import { PDF_MIME_TYPE, writePdf, type PdfExportOptions } from "./pdfExport";
+import { importDelimitedFile } from "./csvImport";
+
+// Export to PDF - the sheet paginated as Page Setup lays it out, saved without a print dialog
+export async function exportToPDF(
+  sheet: SheetFile,
+  settings: PrintSettings,
+  options: Omit<PdfExportOptions, "loadImage"> = {},
+  fileName: string = "spreadsheet.pdf"
+): Promise<void> {
+  downloadWorkbook(await writePdf(sheet, settings, { ...options, loadImage: imageToJpeg }), PDF_MIME_TYPE, fileName, ".pdf");
+}
 
-// Export to PDF (using browser print) - Now includes all formatting
-export function exportToPDF(sheet: Sheet, cellFormats?: any): void {
-  // Create a temporary div with the sheet data
-  const printWindow = window.open("", "_blank");
-  if (!printWindow) {
-    alert("Please allow popups to export to PDF");
-    return;
-  }
-
-  const rows: string[][] = [];
-  const maxRow = 100;
-  const maxCol = 26;
-
-  // Get all data
-  for (let row = 1; row <= maxRow; row++) {
-    const rowData: string[] = [];
-    let hasData = false;
-    for (let col = 0; col < maxCol; col++) {
-      const cellId = `${String.fromCharCode(65 + col)}${row}`;
-      const cell = sheet.cells.get(cellId);
-      rowData.push(cell?.value || "");
-      if (cell?.value) hasData = true;
+// Pictures go into the PDF as JPEG: JPEG data URLs as they are, anything else redrawn on white
+async function imageToJpeg(src: string): Promise<Uint8Array | null> {
+  const jpeg = /^data:image\/jpe?g;base64,/i.exec(src);
+  if (jpeg) return Uint8Array.from(atob(src.slice(jpeg[0].length)), char => char.charCodeAt(0));
+
+  const image = new Image();
+  image.crossOrigin = "anonymous";
+  const loaded = await new Promise<boolean>(resolve => {
+    image.onload = () => resolve(true);
+    image.onerror = () => resolve(false);
+    image.src = src;
+  });
+  if (!loaded || !image.naturalWidth) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+  context.fillStyle = "#FFFFFF";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0);
+  // A picture from another site without CORS headers cannot be read back, and is left out
+  const blob = await new Promise<Blob | null>(resolve => {
+    try {
+      canvas.toBlob(resolve, "image/jpeg", 0.92);
+    } catch {
+      resolve(null);
     }
-    if (hasData) rows.push(rowData);
-    else if (rows.length > 0) break; // Stop if we hit empty rows after data
-  }
-
-  // Create HTML
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <title>${sheet.name}</title>
-      <style>
-        body {
-          font-family: Arial, sans-serif;
-          padding: 20px;
-        }
-        h1 {
-          margin-bottom: 20px;
-          color: #333;
-        }
-        table {
-          border-collapse: collapse;
-          width: 100%;
-          margin-top: 20px;
-        }
-        th, td {
-          border: 1px solid #ddd;
-          padding: 8px;
-          text-align: left;
-        }
-        th {
-          background-color: #f2f2f2;
-          font-weight: bold;
-        }
-        tr:nth-child(even) {
-          background-color: #f9f9f9;
-        }
-        @media print {
-          button {
-            display: none;
-          }
-        }
-      </style>
-    </head>
-    <body>
-      <button onclick="window.print()" style="padding: 10px 20px; margin-bottom: 20px; cursor: pointer;">Print / Save as PDF</button>
-      <h1>${sheet.name}</h1>
-      <table>
-        <thead>
-          <tr>
-            <th>#</th>
-            ${Array.from({ length: maxCol }, (_, i) => `<th>${String.fromCharCode(65 + i)}</th>`).join("")}
-          </tr>
-        </thead>
-        <tbody>
-          ${rows.map((row, rowIndex) => `
-            <tr>
-              <td><strong>${rowIndex + 1}</strong></td>
-              ${row.map((cell) => `<td>${cell || ""}</td>`).join("")}
-            </tr>
-          `).join("")}
-        </tbody>
-      </table>
-    </body>
-    </html>
-  `;
-
-  printWindow.document.write(html);
-  printWindow.document.close();
+  });
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
 }
 
-// Export to XLSX (mock - in production use a library like SheetJS)
-export function exportToXLSX(sheet: Sheet): void {
-  // For production, you'd use: import * as XLSX from 'xlsx';
-  // This is a mock implementation that creates a downloadable data structure
-  
-  const rows: any[][] = [];
-  const maxRow = 100;
-  const maxCol = 26;
-
-  // Add headers
-  const headers = [""];
-  for (let col = 0; col < maxCol; col++) {
-    headers.push(String.fromCharCode(65 + col));
-  }
-  rows.push(headers);
+// Export to XLSX - every sheet with its formulas, formatting, layout, names and validation
+export async function exportToXLSX(workbook: WorkbookFile, fileName: string = "spreadsheet.xlsx"): Promise<void> {
+  downloadWorkbook(await writeXlsx(workbook), XLSX_MIME_TYPE, fileName, ".xlsx");
+}
 
-  // Add data rows
-  for (let row = 1; row <= maxRow; row++) {
-    const rowData: any[] = [row];
-    let hasData = false;
-    for (let col = 0; col < maxCol; col++) {
-      const cellId = `${String.fromCharCode(65 + col)}${row}`;
-      const cell = sheet.cells.get(cellId);
-      rowData.push(cell?.value || "");
-      if (cell?.value) hasData = true;
-    }
-    if (hasData) {
-      rows.push(rowData);
-    } else if (rows.length > 1) {
-      break;
-    }
-  }
+// Export to ODS - the same workbook as an OpenDocument spreadsheet, for LibreOffice
+export async function exportToODS(workbook: WorkbookFile, fileName: string = "spreadsheet.ods"): Promise<void> {
+  downloadWorkbook(await writeOds(workbook), ODS_MIME_TYPE, fileName, ".ods");
+}
 
-  // Create TSV (Tab-Separated Values) format which Excel can open
-  const tsv = rows.map((row) => row.join("\t")).join("\n");
-  const blob = new Blob([tsv], { type: "application/vnd.ms-excel" });
+function downloadWorkbook(data: Uint8Array, type: string, fileName: string, extension: string): void {
+  const blob = new Blob([new Uint8Array(data)], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `${sheet.name}.xls`;
+  a.download = fileName.toLowerCase().endsWith(extension) ? fileName : `${fileName}${extension}`;
   a.click();
   URL.revokeObjectURL(url);
 }
 
+export async function importFromXLSX(file: File): Promise<WorkbookFile> {
+  return readXlsx(new Uint8Array(await file.arrayBuffer()));
+}
+
+export async function importFromODS(file: File): Promise<WorkbookFile> {
+  return readOds(new Uint8Array(await file.arrayBuffer()));
+}
+
+// Workbook files (.xlsx, .ods) open with all their sheets, unlike CSV
+export function isWorkbookFile(fileName: string): boolean {
+  return /\.(xlsx|ods)$/i.test(fileName);
+}
+
+export function importWorkbook(file: File): Promise<WorkbookFile> {
+  return file.name.toLowerCase().endsWith(".ods") ? importFromODS(file) : importFromXLSX(file);
+}
+
 export function exportToCSV(sheet: Sheet): void {
   const rows: string[][] = [];
   const maxRow = 100;
@@ -187,34 +136,13 @@ export function exportToJSON(sheets: Sheet[]): void {
   URL.revokeObjectURL(url);
 }
 
-export function importFromCSV(file: File): Promise<Map<string, any>> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const rows = text.split("\n").map((row) =>
-          row.split(",").map((cell) => cell.replace(/^"|"$/g, ""))
-        );
-
-        const cells = new Map();
-        rows.forEach((row, rowIndex) => {
-          row.forEach((value, colIndex) => {
-            if (value.trim()) {
-              const cellId = `${String.fromCharCode(65 + colIndex)}${rowIndex + 1}`;
-              cells.set(cellId, { value: value.trim() });
-            }
-          });
-        });
-
-        resolve(cells);
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsText(file);
-  });
+// Import CSV/TSV with the encoding, delimiter, header and column types guessed from the file
+export async function importFromCSV(file: File): Promise<Map<string, any>> {
+  const { cells, headerCells } = await importDelimitedFile(file);
+  const header = new Set(headerCells);
+  return new Map(
+    Object.entries(cells).map(([cellId, value]) => [cellId, header.has(cellId) ? { value, bold: true } : { value }])
+  );
 }
 
 export function saveToLocalStorage(sheets: Sheet[], activeSheetId: string): void {
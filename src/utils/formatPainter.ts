@@ -0,0 +1,148 @@
+/**
+ * Format Painter - Copies the formatting of a block of cells (formats, validation and the
+ * conditional formatting rules covering it) onto other blocks
+ *
+ * A target of one cell takes the source's shape from that cell; a larger target repeats
+ * the source across it, cut off at its edges, as Excel tiles a painted format.
+ */
+
+import { toCellRef } from './formulaEngine';
+import { parseRange, rangeRef } from './workbookFile';
+import type { CellRange } from './cellStore';
+
+interface PaintableRule {
+  id: string;
+  range: string;
+  [property: string]: unknown;
+}
+
+/** Formatting of the source block, cell by cell from its top-left corner */
+export interface FormatSnapshot<F = unknown, V = unknown> {
+  rows: number;
+  cols: number;
+  formats: (F | undefined)[][];
+  validations: (V | undefined)[][];
+  /** Rules reaching into the source, with the part of the source each covers */
+  rules: { rule: PaintableRule; area: CellRange }[];
+}
+
+export interface PaintableState<F, V> {
+  formats: { [key: string]: F };
+  validations: { [key: string]: V };
+  rules: PaintableRule[];
+}
+
+export function captureFormats<F, V>(source: CellRange, state: PaintableState<F, V>): FormatSnapshot<F, V> {
+  const rows = source.endRow - source.startRow + 1;
+  const cols = source.endCol - source.startCol + 1;
+  const formats: (F | undefined)[][] = [];
+  const validations: (V | undefined)[][] = [];
+  for (let r = 0; r < rows; r++) {
+    formats.push([]);
+    validations.push([]);
+    for (let c = 0; c < cols; c++) {
+      const key = toCellRef(source.startRow + r, source.startCol + c);
+      formats[r].push(state.formats[key]);
+      validations[r].push(state.validations[key]);
+    }
+  }
+
+  const rules: FormatSnapshot['rules'] = [];
+  state.rules.forEach(rule => {
+    const range = parseRange(rule.range);
+    const area = range && intersect(range, source);
+    // Kept relative to the source's top-left corner
+    if (area) {
+      rules.push({
+        rule,
+        area: {
+          startRow: area.startRow - source.startRow,
+          startCol: area.startCol - source.startCol,
+          endRow: area.endRow - source.startRow,
+          endCol: area.endCol - source.startCol
+        }
+      });
+    }
+  });
+  return { rows, cols, formats, validations, rules };
+}
+
+/** Block a snapshot is painted over when dropped on a target */
+export function paintArea(snapshot: FormatSnapshot, target: CellRange): CellRange {
+  const single = target.startRow === target.endRow && target.startCol === target.endCol;
+  if (!single) return target;
+  return {
+    startRow: target.startRow,
+    startCol: target.startCol,
+    endRow: target.startRow + snapshot.rows - 1,
+    endCol: target.startCol + snapshot.cols - 1
+  };
+}
+
+/**
+ * State with a snapshot painted over a target. Target cells take the source's format and
+ * validation, or lose theirs where the source has none; each rule covering part of the
+ * source gains a copy over the matching part of every tile.
+ */
+export function paintFormats<F, V>(
+  snapshot: FormatSnapshot<F, V>,
+  target: CellRange,
+  state: PaintableState<F, V>,
+  newRuleId: (index: number) => string
+): PaintableState<F, V> {
+  const area = paintArea(snapshot, target);
+  const formats = { ...state.formats };
+  const validations = { ...state.validations };
+
+  for (let row = area.startRow; row <= area.endRow; row++) {
+    for (let col = area.startCol; col <= area.endCol; col++) {
+      const r = (row - area.startRow) % snapshot.rows;
+      const c = (col - area.startCol) % snapshot.cols;
+      const key = toCellRef(row, col);
+      setOrDelete(formats, key, snapshot.formats[r][c]);
+      setOrDelete(validations, key, snapshot.validations[r][c]);
+    }
+  }
+
+  const rules = [...state.rules];
+  let copies = 0;
+  for (let tileRow = area.startRow; tileRow <= area.endRow; tileRow += snapshot.rows) {
+    for (let tileCol = area.startCol; tileCol <= area.endCol; tileCol += snapshot.cols) {
+      snapshot.rules.forEach(({ rule, area: covered }) => {
+        const painted = intersect({
+          startRow: tileRow + covered.startRow,
+          startCol: tileCol + covered.startCol,
+          endRow: tileRow + covered.endRow,
+          endCol: tileCol + covered.endCol
+        }, area);
+        if (!painted) return;
+        const range = rangeRef(painted);
+        if (rules.some(existing => sameRule(existing, rule) && existing.range === range)) return;
+        rules.push({ ...rule, id: newRuleId(copies++), range });
+      });
+    }
+  }
+  return { formats, validations, rules };
+}
+
+function setOrDelete<T>(entries: { [key: string]: T }, key: string, value: T | undefined) {
+  if (value === undefined) delete entries[key];
+  else entries[key] = value;
+}
+
+// Rules differing only in where they apply
+function sameRule(a: PaintableRule, b: PaintableRule): boolean {
+  const { id: _a, range: _ra, ...restA } = a;
+  const { id: _b, range: _rb, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+function intersect(a: CellRange, b: CellRange): CellRange | null {
+  const area = {
+    startRow: Math.max(a.startRow, b.startRow),
+    startCol: Math.max(a.startCol, b.startCol),
+    endRow: Math.min(a.endRow, b.endRow),
+    endCol: Math.min(a.endCol, b.endCol)
+  };
+  return area.startRow <= area.endRow && area.startCol <= area.endCol ? area : null;
+}
@@ -0,0 +1,189 @@
+/**
+ * Date Serials - Excel's 1900 date system, where dates are day counts from 1900-01-01 (serial 1)
+ * and times are fractions of a day (0.5 = noon)
+ *
+ * Excel treats 1900 as a leap year (a Lotus 1-2-3 compatibility quirk), so serial 60 is the
+ * non-existent 1900-02-29 and every later serial is one higher than the true day count.
+ */
+
+const MS_PER_DAY = 86400000;
+const SECONDS_PER_DAY = 86400;
+const SERIAL_BASE = Date.UTC(1899, 11, 31);
+/** Serial of the phantom 1900-02-29 */
+const LEAP_BUG_SERIAL = 60;
+/** Serial of 9999-12-31, the last date Excel supports */
+export const MAX_DATE_SERIAL = 2958465;
+
+/** How a date/time value is shown when no other number format applies */
+export type DateFormat = 'date' | 'time' | 'datetime';
+
+export interface CalendarDate {
+  year: number;
+  /** 1-based */
+  month: number;
+  day: number;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Serial number for a calendar date (month is 1-based; out of range months/days roll over).
+ * Days count on from the first of the month in Excel's calendar, so DATE(1900,2,29) is 60.
+ */
+export function dateToSerial(year: number, month: number, day: number): number {
+  const date = new Date(Date.UTC(2000, 0, 1));
+  date.setUTCFullYear(year, month - 1, 1);
+  const days = Math.round((date.getTime() - SERIAL_BASE) / MS_PER_DAY);
+  const firstOfMonth = days >= LEAP_BUG_SERIAL ? days + 1 : days;
+  return firstOfMonth + day - 1;
+}
+
+/**
+ * Calendar date of a serial; the time of day is ignored. Serial 0 is Excel's "1900-01-00".
+ */
+export function serialToDate(serial: number): CalendarDate {
+  const whole = Math.floor(serial);
+  if (whole === LEAP_BUG_SERIAL) return { year: 1900, month: 2, day: 29 };
+  if (whole === 0) return { year: 1900, month: 1, day: 0 };
+
+  const date = new Date(SERIAL_BASE + (whole > LEAP_BUG_SERIAL ? whole - 1 : whole) * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Days in a month of Excel's calendar (February 1900 has 29)
+ */
+export function daysInMonth(year: number, month: number): number {
+  return dateToSerial(year, month + 1, 1) - dateToSerial(year, month, 1);
+}
+
+/**
+ * Day of the week, 0 = Sunday. Serial 1 (1900-01-01) counts as a Sunday, as in Excel.
+ */
+export function dayOfWeek(serial: number): number {
+  return ((Math.floor(serial) - 1) % 7 + 7) % 7;
+}
+
+/**
+ * Fraction of a day for a time; hours, minutes and seconds roll over like Excel's TIME
+ */
+export function timeToSerial(hours: number, minutes: number, seconds: number): number {
+  const total = hours * 3600 + minutes * 60 + seconds;
+  return (total % SECONDS_PER_DAY) / SECONDS_PER_DAY;
+}
+
+/**
+ * Serial for a JavaScript date in local time, including the time of day
+ */
+export function jsDateToSerial(date: Date): number {
+  const day = dateToSerial(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  const seconds = date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds() + date.getMilliseconds() / 1000;
+  return day + seconds / SECONDS_PER_DAY;
+}
+
+/**
+ * Parse dates typed as text: ISO (2024-03-15), US style (3/15/2024) and month names
+ * (15-Mar-2024, March 15, 2024)
+ */
+export function parseDateText(text: string): number | null {
+  const trimmed = text.trim();
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return validDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    return validDate(fullYear(match[3]), Number(match[1]), Number(match[2]));
+  }
+
+  // 15-Mar-2024, 15 March 2024
+  match = trimmed.match(/^(\d{1,2})[-\s]([A-Za-z]+)[-\s](\d{2}|\d{4})$/);
+  if (match) {
+    const month = monthFromName(match[2]);
+    return month ? validDate(fullYear(match[3]), month, Number(match[1])) : null;
+  }
+
+  // Mar 15, 2024 / March 15 2024
+  match = trimmed.match(/^([A-Za-z]+)\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (match) {
+    const month = monthFromName(match[1]);
+    return month ? validDate(Number(match[3]), month, Number(match[2])) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse times typed as text (14:30, 2:30 PM, 14:30:15) to a fraction of a day
+ */
+export function parseTimeText(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = match[3] ? Number(match[3]) : 0;
+  if (minutes > 59 || seconds >= 60) return null;
+
+  if (match[4]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[4].toUpperCase() === 'PM' ? 12 : 0);
+  }
+  return (hours * 3600 + minutes * 60 + seconds) / SECONDS_PER_DAY;
+}
+
+/**
+ * Read a typed date, time, or date followed by a time ("3/15/2024 2:30 PM")
+ */
+export function readDateTime(text: string): { serial: number; format: DateFormat } | null {
+  const time = parseTimeText(text);
+  if (time !== null) return { serial: time, format: 'time' };
+
+  const date = parseDateText(text);
+  if (date !== null) return { serial: date, format: 'date' };
+
+  const match = text.trim().match(/^(.+?)\s+(\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[AP]M)?)$/i);
+  if (match) {
+    const day = parseDateText(match[1]);
+    const fraction = parseTimeText(match[2]);
+    if (day !== null && fraction !== null) return { serial: day + fraction, format: 'datetime' };
+  }
+  return null;
+}
+
+/**
+ * Show a serial the way Excel's default formats do: 3/15/2024, 2:30 PM or 3/15/2024 14:30
+ */
+export function formatSerial(serial: number, format: DateFormat): string {
+  const { year, month, day } = serialToDate(serial);
+  const seconds = Math.round((serial - Math.floor(serial)) * SECONDS_PER_DAY);
+  const hours = Math.floor(seconds / 3600) % 24;
+  const minutes = String(Math.floor((seconds % 3600) / 60)).padStart(2, '0');
+  const date = `${month}/${day}/${year}`;
+
+  if (format === 'date') return date;
+  if (format === 'datetime') return `${date} ${hours}:${minutes}`;
+  return `${hours % 12 || 12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+// Two-digit years follow Excel: 00-29 -> 2000s, 30-99 -> 1900s
+function fullYear(text: string): number {
+  const year = Number(text);
+  if (text.length !== 2) return year;
+  return year < 30 ? 2000 + year : 1900 + year;
+}
+
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase();
+  if (lower.length < 3) return null;
+  const index = MONTH_NAMES.findIndex(month => lower.startsWith(month));
+  return index === -1 ? null : index + 1;
+}
+
+function validDate(year: number, month: number, day: number): number | null {
+  if (month < 1 || month > 12 || day < 1 || year < 1900 || year > 9999) return null;
+  if (day > daysInMonth(year, month)) return null;
+  return dateToSerial(year, month, day);
+}
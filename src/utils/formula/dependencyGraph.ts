@@ -0,0 +1,192 @@
+/**
+ * Dependency Graph - Tracks which cells each formula reads (precedents) and which
+ * formulas read each cell (dependents), and plans the order of recalculation
+ */
+
+export interface RecalcStep {
+  /** Cells to evaluate in this step; more than one only for a reference cycle */
+  cells: string[];
+  /** Set when the step is a reference cycle, e.g. ["A1", "B1", "A1"] */
+  cyclePath?: string[];
+}
+
+export interface DependencyGraph {
+  /** Replace the cells a formula cell reads; pass an empty list for constants */
+  setPrecedents: (cellId: string, precedents: Iterable<string>) => void;
+  getPrecedents: (cellId: string) => string[];
+  getDependents: (cellId: string) => string[];
+  /**
+   * The changed cells plus every cell that depends on them, split into steps that
+   * can be evaluated in order (precedents always come before their dependents)
+   */
+  getRecalcPlan: (changed: Iterable<string>) => RecalcStep[];
+}
+
+export function createDependencyGraph(): DependencyGraph {
+  const precedents = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+
+  const setPrecedents = (cellId: string, cells: Iterable<string>) => {
+    const previous = precedents.get(cellId);
+    if (previous) {
+      previous.forEach(precedent => {
+        const set = dependents.get(precedent);
+        if (!set) return;
+        set.delete(cellId);
+        if (set.size === 0) dependents.delete(precedent);
+      });
+    }
+
+    const next = new Set(cells);
+    if (next.size === 0) {
+      precedents.delete(cellId);
+      return;
+    }
+
+    precedents.set(cellId, next);
+    next.forEach(precedent => {
+      let set = dependents.get(precedent);
+      if (!set) {
+        set = new Set();
+        dependents.set(precedent, set);
+      }
+      set.add(cellId);
+    });
+  };
+
+  const getRecalcPlan = (changed: Iterable<string>): RecalcStep[] => {
+    // Everything reachable through dependents needs recalculating
+    const affected = new Set<string>();
+    const queue: string[] = [];
+    for (const cellId of changed) {
+      if (!affected.has(cellId)) {
+        affected.add(cellId);
+        queue.push(cellId);
+      }
+    }
+    while (queue.length > 0) {
+      const cellId = queue.pop()!;
+      dependents.get(cellId)?.forEach(dependent => {
+        if (!affected.has(dependent)) {
+          affected.add(dependent);
+          queue.push(dependent);
+        }
+      });
+    }
+
+    // Only edges inside the affected set matter; other precedents are already up to date
+    const edges = (cellId: string): string[] => {
+      const set = precedents.get(cellId);
+      return set ? Array.from(set).filter(precedent => affected.has(precedent)) : [];
+    };
+
+    return findComponents(Array.from(affected), edges).map(cells => {
+      const selfReference = cells.length === 1 && precedents.get(cells[0])?.has(cells[0]);
+      if (cells.length === 1 && !selfReference) {
+        return { cells };
+      }
+      return { cells, cyclePath: findCyclePath(cells, edges) };
+    });
+  };
+
+  return {
+    setPrecedents,
+    getPrecedents: (cellId: string) => Array.from(precedents.get(cellId) || []),
+    getDependents: (cellId: string) => Array.from(dependents.get(cellId) || []),
+    getRecalcPlan
+  };
+}
+
+/**
+ * Tarjan's strongly connected components, written iteratively so long reference
+ * chains cannot overflow the stack. Components are emitted after everything they
+ * read, which is exactly the evaluation order.
+ */
+function findComponents(nodes: string[], edges: (node: string) => string[]): string[][] {
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const root of nodes) {
+    if (indices.has(root)) continue;
+
+    const work: { node: string; neighbors: string[]; next: number }[] = [];
+    const visit = (node: string) => {
+      indices.set(node, nextIndex);
+      lowlinks.set(node, nextIndex);
+      nextIndex++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, neighbors: edges(node), next: 0 });
+    };
+
+    visit(root);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (!indices.has(neighbor)) {
+          visit(neighbor);
+        } else if (onStack.has(neighbor)) {
+          lowlinks.set(frame.node, Math.min(lowlinks.get(frame.node)!, indices.get(neighbor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowlinks.set(parent, Math.min(lowlinks.get(parent)!, lowlinks.get(frame.node)!));
+      }
+
+      if (lowlinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Find one concrete loop through a cyclic component, starting and ending at its
+ * first cell (breadth-first, so the shortest loop is reported)
+ */
+function findCyclePath(cells: string[], edges: (node: string) => string[]): string[] {
+  const start = cells.slice().sort()[0];
+  const members = new Set(cells);
+  const parents = new Map<string, string>();
+  const queue = [start];
+
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    for (const neighbor of edges(node)) {
+      if (!members.has(neighbor)) continue;
+      if (neighbor === start) {
+        const path = [start];
+        for (let current = node; current !== start; current = parents.get(current)!) {
+          path.push(current);
+        }
+        path.push(start);
+        return [path[0], ...path.slice(1, -1).reverse(), start];
+      }
+      if (!parents.has(neighbor)) {
+        parents.set(neighbor, node);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return [...cells, start];
+}
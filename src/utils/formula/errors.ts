@@ -0,0 +1,114 @@
+/**
+ * Formula Errors - Excel error values and the exceptions raised while parsing or evaluating formulas
+ */
+
+/** Error values Excel can show in a cell, in ERROR.TYPE order */
+export const EXCEL_ERROR_CODES = [
+  '#NULL!',
+  '#DIV/0!',
+  '#VALUE!',
+  '#REF!',
+  '#NAME?',
+  '#NUM!',
+  '#N/A',
+  '#GETTING_DATA',
+  '#SPILL!',
+  '#CALC!'
+] as const;
+
+/**
+ * Every error code the engine produces. Besides Excel's own codes:
+ * #CIRC! marks cells in a reference cycle and #ERROR! marks formulas that do not parse.
+ */
+export type ErrorCode = typeof EXCEL_ERROR_CODES[number] | '#CIRC!' | '#ERROR!';
+
+/** ERROR.TYPE numbers; #SPILL! and #CALC! use the numbers Excel assigned when they were added */
+export const ERROR_TYPE_NUMBERS: Partial<Record<ErrorCode, number>> = {
+  '#NULL!': 1,
+  '#DIV/0!': 2,
+  '#VALUE!': 3,
+  '#REF!': 4,
+  '#NAME?': 5,
+  '#NUM!': 6,
+  '#N/A': 7,
+  '#GETTING_DATA': 8,
+  '#SPILL!': 9,
+  '#CALC!': 14
+};
+
+/**
+ * An error as a value: stored in cells and ranges and passed through operators and functions
+ */
+export class ErrorValue {
+  readonly code: ErrorCode;
+  /** Human readable detail, e.g. which function failed */
+  readonly message?: string;
+
+  constructor(code: ErrorCode, message?: string) {
+    this.code = code;
+    this.message = message;
+  }
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+export function isErrorValue(value: unknown): value is ErrorValue {
+  return value instanceof ErrorValue;
+}
+
+/**
+ * Recognize an error code typed as text ("#n/a" -> "#N/A")
+ */
+export function parseErrorCode(text: string): ErrorCode | null {
+  const upper = text.trim().toUpperCase();
+  return (EXCEL_ERROR_CODES as readonly string[]).includes(upper) ? (upper as ErrorCode) : null;
+}
+
+/**
+ * Raised when formula text cannot be tokenized or parsed
+ */
+export class FormulaSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+/**
+ * Raised during evaluation to abandon the current calculation; the evaluator turns it
+ * into an ErrorValue carrying the same `code` (e.g. "#DIV/0!")
+ */
+export class FormulaError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message?: string) {
+    super(message || code);
+    this.name = 'FormulaError';
+    this.code = code;
+  }
+}
+
+/**
+ * Raised for cells that take part in a reference cycle; `path` lists the cells in order,
+ * ending with the cell the cycle started from (A1 -> B1 -> A1)
+ */
+export class CircularReferenceError extends FormulaError {
+  readonly path: string[];
+
+  constructor(path: string[]) {
+    super('#CIRC!', `Circular reference: ${path.join(' -> ')}`);
+    this.name = 'CircularReferenceError';
+    this.path = path;
+  }
+}
+
+/**
+ * Convert anything thrown during parsing/evaluation into the error value shown in the cell
+ */
+export function toErrorValue(error: unknown): ErrorValue {
+  if (error instanceof FormulaError) return new ErrorValue(error.code, error.message);
+  if (error instanceof Error) return new ErrorValue('#ERROR!', error.message);
+  return new ErrorValue('#ERROR!');
+}
@@ -0,0 +1,420 @@
+/**
+ * Formula Evaluator - Walks the AST and computes a value using the function registry
+ */
+
+import { ASTNode } from './parser';
+import { ErrorValue, FormulaError, isErrorValue } from './errors';
+import { MAX_COLUMNS, MAX_ROWS, normalizeRange, toCellRef } from './references';
+import { getFunction, FunctionContext } from './functions/registry';
+import { checkNumber } from './functions/helpers';
+import {
+  ArrayValue,
+  FormulaValue,
+  LambdaValue,
+  ScalarValue,
+  compareValues,
+  isArrayValue,
+  isLambdaValue,
+  toNumber,
+  toText
+} from './values';
+
+/** How deeply LAMBDA calls may nest, so that runaway recursion fails with #NUM! */
+export const MAX_LAMBDA_DEPTH = 256;
+
+export interface FormulaContext {
+  /** Resolve a cell reference (e.g. "B2") to its evaluated value; error cells return their ErrorValue */
+  getCellValue: (cellId: string) => ScalarValue;
+  /** Range currently filled by the dynamic array anchored at a cell (for A1# references) */
+  getSpillRange?: (cellId: string) => { start: string; end: string } | null;
+  /** Context of another sheet named in a reference ('Q1 Data'!B2); null when there is no such sheet */
+  getSheetContext?: (sheetName: string) => FormulaContext | null;
+  /** Parsed definition of a defined name visible from this sheet; null when the name is not defined */
+  resolveName?: (name: string) => ASTNode | null;
+  /** Rows and columns in use, so whole-column (A:A) and whole-row (3:3) ranges stop at the data */
+  getUsedRange?: () => { rows: number; cols: number };
+  /** Whether a row (0-based) is hidden by a filter; SUBTOTAL and AGGREGATE leave such rows out */
+  isRowHidden?: (row: number) => boolean;
+  /** Whether a cell holds a SUBTOTAL or AGGREGATE formula, which enclosing subtotals skip */
+  isSubtotalCell?: (cellId: string) => boolean;
+  /** Value of a LET variable or LAMBDA parameter in scope; undefined when the name is not bound */
+  getLocal?: (name: string) => FormulaValue | undefined;
+}
+
+/**
+ * Evaluate an AST node. Cell references yield scalars, ranges yield 2D arrays.
+ * Failures come back as ErrorValues (#DIV/0!, #N/A, ...) rather than being thrown.
+ */
+export function evaluateNode(node: ASTNode, context: FormulaContext): FormulaValue {
+  try {
+    return evaluateExpression(node, context);
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return new ErrorValue(error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+function evaluateExpression(node: ASTNode, context: FormulaContext): FormulaValue {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'error':
+      return new ErrorValue(node.code);
+
+    case 'empty':
+      return null;
+
+    case 'array':
+      return node.rows.map(row => row.map(item => evaluateExpression(item, context) as ScalarValue));
+
+    case 'cell':
+      return sheetContext(node.sheet, context).getCellValue(node.cellId);
+
+    case 'range':
+      return evaluateRange(node.start, node.end, sheetContext(node.sheet, context));
+
+    case 'spill': {
+      const target = sheetContext(node.sheet, context);
+      const spill = target.getSpillRange?.(node.cellId);
+      if (!spill) {
+        throw new FormulaError('#REF!', `${node.cellId} does not contain a spilled array`);
+      }
+      return evaluateRange(spill.start, spill.end, target);
+    }
+
+    case 'name': {
+      const local = node.sheet ? undefined : context.getLocal?.(node.name);
+      return local !== undefined ? local : evaluateName(node.name, node.sheet, context, evaluateExpression);
+    }
+
+    case 'unary':
+      return evaluateUnary(node, context);
+
+    case 'binary':
+      return evaluateBinary(node, context);
+
+    case 'function':
+      return evaluateFunction(node, context);
+
+    case 'call': {
+      const callee = evaluateNode(node.callee, context);
+      if (!isLambdaValue(callee)) {
+        if (isErrorValue(callee)) return callee;
+        throw new FormulaError('#VALUE!', 'Only a LAMBDA can be called');
+      }
+      return callLambda(callee, node.args.map(arg => evaluateNode(arg, context)));
+    }
+
+    default:
+      throw new FormulaError('#ERROR!', 'Unknown node type');
+  }
+}
+
+/**
+ * Evaluate a function argument. A single cell is passed as a 1x1 range so that
+ * functions can tell references apart from typed values (SUM ignores text in cells).
+ */
+function evaluateArgument(node: ASTNode, context: FormulaContext): FormulaValue {
+  if (node.type === 'cell') {
+    return [[sheetContext(node.sheet, context).getCellValue(node.cellId)]];
+  }
+  if (node.type === 'name') {
+    const local = node.sheet ? undefined : context.getLocal?.(node.name);
+    if (local !== undefined) return local;
+    try {
+      return evaluateName(node.name, node.sheet, context, evaluateArgument);
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return new ErrorValue(error.code, error.message);
+      }
+      throw error;
+    }
+  }
+  return evaluateNode(node, context);
+}
+
+/** Names being evaluated, so that a name defined in terms of itself fails instead of recursing */
+const namesInProgress: string[] = [];
+
+/**
+ * Evaluate a defined name's definition in the sheet it is used from (or the sheet it is qualified with)
+ */
+function evaluateName(
+  name: string,
+  sheet: string | undefined,
+  context: FormulaContext,
+  evaluate: (node: ASTNode, context: FormulaContext) => FormulaValue
+): FormulaValue {
+  const scope = sheetContext(sheet, context);
+  const definition = scope.resolveName?.(name);
+  if (!definition) {
+    throw new FormulaError('#NAME?', `Unknown name: ${name}`);
+  }
+  if (namesInProgress.includes(name)) {
+    throw new FormulaError('#NAME?', `Name ${name} refers to itself`);
+  }
+
+  namesInProgress.push(name);
+  try {
+    return evaluate(definition, scope);
+  } finally {
+    namesInProgress.pop();
+  }
+}
+
+/**
+ * Context in which the given names are bound to values, shadowing any bound further out
+ */
+export function bindLocals(context: FormulaContext, bindings: Map<string, FormulaValue>): FormulaContext {
+  return {
+    ...context,
+    getLocal: name => (bindings.has(name) ? bindings.get(name) : context.getLocal?.(name))
+  };
+}
+
+let lambdaDepth = 0;
+
+/**
+ * Run a LAMBDA's body with its parameters bound to the arguments, in the scope it was created in
+ */
+export function callLambda(lambda: LambdaValue, args: FormulaValue[]): FormulaValue {
+  if (args.length !== lambda.params.length) {
+    throw new FormulaError('#VALUE!', `LAMBDA expects ${lambda.params.length} argument(s) but got ${args.length}`);
+  }
+  if (lambdaDepth >= MAX_LAMBDA_DEPTH) {
+    throw new FormulaError('#NUM!', 'LAMBDA calls are nested too deeply');
+  }
+
+  const bindings = new Map(lambda.params.map((param, i) => [param, args[i]]));
+  lambdaDepth++;
+  try {
+    return evaluateNode(lambda.body, bindLocals(lambda.context, bindings));
+  } finally {
+    lambdaDepth--;
+  }
+}
+
+/**
+ * The LAMBDA a call to a name other than a built-in function refers to: a LET variable or
+ * parameter holding one, or a defined name such as MARGIN = LAMBDA(price, cost, ...)
+ */
+function resolveLambda(name: string, context: FormulaContext): LambdaValue | null {
+  const local = context.getLocal?.(name);
+  if (isLambdaValue(local)) return local;
+  if (getFunction(name)) return null;
+  if (!context.resolveName?.(name)) {
+    throw new FormulaError('#NAME?', `Unknown function: ${name}`);
+  }
+
+  const value = evaluateName(name, undefined, context, evaluateExpression);
+  if (!isLambdaValue(value)) {
+    throw new FormulaError('#VALUE!', `${name} is not a LAMBDA`);
+  }
+  return value;
+}
+
+function functionContext(context: FormulaContext): FunctionContext {
+  return {
+    context,
+    evaluate: (arg: ASTNode) => evaluateNode(arg, context),
+    withLocals: bindings => functionContext(bindLocals(context, bindings)),
+    callLambda
+  };
+}
+
+/**
+ * Context that a sheet-qualified reference reads from; unqualified references use the current sheet
+ */
+function sheetContext(sheet: string | undefined, context: FormulaContext): FormulaContext {
+  if (!sheet) return context;
+  const target = context.getSheetContext?.(sheet);
+  if (!target) {
+    throw new FormulaError('#REF!', `Unknown sheet: ${sheet}`);
+  }
+  return target;
+}
+
+function evaluateRange(start: string, end: string, context: FormulaContext): ArrayValue {
+  const bounds = normalizeRange(start, end);
+  if (!bounds) {
+    throw new FormulaError('#REF!', `Invalid range ${start}:${end}`);
+  }
+
+  // Whole columns and rows would be a million cells; read only as far as the data goes
+  const used = context.getUsedRange?.();
+  if (used && bounds.start.row === 0 && bounds.end.row === MAX_ROWS - 1) {
+    bounds.end.row = Math.max(0, used.rows - 1);
+  }
+  if (used && bounds.start.col === 0 && bounds.end.col === MAX_COLUMNS - 1) {
+    bounds.end.col = Math.max(0, used.cols - 1);
+  }
+
+  const rows: ArrayValue = [];
+  for (let row = bounds.start.row; row <= bounds.end.row; row++) {
+    const values: ScalarValue[] = [];
+    for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+      values.push(context.getCellValue(toCellRef(row, col)));
+    }
+    rows.push(values);
+  }
+  return rows;
+}
+
+/**
+ * Apply an operator to every element of an array (or to a scalar). Errors raised for one
+ * element become that element's value instead of failing the whole array.
+ */
+function mapValues(value: FormulaValue, apply: (item: ScalarValue) => ScalarValue): FormulaValue {
+  if (!isArrayValue(value)) return apply(value);
+  return value.map(row => row.map(item => applySafely(() => apply(item))));
+}
+
+/**
+ * Combine two operands element by element, as Excel's dynamic arrays do. A single row or
+ * column is repeated to match the other operand; positions outside a smaller array are #N/A.
+ */
+function broadcast(
+  left: FormulaValue,
+  right: FormulaValue,
+  apply: (a: ScalarValue, b: ScalarValue) => ScalarValue
+): FormulaValue {
+  if (!isArrayValue(left) && !isArrayValue(right)) return apply(left, right);
+
+  const a = isArrayValue(left) ? left : [[left]];
+  const b = isArrayValue(right) ? right : [[right]];
+  const rows = Math.max(a.length, b.length);
+  const cols = Math.max(a[0].length, b[0].length);
+  const pick = (array: ArrayValue, row: number, col: number): ScalarValue | undefined =>
+    array[array.length === 1 ? 0 : row]?.[array[0].length === 1 ? 0 : col];
+
+  const result: ArrayValue = [];
+  for (let row = 0; row < rows; row++) {
+    const values: ScalarValue[] = [];
+    for (let col = 0; col < cols; col++) {
+      const x = pick(a, row, col);
+      const y = pick(b, row, col);
+      values.push(x === undefined || y === undefined
+        ? new ErrorValue('#N/A', 'Arrays are different sizes')
+        : applySafely(() => apply(x, y)));
+    }
+    result.push(values);
+  }
+  return result;
+}
+
+function applySafely(apply: () => ScalarValue): ScalarValue {
+  try {
+    return apply();
+  } catch (error) {
+    if (error instanceof FormulaError) return new ErrorValue(error.code, error.message);
+    throw error;
+  }
+}
+
+function evaluateUnary(node: Extract<ASTNode, { type: 'unary' }>, context: FormulaContext): FormulaValue {
+  return mapValues(evaluateNode(node.operand, context), operand => applyUnary(node.operator, operand));
+}
+
+function applyUnary(operator: string, operand: ScalarValue): ScalarValue {
+  if (isErrorValue(operand)) return operand;
+
+  switch (operator) {
+    case '-':
+      return -toNumber(operand);
+    case '+':
+      return operand;
+    case '%':
+      return toNumber(operand) / 100;
+    default:
+      throw new FormulaError('#ERROR!', `Unknown operator: ${operator}`);
+  }
+}
+
+function evaluateBinary(node: Extract<ASTNode, { type: 'binary' }>, context: FormulaContext): FormulaValue {
+  const left = evaluateNode(node.left, context);
+  const right = evaluateNode(node.right, context);
+  return broadcast(left, right, (a, b) => applyBinary(node.operator, a, b));
+}
+
+function applyBinary(operator: string, left: ScalarValue, right: ScalarValue): ScalarValue {
+  // Errors propagate, the left operand's first
+  if (isErrorValue(left)) return left;
+  if (isErrorValue(right)) return right;
+
+  switch (operator) {
+    case '+':
+      return checkNumber(toNumber(left) + toNumber(right));
+    case '-':
+      return checkNumber(toNumber(left) - toNumber(right));
+    case '*':
+      return checkNumber(toNumber(left) * toNumber(right));
+    case '/': {
+      const divisor = toNumber(right);
+      if (divisor === 0) {
+        throw new FormulaError('#DIV/0!', 'Division by zero');
+      }
+      return checkNumber(toNumber(left) / divisor);
+    }
+    case '^':
+      return checkNumber(Math.pow(toNumber(left), toNumber(right)));
+    case '&':
+      return toText(left) + toText(right);
+    case '=':
+      return compareValues(left, right) === 0;
+    case '<>':
+      return compareValues(left, right) !== 0;
+    case '<':
+      return compareValues(left, right) < 0;
+    case '>':
+      return compareValues(left, right) > 0;
+    case '<=':
+      return compareValues(left, right) <= 0;
+    case '>=':
+      return compareValues(left, right) >= 0;
+    default:
+      throw new FormulaError('#ERROR!', `Unknown operator: ${operator}`);
+  }
+}
+
+/**
+ * The error a function should return without running: the first argument that is an
+ * error value, either typed directly or read from a single cell
+ */
+function findArgumentError(args: FormulaValue[], nodes: ASTNode[]): ErrorValue | null {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const scalar = isArrayValue(arg) ? (nodes[i].type === 'cell' ? arg[0][0] : null) : arg;
+    if (isErrorValue(scalar)) return scalar;
+  }
+  return null;
+}
+
+function evaluateFunction(node: Extract<ASTNode, { type: 'function' }>, context: FormulaContext): FormulaValue {
+  const lambda = resolveLambda(node.name, context);
+  if (lambda) {
+    return callLambda(lambda, node.args.map(arg => evaluateNode(arg, context)));
+  }
+  const definition = getFunction(node.name)!;
+
+  const argCount = node.args.length;
+  if (argCount < definition.minArgs || (definition.maxArgs !== undefined && argCount > definition.maxArgs)) {
+    throw new FormulaError('#VALUE!', `Wrong number of arguments to ${node.name}`);
+  }
+
+  const ctx = functionContext(context);
+
+  if (definition.lazy) {
+    return definition.evaluate(node.args, ctx);
+  }
+  const args = node.args.map(arg => evaluateArgument(arg, context));
+  if (!definition.acceptsErrors) {
+    const error = findArgumentError(args, node.args);
+    if (error) return error;
+  }
+  return definition.evaluate(args, ctx);
+}
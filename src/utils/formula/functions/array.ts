@@ -0,0 +1,215 @@
+/**
+ * Dynamic Array Functions - Functions that return whole arrays which spill into neighbouring cells
+ */
+
+import type { FunctionDefinition } from './registry';
+import { FormulaError } from '../errors';
+import { MAX_COLUMNS, MAX_ROWS } from '../references';
+import { ArrayValue, FormulaValue, ScalarValue, compareValues, toBoolean, toNumber } from '../values';
+import { optional, toArray } from './helpers';
+
+function transpose(array: ArrayValue): ArrayValue {
+  return array[0].map((_, col) => array.map(row => row[col]));
+}
+
+/**
+ * Validate the dimensions of a generated array (SEQUENCE, RANDARRAY)
+ */
+function arraySize(rowsArg: FormulaValue | undefined, colsArg: FormulaValue | undefined): [number, number] {
+  const rows = Math.trunc(optional(rowsArg, 1, toNumber));
+  const cols = Math.trunc(optional(colsArg, 1, toNumber));
+  if (rows < 1 || cols < 1) {
+    throw new FormulaError('#CALC!', 'Array dimensions must be at least 1');
+  }
+  if (rows > MAX_ROWS || cols > MAX_COLUMNS) {
+    throw new FormulaError('#NUM!', 'Array is larger than the sheet');
+  }
+  return [rows, cols];
+}
+
+/**
+ * Compare two rows (or columns) key by key for sorting
+ */
+function compareKeys(a: ScalarValue[], b: ScalarValue[], orders: number[]): number {
+  for (let i = 0; i < orders.length; i++) {
+    const comparison = compareSortValues(a[i], b[i]);
+    if (comparison !== 0) return comparison * orders[i];
+  }
+  return 0;
+}
+
+/**
+ * Sort comparison where blanks always go last
+ */
+function compareSortValues(a: ScalarValue, b: ScalarValue): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return compareValues(a, b);
+}
+
+function readOrder(value: FormulaValue | undefined): number {
+  const order = optional(value, 1, toNumber);
+  if (order !== 1 && order !== -1) {
+    throw new FormulaError('#VALUE!', 'Sort order must be 1 or -1');
+  }
+  return order;
+}
+
+/**
+ * Rows of the array keyed for comparison: values compared case-insensitively, like Excel
+ */
+function rowKey(row: ScalarValue[]): string {
+  return JSON.stringify(row.map(value => (typeof value === 'string' ? value.toLowerCase() : value)));
+}
+
+export const arrayFunctions: Record<string, FunctionDefinition> = {
+  FILTER: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([arrayArg, includeArg, ifEmpty]: FormulaValue[]) => {
+      const array = toArray(arrayArg);
+      const include = toArray(includeArg);
+
+      let result: ArrayValue;
+      if (include[0].length === 1 && include.length === array.length) {
+        result = array.filter((_, row) => toBoolean(include[row][0]));
+      } else if (include.length === 1 && include[0].length === array[0].length) {
+        const columns = include[0].map(toBoolean);
+        result = array.map(row => row.filter((_, col) => columns[col]));
+        if (result[0].length === 0) result = [];
+      } else {
+        throw new FormulaError('#VALUE!', 'FILTER include must match the array height or width');
+      }
+
+      if (result.length === 0) {
+        if (ifEmpty !== undefined && ifEmpty !== null) return ifEmpty;
+        throw new FormulaError('#CALC!', 'FILTER returned no results');
+      }
+      return result;
+    }
+  },
+
+  SORT: {
+    minArgs: 1,
+    maxArgs: 4,
+    evaluate: ([arrayArg, indexArg, orderArg, byColArg]: FormulaValue[]) => {
+      const byCol = optional(byColArg, false, toBoolean);
+      const array = byCol ? transpose(toArray(arrayArg)) : toArray(arrayArg);
+      const index = Math.trunc(optional(indexArg, 1, toNumber));
+      const order = readOrder(orderArg);
+
+      if (index < 1 || index > array[0].length) {
+        throw new FormulaError('#VALUE!', 'Sort index is outside the array');
+      }
+
+      const sorted = array.slice().sort((a, b) => compareKeys([a[index - 1]], [b[index - 1]], [order]));
+      return byCol ? transpose(sorted) : sorted;
+    }
+  },
+
+  SORTBY: {
+    minArgs: 2,
+    evaluate: ([arrayArg, ...pairs]: FormulaValue[]) => {
+      const array = toArray(arrayArg);
+      const keys: ScalarValue[][] = [];
+      const orders: number[] = [];
+      let byCol: boolean | null = null;
+
+      for (let i = 0; i < pairs.length; i += 2) {
+        const by = toArray(pairs[i]);
+        const vertical = by[0].length === 1 && by.length === array.length;
+        const horizontal = by.length === 1 && by[0].length === array[0].length;
+        if (!vertical && !horizontal) {
+          throw new FormulaError('#VALUE!', 'SORTBY arrays must match the array height or width');
+        }
+        // A 1x1 array with a 1x1 key is ambiguous; treat it as sorting rows
+        const columnwise = !vertical;
+        if (byCol !== null && byCol !== columnwise) {
+          throw new FormulaError('#VALUE!', 'SORTBY arrays must all be rows or all be columns');
+        }
+        byCol = columnwise;
+        keys.push(columnwise ? by[0] : by.map(row => row[0]));
+        orders.push(readOrder(pairs[i + 1]));
+      }
+
+      const lines = byCol ? transpose(array) : array;
+      const positions = lines.map((_, i) => i);
+      positions.sort((a, b) =>
+        compareKeys(keys.map(key => key[a]), keys.map(key => key[b]), orders) || a - b
+      );
+      const sorted = positions.map(i => lines[i]);
+      return byCol ? transpose(sorted) : sorted;
+    }
+  },
+
+  UNIQUE: {
+    minArgs: 1,
+    maxArgs: 3,
+    evaluate: ([arrayArg, byColArg, exactlyOnceArg]: FormulaValue[]) => {
+      const byCol = optional(byColArg, false, toBoolean);
+      const exactlyOnce = optional(exactlyOnceArg, false, toBoolean);
+      const lines = byCol ? transpose(toArray(arrayArg)) : toArray(arrayArg);
+
+      const counts = new Map<string, number>();
+      lines.forEach(line => {
+        const key = rowKey(line);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+
+      const seen = new Set<string>();
+      const result = lines.filter(line => {
+        const key = rowKey(line);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return !exactlyOnce || counts.get(key) === 1;
+      });
+
+      if (result.length === 0) {
+        throw new FormulaError('#CALC!', 'UNIQUE returned no results');
+      }
+      return byCol ? transpose(result) : result;
+    }
+  },
+
+  SEQUENCE: {
+    minArgs: 1,
+    maxArgs: 4,
+    evaluate: ([rowsArg, colsArg, startArg, stepArg]: FormulaValue[]) => {
+      const [rows, cols] = arraySize(rowsArg, colsArg);
+      const start = optional(startArg, 1, toNumber);
+      const step = optional(stepArg, 1, toNumber);
+      return Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: cols }, (_, col) => start + (row * cols + col) * step)
+      );
+    }
+  },
+
+  RANDARRAY: {
+    minArgs: 0,
+    maxArgs: 5,
+    volatile: true,
+    evaluate: ([rowsArg, colsArg, minArg, maxArg, integerArg]: FormulaValue[]) => {
+      const [rows, cols] = arraySize(rowsArg, colsArg);
+      const min = optional(minArg, 0, toNumber);
+      const max = optional(maxArg, 1, toNumber);
+      const integer = optional(integerArg, false, toBoolean);
+
+      if (min > max) {
+        throw new FormulaError('#VALUE!', 'RANDARRAY min must not exceed max');
+      }
+      if (integer && (!Number.isInteger(min) || !Number.isInteger(max))) {
+        throw new FormulaError('#VALUE!', 'RANDARRAY bounds must be whole numbers for integer results');
+      }
+
+      const next = integer
+        ? () => min + Math.floor(Math.random() * (max - min + 1))
+        : () => min + Math.random() * (max - min);
+      return Array.from({ length: rows }, () => Array.from({ length: cols }, next));
+    }
+  },
+
+  TRANSPOSE: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([arrayArg]: FormulaValue[]) => transpose(toArray(arrayArg))
+  }
+};
@@ -0,0 +1,131 @@
+/**
+ * Conditional Aggregation - SUMIF(S), COUNTIF(S), AVERAGEIF(S), MAXIFS and MINIFS
+ */
+
+import type { FunctionDefinition } from './registry';
+import { FormulaError } from '../errors';
+import { ArrayValue, FormulaValue, ScalarValue, assertNotError } from '../values';
+import { toArray } from './helpers';
+import { createCriteriaMatcher, CriteriaMatcher } from './criteria';
+
+/**
+ * Positions ([row, col]) of the cells that satisfy every range/criteria pair.
+ * All criteria ranges must have the same shape as the first one.
+ */
+function matchingPositions(pairs: FormulaValue[]): [number, number][] {
+  if (pairs.length === 0 || pairs.length % 2 !== 0) {
+    throw new FormulaError('#VALUE!', 'Expected range/criteria pairs');
+  }
+
+  const ranges: ArrayValue[] = [];
+  const matchers: CriteriaMatcher[] = [];
+  for (let i = 0; i < pairs.length; i += 2) {
+    ranges.push(toArray(pairs[i]));
+    matchers.push(createCriteriaMatcher(pairs[i + 1]));
+  }
+
+  const [first] = ranges;
+  const height = first.length;
+  const width = first[0].length;
+  if (ranges.some(range => range.length !== height || range[0].length !== width)) {
+    throw new FormulaError('#VALUE!', 'Criteria ranges must be the same size');
+  }
+
+  const positions: [number, number][] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (matchers.every((matches, i) => matches(ranges[i][row][col]))) {
+        positions.push([row, col]);
+      }
+    }
+  }
+  return positions;
+}
+
+/**
+ * Numbers from the value range at the matching positions; text and blanks are skipped
+ */
+function matchingNumbers(valueArg: FormulaValue, positions: [number, number][], sameShapeAs?: FormulaValue): number[] {
+  const values = toArray(valueArg);
+  if (sameShapeAs !== undefined) {
+    const shape = toArray(sameShapeAs);
+    if (values.length !== shape.length || values[0].length !== shape[0].length) {
+      throw new FormulaError('#VALUE!', 'Value range must be the same size as the criteria ranges');
+    }
+  }
+
+  const numbers: number[] = [];
+  positions.forEach(([row, col]) => {
+    const value: ScalarValue = values[row]?.[col] ?? null;
+    assertNotError(value);
+    if (typeof value === 'number') numbers.push(value);
+  });
+  return numbers;
+}
+
+function sum(numbers: number[]): number {
+  return numbers.reduce((total, n) => total + n, 0);
+}
+
+function average(numbers: number[]): number {
+  if (numbers.length === 0) {
+    throw new FormulaError('#DIV/0!', 'No cells match the criteria');
+  }
+  return sum(numbers) / numbers.length;
+}
+
+export const conditionalFunctions: Record<string, FunctionDefinition> = {
+  COUNTIF: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: (args: FormulaValue[]) => matchingPositions(args).length
+  },
+
+  COUNTIFS: {
+    minArgs: 2,
+    evaluate: (args: FormulaValue[]) => matchingPositions(args).length
+  },
+
+  // SUMIF(range, criteria, [sum_range]) - sums the criteria range itself when sum_range is omitted
+  SUMIF: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([range, criteria, sumRange]: FormulaValue[]) =>
+      sum(matchingNumbers(sumRange ?? range, matchingPositions([range, criteria])))
+  },
+
+  SUMIFS: {
+    minArgs: 3,
+    evaluate: ([sumRange, ...pairs]: FormulaValue[]) =>
+      sum(matchingNumbers(sumRange, matchingPositions(pairs), pairs[0]))
+  },
+
+  AVERAGEIF: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([range, criteria, averageRange]: FormulaValue[]) =>
+      average(matchingNumbers(averageRange ?? range, matchingPositions([range, criteria])))
+  },
+
+  AVERAGEIFS: {
+    minArgs: 3,
+    evaluate: ([averageRange, ...pairs]: FormulaValue[]) =>
+      average(matchingNumbers(averageRange, matchingPositions(pairs), pairs[0]))
+  },
+
+  MAXIFS: {
+    minArgs: 3,
+    evaluate: ([maxRange, ...pairs]: FormulaValue[]) => {
+      const numbers = matchingNumbers(maxRange, matchingPositions(pairs), pairs[0]);
+      return numbers.reduce((max, n) => Math.max(max, n), numbers.length > 0 ? -Infinity : 0);
+    }
+  },
+
+  MINIFS: {
+    minArgs: 3,
+    evaluate: ([minRange, ...pairs]: FormulaValue[]) => {
+      const numbers = matchingNumbers(minRange, matchingPositions(pairs), pairs[0]);
+      return numbers.reduce((min, n) => Math.min(min, n), numbers.length > 0 ? Infinity : 0);
+    }
+  }
+};
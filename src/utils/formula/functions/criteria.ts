@@ -0,0 +1,92 @@
+/**
+ * Criteria Matching - Excel criteria strings (">=100", "<>Closed", "A*", "") used by
+ * COUNTIF, SUMIFS and the other conditional aggregations
+ */
+
+import { isErrorValue, parseErrorCode } from '../errors';
+import { FormulaValue, ScalarValue, compareValues, parseCellInput, toScalar } from '../values';
+import { escapeRegExp, wildcardPattern } from './helpers';
+
+export type CriteriaMatcher = (value: ScalarValue) => boolean;
+
+const OPERATOR_PATTERN = /^(<=|>=|<>|=|<|>)?([\s\S]*)$/;
+
+/**
+ * Read a criteria operand as a number, understanding typed dates ("3/15/2024")
+ */
+function criteriaNumber(value: ScalarValue): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = parseCellInput(value);
+    return typeof parsed === 'number' ? parsed : null;
+  }
+  return null;
+}
+
+function applyOperator(operator: string, comparison: number): boolean {
+  switch (operator) {
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+    case '<>': return comparison !== 0;
+    default: return comparison === 0;
+  }
+}
+
+/**
+ * Compile a criteria argument into a predicate over cell values
+ */
+export function createCriteriaMatcher(criteriaArg: FormulaValue): CriteriaMatcher {
+  const criteria = toScalar(criteriaArg);
+
+  // Numbers, booleans and blanks typed directly are plain equality tests
+  if (typeof criteria !== 'string') {
+    if (criteria === null) return value => value === null || value === '';
+    return value => {
+      if (typeof criteria === 'number') return criteriaNumber(value) === criteria;
+      return value !== null && compareValues(value, criteria) === 0;
+    };
+  }
+
+  const [, operator = '', operand] = criteria.match(OPERATOR_PATTERN)!;
+
+  // "=" matches blank cells, "<>" matches anything that is not blank
+  if (operand === '') {
+    if (operator === '<>') return value => value !== null && value !== '';
+    if (operator === '' || operator === '=') return value => value === null || value === '';
+    return () => false;
+  }
+
+  const errorCode = parseErrorCode(operand);
+  if (errorCode) {
+    return value => applyOperator(operator === '<>' ? '<>' : '=', isErrorValue(value) && value.code === errorCode ? 0 : 1);
+  }
+
+  const number = criteriaNumber(operand);
+  if (number !== null) {
+    return value => {
+      if (isErrorValue(value)) return false;
+      const cellNumber = criteriaNumber(value);
+      if (cellNumber === null) {
+        // Non-numeric cells never satisfy a numeric comparison, but are "not equal" to it
+        return operator === '<>';
+      }
+      return applyOperator(operator, compareValues(cellNumber, number));
+    };
+  }
+
+  const upper = operand.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    const flag = upper === 'TRUE';
+    return value => typeof value === 'boolean' ? applyOperator(operator, compareValues(value, flag)) : operator === '<>';
+  }
+
+  // Text: equality supports wildcards, other operators compare alphabetically
+  if (operator === '' || operator === '=' || operator === '<>') {
+    const pattern = wildcardPattern(operand) || new RegExp(`^${escapeRegExp(operand)}$`, 'i');
+    const matches = (value: ScalarValue) => typeof value === 'string' && pattern.test(value);
+    return operator === '<>' ? value => !matches(value) : matches;
+  }
+  return value => typeof value === 'string' && applyOperator(operator, compareValues(value, operand));
+}
@@ -0,0 +1,362 @@
+/**
+ * Date Functions - Date and time arithmetic on Excel serial numbers (see ../dates)
+ */
+
+import type { FunctionDefinition } from './registry';
+import { FormulaError } from '../errors';
+import {
+  MAX_DATE_SERIAL,
+  dateToSerial,
+  dayOfWeek,
+  daysInMonth,
+  jsDateToSerial,
+  readDateTime,
+  serialToDate,
+  timeToSerial
+} from '../dates';
+import { FormulaValue, toNumber, toScalar } from '../values';
+import { flattenValues, optional } from './helpers';
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Read a date argument (a serial or date text) as a whole day serial
+ */
+function toSerial(value: FormulaValue): number {
+  const serial = Math.floor(toNumber(value));
+  if (serial < 0 || serial > MAX_DATE_SERIAL) {
+    throw new FormulaError('#NUM!', 'Date is outside the supported range');
+  }
+  return serial;
+}
+
+function checkSerial(serial: number): number {
+  if (serial < 0 || serial > MAX_DATE_SERIAL) {
+    throw new FormulaError('#NUM!', 'Result is outside the supported date range');
+  }
+  return serial;
+}
+
+/**
+ * Seconds past midnight of a serial, rounded to the nearest second
+ */
+function secondsOfDay(value: FormulaValue): number {
+  const serial = toNumber(value);
+  if (serial < 0) {
+    throw new FormulaError('#NUM!', 'Time must not be negative');
+  }
+  return Math.round((serial - Math.floor(serial)) * SECONDS_PER_DAY) % SECONDS_PER_DAY;
+}
+
+/**
+ * Which days of the week (0 = Sunday) are weekend days. Accepts NETWORKDAYS.INTL codes:
+ * 1-7 for two-day weekends (1 = Saturday/Sunday), 11-17 for single days (11 = Sunday),
+ * or a seven character mask from Monday to Sunday ("0000011").
+ */
+function weekendDays(value: FormulaValue | undefined): boolean[] {
+  const weekend = new Array(7).fill(false);
+  const code = value === undefined ? 1 : toScalar(value);
+  if (code === null) {
+    weekend[0] = weekend[6] = true;
+    return weekend;
+  }
+
+  if (typeof code === 'string' && code.length === 7) {
+    if (!/^[01]{7}$/.test(code) || code === '1111111') {
+      throw new FormulaError('#VALUE!', 'Weekend mask must be seven 0/1 characters with at least one workday');
+    }
+    code.split('').forEach((flag, i) => {
+      weekend[(i + 1) % 7] = flag === '1';
+    });
+    return weekend;
+  }
+
+  const number = toNumber(code);
+  if (number >= 1 && number <= 7 && Number.isInteger(number)) {
+    weekend[(number + 5) % 7] = weekend[(number + 6) % 7] = true;
+  } else if (number >= 11 && number <= 17 && Number.isInteger(number)) {
+    weekend[number - 11] = true;
+  } else {
+    throw new FormulaError('#NUM!', 'Unknown weekend code');
+  }
+  return weekend;
+}
+
+function holidaySet(value: FormulaValue | undefined): Set<number> {
+  const holidays = new Set<number>();
+  if (value === undefined) return holidays;
+  flattenValues([value]).forEach(holiday => {
+    if (holiday !== null) holidays.add(toSerial(holiday));
+  });
+  return holidays;
+}
+
+/**
+ * Count the workdays between two dates, inclusive; negative when end is before start
+ */
+function networkDays(startArg: FormulaValue, endArg: FormulaValue, weekend: boolean[], holidays: Set<number>): number {
+  const start = toSerial(startArg);
+  const end = toSerial(endArg);
+  const [from, to] = start <= end ? [start, end] : [end, start];
+
+  // Whole weeks contribute the same number of workdays each
+  const days = to - from + 1;
+  const weeks = Math.floor(days / 7);
+  let count = weeks * weekend.filter(isWeekend => !isWeekend).length;
+  for (let day = from + weeks * 7; day <= to; day++) {
+    if (!weekend[dayOfWeek(day)]) count++;
+  }
+  holidays.forEach(holiday => {
+    if (holiday >= from && holiday <= to && !weekend[dayOfWeek(holiday)]) count--;
+  });
+
+  return start <= end ? count : -count;
+}
+
+/**
+ * The date a number of workdays before or after a start date
+ */
+function workday(startArg: FormulaValue, daysArg: FormulaValue, weekend: boolean[], holidays: Set<number>): number {
+  let serial = toSerial(startArg);
+  let remaining = Math.trunc(toNumber(daysArg));
+  const step = remaining < 0 ? -1 : 1;
+
+  while (remaining !== 0) {
+    serial = checkSerial(serial + step);
+    if (!weekend[dayOfWeek(serial)] && !holidays.has(serial)) remaining -= step;
+  }
+  return serial;
+}
+
+/**
+ * Week of the year, where week 1 is the week containing January 1st and weeks begin
+ * on the given day (0 = Sunday)
+ */
+function weekOfYear(serial: number, weekStart: number): number {
+  const { year } = serialToDate(serial);
+  const janFirst = dateToSerial(year, 1, 1);
+  const offset = (dayOfWeek(janFirst) - weekStart + 7) % 7;
+  return Math.floor((serial - janFirst + offset) / 7) + 1;
+}
+
+/**
+ * ISO 8601 week number: weeks start on Monday and week 1 holds the year's first Thursday
+ */
+function isoWeek(serial: number): number {
+  const thursday = serial - ((dayOfWeek(serial) + 6) % 7) + 3;
+  const janFirst = dateToSerial(serialToDate(thursday).year, 1, 1);
+  return Math.floor((thursday - janFirst) / 7) + 1;
+}
+
+export const dateFunctions: Record<string, FunctionDefinition> = {
+  TODAY: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    resultFormat: 'date',
+    evaluate: () => Math.floor(jsDateToSerial(new Date()))
+  },
+
+  NOW: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    resultFormat: 'datetime',
+    evaluate: () => jsDateToSerial(new Date())
+  },
+
+  // Years 0-1899 are read as offsets from 1900; months and days roll over (DATE(2024,14,1))
+  DATE: {
+    minArgs: 3,
+    maxArgs: 3,
+    resultFormat: 'date',
+    evaluate: ([yearArg, monthArg, dayArg]: FormulaValue[]) => {
+      let year = Math.trunc(toNumber(yearArg));
+      if (year < 0 || year >= 10000) {
+        throw new FormulaError('#NUM!', 'Year must be between 0 and 9999');
+      }
+      if (year < 1900) year += 1900;
+      return checkSerial(dateToSerial(year, Math.trunc(toNumber(monthArg)), Math.trunc(toNumber(dayArg))));
+    }
+  },
+
+  DATEVALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]: FormulaValue[]) => {
+      const scalar = toScalar(text);
+      const parsed = typeof scalar === 'string' ? readDateTime(scalar) : null;
+      if (!parsed) {
+        throw new FormulaError('#VALUE!', 'DATEVALUE expects text that looks like a date');
+      }
+      return Math.floor(parsed.serial);
+    }
+  },
+
+  TIME: {
+    minArgs: 3,
+    maxArgs: 3,
+    resultFormat: 'time',
+    evaluate: ([hours, minutes, seconds]: FormulaValue[]) => {
+      const [h, m, s] = [hours, minutes, seconds].map(arg => Math.trunc(toNumber(arg)));
+      if (h * 3600 + m * 60 + s < 0) {
+        throw new FormulaError('#NUM!', 'Time must not be negative');
+      }
+      return timeToSerial(h, m, s);
+    }
+  },
+
+  YEAR: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([date]: FormulaValue[]) => serialToDate(toSerial(date)).year
+  },
+
+  MONTH: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([date]: FormulaValue[]) => serialToDate(toSerial(date)).month
+  },
+
+  DAY: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([date]: FormulaValue[]) => serialToDate(toSerial(date)).day
+  },
+
+  HOUR: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([time]: FormulaValue[]) => Math.floor(secondsOfDay(time) / 3600)
+  },
+
+  MINUTE: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([time]: FormulaValue[]) => Math.floor(secondsOfDay(time) / 60) % 60
+  },
+
+  SECOND: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([time]: FormulaValue[]) => secondsOfDay(time) % 60
+  },
+
+  // Return types: 1 = Sunday 1..Saturday 7, 2 = Monday 1..Sunday 7, 3 = Monday 0..Sunday 6,
+  // 11-17 = numbered 1..7 from Monday (11) through Sunday (17)
+  WEEKDAY: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([date, typeArg]: FormulaValue[]) => {
+      const day = dayOfWeek(toSerial(date));
+      const type = Math.trunc(optional(typeArg, 1, toNumber));
+      if (type === 1) return day + 1;
+      if (type === 2) return ((day + 6) % 7) + 1;
+      if (type === 3) return (day + 6) % 7;
+      if (type >= 11 && type <= 17) return ((day - (type - 10) % 7 + 7) % 7) + 1;
+      throw new FormulaError('#NUM!', 'Unknown WEEKDAY return type');
+    }
+  },
+
+  // Return types: 1 = weeks start Sunday, 2 = Monday, 11-17 = Monday..Sunday, 21 = ISO 8601
+  WEEKNUM: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([date, typeArg]: FormulaValue[]) => {
+      const serial = toSerial(date);
+      const type = Math.trunc(optional(typeArg, 1, toNumber));
+      if (type === 1) return weekOfYear(serial, 0);
+      if (type === 2) return weekOfYear(serial, 1);
+      if (type >= 11 && type <= 17) return weekOfYear(serial, (type - 10) % 7);
+      if (type === 21) return isoWeek(serial);
+      throw new FormulaError('#NUM!', 'Unknown WEEKNUM return type');
+    }
+  },
+
+  // The same day a number of months away, clamped to the end of shorter months
+  EDATE: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([date, monthsArg]: FormulaValue[]) => {
+      const { year, month, day } = serialToDate(toSerial(date));
+      const first = dateToSerial(year, month + Math.trunc(toNumber(monthsArg)), 1);
+      const target = serialToDate(first);
+      return checkSerial(first + Math.min(day, daysInMonth(target.year, target.month)) - 1);
+    }
+  },
+
+  EOMONTH: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([date, monthsArg]: FormulaValue[]) => {
+      const { year, month } = serialToDate(toSerial(date));
+      return checkSerial(dateToSerial(year, month + Math.trunc(toNumber(monthsArg)) + 1, 1) - 1);
+    }
+  },
+
+  NETWORKDAYS: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([start, end, holidays]: FormulaValue[]) =>
+      networkDays(start, end, weekendDays(undefined), holidaySet(holidays))
+  },
+
+  'NETWORKDAYS.INTL': {
+    minArgs: 2,
+    maxArgs: 4,
+    evaluate: ([start, end, weekend, holidays]: FormulaValue[]) =>
+      networkDays(start, end, weekendDays(weekend), holidaySet(holidays))
+  },
+
+  WORKDAY: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([start, days, holidays]: FormulaValue[]) =>
+      workday(start, days, weekendDays(undefined), holidaySet(holidays))
+  },
+
+  'WORKDAY.INTL': {
+    minArgs: 2,
+    maxArgs: 4,
+    evaluate: ([start, days, weekend, holidays]: FormulaValue[]) =>
+      workday(start, days, weekendDays(weekend), holidaySet(holidays))
+  },
+
+  // Units: Y, M, D complete years/months/days; MD, YM, YD ignore the larger units
+  DATEDIF: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([startArg, endArg, unitArg]: FormulaValue[]) => {
+      const start = toSerial(startArg);
+      const end = toSerial(endArg);
+      if (start > end) {
+        throw new FormulaError('#NUM!', 'DATEDIF start date is after the end date');
+      }
+
+      const from = serialToDate(start);
+      const to = serialToDate(end);
+      const dayShort = to.day < from.day ? 1 : 0;
+      const months = (to.year - from.year) * 12 + to.month - from.month - dayShort;
+
+      switch (String(toScalar(unitArg)).toUpperCase()) {
+        case 'Y':
+          return Math.floor(months / 12);
+        case 'M':
+          return months;
+        case 'D':
+          return end - start;
+        case 'MD':
+          return dayShort ? to.day + daysInMonth(to.year, to.month - 1) - from.day : to.day - from.day;
+        case 'YM':
+          return months % 12;
+        case 'YD': {
+          let anniversary = dateToSerial(to.year, from.month, from.day);
+          if (anniversary > end) anniversary = dateToSerial(to.year - 1, from.month, from.day);
+          return end - anniversary;
+        }
+        default:
+          throw new FormulaError('#NUM!', 'Unknown DATEDIF unit');
+      }
+    }
+  }
+};
@@ -0,0 +1,291 @@
+/**
+ * Financial Functions - Loan, investment, cash flow and depreciation math
+ *
+ * Sign convention follows Excel: money paid out is negative, money received is positive.
+ * `type` is 0 for payments at the end of each period and 1 for payments at the start.
+ */
+
+import type { FunctionDefinition } from './registry';
+import { FormulaError } from '../errors';
+import { FormulaValue, toNumber } from '../values';
+import { checkNumber, collectNumbers, flattenValues, optional } from './helpers';
+
+interface SolverOptions {
+  maxIterations: number;
+  /** Converged once successive guesses differ by less than this */
+  tolerance: number;
+}
+
+// Iteration limits and accuracy documented for Excel's solvers
+const RATE_SOLVER: SolverOptions = { maxIterations: 20, tolerance: 1e-7 };
+const IRR_SOLVER: SolverOptions = { maxIterations: 20, tolerance: 1e-7 };
+const XIRR_SOLVER: SolverOptions = { maxIterations: 100, tolerance: 1e-8 };
+
+/**
+ * Newton's method; throws #NUM! when it does not converge within the iteration limit
+ */
+function solve(f: (x: number) => number, derivative: (x: number) => number, guess: number, options: SolverOptions): number {
+  let x = guess;
+  for (let i = 0; i < options.maxIterations; i++) {
+    const slope = derivative(x);
+    if (!isFinite(slope) || slope === 0) break;
+    let next = x - f(x) / slope;
+    if (!isFinite(next)) break;
+    // Rates at or below -100% are meaningless; step halfway towards -1 instead
+    if (next <= -1) next = (x - 1) / 2;
+    if (Math.abs(next - x) < options.tolerance) return next;
+    x = next;
+  }
+  throw new FormulaError('#NUM!', 'The calculation did not converge');
+}
+
+function numericDerivative(f: (x: number) => number): (x: number) => number {
+  return x => {
+    const h = Math.max(Math.abs(x) * 1e-6, 1e-8);
+    return (f(x + h) - f(x - h)) / (2 * h);
+  };
+}
+
+function readType(value: FormulaValue | undefined): number {
+  return optional(value, 0, toNumber) === 0 ? 0 : 1;
+}
+
+function payment(rate: number, nper: number, pv: number, fv: number, type: number): number {
+  if (rate === 0) return -(pv + fv) / nper;
+  const growth = Math.pow(1 + rate, nper);
+  return -(rate * (fv + pv * growth)) / ((1 + rate * type) * (growth - 1));
+}
+
+function futureValue(rate: number, nper: number, pmt: number, pv: number, type: number): number {
+  if (rate === 0) return -(pv + pmt * nper);
+  const growth = Math.pow(1 + rate, nper);
+  return -(pv * growth + pmt * (1 + rate * type) * (growth - 1) / rate);
+}
+
+/**
+ * Interest part of the payment in a given period (1-based)
+ */
+function interestPayment(rate: number, period: number, nper: number, pv: number, fv: number, type: number): number {
+  if (period < 1 || period > nper) {
+    throw new FormulaError('#NUM!', 'Period must be between 1 and the number of periods');
+  }
+  if (type === 1 && period === 1) return 0;
+
+  const pmt = payment(rate, nper, pv, fv, type);
+  const interest = futureValue(rate, period - 1, pmt, pv, type) * rate;
+  return type === 1 ? interest / (1 + rate) : interest;
+}
+
+/**
+ * Values and dates of an irregular cash flow (XNPV, XIRR), as day offsets from the first date
+ */
+function readSchedule(valuesArg: FormulaValue, datesArg: FormulaValue): { values: number[]; years: number[] } {
+  const values = flattenValues([valuesArg]);
+  const dates = flattenValues([datesArg]);
+  if (values.length !== dates.length || values.length === 0) {
+    throw new FormulaError('#NUM!', 'Values and dates must have the same number of entries');
+  }
+
+  const numbers = values.map(toNumber);
+  const days = dates.map(date => Math.floor(toNumber(date)));
+  if (days.some(day => day < days[0])) {
+    throw new FormulaError('#NUM!', 'No date may precede the first date');
+  }
+  return { values: numbers, years: days.map(day => (day - days[0]) / 365) };
+}
+
+function requireSignChange(values: number[]) {
+  if (!values.some(value => value > 0) || !values.some(value => value < 0)) {
+    throw new FormulaError('#NUM!', 'Cash flows need at least one positive and one negative value');
+  }
+}
+
+export const financialFunctions: Record<string, FunctionDefinition> = {
+  // Payment per period for a loan or investment
+  PMT: {
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rate, nper, pv, fv, type]: FormulaValue[]) =>
+      checkNumber(payment(toNumber(rate), toNumber(nper), toNumber(pv), optional(fv, 0, toNumber), readType(type)))
+  },
+
+  IPMT: {
+    minArgs: 4,
+    maxArgs: 6,
+    evaluate: ([rate, period, nper, pv, fv, type]: FormulaValue[]) =>
+      checkNumber(interestPayment(
+        toNumber(rate), toNumber(period), toNumber(nper), toNumber(pv), optional(fv, 0, toNumber), readType(type)
+      ))
+  },
+
+  // Principal part of the payment: PMT - IPMT
+  PPMT: {
+    minArgs: 4,
+    maxArgs: 6,
+    evaluate: ([rateArg, periodArg, nperArg, pvArg, fvArg, typeArg]: FormulaValue[]) => {
+      const [rate, period, nper, pv] = [rateArg, periodArg, nperArg, pvArg].map(toNumber);
+      const fv = optional(fvArg, 0, toNumber);
+      const type = readType(typeArg);
+      return checkNumber(payment(rate, nper, pv, fv, type) - interestPayment(rate, period, nper, pv, fv, type));
+    }
+  },
+
+  FV: {
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rate, nper, pmt, pv, type]: FormulaValue[]) =>
+      checkNumber(futureValue(toNumber(rate), toNumber(nper), toNumber(pmt), optional(pv, 0, toNumber), readType(type)))
+  },
+
+  PV: {
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rateArg, nperArg, pmtArg, fvArg, typeArg]: FormulaValue[]) => {
+      const [rate, nper, pmt] = [rateArg, nperArg, pmtArg].map(toNumber);
+      const fv = optional(fvArg, 0, toNumber);
+      const type = readType(typeArg);
+      if (rate === 0) return -(fv + pmt * nper);
+      const growth = Math.pow(1 + rate, nper);
+      return checkNumber(-(fv + pmt * (1 + rate * type) * (growth - 1) / rate) / growth);
+    }
+  },
+
+  NPER: {
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rateArg, pmtArg, pvArg, fvArg, typeArg]: FormulaValue[]) => {
+      const [rate, pmt, pv] = [rateArg, pmtArg, pvArg].map(toNumber);
+      const fv = optional(fvArg, 0, toNumber);
+      const type = readType(typeArg);
+      if (rate === 0) {
+        if (pmt === 0) throw new FormulaError('#NUM!', 'NPER needs a payment when the rate is 0');
+        return -(pv + fv) / pmt;
+      }
+      const z = pmt * (1 + rate * type) / rate;
+      const ratio = (z - fv) / (pv + z);
+      if (ratio <= 0) {
+        throw new FormulaError('#NUM!', 'The investment can never reach the future value');
+      }
+      return checkNumber(Math.log(ratio) / Math.log(1 + rate));
+    }
+  },
+
+  // Interest rate per period, solved iteratively from the other loan terms
+  RATE: {
+    minArgs: 3,
+    maxArgs: 6,
+    evaluate: ([nperArg, pmtArg, pvArg, fvArg, typeArg, guessArg]: FormulaValue[]) => {
+      const [nper, pmt, pv] = [nperArg, pmtArg, pvArg].map(toNumber);
+      const fv = optional(fvArg, 0, toNumber);
+      const type = readType(typeArg);
+      const balance = (rate: number) => {
+        if (Math.abs(rate) < 1e-12) return pv + pmt * nper + fv;
+        const growth = Math.pow(1 + rate, nper);
+        return pv * growth + pmt * (1 + rate * type) * (growth - 1) / rate + fv;
+      };
+      return solve(balance, numericDerivative(balance), optional(guessArg, 0.1, toNumber), RATE_SOLVER);
+    }
+  },
+
+  // Net present value of cash flows at the end of each period, starting one period out
+  NPV: {
+    minArgs: 2,
+    evaluate: ([rateArg, ...values]: FormulaValue[]) => {
+      const rate = toNumber(rateArg);
+      if (rate === -1) {
+        throw new FormulaError('#DIV/0!', 'NPV rate must not be -100%');
+      }
+      return checkNumber(collectNumbers(values).reduce((total, value, i) => total + value / Math.pow(1 + rate, i + 1), 0));
+    }
+  },
+
+  // Net present value of cash flows on arbitrary dates, discounted on a 365-day year
+  XNPV: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([rateArg, valuesArg, datesArg]: FormulaValue[]) => {
+      const rate = toNumber(rateArg);
+      if (rate <= -1) {
+        throw new FormulaError('#NUM!', 'XNPV rate must be greater than -100%');
+      }
+      const { values, years } = readSchedule(valuesArg, datesArg);
+      return checkNumber(values.reduce((total, value, i) => total + value / Math.pow(1 + rate, years[i]), 0));
+    }
+  },
+
+  IRR: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([valuesArg, guessArg]: FormulaValue[]) => {
+      const values = collectNumbers([valuesArg]);
+      requireSignChange(values);
+      const npv = (rate: number) => values.reduce((total, value, i) => total + value / Math.pow(1 + rate, i), 0);
+      const slope = (rate: number) =>
+        values.reduce((total, value, i) => total - i * value / Math.pow(1 + rate, i + 1), 0);
+      return solve(npv, slope, optional(guessArg, 0.1, toNumber), IRR_SOLVER);
+    }
+  },
+
+  XIRR: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([valuesArg, datesArg, guessArg]: FormulaValue[]) => {
+      const { values, years } = readSchedule(valuesArg, datesArg);
+      requireSignChange(values);
+      const npv = (rate: number) => values.reduce((total, value, i) => total + value / Math.pow(1 + rate, years[i]), 0);
+      const slope = (rate: number) =>
+        values.reduce((total, value, i) => total - years[i] * value / Math.pow(1 + rate, years[i] + 1), 0);
+      return solve(npv, slope, optional(guessArg, 0.1, toNumber), XIRR_SOLVER);
+    }
+  },
+
+  // Straight-line depreciation per period
+  SLN: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([cost, salvage, lifeArg]: FormulaValue[]) => {
+      const life = toNumber(lifeArg);
+      if (life === 0) {
+        throw new FormulaError('#DIV/0!', 'SLN life must not be 0');
+      }
+      return (toNumber(cost) - toNumber(salvage)) / life;
+    }
+  },
+
+  // Double-declining balance depreciation (or another factor), never below the salvage value
+  DDB: {
+    minArgs: 4,
+    maxArgs: 5,
+    evaluate: ([costArg, salvageArg, lifeArg, periodArg, factorArg]: FormulaValue[]) => {
+      const [cost, salvage, life, period] = [costArg, salvageArg, lifeArg, periodArg].map(toNumber);
+      const factor = optional(factorArg, 2, toNumber);
+      if (cost < 0 || salvage < 0 || life <= 0 || period <= 0 || period > life || factor <= 0) {
+        throw new FormulaError('#NUM!', 'DDB arguments are out of range');
+      }
+
+      const rate = Math.min(factor / life, 1);
+      const before = cost - cost * Math.pow(1 - rate, period - 1);
+      return Math.max(0, Math.min((cost - before) * rate, cost - salvage - before));
+    }
+  },
+
+  // Total interest paid between two periods, inclusive
+  CUMIPMT: {
+    minArgs: 6,
+    maxArgs: 6,
+    evaluate: ([rateArg, nperArg, pvArg, startArg, endArg, typeArg]: FormulaValue[]) => {
+      const [rate, nper, pv, type] = [rateArg, nperArg, pvArg, typeArg].map(toNumber);
+      const start = Math.ceil(toNumber(startArg));
+      const end = Math.floor(toNumber(endArg));
+      if (rate <= 0 || nper <= 0 || pv <= 0 || start < 1 || end < start || end > nper || (type !== 0 && type !== 1)) {
+        throw new FormulaError('#NUM!', 'CUMIPMT arguments are out of range');
+      }
+
+      let total = 0;
+      for (let period = start; period <= end; period++) {
+        total += interestPayment(rate, period, nper, pv, 0, type);
+      }
+      return checkNumber(total);
+    }
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * Function Helpers - Argument coercion shared by the worksheet function modules
+ */
+
+import { FormulaError } from '../errors';
+import { ArrayValue, FormulaValue, ScalarValue, assertNotError, isArrayValue, toNumber } from '../values';
+
+/**
+ * Flatten arguments into a single list of scalars (arrays are read row by row)
+ */
+export function flattenValues(args: FormulaValue[]): ScalarValue[] {
+  const values: ScalarValue[] = [];
+  for (const arg of args) {
+    if (isArrayValue(arg)) {
+      for (const row of arg) {
+        values.push(...row);
+      }
+    } else {
+      values.push(arg);
+    }
+  }
+  return values;
+}
+
+/**
+ * Collect numbers the way SUM/AVERAGE do: inside ranges only numbers count,
+ * while values typed directly as arguments are coerced (and may fail with #VALUE!).
+ * An error anywhere in the arguments is raised.
+ */
+export function collectNumbers(args: FormulaValue[]): number[] {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (isArrayValue(arg)) {
+      for (const row of arg) {
+        for (const value of row) {
+          assertNotError(value);
+          if (typeof value === 'number') numbers.push(value);
+        }
+      }
+    } else if (arg !== null) {
+      numbers.push(toNumber(arg));
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Read an argument as a 2D array; scalars become a 1x1 array
+ */
+export function toArray(value: FormulaValue): ArrayValue {
+  return isArrayValue(value) ? value : [[value]];
+}
+
+/**
+ * Read an optional argument, falling back when it was omitted
+ */
+export function optional<T>(value: FormulaValue | undefined, fallback: T, convert: (v: FormulaValue) => T): T {
+  return value === undefined || value === null ? fallback : convert(value);
+}
+
+/**
+ * Build a matcher for Excel wildcards: * (any run), ? (any character), ~ escapes the next one.
+ * Returns null when the text has no wildcards and can be compared directly. Unanchored
+ * patterns find the wildcard text anywhere (SEARCH).
+ */
+export function wildcardPattern(text: ScalarValue, anchored = true): RegExp | null {
+  if (typeof text !== 'string' || !/[*?~]/.test(text)) return null;
+
+  let source = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '~' && i + 1 < text.length) {
+      source += escapeRegExp(text[++i]);
+    } else if (char === '*') {
+      source += '[\\s\\S]*';
+    } else if (char === '?') {
+      source += '[\\s\\S]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return anchored ? new RegExp(`^${source}$`, 'i') : new RegExp(source, 'i');
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Round half away from zero, as Excel's ROUND does
+ */
+export function roundTo(value: number, digits: number): number {
+  const sign = value < 0 ? -1 : 1;
+  const abs = Math.abs(value);
+  const places = Math.trunc(digits);
+  let rounded = Number(`${Math.round(Number(`${abs}e${places}`))}e${-places}`);
+  if (isNaN(rounded)) {
+    const factor = Math.pow(10, places);
+    rounded = Math.round(abs * factor) / factor;
+  }
+  return sign * rounded;
+}
+
+/**
+ * Round away from zero (ROUNDUP) or towards zero (ROUNDDOWN) at the given number of digits
+ */
+export function roundDirected(value: number, digits: number, awayFromZero: boolean): number {
+  const sign = value < 0 ? -1 : 1;
+  const factor = Math.pow(10, Math.trunc(digits));
+  // Trim floating point noise first so that 0.1 + 0.2 does not round up to 0.4
+  const scaled = parseFloat((Math.abs(value) * factor).toPrecision(15));
+  const rounded = (awayFromZero ? Math.ceil(scaled) : Math.floor(scaled)) / factor;
+  return sign * parseFloat(rounded.toPrecision(15));
+}
+
+/**
+ * Guard against results that Excel reports as #NUM! (NaN, Infinity)
+ */
+export function checkNumber(value: number): number {
+  if (!isFinite(value)) {
+    throw new FormulaError('#NUM!', 'Result is not a finite number');
+  }
+  return value;
+}
@@ -0,0 +1,57 @@
+/**
+ * Information Functions - Inspecting error values
+ */
+
+import type { FunctionDefinition } from './registry';
+import { ERROR_TYPE_NUMBERS, ErrorValue, FormulaError, isErrorValue } from '../errors';
+import { FormulaValue, toScalar } from '../values';
+
+export const informationFunctions: Record<string, FunctionDefinition> = {
+  ISERROR: {
+    minArgs: 1,
+    maxArgs: 1,
+    acceptsErrors: true,
+    evaluate: ([value]: FormulaValue[]) => isErrorValue(toScalar(value))
+  },
+
+  // Any error except #N/A
+  ISERR: {
+    minArgs: 1,
+    maxArgs: 1,
+    acceptsErrors: true,
+    evaluate: ([value]: FormulaValue[]) => {
+      const scalar = toScalar(value);
+      return isErrorValue(scalar) && scalar.code !== '#N/A';
+    }
+  },
+
+  ISNA: {
+    minArgs: 1,
+    maxArgs: 1,
+    acceptsErrors: true,
+    evaluate: ([value]: FormulaValue[]) => {
+      const scalar = toScalar(value);
+      return isErrorValue(scalar) && scalar.code === '#N/A';
+    }
+  },
+
+  'ERROR.TYPE': {
+    minArgs: 1,
+    maxArgs: 1,
+    acceptsErrors: true,
+    evaluate: ([value]: FormulaValue[]) => {
+      const scalar = toScalar(value);
+      const number = isErrorValue(scalar) ? ERROR_TYPE_NUMBERS[scalar.code] : undefined;
+      if (number === undefined) {
+        throw new FormulaError('#N/A', 'ERROR.TYPE expects an error value');
+      }
+      return number;
+    }
+  },
+
+  NA: {
+    minArgs: 0,
+    maxArgs: 0,
+    evaluate: () => new ErrorValue('#N/A')
+  }
+};
@@ -0,0 +1,208 @@
+/**
+ * Lambda Functions - LET bindings, LAMBDA and the helpers that call a LAMBDA over an array
+ */
+
+import type { FunctionContext, FunctionDefinition } from './registry';
+import type { ASTNode } from '../parser';
+import { ErrorValue, FormulaError, isErrorValue } from '../errors';
+import { MAX_COLUMNS, MAX_ROWS } from '../references';
+import { ArrayValue, FormulaValue, LambdaValue, ScalarValue, isArrayValue, isLambdaValue, toNumber } from '../values';
+import { toArray } from './helpers';
+
+/**
+ * Name bound by LET or LAMBDA. Names that read as cells (X1) or carry a sheet parse as
+ * references and are rejected.
+ */
+function readVariableName(node: ASTNode, taken: string[]): string {
+  if (node.type !== 'name' || node.sheet) {
+    throw new FormulaError('#VALUE!', 'Expected a variable name');
+  }
+  if (taken.includes(node.name)) {
+    throw new FormulaError('#VALUE!', `${node.name} is declared twice`);
+  }
+  return node.name;
+}
+
+/**
+ * The LAMBDA passed last to MAP, REDUCE and the others, with the number of parameters the
+ * helper calls it with
+ */
+function readLambda(value: FormulaValue, params: number, helper: string): LambdaValue {
+  if (!isLambdaValue(value)) {
+    if (isErrorValue(value)) throw new FormulaError(value.code, value.message);
+    throw new FormulaError('#VALUE!', `${helper} expects a LAMBDA`);
+  }
+  if (value.params.length !== params) {
+    throw new FormulaError('#VALUE!', `${helper} calls its LAMBDA with ${params} argument(s)`);
+  }
+  return value;
+}
+
+/**
+ * Array argument of a helper. The helpers receive error arguments so that they can tell a
+ * LAMBDA apart; a real error stops the helper.
+ */
+function readArray(value: FormulaValue): ArrayValue {
+  if (isErrorValue(value)) throw new FormulaError(value.code, value.message);
+  return toArray(value);
+}
+
+/**
+ * One element of a helper's result. A LAMBDA returning a larger array would nest arrays,
+ * which Excel reports as #CALC!.
+ */
+function toElement(value: FormulaValue): ScalarValue {
+  if (!isArrayValue(value)) return value;
+  if (value.length === 1 && value[0].length === 1) return value[0][0];
+  throw new FormulaError('#CALC!', 'Nested arrays are not supported');
+}
+
+function call(ctx: FunctionContext, lambda: LambdaValue, args: FormulaValue[]): ScalarValue {
+  return toElement(ctx.callLambda(lambda, args));
+}
+
+/**
+ * Accumulate over an array row by row (REDUCE, SCAN); each step's result is handed back
+ */
+function accumulate(
+  [initial, arrayArg, lambdaArg]: FormulaValue[],
+  helper: string,
+  step: (accumulator: FormulaValue, row: number, col: number) => void,
+  ctx: FunctionContext
+): FormulaValue {
+  const array = readArray(arrayArg);
+  const lambda = readLambda(lambdaArg, 2, helper);
+  let accumulator = initial;
+  array.forEach((values, row) => values.forEach((value, col) => {
+    accumulator = ctx.callLambda(lambda, [accumulator, value]);
+    step(accumulator, row, col);
+  }));
+  return accumulator;
+}
+
+export const lambdaFunctions: Record<string, FunctionDefinition> = {
+  // LET(name1, value1, [name2, value2, ...], calculation); each value sees the names before it
+  LET: {
+    minArgs: 3,
+    lazy: true,
+    evaluate: (args: ASTNode[], ctx: FunctionContext) => {
+      if (args.length % 2 === 0) {
+        throw new FormulaError('#VALUE!', 'LET needs name/value pairs followed by a calculation');
+      }
+
+      const names: string[] = [];
+      let scope = ctx;
+      for (let i = 0; i < args.length - 1; i += 2) {
+        const name = readVariableName(args[i], names);
+        names.push(name);
+        scope = scope.withLocals(new Map([[name, scope.evaluate(args[i + 1])]]));
+      }
+      return scope.evaluate(args[args.length - 1]);
+    }
+  },
+
+  // LAMBDA([param1, ...], calculation) creates a function; call it as LAMBDA(x, x + 1)(5)
+  LAMBDA: {
+    minArgs: 1,
+    maxArgs: 254,
+    lazy: true,
+    evaluate: (args: ASTNode[], ctx: FunctionContext) => {
+      const params: string[] = [];
+      args.slice(0, -1).forEach(node => params.push(readVariableName(node, params)));
+      return new LambdaValue(params, args[args.length - 1], ctx.context);
+    }
+  },
+
+  // MAP(array1, [array2, ...], lambda) calls the LAMBDA with the elements at each position
+  MAP: {
+    minArgs: 2,
+    acceptsErrors: true,
+    evaluate: (args: FormulaValue[], ctx: FunctionContext) => {
+      const arrays = args.slice(0, -1).map(readArray);
+      const lambda = readLambda(args[args.length - 1], arrays.length, 'MAP');
+      const rows = Math.max(...arrays.map(array => array.length));
+      const cols = Math.max(...arrays.map(array => array[0].length));
+
+      const result: ArrayValue = [];
+      for (let row = 0; row < rows; row++) {
+        const values: ScalarValue[] = [];
+        for (let col = 0; col < cols; col++) {
+          // Arrays smaller than the largest one have no value at the position
+          const elements = arrays.map(array => array[row]?.[col]);
+          values.push(elements.includes(undefined)
+            ? new ErrorValue('#N/A', 'Arrays are different sizes')
+            : call(ctx, lambda, elements as ScalarValue[]));
+        }
+        result.push(values);
+      }
+      return result;
+    }
+  },
+
+  // REDUCE(initial, array, lambda(accumulator, value)) returns the final accumulator; the
+  // initial value may be left empty, as in REDUCE(, A1:A9, ...)
+  REDUCE: {
+    minArgs: 3,
+    maxArgs: 3,
+    acceptsErrors: true,
+    evaluate: (args: FormulaValue[], ctx: FunctionContext) => accumulate(args, 'REDUCE', () => undefined, ctx)
+  },
+
+  // SCAN(initial, array, lambda(accumulator, value)) returns every intermediate accumulator
+  SCAN: {
+    minArgs: 3,
+    maxArgs: 3,
+    acceptsErrors: true,
+    evaluate: (args: FormulaValue[], ctx: FunctionContext) => {
+      const result: ArrayValue = readArray(args[1]).map(row => row.map(() => null));
+      accumulate(args, 'SCAN', (accumulator, row, col) => {
+        result[row][col] = toElement(accumulator);
+      }, ctx);
+      return result;
+    }
+  },
+
+  // BYROW(array, lambda(row)) returns one value per row, as a column
+  BYROW: {
+    minArgs: 2,
+    maxArgs: 2,
+    acceptsErrors: true,
+    evaluate: ([arrayArg, lambdaArg]: FormulaValue[], ctx: FunctionContext) => {
+      const lambda = readLambda(lambdaArg, 1, 'BYROW');
+      return readArray(arrayArg).map(row => [call(ctx, lambda, [[row]])]);
+    }
+  },
+
+  // BYCOL(array, lambda(column)) returns one value per column, as a row
+  BYCOL: {
+    minArgs: 2,
+    maxArgs: 2,
+    acceptsErrors: true,
+    evaluate: ([arrayArg, lambdaArg]: FormulaValue[], ctx: FunctionContext) => {
+      const array = readArray(arrayArg);
+      const lambda = readLambda(lambdaArg, 1, 'BYCOL');
+      return [array[0].map((_, col) => call(ctx, lambda, [array.map(row => [row[col]])]))];
+    }
+  },
+
+  // MAKEARRAY(rows, cols, lambda(row, col)) fills an array from 1-based row and column numbers
+  MAKEARRAY: {
+    minArgs: 3,
+    maxArgs: 3,
+    acceptsErrors: true,
+    evaluate: ([rowsArg, colsArg, lambdaArg]: FormulaValue[], ctx: FunctionContext) => {
+      const rows = Math.trunc(toNumber(rowsArg));
+      const cols = Math.trunc(toNumber(colsArg));
+      if (rows < 1 || cols < 1) {
+        throw new FormulaError('#VALUE!', 'MAKEARRAY needs at least one row and column');
+      }
+      if (rows > MAX_ROWS || cols > MAX_COLUMNS) {
+        throw new FormulaError('#NUM!', 'Array is larger than the sheet');
+      }
+
+      const lambda = readLambda(lambdaArg, 2, 'MAKEARRAY');
+      return Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: cols }, (__, col) => call(ctx, lambda, [row + 1, col + 1])));
+    }
+  }
+};
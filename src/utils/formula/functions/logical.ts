@@ -0,0 +1,93 @@
+/**
+ * Logical Functions - IF, error trapping and boolean combinators
+ */
+
+import type { FunctionDefinition, FunctionContext } from './registry';
+import type { ASTNode } from '../parser';
+import { FormulaValue, assertNotError, isArrayValue, toBoolean, toScalar } from '../values';
+import { FormulaError, isErrorValue } from '../errors';
+
+/**
+ * Collect booleans for AND/OR: text and blanks inside ranges are skipped
+ */
+function collectBooleans(args: FormulaValue[]): boolean[] {
+  const values: boolean[] = [];
+  for (const arg of args) {
+    if (isArrayValue(arg)) {
+      arg.forEach(row => row.forEach(value => {
+        assertNotError(value);
+        if (typeof value === 'boolean' || typeof value === 'number') {
+          values.push(toBoolean(value));
+        }
+      }));
+    } else if (arg !== null) {
+      values.push(toBoolean(arg));
+    }
+  }
+  if (values.length === 0) {
+    throw new FormulaError('#VALUE!', 'No logical values to evaluate');
+  }
+  return values;
+}
+
+export const logicalFunctions: Record<string, FunctionDefinition> = {
+  IF: {
+    minArgs: 2,
+    maxArgs: 3,
+    lazy: true,
+    evaluate: ([condition, whenTrue, whenFalse]: ASTNode[], ctx: FunctionContext) => {
+      if (toBoolean(ctx.evaluate(condition))) {
+        return ctx.evaluate(whenTrue);
+      }
+      return whenFalse ? ctx.evaluate(whenFalse) : false;
+    }
+  },
+
+  IFERROR: {
+    minArgs: 2,
+    maxArgs: 2,
+    lazy: true,
+    evaluate: ([value, valueIfError]: ASTNode[], ctx: FunctionContext) => {
+      const result = toScalar(ctx.evaluate(value));
+      return isErrorValue(result) ? ctx.evaluate(valueIfError) : result;
+    }
+  },
+
+  IFNA: {
+    minArgs: 2,
+    maxArgs: 2,
+    lazy: true,
+    evaluate: ([value, valueIfNA]: ASTNode[], ctx: FunctionContext) => {
+      const result = toScalar(ctx.evaluate(value));
+      return isErrorValue(result) && result.code === '#N/A' ? ctx.evaluate(valueIfNA) : result;
+    }
+  },
+
+  AND: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => collectBooleans(args).every(Boolean)
+  },
+
+  OR: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => collectBooleans(args).some(Boolean)
+  },
+
+  NOT: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]: FormulaValue[]) => !toBoolean(value)
+  },
+
+  TRUE: {
+    minArgs: 0,
+    maxArgs: 0,
+    evaluate: () => true
+  },
+
+  FALSE: {
+    minArgs: 0,
+    maxArgs: 0,
+    evaluate: () => false
+  }
+};
@@ -0,0 +1,292 @@
+/**
+ * Lookup Functions - Table lookups, positional lookups and value selection
+ */
+
+import type { FunctionDefinition, FunctionContext } from './registry';
+import type { ASTNode } from '../parser';
+import { FormulaError } from '../errors';
+import {
+  ArrayValue,
+  FormulaValue,
+  ScalarValue,
+  compareValues,
+  toBoolean,
+  toNumber,
+  toScalar
+} from '../values';
+import { optional, toArray, wildcardPattern } from './helpers';
+
+/** XMATCH/XLOOKUP match_mode: exact, exact or next smaller, exact or next larger, wildcard */
+type MatchMode = 0 | -1 | 1 | 2;
+/** XMATCH/XLOOKUP search_mode: first to last, last to first, binary ascending, binary descending */
+type SearchMode = 1 | -1 | 2 | -2;
+
+function isExactMatch(value: ScalarValue, lookup: ScalarValue, pattern: RegExp | null): boolean {
+  if (value === null) return false;
+  if (pattern) return typeof value === 'string' && pattern.test(value);
+  return compareValues(value, lookup) === 0;
+}
+
+/**
+ * Binary search over sorted data, as Excel does for approximate matches.
+ * Returns the exact match if there is one, otherwise the next smaller (-1) or next larger (1) entry.
+ */
+function binarySearch(values: ScalarValue[], lookup: ScalarValue, matchMode: MatchMode, descending: boolean): number {
+  const direction = descending ? -1 : 1;
+  let low = 0;
+  let high = values.length - 1;
+  // Last position whose value sorts at or before the lookup value
+  let before = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (compareValues(values[mid], lookup) * direction <= 0) {
+      before = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (before !== -1 && compareValues(values[before], lookup) === 0) return before;
+  if (matchMode === 0 || matchMode === 2) return -1;
+
+  const after = before + 1 < values.length ? before + 1 : -1;
+  const smaller = descending ? after : before;
+  const larger = descending ? before : after;
+  return matchMode === -1 ? smaller : larger;
+}
+
+/**
+ * Find the position of a value in a list (0-based, -1 when not found).
+ * Approximate modes only consider values of the same type as the lookup value.
+ */
+function findMatch(values: ScalarValue[], lookup: ScalarValue, matchMode: MatchMode, searchMode: SearchMode): number {
+  if (searchMode === 2 || searchMode === -2) {
+    return binarySearch(values, lookup, matchMode, searchMode === -2);
+  }
+
+  const pattern = matchMode === 2 ? wildcardPattern(lookup) : null;
+  let best = -1;
+
+  for (let step = 0; step < values.length; step++) {
+    const i = searchMode === -1 ? values.length - 1 - step : step;
+    const value = values[i];
+
+    if (isExactMatch(value, lookup, pattern)) return i;
+    if (matchMode !== -1 && matchMode !== 1) continue;
+    if (value === null || typeof value !== typeof lookup) continue;
+
+    const comparison = compareValues(value, lookup);
+    const wanted = matchMode === -1 ? comparison < 0 : comparison > 0;
+    if (!wanted) continue;
+    if (best === -1 || compareValues(value, values[best]) * matchMode < 0) {
+      best = i;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Read a single row or column as a list; anything two-dimensional is rejected
+ */
+function toVector(value: FormulaValue): ScalarValue[] | null {
+  const array = toArray(value);
+  if (array.length === 1) return array[0];
+  if (array[0].length === 1) return array.map(row => row[0]);
+  return null;
+}
+
+function requireVector(value: FormulaValue): ScalarValue[] {
+  const vector = toVector(value);
+  if (!vector) {
+    throw new FormulaError('#N/A', 'Lookup array must be a single row or column');
+  }
+  return vector;
+}
+
+function readMatchMode(value: FormulaValue | undefined): MatchMode {
+  const mode = optional(value, 0, toNumber);
+  if (mode !== 0 && mode !== -1 && mode !== 1 && mode !== 2) {
+    throw new FormulaError('#VALUE!', 'match_mode must be 0, -1, 1 or 2');
+  }
+  return mode;
+}
+
+function readSearchMode(value: FormulaValue | undefined): SearchMode {
+  const mode = optional(value, 1, toNumber);
+  if (mode !== 1 && mode !== -1 && mode !== 2 && mode !== -2) {
+    throw new FormulaError('#VALUE!', 'search_mode must be 1, -1, 2 or -2');
+  }
+  return mode;
+}
+
+function notFound(): never {
+  throw new FormulaError('#N/A', 'Lookup value not found');
+}
+
+function tableLookup(args: FormulaValue[], byColumn: boolean): ScalarValue {
+  const [lookupValue, tableArg, indexArg, rangeLookup] = args;
+  const lookup = toScalar(lookupValue);
+  const table: ArrayValue = toArray(tableArg);
+  const index = Math.trunc(toNumber(indexArg));
+  const approximate = optional(rangeLookup, true, toBoolean);
+
+  const width = byColumn ? table[0].length : table.length;
+  if (index < 1) {
+    throw new FormulaError('#VALUE!', 'Index must be at least 1');
+  }
+  if (index > width) {
+    throw new FormulaError('#REF!', 'Index is outside the table');
+  }
+
+  const keys = byColumn ? table.map(row => row[0]) : table[0];
+  const position = approximate
+    ? binarySearch(keys, lookup, -1, false)
+    : findMatch(keys, lookup, 2, 1);
+  if (position === -1) notFound();
+
+  return byColumn ? table[position][index - 1] : table[index - 1][position];
+}
+
+/**
+ * Pick the row (for a vertical lookup array) or column (horizontal) of the return array
+ */
+function sliceResult(result: ArrayValue, position: number, vertical: boolean): FormulaValue {
+  if (vertical) {
+    if (position >= result.length) throw new FormulaError('#REF!', 'Return array is too short');
+    return [result[position]];
+  }
+  if (position >= result[0].length) throw new FormulaError('#REF!', 'Return array is too short');
+  return result.map(row => [row[position]]);
+}
+
+export const lookupFunctions: Record<string, FunctionDefinition> = {
+  VLOOKUP: {
+    minArgs: 3,
+    maxArgs: 4,
+    evaluate: (args: FormulaValue[]) => tableLookup(args, true)
+  },
+
+  HLOOKUP: {
+    minArgs: 3,
+    maxArgs: 4,
+    evaluate: (args: FormulaValue[]) => tableLookup(args, false)
+  },
+
+  XLOOKUP: {
+    minArgs: 3,
+    maxArgs: 6,
+    evaluate: ([lookupValue, lookupArray, returnArray, ifNotFound, matchMode, searchMode]: FormulaValue[]) => {
+      const keys = requireVector(lookupArray);
+      const results = toArray(returnArray);
+      const vertical = toArray(lookupArray).length > 1 || keys.length === 1;
+
+      if ((vertical ? results.length : results[0].length) !== keys.length) {
+        throw new FormulaError('#VALUE!', 'Lookup and return arrays must be the same size');
+      }
+
+      const position = findMatch(keys, toScalar(lookupValue), readMatchMode(matchMode), readSearchMode(searchMode));
+      if (position === -1) {
+        if (ifNotFound !== undefined && ifNotFound !== null) return ifNotFound;
+        notFound();
+      }
+      return sliceResult(results, position, vertical);
+    }
+  },
+
+  MATCH: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([lookupValue, lookupArray, matchType]: FormulaValue[]) => {
+      const keys = requireVector(lookupArray);
+      const lookup = toScalar(lookupValue);
+      const type = Math.sign(optional(matchType, 1, toNumber));
+
+      // 1: largest value <= lookup in ascending data; -1: smallest value >= lookup in descending data
+      const position = type === 0
+        ? findMatch(keys, lookup, 2, 1)
+        : binarySearch(keys, lookup, type === 1 ? -1 : 1, type === -1);
+      if (position === -1) notFound();
+      return position + 1;
+    }
+  },
+
+  XMATCH: {
+    minArgs: 2,
+    maxArgs: 4,
+    evaluate: ([lookupValue, lookupArray, matchMode, searchMode]: FormulaValue[]) => {
+      const keys = requireVector(lookupArray);
+      const position = findMatch(keys, toScalar(lookupValue), readMatchMode(matchMode), readSearchMode(searchMode));
+      if (position === -1) notFound();
+      return position + 1;
+    }
+  },
+
+  INDEX: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([arrayArg, rowArg, columnArg]: FormulaValue[]) => {
+      const array = toArray(arrayArg);
+      let row = Math.trunc(optional(rowArg, 0, toNumber));
+      let column = Math.trunc(optional(columnArg, 0, toNumber));
+
+      // INDEX(row_vector, n) picks the nth column
+      if (columnArg === undefined && array.length === 1 && array[0].length > 1) {
+        column = row;
+        row = 1;
+      }
+
+      if (row < 0 || column < 0 || row > array.length || column > array[0].length) {
+        throw new FormulaError('#REF!', 'Index is outside the array');
+      }
+      if (row === 0 && column === 0) return array;
+      if (row === 0) return array.map(values => [values[column - 1]]);
+      if (column === 0) {
+        return array[0].length === 1 ? array[row - 1][0] : [array[row - 1]];
+      }
+      return array[row - 1][column - 1];
+    }
+  },
+
+  LOOKUP: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([lookupValue, lookupArg, resultArg]: FormulaValue[]) => {
+      const lookup = toScalar(lookupValue);
+      let keys: ScalarValue[];
+      let results: ScalarValue[];
+
+      if (resultArg !== undefined) {
+        keys = requireVector(lookupArg);
+        results = requireVector(resultArg);
+      } else {
+        // Array form: search the first row or column (whichever is longer) and return the last
+        const array = toArray(lookupArg);
+        const byColumn = array.length >= array[0].length;
+        keys = byColumn ? array.map(row => row[0]) : array[0];
+        results = byColumn ? array.map(row => row[row.length - 1]) : array[array.length - 1];
+      }
+
+      const position = binarySearch(keys, lookup, -1, false);
+      if (position === -1) notFound();
+      if (position >= results.length) {
+        throw new FormulaError('#N/A', 'Result vector is too short');
+      }
+      return results[position];
+    }
+  },
+
+  CHOOSE: {
+    minArgs: 2,
+    lazy: true,
+    evaluate: ([indexArg, ...choices]: ASTNode[], ctx: FunctionContext) => {
+      const index = Math.trunc(toNumber(ctx.evaluate(indexArg)));
+      if (index < 1 || index > choices.length) {
+        throw new FormulaError('#VALUE!', 'CHOOSE index is out of range');
+      }
+      return ctx.evaluate(choices[index - 1]);
+    }
+  }
+};
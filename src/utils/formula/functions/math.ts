@@ -0,0 +1,227 @@
+/**
+ * Math Functions - Aggregation and arithmetic worksheet functions
+ */
+
+import type { FunctionDefinition } from './registry';
+import { FormulaError } from '../errors';
+import { FormulaValue, assertNotError, isArrayValue, toNumber } from '../values';
+import { checkNumber, collectNumbers, flattenValues, roundDirected, roundTo, toArray } from './helpers';
+
+function sum(numbers: number[]): number {
+  return numbers.reduce((total, n) => total + n, 0);
+}
+
+export const mathFunctions: Record<string, FunctionDefinition> = {
+  SUM: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => sum(collectNumbers(args))
+  },
+
+  AVERAGE: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => {
+      const numbers = collectNumbers(args);
+      if (numbers.length === 0) {
+        throw new FormulaError('#DIV/0!', 'AVERAGE has no numbers to average');
+      }
+      return sum(numbers) / numbers.length;
+    }
+  },
+
+  COUNT: {
+    minArgs: 1,
+    // Error arguments are simply not counted
+    acceptsErrors: true,
+    evaluate: (args: FormulaValue[]) => {
+      let count = 0;
+      for (const arg of args) {
+        if (isArrayValue(arg)) {
+          arg.forEach(row => row.forEach(value => {
+            if (typeof value === 'number') count++;
+          }));
+        } else if (arg !== null) {
+          try {
+            toNumber(arg);
+            count++;
+          } catch {
+            // Text that is not a number is not counted
+          }
+        }
+      }
+      return count;
+    }
+  },
+
+  // Counts everything that is not blank, including text, booleans and errors
+  COUNTA: {
+    minArgs: 1,
+    acceptsErrors: true,
+    evaluate: (args: FormulaValue[]) => flattenValues(args).filter(value => value !== null).length
+  },
+
+  // Empty cells and formulas returning "" both count as blank
+  COUNTBLANK: {
+    minArgs: 1,
+    maxArgs: 1,
+    acceptsErrors: true,
+    evaluate: ([range]: FormulaValue[]) => flattenValues([range]).filter(value => value === null || value === '').length
+  },
+
+  MIN: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => {
+      const numbers = collectNumbers(args);
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    }
+  },
+
+  MAX: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => {
+      const numbers = collectNumbers(args);
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    }
+  },
+
+  MULTIPLY: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => collectNumbers(args).reduce((product, n) => product * n, 1)
+  },
+
+  PRODUCT: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => {
+      const numbers = collectNumbers(args);
+      return numbers.length > 0 ? checkNumber(numbers.reduce((product, n) => product * n, 1)) : 0;
+    }
+  },
+
+  // Multiplies same-sized arrays element by element and sums the products; non-numbers count as 0
+  SUMPRODUCT: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => {
+      const arrays = args.map(toArray);
+      const [rows, cols] = [arrays[0].length, arrays[0][0].length];
+      if (arrays.some(array => array.length !== rows || array[0].length !== cols)) {
+        throw new FormulaError('#VALUE!', 'SUMPRODUCT arrays must have the same dimensions');
+      }
+
+      let total = 0;
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          let product = 1;
+          for (const array of arrays) {
+            const value = array[row][col];
+            assertNotError(value);
+            product *= typeof value === 'number' ? value : 0;
+          }
+          total += product;
+        }
+      }
+      return checkNumber(total);
+    }
+  },
+
+  DIVIDE: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([numerator, denominator]: FormulaValue[]) => {
+      const divisor = toNumber(denominator);
+      if (divisor === 0) {
+        throw new FormulaError('#DIV/0!', 'Division by zero');
+      }
+      return toNumber(numerator) / divisor;
+    }
+  },
+
+  DIFFERENCE: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([minuend, subtrahend]: FormulaValue[]) => toNumber(minuend) - toNumber(subtrahend)
+  },
+
+  POWER: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([base, exponent]: FormulaValue[]) => {
+      const b = toNumber(base);
+      const e = toNumber(exponent);
+      if (b === 0 && e === 0) {
+        throw new FormulaError('#NUM!', '0^0 is undefined');
+      }
+      return checkNumber(Math.pow(b, e));
+    }
+  },
+
+  SQRT: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]: FormulaValue[]) => {
+      const n = toNumber(value);
+      if (n < 0) {
+        throw new FormulaError('#NUM!', 'SQRT of a negative number');
+      }
+      return Math.sqrt(n);
+    }
+  },
+
+  ROUND: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, digits]: FormulaValue[]) => roundTo(toNumber(value), toNumber(digits))
+  },
+
+  ROUNDUP: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, digits]: FormulaValue[]) => roundDirected(toNumber(value), toNumber(digits), true)
+  },
+
+  ROUNDDOWN: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, digits]: FormulaValue[]) => roundDirected(toNumber(value), toNumber(digits), false)
+  },
+
+  // Rounds to the nearest multiple, halves away from zero; number and multiple must share a sign
+  MROUND: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, multipleArg]: FormulaValue[]) => {
+      const number = toNumber(value);
+      const multiple = toNumber(multipleArg);
+      if (multiple === 0) return 0;
+      if (number * multiple < 0) {
+        throw new FormulaError('#NUM!', 'MROUND number and multiple must have the same sign');
+      }
+      return parseFloat((roundTo(number / multiple, 0) * multiple).toPrecision(15));
+    }
+  },
+
+  // Rounds down to the nearest integer (INT(-2.5) is -3)
+  INT: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]: FormulaValue[]) => Math.floor(toNumber(value))
+  },
+
+  // The remainder takes the sign of the divisor, as in Excel (MOD(-3, 2) is 1)
+  MOD: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, divisorArg]: FormulaValue[]) => {
+      const number = toNumber(value);
+      const divisor = toNumber(divisorArg);
+      if (divisor === 0) {
+        throw new FormulaError('#DIV/0!', 'Division by zero');
+      }
+      return parseFloat((number - divisor * Math.floor(number / divisor)).toPrecision(15));
+    }
+  },
+
+  ABS: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]: FormulaValue[]) => Math.abs(toNumber(value))
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * Function Registry - Single lookup table for every worksheet function the engine supports
+ */
+
+import type { ASTNode } from '../parser';
+import type { FormulaContext } from '../evaluator';
+import type { FormulaValue, LambdaValue } from '../values';
+import type { DateFormat } from '../dates';
+import { mathFunctions } from './math';
+import { logicalFunctions } from './logical';
+import { textFunctions } from './text';
+import { lookupFunctions } from './lookup';
+import { dateFunctions } from './date';
+import { informationFunctions } from './information';
+import { conditionalFunctions } from './conditional';
+import { arrayFunctions } from './array';
+import { financialFunctions } from './financial';
+import { statisticalFunctions } from './statistical';
+import { subtotalFunctions } from './subtotal';
+import { lambdaFunctions } from './lambda';
+
+export interface FunctionContext {
+  context: FormulaContext;
+  /** Evaluate a node in the current formula context (used by lazy functions) */
+  evaluate: (node: ASTNode) => FormulaValue;
+  /** The same context with LET variables or LAMBDA parameters bound to values */
+  withLocals: (bindings: Map<string, FormulaValue>) => FunctionContext;
+  /** Call a LAMBDA with already evaluated arguments; the argument count must match */
+  callLambda: (lambda: LambdaValue, args: FormulaValue[]) => FormulaValue;
+}
+
+export interface FunctionDefinition {
+  minArgs: number;
+  /** Omit for functions that accept any number of arguments */
+  maxArgs?: number;
+  /** When true, `evaluate` receives the unevaluated argument nodes instead of values */
+  lazy?: boolean;
+  /**
+   * Functions that inspect errors (IFERROR, ISERROR) receive error arguments; all others
+   * return the first error argument without running
+   */
+  acceptsErrors?: boolean;
+  /** Volatile functions (TODAY, NOW) are recalculated on every recalculation pass */
+  volatile?: boolean;
+  /** Results that are date/time serials (DATE, NOW) are displayed in this format */
+  resultFormat?: DateFormat;
+  evaluate: (args: any[], ctx: FunctionContext) => FormulaValue;
+}
+
+const registry = new Map<string, FunctionDefinition>(
+  Object.entries({
+    ...mathFunctions,
+    ...logicalFunctions,
+    ...textFunctions,
+    ...lookupFunctions,
+    ...dateFunctions,
+    ...informationFunctions,
+    ...conditionalFunctions,
+    ...arrayFunctions,
+    ...financialFunctions,
+    ...statisticalFunctions,
+    ...subtotalFunctions,
+    ...lambdaFunctions
+  })
+);
+
+export function getFunction(name: string): FunctionDefinition | undefined {
+  return registry.get(name.toUpperCase());
+}
+
+export function getFunctionNames(): string[] {
+  return Array.from(registry.keys()).sort();
+}
@@ -0,0 +1,306 @@
+/**
+ * Statistical Functions - Central tendency, spread, ranking, percentiles and regression
+ */
+
+import type { FunctionDefinition } from './registry';
+import { FormulaError } from '../errors';
+import { FormulaValue, ScalarValue, assertNotError, toNumber } from '../values';
+import { collectNumbers, flattenValues, optional } from './helpers';
+
+/**
+ * Numbers among already-collected values, the way functions read ranges: text, booleans
+ * and blanks are skipped
+ */
+export function numbersIn(values: ScalarValue[]): number[] {
+  return values.filter((value): value is number => typeof value === 'number');
+}
+
+export function average(numbers: number[]): number {
+  if (numbers.length === 0) {
+    throw new FormulaError('#DIV/0!', 'There are no numbers to average');
+  }
+  return numbers.reduce((total, n) => total + n, 0) / numbers.length;
+}
+
+export function median(numbers: number[]): number {
+  if (numbers.length === 0) {
+    throw new FormulaError('#NUM!', 'MEDIAN has no numbers');
+  }
+  const sorted = numbers.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Most frequent number; ties go to the value that appears first
+ */
+export function mode(numbers: number[]): number {
+  const counts = new Map<number, number>();
+  numbers.forEach(n => counts.set(n, (counts.get(n) || 0) + 1));
+
+  let best: number | null = null;
+  numbers.forEach(n => {
+    if (counts.get(n)! > 1 && (best === null || counts.get(n)! > counts.get(best)!)) best = n;
+  });
+  if (best === null) {
+    throw new FormulaError('#N/A', 'No value occurs more than once');
+  }
+  return best;
+}
+
+/**
+ * Variance of a sample (n - 1 denominator) or of a whole population
+ */
+export function variance(numbers: number[], sample: boolean): number {
+  if (numbers.length < (sample ? 2 : 1)) {
+    throw new FormulaError('#DIV/0!', 'Not enough numbers for a variance');
+  }
+  const mean = average(numbers);
+  const squares = numbers.reduce((total, n) => total + (n - mean) * (n - mean), 0);
+  return squares / (numbers.length - (sample ? 1 : 0));
+}
+
+/**
+ * k-th percentile with linear interpolation. Inclusive ranks run 0..n-1 (PERCENTILE.INC);
+ * exclusive ranks are k(n+1) and must land inside the data (PERCENTILE.EXC).
+ */
+export function percentile(numbers: number[], k: number, exclusive: boolean): number {
+  const n = numbers.length;
+  const rank = exclusive ? k * (n + 1) - 1 : k * (n - 1);
+  if (n === 0 || k < 0 || k > 1 || (exclusive && (k <= 0 || k >= 1 || rank < 0 || rank > n - 1))) {
+    throw new FormulaError('#NUM!', 'Percentile is out of range');
+  }
+
+  const sorted = numbers.slice().sort((a, b) => a - b);
+  const lower = Math.floor(rank);
+  const fraction = rank - lower;
+  return lower + 1 < n ? sorted[lower] + fraction * (sorted[lower + 1] - sorted[lower]) : sorted[lower];
+}
+
+export function quartile(numbers: number[], quart: number, exclusive: boolean): number {
+  const q = Math.trunc(quart);
+  if (exclusive ? q <= 0 || q >= 4 : q < 0 || q > 4) {
+    throw new FormulaError('#NUM!', 'Quartile must be between 0 and 4');
+  }
+  return percentile(numbers, q / 4, exclusive);
+}
+
+/**
+ * k-th largest (LARGE) or smallest (SMALL) number; fractional k rounds up
+ */
+export function kth(numbers: number[], k: number, largest: boolean): number {
+  const position = Math.ceil(k);
+  if (position < 1 || position > numbers.length) {
+    throw new FormulaError('#NUM!', 'k is outside the data');
+  }
+  const sorted = numbers.slice().sort((a, b) => (largest ? b - a : a - b));
+  return sorted[position - 1];
+}
+
+/**
+ * Numeric pairs from two equally sized arrays, skipping positions where either is not a number
+ */
+function numericPairs(a: FormulaValue, b: FormulaValue): [number[], number[]] {
+  const xs = flattenValues([a]);
+  const ys = flattenValues([b]);
+  if (xs.length !== ys.length) {
+    throw new FormulaError('#N/A', 'Arrays must have the same number of values');
+  }
+
+  const left: number[] = [];
+  const right: number[] = [];
+  xs.forEach((x, i) => {
+    const y = ys[i];
+    assertNotError(x);
+    assertNotError(y);
+    if (typeof x === 'number' && typeof y === 'number') {
+      left.push(x);
+      right.push(y);
+    }
+  });
+  return [left, right];
+}
+
+/**
+ * Sums of deviation products used by CORREL and FORECAST
+ */
+function covariance(xs: number[], ys: number[]): { xx: number; yy: number; xy: number; meanX: number; meanY: number } {
+  if (xs.length === 0) {
+    throw new FormulaError('#DIV/0!', 'There are no number pairs');
+  }
+  const meanX = average(xs);
+  const meanY = average(ys);
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  xs.forEach((x, i) => {
+    xx += (x - meanX) * (x - meanX);
+    yy += (ys[i] - meanY) * (ys[i] - meanY);
+    xy += (x - meanX) * (ys[i] - meanY);
+  });
+  return { xx, yy, xy, meanX, meanY };
+}
+
+function rankOf(numberArg: FormulaValue, refArg: FormulaValue, orderArg: FormulaValue | undefined): number {
+  const number = toNumber(numberArg);
+  const values = flattenValues([refArg]).filter((value): value is number => typeof value === 'number');
+  if (!values.includes(number)) {
+    throw new FormulaError('#N/A', 'The number is not in the list');
+  }
+  const ascending = optional(orderArg, 0, toNumber) !== 0;
+  return values.filter(value => (ascending ? value < number : value > number)).length + 1;
+}
+
+function forecast(xArg: FormulaValue, knownY: FormulaValue, knownX: FormulaValue): number {
+  const x = toNumber(xArg);
+  const [ys, xs] = numericPairs(knownY, knownX);
+  const { xx, xy, meanX, meanY } = covariance(xs, ys);
+  if (xx === 0) {
+    throw new FormulaError('#DIV/0!', 'Known x values have no variation');
+  }
+  return meanY + (xy / xx) * (x - meanX);
+}
+
+export const statisticalFunctions: Record<string, FunctionDefinition> = {
+  MEDIAN: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => median(collectNumbers(args))
+  },
+
+  MODE: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => mode(collectNumbers(args))
+  },
+
+  'MODE.SNGL': {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => mode(collectNumbers(args))
+  },
+
+  'STDEV.S': {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => Math.sqrt(variance(collectNumbers(args), true))
+  },
+
+  'STDEV.P': {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => Math.sqrt(variance(collectNumbers(args), false))
+  },
+
+  STDEV: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => Math.sqrt(variance(collectNumbers(args), true))
+  },
+
+  STDEVP: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => Math.sqrt(variance(collectNumbers(args), false))
+  },
+
+  'VAR.S': {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => variance(collectNumbers(args), true)
+  },
+
+  'VAR.P': {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => variance(collectNumbers(args), false)
+  },
+
+  VAR: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => variance(collectNumbers(args), true)
+  },
+
+  VARP: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => variance(collectNumbers(args), false)
+  },
+
+  PERCENTILE: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, k]: FormulaValue[]) => percentile(collectNumbers([array]), toNumber(k), false)
+  },
+
+  'PERCENTILE.INC': {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, k]: FormulaValue[]) => percentile(collectNumbers([array]), toNumber(k), false)
+  },
+
+  'PERCENTILE.EXC': {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, k]: FormulaValue[]) => percentile(collectNumbers([array]), toNumber(k), true)
+  },
+
+  QUARTILE: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, quart]: FormulaValue[]) => quartile(collectNumbers([array]), toNumber(quart), false)
+  },
+
+  'QUARTILE.INC': {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, quart]: FormulaValue[]) => quartile(collectNumbers([array]), toNumber(quart), false)
+  },
+
+  'QUARTILE.EXC': {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, quart]: FormulaValue[]) => quartile(collectNumbers([array]), toNumber(quart), true)
+  },
+
+  // Rank of a number in a list; order 0 (default) ranks the largest as 1. Ties share a rank.
+  RANK: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([number, ref, order]: FormulaValue[]) => rankOf(number, ref, order)
+  },
+
+  'RANK.EQ': {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([number, ref, order]: FormulaValue[]) => rankOf(number, ref, order)
+  },
+
+  LARGE: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, k]: FormulaValue[]) => kth(collectNumbers([array]), toNumber(k), true)
+  },
+
+  SMALL: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([array, k]: FormulaValue[]) => kth(collectNumbers([array]), toNumber(k), false)
+  },
+
+  // Pearson correlation coefficient of two data sets
+  CORREL: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([a, b]: FormulaValue[]) => {
+      const { xx, yy, xy } = covariance(...numericPairs(a, b));
+      if (xx === 0 || yy === 0) {
+        throw new FormulaError('#DIV/0!', 'A data set has no variation');
+      }
+      return xy / Math.sqrt(xx * yy);
+    }
+  },
+
+  // Predicts y for x on the least-squares line through known points
+  'FORECAST.LINEAR': {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([x, knownY, knownX]: FormulaValue[]) => forecast(x, knownY, knownX)
+  },
+
+  FORECAST: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([x, knownY, knownX]: FormulaValue[]) => forecast(x, knownY, knownX)
+  }
+};
@@ -0,0 +1,175 @@
+/**
+ * Subtotal Functions - SUBTOTAL and AGGREGATE, which skip rows hidden by a filter and
+ * the results of other subtotals inside the ranges they summarize
+ */
+
+import type { FunctionContext, FunctionDefinition } from './registry';
+import type { ASTNode } from '../parser';
+import type { FormulaContext } from '../evaluator';
+import { FormulaError, isErrorValue } from '../errors';
+import { CellPosition, normalizeRange, parseCellRef, toCellRef } from '../references';
+import { ScalarValue, assertNotError, toNumber } from '../values';
+import { toArray } from './helpers';
+import { average, kth, median, mode, numbersIn, percentile, quartile, variance } from './statistical';
+
+interface SkipOptions {
+  hiddenRows: boolean;
+  nestedSubtotals: boolean;
+  errors: boolean;
+}
+
+/** Summarizes the numbers kept from the references (COUNTA looks at every value) */
+type Aggregate = (numbers: number[], k: number, values: ScalarValue[]) => number;
+
+/** Function numbers shared by SUBTOTAL (1-11) and AGGREGATE (1-19) */
+const AGGREGATES: Record<number, Aggregate> = {
+  1: numbers => average(numbers),
+  2: numbers => numbers.length,
+  3: (_, __, values) => values.filter(value => value !== null).length,
+  4: numbers => (numbers.length ? Math.max(...numbers) : 0),
+  5: numbers => (numbers.length ? Math.min(...numbers) : 0),
+  6: numbers => (numbers.length ? numbers.reduce((product, n) => product * n, 1) : 0),
+  7: numbers => Math.sqrt(variance(numbers, true)),
+  8: numbers => Math.sqrt(variance(numbers, false)),
+  9: numbers => numbers.reduce((total, n) => total + n, 0),
+  10: numbers => variance(numbers, true),
+  11: numbers => variance(numbers, false),
+  12: numbers => median(numbers),
+  13: numbers => mode(numbers),
+  14: (numbers, k) => kth(numbers, k, true),
+  15: (numbers, k) => kth(numbers, k, false),
+  16: (numbers, k) => percentile(numbers, k, false),
+  17: (numbers, k) => quartile(numbers, k, false),
+  18: (numbers, k) => percentile(numbers, k, true),
+  19: (numbers, k) => quartile(numbers, k, true)
+};
+
+function runAggregate(functionNumber: number, values: ScalarValue[], k = 0): number {
+  return AGGREGATES[functionNumber](numbersIn(values), k, values);
+}
+
+/**
+ * AGGREGATE options 0-7: which values to leave out. Nested subtotals are skipped by 0-3.
+ */
+const AGGREGATE_OPTIONS: SkipOptions[] = [
+  { nestedSubtotals: true, hiddenRows: false, errors: false },
+  { nestedSubtotals: true, hiddenRows: true, errors: false },
+  { nestedSubtotals: true, hiddenRows: false, errors: true },
+  { nestedSubtotals: true, hiddenRows: true, errors: true },
+  { nestedSubtotals: false, hiddenRows: false, errors: false },
+  { nestedSubtotals: false, hiddenRows: true, errors: false },
+  { nestedSubtotals: false, hiddenRows: false, errors: true },
+  { nestedSubtotals: false, hiddenRows: true, errors: true }
+];
+
+/**
+ * Where a reference argument reads from: the sheet context and its top-left cell.
+ * Defined names are followed to the reference they stand for. Null for anything else.
+ */
+function locateReference(node: ASTNode, context: FormulaContext): { scope: FormulaContext; start: CellPosition } | null {
+  const scopeOf = (sheet: string | undefined) => {
+    if (!sheet) return context;
+    const scope = context.getSheetContext?.(sheet);
+    if (!scope) throw new FormulaError('#REF!', `Unknown sheet: ${sheet}`);
+    return scope;
+  };
+
+  switch (node.type) {
+    case 'cell': {
+      const start = parseCellRef(node.cellId);
+      return start ? { scope: scopeOf(node.sheet), start } : null;
+    }
+    case 'range': {
+      const bounds = normalizeRange(node.start, node.end);
+      return bounds ? { scope: scopeOf(node.sheet), start: bounds.start } : null;
+    }
+    case 'spill': {
+      const scope = scopeOf(node.sheet);
+      const spill = scope.getSpillRange?.(node.cellId);
+      return spill ? { scope, start: parseCellRef(spill.start)! } : null;
+    }
+    case 'name': {
+      const scope = scopeOf(node.sheet);
+      const definition = scope.resolveName?.(node.name);
+      return definition ? locateReference(definition, scope) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Values of one argument with the skipped ones left out. Only references can be filtered;
+ * other arguments are rejected unless `allowValues` is set (AGGREGATE's array form).
+ */
+function readValues(node: ASTNode, ctx: FunctionContext, skip: SkipOptions, allowValues: boolean): ScalarValue[] {
+  const reference = locateReference(node, ctx.context);
+  if (!reference && !allowValues) {
+    throw new FormulaError('#VALUE!', 'Expected a reference');
+  }
+
+  const value = ctx.evaluate(node);
+  const values: ScalarValue[] = [];
+  toArray(value).forEach((rowValues, r) => {
+    const row = reference ? reference.start.row + r : -1;
+    if (reference && skip.hiddenRows && reference.scope.isRowHidden?.(row)) return;
+
+    rowValues.forEach((item, c) => {
+      if (reference && skip.nestedSubtotals && reference.scope.isSubtotalCell?.(toCellRef(row, reference.start.col + c))) {
+        return;
+      }
+      if (isErrorValue(item)) {
+        if (skip.errors) return;
+        assertNotError(item);
+      }
+      values.push(item);
+    });
+  });
+  return values;
+}
+
+function readFunctionNumber(node: ASTNode, ctx: FunctionContext): number {
+  return Math.trunc(toNumber(ctx.evaluate(node)));
+}
+
+export const subtotalFunctions: Record<string, FunctionDefinition> = {
+  // 1-11 summarize visible rows; 101-111 also leave out manually hidden rows (the same here)
+  SUBTOTAL: {
+    minArgs: 2,
+    lazy: true,
+    evaluate: ([functionArg, ...refs]: ASTNode[], ctx: FunctionContext) => {
+      const functionNumber = readFunctionNumber(functionArg, ctx);
+      const aggregate = functionNumber % 100;
+      if (aggregate < 1 || aggregate > 11 || (functionNumber > 11 && functionNumber < 101) || functionNumber > 111) {
+        throw new FormulaError('#VALUE!', 'Unknown SUBTOTAL function number');
+      }
+
+      const skip = { hiddenRows: true, nestedSubtotals: true, errors: false };
+      const values = refs.flatMap(ref => readValues(ref, ctx, skip, false));
+      return runAggregate(aggregate, values);
+    }
+  },
+
+  // AGGREGATE(function, options, ref1, ...) or, for 14-19, AGGREGATE(function, options, array, k)
+  AGGREGATE: {
+    minArgs: 3,
+    lazy: true,
+    evaluate: ([functionArg, optionsArg, ...refs]: ASTNode[], ctx: FunctionContext) => {
+      const functionNumber = readFunctionNumber(functionArg, ctx);
+      const option = readFunctionNumber(optionsArg, ctx);
+      if (!AGGREGATES[functionNumber] || option < 0 || option > 7) {
+        throw new FormulaError('#VALUE!', 'Unknown AGGREGATE function number or option');
+      }
+      const skip = AGGREGATE_OPTIONS[option];
+
+      if (functionNumber >= 14) {
+        if (refs.length !== 2) {
+          throw new FormulaError('#VALUE!', `AGGREGATE function ${functionNumber} needs an array and k`);
+        }
+        const k = toNumber(ctx.evaluate(refs[1]));
+        return runAggregate(functionNumber, readValues(refs[0], ctx, skip, true), k);
+      }
+      return runAggregate(functionNumber, refs.flatMap(ref => readValues(ref, ctx, skip, false)));
+    }
+  }
+};
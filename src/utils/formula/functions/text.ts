@@ -0,0 +1,418 @@
+/**
+ * Text Functions - String manipulation worksheet functions
+ */
+
+import type { FunctionDefinition } from './registry';
+import { ErrorValue, FormulaError } from '../errors';
+import { formatWithCode } from '../numberFormat';
+import { ArrayValue, FormulaValue, ScalarValue, assertNotError, toBoolean, toNumber, toScalar, toText } from '../values';
+import { escapeRegExp, flattenValues, optional, wildcardPattern } from './helpers';
+
+/** Longest text a cell can hold */
+const MAX_TEXT_LENGTH = 32767;
+
+const VALUE_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+function checkLength(text: string): string {
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new FormulaError('#VALUE!', `Text is longer than ${MAX_TEXT_LENGTH} characters`);
+  }
+  return text;
+}
+
+function nonNegative(value: FormulaValue, what: string): number {
+  const number = Math.trunc(toNumber(value));
+  if (number < 0) {
+    throw new FormulaError('#VALUE!', `${what} must not be negative`);
+  }
+  return number;
+}
+
+/**
+ * Read a 1-based start position that must fall inside the text (or just past its end)
+ */
+function startPosition(value: FormulaValue | undefined, text: string): number {
+  const start = Math.trunc(optional(value, 1, toNumber));
+  if (start < 1 || start > text.length + 1) {
+    throw new FormulaError('#VALUE!', 'Start position is outside the text');
+  }
+  return start;
+}
+
+/**
+ * Delimiters given as a single text or an array of alternatives; null when omitted
+ */
+function readDelimiters(value: FormulaValue | undefined): string[] | null {
+  if (value === undefined || value === null) return null;
+  return flattenValues([value]).map(toText);
+}
+
+function delimiterPattern(delimiters: string[], ignoreCase: boolean): RegExp {
+  if (delimiters.some(delimiter => delimiter === '')) {
+    throw new FormulaError('#VALUE!', 'Delimiters must not be empty');
+  }
+  // Prefer the longest delimiter where several match at the same place
+  const sorted = delimiters.slice().sort((a, b) => b.length - a.length);
+  return new RegExp(sorted.map(escapeRegExp).join('|'), ignoreCase ? 'gi' : 'g');
+}
+
+/**
+ * Locate the nth delimiter for TEXTBEFORE/TEXTAFTER, counting from the end when the
+ * instance is negative. With matchEnd the ends of the text also count as delimiters.
+ */
+function findDelimiter(
+  text: string,
+  delimiters: string[],
+  instance: number,
+  ignoreCase: boolean,
+  matchEnd: boolean
+): { start: number; end: number } | null {
+  if (instance === 0 || Math.abs(instance) > Math.max(text.length, 1)) {
+    throw new FormulaError('#VALUE!', 'Instance number is out of range');
+  }
+
+  const haystack = ignoreCase ? text.toLowerCase() : text;
+  const needles = delimiters.map(delimiter => (ignoreCase ? delimiter.toLowerCase() : delimiter));
+  const count = Math.abs(instance);
+  let found: { start: number; end: number } | null = null;
+
+  if (instance > 0) {
+    let from = 0;
+    for (let n = 1; n <= count; n++) {
+      found = null;
+      needles.forEach(needle => {
+        const start = haystack.indexOf(needle, from);
+        if (start !== -1 && (!found || start < found.start || (start === found.start && needle.length > found.end - found.start))) {
+          found = { start, end: start + needle.length };
+        }
+      });
+      if (!found) return matchEnd && n === count ? { start: text.length, end: text.length } : null;
+      from = Math.max(found.end, found.start + 1);
+    }
+  } else {
+    let until = text.length;
+    for (let n = 1; n <= count; n++) {
+      found = null;
+      needles.forEach(needle => {
+        const start = until - needle.length < 0 ? -1 : haystack.lastIndexOf(needle, until - needle.length);
+        if (start !== -1 && (!found || start > found.start || (start === found.start && needle.length > found.end - found.start))) {
+          found = { start, end: start + needle.length };
+        }
+      });
+      if (!found) return matchEnd && n === count ? { start: 0, end: 0 } : null;
+      until = Math.min(found.start, found.end - 1);
+    }
+  }
+  return found;
+}
+
+/**
+ * Shared TEXTBEFORE/TEXTAFTER argument handling
+ */
+function textAround(args: FormulaValue[], pick: (text: string, match: { start: number; end: number }) => string): FormulaValue {
+  const [textArg, delimiterArg, instanceArg, matchModeArg, matchEndArg, ifNotFound] = args;
+  const text = toText(textArg);
+  const delimiters = readDelimiters(delimiterArg) || [''];
+  const match = findDelimiter(
+    text,
+    delimiters,
+    Math.trunc(optional(instanceArg, 1, toNumber)),
+    optional(matchModeArg, 0, toNumber) === 1,
+    optional(matchEndArg, false, toBoolean)
+  );
+
+  if (!match) {
+    if (ifNotFound !== undefined) return ifNotFound;
+    throw new FormulaError('#N/A', 'Delimiter not found');
+  }
+  return pick(text, match);
+}
+
+/**
+ * VALUE: numbers as typed in a cell, including dates, times, percentages, currency
+ * and thousands separators ("$1,250.50", "(42)", "15%")
+ */
+function parseValue(text: string): number {
+  try {
+    return toNumber(text);
+  } catch {
+    // Fall through to the looser number formats below
+  }
+
+  let body = text.trim();
+  let sign = 1;
+  let scale = 1;
+  if (/^\(.*\)$/.test(body)) {
+    sign = -1;
+    body = body.slice(1, -1).trim();
+  }
+  if (body.endsWith('%')) {
+    scale = 0.01;
+    body = body.slice(0, -1).trim();
+  }
+  body = body.replace(/^([+-]?)\s*\$\s*/, '$1').replace(/,(?=\d{3}(?!\d))/g, '');
+
+  if (!VALUE_PATTERN.test(body)) {
+    throw new FormulaError('#VALUE!', `Cannot convert "${text}" to a number`);
+  }
+  return sign * parseFloat(body) * scale;
+}
+
+export const textFunctions: Record<string, FunctionDefinition> = {
+  CONCAT: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => checkLength(flattenValues(args).map(toText).join(''))
+  },
+
+  CONCATENATE: {
+    minArgs: 1,
+    evaluate: (args: FormulaValue[]) => checkLength(args.map(toText).join(''))
+  },
+
+  // Joins text with a delimiter; several delimiters are used in turn
+  TEXTJOIN: {
+    minArgs: 3,
+    evaluate: ([delimiterArg, ignoreEmptyArg, ...texts]: FormulaValue[]) => {
+      const delimiters = readDelimiters(delimiterArg) || [''];
+      const ignoreEmpty = toBoolean(ignoreEmptyArg);
+      const parts = flattenValues(texts)
+        .map(toText)
+        .filter(text => !ignoreEmpty || text !== '');
+      return checkLength(parts.reduce(
+        (joined, part, i) => (i === 0 ? part : joined + delimiters[(i - 1) % delimiters.length] + part),
+        ''
+      ));
+    }
+  },
+
+  LEFT: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([text, count]: FormulaValue[]) =>
+      toText(text).substring(0, count === undefined ? 1 : nonNegative(count, 'Number of characters'))
+  },
+
+  RIGHT: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([text, count]: FormulaValue[]) => {
+      const value = toText(text);
+      const n = count === undefined ? 1 : nonNegative(count, 'Number of characters');
+      return n === 0 ? '' : value.substring(Math.max(value.length - n, 0));
+    }
+  },
+
+  MID: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([text, startArg, count]: FormulaValue[]) => {
+      const start = Math.trunc(toNumber(startArg));
+      if (start < 1) {
+        throw new FormulaError('#VALUE!', 'MID start must be at least 1');
+      }
+      return toText(text).substr(start - 1, nonNegative(count, 'Number of characters'));
+    }
+  },
+
+  UPPER: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]: FormulaValue[]) => toText(text).toUpperCase()
+  },
+
+  LOWER: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]: FormulaValue[]) => toText(text).toLowerCase()
+  },
+
+  // Capitalizes every letter that follows a non-letter ("o'neil-smith" -> "O'Neil-Smith")
+  PROPER: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]: FormulaValue[]) => {
+      let afterLetter = false;
+      return Array.from(toText(text)).map(char => {
+        const isLetter = char.toLowerCase() !== char.toUpperCase();
+        const result = isLetter && !afterLetter ? char.toUpperCase() : char.toLowerCase();
+        afterLetter = isLetter;
+        return result;
+      }).join('');
+    }
+  },
+
+  TRIM: {
+    minArgs: 1,
+    maxArgs: 1,
+    // Excel's TRIM also collapses runs of inner spaces to a single space
+    evaluate: ([text]: FormulaValue[]) => toText(text).trim().replace(/ {2,}/g, ' ')
+  },
+
+  LEN: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]: FormulaValue[]) => toText(text).length
+  },
+
+  // Case-sensitive, no wildcards
+  FIND: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([findArg, withinArg, startArg]: FormulaValue[]) => {
+      const within = toText(withinArg);
+      const start = startPosition(startArg, within);
+      const index = within.indexOf(toText(findArg), start - 1);
+      if (index === -1) {
+        throw new FormulaError('#VALUE!', 'Text not found');
+      }
+      return index + 1;
+    }
+  },
+
+  // Case-insensitive, supports * and ? wildcards
+  SEARCH: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([findArg, withinArg, startArg]: FormulaValue[]) => {
+      const find = toText(findArg);
+      const within = toText(withinArg);
+      const start = startPosition(startArg, within);
+      const rest = within.substring(start - 1);
+      const pattern = wildcardPattern(find, false);
+      const index = pattern ? rest.search(pattern) : rest.toLowerCase().indexOf(find.toLowerCase());
+      if (index === -1) {
+        throw new FormulaError('#VALUE!', 'Text not found');
+      }
+      return index + start;
+    }
+  },
+
+  // Replaces every occurrence, or only the given instance
+  SUBSTITUTE: {
+    minArgs: 3,
+    maxArgs: 4,
+    evaluate: ([textArg, oldArg, newArg, instanceArg]: FormulaValue[]) => {
+      const text = toText(textArg);
+      const oldText = toText(oldArg);
+      const newText = toText(newArg);
+      if (oldText === '') return text;
+      if (instanceArg === undefined) return checkLength(text.split(oldText).join(newText));
+
+      const instance = Math.trunc(toNumber(instanceArg));
+      if (instance < 1) {
+        throw new FormulaError('#VALUE!', 'SUBSTITUTE instance must be at least 1');
+      }
+      let index = -1;
+      for (let n = 0; n < instance; n++) {
+        index = text.indexOf(oldText, index + (n === 0 ? 0 : oldText.length));
+        if (index === -1) return text;
+      }
+      return checkLength(text.substring(0, index) + newText + text.substring(index + oldText.length));
+    }
+  },
+
+  REPLACE: {
+    minArgs: 4,
+    maxArgs: 4,
+    evaluate: ([textArg, startArg, countArg, newArg]: FormulaValue[]) => {
+      const text = toText(textArg);
+      const start = Math.trunc(toNumber(startArg));
+      if (start < 1) {
+        throw new FormulaError('#VALUE!', 'REPLACE start must be at least 1');
+      }
+      const count = nonNegative(countArg, 'Number of characters');
+      return checkLength(text.substring(0, start - 1) + toText(newArg) + text.substring(start - 1 + count));
+    }
+  },
+
+  REPT: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([text, countArg]: FormulaValue[]) => {
+      const value = toText(text);
+      const count = nonNegative(countArg, 'Repeat count');
+      if (value.length * count > MAX_TEXT_LENGTH) {
+        throw new FormulaError('#VALUE!', `Text is longer than ${MAX_TEXT_LENGTH} characters`);
+      }
+      return value.repeat(count);
+    }
+  },
+
+  EXACT: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([a, b]: FormulaValue[]) => toText(a) === toText(b)
+  },
+
+  VALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]: FormulaValue[]) => {
+      const scalar = toScalar(text);
+      assertNotError(scalar);
+      return typeof scalar === 'string' ? parseValue(scalar) : toNumber(scalar);
+    }
+  },
+
+  // Formats a number with an Excel format code ("$#,##0.00", "yyyy-mm-dd", "0%")
+  TEXT: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([valueArg, formatArg]: FormulaValue[]) => {
+      const scalar = toScalar(valueArg);
+      assertNotError(scalar);
+      const format = toText(formatArg);
+
+      let value: ScalarValue = scalar;
+      if (typeof scalar === 'string') {
+        try {
+          value = toNumber(scalar);
+        } catch {
+          // Text that is not a number goes through the format's text section
+        }
+      }
+      return formatWithCode(value, format).text;
+    }
+  },
+
+  // Splits text into a spilled array of columns (and rows), padding ragged rows
+  TEXTSPLIT: {
+    minArgs: 2,
+    maxArgs: 6,
+    evaluate: ([textArg, colArg, rowArg, ignoreEmptyArg, matchModeArg, padArg]: FormulaValue[]) => {
+      const text = toText(textArg);
+      const columnDelimiters = readDelimiters(colArg);
+      const rowDelimiters = readDelimiters(rowArg);
+      if (!columnDelimiters && !rowDelimiters) {
+        throw new FormulaError('#VALUE!', 'TEXTSPLIT needs a column or row delimiter');
+      }
+      const ignoreEmpty = optional(ignoreEmptyArg, false, toBoolean);
+      const ignoreCase = optional(matchModeArg, 0, toNumber) === 1;
+      const pad: ScalarValue = padArg === undefined ? new ErrorValue('#N/A') : toScalar(padArg);
+
+      const split = (value: string, delimiters: string[] | null) => {
+        const parts = delimiters ? value.split(delimiterPattern(delimiters, ignoreCase)) : [value];
+        return ignoreEmpty ? parts.filter(part => part !== '') : parts;
+      };
+
+      const rows = split(text, rowDelimiters).map(row => split(row, columnDelimiters));
+      const width = Math.max(0, ...rows.map(row => row.length));
+      if (rows.length === 0 || width === 0) {
+        throw new FormulaError('#CALC!', 'TEXTSPLIT returned no results');
+      }
+      return rows.map(row => [...row, ...new Array(width - row.length).fill(pad)]) as ArrayValue;
+    }
+  },
+
+  TEXTBEFORE: {
+    minArgs: 2,
+    maxArgs: 6,
+    evaluate: (args: FormulaValue[]) => textAround(args, (text, match) => text.substring(0, match.start))
+  },
+
+  TEXTAFTER: {
+    minArgs: 2,
+    maxArgs: 6,
+    evaluate: (args: FormulaValue[]) => textAround(args, (text, match) => text.substring(match.end))
+  }
+};
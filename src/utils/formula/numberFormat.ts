@@ -0,0 +1,582 @@
+/**
+ * Number Format Codes - Renders values through Excel format codes ("#,##0.00", "0%",
+ * "yyyy-mm-dd", "[h]:mm", "# ?/?", "[Red]-0.0;0.0") as used by TEXT()
+ *
+ * Codes are written with Excel's US syntax ("." decimal point, "," thousands separator);
+ * the output uses the separators and month/day names of the display locale.
+ */
+
+import { FormulaError, isErrorValue } from './errors';
+import { MAX_DATE_SERIAL, dayOfWeek, serialToDate } from './dates';
+import { ScalarValue, formatNumber } from './values';
+import { roundTo } from './functions/helpers';
+
+export interface FormatLocale {
+  decimal: string;
+  group: string;
+  monthNames: string[];
+  monthAbbreviations: string[];
+  dayNames: string[];
+  dayAbbreviations: string[];
+}
+
+export interface FormattedValue {
+  text: string;
+  /** Color requested by the code ("[Red]"), lowercased */
+  color?: string;
+}
+
+export type FormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'digit'; char: '0' | '#' | '?' }
+  | { type: 'point' }
+  | { type: 'comma' }
+  | { type: 'percent' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  | { type: 'slash' }
+  | { type: 'date'; code: string }
+  | { type: 'ampm'; code: string }
+  | { type: 'elapsed'; unit: string; width: number }
+  | { type: 'text' }
+  | { type: 'general' };
+
+export interface FormatSection {
+  tokens: FormatToken[];
+  color?: string;
+  condition?: { operator: string; value: number };
+}
+
+const SECONDS_PER_DAY = 86400;
+const COLORS = ['black', 'blue', 'cyan', 'green', 'magenta', 'red', 'white', 'yellow'];
+const CONDITION_PATTERN = /^(<=|>=|<>|<|>|=)\s*(-?\d+(?:\.\d+)?)$/;
+
+const SYMBOL_TOKENS: Record<string, FormatToken> = {
+  '.': { type: 'point' },
+  ',': { type: 'comma' },
+  '%': { type: 'percent' },
+  '/': { type: 'slash' },
+  '@': { type: 'text' }
+};
+
+const locales = new Map<string, FormatLocale>();
+
+/**
+ * Separators and names for a BCP 47 locale tag; defaults to the browser's language
+ */
+export function getFormatLocale(tag?: string): FormatLocale {
+  const resolved = tag || (typeof navigator !== 'undefined' && navigator.language) || 'en-US';
+  let locale = locales.get(resolved);
+  if (locale) return locale;
+
+  const parts = new Intl.NumberFormat(resolved).formatToParts(1234567.5);
+  const name = (options: Intl.DateTimeFormatOptions, date: (i: number) => Date, count: number) => {
+    const format = new Intl.DateTimeFormat(resolved, { ...options, timeZone: 'UTC' });
+    return Array.from({ length: count }, (_, i) => format.format(date(i)));
+  };
+  // 2023-01-01 was a Sunday, so day i of that week is weekday i
+  const month = (i: number) => new Date(Date.UTC(2023, i, 1));
+  const day = (i: number) => new Date(Date.UTC(2023, 0, 1 + i));
+
+  locale = {
+    decimal: parts.find(part => part.type === 'decimal')?.value || '.',
+    group: parts.find(part => part.type === 'group')?.value || ',',
+    monthNames: name({ month: 'long' }, month, 12),
+    monthAbbreviations: name({ month: 'short' }, month, 12),
+    dayNames: name({ weekday: 'long' }, day, 7),
+    dayAbbreviations: name({ weekday: 'short' }, day, 7)
+  };
+  locales.set(resolved, locale);
+  return locale;
+}
+
+/**
+ * Split a format code into its sections (positive;negative;zero;text) and tokens
+ */
+export function parseFormatCode(code: string): FormatSection[] {
+  const sections: FormatSection[] = [];
+  let section: FormatSection = { tokens: [] };
+  const literal = (text: string) => section.tokens.push({ type: 'literal', text });
+
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i];
+    const rest = code.substring(i);
+
+    if (char === ';') {
+      sections.push(section);
+      section = { tokens: [] };
+      i++;
+    } else if (char === '"') {
+      const end = code.indexOf('"', i + 1);
+      literal(code.substring(i + 1, end === -1 ? code.length : end));
+      i = end === -1 ? code.length : end + 1;
+    } else if (char === '\\') {
+      literal(code[i + 1] || '');
+      i += 2;
+    } else if (char === '_') {
+      // Space as wide as the next character
+      literal(' ');
+      i += 2;
+    } else if (char === '*') {
+      // Repeat the next character to fill the cell; there is no cell width here
+      i += 2;
+    } else if (char === '[') {
+      const end = code.indexOf(']', i);
+      const content = code.substring(i + 1, end === -1 ? code.length : end);
+      readBracket(section, content);
+      i = end === -1 ? code.length : end + 1;
+    } else if (/^general/i.test(rest)) {
+      section.tokens.push({ type: 'general' });
+      i += 7;
+    } else if (/^am\/pm/i.test(rest)) {
+      section.tokens.push({ type: 'ampm', code: 'AM/PM' });
+      i += 5;
+    } else if (/^a\/p/i.test(rest)) {
+      section.tokens.push({ type: 'ampm', code: rest.substring(0, 3) });
+      i += 3;
+    } else if (char === '0' || char === '#' || char === '?') {
+      section.tokens.push({ type: 'digit', char });
+      i++;
+    } else if (/^[eE][+-]/.test(rest)) {
+      section.tokens.push({ type: 'exponent', sign: rest[1] as '+' | '-' });
+      i += 2;
+    } else if (/[ymdhs]/i.test(char)) {
+      const run = rest.match(new RegExp(`^${char}+`, 'i'))![0];
+      section.tokens.push({ type: 'date', code: run.toLowerCase() });
+      i += run.length;
+    } else {
+      section.tokens.push(SYMBOL_TOKENS[char] || { type: 'literal', text: char });
+      i++;
+    }
+  }
+  sections.push(section);
+  return sections;
+}
+
+/**
+ * Bracketed parts of a code: colors, conditions, elapsed time and currency/locale tags
+ */
+function readBracket(section: FormatSection, content: string) {
+  const lower = content.toLowerCase();
+  const condition = content.match(CONDITION_PATTERN);
+
+  if (COLORS.includes(lower) || /^color\d+$/.test(lower)) {
+    section.color = lower;
+  } else if (condition) {
+    section.condition = { operator: condition[1], value: parseFloat(condition[2]) };
+  } else if (/^(h+|m+|s+)$/.test(lower)) {
+    section.tokens.push({ type: 'elapsed', unit: lower[0], width: lower.length });
+  } else if (content.startsWith('$')) {
+    // [$€-407]: currency symbol followed by an optional locale ID
+    const symbol = content.substring(1).split('-')[0];
+    if (symbol) section.tokens.push({ type: 'literal', text: symbol });
+  }
+}
+
+function testCondition(condition: { operator: string; value: number }, value: number): boolean {
+  switch (condition.operator) {
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+    case '<>': return value !== condition.value;
+    default: return value === condition.value;
+  }
+}
+
+/**
+ * Pick the section for a number. Without conditions sections are positive;negative;zero,
+ * and the negative section shows the value without its minus sign.
+ */
+function chooseSection(sections: FormatSection[], value: number): { section: FormatSection; signed: boolean } {
+  const numeric = sections.slice(0, 3);
+
+  if (numeric.some(section => section.condition)) {
+    const matched = numeric.find(section => section.condition && testCondition(section.condition, value));
+    const fallback = numeric.find(section => !section.condition) || numeric[numeric.length - 1];
+    const section = matched || fallback;
+    return { section, signed: numeric.indexOf(section) === 0 || !matched };
+  }
+
+  if (value < 0 && numeric.length > 1) return { section: numeric[1], signed: false };
+  if (value === 0 && numeric.length > 2) return { section: numeric[2], signed: false };
+  return { section: numeric[0], signed: true };
+}
+
+function isDateSection(tokens: FormatToken[]): boolean {
+  return tokens.some(token => token.type === 'date' || token.type === 'ampm' || token.type === 'elapsed');
+}
+
+/**
+ * Format a value with an Excel number format code
+ */
+export function formatWithCode(value: ScalarValue, code: string, locale: FormatLocale = getFormatLocale()): FormattedValue {
+  const sections = parseFormatCode(code);
+
+  if (typeof value === 'string') {
+    const section = sections.length >= 4
+      ? sections[3]
+      : sections.find(candidate => candidate.tokens.some(token => token.type === 'text'));
+    if (!section) return { text: value };
+    return { text: renderLiterals(section.tokens, value), color: section.color };
+  }
+  if (typeof value === 'boolean') return { text: value ? 'TRUE' : 'FALSE' };
+
+  const number = value === null ? 0 : Number(value);
+  const { section, signed } = chooseSection(sections, number);
+  const text = isDateSection(section.tokens)
+    ? formatDate(number, section.tokens, locale)
+    : formatNumberSection(signed ? number : Math.abs(number), section.tokens, locale);
+  return { text, color: section.color };
+}
+
+/**
+ * Text a cell shows for its value under a format code. Errors show their code, and dates
+ * the code cannot show (negative or past 9999) fill the cell with "#", as in Excel.
+ */
+export function formatCellValue(value: ScalarValue, code: string, locale: FormatLocale = getFormatLocale()): FormattedValue {
+  if (isErrorValue(value)) return { text: value.code };
+  try {
+    return formatWithCode(value, code, locale);
+  } catch {
+    return { text: '########' };
+  }
+}
+
+/**
+ * Why a format code cannot be used, or null when it can. Codes Excel would reject are
+ * refused rather than shown differently from Excel.
+ */
+export function validateFormatCode(code: string): string | null {
+  if (code.trim() === '') return 'Enter a format code';
+  let sections = 1;
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (char === '"') {
+      const end = code.indexOf('"', i + 1);
+      if (end === -1) return 'A quoted text is not closed';
+      i = end;
+    } else if (char === '\\' || char === '_' || char === '*') {
+      if (i + 1 >= code.length) return `${char} must be followed by a character`;
+      i++;
+    } else if (char === '[') {
+      const end = code.indexOf(']', i);
+      if (end === -1) return 'A [ is not closed';
+      const content = code.substring(i + 1, end);
+      const lower = content.toLowerCase();
+      const known = COLORS.includes(lower) || /^color([1-9]|[1-4]\d|5[0-6])$/.test(lower)
+        || CONDITION_PATTERN.test(content) || /^(h+|m+|s+)$/.test(lower) || content.startsWith('$');
+      if (!known) return `[${content}] is not a color, condition or currency`;
+      i = end;
+    } else if (char === ';') {
+      if (++sections > 4) return 'A format code has at most four sections';
+    }
+  }
+  return null;
+}
+
+function renderLiterals(tokens: FormatToken[], text: string): string {
+  return tokens.map(token => {
+    switch (token.type) {
+      case 'literal': return token.text;
+      case 'text': return text;
+      case 'point': return '.';
+      case 'comma': return ',';
+      case 'percent': return '%';
+      case 'slash': return '/';
+      default: return '';
+    }
+  }).join('');
+}
+
+/**
+ * Render a number through the digit placeholders of a section:
+ * 0 shows a digit or zero, # a digit only if significant, ? a digit or a space
+ */
+function formatNumberSection(value: number, tokens: FormatToken[], locale: FormatLocale): string {
+  const sign = value < 0 ? '-' : '';
+  let abs = Math.abs(value);
+
+  // A text placeholder (@) shows a number as General does
+  const general = tokens.findIndex(token => token.type === 'general' || token.type === 'text');
+  if (general !== -1) {
+    const text = formatNumber(abs).replace('.', locale.decimal);
+    return sign + tokens.map(token => token.type === 'general' || token.type === 'text' ? text : renderLiterals([token], '')).join('');
+  }
+
+  const slash = tokens.findIndex((token, i) =>
+    token.type === 'slash' && tokens[i - 1]?.type === 'digit' && i + 1 < tokens.length
+  );
+  if (slash !== -1) {
+    const text = formatFraction(abs, tokens, slash);
+    return /[1-9]/.test(text) ? sign + text : text;
+  }
+
+  const exponentAt = tokens.findIndex(token => token.type === 'exponent');
+  const numberEnd = exponentAt === -1 ? tokens.length : exponentAt;
+  const pointAt = tokens.findIndex((token, i) => token.type === 'point' && i < numberEnd);
+  const intEnd = pointAt === -1 ? numberEnd : pointAt;
+
+  const digitIndexes = (from: number, to: number) =>
+    tokens.slice(from, to).map((token, i) => (token.type === 'digit' ? from + i : -1)).filter(i => i !== -1);
+  const intDigits = digitIndexes(0, intEnd);
+  const fracDigits = pointAt === -1 ? [] : digitIndexes(pointAt + 1, numberEnd);
+  const lastIntDigit = intDigits[intDigits.length - 1] ?? -1;
+
+  // Commas between placeholders group thousands; commas after the last one scale by 1000,
+  // whether it is a whole or a decimal digit ("#,##0.0," shows thousands)
+  let grouping = false;
+  let scaling = 0;
+  tokens.slice(0, intEnd).forEach((token, i) => {
+    if (token.type !== 'comma') return;
+    if (i > intDigits[0] && i < lastIntDigit) grouping = true;
+    else if (i > lastIntDigit && lastIntDigit !== -1) scaling++;
+  });
+  if (fracDigits.length > 0) {
+    for (let i = fracDigits[fracDigits.length - 1] + 1; i < numberEnd && tokens[i].type === 'comma'; i++) scaling++;
+  }
+  const percents = tokens.filter(token => token.type === 'percent').length;
+  abs = abs * Math.pow(100, percents) / Math.pow(1000, scaling);
+
+  let exponent = 0;
+  if (exponentAt !== -1 && abs !== 0) {
+    const width = Math.max(intDigits.length, 1);
+    exponent = Math.floor(Math.log10(abs));
+    const engineering = width > 1 && intDigits.some(i => (tokens[i] as { char: string }).char === '#');
+    exponent = engineering ? Math.floor(exponent / width) * width : exponent - (width - 1);
+    abs = abs / Math.pow(10, exponent);
+    // Rounding can carry the mantissa over to the next power of ten (9.99 -> 10.0)
+    if (roundTo(abs, fracDigits.length) >= Math.pow(10, width)) {
+      const shift = engineering ? width : 1;
+      abs /= Math.pow(10, shift);
+      exponent += shift;
+    }
+  }
+
+  const rounded = roundTo(abs, fracDigits.length);
+  const [wholeText, fracText = ''] = rounded.toFixed(fracDigits.length).split('.');
+  let whole = wholeText === '0' ? '' : wholeText;
+  const lastSignificant = fracText.replace(/0+$/, '').length;
+
+  // Literals keep their place; commas inside the number only affect grouping and scaling
+  const out = tokens.map((token, i) => (token.type === 'comma' && i < numberEnd ? '' : renderToken(token)));
+
+  let shown = 0;
+  intDigits.slice().reverse().forEach(index => {
+    const char = (tokens[index] as { char: string }).char;
+    let chunk = index === intDigits[0] ? whole : whole.slice(-1);
+    whole = index === intDigits[0] ? '' : whole.slice(0, -1);
+    if (chunk === '') chunk = char === '0' ? '0' : char === '?' ? ' ' : '';
+
+    let text = '';
+    for (let c = chunk.length - 1; c >= 0; c--) {
+      if (grouping && shown > 0 && shown % 3 === 0 && chunk[c] !== ' ') text = locale.group + text;
+      text = chunk[c] + text;
+      if (chunk[c] !== ' ') shown++;
+    }
+    out[index] = text;
+  });
+
+  fracDigits.forEach((index, position) => {
+    const char = (tokens[index] as { char: string }).char;
+    out[index] = position < lastSignificant ? fracText[position] : char === '0' ? '0' : char === '?' ? ' ' : '';
+  });
+  if (pointAt !== -1) out[pointAt] = locale.decimal;
+
+  if (exponentAt !== -1) {
+    const token = tokens[exponentAt] as { sign: string };
+    const digits = digitIndexes(exponentAt + 1, tokens.length);
+    const width = digits.filter(index => (tokens[index] as { char: string }).char === '0').length;
+    const exponentSign = exponent < 0 ? '-' : token.sign === '+' ? '+' : '';
+    out[exponentAt] = `E${exponentSign}${String(Math.abs(exponent)).padStart(width, '0')}`;
+    digits.forEach(index => { out[index] = ''; });
+  }
+
+  return (rounded === 0 ? '' : sign) + out.join('');
+}
+
+function renderToken(token: FormatToken): string {
+  switch (token.type) {
+    case 'literal': return token.text;
+    case 'percent': return '%';
+    case 'slash': return '/';
+    case 'comma': return ',';
+    case 'point': return '.';
+    case 'digit': return token.char === '0' ? '0' : '';
+    default: return '';
+  }
+}
+
+/**
+ * Fractions: "# ?/?" (mixed), "?/?" (improper), "# ?/8" (fixed denominator)
+ */
+function formatFraction(abs: number, tokens: FormatToken[], slash: number): string {
+  let numeratorStart = slash;
+  while (numeratorStart > 0 && tokens[numeratorStart - 1].type === 'digit') numeratorStart--;
+  const wholeDigits = tokens.slice(0, numeratorStart).filter(token => token.type === 'digit') as { char: string }[];
+  const mixed = wholeDigits.length > 0;
+
+  let denominatorEnd = slash + 1;
+  let fixed = '';
+  while (denominatorEnd < tokens.length) {
+    const token = tokens[denominatorEnd];
+    if (token.type === 'literal' && /^\d$/.test(token.text)) fixed += token.text;
+    else if (token.type !== 'digit' || fixed) break;
+    denominatorEnd++;
+  }
+  const denominatorDigits = tokens.slice(slash + 1, denominatorEnd).filter(token => token.type === 'digit') as { char: string }[];
+
+  let whole = mixed ? Math.floor(abs) : 0;
+  const fraction = abs - whole;
+  let denominator: number;
+  let numerator: number;
+  if (fixed) {
+    denominator = parseInt(fixed, 10) || 1;
+    numerator = Math.round(fraction * denominator);
+  } else {
+    const maxDenominator = Math.pow(10, denominatorDigits.length) - 1;
+    denominator = 1;
+    numerator = Math.round(fraction);
+    for (let d = 1; d <= maxDenominator; d++) {
+      const n = Math.round(fraction * d);
+      if (Math.abs(fraction - n / d) < Math.abs(fraction - numerator / denominator) - 1e-12) {
+        denominator = d;
+        numerator = n;
+      }
+    }
+  }
+  if (mixed && numerator === denominator) {
+    whole++;
+    numerator = 0;
+  }
+
+  const pad = (text: string, placeholders: { char: string }[], alignLeft = false) => {
+    if (text.length >= placeholders.length) return text;
+    const fill = placeholders.slice(0, placeholders.length - text.length).map(p => (p.char === '0' ? '0' : p.char === '?' ? ' ' : '')).join('');
+    return alignLeft ? text + fill.replace(/0/g, ' ') : fill + text;
+  };
+  const numeratorDigits = tokens.slice(numeratorStart, slash) as { char: string }[];
+  const denominatorText = fixed || String(denominator);
+  const fractionWidth = numeratorDigits.length + 1 + Math.max(denominatorText.length, denominatorDigits.length);
+  const fractionText = mixed && numerator === 0
+    ? ' '.repeat(fractionWidth)
+    : `${pad(String(numerator), numeratorDigits)}/${pad(denominatorText, denominatorDigits, true)}`;
+
+  const wholeText = whole === 0 ? (numerator === 0 ? '0' : '') : String(whole);
+  const prefix = tokens.slice(0, numeratorStart);
+  let wholeRendered = false;
+  const head = prefix.map(token => {
+    if (token.type !== 'digit') return renderToken(token);
+    if (wholeRendered) return '';
+    wholeRendered = true;
+    return pad(wholeText, wholeDigits);
+  }).join('');
+  const tail = tokens.slice(denominatorEnd).map(renderToken).join('');
+  return head + fractionText + tail;
+}
+
+/**
+ * Render a date/time serial through y/m/d/h/s codes, AM/PM and elapsed time ([h]:mm)
+ */
+function formatDate(serial: number, tokens: FormatToken[], locale: FormatLocale): string {
+  if (serial < 0 || serial >= MAX_DATE_SERIAL + 1) {
+    throw new FormulaError('#VALUE!', 'Value is outside the range of dates');
+  }
+
+  // Fractional seconds ("ss.00") set how finely the time is rounded
+  let secondDecimals = 0;
+  tokens.forEach((token, i) => {
+    if (token.type === 'point' && isSecondsToken(tokens[i - 1])) {
+      let count = 0;
+      while (tokens[i + 1 + count]?.type === 'digit') count++;
+      secondDecimals = Math.max(secondDecimals, Math.min(count, 3));
+    }
+  });
+  const scale = Math.pow(10, secondDecimals);
+  const totalUnits = Math.round(serial * SECONDS_PER_DAY * scale);
+  const totalSeconds = Math.floor(totalUnits / scale);
+  const subSecond = String(totalUnits % scale).padStart(secondDecimals, '0');
+
+  const day = Math.floor(totalSeconds / SECONDS_PER_DAY);
+  const { year, month, day: dayOfMonth } = serialToDate(day);
+  const secondsOfDay = totalSeconds % SECONDS_PER_DAY;
+  const hours = Math.floor(secondsOfDay / 3600);
+  const minutes = Math.floor(secondsOfDay / 60) % 60;
+  const seconds = secondsOfDay % 60;
+  const twelveHour = tokens.some(token => token.type === 'ampm');
+  const pad = (n: number, width: number) => String(n).padStart(width, '0');
+
+  const out: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'date') {
+      const width = token.code.length;
+      switch (token.code[0]) {
+        case 'y':
+          out.push(width <= 2 ? pad(year % 100, 2) : pad(year, 4));
+          break;
+        case 'm':
+          if (width <= 2 && isMinutes(tokens, i)) {
+            out.push(pad(minutes, width));
+          } else if (width <= 2) {
+            out.push(pad(month, width));
+          } else if (width === 3) {
+            out.push(locale.monthAbbreviations[month - 1]);
+          } else if (width === 5) {
+            out.push(locale.monthNames[month - 1][0]);
+          } else {
+            out.push(locale.monthNames[month - 1]);
+          }
+          break;
+        case 'd':
+          if (width <= 2) out.push(pad(dayOfMonth, width));
+          else if (width === 3) out.push(locale.dayAbbreviations[dayOfWeek(day)]);
+          else out.push(locale.dayNames[dayOfWeek(day)]);
+          break;
+        case 'h':
+          out.push(pad(twelveHour ? hours % 12 || 12 : hours, Math.min(width, 2)));
+          break;
+        case 's':
+          out.push(pad(seconds, Math.min(width, 2)));
+          break;
+      }
+    } else if (token.type === 'elapsed') {
+      const units = token.unit === 'h' ? totalSeconds / 3600 : token.unit === 'm' ? totalSeconds / 60 : totalSeconds;
+      out.push(pad(Math.floor(units), token.width));
+    } else if (token.type === 'ampm') {
+      const pm = hours >= 12;
+      if (token.code === 'AM/PM') out.push(pm ? 'PM' : 'AM');
+      else out.push(pm ? token.code[2] : token.code[0]);
+    } else if (token.type === 'point' && isSecondsToken(tokens[i - 1]) && tokens[i + 1]?.type === 'digit') {
+      let count = 0;
+      while (tokens[i + 1 + count]?.type === 'digit') count++;
+      out.push(locale.decimal + subSecond.substring(0, count).padEnd(count, '0'));
+      i += count;
+    } else {
+      out.push(renderToken(token));
+    }
+  }
+  return out.join('');
+}
+
+function isSecondsToken(token: FormatToken | undefined): boolean {
+  return (token?.type === 'date' && token.code[0] === 's') || (token?.type === 'elapsed' && token.unit === 's');
+}
+
+/**
+ * "m" means minutes right after an hour code or right before a seconds code
+ */
+function isMinutes(tokens: FormatToken[], index: number): boolean {
+  const nearest = (step: number) => {
+    for (let i = index + step; i >= 0 && i < tokens.length; i += step) {
+      const token = tokens[i];
+      if (token.type === 'date' || token.type === 'elapsed') return token;
+    }
+    return null;
+  };
+  const before = nearest(-1);
+  const after = nearest(1);
+  const unit = (token: FormatToken | null) =>
+    token?.type === 'date' ? token.code[0] : token?.type === 'elapsed' ? token.unit : '';
+  return unit(before) === 'h' || unit(after) === 's';
+}
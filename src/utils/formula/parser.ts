@@ -0,0 +1,299 @@
+/**
+ * Formula Parser - Operator-precedence parser producing an AST
+ *
+ * Precedence (highest first) follows Excel:
+ *   range (:), negation (-), percent (%), exponent (^), * /, + -, concatenation (&), comparison
+ */
+
+import { ErrorCode, FormulaSyntaxError } from './errors';
+import { Token, tokenize } from './tokenizer';
+import { isCellRef, parseWholeRange, stripAbsolute } from './references';
+
+export type ASTNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: ErrorCode }
+  | { type: 'empty' }
+  | { type: 'array'; rows: ASTNode[][] }
+  | { type: 'cell'; cellId: string; sheet?: string }
+  | { type: 'range'; start: string; end: string; sheet?: string }
+  | { type: 'spill'; cellId: string; sheet?: string }
+  | { type: 'name'; name: string; sheet?: string }
+  | { type: 'function'; name: string; args: ASTNode[] }
+  | { type: 'call'; callee: ASTNode; args: ASTNode[] }
+  | { type: 'unary'; operator: string; operand: ASTNode }
+  | { type: 'binary'; operator: string; left: ASTNode; right: ASTNode };
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>='];
+
+class Parser {
+  private tokens: Token[];
+  private pos: number = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ASTNode {
+    if (this.tokens.length === 0) {
+      throw new FormulaSyntaxError('Empty formula');
+    }
+    const node = this.parseComparison();
+    const extra = this.current();
+    if (extra) {
+      throw new FormulaSyntaxError(`Unexpected '${extra.value}' at ${extra.position}`);
+    }
+    return node;
+  }
+
+  private current(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isOperator(operators: string[]): boolean {
+    const token = this.current();
+    return !!token && token.type === 'operator' && operators.includes(token.value);
+  }
+
+  private expect(type: Token['type']): Token {
+    const token = this.current();
+    if (!token || token.type !== type) {
+      throw new FormulaSyntaxError(`Expected ${type} but got ${token ? `'${token.value}'` : 'end of formula'}`);
+    }
+    return this.advance();
+  }
+
+  private parseBinaryLevel(operators: string[], next: () => ASTNode): ASTNode {
+    let node = next();
+    while (this.isOperator(operators)) {
+      const operator = this.advance().value;
+      const right = next();
+      node = { type: 'binary', operator, left: node, right };
+    }
+    return node;
+  }
+
+  private parseComparison(): ASTNode {
+    return this.parseBinaryLevel(COMPARISON_OPERATORS, () => this.parseConcatenation());
+  }
+
+  private parseConcatenation(): ASTNode {
+    return this.parseBinaryLevel(['&'], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): ASTNode {
+    return this.parseBinaryLevel(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): ASTNode {
+    return this.parseBinaryLevel(['*', '/'], () => this.parseExponent());
+  }
+
+  private parseExponent(): ASTNode {
+    return this.parseBinaryLevel(['^'], () => this.parseUnary());
+  }
+
+  private parseUnary(): ASTNode {
+    if (this.isOperator(['-', '+'])) {
+      const operator = this.advance().value;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePercent();
+  }
+
+  private parsePercent(): ASTNode {
+    let node = this.parsePrimary();
+    while (this.isOperator(['%'])) {
+      this.advance();
+      node = { type: 'unary', operator: '%', operand: node };
+    }
+    return node;
+  }
+
+  private parsePrimary(): ASTNode {
+    const token = this.current();
+
+    if (!token) {
+      throw new FormulaSyntaxError('Unexpected end of formula');
+    }
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'number', value: parseFloat(token.value) };
+
+      case 'string':
+        this.advance();
+        return { type: 'string', value: token.value };
+
+      case 'error':
+        this.advance();
+        return { type: 'error', code: token.value as ErrorCode };
+
+      case 'lparen': {
+        this.advance();
+        const node = this.parseComparison();
+        this.expect('rparen');
+        return node;
+      }
+
+      case 'lbrace':
+        return this.parseArrayConstant();
+
+      case 'reference':
+      case 'identifier': {
+        this.advance();
+
+        // Names that look like cells (LOG10) are still functions when called
+        if (this.current()?.type === 'lparen' && !token.sheet && !token.value.includes('$')) {
+          let node: ASTNode = { type: 'function', name: token.value, args: this.parseArguments() };
+          // A call's result can be called in turn: LAMBDA(x, x + 1)(5)
+          while (this.current()?.type === 'lparen') {
+            node = { type: 'call', callee: node, args: this.parseArguments() };
+          }
+          return node;
+        }
+
+        if (token.type === 'reference') {
+          return this.parseReference(token);
+        }
+
+        if (!token.sheet && (token.value === 'TRUE' || token.value === 'FALSE')) {
+          return { type: 'boolean', value: token.value === 'TRUE' };
+        }
+        return { type: 'name', name: token.value, sheet: token.sheet };
+      }
+
+      default:
+        throw new FormulaSyntaxError(`Unexpected '${token.value}' at ${token.position}`);
+    }
+  }
+
+  /**
+   * An array constant: commas separate columns and semicolons rows ({1,2;3,4})
+   */
+  private parseArrayConstant(): ASTNode {
+    const open = this.expect('lbrace');
+    const rows: ASTNode[][] = [[]];
+
+    while (true) {
+      rows[rows.length - 1].push(this.parseArrayItem());
+
+      const separator = this.current();
+      if (separator?.type === 'comma') {
+        this.advance();
+        continue;
+      }
+      if (separator?.type === 'semicolon') {
+        this.advance();
+        rows.push([]);
+        continue;
+      }
+      this.expect('rbrace');
+      break;
+    }
+
+    if (rows.some(row => row.length !== rows[0].length)) {
+      throw new FormulaSyntaxError(`Rows of the array at ${open.position} differ in length`);
+    }
+    return { type: 'array', rows };
+  }
+
+  /**
+   * A value inside an array constant; only literals are allowed, with an optional sign on numbers
+   */
+  private parseArrayItem(): ASTNode {
+    if (this.isOperator(['-', '+'])) {
+      const sign = this.advance().value;
+      const value = parseFloat(this.expect('number').value);
+      return { type: 'number', value: sign === '-' ? -value : value };
+    }
+
+    const token = this.current();
+    switch (token?.type) {
+      case 'number':
+      case 'string':
+      case 'error':
+        return this.parsePrimary();
+
+      case 'identifier':
+        if (!token.sheet && (token.value === 'TRUE' || token.value === 'FALSE')) {
+          this.advance();
+          return { type: 'boolean', value: token.value === 'TRUE' };
+        }
+        break;
+    }
+    throw new FormulaSyntaxError(token
+      ? `Unexpected '${token.value}' in array constant at ${token.position}`
+      : 'Unterminated array constant');
+  }
+
+  private parseReference(token: Token): ASTNode {
+    const { sheet } = token;
+
+    const whole = parseWholeRange(token.value);
+    if (whole) {
+      return { type: 'range', start: whole.start, end: whole.end, sheet };
+    }
+
+    const cellId = stripAbsolute(token.value);
+    if (this.current()?.type === 'colon') {
+      this.advance();
+      const end = this.expect('reference');
+      const endId = stripAbsolute(end.value);
+      if (!isCellRef(endId)) {
+        throw new FormulaSyntaxError(`Invalid range end '${end.value}' at ${end.position}`);
+      }
+      // Sheet1!A1:Sheet1!B2 is allowed, but a range cannot span two sheets
+      if (end.sheet && end.sheet.toUpperCase() !== (sheet || '').toUpperCase()) {
+        throw new FormulaSyntaxError(`Range cannot span sheets at ${end.position}`);
+      }
+      return { type: 'range', start: cellId, end: endId, sheet };
+    }
+    if (this.isOperator(['#'])) {
+      this.advance();
+      return { type: 'spill', cellId, sheet };
+    }
+    return { type: 'cell', cellId, sheet };
+  }
+
+  private parseArguments(): ASTNode[] {
+    this.expect('lparen');
+    const args: ASTNode[] = [];
+
+    if (this.current()?.type === 'rparen') {
+      this.advance();
+      return args;
+    }
+
+    while (true) {
+      // Omitted arguments, e.g. IF(A1,,0)
+      const token = this.current();
+      if (token?.type === 'comma' || token?.type === 'rparen') {
+        args.push({ type: 'empty' });
+      } else {
+        args.push(this.parseComparison());
+      }
+
+      if (this.current()?.type === 'comma') {
+        this.advance();
+        continue;
+      }
+      this.expect('rparen');
+      return args;
+    }
+  }
+}
+
+/**
+ * Parse a formula into an AST. The leading "=" is optional.
+ */
+export function parseFormula(formula: string): ASTNode {
+  const body = formula.startsWith('=') ? formula.substring(1) : formula;
+  return new Parser(tokenize(body)).parse();
+}
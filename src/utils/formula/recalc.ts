@@ -0,0 +1,766 @@
+/**
+ * Recalculation Engine - Keeps evaluated results for every sheet of a workbook and, on each
+ * edit, recalculates only the changed cells and their dependents in topological order
+ *
+ * Cells are tracked under sheet-qualified keys ("SHEET1!B2") so that references between
+ * sheets take part in the same dependency graph. The public methods take plain cell IDs
+ * and refer to the active sheet.
+ */
+
+import { ASTNode, parseFormula } from './parser';
+import { FormulaContext, evaluateNode } from './evaluator';
+import { ErrorValue, toErrorValue } from './errors';
+import {
+  CellPosition,
+  MAX_COLUMNS,
+  MAX_ROWS,
+  expandRange,
+  formatSheetName,
+  isWholeColumnOrRow,
+  normalizeRange,
+  parseCellRef,
+  toCellRef
+} from './references';
+import { getFunction } from './functions/registry';
+import { DateFormat, MAX_DATE_SERIAL, formatSerial, readDateTime } from './dates';
+import { createDependencyGraph, DependencyGraph } from './dependencyGraph';
+import {
+  CellData,
+  FormulaValue,
+  ScalarValue,
+  formatValue,
+  isArrayValue,
+  isFormula,
+  normalizeCellValue,
+  parseCellInput,
+  shownInput
+} from './values';
+
+/** Spilling can reveal new dependents; stop after this many follow-up passes */
+const MAX_SPILL_PASSES = 10;
+
+/** How far date formats are traced back through referenced formulas */
+const MAX_FORMAT_DEPTH = 8;
+
+const DEFAULT_SHEET = 'Sheet1';
+
+export interface SpillInfo {
+  /** Cell holding the array formula */
+  anchor: string;
+  /** Full range the array fills, e.g. "B2:B9" */
+  range: string;
+  isAnchor: boolean;
+}
+
+export interface DefinedName {
+  name: string;
+  /** Range or formula the name stands for, e.g. "'Q1 Data'!$B$2:$B$20" */
+  reference: string;
+  /** Sheet the name is scoped to; omitted for workbook-wide names */
+  sheet?: string;
+}
+
+interface SpillRegion {
+  rows: number;
+  cols: number;
+  /** Set when cells in the way stop the array from spilling (#SPILL!) */
+  blocked: boolean;
+}
+
+/** A whole-column or whole-row range; which of its cells hold data changes as the sheet is edited */
+interface SpanReference {
+  sheet: string;
+  start: CellPosition;
+  end: CellPosition;
+}
+
+interface Dependencies {
+  cells: Set<string>;
+  spans: SpanReference[];
+  /** Sheets named in references (upper case), including ones that do not exist yet */
+  sheets: Set<string>;
+  names: Set<string>;
+}
+
+export interface RecalcEngine {
+  /** Resolves cell values of the active sheet from the latest recalculated results */
+  context: FormulaContext;
+  /** Dependencies between sheet-qualified cell keys ("SHEET1!B2") */
+  graph: DependencyGraph;
+  /**
+   * Sync a sheet (the active sheet by default) with a new cellData snapshot.
+   * Returns the cells that were recalculated; cells on other sheets are sheet-qualified.
+   */
+  update: (cellData: CellData, sheetName?: string) => string[];
+  /** Choose the sheet that plain cell IDs refer to */
+  setActiveSheet: (sheetName: string) => void;
+  /** Drop a sheet; formulas still referencing it become #REF! */
+  removeSheet: (sheetName: string) => string[];
+  /** Replace all defined names and recalculate the formulas that use them */
+  setNames: (names: DefinedName[]) => string[];
+  /**
+   * Replace the rows (0-based) a filter hides on a sheet, the active one by default, and
+   * recalculate the SUBTOTAL and AGGREGATE formulas that leave them out
+   */
+  setHiddenRows: (rows: number[], sheetName?: string) => string[];
+  /** Evaluated value of a cell; error cells return their ErrorValue */
+  getValue: (cellId: string) => ScalarValue;
+  /** Text shown in the cell: the raw entry for constants, the result for formulas and spills */
+  getDisplayValue: (cellId: string) => string;
+  /** The reference cycle a cell is caught in, if any */
+  getCyclePath: (cellId: string) => string[] | null;
+  /** The dynamic array a cell anchors or is filled by, if any */
+  getSpillInfo: (cellId: string) => SpillInfo | null;
+}
+
+/**
+ * Collect every cell a parsed formula reads, expanding ranges. Cells on other sheets are
+ * sheet-qualified ("'Q1 Data'!B2"); whole columns and rows are left out, as they would
+ * expand to a million cells, and so are defined names.
+ */
+export function collectReferences(node: ASTNode, references: Set<string> = new Set()): Set<string> {
+  const qualify = (sheet: string | undefined, cellId: string) =>
+    sheet ? `${formatSheetName(sheet)}!${cellId}` : cellId;
+
+  switch (node.type) {
+    case 'cell':
+    case 'spill':
+      references.add(qualify(node.sheet, node.cellId));
+      break;
+    case 'range': {
+      const bounds = normalizeRange(node.start, node.end);
+      if (bounds && !isWholeColumnOrRow(bounds.start, bounds.end)) {
+        expandRange(node.start, node.end).forEach(cellId => references.add(qualify(node.sheet, cellId)));
+      }
+      break;
+    }
+    case 'unary':
+      collectReferences(node.operand, references);
+      break;
+    case 'binary':
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case 'function':
+      node.args.forEach(arg => collectReferences(arg, references));
+      break;
+    case 'call':
+      collectReferences(node.callee, references);
+      node.args.forEach(arg => collectReferences(arg, references));
+      break;
+  }
+  return references;
+}
+
+// Functions whose results enclosing SUBTOTAL and AGGREGATE calls leave out
+const SUBTOTAL_FUNCTIONS = new Set(['SUBTOTAL', 'AGGREGATE']);
+
+/**
+ * Whether a formula calls a function matching the test anywhere in its tree
+ */
+function callsFunction(node: ASTNode, test: (name: string) => boolean): boolean {
+  switch (node.type) {
+    case 'unary':
+      return callsFunction(node.operand, test);
+    case 'binary':
+      return callsFunction(node.left, test) || callsFunction(node.right, test);
+    case 'function':
+      return test(node.name) || node.args.some(arg => callsFunction(arg, test));
+    case 'call':
+      return callsFunction(node.callee, test) || node.args.some(arg => callsFunction(arg, test));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a formula calls a volatile function and must be recalculated on every pass
+ */
+function isVolatile(node: ASTNode): boolean {
+  return callsFunction(node, name => !!getFunction(name)?.volatile);
+}
+
+function callsSubtotal(node: ASTNode): boolean {
+  return callsFunction(node, name => SUBTOTAL_FUNCTIONS.has(name.toUpperCase()));
+}
+
+function keyOf(sheet: string, cellId: string): string {
+  return `${sheet.toUpperCase()}!${cellId}`;
+}
+
+function splitKey(key: string): { sheet: string; cellId: string } {
+  const separator = key.lastIndexOf('!');
+  return { sheet: key.slice(0, separator), cellId: key.slice(separator + 1) };
+}
+
+/**
+ * Cells covered by an array anchored at `anchorKey`, excluding the anchor itself
+ */
+function regionCells(anchorKey: string, rows: number, cols: number): string[] {
+  const { sheet, cellId } = splitKey(anchorKey);
+  const anchor = parseCellRef(cellId)!;
+  const cells: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (row === 0 && col === 0) continue;
+      cells.push(keyOf(sheet, toCellRef(anchor.row + row, anchor.col + col)));
+    }
+  }
+  return cells;
+}
+
+function contains(start: CellPosition, end: CellPosition, cell: CellPosition): boolean {
+  return cell.row >= start.row && cell.row <= end.row && cell.col >= start.col && cell.col <= end.col;
+}
+
+function regionContains(anchorKey: string, region: SpillRegion, key: string): boolean {
+  const anchor = splitKey(anchorKey);
+  const target = splitKey(key);
+  const start = parseCellRef(anchor.cellId)!;
+  const cell = parseCellRef(target.cellId);
+  const end = { row: start.row + region.rows - 1, col: start.col + region.cols - 1 };
+  return anchor.sheet === target.sheet && !!cell && contains(start, end, cell);
+}
+
+export function createRecalcEngine(): RecalcEngine {
+  let activeSheet = DEFAULT_SHEET.toUpperCase();
+  // Cell data per sheet, and each sheet's name as the workbook spells it
+  const sheets = new Map<string, CellData>();
+  const sheetNames = new Map<string, string>([[activeSheet, DEFAULT_SHEET]]);
+  const graph = createDependencyGraph();
+  // Parsed formulas; formulas that do not parse keep their #ERROR! value instead
+  const formulas = new Map<string, ASTNode | ErrorValue>();
+  const dependencies = new Map<string, Dependencies>();
+  const results = new Map<string, ScalarValue>();
+  const cyclePaths = new Map<string, string[]>();
+  const volatileCells = new Set<string>();
+  // SUBTOTAL/AGGREGATE formulas, and the rows a filter hides on each sheet (0-based)
+  const subtotalCells = new Set<string>();
+  const hiddenRows = new Map<string, Set<number>>();
+  // Arrays each anchor wants to spill, and the anchor filling each spilled cell
+  const spills = new Map<string, SpillRegion>();
+  const spillOwners = new Map<string, string>();
+  // Formulas reading whole columns or rows
+  const spanReaders = new Set<string>();
+  // Defined names keyed by "SHEET!NAME" for sheet-scoped names and "NAME" for workbook names
+  let names = new Map<string, ASTNode>();
+  const usedRanges = new Map<string, { rows: number; cols: number }>();
+  const contexts = new Map<string, FormulaContext>();
+
+  const rawValue = (key: string) => {
+    const { sheet, cellId } = splitKey(key);
+    return normalizeCellValue(sheets.get(sheet)?.[cellId]);
+  };
+
+  const isBlank = (key: string) => rawValue(key) === '';
+
+  const displayRef = (key: string) => {
+    const { sheet, cellId } = splitKey(key);
+    return sheet === activeSheet ? cellId : `${formatSheetName(sheetNames.get(sheet) || sheet)}!${cellId}`;
+  };
+
+  const lookupName = (sheet: string, name: string): ASTNode | null =>
+    names.get(`${sheet}!${name}`) || names.get(name) || null;
+
+  const getSpillRange = (anchorKey: string) => {
+    const region = spills.get(anchorKey);
+    if (!region || region.blocked) return null;
+    const { cellId } = splitKey(anchorKey);
+    const anchor = parseCellRef(cellId)!;
+    return { start: cellId, end: toCellRef(anchor.row + region.rows - 1, anchor.col + region.cols - 1) };
+  };
+
+  const getUsedRange = (sheet: string) => {
+    let used = usedRanges.get(sheet);
+    if (used) return used;
+
+    used = { rows: 0, cols: 0 };
+    const extend = (cellId: string, rows = 1, cols = 1) => {
+      const position = parseCellRef(cellId);
+      if (!position) return;
+      used!.rows = Math.max(used!.rows, position.row + rows);
+      used!.cols = Math.max(used!.cols, position.col + cols);
+    };
+    Object.keys(sheets.get(sheet) || {}).forEach(cellId => {
+      if (normalizeCellValue(sheets.get(sheet)![cellId]) !== '') extend(cellId);
+    });
+    spills.forEach((region, anchorKey) => {
+      const anchor = splitKey(anchorKey);
+      if (anchor.sheet === sheet && !region.blocked) extend(anchor.cellId, region.rows, region.cols);
+    });
+
+    usedRanges.set(sheet, used);
+    return used;
+  };
+
+  const contextFor = (sheet: string): FormulaContext => {
+    let context = contexts.get(sheet);
+    if (!context) {
+      context = {
+        getCellValue: (cellId: string) => results.get(keyOf(sheet, cellId)) ?? null,
+        getSpillRange: (cellId: string) => getSpillRange(keyOf(sheet, cellId)),
+        getSheetContext: (sheetName: string) => {
+          const target = sheetName.toUpperCase();
+          return sheets.has(target) ? contextFor(target) : null;
+        },
+        resolveName: (name: string) => lookupName(sheet, name.toUpperCase()),
+        getUsedRange: () => getUsedRange(sheet),
+        isRowHidden: (row: number) => !!hiddenRows.get(sheet)?.has(row),
+        isSubtotalCell: (cellId: string) => subtotalCells.has(keyOf(sheet, cellId))
+      };
+      contexts.set(sheet, context);
+    }
+    return context;
+  };
+
+  // Stays bound to whichever sheet is active
+  const context: FormulaContext = {
+    getCellValue: cellId => contextFor(activeSheet).getCellValue(cellId),
+    getSpillRange: cellId => contextFor(activeSheet).getSpillRange!(cellId),
+    getSheetContext: sheetName => contextFor(activeSheet).getSheetContext!(sheetName),
+    resolveName: name => contextFor(activeSheet).resolveName!(name),
+    getUsedRange: () => contextFor(activeSheet).getUsedRange!(),
+    isRowHidden: row => contextFor(activeSheet).isRowHidden!(row),
+    isSubtotalCell: cellId => contextFor(activeSheet).isSubtotalCell!(cellId)
+  };
+
+  /**
+   * Walk a formula for the cells, whole columns/rows, sheets and names it reads.
+   * Names are followed into their definitions, evaluated in the sheet they are used from.
+   */
+  const collectDependencies = (
+    node: ASTNode,
+    sheet: string,
+    found: Dependencies,
+    visitingNames: Set<string> = new Set()
+  ): Dependencies => {
+    const targetSheet = (qualifier: string | undefined) => {
+      if (!qualifier) return sheet;
+      const target = qualifier.toUpperCase();
+      found.sheets.add(target);
+      return target;
+    };
+
+    const followName = (name: string, scope: string) => {
+      const visitKey = `${scope}!${name}`;
+      found.names.add(name);
+      const definition = lookupName(scope, name);
+      if (definition && !visitingNames.has(visitKey)) {
+        visitingNames.add(visitKey);
+        collectDependencies(definition, scope, found, visitingNames);
+        visitingNames.delete(visitKey);
+      }
+    };
+
+    switch (node.type) {
+      case 'cell':
+      case 'spill':
+        found.cells.add(keyOf(targetSheet(node.sheet), node.cellId));
+        break;
+      case 'range': {
+        const target = targetSheet(node.sheet);
+        const bounds = normalizeRange(node.start, node.end);
+        if (bounds && isWholeColumnOrRow(bounds.start, bounds.end)) {
+          found.spans.push({ sheet: target, ...bounds });
+        } else {
+          expandRange(node.start, node.end).forEach(cellId => found.cells.add(keyOf(target, cellId)));
+        }
+        break;
+      }
+      case 'name':
+        followName(node.name, targetSheet(node.sheet));
+        break;
+      case 'unary':
+        collectDependencies(node.operand, sheet, found, visitingNames);
+        break;
+      case 'binary':
+        collectDependencies(node.left, sheet, found, visitingNames);
+        collectDependencies(node.right, sheet, found, visitingNames);
+        break;
+      case 'function':
+        // Calls to anything but a built-in function may be calls to a named LAMBDA
+        if (!getFunction(node.name)) followName(node.name, sheet);
+        node.args.forEach(arg => collectDependencies(arg, sheet, found, visitingNames));
+        break;
+      case 'call':
+        collectDependencies(node.callee, sheet, found, visitingNames);
+        node.args.forEach(arg => collectDependencies(arg, sheet, found, visitingNames));
+        break;
+    }
+    return found;
+  };
+
+  /**
+   * Cells holding data inside a whole-column or whole-row range, including spilled values
+   */
+  const cellsInSpan = (span: SpanReference): string[] => {
+    const cells: string[] = [];
+    const visit = (key: string) => {
+      const { sheet, cellId } = splitKey(key);
+      const position = parseCellRef(cellId);
+      if (sheet === span.sheet && position && contains(span.start, span.end, position)) cells.push(key);
+    };
+    Object.keys(sheets.get(span.sheet) || {}).forEach(cellId => {
+      if (!isBlank(keyOf(span.sheet, cellId))) visit(keyOf(span.sheet, cellId));
+    });
+    spillOwners.forEach((_, key) => visit(key));
+    return cells;
+  };
+
+  // Refresh a formula's precedents in the graph from its parsed form
+  const refreshPrecedents = (key: string) => {
+    const formula = formulas.get(key);
+    if (!formula || formula instanceof ErrorValue) {
+      dependencies.delete(key);
+      spanReaders.delete(key);
+      graph.setPrecedents(key, []);
+      return;
+    }
+
+    const found = collectDependencies(formula, splitKey(key).sheet, {
+      cells: new Set(),
+      spans: [],
+      sheets: new Set(),
+      names: new Set()
+    });
+    // A formula inside a range it reads (=SUM(A:A) in A5) keeps the edge to itself: a cycle
+    found.spans.forEach(span => cellsInSpan(span).forEach(cell => found.cells.add(cell)));
+    if (found.spans.length > 0) {
+      spanReaders.add(key);
+    } else {
+      spanReaders.delete(key);
+    }
+    dependencies.set(key, found);
+    graph.setPrecedents(key, found.cells);
+  };
+
+  /**
+   * Store a formula result. Arrays spill into the cells below and to the right when they
+   * are blank; otherwise the anchor shows #SPILL!. Returns the cells that started or
+   * stopped being filled by this anchor, since their dependents need recalculating.
+   */
+  const storeResult = (anchorKey: string, value: FormulaValue): string[] => {
+    const previous = spills.get(anchorKey);
+    const previousCells = previous && !previous.blocked ? regionCells(anchorKey, previous.rows, previous.cols) : [];
+    let nextCells: string[] = [];
+
+    if (isArrayValue(value) && (value.length > 1 || value[0].length > 1)) {
+      const rows = value.length;
+      const cols = value[0].length;
+      const { sheet, cellId } = splitKey(anchorKey);
+      const anchor = parseCellRef(cellId)!;
+      const fits = anchor.row + rows <= MAX_ROWS && anchor.col + cols <= MAX_COLUMNS;
+      const candidates = fits ? regionCells(anchorKey, rows, cols) : [];
+      const blocked = !fits || candidates.some(key =>
+        !isBlank(key) || (spillOwners.has(key) && spillOwners.get(key) !== anchorKey)
+      );
+
+      spills.set(anchorKey, { rows, cols, blocked });
+      if (blocked) {
+        results.set(anchorKey, new ErrorValue('#SPILL!', fits ? 'Spill range is not blank' : 'Spill range extends beyond the sheet'));
+      } else {
+        nextCells = candidates;
+        value.forEach((row, r) => row.forEach((item, c) => {
+          // Blanks inside a spilled array show as 0, as in Excel
+          results.set(keyOf(sheet, toCellRef(anchor.row + r, anchor.col + c)), item === null ? 0 : item);
+        }));
+      }
+    } else {
+      spills.delete(anchorKey);
+      const scalar = isArrayValue(value) ? value[0][0] : value;
+      // A formula pointing at an empty cell shows 0, as in Excel
+      results.set(anchorKey, scalar === null ? 0 : scalar);
+    }
+
+    const changed: string[] = [];
+    const next = new Set(nextCells);
+    previousCells.forEach(key => {
+      if (next.has(key)) return;
+      changed.push(key);
+      if (spillOwners.get(key) !== anchorKey) return;
+      spillOwners.delete(key);
+      // Cells typed into since the spill keep what loadCell gave them
+      if (isBlank(key)) {
+        results.delete(key);
+        graph.setPrecedents(key, []);
+      }
+    });
+
+    const before = new Set(previousCells);
+    nextCells.forEach(key => {
+      spillOwners.set(key, anchorKey);
+      if (!before.has(key)) {
+        changed.push(key);
+        // Spilled cells depend on their anchor, so readers of B2 follow the array in A1
+        graph.setPrecedents(key, [anchorKey]);
+      }
+    });
+
+    if (changed.length > 0) usedRanges.delete(splitKey(anchorKey).sheet);
+    return changed;
+  };
+
+  const evaluateCell = (key: string): string[] => {
+    const formula = formulas.get(key);
+    if (!formula) return [];
+    if (formula instanceof ErrorValue) {
+      return storeResult(key, formula);
+    }
+
+    try {
+      return storeResult(key, evaluateNode(formula, contextFor(splitKey(key).sheet)));
+    } catch (error) {
+      return storeResult(key, toErrorValue(error));
+    }
+  };
+
+  // Re-read a changed cell: parse formulas and refresh its precedents in the graph
+  const loadCell = (key: string): string[] => {
+    const raw = rawValue(key);
+    volatileCells.delete(key);
+    subtotalCells.delete(key);
+    cyclePaths.delete(key);
+
+    if (!isFormula(raw)) {
+      formulas.delete(key);
+      refreshPrecedents(key);
+      // A former array formula gives its spilled cells back
+      const released = spills.has(key) ? storeResult(key, null) : [];
+      if (raw === '') {
+        results.delete(key);
+      } else {
+        results.set(key, parseCellInput(raw));
+      }
+      return released;
+    }
+
+    try {
+      const node = parseFormula(raw);
+      formulas.set(key, node);
+      if (isVolatile(node)) volatileCells.add(key);
+      if (callsSubtotal(node)) subtotalCells.add(key);
+    } catch (error) {
+      formulas.set(key, toErrorValue(error));
+    }
+    refreshPrecedents(key);
+    return [];
+  };
+
+  /**
+   * Formulas affected by a cell starting or stopping to hold data: array anchors whose
+   * spill covers it (or only those it blocks), and readers of whole columns/rows around it
+   */
+  const affectedBy = (key: string, blockedAnchorsOnly: boolean): string[] => {
+    const affected: string[] = [];
+    spills.forEach((region, anchorKey) => {
+      if (anchorKey !== key && regionContains(anchorKey, region, key) && (!blockedAnchorsOnly || region.blocked)) {
+        affected.push(anchorKey);
+      }
+    });
+
+    const { sheet, cellId } = splitKey(key);
+    const position = parseCellRef(cellId);
+    spanReaders.forEach(reader => {
+      const spans = dependencies.get(reader)?.spans || [];
+      if (position && spans.some(span => span.sheet === sheet && contains(span.start, span.end, position))) {
+        refreshPrecedents(reader);
+        affected.push(reader);
+      }
+    });
+    return affected;
+  };
+
+  /**
+   * Formulas that mention a sheet by name, or use any defined name
+   */
+  const readersOf = (matches: (found: Dependencies) => boolean): string[] => {
+    const readers: string[] = [];
+    dependencies.forEach((found, key) => {
+      if (matches(found)) readers.push(key);
+    });
+    return readers;
+  };
+
+  const recalculate = (initial: string[]): string[] => {
+    let pending = initial;
+    const recalculated: string[] = [];
+
+    for (let pass = 0; pending.length > 0 && pass < MAX_SPILL_PASSES; pass++) {
+      const spilled: string[] = [];
+
+      for (const step of graph.getRecalcPlan(pending)) {
+        if (step.cyclePath) {
+          const cycle = step.cyclePath.slice(0, -1);
+          step.cells.forEach(key => {
+            // Report the loop starting from the cell itself when it lies on the path
+            const offset = cycle.indexOf(key);
+            const path = offset === -1
+              ? step.cyclePath!
+              : [...cycle.slice(offset), ...cycle.slice(0, offset), key];
+            results.set(key, new ErrorValue('#CIRC!', `Circular reference: ${path.map(displayRef).join(' -> ')}`));
+            cyclePaths.set(key, path);
+          });
+        } else {
+          cyclePaths.delete(step.cells[0]);
+          spilled.push(...evaluateCell(step.cells[0]));
+        }
+        recalculated.push(...step.cells);
+      }
+
+      // Cells an array took or let go of may unblock another anchor or change a whole-column total
+      pending = [...spilled];
+      spilled.forEach(key => pending.push(...affectedBy(key, true)));
+    }
+
+    return recalculated.map(displayRef);
+  };
+
+  // Apply one sheet's new cell data; `extra` are further cells to recalculate
+  const applyChanges = (sheet: string, previous: CellData, next: CellData, extra: string[]): string[] => {
+    const changed: string[] = [];
+    const cellIds = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    cellIds.forEach(cellId => {
+      if (previous[cellId] === next[cellId]) return;
+      if (normalizeCellValue(previous[cellId]) === normalizeCellValue(next[cellId])) return;
+      changed.push(keyOf(sheet, cellId));
+    });
+    if (changed.length > 0) usedRanges.delete(sheet);
+
+    const pending = [...changed, ...volatileCells, ...extra];
+    changed.forEach(key => {
+      pending.push(...loadCell(key), ...affectedBy(key, false));
+    });
+    return recalculate(pending);
+  };
+
+  const update = (cellData: CellData, sheetName?: string): string[] => {
+    const sheet = sheetName ? sheetName.toUpperCase() : activeSheet;
+    if (sheetName) sheetNames.set(sheet, sheetName);
+
+    const previous = sheets.get(sheet);
+    sheets.set(sheet, cellData);
+    // Formulas that pointed at this sheet before it existed were #REF!
+    const extra = previous ? [] : readersOf(found => found.sheets.has(sheet));
+    return applyChanges(sheet, previous || {}, cellData, extra);
+  };
+
+  const setActiveSheet = (sheetName: string) => {
+    activeSheet = sheetName.toUpperCase();
+    sheetNames.set(activeSheet, sheetName);
+  };
+
+  const removeSheet = (sheetName: string): string[] => {
+    const sheet = sheetName.toUpperCase();
+    const previous = sheets.get(sheet);
+    if (!previous) return [];
+
+    sheets.delete(sheet);
+    hiddenRows.delete(sheet);
+    if (sheet !== activeSheet) sheetNames.delete(sheet);
+    return applyChanges(sheet, previous, {}, readersOf(found => found.sheets.has(sheet)));
+  };
+
+  const setNames = (definitions: DefinedName[]): string[] => {
+    names = new Map();
+    definitions.forEach(({ name, reference, sheet }) => {
+      const key = sheet ? `${sheet.toUpperCase()}!${name.toUpperCase()}` : name.toUpperCase();
+      try {
+        names.set(key, parseFormula(reference));
+      } catch {
+        names.set(key, { type: 'error', code: '#NAME?' });
+      }
+    });
+
+    const readers = readersOf(found => found.names.size > 0);
+    readers.forEach(refreshPrecedents);
+    return recalculate(readers);
+  };
+
+  const setHiddenRows = (rows: number[], sheetName?: string): string[] => {
+    const sheet = sheetName ? sheetName.toUpperCase() : activeSheet;
+    if (rows.length > 0) {
+      hiddenRows.set(sheet, new Set(rows));
+    } else {
+      hiddenRows.delete(sheet);
+    }
+    return recalculate([...subtotalCells]);
+  };
+
+  /**
+   * The date format a formula's result takes on, as Excel picks one automatically: from the
+   * function that produced it (DATE, NOW), a referenced date, or date arithmetic (A1+7).
+   * A date minus a date is a number of days and stays unformatted.
+   */
+  const dateFormatOf = (node: ASTNode, sheet: string, depth = 0): DateFormat | null => {
+    if (depth > MAX_FORMAT_DEPTH) return null;
+
+    switch (node.type) {
+      case 'function':
+        return getFunction(node.name)?.resultFormat || null;
+      case 'cell':
+        return cellDateFormat(keyOf(node.sheet ? node.sheet.toUpperCase() : sheet, node.cellId), depth + 1);
+      case 'name': {
+        const scope = node.sheet ? node.sheet.toUpperCase() : sheet;
+        const definition = lookupName(scope, node.name.toUpperCase());
+        return definition ? dateFormatOf(definition, scope, depth + 1) : null;
+      }
+      case 'binary': {
+        if (node.operator !== '+' && node.operator !== '-') return null;
+        const left = dateFormatOf(node.left, sheet, depth + 1);
+        const right = dateFormatOf(node.right, sheet, depth + 1);
+        if (node.operator === '-') return right ? null : left;
+        if (left && right && left !== right) return 'datetime';
+        return left || right;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const cellDateFormat = (key: string, depth: number): DateFormat | null => {
+    const raw = rawValue(key);
+    if (!isFormula(raw)) return readDateTime(raw)?.format || null;
+    const formula = formulas.get(key);
+    return formula && !(formula instanceof ErrorValue) ? dateFormatOf(formula, splitKey(key).sheet, depth) : null;
+  };
+
+  const getDisplayValue = (cellId: string): string => {
+    const key = keyOf(activeSheet, cellId);
+    const raw = rawValue(key);
+    if (isFormula(raw) || (raw === '' && spillOwners.has(key))) {
+      const value = results.get(key) ?? null;
+      const format = typeof value === 'number' && value >= 0 && value <= MAX_DATE_SERIAL + 1
+        ? cellDateFormat(spillOwners.get(key) || key, 0)
+        : null;
+      return format ? formatSerial(value as number, format) : formatValue(value);
+    }
+    return shownInput(raw);
+  };
+
+  const getCyclePath = (cellId: string): string[] | null => {
+    const path = cyclePaths.get(keyOf(activeSheet, cellId));
+    return path ? path.map(displayRef) : null;
+  };
+
+  const getSpillInfo = (cellId: string): SpillInfo | null => {
+    const key = keyOf(activeSheet, cellId);
+    const anchor = spills.has(key) ? key : spillOwners.get(key);
+    const range = anchor ? getSpillRange(anchor) : null;
+    if (!anchor || !range) return null;
+    return { anchor: displayRef(anchor), range: `${range.start}:${range.end}`, isAnchor: anchor === key };
+  };
+
+  return {
+    context,
+    graph,
+    update,
+    setActiveSheet,
+    removeSheet,
+    setNames,
+    setHiddenRows,
+    getValue: context.getCellValue,
+    getDisplayValue,
+    getCyclePath,
+    getSpillInfo
+  };
+}
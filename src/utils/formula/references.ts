@@ -0,0 +1,144 @@
+/**
+ * Cell References - A1-style reference helpers shared by the formula engine
+ * Converts between column letters, 0-based indices and cell IDs
+ */
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+/** Sheet size limits, matching Excel */
+export const MAX_ROWS = 1048576;
+export const MAX_COLUMNS = 16384;
+
+const CELL_REF_PATTERN = /^([A-Z]{1,3})(\d+)$/;
+
+/**
+ * Convert column letters to a 0-based index (e.g., "A" -> 0, "AA" -> 26)
+ */
+export function columnToIndex(column: string): number {
+  let index = 0;
+  for (let i = 0; i < column.length; i++) {
+    index = index * 26 + (column.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Convert a 0-based column index to letters (e.g., 0 -> "A", 27 -> "AB")
+ */
+export function indexToColumn(index: number): string {
+  let label = '';
+  let num = index;
+  while (num >= 0) {
+    label = String.fromCharCode(65 + (num % 26)) + label;
+    num = Math.floor(num / 26) - 1;
+  }
+  return label;
+}
+
+/**
+ * Check whether a string is a plain A1-style cell reference inside the sheet limits
+ */
+export function isCellRef(ref: string): boolean {
+  const position = parseCellRef(ref);
+  return !!position && position.row >= 0 && position.row < MAX_ROWS && position.col < MAX_COLUMNS;
+}
+
+/**
+ * Strip absolute markers from a reference ("$A$1" -> "A1")
+ */
+export function stripAbsolute(ref: string): string {
+  return ref.replace(/\$/g, '');
+}
+
+/**
+ * Whether a range covers every row (A:C) or every column (3:5) of the sheet
+ */
+export function isWholeColumnOrRow(start: CellPosition, end: CellPosition): boolean {
+  return (start.row === 0 && end.row === MAX_ROWS - 1) || (start.col === 0 && end.col === MAX_COLUMNS - 1);
+}
+
+/**
+ * Corners of a whole-column ("A:C") or whole-row ("3:5") range, or null if the text is neither
+ */
+export function parseWholeRange(ref: string): { start: string; end: string } | null {
+  const [first, last] = stripAbsolute(ref).toUpperCase().split(':');
+  if (last === undefined) return null;
+
+  if (/^[A-Z]{1,3}$/.test(first) && /^[A-Z]{1,3}$/.test(last)) {
+    const [a, b] = [columnToIndex(first), columnToIndex(last)];
+    if (Math.max(a, b) >= MAX_COLUMNS) return null;
+    return { start: toCellRef(0, Math.min(a, b)), end: toCellRef(MAX_ROWS - 1, Math.max(a, b)) };
+  }
+
+  if (/^\d+$/.test(first) && /^\d+$/.test(last)) {
+    const [a, b] = [parseInt(first, 10), parseInt(last, 10)];
+    if (Math.min(a, b) < 1 || Math.max(a, b) > MAX_ROWS) return null;
+    return { start: toCellRef(Math.min(a, b) - 1, 0), end: toCellRef(Math.max(a, b) - 1, MAX_COLUMNS - 1) };
+  }
+
+  return null;
+}
+
+/**
+ * Sheet name as written in a reference, quoted when it is not a plain identifier
+ * ("Sheet1" -> "Sheet1", "Q1 Data" -> "'Q1 Data'", "Bob's" -> "'Bob''s'")
+ */
+export function formatSheetName(name: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !isCellRef(name)) {
+    return name;
+  }
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Parse a cell reference (e.g., "B3" -> { row: 2, col: 1 })
+ */
+export function parseCellRef(ref: string): CellPosition | null {
+  const match = ref.toUpperCase().match(CELL_REF_PATTERN);
+  if (!match) return null;
+
+  return {
+    col: columnToIndex(match[1]),
+    row: parseInt(match[2], 10) - 1
+  };
+}
+
+/**
+ * Build a cell reference from 0-based coordinates
+ */
+export function toCellRef(row: number, col: number): string {
+  return `${indexToColumn(col)}${row + 1}`;
+}
+
+/**
+ * Normalise a range so that start is the top-left and end the bottom-right corner
+ */
+export function normalizeRange(start: string, end: string): { start: CellPosition; end: CellPosition } | null {
+  const a = parseCellRef(start);
+  const b = parseCellRef(end);
+  if (!a || !b) return null;
+
+  return {
+    start: { row: Math.min(a.row, b.row), col: Math.min(a.col, b.col) },
+    end: { row: Math.max(a.row, b.row), col: Math.max(a.col, b.col) }
+  };
+}
+
+/**
+ * Expand a range into its cell references in row-major order
+ */
+export function expandRange(start: string, end: string): string[] {
+  const bounds = normalizeRange(start, end);
+  if (!bounds) return [];
+
+  const cells: string[] = [];
+  for (let row = bounds.start.row; row <= bounds.end.row; row++) {
+    for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+      cells.push(toCellRef(row, col));
+    }
+  }
+  return cells;
+}
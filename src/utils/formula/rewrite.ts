@@ -0,0 +1,220 @@
+/**
+ * Formula Rewriting - Edits formula text in place, token by token, so that everything the
+ * edit does not touch (spacing, casing, absolute markers) is kept as the user typed it
+ */
+
+import { FormulaSyntaxError } from './errors';
+import { readSheetPrefix, tokenize } from './tokenizer';
+import {
+  CellPosition,
+  MAX_COLUMNS,
+  MAX_ROWS,
+  columnToIndex,
+  formatSheetName,
+  indexToColumn
+} from './references';
+import { isFormula } from './values';
+
+/**
+ * Point references to a renamed sheet at its new name
+ * (=SUM('Q1 Data'!B2:B20) -> =SUM(Q1_2024!B2:B20)). Formulas that do not parse are left alone.
+ */
+export function renameSheetInFormula(formula: string, oldName: string, newName: string): string {
+  if (!isFormula(formula)) return formula;
+
+  const body = formula.substring(1);
+  let tokens;
+  try {
+    tokens = tokenize(body);
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return formula;
+    throw error;
+  }
+
+  const target = oldName.toUpperCase();
+  let result = '';
+  let copied = 0;
+  tokens.forEach(token => {
+    if (token.sheet?.toUpperCase() !== target) return;
+    const prefix = readSheetPrefix(body, token.position)!;
+    result += body.slice(copied, token.position) + formatSheetName(newName) + '!';
+    copied = token.position + prefix.length;
+  });
+
+  return copied === 0 ? formula : `=${result}${body.slice(copied)}`;
+}
+
+/**
+ * Rows or columns inserted into or deleted from a sheet. Inserting cells with "shift down"
+ * or deleting them with "shift up" moves only the columns in `band` (likewise for rows).
+ */
+export interface StructuralEdit {
+  sheet: string;
+  axis: 'row' | 'column';
+  /** First row or column inserted or deleted, 0-based */
+  index: number;
+  /** How many are inserted (positive) or deleted (negative) */
+  count: number;
+  band?: { start: number; end: number };
+}
+
+export interface CellArea {
+  start: CellPosition;
+  end: CellPosition;
+}
+
+/** One end of a reference as written, with its absolute markers */
+interface Corner {
+  col: number;
+  row: number;
+  colAbsolute: boolean;
+  rowAbsolute: boolean;
+}
+
+const CELL_TOKEN = /^(\$?)([A-Z]{1,3})(\$?)(\d+)$/;
+const WHOLE_TOKEN = /^(\$?)([A-Z]{1,3}|\d+):(\$?)([A-Z]{1,3}|\d+)$/;
+
+/**
+ * New first and last index of a span after an edit along its axis, or null when the edit
+ * deletes all of it. A span covering the whole axis (A:A for rows) is never changed.
+ */
+function shiftSpan(first: number, last: number, edit: StructuralEdit, limit: number): [number, number] | null {
+  if (first === 0 && last === limit - 1) return [first, last];
+
+  if (edit.count > 0) {
+    const shift = (index: number) => (index >= edit.index ? index + edit.count : index);
+    const start = shift(first);
+    return start < limit ? [start, Math.min(shift(last), limit - 1)] : null;
+  }
+
+  const removed = -edit.count;
+  const lastRemoved = edit.index + removed - 1;
+  if (first >= edit.index && last <= lastRemoved) return null;
+  const start = first < edit.index ? first : first <= lastRemoved ? edit.index : first - removed;
+  const end = last < edit.index ? last : last <= lastRemoved ? edit.index - 1 : last - removed;
+  return [start, end];
+}
+
+/**
+ * Where a block of cells ends up after an edit, or null when all of it is deleted. Blocks
+ * reaching outside the band of a shift-cells edit stay where they are.
+ */
+export function shiftArea(area: CellArea, edit: StructuralEdit): CellArea | null {
+  const rows = edit.axis === 'row';
+  const across = rows ? [area.start.col, area.end.col] : [area.start.row, area.end.row];
+  if (edit.band && (across[0] < edit.band.start || across[1] > edit.band.end)) return area;
+
+  const span = rows
+    ? shiftSpan(area.start.row, area.end.row, edit, MAX_ROWS)
+    : shiftSpan(area.start.col, area.end.col, edit, MAX_COLUMNS);
+  if (!span) return null;
+  return rows
+    ? { start: { row: span[0], col: area.start.col }, end: { row: span[1], col: area.end.col } }
+    : { start: { row: area.start.row, col: span[0] }, end: { row: area.end.row, col: span[1] } };
+}
+
+export function shiftCellPosition(position: CellPosition, edit: StructuralEdit): CellPosition | null {
+  const area = shiftArea({ start: position, end: position }, edit);
+  return area && area.start;
+}
+
+function readCorner(text: string): Corner {
+  const match = CELL_TOKEN.exec(text)!;
+  return {
+    col: columnToIndex(match[2]),
+    row: parseInt(match[4], 10) - 1,
+    colAbsolute: match[1] === '$',
+    rowAbsolute: match[3] === '$'
+  };
+}
+
+function writeCorner(corner: Corner): string {
+  return `${corner.colAbsolute ? '$' : ''}${indexToColumn(corner.col)}${corner.rowAbsolute ? '$' : ''}${corner.row + 1}`;
+}
+
+/**
+ * Text of a whole-column (A:C) or whole-row (3:5) reference after an edit
+ */
+function shiftWholeReference(text: string, edit: StructuralEdit): string | null {
+  const [, firstMarker, first, lastMarker, last] = WHOLE_TOKEN.exec(text)!;
+  const columns = /[A-Z]/.test(first);
+  // Whole columns only move with column edits, whole rows with row edits
+  if (columns !== (edit.axis === 'column') || edit.band) return text;
+
+  const span = columns
+    ? shiftSpan(columnToIndex(first), columnToIndex(last), edit, MAX_COLUMNS)
+    : shiftSpan(parseInt(first, 10) - 1, parseInt(last, 10) - 1, edit, MAX_ROWS);
+  if (!span) return null;
+  const write = (index: number) => (columns ? indexToColumn(index) : String(index + 1));
+  return `${firstMarker}${write(span[0])}:${lastMarker}${write(span[1])}`;
+}
+
+/**
+ * Text of a cell or cell range reference after an edit; corners keep their absolute markers
+ */
+function shiftCellReference(first: string, last: string | null, edit: StructuralEdit): string | null {
+  const a = readCorner(first);
+  const b = last ? readCorner(last) : a;
+  const area = shiftArea({
+    start: { row: Math.min(a.row, b.row), col: Math.min(a.col, b.col) },
+    end: { row: Math.max(a.row, b.row), col: Math.max(a.col, b.col) }
+  }, edit);
+  if (!area) return null;
+
+  const start = writeCorner({ ...a, ...area.start });
+  return last ? `${start}:${writeCorner({ ...b, ...area.end })}` : start;
+}
+
+/**
+ * Point the references in a formula at where their cells moved after rows or columns were
+ * inserted or deleted (=SUM(B2:B9) -> =SUM(B2:B11)). References to deleted cells become
+ * #REF!. `formulaSheet` is the sheet the formula lives on, which unqualified references
+ * refer to. Formulas that do not parse are left alone.
+ */
+export function shiftReferencesInFormula(formula: string, edit: StructuralEdit, formulaSheet: string): string {
+  if (!isFormula(formula)) return formula;
+
+  const body = formula.substring(1);
+  let tokens;
+  try {
+    tokens = tokenize(body);
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return formula;
+    throw error;
+  }
+
+  const target = edit.sheet.toUpperCase();
+  let result = '';
+  let copied = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'reference') continue;
+    // Names that look like cells are functions when called (LOG10), as the parser reads them
+    if (tokens[i + 1]?.type === 'lparen' && !token.sheet && !token.value.includes('$')) continue;
+
+    // A1:B5 arrives as two references around a colon; the second carries no sheet
+    const next = tokens[i + 2];
+    const isRange = !token.value.includes(':') && tokens[i + 1]?.type === 'colon' &&
+      next?.type === 'reference' && !next.sheet && !next.value.includes(':');
+    const last = isRange ? next : token;
+    if (isRange) i += 2;
+    if ((token.sheet ?? formulaSheet).toUpperCase() !== target) continue;
+
+    const start = token.sheet ? token.position + readSheetPrefix(body, token.position)!.length : token.position;
+    const end = isRange ? last.position + last.value.length : start + token.value.length;
+    const shifted = token.value.includes(':')
+      ? shiftWholeReference(token.value, edit)
+      : shiftCellReference(token.value, isRange ? last.value : null, edit);
+
+    if (shifted === null) {
+      result += body.slice(copied, token.position) + '#REF!';
+    } else if (shifted !== body.slice(start, end).toUpperCase()) {
+      result += body.slice(copied, start) + shifted;
+    } else {
+      continue;
+    }
+    copied = end;
+  }
+
+  return copied === 0 ? formula : `=${result}${body.slice(copied)}`;
+}
@@ -0,0 +1,250 @@
+/**
+ * Formula Tokenizer - Splits formula text into tokens for the parser
+ */
+
+import { EXCEL_ERROR_CODES, FormulaSyntaxError } from './errors';
+import { isCellRef, parseWholeRange, stripAbsolute } from './references';
+
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'error'
+  | 'reference'
+  | 'identifier'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon'
+  | 'lbrace'
+  | 'rbrace'
+  | 'semicolon';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  /** Sheet named before a reference or name ('Q1 Data'!B2) */
+  sheet?: string;
+}
+
+const TWO_CHAR_OPERATORS = ['<=', '>=', '<>'];
+const SINGLE_CHAR_OPERATORS = '+-*/^&%=<>';
+
+// Sticky patterns, matched at the current position
+const QUOTED_SHEET_PATTERN = /'((?:[^']|'')+)'!/y;
+const SHEET_PATTERN = /([A-Za-z_\\][A-Za-z0-9_.\\]*)!/y;
+const WHOLE_RANGE_PATTERN = /(\$?[A-Za-z]{1,3}:\$?[A-Za-z]{1,3}|\$?\d+:\$?\d+)(?![A-Za-z0-9_.(!])/y;
+const CELL_PATTERN = /\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_.!$])/y;
+const NAME_PATTERN = /[A-Za-z_\\][A-Za-z0-9_.\\]*/y;
+
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+/**
+ * Read a sheet prefix ("Sheet1!" or "'Q1 Data'!") starting at `index`
+ */
+export function readSheetPrefix(formula: string, index: number): { sheet: string; length: number } | null {
+  const quoted = matchAt(QUOTED_SHEET_PATTERN, formula, index);
+  if (quoted) {
+    return { sheet: quoted[1].replace(/''/g, "'"), length: quoted[0].length };
+  }
+  const plain = matchAt(SHEET_PATTERN, formula, index);
+  return plain ? { sheet: plain[1], length: plain[0].length } : null;
+}
+
+/**
+ * Read a cell ($A$1), whole-column (A:C) or whole-row (3:5) reference starting at `index`
+ */
+function readReference(formula: string, index: number): string | null {
+  const whole = matchAt(WHOLE_RANGE_PATTERN, formula, index);
+  if (whole && parseWholeRange(whole[0])) {
+    return whole[0].toUpperCase();
+  }
+  const cell = matchAt(CELL_PATTERN, formula, index);
+  if (cell && isCellRef(stripAbsolute(cell[0]))) {
+    return cell[0].toUpperCase();
+  }
+  return null;
+}
+
+/**
+ * Tokenize a formula body (without the leading "=")
+ */
+export function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    // Skip whitespace
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // String literals - a doubled quote ("") is an escaped quote
+    if (char === '"') {
+      const start = i;
+      let str = '';
+      i++;
+      while (true) {
+        if (i >= formula.length) {
+          throw new FormulaSyntaxError(`Unterminated string starting at ${start}`);
+        }
+        if (formula[i] === '"') {
+          if (formula[i + 1] === '"') {
+            str += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        str += formula[i];
+        i++;
+      }
+      tokens.push({ type: 'string', value: str, position: start });
+      continue;
+    }
+
+    // Sheet-qualified references and names: Sheet1!A1, 'Q1 Data'!B2:B20, Sheet2!Total
+    const prefix = readSheetPrefix(formula, i);
+    if (prefix) {
+      const start = i;
+      i += prefix.length;
+      const reference = readReference(formula, i);
+      if (reference) {
+        tokens.push({ type: 'reference', value: reference, position: start, sheet: prefix.sheet });
+        i += reference.length;
+        continue;
+      }
+      const name = matchAt(NAME_PATTERN, formula, i);
+      if (!name) {
+        throw new FormulaSyntaxError(`Expected a reference after '${prefix.sheet}!' at ${i}`);
+      }
+      tokens.push({ type: 'identifier', value: name[0].toUpperCase(), position: start, sheet: prefix.sheet });
+      i += name[0].length;
+      continue;
+    }
+
+    // References with absolute markers or whole columns/rows ($A$1, A:A, 3:3)
+    if (/[$A-Za-z\d]/.test(char)) {
+      const reference = readReference(formula, i);
+      if (reference) {
+        tokens.push({ type: 'reference', value: reference, position: i });
+        i += reference.length;
+        continue;
+      }
+    }
+
+    // Numbers, including decimals and exponents (1.5, .5, 2E-3)
+    if (/\d/.test(char) || (char === '.' && /\d/.test(formula[i + 1] || ''))) {
+      const match = formula.slice(i).match(/^(\d*\.?\d+|\d+\.)([eE][+-]?\d+)?/);
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'number', value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    // Error literals (#N/A, #DIV/0!, ...)
+    if (char === '#') {
+      const code = EXCEL_ERROR_CODES.find(candidate =>
+        formula.slice(i, i + candidate.length).toUpperCase() === candidate
+      );
+      if (code) {
+        tokens.push({ type: 'error', value: code, position: i });
+        i += code.length;
+        continue;
+      }
+
+      // Spill reference: A1# directly follows a cell reference
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type === 'reference' && !/\s/.test(formula[i - 1])) {
+        tokens.push({ type: 'operator', value: '#', position: i });
+        i++;
+        continue;
+      }
+    }
+
+    // Operators
+    const pair = formula.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.includes(pair)) {
+      tokens.push({ type: 'operator', value: pair, position: i });
+      i += 2;
+      continue;
+    }
+    if (SINGLE_CHAR_OPERATORS.includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ':') {
+      tokens.push({ type: 'colon', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // Array constants: {1,2,3} is a row, {1;2;3} a column
+    if (char === '{') {
+      tokens.push({ type: 'lbrace', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      tokens.push({ type: 'rbrace', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ';') {
+      tokens.push({ type: 'semicolon', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // Identifiers: function names, names and cell references
+    if (/[A-Za-z_\\]/.test(char)) {
+      const start = i;
+      let ident = '';
+      while (i < formula.length && /[A-Za-z0-9_.\\]/.test(formula[i])) {
+        ident += formula[i];
+        i++;
+      }
+      const upper = ident.toUpperCase();
+      tokens.push({
+        type: isCellRef(upper) ? 'reference' : 'identifier',
+        value: upper,
+        position: start
+      });
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character '${char}' at ${i}`);
+  }
+
+  return tokens;
+}
@@ -0,0 +1,238 @@
+/**
+ * Formula Values - Value model and Excel coercion rules used by the evaluator and functions
+ */
+
+import type { ASTNode } from './parser';
+import type { FormulaContext } from './evaluator';
+import { ErrorValue, FormulaError, isErrorValue, parseErrorCode } from './errors';
+import { readDateTime } from './dates';
+
+/** A single value; null represents a blank cell */
+export type ScalarValue = number | string | boolean | ErrorValue | null;
+
+/** A 2D block of values produced by ranges, indexed [row][col] */
+export type ArrayValue = ScalarValue[][];
+
+export type FormulaValue = ScalarValue | ArrayValue;
+
+/**
+ * A function created by LAMBDA, closing over the variables in scope where it was written.
+ * Anywhere but a call it behaves as Excel shows it: a #CALC! error.
+ */
+export class LambdaValue extends ErrorValue {
+  readonly params: string[];
+  readonly body: ASTNode;
+  readonly context: FormulaContext;
+
+  constructor(params: string[], body: ASTNode, context: FormulaContext) {
+    super('#CALC!', 'A LAMBDA has to be called');
+    this.params = params;
+    this.body = body;
+    this.context = context;
+  }
+}
+
+export function isLambdaValue(value: unknown): value is LambdaValue {
+  return value instanceof LambdaValue;
+}
+
+const NUMERIC_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/** An apostrophe before cell input enters the rest as text ('007, '=A1), as in Excel */
+export const TEXT_PREFIX = "'";
+
+/** Raw sheet contents keyed by cell ID ("A1"); formulas are stored with a leading "=" */
+export interface CellData {
+  [key: string]: string;
+}
+
+/**
+ * Normalize any stored cell value to a string
+ * Handles objects (template data), primitives, null/undefined
+ */
+export function normalizeCellValue(raw: any): string {
+  if (raw == null) return '';
+  if (typeof raw === 'string') return raw;
+  if (typeof raw === 'object' && 'value' in raw) {
+    // Template data format: { value: '...', ... }
+    return String(raw.value ?? '');
+  }
+  return String(raw);
+}
+
+export function isFormula(value: any): boolean {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+export function isArrayValue(value: FormulaValue): value is ArrayValue {
+  return Array.isArray(value);
+}
+
+/**
+ * Convert raw cell text into a typed value (numbers, booleans, text, blank).
+ * Typed dates and times become their serial numbers, as in Excel.
+ */
+export function parseCellInput(raw: string): ScalarValue {
+  if (raw === '') return null;
+  if (raw.startsWith(TEXT_PREFIX)) return raw.substring(1);
+
+  const trimmed = raw.trim();
+  if (NUMERIC_PATTERN.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+
+  // Typing an error code such as #N/A stores the error itself
+  const errorCode = parseErrorCode(trimmed);
+  if (errorCode) return new ErrorValue(errorCode);
+
+  const dateTime = readDateTime(trimmed);
+  if (dateTime) return dateTime.serial;
+
+  return raw;
+}
+
+/**
+ * Cell input that enters text as it is, prefixed when it would read as a number, date,
+ * logical value, error or formula
+ */
+export function textInput(text: string): string {
+  if (text === '') return text;
+  return isFormula(text) || typeof parseCellInput(text) !== 'string' || text.startsWith(TEXT_PREFIX)
+    ? TEXT_PREFIX + text
+    : text;
+}
+
+/**
+ * Text a constant shows: its input without the text prefix
+ */
+export function shownInput(raw: string): string {
+  return raw.startsWith(TEXT_PREFIX) ? raw.substring(1) : raw;
+}
+
+/**
+ * Re-raise an error value so the calculation that reads it fails with the same error
+ */
+export function assertNotError(value: ScalarValue): asserts value is Exclude<ScalarValue, ErrorValue> {
+  if (isErrorValue(value)) {
+    throw new FormulaError(value.code, value.message);
+  }
+}
+
+/**
+ * Reduce a value to a scalar; a 1x1 array collapses to its only element
+ */
+export function toScalar(value: FormulaValue): ScalarValue {
+  if (!isArrayValue(value)) return value;
+  if (value.length === 1 && value[0].length === 1) return value[0][0];
+  throw new FormulaError('#VALUE!', 'Expected a single value but got a range');
+}
+
+export function toNumber(value: FormulaValue): number {
+  const scalar = toScalar(value);
+  assertNotError(scalar);
+
+  if (scalar === null) return 0;
+  if (typeof scalar === 'number') return scalar;
+  if (typeof scalar === 'boolean') return scalar ? 1 : 0;
+
+  const trimmed = scalar.trim();
+  if (NUMERIC_PATTERN.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+  const dateTime = readDateTime(trimmed);
+  if (dateTime) return dateTime.serial;
+  throw new FormulaError('#VALUE!', `Cannot convert "${scalar}" to a number`);
+}
+
+export function toText(value: FormulaValue): string {
+  const scalar = toScalar(value);
+  assertNotError(scalar);
+
+  if (scalar === null) return '';
+  if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+  if (typeof scalar === 'number') return formatNumber(scalar);
+  return scalar;
+}
+
+export function toBoolean(value: FormulaValue): boolean {
+  const scalar = toScalar(value);
+  assertNotError(scalar);
+
+  if (scalar === null) return false;
+  if (typeof scalar === 'boolean') return scalar;
+  if (typeof scalar === 'number') return scalar !== 0;
+
+  const upper = scalar.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+  throw new FormulaError('#VALUE!', `Cannot convert "${scalar}" to TRUE/FALSE`);
+}
+
+/**
+ * Rank used when comparing values of different types: numbers < text < booleans < errors
+ */
+function typeRank(value: ScalarValue): number {
+  if (typeof value === 'number') return 0;
+  if (typeof value === 'string') return 1;
+  if (typeof value === 'boolean') return 2;
+  if (isErrorValue(value)) return 3;
+  return 0;
+}
+
+/**
+ * Compare two scalars the way Excel's comparison operators do.
+ * Text comparison is case-insensitive; a blank matches 0, "" or FALSE.
+ */
+export function compareValues(left: ScalarValue, right: ScalarValue): number {
+  if (left === null && right === null) return 0;
+  if (left === null) left = blankFor(right);
+  if (right === null) right = blankFor(left);
+
+  const rankDiff = typeRank(left) - typeRank(right);
+  if (rankDiff !== 0) return rankDiff < 0 ? -1 : 1;
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    const a = left.toLowerCase();
+    const b = right.toLowerCase();
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  if (isErrorValue(left) && isErrorValue(right)) {
+    return left.code === right.code ? 0 : left.code < right.code ? -1 : 1;
+  }
+
+  const a = Number(left);
+  const b = Number(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function blankFor(other: ScalarValue): ScalarValue {
+  if (typeof other === 'string') return '';
+  if (typeof other === 'boolean') return false;
+  return 0;
+}
+
+/**
+ * Format a number for display, trimming floating point noise (0.1 + 0.2 -> 0.3)
+ */
+export function formatNumber(value: number): string {
+  if (!isFinite(value)) return '#NUM!';
+  return String(parseFloat(value.toPrecision(15)));
+}
+
+/**
+ * Convert an evaluated result to the text shown in a cell
+ */
+export function formatValue(value: FormulaValue): string {
+  const scalar = isArrayValue(value) ? value[0]?.[0] ?? null : value;
+
+  if (scalar === null) return '';
+  if (typeof scalar === 'number') return formatNumber(scalar);
+  if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+  if (isErrorValue(scalar)) return scalar.code;
+  return scalar;
+}
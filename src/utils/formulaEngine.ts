@@ -1,496 +1,168 @@
-// Formula Engine - Advanced formula parsing and evaluation
-
-export type ASTNode = 
-  | { type: 'number'; value: number }
-  | { type: 'string'; value: string }
-  | { type: 'boolean'; value: boolean }
-  | { type: 'cell'; cellId: string }
-  | { type: 'range'; start: string; end: string }
-  | { type: 'function'; name: string; args: ASTNode[] }
-  | { type: 'binary'; operator: string; left: ASTNode; right: ASTNode };
-
-export interface FormulaContext {
-  getCellValue: (cellId: string) => any;
-  getRangeValues: (startCell: string, endCell: string) => any[];
-}
-
-// Tokenizer
-type Token = 
-  | { type: 'number'; value: number }
-  | { type: 'string'; value: string }
-  | { type: 'operator'; value: string }
-  | { type: 'identifier'; value: string }
-  | { type: 'lparen' }
-  | { type: 'rparen' }
-  | { type: 'comma' }
-  | { type: 'colon' };
-
-function tokenize(formula: string): Token[] {
-  const tokens: Token[] = [];
-  let i = 0;
-
-  while (i < formula.length) {
-    const char = formula[i];
-
-    // Skip whitespace
-    if (/\s/.test(char)) {
-      i++;
-      continue;
-    }
-
-    // String literals
-    if (char === '"') {
-      let str = '';
-      i++;
-      while (i < formula.length && formula[i] !== '"') {
-        str += formula[i];
-        i++;
-      }
-      i++; // Skip closing quote
-      tokens.push({ type: 'string', value: str });
-      continue;
-    }
-
-    // Numbers
-    if (/\d/.test(char)) {
-      let num = '';
-      while (i < formula.length && /[\d.]/.test(formula[i])) {
-        num += formula[i];
-        i++;
-      }
-      tokens.push({ type: 'number', value: parseFloat(num) });
-      continue;
-    }
-
-    // Operators
-    if (['+', '-', '*', '/', '>', '<', '='].includes(char)) {
-      let op = char;
-      i++;
-      // Handle >= <= == !=
-      if (i < formula.length && ['=', '>'].includes(formula[i])) {
-        op += formula[i];
-        i++;
-      }
-      tokens.push({ type: 'operator', value: op });
-      continue;
-    }
-
-    // Parentheses
-    if (char === '(') {
-      tokens.push({ type: 'lparen' });
-      i++;
-      continue;
-    }
-
-    if (char === ')') {
-      tokens.push({ type: 'rparen' });
-      i++;
-      continue;
-    }
-
-    // Comma
-    if (char === ',') {
-      tokens.push({ type: 'comma' });
-      i++;
-      continue;
-    }
-
-    // Colon (for ranges)
-    if (char === ':') {
-      tokens.push({ type: 'colon' });
-      i++;
-      continue;
-    }
-
-    // Identifiers (function names, cell references)
-    if (/[A-Za-z]/.test(char)) {
-      let ident = '';
-      while (i < formula.length && /[A-Za-z0-9_]/.test(formula[i])) {
-        ident += formula[i];
-        i++;
-      }
-      tokens.push({ type: 'identifier', value: ident.toUpperCase() });
-      continue;
-    }
-
-    i++;
-  }
-
-  return tokens;
+// Formula Engine - Single entry point for parsing and evaluating formulas
+// Tokenizer, parser, evaluator and function registry live in ./formula
+
+import { ASTNode, parseFormula } from './formula/parser';
+import { FormulaContext, evaluateNode } from './formula/evaluator';
+import { CircularReferenceError, toErrorValue } from './formula/errors';
+import { expandRange, parseCellRef, CellPosition } from './formula/references';
+import { collectReferences } from './formula/recalc';
+import {
+  CellData,
+  FormulaValue,
+  ScalarValue,
+  formatValue,
+  isFormula,
+  normalizeCellValue,
+  parseCellInput,
+  toBoolean,
+  toScalar
+} from './formula/values';
+
+export type { ASTNode } from './formula/parser';
+export type { FormulaContext } from './formula/evaluator';
+export type { CellData, FormulaValue, ScalarValue } from './formula/values';
+export type { ErrorCode } from './formula/errors';
+export type { DateFormat } from './formula/dates';
+export type { FormattedValue } from './formula/numberFormat';
+export type { CellArea, StructuralEdit } from './formula/rewrite';
+export type { DefinedName, RecalcEngine, SpillInfo } from './formula/recalc';
+export type { DependencyGraph, RecalcStep } from './formula/dependencyGraph';
+export { ErrorValue, isErrorValue, FormulaError, FormulaSyntaxError, CircularReferenceError } from './formula/errors';
+export { parseFormula } from './formula/parser';
+export { getFunctionNames } from './formula/functions/registry';
+export { formatValue, isFormula, normalizeCellValue, parseCellInput, shownInput, textInput } from './formula/values';
+export { formatSerial, readDateTime } from './formula/dates';
+export { formatCellValue, formatWithCode, validateFormatCode } from './formula/numberFormat';
+export { collectReferences, createRecalcEngine } from './formula/recalc';
+export { renameSheetInFormula, shiftArea, shiftCellPosition, shiftReferencesInFormula } from './formula/rewrite';
+export { MAX_COLUMNS, MAX_ROWS, formatSheetName, isCellRef, parseCellRef, toCellRef } from './formula/references';
+
+// Evaluate an already-parsed formula
+export function evaluateFormula(node: ASTNode, context: FormulaContext): FormulaValue {
+  return evaluateNode(node, context);
 }
 
-// Parser
-class Parser {
-  private tokens: Token[];
-  private pos: number = 0;
-
-  constructor(tokens: Token[]) {
-    this.tokens = tokens;
-  }
-
-  private current(): Token | undefined {
-    return this.tokens[this.pos];
+// Main parse and evaluate function - failures come back as an ErrorValue such as #DIV/0!
+export function parseAndEvaluate(formula: string, context: FormulaContext): ScalarValue {
+  if (!isFormula(formula)) {
+    return formula;
   }
 
-  private advance(): void {
-    this.pos++;
-  }
-
-  private expect(type: string): Token {
-    const token = this.current();
-    if (!token || token.type !== type) {
-      throw new Error(`Expected ${type} but got ${token?.type}`);
-    }
-    this.advance();
-    return token;
-  }
-
-  parse(): ASTNode {
-    return this.parseExpression();
-  }
-
-  private parseExpression(): ASTNode {
-    return this.parseComparison();
-  }
-
-  private parseComparison(): ASTNode {
-    let node = this.parseAdditive();
-
-    while (this.current() && this.current()!.type === 'operator' && 
-           ['>', '<', '>=', '<=', '==', '='].includes((this.current() as any).value)) {
-      const op = (this.current() as any).value;
-      this.advance();
-      const right = this.parseAdditive();
-      node = { type: 'binary', operator: op, left: node, right };
-    }
-
-    return node;
-  }
-
-  private parseAdditive(): ASTNode {
-    let node = this.parseMultiplicative();
-
-    while (this.current() && this.current()!.type === 'operator' && 
-           ['+', '-'].includes((this.current() as any).value)) {
-      const op = (this.current() as any).value;
-      this.advance();
-      const right = this.parseMultiplicative();
-      node = { type: 'binary', operator: op, left: node, right };
-    }
-
-    return node;
-  }
-
-  private parseMultiplicative(): ASTNode {
-    let node = this.parsePrimary();
-
-    while (this.current() && this.current()!.type === 'operator' && 
-           ['*', '/'].includes((this.current() as any).value)) {
-      const op = (this.current() as any).value;
-      this.advance();
-      const right = this.parsePrimary();
-      node = { type: 'binary', operator: op, left: node, right };
-    }
-
-    return node;
-  }
-
-  private parsePrimary(): ASTNode {
-    const token = this.current();
-
-    if (!token) {
-      throw new Error('Unexpected end of formula');
-    }
-
-    // Numbers
-    if (token.type === 'number') {
-      this.advance();
-      return { type: 'number', value: (token as any).value };
-    }
-
-    // Strings
-    if (token.type === 'string') {
-      this.advance();
-      return { type: 'string', value: (token as any).value };
-    }
-
-    // Parentheses
-    if (token.type === 'lparen') {
-      this.advance();
-      const node = this.parseExpression();
-      this.expect('rparen');
-      return node;
-    }
-
-    // Identifiers (functions or cell references)
-    if (token.type === 'identifier') {
-      const name = (token as any).value;
-      this.advance();
-
-      // Check if it's a function call
-      if (this.current() && this.current()!.type === 'lparen') {
-        this.advance();
-        const args: ASTNode[] = [];
-
-        if (this.current() && this.current()!.type !== 'rparen') {
-          args.push(this.parseExpression());
-
-          while (this.current() && this.current()!.type === 'comma') {
-            this.advance();
-            args.push(this.parseExpression());
-          }
-        }
-
-        this.expect('rparen');
-        return { type: 'function', name, args };
-      }
-
-      // Check if it's a range (e.g., A1:B10)
-      if (this.current() && this.current()!.type === 'colon') {
-        this.advance();
-        const endToken = this.expect('identifier');
-        return { type: 'range', start: name, end: (endToken as any).value };
-      }
-
-      // It's a cell reference
-      return { type: 'cell', cellId: name };
-    }
-
-    throw new Error(`Unexpected token: ${token.type}`);
+  try {
+    const result = toScalar(evaluateNode(parseFormula(formula), context));
+    // A formula pointing at an empty cell shows 0, as in Excel
+    return result === null ? 0 : result;
+  } catch (error) {
+    // Syntax errors (#ERROR!) and anything unexpected
+    return toErrorValue(error);
   }
 }
 
-// Evaluator
-export function evaluateFormula(node: ASTNode, context: FormulaContext): any {
-  switch (node.type) {
-    case 'number':
-      return node.value;
-
-    case 'string':
-      return node.value;
-
-    case 'boolean':
-      return node.value;
-
-    case 'cell':
-      return context.getCellValue(node.cellId);
-
-    case 'range':
-      return context.getRangeValues(node.start, node.end);
-
-    case 'binary':
-      return evaluateBinary(node, context);
-
-    case 'function':
-      return evaluateFunction(node, context);
-
-    default:
-      throw new Error('Unknown node type');
+/**
+ * Evaluate a formula as a TRUE/FALSE condition (conditional formatting, validation)
+ * Errors count as FALSE.
+ */
+export function evaluateCondition(formula: string, context: FormulaContext): boolean {
+  try {
+    return toBoolean(evaluateNode(parseFormula(formula), context));
+  } catch {
+    return false;
   }
 }
 
-function evaluateBinary(node: Extract<ASTNode, { type: 'binary' }>, context: FormulaContext): any {
-  const left = evaluateFormula(node.left, context);
-  const right = evaluateFormula(node.right, context);
-
-  switch (node.operator) {
-    case '+':
-      return (Number(left) || 0) + (Number(right) || 0);
-    case '-':
-      return (Number(left) || 0) - (Number(right) || 0);
-    case '*':
-      return (Number(left) || 0) * (Number(right) || 0);
-    case '/':
-      if (Number(right) === 0) throw new Error('Division by zero');
-      return (Number(left) || 0) / (Number(right) || 0);
-    case '>':
-      return left > right;
-    case '<':
-      return left < right;
-    case '>=':
-      return left >= right;
-    case '<=':
-      return left <= right;
-    case '==':
-    case '=':
-      return left == right;
-    default:
-      throw new Error(`Unknown operator: ${node.operator}`);
+// Extract cell references from formula (ranges are expanded to their cells)
+export function extractCellReferences(formula: string): string[] {
+  try {
+    return Array.from(collectReferences(parseFormula(formula)));
+  } catch {
+    return [];
   }
 }
 
-function evaluateFunction(node: Extract<ASTNode, { type: 'function' }>, context: FormulaContext): any {
-  switch (node.name) {
-    case 'SUM': {
-      let sum = 0;
-      for (const arg of node.args) {
-        const value = evaluateFormula(arg, context);
-        if (Array.isArray(value)) {
-          sum += value.reduce((acc, v) => acc + (Number(v) || 0), 0);
-        } else {
-          sum += Number(value) || 0;
-        }
-      }
-      return sum;
-    }
-
-    case 'AVERAGE': {
-      let sum = 0;
-      let count = 0;
-      for (const arg of node.args) {
-        const value = evaluateFormula(arg, context);
-        if (Array.isArray(value)) {
-          const nums = value.filter(v => typeof v === 'number' || !isNaN(Number(v)));
-          sum += nums.reduce((acc, v) => acc + Number(v), 0);
-          count += nums.length;
-        } else if (typeof value === 'number' || !isNaN(Number(value))) {
-          sum += Number(value);
-          count++;
-        }
-      }
-      return count > 0 ? sum / count : 0;
-    }
+// Parse cell reference (e.g., "A1" -> { col: 0, row: 0 })
+export function parseCellReference(cellId: string): CellPosition {
+  const position = parseCellRef(cellId);
+  if (!position) throw new Error(`Invalid cell reference: ${cellId}`);
+  return position;
+}
 
-    case 'COUNT': {
-      let count = 0;
-      for (const arg of node.args) {
-        const value = evaluateFormula(arg, context);
-        if (Array.isArray(value)) {
-          count += value.filter(v => typeof v === 'number' || !isNaN(Number(v))).length;
-        } else if (typeof value === 'number' || !isNaN(Number(value))) {
-          count++;
-        }
-      }
-      return count;
-    }
+// Get range cells (e.g., "A1:B3" -> ["A1", "B1", "A2", "B2", "A3", "B3"])
+export function getRangeCells(start: string, end: string): string[] {
+  return expandRange(start, end);
+}
 
-    case 'MIN': {
-      let min = Infinity;
-      for (const arg of node.args) {
-        const value = evaluateFormula(arg, context);
-        if (Array.isArray(value)) {
-          const nums = value.filter(v => typeof v === 'number' || !isNaN(Number(v))).map(Number);
-          if (nums.length > 0) {
-            min = Math.min(min, ...nums);
-          }
-        } else if (typeof value === 'number' || !isNaN(Number(value))) {
-          min = Math.min(min, Number(value));
-        }
+/**
+ * Build a formula context over a cellData map.
+ * Referenced formulas are evaluated on demand and cached for the lifetime of the context;
+ * use createRecalcEngine instead when the same sheet is evaluated again after edits.
+ */
+export function createCellDataContext(cellData: CellData): FormulaContext {
+  const cache = new Map<string, ScalarValue>();
+  const evaluating: string[] = [];
+
+  const context: FormulaContext = {
+    getCellValue: (cellId: string) => {
+      if (cache.has(cellId)) return cache.get(cellId)!;
+
+      const raw = normalizeCellValue(cellData[cellId]);
+      if (!isFormula(raw)) {
+        const value = parseCellInput(raw);
+        cache.set(cellId, value);
+        return value;
       }
-      return min === Infinity ? 0 : min;
-    }
 
-    case 'MAX': {
-      let max = -Infinity;
-      for (const arg of node.args) {
-        const value = evaluateFormula(arg, context);
-        if (Array.isArray(value)) {
-          const nums = value.filter(v => typeof v === 'number' || !isNaN(Number(v))).map(Number);
-          if (nums.length > 0) {
-            max = Math.max(max, ...nums);
-          }
-        } else if (typeof value === 'number' || !isNaN(Number(value))) {
-          max = Math.max(max, Number(value));
-        }
+      const cycleStart = evaluating.indexOf(cellId);
+      if (cycleStart !== -1) {
+        throw new CircularReferenceError([...evaluating.slice(cycleStart), cellId]);
       }
-      return max === -Infinity ? 0 : max;
-    }
 
-    case 'IF': {
-      if (node.args.length !== 3) {
-        throw new Error('IF requires 3 arguments');
+      evaluating.push(cellId);
+      try {
+        const result = toScalar(evaluateNode(parseFormula(raw), context));
+        const value = result === null ? 0 : result;
+        cache.set(cellId, value);
+        return value;
+      } catch (error) {
+        const value = toErrorValue(error);
+        cache.set(cellId, value);
+        return value;
+      } finally {
+        evaluating.pop();
       }
-      const condition = evaluateFormula(node.args[0], context);
-      return condition ? evaluateFormula(node.args[1], context) : evaluateFormula(node.args[2], context);
-    }
-
-    case 'CONCAT': {
-      return node.args.map(arg => String(evaluateFormula(arg, context))).join('');
-    }
-
-    case 'TODAY': {
-      return new Date().toLocaleDateString();
     }
+  };
 
-    default:
-      throw new Error(`Unknown function: ${node.name}`);
-  }
-}
-
-// Main parse and evaluate function
-export function parseAndEvaluate(formula: string, context: FormulaContext): any {
-  try {
-    if (!formula.startsWith('=')) {
-      return formula;
-    }
-
-    const formulaContent = formula.substring(1).trim();
-    const tokens = tokenize(formulaContent);
-    const parser = new Parser(tokens);
-    const ast = parser.parse();
-    return evaluateFormula(ast, context);
-  } catch (error) {
-    return '#ERROR!';
-  }
-}
-
-// Extract cell references from formula
-export function extractCellReferences(formula: string): string[] {
-  const references: string[] = [];
-  const cellRegex = /\b[A-Z]+\d+\b/g;
-  let match;
-
-  while ((match = cellRegex.exec(formula)) !== null) {
-    references.push(match[0]);
-  }
-
-  return [...new Set(references)];
-}
-
-// Parse cell reference (e.g., "A1" -> { col: 0, row: 0 })
-export function parseCellReference(cellId: string): { col: number; row: number } {
-  const match = cellId.match(/^([A-Z]+)(\d+)$/);
-  if (!match) throw new Error(`Invalid cell reference: ${cellId}`);
-
-  const colStr = match[1];
-  const rowStr = match[2];
-
-  let col = 0;
-  for (let i = 0; i < colStr.length; i++) {
-    col = col * 26 + (colStr.charCodeAt(i) - 65 + 1);
-  }
-  col -= 1; // Convert to 0-based
-
-  const row = parseInt(rowStr) - 1; // Convert to 0-based
-
-  return { col, row };
+  return context;
 }
 
-// Get range cells (e.g., "A1:B3" -> ["A1", "A2", "A3", "B1", "B2", "B3"])
-export function getRangeCells(start: string, end: string): string[] {
-  const startPos = parseCellReference(start);
-  const endPos = parseCellReference(end);
+/**
+ * Evaluate all formulas in a spreadsheet
+ * Returns the display text of every formula cell keyed by cell ID
+ */
+export function evaluateAllFormulas(cellData: CellData): Map<string, string> {
+  const context = createCellDataContext(cellData);
+  const results = new Map<string, string>();
 
-  // Helper to convert index to column letter(s)
-  const indexToColumn = (index: number): string => {
-    let label = '';
-    let num = index;
-    while (num >= 0) {
-      label = String.fromCharCode(65 + (num % 26)) + label;
-      num = Math.floor(num / 26) - 1;
+  Object.keys(cellData).forEach(cellKey => {
+    const raw = normalizeCellValue(cellData[cellKey]);
+    if (isFormula(raw)) {
+      results.set(cellKey, formatValue(parseAndEvaluate(`=${cellKey}`, context)));
     }
-    return label;
-  };
+  });
 
-  const cells: string[] = [];
-
-  for (let row = startPos.row; row <= endPos.row; row++) {
-    for (let col = startPos.col; col <= endPos.col; col++) {
-      const colName = indexToColumn(col);
-      const cellId = `${colName}${row + 1}`;
-      cells.push(cellId);
-    }
-  }
+  return results;
+}
 
-  return cells;
+/**
+ * Get display value for a cell (evaluates formulas)
+ * Pass a shared context when rendering many cells so results are reused.
+ */
+export function getCellDisplayValue(
+  cellData: CellData,
+  cellKey: string,
+  context: FormulaContext = createCellDataContext(cellData)
+): string {
+  const raw = normalizeCellValue(cellData[cellKey]);
+  if (!isFormula(raw)) return raw;
+  return formatValue(parseAndEvaluate(`=${cellKey}`, context));
 }
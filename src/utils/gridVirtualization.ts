@@ -0,0 +1,172 @@
+/**
+ * Grid Virtualization - Pixel offsets along a sheet axis where most rows (or columns) have
+ * the default size, and the data-edge search behind Ctrl+Arrow navigation
+ */
+
+import { parseCellRef } from './formulaEngine';
+
+/**
+ * Browsers stop laying out elements past a few million pixels (Firefox at about 17.9M), so
+ * the scrollable area is capped and scroll positions are scaled up to sheet offsets
+ */
+export const MAX_SCROLL_SIZE = 15_000_000;
+
+/** Row and column headings of the grid; floating objects are placed from their corner */
+export const ROW_HEADER_WIDTH = 42;
+export const COLUMN_HEADER_HEIGHT = 28;
+
+export interface GridAxis {
+  count: number;
+  /** Size of every row (or column) together */
+  totalSize: number;
+  sizeOf: (index: number) => number;
+  /** Offset of the start of an index; offsetOf(count) is the total size */
+  offsetOf: (index: number) => number;
+  /** Index covering an offset, clamped to the axis */
+  indexAt: (offset: number) => number;
+}
+
+/**
+ * Build an axis from the default size and the few sizes that differ from it. Offsets are
+ * computed from the sorted overrides, so a million rows cost no more than a hundred.
+ */
+export function createGridAxis(count: number, defaultSize: number, sizes: Map<number, number>, scale = 1): GridAxis {
+  const overrides = Array.from(sizes.entries())
+    .filter(([index]) => index >= 0 && index < count)
+    .sort((a, b) => a[0] - b[0]);
+  const indexes = overrides.map(([index]) => index);
+  // extraBefore[k]: how much the first k overrides add to the default sizes before them
+  const extraBefore = [0];
+  overrides.forEach(([, size], k) => extraBefore.push(extraBefore[k] + size - defaultSize));
+
+  const overridesBefore = (index: number) => {
+    let low = 0;
+    let high = indexes.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (indexes[middle] < index) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+
+  const sizeOf = (index: number) => (sizes.get(index) ?? defaultSize) * scale;
+  const offsetOf = (index: number) => (index * defaultSize + extraBefore[overridesBefore(index)]) * scale;
+
+  const indexAt = (offset: number) => {
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (offsetOf(middle) <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+
+  return { count, totalSize: offsetOf(count), sizeOf, offsetOf, indexAt };
+}
+
+/**
+ * Indexes from `first` on that fit in `space` pixels, the last one possibly cut off
+ */
+export function visibleIndexes(axis: GridAxis, first: number, space: number): number[] {
+  const indexes: number[] = [];
+  const start = axis.offsetOf(first);
+  for (let index = first; index < axis.count && axis.offsetOf(index) - start < space; index++) {
+    indexes.push(index);
+  }
+  return indexes;
+}
+
+/**
+ * First index to scroll to so that `target` is fully in view, moving as little as possible
+ */
+export function firstIndexShowing(axis: GridAxis, first: number, target: number, space: number): number {
+  if (target < first) return target;
+  const end = axis.offsetOf(target + 1);
+  if (end - axis.offsetOf(first) <= space) return first;
+
+  const start = end - space;
+  const index = axis.indexAt(start);
+  return Math.min(target, axis.offsetOf(index) < start ? index + 1 : index);
+}
+
+export type GridDirection = 'up' | 'down' | 'left' | 'right';
+
+/** Occupied rows of each column and occupied columns of each row, both sorted */
+export interface DataIndex {
+  rowsByColumn: Map<number, number[]>;
+  columnsByRow: Map<number, number[]>;
+}
+
+export function createDataIndex(cellData: { [key: string]: string }): DataIndex {
+  const rowsByColumn = new Map<number, number[]>();
+  const columnsByRow = new Map<number, number[]>();
+  const add = (map: Map<number, number[]>, key: number, value: number) => {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+  };
+
+  Object.keys(cellData).forEach(cellKey => {
+    const value = cellData[cellKey];
+    if (value == null || value === '') return;
+    const position = parseCellRef(cellKey);
+    if (!position) return;
+    add(rowsByColumn, position.col, position.row);
+    add(columnsByRow, position.row, position.col);
+  });
+  rowsByColumn.forEach(list => list.sort((a, b) => a - b));
+  columnsByRow.forEach(list => list.sort((a, b) => a - b));
+  return { rowsByColumn, columnsByRow };
+}
+
+/**
+ * Where Ctrl+Arrow lands, as in Excel: from inside a block of data to the block's last cell,
+ * otherwise to the next cell holding data, or to the sheet's edge when there is none
+ */
+export function findDataEdge(
+  index: DataIndex,
+  from: { row: number; col: number },
+  direction: GridDirection,
+  limits: { rows: number; cols: number }
+): { row: number; col: number } {
+  const vertical = direction === 'up' || direction === 'down';
+  const step = direction === 'down' || direction === 'right' ? 1 : -1;
+  const occupied = (vertical ? index.rowsByColumn.get(from.col) : index.columnsByRow.get(from.row)) || [];
+  const start = vertical ? from.row : from.col;
+  const last = (vertical ? limits.rows : limits.cols) - 1;
+
+  const land = (position: number) => (vertical ? { row: position, col: from.col } : { row: from.row, col: position });
+  const has = (position: number) => binarySearch(occupied, position) >= 0;
+
+  if (start + step < 0 || start + step > last) return land(start);
+
+  if (has(start) && has(start + step)) {
+    let position = start + step;
+    while (has(position + step)) position += step;
+    return land(position);
+  }
+
+  // First occupied position past the start in the direction of travel
+  const found = binarySearch(occupied, start + step);
+  const insertAt = found >= 0 ? found : -found - 1;
+  const next = found >= 0 ? occupied[found] : step > 0 ? occupied[insertAt] : occupied[insertAt - 1];
+  return land(next !== undefined ? next : step > 0 ? last : 0);
+}
+
+/**
+ * Index of a value in a sorted list, or -(insertion point) - 1 when it is missing
+ */
+function binarySearch(list: number[], value: number): number {
+  let low = 0;
+  let high = list.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (list[middle] === value) return middle;
+    if (list[middle] < value) low = middle + 1;
+    else high = middle - 1;
+  }
+  return -low - 1;
+}
@@ -0,0 +1,149 @@
+/**
+ * Number Format Presets - The categories of the Format Cells dialog and the format codes
+ * each builds, and the reading of the named formats older sheets stored
+ */
+
+export type FormatCategory =
+  | 'General'
+  | 'Number'
+  | 'Currency'
+  | 'Accounting'
+  | 'Date'
+  | 'Time'
+  | 'Percentage'
+  | 'Fraction'
+  | 'Scientific'
+  | 'Text'
+  | 'Custom';
+
+export const FORMAT_CATEGORIES: FormatCategory[] = [
+  'General', 'Number', 'Currency', 'Accounting', 'Date', 'Time',
+  'Percentage', 'Fraction', 'Scientific', 'Text', 'Custom'
+];
+
+/** How a negative number shows: -1234.10, red, (1234.10) or red in parentheses */
+export type NegativeStyle = 'minus' | 'red' | 'parentheses' | 'red-parentheses';
+
+export interface FormatOptions {
+  decimals: number;
+  thousands: boolean;
+  negative: NegativeStyle;
+  /** Currency symbol as written in the code: "$", "€" or a tag such as "[$€-407]" */
+  symbol: string;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = { decimals: 2, thousands: true, negative: 'minus', symbol: '$' };
+
+export const CURRENCY_SYMBOLS: { label: string; code: string }[] = [
+  { label: '$ English (United States)', code: '$' },
+  { label: '€ Euro', code: '[$€-x-euro2]' },
+  { label: '£ English (United Kingdom)', code: '[$£-809]' },
+  { label: '¥ Japanese', code: '[$¥-411]' },
+  { label: '₹ Indian', code: '[$₹-4009]' },
+  { label: 'None', code: '' }
+];
+
+/** Codes offered for the categories chosen from a list rather than built from options */
+export const CATEGORY_CODES: Partial<Record<FormatCategory, string[]>> = {
+  Date: ['m/d/yyyy', 'dddd, mmmm d, yyyy', 'd-mmm-yy', 'mmm-yy', 'yyyy-mm-dd', 'yyyy-mm-dd hh:mm', 'm/d/yy h:mm AM/PM'],
+  Time: ['h:mm AM/PM', 'h:mm:ss AM/PM', 'hh:mm', 'hh:mm:ss', '[h]:mm:ss', 'mm:ss.0'],
+  Fraction: ['# ?/?', '# ??/??', '# ???/???', '# ?/2', '# ?/4', '# ?/8', '# ??/16', '# ?/10', '# ??/100']
+};
+
+/** Codes listed under Custom, as a starting point for editing */
+export const CUSTOM_CODES = [
+  'General', '0', '0.00', '#,##0', '#,##0.00', '#,##0;[Red]-#,##0', '#,##0.00;[Red](#,##0.00)',
+  '$#,##0.00', '0%', '0.00%', '0.00E+00', '##0.0E+0', '# ?/?', '[Red]-#,##0;[Blue]#,##0',
+  '[<=9999999]###-####;(###) ###-####', 'yyyy-mm-dd hh:mm', '[h]:mm:ss', '@'
+];
+
+// Codes for the named formats stored before format codes (Cell.numberFormat, the ribbon)
+const NAMED_FORMATS: Record<string, string> = {
+  general: 'General',
+  number: '0.00',
+  decimal: '#,##0.00',
+  currency: '$#,##0.00',
+  percentage: '0.00%',
+  date: 'm/d/yyyy'
+};
+
+/**
+ * Format code of a cell's numberFormat, reading the older named formats too; undefined
+ * for cells showing their values as entered (General)
+ */
+export function resolveFormatCode(numberFormat: string | undefined): string | undefined {
+  if (!numberFormat) return undefined;
+  const code = NAMED_FORMATS[numberFormat.toLowerCase()] ?? numberFormat;
+  return code.toLowerCase() === 'general' ? undefined : code;
+}
+
+/**
+ * Code for a category built from its options; list categories take their first code
+ */
+export function buildFormatCode(category: FormatCategory, options: FormatOptions): string {
+  const fraction = options.decimals > 0 ? `.${'0'.repeat(options.decimals)}` : '';
+  const number = `${options.thousands ? '#,##0' : '0'}${fraction}`;
+
+  switch (category) {
+    case 'General':
+    case 'Custom':
+      return 'General';
+    case 'Number':
+      return withNegative(number, options.negative);
+    case 'Currency':
+      return withNegative(`${options.symbol}#,##0${fraction}`, options.negative);
+    case 'Accounting': {
+      const symbol = options.symbol ? `${options.symbol}* ` : '* ';
+      const zero = options.decimals > 0 ? `"-"${'?'.repeat(options.decimals)}` : '"-"';
+      return `_(${symbol}#,##0${fraction}_);_(${symbol}(#,##0${fraction});_(${symbol}${zero}_);_(@_)`;
+    }
+    case 'Percentage':
+      return `0${fraction}%`;
+    case 'Scientific':
+      return `0${fraction}E+00`;
+    case 'Text':
+      return '@';
+    default:
+      return CATEGORY_CODES[category]![0];
+  }
+}
+
+/**
+ * Category and options a code could have been built from, so the dialog opens on the
+ * cell's current format; codes that match no category open under Custom
+ */
+export function describeFormatCode(code: string | undefined): { category: FormatCategory; options: FormatOptions } {
+  const resolved = resolveFormatCode(code);
+  if (!resolved) return { category: 'General', options: DEFAULT_FORMAT_OPTIONS };
+
+  for (const category of FORMAT_CATEGORIES) {
+    const listed = CATEGORY_CODES[category];
+    if (listed?.includes(resolved)) return { category, options: DEFAULT_FORMAT_OPTIONS };
+  }
+  for (const category of ['Number', 'Currency', 'Accounting', 'Percentage', 'Scientific', 'Text'] as FormatCategory[]) {
+    for (const symbol of CURRENCY_SYMBOLS.map(candidate => candidate.code)) {
+      for (const negative of ['minus', 'red', 'parentheses', 'red-parentheses'] as NegativeStyle[]) {
+        for (const thousands of [true, false]) {
+          for (let decimals = 0; decimals <= 10; decimals++) {
+            const options = { decimals, thousands, negative, symbol };
+            if (buildFormatCode(category, options) === resolved) return { category, options };
+          }
+        }
+      }
+    }
+  }
+  return { category: 'Custom', options: DEFAULT_FORMAT_OPTIONS };
+}
+
+function withNegative(positive: string, negative: NegativeStyle): string {
+  switch (negative) {
+    case 'red':
+      return `${positive};[Red]${positive}`;
+    case 'parentheses':
+      return `${positive}_);(${positive})`;
+    case 'red-parentheses':
+      return `${positive}_);[Red](${positive})`;
+    default:
+      return positive;
+  }
+}
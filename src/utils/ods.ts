@@ -0,0 +1,1554 @@
+/**
+ * ODS - Reads and writes OpenDocument spreadsheets, the format of LibreOffice Calc
+ *
+ * Files hold every sheet with its formulas (OpenFormula, translated to and from the
+ * grid's syntax) and their last results, number formats as data styles, cell styles,
+ * merged cells, column widths and row heights, frozen panes, named ranges and expressions
+ * and data validation. Charts, comments, conditional formatting and pivot tables are not
+ * read or written.
+ */
+
+import type { CellValidation } from '../types/spreadsheet';
+import { AUTO_FIT_CONSTANTS, VERTICAL_TEXT_ROTATION } from './autoFit';
+import type { BorderStyle, CellBorder, CellBorders } from './cellBorders';
+import type { CellRange } from './cellStore';
+import {
+  ErrorValue,
+  MAX_COLUMNS,
+  MAX_ROWS,
+  ScalarValue,
+  formatCellValue,
+  formatSheetName,
+  isErrorValue,
+  isFormula,
+  parseCellInput,
+  parseCellRef,
+  readDateTime,
+  textInput,
+  toCellRef
+} from './formulaEngine';
+import { dateToSerial, serialToDate } from './formula/dates';
+import { parseErrorCode } from './formula/errors';
+import { FormatSection, FormatToken, parseFormatCode } from './formula/numberFormat';
+import { resolveFormatCode } from './numberFormatPresets';
+import {
+  DATE_TIME_CODES,
+  FileCellFormat,
+  SheetFile,
+  WorkbookFile,
+  createSheetFile,
+  fractionToTime,
+  hexColor,
+  isoToSerial,
+  numberText,
+  resolveListSources,
+  serialToIso,
+  timeToFraction,
+  usedArea
+} from './workbookFile';
+import {
+  XML_DECLARATION,
+  XmlElement,
+  attribute,
+  childElement,
+  childElements,
+  descendants,
+  escapeXml,
+  localName,
+  parseXml,
+  textContent,
+  xmlElement
+} from './xml';
+import { ZipEntry, createZip, readZip, zipText } from './zip';
+
+export const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+const ODF_VERSION = '1.3';
+
+const NAMESPACES = {
+  'xmlns:office': 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+  'xmlns:style': 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+  'xmlns:text': 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+  'xmlns:table': 'urn:oasis:names:tc:opendocument:xmlns:table:1.0',
+  'xmlns:number': 'urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0',
+  'xmlns:fo': 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+  'xmlns:svg': 'urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0',
+  'xmlns:of': 'urn:oasis:names:tc:opendocument:xmlns:of:1.2',
+  // LibreOffice's extension namespace, for error results of formulas
+  'xmlns:calcext': 'urn:org:documentfoundation:names:experimental:calc:xmlns:calcext:1.0',
+  'office:version': ODF_VERSION
+};
+const NS_META = 'urn:oasis:names:tc:opendocument:xmlns:meta:1.0';
+const NS_CONFIG = 'urn:oasis:names:tc:opendocument:xmlns:config:1.0';
+const NS_MANIFEST = 'urn:oasis:names:tc:opendocument:xmlns:manifest:1.0';
+
+// Excel functions OpenFormula has no name for, which LibreOffice stores with a vendor prefix
+const MICROSOFT_FUNCTIONS = new Set([
+  'AGGREGATE', 'CEILING.MATH', 'CEILING.PRECISE', 'CONCAT', 'CONFIDENCE.NORM', 'FILTER', 'FLOOR.MATH',
+  'FLOOR.PRECISE', 'FORECAST.LINEAR', 'IFS', 'LET', 'MAXIFS', 'MINIFS', 'MODE.SNGL', 'NORM.DIST',
+  'NORM.INV', 'NORM.S.DIST', 'PERCENTILE.EXC', 'PERCENTILE.INC', 'QUARTILE.EXC', 'QUARTILE.INC',
+  'RANDARRAY', 'RANK.AVG', 'RANK.EQ', 'SEQUENCE', 'SORT', 'SORTBY', 'STDEV.P', 'STDEV.S', 'SWITCH',
+  'T.TEST', 'TEXTJOIN', 'UNIQUE', 'VAR.P', 'VAR.S', 'XLOOKUP', 'XMATCH'
+]);
+const VENDOR_PREFIX = /^(COM\.MICROSOFT|ORG\.OPENOFFICE|ORG\.LIBREOFFICE|_XLFN)\./i;
+
+const BORDER_LINES: Record<BorderStyle, string> = {
+  thin: '0.75pt solid',
+  medium: '1.75pt solid',
+  thick: '2.5pt solid',
+  dashed: '0.75pt dashed',
+  dotted: '0.75pt dotted',
+  double: '2.5pt double'
+};
+
+// Colors of format codes ("[Red]") as data styles give them
+const CODE_COLORS: { [name: string]: string } = {
+  black: '#000000', blue: '#0000FF', cyan: '#00FFFF', green: '#00FF00',
+  magenta: '#FF00FF', red: '#FF0000', white: '#FFFFFF', yellow: '#FFFF00'
+};
+
+const DATA_STYLE_ELEMENTS = ['number-style', 'currency-style', 'percentage-style', 'date-style', 'time-style', 'boolean-style', 'text-style'];
+
+const DEFAULT_FONT = { family: 'Calibri', size: 11 };
+
+// LibreOffice reads at most this many columns; the default column style runs up to it
+const FILE_COLUMNS = 1024;
+// Repeated empty cells and columns beyond this are the rest of the sheet, not formatting
+const MAX_EXPANDED = 1024;
+
+const POINTS_PER_PIXEL = 0.75;
+const PIXELS_PER_UNIT: { [unit: string]: number } = { in: 96, cm: 96 / 2.54, mm: 96 / 25.4, pt: 96 / 72, pc: 16, px: 1 };
+
+const toLength = (px: number) => `${Math.round(px * POINTS_PER_PIXEL * 100) / 100}pt`;
+
+function fromLength(length: string | undefined): number | undefined {
+  const match = length && /^\s*(-?\d*\.?\d+)\s*(in|cm|mm|pt|pc|px)?\s*$/.exec(length);
+  return match ? Number(match[1]) * PIXELS_PER_UNIT[match[2] || 'px'] : undefined;
+}
+
+/**
+ * Write a workbook as an .ods file
+ */
+export async function writeOds(workbook: WorkbookFile): Promise<Uint8Array> {
+  const entries: ZipEntry[] = [
+    // First and uncompressed, so the type can be told from the file's opening bytes
+    { path: 'mimetype', data: ODS_MIME_TYPE, stored: true },
+    { path: 'content.xml', data: contentXml(workbook) },
+    { path: 'styles.xml', data: stylesXml() },
+    { path: 'meta.xml', data: metaXml() },
+    { path: 'settings.xml', data: settingsXml(workbook) },
+    { path: 'META-INF/manifest.xml', data: manifestXml() }
+  ];
+  return createZip(entries);
+}
+
+/**
+ * Read an .ods file. Formulas keep their last results in `values`; repeated rows and
+ * cells are expanded, except empty ones filling the rest of a sheet.
+ */
+export async function readOds(data: Uint8Array): Promise<WorkbookFile> {
+  const entries = await readZip(data);
+  const mimetype = zipText(entries, 'mimetype');
+  const content = zipText(entries, 'content.xml');
+  if (!content || (mimetype !== undefined && !mimetype.includes('opendocument.spreadsheet'))) {
+    throw new Error('The file is not an OpenDocument spreadsheet');
+  }
+
+  const contentRoot = parseXml(content);
+  const stylesText = zipText(entries, 'styles.xml');
+  const stylesRoot = stylesText === undefined ? undefined : parseXml(stylesText);
+  const styles = readStyles([stylesRoot, contentRoot]);
+
+  const spreadsheet = childElement(childElement(contentRoot, 'body'), 'spreadsheet');
+  const validations = readValidations(childElement(spreadsheet, 'content-validations'));
+  const sheets = childElements(spreadsheet, 'table').map((table, index) => {
+    const sheet = createSheetFile(attribute(table, 'name') || `Sheet${index + 1}`);
+    readTable(table, sheet, styles, validations);
+    readNames(childElement(table, 'named-expressions'), sheet.names);
+    return sheet;
+  });
+  if (sheets.length === 0) throw new Error('The workbook has no sheets');
+
+  const names = new Map<string, string>();
+  readNames(childElement(spreadsheet, 'named-expressions'), names);
+
+  const settingsText = zipText(entries, 'settings.xml');
+  const activeSheet = settingsText === undefined ? 0 : readSettings(parseXml(settingsText), sheets);
+
+  const workbook: WorkbookFile = { sheets, names, activeSheet };
+  resolveListSources(workbook);
+  return workbook;
+}
+
+// ---------------------------------------------------------------------------------------
+// Formulas
+
+const SHEET_NAME = "'(?:[^']|'')+'|[A-Za-z_\\u00C0-\\uFFFF][\\w.\\u00C0-\\uFFFF]*";
+const CELL = '\\$?[A-Za-z]{1,3}\\$?\\d+';
+const AREA = `${CELL}(?::${CELL})?|\\$?[A-Za-z]{1,3}:\\$?[A-Za-z]{1,3}|\\$?\\d+:\\$?\\d+`;
+
+// Strings, references, TRUE/FALSE, function names and separators of a grid formula
+const GRID_TOKENS = new RegExp(
+  `("(?:[^"]|"")*")|(?<![\\w.$])(?:(${SHEET_NAME})!)?(${AREA})(?![\\w.(!])|(?<![\\w.])(TRUE|FALSE)(?![\\w.(])|(?<![\\w.])([A-Za-z_][\\w.]*)(?=\\()|([,;{}])`,
+  'gi'
+);
+
+// ...and of an OpenFormula expression
+const OPEN_FORMULA_TOKENS = /("(?:[^"]|"")*")|\[([^\]]*)\]|(?<![\w.])(TRUE|FALSE)\(\)|(?<![\w.])([A-Za-z_][\w.]*)(?=\()|([;|~])/gi;
+
+/**
+ * A grid formula (without "=") in OpenFormula syntax: references in brackets with a dot
+ * before the cell ("[.A1:.B2]", "[$Sheet2.C3]"), ";" between arguments and "|" between
+ * the rows of an array
+ */
+function toOpenFormula(formula: string): string {
+  let arrays = 0;
+  return formula.replace(GRID_TOKENS, (match, string, sheet, area, constant, name, separator) => {
+    if (string) return string;
+    if (area) return `[${cellAddress(sheet, area.toUpperCase())}]`;
+    if (constant) return `${constant.toUpperCase()}()`;
+    if (name) return MICROSOFT_FUNCTIONS.has(name.toUpperCase()) ? `COM.MICROSOFT.${name}` : name;
+    switch (separator) {
+      case '{': arrays++; return match;
+      case '}': arrays = Math.max(0, arrays - 1); return match;
+      case ';': return arrays ? '|' : match;
+      default: return ';';
+    }
+  });
+}
+
+/** An ODF cell or range address: "$Sheet1.A1:.B2", or ".A1" without a sheet */
+function cellAddress(sheet: string | undefined, area: string): string {
+  // Dots end a sheet name unless it is quoted
+  const name = sheet && !sheet.startsWith("'") && sheet.includes('.') ? `'${sheet}'` : sheet;
+  const prefix = name ? `$${name}` : '';
+  const [first, second] = area.split(':');
+  return second === undefined ? `${prefix}.${first}` : `${prefix}.${first}:.${second}`;
+}
+
+/**
+ * A formula as stored in a file ("of:=SUM([.A1:.B2])") as typed into the grid, with its
+ * "="
+ */
+function fromOpenFormula(formula: string): string {
+  const namespace = /^([a-z]+):=?/i.exec(formula);
+  const text = namespace ? formula.substring(namespace[0].length) : formula.replace(/^=/, '');
+  // Formulas LibreOffice keeps in Excel's own syntax
+  if (namespace && namespace[1].toLowerCase() === 'msoxl') return `=${text}`;
+
+  return `=${text.replace(OPEN_FORMULA_TOKENS, (match, string, reference, constant, name, separator) => {
+    if (string) return string;
+    if (reference !== undefined) return gridReference(reference);
+    if (constant) return constant.toUpperCase();
+    if (name) return name.replace(VENDOR_PREFIX, '');
+    return separator === '|' ? ';' : ',';
+  })}`;
+}
+
+/** An ODF address ("$'My Sheet'.$A$1:.B2") as the grid writes it ("'My Sheet'!$A$1:B2") */
+function gridReference(address: string): string {
+  const parts = address.trim().split(':').map(part => {
+    const match = /^\$?(?:'((?:[^']|'')*)'|(.*?))\.([^.]*)$/.exec(part.trim());
+    if (!match) return { sheet: '', cell: part.trim() };
+    return { sheet: match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2], cell: match[3] };
+  });
+  if (parts.some(part => part.cell.includes('#REF!') || part.sheet.includes('#REF!'))) return '#REF!';
+  const prefix = parts[0].sheet ? `${formatSheetName(parts[0].sheet)}!` : '';
+  return prefix + parts.map(part => part.cell).join(':');
+}
+
+// ---------------------------------------------------------------------------------------
+// Writing
+
+interface StyleTable {
+  /** Cell style for a cell's formatting; `defaultCode` stands in for a missing number format */
+  cellStyle: (format: FileCellFormat | undefined, defaultCode?: string) => string | undefined;
+  columnStyle: (width: number) => string;
+  rowStyle: (height: number) => string;
+  fontFacesXml: () => string;
+  automaticStylesXml: () => string;
+}
+
+function createStyleTable(): StyleTable {
+  const dataStyles = new Map<string, { name: string; xml: string[] }>();
+  const cellStyles = new Map<string, { name: string; xml: string }>();
+  const columnStyles = new Map<number, string>();
+  const rowStyles = new Map<number, string>();
+  const fonts = new Set<string>();
+
+  const dataStyle = (code: string | undefined) => {
+    if (!code || code === 'General') return undefined;
+    let entry = dataStyles.get(code);
+    if (!entry) {
+      const name = `N${dataStyles.size + 1}`;
+      entry = { name, xml: dataStyleXml(name, code) };
+      dataStyles.set(code, entry);
+    }
+    return entry.name;
+  };
+
+  return {
+    cellStyle: (format, defaultCode) => {
+      const code = resolveFormatCode(format?.numberFormat) || defaultCode;
+      const family = fontFamily(format);
+      const xml = cellStylePropertiesXml(format || {}, family);
+      const data = dataStyle(code);
+      if (!xml && !data) return undefined;
+      const id = `${data || ''}|${xml}`;
+      let entry = cellStyles.get(id);
+      if (!entry) {
+        const name = `ce${cellStyles.size + 1}`;
+        if (family) fonts.add(family);
+        entry = {
+          name,
+          xml: xmlElement('style:style', {
+            'style:name': name,
+            'style:family': 'table-cell',
+            'style:parent-style-name': 'Default',
+            'style:data-style-name': data
+          }, xml)
+        };
+        cellStyles.set(id, entry);
+      }
+      return entry.name;
+    },
+    columnStyle: width => {
+      const rounded = Math.round(width);
+      if (!columnStyles.has(rounded)) columnStyles.set(rounded, `co${columnStyles.size + 1}`);
+      return columnStyles.get(rounded)!;
+    },
+    rowStyle: height => {
+      const rounded = Math.round(height);
+      if (!rowStyles.has(rounded)) rowStyles.set(rounded, `ro${rowStyles.size + 1}`);
+      return rowStyles.get(rounded)!;
+    },
+    fontFacesXml: () => fontFacesXml(fonts),
+    automaticStylesXml: () => xmlElement('office:automatic-styles', {}, [
+      ...Array.from(columnStyles, ([width, name]) => xmlElement('style:style', { 'style:name': name, 'style:family': 'table-column' },
+        xmlElement('style:table-column-properties', { 'fo:break-before': 'auto', 'style:column-width': toLength(width) }))),
+      ...Array.from(rowStyles, ([height, name]) => xmlElement('style:style', { 'style:name': name, 'style:family': 'table-row' },
+        xmlElement('style:table-row-properties', {
+          'style:row-height': toLength(height),
+          'fo:break-before': 'auto',
+          'style:use-optimal-row-height': height === AUTO_FIT_CONSTANTS.DEFAULT_ROW_HEIGHT ? 'true' : 'false'
+        }))),
+      xmlElement('style:style', { 'style:name': 'ta1', 'style:family': 'table', 'style:master-page-name': 'Default' },
+        xmlElement('style:table-properties', { 'table:display': 'true', 'style:writing-mode': 'lr-tb' })),
+      ...Array.from(dataStyles.values()).flatMap(entry => entry.xml),
+      ...Array.from(cellStyles.values()).map(entry => entry.xml)
+    ])
+  };
+}
+
+function fontFamily(format: FileCellFormat | undefined): string | undefined {
+  const family = format?.fontFamily?.split(',')[0].replace(/["']/g, '').trim();
+  return family && family !== DEFAULT_FONT.family ? family : undefined;
+}
+
+function fontFacesXml(fonts: Set<string>): string {
+  return xmlElement('office:font-face-decls', {}, [DEFAULT_FONT.family, ...Array.from(fonts)].map(family =>
+    xmlElement('style:font-face', { 'style:name': family, 'svg:font-family': /\s/.test(family) ? `'${family}'` : family })));
+}
+
+// Property elements of a cell style; empty for a cell without formatting
+function cellStylePropertiesXml(format: FileCellFormat, family: string | undefined): string {
+  const rotation = format.textRotation;
+  const border = (edge: CellBorder | undefined) => edge && `${BORDER_LINES[edge.style] || BORDER_LINES.thin} ${hexColor(edge.color) || '#000000'}`;
+  const horizontal = format.textAlign || (format.indent ? 'left' : undefined);
+
+  const cell = {
+    'fo:background-color': hexColor(format.backgroundColor),
+    'fo:border-left': border(format.borders?.left),
+    'fo:border-right': border(format.borders?.right),
+    'fo:border-top': border(format.borders?.top),
+    'fo:border-bottom': border(format.borders?.bottom),
+    'style:vertical-align': format.verticalAlign,
+    'fo:wrap-option': format.wrapText ? 'wrap' : undefined,
+    'style:shrink-to-fit': format.shrinkToFit && !format.wrapText ? 'true' : undefined,
+    'style:direction': rotation === VERTICAL_TEXT_ROTATION ? 'ttb' : undefined,
+    // Angles count counterclockwise from 0 to 360
+    'style:rotation-angle': !rotation || rotation === VERTICAL_TEXT_ROTATION ? undefined : rotation < 0 ? 360 + rotation : rotation,
+    'style:text-align-source': horizontal ? 'fix' : undefined,
+    'style:repeat-content': horizontal ? 'false' : undefined
+  };
+  const paragraph = {
+    'fo:text-align': horizontal === 'left' ? 'start' : horizontal === 'right' ? 'end' : horizontal,
+    'fo:margin-left': format.indent ? toLength(format.indent * AUTO_FIT_CONSTANTS.INDENT_WIDTH) : undefined
+  };
+  const size = parseFloat(String(format.fontSize ?? ''));
+  const text = {
+    'style:font-name': family,
+    'fo:font-size': size && size !== DEFAULT_FONT.size ? `${size}pt` : undefined,
+    'fo:font-weight': format.bold ? 'bold' : undefined,
+    'fo:font-style': format.italic ? 'italic' : undefined,
+    'style:text-underline-style': format.underline ? 'solid' : undefined,
+    'style:text-underline-width': format.underline ? 'auto' : undefined,
+    'style:text-underline-color': format.underline ? 'font-color' : undefined,
+    'fo:color': hexColor(format.color)
+  };
+
+  const properties = (name: string, attributes: { [name: string]: string | number | undefined }) =>
+    (Object.values(attributes).some(value => value !== undefined) ? xmlElement(name, attributes) : '');
+  return properties('style:table-cell-properties', cell)
+    + properties('style:paragraph-properties', paragraph)
+    + properties('style:text-properties', text);
+}
+
+/**
+ * Data styles for a format code. Each section of the code becomes a style; the last is
+ * the one cells name, choosing the others by the value as the code's sections do.
+ */
+function dataStyleXml(name: string, code: string): string[] {
+  // The text section (the fourth) has no place in a number's style
+  const sections = parseFormatCode(code).slice(0, 3);
+  if (sections.length === 1) return [sectionStyleXml(name, sections[0])];
+
+  const last = sections.length - 1;
+  const defaults = sections.length === 2 ? ['>=0'] : ['>0', '<0'];
+  const parts = sections.slice(0, last).map((section, index) => sectionStyleXml(`${name}P${index}`, section));
+  const maps = sections.slice(0, last).map((section, index) => {
+    const condition = section.condition
+      ? `${section.condition.operator === '<>' ? '!=' : section.condition.operator}${section.condition.value}`
+      : defaults[index];
+    return xmlElement('style:map', { 'style:condition': `value()${condition}`, 'style:apply-style-name': `${name}P${index}` });
+  });
+  return [...parts, sectionStyleXml(name, sections[last], maps)];
+}
+
+function sectionStyleXml(name: string, section: FormatSection, maps: string[] = []): string {
+  const tokens = section.tokens;
+  const isDate = tokens.some(token => token.type === 'date' || token.type === 'ampm' || token.type === 'elapsed');
+  const content: string[] = [];
+  let literal = '';
+  const flush = () => {
+    if (literal) content.push(xmlElement('number:text', {}, escapeXml(literal)));
+    literal = '';
+  };
+
+  let element: string;
+  const attributes: { [name: string]: string | undefined } = { 'style:name': name };
+  if (isDate) {
+    const dated = tokens.some((token, index) => token.type === 'date' && (/^[yd]/.test(token.code) || (token.code[0] === 'm' && !isMinutes(tokens, index))));
+    element = dated ? 'number:date-style' : 'number:time-style';
+    tokens.forEach((token, index) => {
+      const part = datePartXml(token, tokens, index, attributes);
+      if (part === null) {
+        literal += tokenText(token);
+      } else if (part) {
+        flush();
+        content.push(part);
+      }
+    });
+  } else if (tokens.some(token => token.type === 'text')) {
+    element = 'number:text-style';
+    tokens.forEach(token => {
+      if (token.type !== 'text') {
+        literal += tokenText(token);
+        return;
+      }
+      flush();
+      content.push('<number:text-content/>');
+    });
+  } else {
+    element = tokens.some(token => token.type === 'percent') ? 'number:percentage-style' : 'number:number-style';
+    const numeric = (token: FormatToken) => ['digit', 'point', 'comma', 'exponent', 'slash', 'general'].includes(token.type);
+    const first = tokens.findIndex(numeric);
+    let last = -1;
+    tokens.forEach((token, index) => {
+      if (numeric(token)) last = index;
+    });
+    // A fixed denominator ("# ?/8") is read as literal digits
+    if (tokens.slice(first, last + 1).some(token => token.type === 'slash')) {
+      while (/^\d$/.test(tokens[last + 1]?.type === 'literal' ? tokenText(tokens[last + 1]) : '')) last++;
+    }
+    tokens.forEach((token, index) => {
+      if (index < first || index > last) {
+        literal += tokenText(token);
+      } else if (index === first) {
+        flush();
+        content.push(numberXml(tokens.slice(first, last + 1)));
+      }
+    });
+  }
+  flush();
+
+  const color = section.color && CODE_COLORS[section.color];
+  return xmlElement(element, attributes, [
+    color ? xmlElement('style:text-properties', { 'fo:color': color }) : '',
+    ...content,
+    ...maps
+  ]);
+}
+
+// The number element for the digits of a section ("#,##0.00", "0.0E+00", "# ?/?")
+function numberXml(tokens: FormatToken[]): string {
+  if (tokens.some(token => token.type === 'general')) return xmlElement('number:number', { 'number:min-integer-digits': 1 });
+
+  const slash = tokens.findIndex(token => token.type === 'slash');
+  if (slash !== -1) {
+    const before = tokens.slice(0, slash);
+    // Digits just before the slash are the numerator; any before a gap, the whole part
+    let numeratorStart = before.length;
+    while (numeratorStart > 0 && before[numeratorStart - 1].type === 'digit') numeratorStart--;
+    const whole = before.slice(0, numeratorStart).filter(token => token.type === 'digit');
+    const after = tokens.slice(slash + 1);
+    const denominator = after.filter(token => token.type === 'literal').map(tokenText).join('').trim();
+    return xmlElement('number:fraction', {
+      'number:min-integer-digits': whole.length ? whole.filter(token => token.type === 'digit' && token.char === '0').length : undefined,
+      'number:min-numerator-digits': Math.max(1, before.length - numeratorStart),
+      'number:min-denominator-digits': Math.max(1, after.filter(token => token.type === 'digit').length),
+      'number:denominator-value': /^\d+$/.test(denominator) ? denominator : undefined
+    });
+  }
+
+  const exponent = tokens.findIndex(token => token.type === 'exponent');
+  const mantissa = exponent === -1 ? tokens : tokens.slice(0, exponent);
+  const point = mantissa.findIndex(token => token.type === 'point');
+  const integer = point === -1 ? mantissa : mantissa.slice(0, point);
+  const fraction = point === -1 ? [] : mantissa.slice(point + 1);
+  const zeros = (part: FormatToken[]) => part.filter(token => token.type === 'digit' && token.char === '0').length;
+  const digits = (part: FormatToken[]) => part.filter(token => token.type === 'digit').length;
+  const lastDigit = integer.map(token => token.type).lastIndexOf('digit');
+  // Commas after the last digit divide by a thousand each
+  const scaling = mantissa.slice(mantissa.map(token => token.type).lastIndexOf('digit') + 1).filter(token => token.type === 'comma').length;
+
+  const attributes = {
+    'number:decimal-places': digits(fraction),
+    'number:min-decimal-places': zeros(fraction),
+    'number:min-integer-digits': zeros(integer),
+    'number:grouping': integer.slice(0, lastDigit).some(token => token.type === 'comma') ? 'true' : undefined,
+    'number:display-factor': scaling ? 1000 ** scaling : undefined
+  };
+  if (exponent === -1) return xmlElement('number:number', attributes);
+  const { 'number:display-factor': _, ...scientific } = attributes;
+  return xmlElement('number:scientific-number', {
+    ...scientific,
+    'number:min-exponent-digits': Math.max(1, digits(tokens.slice(exponent + 1)))
+  });
+}
+
+// The element for a date or time token, '' for tokens left out, null for literal text
+function datePartXml(token: FormatToken, tokens: FormatToken[], index: number, styleAttributes: { [name: string]: string | undefined }): string | null {
+  const long = (length: number) => (length >= 2 ? 'long' : undefined);
+  if (token.type === 'ampm') return '<number:am-pm/>';
+  if (token.type === 'elapsed') {
+    styleAttributes['number:truncate-on-overflow'] = 'false';
+    const element = token.unit === 'h' ? 'number:hours' : token.unit === 'm' ? 'number:minutes' : 'number:seconds';
+    return xmlElement(element, { 'number:style': long(token.width) });
+  }
+  if (token.type === 'digit') return '';
+  if (token.type === 'point' && isSecondsFraction(tokens, index)) return '';
+  if (token.type !== 'date') return null;
+
+  const length = token.code.length;
+  switch (token.code[0]) {
+    case 'y':
+      return xmlElement('number:year', { 'number:style': length > 2 ? 'long' : undefined });
+    case 'd':
+      return length > 2
+        ? xmlElement('number:day-of-week', { 'number:style': length > 3 ? 'long' : undefined })
+        : xmlElement('number:day', { 'number:style': long(length) });
+    case 'h':
+      return xmlElement('number:hours', { 'number:style': long(length) });
+    case 's': {
+      // Fractions of a second follow as ".0"
+      const fraction = tokens[index + 1]?.type === 'point'
+        ? tokens.slice(index + 2).findIndex(next => next.type !== 'digit')
+        : 0;
+      const places = fraction === -1 ? tokens.length - index - 2 : fraction;
+      return xmlElement('number:seconds', { 'number:style': long(length), 'number:decimal-places': places || undefined });
+    }
+    default:
+      if (isMinutes(tokens, index)) return xmlElement('number:minutes', { 'number:style': long(length) });
+      return xmlElement('number:month', {
+        'number:style': length === 2 || length === 4 ? 'long' : undefined,
+        'number:textual': length > 2 ? 'true' : undefined
+      });
+  }
+}
+
+// The "." of "ss.00", which the seconds element carries
+function isSecondsFraction(tokens: FormatToken[], index: number): boolean {
+  const previous = tokens[index - 1];
+  return previous?.type === 'date' && previous.code[0] === 's' && tokens[index + 1]?.type === 'digit';
+}
+
+// "m" and "mm" are minutes after hours or before seconds
+function isMinutes(tokens: FormatToken[], index: number): boolean {
+  const token = tokens[index];
+  if (token.type !== 'date' || token.code[0] !== 'm' || token.code.length > 2) return false;
+  const unit = (candidate: FormatToken | undefined) =>
+    (candidate?.type === 'date' ? candidate.code[0] : candidate?.type === 'elapsed' ? candidate.unit : null);
+  const previous = tokens.slice(0, index).reverse().find(candidate => unit(candidate) !== null);
+  const next = tokens.slice(index + 1).find(candidate => unit(candidate) !== null);
+  return unit(previous) === 'h' || unit(next) === 's';
+}
+
+function tokenText(token: FormatToken): string {
+  switch (token.type) {
+    case 'literal': return token.text;
+    case 'point': return '.';
+    case 'comma': return ',';
+    case 'percent': return '%';
+    case 'slash': return '/';
+    case 'digit': return token.char === '0' ? '0' : '';
+    default: return '';
+  }
+}
+
+function contentXml(workbook: WorkbookFile): string {
+  const styles = createStyleTable();
+  const validations = createValidationTable();
+  const active = workbook.sheets[workbook.activeSheet] || workbook.sheets[0];
+  const tables = workbook.sheets.map(sheet => tableXml(sheet, styles, validations));
+
+  return XML_DECLARATION + xmlElement('office:document-content', NAMESPACES, [
+    '<office:scripts/>',
+    styles.fontFacesXml(),
+    styles.automaticStylesXml(),
+    xmlElement('office:body', {}, xmlElement('office:spreadsheet', {}, [
+      validations.toXml(),
+      ...tables,
+      namedExpressionsXml(workbook.names, active.name)
+    ]))
+  ]);
+}
+
+function tableXml(sheet: SheetFile, styles: StyleTable, validations: ReturnType<typeof createValidationTable>): string {
+  // Merges and validation reach past the cells in use, and need cells to sit on
+  const used = usedArea(sheet);
+  let lastRow = used.row;
+  let lastCol = used.col;
+  const extend = (row: number, col: number) => {
+    lastRow = Math.max(lastRow, row);
+    lastCol = Math.max(lastCol, col);
+  };
+  sheet.merges.forEach(range => extend(range.endRow, range.endCol));
+  Object.keys(sheet.validations).forEach(key => {
+    const position = parseCellRef(key);
+    if (position) extend(position.row, position.col);
+  });
+  sheet.columnWidths.forEach((_, col) => extend(-1, col));
+  sheet.rowHeights.forEach((_, row) => extend(row, -1));
+
+  // Only rows and columns with something in them are visited; the gaps are written as
+  // repeated empty rows and cells, so a value in the last row costs no more than one in A1
+  const rowColumns = new Map<number, Set<number>>();
+  const note = (row: number, col: number) => {
+    const columns = rowColumns.get(row);
+    if (columns) columns.add(col);
+    else rowColumns.set(row, new Set([col]));
+  };
+  [...Object.keys(sheet.cells), ...Object.keys(sheet.formats), ...Object.keys(sheet.validations)].forEach(key => {
+    const position = parseCellRef(key);
+    if (position) note(position.row, position.col);
+  });
+
+  const merges = new Map<string, CellRange>();
+  // The covered part of each merge, row by row, as runs of columns
+  const covered = new Map<number, { start: number; end: number }[]>();
+  sheet.merges.forEach(range => {
+    merges.set(toCellRef(range.startRow, range.startCol), range);
+    note(range.startRow, range.startCol);
+    for (let row = range.startRow; row <= range.endRow; row++) {
+      const start = row === range.startRow ? range.startCol + 1 : range.startCol;
+      if (start > range.endCol) continue;
+      if (!covered.has(row)) covered.set(row, []);
+      covered.get(row)!.push({ start, end: range.endCol });
+      note(row, start);
+    }
+  });
+
+  const columns: string[] = [];
+  const columnStyles = Array.from({ length: Math.max(lastCol + 1, FILE_COLUMNS) }, (_, col) =>
+    styles.columnStyle(sheet.columnWidths.get(col) ?? AUTO_FIT_CONSTANTS.DEFAULT_COLUMN_WIDTH));
+  repeatRuns(columnStyles).forEach(({ value, count }) => {
+    columns.push(xmlElement('table:table-column', {
+      'table:style-name': value,
+      'table:number-columns-repeated': count > 1 ? count : undefined,
+      'table:default-cell-style-name': 'Default'
+    }));
+  });
+
+  const rows: string[] = [];
+  const rowStyle = (row: number) => styles.rowStyle(sheet.rowHeights.get(row) ?? AUTO_FIT_CONSTANTS.DEFAULT_ROW_HEIGHT);
+  let emptyRun: { style: string; count: number } | null = null;
+  const flushEmptyRows = () => {
+    if (!emptyRun) return;
+    rows.push(xmlElement('table:table-row', { 'table:style-name': emptyRun.style, 'table:number-rows-repeated': emptyRun.count > 1 ? emptyRun.count : undefined },
+      xmlElement('table:table-cell', { 'table:number-columns-repeated': lastCol > 0 ? lastCol + 1 : undefined })));
+    emptyRun = null;
+  };
+  const addEmptyRows = (style: string, count: number) => {
+    if (emptyRun?.style === style) {
+      emptyRun.count += count;
+      return;
+    }
+    flushEmptyRows();
+    emptyRun = { style, count };
+  };
+
+  // Rows first to last, with the rows of custom height in a gap kept apart
+  const sizedRows = Array.from(sheet.rowHeights.keys()).sort((a, b) => a - b);
+  let nextSized = 0;
+  const addGap = (from: number, to: number) => {
+    let row = from;
+    while (nextSized < sizedRows.length && sizedRows[nextSized] < from) nextSized++;
+    while (nextSized < sizedRows.length && sizedRows[nextSized] <= to) {
+      const sized = sizedRows[nextSized++];
+      if (sized > row) addEmptyRows(rowStyle(row), sized - row);
+      addEmptyRows(rowStyle(sized), 1);
+      row = sized + 1;
+    }
+    if (row <= to) addEmptyRows(rowStyle(row), to - row + 1);
+  };
+
+  let nextRow = 0;
+  Array.from(rowColumns.keys()).sort((a, b) => a - b).forEach(row => {
+    addGap(nextRow, row - 1);
+    nextRow = row + 1;
+
+    const runs = covered.get(row) || [];
+    const entries: { col: number; count: number; xml: string }[] = runs.map(run => ({
+      col: run.start,
+      count: run.end - run.start + 1,
+      xml: xmlElement('table:covered-table-cell', { 'table:number-columns-repeated': run.end > run.start ? run.end - run.start + 1 : undefined })
+    }));
+    Array.from(rowColumns.get(row)!).sort((a, b) => a - b).forEach(col => {
+      if (runs.some(run => run.start <= col && col <= run.end)) return;
+      const key = toCellRef(row, col);
+      const xml = cellXml(key, sheet, styles, validations.nameOf(sheet, key), merges.get(key));
+      if (xml) entries.push({ col, count: 1, xml });
+    });
+    if (entries.length === 0) {
+      addEmptyRows(rowStyle(row), 1);
+      return;
+    }
+
+    const cells: string[] = [];
+    let col = 0;
+    entries.sort((a, b) => a.col - b.col).forEach(entry => {
+      const empty = entry.col - col;
+      if (empty > 0) cells.push(xmlElement('table:table-cell', { 'table:number-columns-repeated': empty > 1 ? empty : undefined }));
+      cells.push(entry.xml);
+      col = entry.col + entry.count;
+    });
+    flushEmptyRows();
+    rows.push(xmlElement('table:table-row', { 'table:style-name': rowStyle(row) }, cells));
+  });
+  addGap(nextRow, lastRow);
+  flushEmptyRows();
+  if (rows.length === 0) {
+    rows.push(xmlElement('table:table-row', { 'table:style-name': styles.rowStyle(AUTO_FIT_CONSTANTS.DEFAULT_ROW_HEIGHT) }, '<table:table-cell/>'));
+  }
+
+  return xmlElement('table:table', { 'table:name': sheet.name, 'table:style-name': 'ta1' }, [
+    ...columns,
+    ...rows,
+    namedExpressionsXml(sheet.names, sheet.name)
+  ]);
+}
+
+// Consecutive equal values as runs, as repeated columns and rows are written
+function repeatRuns(values: string[]): { value: string; count: number }[] {
+  const runs: { value: string; count: number }[] = [];
+  values.forEach(value => {
+    const last = runs[runs.length - 1];
+    if (last && last.value === value) last.count++;
+    else runs.push({ value, count: 1 });
+  });
+  return runs;
+}
+
+// Markup for a cell, or '' for one with nothing to write
+function cellXml(key: string, sheet: SheetFile, styles: StyleTable, validation: string | undefined, merge: CellRange | undefined): string {
+  const input = sheet.cells[key];
+  const format = sheet.formats[key];
+  const layout = {
+    'table:content-validation-name': validation,
+    'table:number-columns-spanned': merge ? merge.endCol - merge.startCol + 1 : undefined,
+    'table:number-rows-spanned': merge ? merge.endRow - merge.startRow + 1 : undefined
+  };
+
+  if (input === undefined || input === '') {
+    const style = styles.cellStyle(format);
+    return style || validation || merge ? xmlElement('table:table-cell', { 'table:style-name': style, ...layout }) : '';
+  }
+
+  if (isFormula(input)) {
+    const value = sheet.values[key];
+    const style = styles.cellStyle(format);
+    return xmlElement('table:table-cell', {
+      'table:style-name': style,
+      ...layout,
+      'table:formula': `of:=${toOpenFormula(input.substring(1))}`,
+      ...valueAttributes(value)
+    }, value === null || value === undefined ? '' : paragraphsXml(shownText(value, format)));
+  }
+
+  const value = parseCellInput(input);
+  const dateTime = typeof value === 'number' ? readDateTime(input) : null;
+  const style = styles.cellStyle(format, dateTime ? DATE_TIME_CODES[dateTime.format] : undefined);
+  const attributes = dateTime
+    ? dateTime.format === 'time'
+      ? { 'office:value-type': 'time', 'office:time-value': durationText(value as number) }
+      : { 'office:value-type': 'date', 'office:date-value': dateText(value as number, dateTime.format === 'datetime') }
+    : valueAttributes(value);
+  const shown = dateTime ? input : shownText(value, format);
+  return xmlElement('table:table-cell', { 'table:style-name': style, ...layout, ...attributes }, paragraphsXml(shown));
+}
+
+function valueAttributes(value: ScalarValue | undefined): { [name: string]: string | undefined } {
+  if (value === null || value === undefined) return {};
+  if (typeof value === 'number') {
+    return Number.isFinite(value)
+      ? { 'office:value-type': 'float', 'office:value': String(value) }
+      : { 'office:value-type': 'string', 'office:string-value': '', 'calcext:value-type': 'error' };
+  }
+  if (typeof value === 'boolean') return { 'office:value-type': 'boolean', 'office:boolean-value': String(value) };
+  if (isErrorValue(value)) return { 'office:value-type': 'string', 'office:string-value': '', 'calcext:value-type': 'error' };
+  return { 'office:value-type': 'string' };
+}
+
+// Text a cell shows, kept for readers that do not format values themselves
+function shownText(value: ScalarValue, format: FileCellFormat | undefined): string {
+  if (typeof value === 'number' && !Number.isFinite(value)) return '#NUM!';
+  return formatCellValue(value, resolveFormatCode(format?.numberFormat) || 'General').text;
+}
+
+function paragraphsXml(text: string): string {
+  return text.split('\n').map(line => {
+    const content = escapeXml(line)
+      .replace(/\t/g, '<text:tab/>')
+      // Runs of spaces collapse unless written as <text:s/>
+      .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+      .replace(/^ /, '<text:s/>');
+    return xmlElement('text:p', {}, content);
+  }).join('');
+}
+
+function dateText(serial: number, withTime: boolean): string {
+  const { year, month, day } = serialToDate(Math.floor(serial));
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  if (!withTime) return date;
+  const seconds = Math.round((serial - Math.floor(serial)) * 86400);
+  const time = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60];
+  return `${date}T${time.map(part => String(part).padStart(2, '0')).join(':')}`;
+}
+
+function durationText(fraction: number): string {
+  const seconds = Math.round(fraction * 86400);
+  return `PT${Math.floor(seconds / 3600)}H${String(Math.floor(seconds / 60) % 60).padStart(2, '0')}M${String(seconds % 60).padStart(2, '0')}S`;
+}
+
+/** Validation rules of the workbook, one per rule and sheet as they carry a base cell */
+function createValidationTable() {
+  const rules = new Map<string, { name: string; xml: string }>();
+  return {
+    nameOf: (sheet: SheetFile, key: string): string | undefined => {
+      const validation = sheet.validations[key];
+      if (!validation) return undefined;
+      const id = `${sheet.name}|${JSON.stringify(validation)}`;
+      let rule = rules.get(id);
+      if (!rule) {
+        const name = `val${rules.size + 1}`;
+        rule = { name, xml: contentValidationXml(name, validation, cellAddress(formatSheetName(sheet.name), key)) };
+        rules.set(id, rule);
+      }
+      return rule.name;
+    },
+    toXml: () => (rules.size ? xmlElement('table:content-validations', {}, Array.from(rules.values()).map(rule => rule.xml)) : '')
+  };
+}
+
+function contentValidationXml(name: string, validation: CellValidation, baseCell: string): string {
+  const help = validation.inputTitle || validation.inputMessage
+    ? xmlElement('table:help-message', { 'table:title': validation.inputTitle, 'table:display': 'true' },
+      validation.inputMessage ? paragraphsXml(validation.inputMessage) : '')
+    : '';
+  const error = xmlElement('table:error-message', {
+    'table:title': validation.errorTitle,
+    'table:display': 'true',
+    'table:message-type': validation.errorStyle || 'stop'
+  }, validation.errorMessage ? paragraphsXml(validation.errorMessage) : '');
+
+  return xmlElement('table:content-validation', {
+    'table:name': name,
+    'table:condition': `of:${validationCondition(validation)}`,
+    'table:allow-empty-cell': validation.allowBlank ? 'true' : 'false',
+    'table:base-cell-address': baseCell.replace(/^\$/, ''),
+    'table:display-list': validation.type === 'list' ? 'unsorted' : undefined
+  }, [help, error]);
+}
+
+function validationCondition(validation: CellValidation): string {
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+  if (validation.type === 'list') return `cell-content-is-in-list(${(validation.options || []).map(quote).join(';')})`;
+  if (validation.type === 'custom') return `is-true-formula(${toOpenFormula((validation.formula || 'TRUE').replace(/^=/, ''))})`;
+
+  let bounds: [string | undefined, string | undefined] = [undefined, undefined];
+  switch (validation.type) {
+    case 'wholeNumber':
+    case 'decimal':
+      bounds = [numberText(validation.min), numberText(validation.max)];
+      break;
+    case 'textLength':
+      bounds = [numberText(validation.minLength), numberText(validation.maxLength)];
+      break;
+    case 'date':
+      bounds = [isoToSerial(validation.startDate), isoToSerial(validation.endDate)];
+      break;
+    case 'time':
+      bounds = [timeToFraction(validation.startTime), timeToFraction(validation.endTime)];
+      break;
+  }
+
+  const subject = validation.type === 'textLength' ? 'cell-content-text-length' : 'cell-content';
+  const [low, high] = bounds;
+  const comparison = low !== undefined && high !== undefined
+    ? `${subject}-is-between(${low};${high})`
+    : high !== undefined ? `${subject}()<=${high}` : `${subject}()>=${low ?? '0'}`;
+  const kinds: Partial<Record<CellValidation['type'], string>> = {
+    wholeNumber: 'cell-content-is-whole-number()',
+    decimal: 'cell-content-is-decimal-number()',
+    date: 'cell-content-is-date()',
+    time: 'cell-content-is-time()'
+  };
+  return kinds[validation.type] ? `${kinds[validation.type]} and ${comparison}` : comparison;
+}
+
+/**
+ * Names as named ranges (plain references, pinned to a sheet) or named expressions
+ * (anything else)
+ */
+function namedExpressionsXml(names: Map<string, string>, sheetName: string): string {
+  if (names.size === 0) return '';
+  const sheet = `$${formatSheetName(sheetName)}`;
+  return xmlElement('table:named-expressions', {}, Array.from(names, ([name, reference]) => {
+    const text = reference.replace(/^=/, '').trim();
+    const match = new RegExp(`^(?:(${SHEET_NAME})!)?\\$?([A-Za-z]{1,3})\\$?(\\d+)(?::\\$?([A-Za-z]{1,3})\\$?(\\d+))?$`).exec(text);
+    if (match) {
+      const prefix = match[1] ? `$${match[1]}` : sheet;
+      const start = `$${match[2].toUpperCase()}$${match[3]}`;
+      const end = match[4] ? `:.$${match[4].toUpperCase()}$${match[5]}` : '';
+      return xmlElement('table:named-range', {
+        'table:name': name,
+        'table:base-cell-address': `${prefix}.$A$1`,
+        'table:cell-range-address': `${prefix}.${start}${end}`
+      });
+    }
+    return xmlElement('table:named-expression', {
+      'table:name': name,
+      'table:base-cell-address': `${sheet}.$A$1`,
+      'table:expression': `of:=${toOpenFormula(text)}`
+    });
+  }));
+}
+
+function stylesXml(): string {
+  return XML_DECLARATION + xmlElement('office:document-styles', NAMESPACES, [
+    fontFacesXml(new Set()),
+    xmlElement('office:styles', {}, [
+      xmlElement('style:default-style', { 'style:family': 'table-cell' }, [
+        xmlElement('style:paragraph-properties', { 'style:tab-stop-distance': '1.25cm' }),
+        xmlElement('style:text-properties', { 'style:font-name': DEFAULT_FONT.family, 'fo:font-size': `${DEFAULT_FONT.size}pt` })
+      ]),
+      xmlElement('number:number-style', { 'style:name': 'N0' }, xmlElement('number:number', { 'number:min-integer-digits': 1 })),
+      xmlElement('style:style', { 'style:name': 'Default', 'style:family': 'table-cell', 'style:data-style-name': 'N0' })
+    ]),
+    xmlElement('office:automatic-styles', {}, xmlElement('style:page-layout', { 'style:name': 'pm1' })),
+    xmlElement('office:master-styles', {}, xmlElement('style:master-page', { 'style:name': 'Default', 'style:page-layout-name': 'pm1' }))
+  ]);
+}
+
+function metaXml(): string {
+  return XML_DECLARATION + xmlElement('office:document-meta', {
+    'xmlns:office': NAMESPACES['xmlns:office'],
+    'xmlns:meta': NS_META,
+    'office:version': ODF_VERSION
+  }, xmlElement('office:meta', {}, [
+    xmlElement('meta:generator', {}, 'EtherX Excel'),
+    xmlElement('meta:creation-date', {}, new Date().toISOString().replace(/\.\d+Z$/, ''))
+  ]));
+}
+
+// The view: which sheet is shown and where each sheet's panes are frozen
+function settingsXml(workbook: WorkbookFile): string {
+  const item = (name: string, type: string, value: string | number) =>
+    xmlElement('config:config-item', { 'config:name': name, 'config:type': type }, escapeXml(String(value)));
+  const active = workbook.sheets[workbook.activeSheet] || workbook.sheets[0];
+
+  const tables = workbook.sheets.map(sheet => {
+    const freeze = sheet.freezePanes;
+    const row = freeze?.row || 0;
+    const col = freeze?.col || 0;
+    return xmlElement('config:config-item-map-entry', { 'config:name': sheet.name }, [
+      item('HorizontalSplitMode', 'short', col ? 2 : 0),
+      item('VerticalSplitMode', 'short', row ? 2 : 0),
+      item('HorizontalSplitPosition', 'int', col),
+      item('VerticalSplitPosition', 'int', row),
+      item('ActiveSplitRange', 'short', row && col ? 3 : row ? 2 : col ? 1 : 2),
+      item('PositionLeft', 'int', 0),
+      item('PositionRight', 'int', col),
+      item('PositionTop', 'int', 0),
+      item('PositionBottom', 'int', row)
+    ]);
+  });
+
+  return XML_DECLARATION + xmlElement('office:document-settings', {
+    'xmlns:office': NAMESPACES['xmlns:office'],
+    'xmlns:config': NS_CONFIG,
+    'office:version': ODF_VERSION
+  }, xmlElement('office:settings', {}, xmlElement('config:config-item-set', { 'config:name': 'ooo:view-settings' },
+    xmlElement('config:config-item-map-indexed', { 'config:name': 'Views' }, xmlElement('config:config-item-map-entry', {}, [
+      item('ViewId', 'string', 'view1'),
+      xmlElement('config:config-item-map-named', { 'config:name': 'Tables' }, tables),
+      item('ActiveTable', 'string', active.name)
+    ])))));
+}
+
+function manifestXml(): string {
+  const entry = (path: string, type: string) => xmlElement('manifest:file-entry', {
+    'manifest:full-path': path,
+    'manifest:version': path === '/' ? ODF_VERSION : undefined,
+    'manifest:media-type': type
+  });
+  return XML_DECLARATION + xmlElement('manifest:manifest', { 'xmlns:manifest': NS_MANIFEST, 'manifest:version': ODF_VERSION }, [
+    entry('/', ODS_MIME_TYPE),
+    entry('content.xml', 'text/xml'),
+    entry('styles.xml', 'text/xml'),
+    entry('meta.xml', 'text/xml'),
+    entry('settings.xml', 'text/xml')
+  ]);
+}
+
+// ---------------------------------------------------------------------------------------
+// Reading
+
+interface FileStyles {
+  cells: Map<string, FileCellFormat>;
+  columns: Map<string, number>;
+  /** Heights of rows given one rather than fitted to their content */
+  rows: Map<string, number>;
+}
+
+function readStyles(roots: (XmlElement | undefined)[]): FileStyles {
+  const fonts = new Map<string, string>();
+  const dataStyles = new Map<string, XmlElement>();
+  const styleElements = new Map<string, XmlElement>();
+  const columns = new Map<string, number>();
+  const rows = new Map<string, number>();
+
+  roots.forEach(root => {
+    descendants(childElement(root, 'font-face-decls'), 'font-face').forEach(face => {
+      const family = attribute(face, 'font-family')?.replace(/^['"]|['"]$/g, '');
+      fonts.set(attribute(face, 'name') || '', family || attribute(face, 'name') || '');
+    });
+    [childElement(root, 'styles'), childElement(root, 'automatic-styles')].forEach(container => {
+      childElements(container).forEach(element => {
+        const name = attribute(element, 'name');
+        if (!name) return;
+        if (DATA_STYLE_ELEMENTS.includes(localName(element.name))) {
+          dataStyles.set(name, element);
+        } else if (localName(element.name) === 'style') {
+          const family = attribute(element, 'family');
+          if (family === 'table-cell') styleElements.set(name, element);
+          if (family === 'table-column') {
+            const width = fromLength(attribute(childElement(element, 'table-column-properties'), 'column-width'));
+            if (width) columns.set(name, Math.round(width));
+          }
+          if (family === 'table-row') {
+            const properties = childElement(element, 'table-row-properties');
+            const height = fromLength(attribute(properties, 'row-height'));
+            if (height && attribute(properties, 'use-optimal-row-height') !== 'true') rows.set(name, Math.round(height));
+          }
+        }
+      });
+    });
+  });
+
+  const codes = new Map<string, string | undefined>();
+  const codeOf = (name: string | undefined) => {
+    if (!name) return undefined;
+    if (!codes.has(name)) codes.set(name, dataStyleCode(name, dataStyles));
+    return codes.get(name);
+  };
+
+  const cells = new Map<string, FileCellFormat>();
+  const resolve = (name: string, depth = 0): FileCellFormat => {
+    const cached = cells.get(name);
+    if (cached) return cached;
+    const element = styleElements.get(name);
+    if (!element) return {};
+    const parent = attribute(element, 'parent-style-name');
+    const inherited = parent && depth < 8 ? resolve(parent, depth + 1) : {};
+    const format: FileCellFormat = { ...inherited, ...readCellStyle(element, fonts) };
+    const code = codeOf(attribute(element, 'data-style-name'));
+    if (code && code !== 'General') format.numberFormat = code;
+    cells.set(name, format);
+    return format;
+  };
+  styleElements.forEach((_, name) => resolve(name));
+  return { cells, columns, rows };
+}
+
+function readCellStyle(element: XmlElement, fonts: Map<string, string>): FileCellFormat {
+  const cell = childElement(element, 'table-cell-properties');
+  const paragraph = childElement(element, 'paragraph-properties');
+  const text = childElement(element, 'text-properties');
+
+  const fontName = attribute(text, 'font-name');
+  const size = /^([\d.]+)pt$/.exec(attribute(text, 'font-size') || '');
+  const weight = attribute(text, 'font-weight');
+  const underline = attribute(text, 'text-underline-style');
+  const background = attribute(cell, 'background-color');
+  const align = attribute(paragraph, 'text-align');
+  const vertical = attribute(cell, 'vertical-align');
+  const angle = parseFloat(attribute(cell, 'rotation-angle') || '0') % 360;
+  const indent = fromLength(attribute(paragraph, 'margin-left'));
+
+  const borders: CellBorders = {};
+  (['left', 'right', 'top', 'bottom'] as const).forEach(edge => {
+    const border = readBorder(attribute(cell, `border-${edge}`) ?? attribute(cell, 'border'));
+    if (border) borders[edge] = border;
+  });
+
+  const format: FileCellFormat = {
+    fontFamily: fontName ? fonts.get(fontName) || fontName : attribute(text, 'font-family')?.replace(/^['"]|['"]$/g, ''),
+    fontSize: size ? `${Number(size[1])}px` : undefined,
+    bold: weight === 'bold' || Number(weight) >= 600 || undefined,
+    italic: ['italic', 'oblique'].includes(attribute(text, 'font-style') || '') || undefined,
+    underline: (!!underline && underline !== 'none') || undefined,
+    color: hexColor(attribute(text, 'color')),
+    backgroundColor: background && background !== 'transparent' ? hexColor(background) : undefined,
+    borders: Object.keys(borders).length ? borders : undefined,
+    textAlign: align === 'start' || align === 'left' ? 'left' : align === 'end' || align === 'right' ? 'right' : align === 'center' ? 'center' : undefined,
+    verticalAlign: vertical === 'top' || vertical === 'middle' || vertical === 'bottom' ? vertical : undefined,
+    wrapText: attribute(cell, 'wrap-option') === 'wrap' || undefined,
+    shrinkToFit: attribute(cell, 'shrink-to-fit') === 'true' || undefined,
+    indent: indent ? Math.round(indent / AUTO_FIT_CONSTANTS.INDENT_WIDTH) || undefined : undefined,
+    textRotation: attribute(cell, 'direction') === 'ttb'
+      ? VERTICAL_TEXT_ROTATION
+      : angle ? Math.max(-90, Math.min(90, angle > 180 ? angle - 360 : angle)) : undefined
+  };
+  Object.keys(format).forEach(key => {
+    if (format[key as keyof FileCellFormat] === undefined) delete format[key as keyof FileCellFormat];
+  });
+  return format;
+}
+
+// "0.75pt solid #000000" as a border
+function readBorder(line: string | undefined): CellBorder | undefined {
+  if (!line || line === 'none') return undefined;
+  const parts = line.trim().split(/\s+/);
+  const style = parts.find(part => /^(solid|dotted|dashed|dash-dot|dash-dot-dot|double|fine-dashed|dot-dash)$/.test(part));
+  if (!style || parts.includes('none') || parts.includes('hidden')) return undefined;
+  const width = fromLength(parts.find(part => /^[\d.]+[a-z]+$/.test(part))) || 1;
+  const color = hexColor(parts.find(part => part.startsWith('#'))) || '#000000';
+  if (style === 'double') return { style: 'double', color };
+  if (style === 'dotted') return { style: 'dotted', color };
+  if (style !== 'solid') return { style: 'dashed', color };
+  return { style: width >= 3 ? 'thick' : width >= 1.6 ? 'medium' : 'thin', color };
+}
+
+/**
+ * The format code of a data style, with the styles its maps apply as sections before it
+ */
+function dataStyleCode(name: string, dataStyles: Map<string, XmlElement>): string | undefined {
+  const element = dataStyles.get(name);
+  if (!element) return undefined;
+  const main = sectionCode(element);
+  const conditions = childElements(element, 'map').map(map => {
+    const condition = /value\(\)\s*(>=|<=|!=|<>|>|<|=)\s*(-?[\d.]+)/.exec(attribute(map, 'condition') || '');
+    const target = dataStyles.get(attribute(map, 'apply-style-name') || '');
+    return condition && target ? { operator: condition[1], value: Number(condition[2]), code: sectionCode(target) } : null;
+  }).filter((condition): condition is NonNullable<typeof condition> => condition !== null);
+  if (conditions.length === 0) return main;
+
+  const is = (index: number, operator: string) => conditions[index].operator === operator && conditions[index].value === 0;
+  // The sign split of positive;negative(;zero) codes needs no conditions
+  if (conditions.length === 1 && is(0, '>=')) return `${conditions[0].code};${main}`;
+  if (conditions.length === 2 && is(0, '>') && is(1, '<')) return `${conditions[0].code};${conditions[1].code};${main}`;
+  return [
+    ...conditions.map(({ operator, value, code }) => `[${operator === '!=' ? '<>' : operator}${value}]${code}`),
+    main
+  ].join(';');
+}
+
+function sectionCode(element: XmlElement): string {
+  const kind = localName(element.name);
+  if (kind === 'boolean-style') return 'General';
+  const color = hexColor(attribute(childElement(element, 'text-properties'), 'color'));
+  const colorName = Object.keys(CODE_COLORS).find(name => CODE_COLORS[name] === color);
+  const elapsed = attribute(element, 'truncate-on-overflow') === 'false';
+  let elapsedWritten = false;
+  const timeUnit = (code: string) => {
+    if (!elapsed || elapsedWritten) return code;
+    elapsedWritten = true;
+    return `[${code}]`;
+  };
+
+  let code = colorName ? `[${colorName[0].toUpperCase()}${colorName.substring(1)}]` : '';
+  childElements(element).forEach(child => {
+    const long = attribute(child, 'style') === 'long';
+    switch (localName(child.name)) {
+      case 'number':
+        code += numberCode(child);
+        break;
+      case 'scientific-number':
+        code += `${numberCode(child)}E+${'0'.repeat(parseInt(attribute(child, 'min-exponent-digits') || '2', 10) || 1)}`;
+        break;
+      case 'fraction': {
+        const whole = attribute(child, 'min-integer-digits');
+        const numerator = parseInt(attribute(child, 'min-numerator-digits') || '1', 10) || 1;
+        const denominator = attribute(child, 'denominator-value')
+          || '?'.repeat(parseInt(attribute(child, 'min-denominator-digits') || '1', 10) || 1);
+        code += `${whole === undefined ? '' : `${'0'.repeat(Number(whole)) || '#'} `}${'?'.repeat(numerator)}/${denominator}`;
+        break;
+      }
+      case 'text':
+        code += literalCode(textContent(child), kind);
+        break;
+      case 'currency-symbol':
+        code += literalCode(textContent(child), kind);
+        break;
+      case 'text-content':
+        code += '@';
+        break;
+      case 'day':
+        code += long ? 'dd' : 'd';
+        break;
+      case 'day-of-week':
+        code += long ? 'dddd' : 'ddd';
+        break;
+      case 'month':
+        code += attribute(child, 'textual') === 'true' ? (long ? 'mmmm' : 'mmm') : long ? 'mm' : 'm';
+        break;
+      case 'year':
+        code += long ? 'yyyy' : 'yy';
+        break;
+      case 'hours':
+        code += timeUnit(long ? 'hh' : 'h');
+        break;
+      case 'minutes':
+        code += timeUnit(long ? 'mm' : 'm');
+        break;
+      case 'seconds': {
+        const places = parseInt(attribute(child, 'decimal-places') || '0', 10);
+        code += timeUnit(long ? 'ss' : 's') + (places ? `.${'0'.repeat(places)}` : '');
+        break;
+      }
+      case 'am-pm':
+        code += 'AM/PM';
+        break;
+    }
+  });
+  return code || 'General';
+}
+
+function numberCode(element: XmlElement): string {
+  const decimals = attribute(element, 'decimal-places');
+  const grouping = attribute(element, 'grouping') === 'true';
+  const minimum = parseInt(attribute(element, 'min-integer-digits') || '0', 10) || 0;
+  // LibreOffice's "General" gives no decimal places
+  if (decimals === undefined && !grouping && localName(element.name) === 'number') return 'General';
+
+  const places = parseInt(decimals || '0', 10) || 0;
+  const required = Math.min(places, parseInt(attribute(element, 'min-decimal-places') ?? decimals ?? '0', 10) || 0);
+  const integer = grouping ? `#,##${'0'.repeat(minimum) || '#'}` : '0'.repeat(minimum) || '#';
+  const fraction = places ? `.${'0'.repeat(required)}${'#'.repeat(places - required)}` : '';
+  const factor = Number(attribute(element, 'display-factor') || '1');
+  const scaling = factor > 1 ? ','.repeat(Math.round(Math.log(factor) / Math.log(1000))) : '';
+  return integer + fraction + scaling;
+}
+
+// Text of a data style as a format code literal
+function literalCode(text: string, kind: string): string {
+  if (kind === 'percentage-style' && text.includes('%')) {
+    return text.split('%').map(part => literalCode(part, 'number-style')).join('%');
+  }
+  const plain = kind === 'date-style' || kind === 'time-style' ? /^[$\-+/():!^&'~{}<>= ,.]*$/ : /^[$\-+/():!^&'~{}<>= ]*$/;
+  if (plain.test(text)) return text;
+  return text.split('"').map(part => (part ? `"${part}"` : '')).join('\\"');
+}
+
+function readValidations(container: XmlElement | undefined): Map<string, CellValidation> {
+  const validations = new Map<string, CellValidation>();
+  childElements(container, 'content-validation').forEach(element => {
+    const validation = readValidation(element);
+    if (validation) validations.set(attribute(element, 'name') || '', validation);
+  });
+  return validations;
+}
+
+function readValidation(element: XmlElement): CellValidation | null {
+  const condition = (attribute(element, 'condition') || '').replace(/^[a-z]+:/i, '').trim();
+  const type: CellValidation['type'] | null = /cell-content-is-whole-number\(\)/.test(condition) ? 'wholeNumber'
+    : /cell-content-is-decimal-number\(\)/.test(condition) ? 'decimal'
+      : /cell-content-is-date\(\)/.test(condition) ? 'date'
+        : /cell-content-is-time\(\)/.test(condition) ? 'time'
+          : /cell-content-text-length/.test(condition) ? 'textLength'
+            : /cell-content-is-in-list\(/.test(condition) ? 'list'
+              : /is-true-formula\(/.test(condition) ? 'custom'
+                : /cell-content\(\)/.test(condition) ? 'decimal' : null;
+  if (!type) return null;
+
+  const validation: CellValidation = { type };
+  if (attribute(element, 'allow-empty-cell') !== 'false') validation.allowBlank = true;
+  const help = childElement(element, 'help-message');
+  const error = childElement(element, 'error-message');
+  const messageType = attribute(error, 'message-type');
+  if (messageType === 'warning' || messageType === 'information') validation.errorStyle = messageType;
+  if (attribute(error, 'title')) validation.errorTitle = attribute(error, 'title');
+  if (error && paragraphsText(error)) validation.errorMessage = paragraphsText(error);
+  if (attribute(help, 'title')) validation.inputTitle = attribute(help, 'title');
+  if (help && paragraphsText(help)) validation.inputMessage = paragraphsText(help);
+
+  // Which bound each comparison gives
+  let low = '';
+  let high = '';
+  const between = /-is-(?:not-)?between\(([^;]*);([^)]*)\)/.exec(condition);
+  const comparison = /(?:cell-content|cell-content-text-length)\(\)\s*(>=|<=|!=|>|<|=)\s*([^\s)]+)/.exec(condition);
+  if (between) {
+    [low, high] = [between[1].trim(), between[2].trim()];
+  } else if (comparison) {
+    const operator = comparison[1];
+    if (operator === '=') [low, high] = [comparison[2], comparison[2]];
+    else if (operator.startsWith('<')) high = comparison[2];
+    else low = comparison[2];
+  }
+
+  const number = (text: string) => (text !== '' && !Number.isNaN(Number(text)) ? Number(text) : undefined);
+  switch (type) {
+    case 'wholeNumber':
+    case 'decimal':
+      validation.min = number(low);
+      validation.max = number(high);
+      break;
+    case 'textLength':
+      validation.minLength = number(low);
+      validation.maxLength = number(high);
+      break;
+    case 'date':
+      validation.startDate = serialToIso(number(low));
+      validation.endDate = serialToIso(number(high));
+      break;
+    case 'time':
+      validation.startTime = fractionToTime(number(low));
+      validation.endTime = fractionToTime(number(high));
+      break;
+    case 'list': {
+      const list = condition.substring(condition.indexOf('cell-content-is-in-list(') + 24).replace(/\)\s*$/, '');
+      const items = list.match(/"(?:[^"]|"")*"|[^;]+/g) || [];
+      if (items.every(item => item.trim().startsWith('"'))) {
+        validation.options = items.map(item => item.trim().slice(1, -1).replace(/""/g, '"'));
+      } else {
+        // Kept as the source formula until the workbook's cells are read (resolveListSources)
+        validation.options = [];
+        validation.formula = fromOpenFormula(list.trim()).substring(1);
+      }
+      break;
+    }
+    case 'custom': {
+      const formula = condition.substring(condition.indexOf('is-true-formula(') + 16).replace(/\)\s*$/, '');
+      validation.formula = fromOpenFormula(formula).substring(1);
+      break;
+    }
+  }
+  Object.keys(validation).forEach(key => {
+    if (validation[key as keyof CellValidation] === undefined) delete validation[key as keyof CellValidation];
+  });
+  return validation;
+}
+
+function readTable(table: XmlElement, sheet: SheetFile, styles: FileStyles, validations: Map<string, CellValidation>) {
+  // Columns at the width most of the sheet has are left at ours
+  const columnRuns = descendants(table, 'table-column').map(column => ({
+    count: parseInt(attribute(column, 'number-columns-repeated') || '1', 10) || 1,
+    width: styles.columns.get(attribute(column, 'style-name') || ''),
+    cellStyle: attribute(column, 'default-cell-style-name')
+  }));
+  const widthCounts = new Map<number, number>();
+  columnRuns.forEach(({ count, width }) => {
+    if (width !== undefined) widthCounts.set(width, (widthCounts.get(width) || 0) + count);
+  });
+  const sheetWidth = Array.from(widthCounts).sort((a, b) => b[1] - a[1])[0]?.[0];
+  let col = 0;
+  // Cells without a style of their own take their column's
+  const columnCellStyles: { start: number; end: number; style: string }[] = [];
+  columnRuns.forEach(({ count, width, cellStyle }) => {
+    if (width !== undefined && width !== sheetWidth && count <= MAX_EXPANDED) {
+      for (let index = 0; index < count && col + index < MAX_COLUMNS; index++) sheet.columnWidths.set(col + index, width);
+    }
+    if (cellStyle) columnCellStyles.push({ start: col, end: col + count - 1, style: cellStyle });
+    col += count;
+  });
+  const columnCellStyle = (column: number) =>
+    columnCellStyles.find(run => run.start <= column && column <= run.end)?.style;
+
+  let row = 0;
+  descendants(table, 'table-row').forEach(rowElement => {
+    const rowCount = parseInt(attribute(rowElement, 'number-rows-repeated') || '1', 10) || 1;
+    const height = styles.rows.get(attribute(rowElement, 'style-name') || '');
+    const cells = childElements(rowElement).filter(child => ['table-cell', 'covered-table-cell'].includes(localName(child.name)));
+    const hasContent = cells.some(cell => cellHasContent(cell));
+    // Rows repeated to the end of the sheet only carry its defaults
+    const expanded = hasContent || rowCount <= MAX_EXPANDED ? Math.min(rowCount, MAX_ROWS - row) : 0;
+
+    for (let offset = 0; offset < expanded; offset++) {
+      if (height !== undefined) sheet.rowHeights.set(row + offset, height);
+      let column = 0;
+      cells.forEach(cell => {
+        const count = parseInt(attribute(cell, 'number-columns-repeated') || '1', 10) || 1;
+        const content = cellHasContent(cell);
+        const repeats = content || count * rowCount <= MAX_EXPANDED ? Math.min(count, MAX_COLUMNS - column) : 0;
+        for (let index = 0; index < repeats; index++) {
+          const styleName = attribute(cell, 'style-name') ?? columnCellStyle(column + index);
+          readCell(cell, row + offset, column + index, styleName, sheet, styles, validations);
+        }
+        column += count;
+      });
+    }
+    row += rowCount;
+  });
+}
+
+function cellHasContent(cell: XmlElement): boolean {
+  return attribute(cell, 'formula') !== undefined
+    || attribute(cell, 'office:value-type') !== undefined
+    || attribute(cell, 'value-type') !== undefined
+    || childElements(cell, 'p').length > 0;
+}
+
+function readCell(
+  cell: XmlElement,
+  row: number,
+  col: number,
+  styleName: string | undefined,
+  sheet: SheetFile,
+  styles: FileStyles,
+  validations: Map<string, CellValidation>
+) {
+  const key = toCellRef(row, col);
+  const format = styleName ? styles.cells.get(styleName) : undefined;
+  if (format && Object.keys(format).length) sheet.formats[key] = format;
+
+  const validation = validations.get(attribute(cell, 'content-validation-name') || '');
+  if (validation) sheet.validations[key] = validation;
+
+  const columns = parseInt(attribute(cell, 'number-columns-spanned') || '1', 10) || 1;
+  const rows = parseInt(attribute(cell, 'number-rows-spanned') || '1', 10) || 1;
+  if (columns > 1 || rows > 1) sheet.merges.push({ startRow: row, startCol: col, endRow: row + rows - 1, endCol: col + columns - 1 });
+
+  if (localName(cell.name) === 'covered-table-cell') return;
+  const type = attribute(cell, 'office:value-type') ?? attribute(cell, 'value-type');
+  const text = paragraphsText(cell);
+  const formula = attribute(cell, 'formula');
+
+  let value: ScalarValue = null;
+  switch (type) {
+    case 'float':
+    case 'percentage':
+    case 'currency':
+      value = Number(attribute(cell, 'value'));
+      break;
+    case 'date':
+      value = dateValue(attribute(cell, 'date-value') || '');
+      break;
+    case 'time':
+      value = durationValue(attribute(cell, 'time-value') || '');
+      break;
+    case 'boolean':
+      value = ['true', '1'].includes((attribute(cell, 'boolean-value') || '').toLowerCase());
+      break;
+    case 'string':
+      value = attribute(cell, 'string-value') || text;
+      break;
+    default:
+      value = text || null;
+  }
+  if (typeof value === 'number' && Number.isNaN(value)) value = text || null;
+
+  if (formula) {
+    const error = (attribute(cell, 'calcext:value-type') === 'error' || typeof value === 'string') && parseErrorCode(text);
+    sheet.cells[key] = fromOpenFormula(formula);
+    sheet.values[key] = error ? new ErrorValue(error) : value;
+    return;
+  }
+  if (value === null || value === '') return;
+
+  sheet.cells[key] = typeof value === 'boolean'
+    ? value ? 'TRUE' : 'FALSE'
+    : typeof value === 'number' ? String(Number(value.toPrecision(15)))
+    : attribute(cell, 'calcext:value-type') === 'error' ? value : textInput(value);
+  if ((type === 'date' || type === 'time') && !format?.numberFormat) {
+    const code = type === 'time' ? DATE_TIME_CODES.time : Number.isInteger(value) ? DATE_TIME_CODES.date : DATE_TIME_CODES.datetime;
+    sheet.formats[key] = { ...format, numberFormat: code };
+  }
+}
+
+// Text of a cell or message: its paragraphs, one per line
+function paragraphsText(element: XmlElement): string {
+  const text = (node: XmlElement): string => node.children.map(child => {
+    if (typeof child === 'string') return child.replace(/[\r\n]+/g, '');
+    switch (localName(child.name)) {
+      case 's': return ' '.repeat(parseInt(attribute(child, 'c') || '1', 10) || 1);
+      case 'tab': return '\t';
+      case 'line-break': return '\n';
+      case 'annotation': return '';
+      default: return text(child);
+    }
+  }).join('');
+  return childElements(element, 'p').map(text).join('\n');
+}
+
+function dateValue(iso: string): number | null {
+  const match = /^(-?\d{4,})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?)?/.exec(iso);
+  if (!match) return null;
+  const day = dateToSerial(Number(match[1]), Number(match[2]), Number(match[3]));
+  const seconds = Number(match[4] || 0) * 3600 + Number(match[5] || 0) * 60 + Number(match[6] || 0);
+  return day + seconds / 86400;
+}
+
+// "PT13H30M00S" as a fraction of a day
+function durationValue(duration: string): number | null {
+  const match = /^-?P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/.exec(duration);
+  if (!match) return null;
+  const seconds = Number(match[1] || 0) * 86400 + Number(match[2] || 0) * 3600 + Number(match[3] || 0) * 60 + Number(match[4] || 0);
+  return (duration.startsWith('-') ? -seconds : seconds) / 86400;
+}
+
+function readNames(container: XmlElement | undefined, names: Map<string, string>) {
+  childElements(container).forEach(element => {
+    const name = attribute(element, 'name');
+    if (!name) return;
+    if (localName(element.name) === 'named-range') {
+      const address = attribute(element, 'cell-range-address');
+      if (address) names.set(name, gridReference(address));
+    } else if (localName(element.name) === 'named-expression') {
+      const expression = attribute(element, 'expression');
+      if (expression) names.set(name, fromOpenFormula(expression).substring(1));
+    }
+  });
+}
+
+// The active sheet, and each sheet's frozen panes, from the view settings
+function readSettings(root: XmlElement, sheets: SheetFile[]): number {
+  const view = descendants(root, 'config-item-map-indexed')
+    .find(map => attribute(map, 'name') === 'Views');
+  const entry = childElement(view, 'config-item-map-entry');
+  const item = (parent: XmlElement | undefined, name: string) =>
+    textContent(childElements(parent, 'config-item').find(candidate => attribute(candidate, 'name') === name)).trim();
+
+  const tables = childElements(entry, 'config-item-map-named').find(map => attribute(map, 'name') === 'Tables');
+  childElements(tables, 'config-item-map-entry').forEach(table => {
+    const sheet = sheets.find(candidate => candidate.name === attribute(table, 'name'));
+    if (!sheet) return;
+    const col = item(table, 'HorizontalSplitMode') === '2' ? parseInt(item(table, 'HorizontalSplitPosition'), 10) || 0 : 0;
+    const row = item(table, 'VerticalSplitMode') === '2' ? parseInt(item(table, 'VerticalSplitPosition'), 10) || 0 : 0;
+    if (row || col) sheet.freezePanes = { row, col };
+  });
+
+  const active = sheets.findIndex(sheet => sheet.name === item(entry, 'ActiveTable'));
+  return Math.max(0, active);
+}
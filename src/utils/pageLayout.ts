@@ -0,0 +1,231 @@
+/**
+ * Page Layout - How a sheet is split into printed pages: paper and margins, print areas,
+ * rows and columns repeated on every page, and automatic and manual page breaks
+ *
+ * The PDF export and the grid's Page Break Preview both lay pages out here, so the
+ * preview shows the same pages the file gets. Sizes on the sheet are in pixels and sizes
+ * on paper in points.
+ */
+
+import type { CellRange } from './cellStore';
+import { AUTO_FIT_CONSTANTS } from './autoFit';
+import { createGridAxis, type GridAxis } from './gridVirtualization';
+import { MAX_COLUMNS, MAX_ROWS } from './formulaEngine';
+import { columnToIndex, indexToColumn } from './formula/references';
+import { parseRange } from './workbookFile';
+
+export type PaperSize = 'A4' | 'Letter' | 'Legal';
+
+/** Which way pages are numbered when the sheet is both too wide and too long */
+export type PageOrder = 'downThenOver' | 'overThenDown';
+
+export interface PrintSettings {
+  orientation: 'portrait' | 'landscape';
+  paperSize: PaperSize;
+  /** Inches */
+  margins: { top: number; right: number; bottom: number; left: number };
+  /** Percent of normal size, ignored with fitToPage */
+  scaling: number;
+  fitToPage: boolean;
+  showGridlines: boolean;
+  showHeaders: boolean;
+  /** Text with {page}, {pages}, {date} and {sheet} filled in on each page */
+  headerText?: string;
+  footerText?: string;
+  pageNumbers: boolean;
+  /** Ranges to print, comma-separated ("A1:F40, H1:K10"); each starts on a new page */
+  printArea?: string;
+  /** Rows ("1:2") and columns ("A:B") repeated on every page */
+  printTitleRows?: string;
+  printTitleColumns?: string;
+  /** 0-based rows and columns a manual page break puts at the start of a page */
+  rowBreaks?: number[];
+  columnBreaks?: number[];
+  pageOrder?: PageOrder;
+}
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  orientation: 'portrait',
+  paperSize: 'A4',
+  margins: { top: 0.75, right: 0.7, bottom: 0.75, left: 0.7 },
+  scaling: 100,
+  fitToPage: false,
+  showGridlines: true,
+  showHeaders: true,
+  footerText: 'Page {page}',
+  pageNumbers: true,
+  pageOrder: 'downThenOver'
+};
+
+/** Portrait paper sizes in points */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 }
+};
+
+export const POINTS_PER_INCH = 72;
+// Sheet pixels at 100% are CSS pixels, 96 to the inch
+export const POINTS_PER_PIXEL = 0.75;
+
+/** Printed row and column headings, in sheet pixels */
+export const PRINT_HEADING_WIDTH = 40;
+export const PRINT_HEADING_HEIGHT = 20;
+
+/** First and last (inclusive) of a run of rows or columns */
+export interface PageSpan {
+  start: number;
+  end: number;
+}
+
+export interface PrintPage {
+  /** 1-based, in printing order */
+  number: number;
+  rows: PageSpan;
+  columns: PageSpan;
+  /** Title rows and columns printed above and beside the page's own cells */
+  titleRows: PageSpan | null;
+  titleColumns: PageSpan | null;
+}
+
+export interface PageLayout {
+  paper: { width: number; height: number };
+  /** Box inside the margins that cells are printed in, in points */
+  content: { x: number; y: number; width: number; height: number };
+  /** Points per sheet pixel, after scaling or fitting to the page */
+  scale: number;
+  areas: CellRange[];
+  pages: PrintPage[];
+}
+
+/** Row and column sizes of a sheet as printed, hidden rows taking no space */
+export interface SheetAxes {
+  rows: GridAxis;
+  columns: GridAxis;
+}
+
+export function createSheetAxes(columnWidths: Map<number, number>, rowHeights: Map<number, number>, hiddenRows?: Set<number>): SheetAxes {
+  const heights = new Map(rowHeights);
+  hiddenRows?.forEach(row => heights.set(row, 0));
+  return {
+    rows: createGridAxis(MAX_ROWS, AUTO_FIT_CONSTANTS.DEFAULT_ROW_HEIGHT, heights),
+    columns: createGridAxis(MAX_COLUMNS, AUTO_FIT_CONSTANTS.DEFAULT_COLUMN_WIDTH, columnWidths)
+  };
+}
+
+export function paperDimensions(settings: PrintSettings): { width: number; height: number } {
+  const paper = PAPER_SIZES[settings.paperSize] || PAPER_SIZES.A4;
+  return settings.orientation === 'landscape' ? { width: paper.height, height: paper.width } : { ...paper };
+}
+
+/** The print area's ranges, or everything up to the last used cell */
+export function printAreas(settings: PrintSettings, used: { row: number; col: number }): CellRange[] {
+  const ranges = (settings.printArea || '')
+    .split(',')
+    .map(ref => parseRange(ref.trim().replace(/^.*!/, '')))
+    .filter((range): range is CellRange => !!range);
+  if (ranges.length) return ranges;
+  return used.row < 0 ? [] : [{ startRow: 0, startCol: 0, endRow: used.row, endCol: used.col }];
+}
+
+/** "1:2" / "$1:$2" as rows, "A:B" / "$A:$B" as columns; a single "3" or "C" is one */
+export function parseTitleSpan(text: string | undefined, axis: 'rows' | 'columns'): PageSpan | null {
+  if (!text) return null;
+  const parts = text.replace(/\$/g, '').replace(/^.*!/, '').trim().toUpperCase().split(':');
+  const pattern = axis === 'rows' ? /^\d+$/ : /^[A-Z]{1,3}$/;
+  if (parts.length > 2 || !parts.every(part => pattern.test(part))) return null;
+  const indexes = parts.map(part => (axis === 'rows' ? Number(part) - 1 : columnToIndex(part)));
+  if (indexes.some(index => index < 0)) return null;
+  return { start: Math.min(...indexes), end: Math.max(...indexes) };
+}
+
+export function titleSpanRef(span: PageSpan, axis: 'rows' | 'columns'): string {
+  const label = (index: number) => (axis === 'rows' ? String(index + 1) : indexToColumn(index));
+  return `$${label(span.start)}:$${label(span.end)}`;
+}
+
+function spanSize(axis: GridAxis, span: PageSpan): number {
+  return axis.offsetOf(span.end + 1) - axis.offsetOf(span.start);
+}
+
+/**
+ * Cut start..end into runs that fit `space` pixels, leaving room for titles on the runs
+ * that start past them, and starting a run at every manual break. A row or column larger
+ * than the page gets a page of its own.
+ */
+function splitSpan(axis: GridAxis, start: number, end: number, space: number, titles: PageSpan | null, breaks: Set<number>): PageSpan[] {
+  const spans: PageSpan[] = [];
+  let first = start;
+  while (first <= end) {
+    const room = space - (titles && first > titles.end ? spanSize(axis, titles) : 0);
+    let last = first;
+    let used = axis.sizeOf(first);
+    while (last < end && !breaks.has(last + 1) && used + axis.sizeOf(last + 1) <= room) {
+      last++;
+      used += axis.sizeOf(last);
+    }
+    // Runs of hidden rows alone would print blank pages
+    if (used > 0) spans.push({ start: first, end: last });
+    first = last + 1;
+  }
+  return spans;
+}
+
+export function layoutPages(settings: PrintSettings, axes: SheetAxes, used: { row: number; col: number }): PageLayout {
+  const paper = paperDimensions(settings);
+  const margins = settings.margins;
+  const content = {
+    x: margins.left * POINTS_PER_INCH,
+    y: margins.top * POINTS_PER_INCH,
+    width: Math.max(POINTS_PER_INCH, paper.width - (margins.left + margins.right) * POINTS_PER_INCH),
+    height: Math.max(POINTS_PER_INCH, paper.height - (margins.top + margins.bottom) * POINTS_PER_INCH)
+  };
+  const areas = printAreas(settings, used);
+  const titleRows = parseTitleSpan(settings.printTitleRows, 'rows');
+  const titleColumns = parseTitleSpan(settings.printTitleColumns, 'columns');
+  const headingWidth = settings.showHeaders ? PRINT_HEADING_WIDTH : 0;
+  const headingHeight = settings.showHeaders ? PRINT_HEADING_HEIGHT : 0;
+
+  let scale = (POINTS_PER_PIXEL * Math.min(400, Math.max(10, settings.scaling || 100))) / 100;
+  if (settings.fitToPage) {
+    // Shrink (never enlarge) until the largest area fits on one page
+    areas.forEach(area => {
+      const width = headingWidth + spanSize(axes.columns, { start: area.startCol, end: area.endCol })
+        + (titleColumns && area.startCol > titleColumns.end ? spanSize(axes.columns, titleColumns) : 0);
+      const height = headingHeight + spanSize(axes.rows, { start: area.startRow, end: area.endRow })
+        + (titleRows && area.startRow > titleRows.end ? spanSize(axes.rows, titleRows) : 0);
+      scale = Math.min(POINTS_PER_PIXEL, scale, content.width / Math.max(1, width), content.height / Math.max(1, height));
+    });
+  }
+
+  const rowBreaks = new Set(settings.fitToPage ? [] : settings.rowBreaks || []);
+  const columnBreaks = new Set(settings.fitToPage ? [] : settings.columnBreaks || []);
+  const pages: PrintPage[] = [];
+  areas.forEach(area => {
+    const rowSpans = splitSpan(axes.rows, area.startRow, area.endRow, content.height / scale - headingHeight, titleRows, rowBreaks);
+    const columnSpans = splitSpan(axes.columns, area.startCol, area.endCol, content.width / scale - headingWidth, titleColumns, columnBreaks);
+    const addPage = (rows: PageSpan, columns: PageSpan) => pages.push({
+      number: pages.length + 1,
+      rows,
+      columns,
+      titleRows: titleRows && rows.start > titleRows.end ? titleRows : null,
+      titleColumns: titleColumns && columns.start > titleColumns.end ? titleColumns : null
+    });
+    if (settings.pageOrder === 'overThenDown') {
+      rowSpans.forEach(rows => columnSpans.forEach(columns => addPage(rows, columns)));
+    } else {
+      columnSpans.forEach(columns => rowSpans.forEach(rows => addPage(rows, columns)));
+    }
+  });
+
+  return { paper, content, scale, areas, pages };
+}
+
+/** Header or footer text for one page */
+export function expandPageText(text: string, fields: { page: number; pages: number; sheet: string; date: Date }): string {
+  return text
+    .replace(/\{page\}/gi, String(fields.page))
+    .replace(/\{pages\}/gi, String(fields.pages))
+    .replace(/\{sheet\}/gi, fields.sheet)
+    .replace(/\{date\}/gi, fields.date.toLocaleDateString());
+}
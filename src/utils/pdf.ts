@@ -0,0 +1,337 @@
+/**
+ * PDF - Writes PDF documents: pages drawn with vector paths, the standard fonts and JPEG
+ * images, measured in points from the top-left corner of the page
+ *
+ * Only the 14 standard fonts are used, so nothing is embedded; text is written in their
+ * WinAnsi encoding and characters outside it print as "?". Content streams are deflated
+ * with the platform's CompressionStream.
+ */
+
+import { hexColor } from './workbookFile';
+
+export type PdfFontFamily = 'Helvetica' | 'Times' | 'Courier';
+
+export interface PdfFont {
+  family: PdfFontFamily;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type PaintMode = 'fill' | 'stroke' | 'fillStroke';
+
+export type PathCommand =
+  | ['M' | 'L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+export interface PdfImage {
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  /** Graphics state (colors, line style, opacity, clipping, transforms) is kept until restore() */
+  save: () => void;
+  restore: () => void;
+  setFillColor: (color: string) => void;
+  setStrokeColor: (color: string) => void;
+  setLineWidth: (width: number) => void;
+  /** Dash and gap lengths; an empty pattern draws solid lines */
+  setDash: (pattern: number[]) => void;
+  setOpacity: (opacity: number) => void;
+  /** Rotate by degrees (clockwise, as on screen) about a point */
+  rotate: (degrees: number, x: number, y: number) => void;
+  /** Later drawing is limited to the rectangle as well as any earlier clip */
+  clip: (x: number, y: number, width: number, height: number) => void;
+  rect: (x: number, y: number, width: number, height: number, mode: PaintMode) => void;
+  line: (x1: number, y1: number, x2: number, y2: number) => void;
+  path: (commands: PathCommand[], mode: PaintMode) => void;
+  polygon: (points: [number, number][], mode: PaintMode) => void;
+  ellipse: (cx: number, cy: number, rx: number, ry: number, mode: PaintMode) => void;
+  /** Text from its left end at the baseline `y` */
+  text: (text: string, x: number, y: number, font: PdfFont, size: number) => void;
+  image: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+}
+
+export interface PdfDocument {
+  addPage: (width: number, height: number) => PdfPage;
+  /** A JPEG file to draw on pages */
+  addJpeg: (data: Uint8Array) => PdfImage;
+  save: () => Promise<Uint8Array>;
+}
+
+// Advance widths (1/1000 em) of the printable ASCII characters, from the fonts' AFM files
+const WIDTHS: Record<string, number[]> = {
+  Helvetica: widths('278 278 355 556 556 889 667 191 333 333 389 584 278 333 278 278 556 556 556 556 556 556 556 556 556 556 278 278 584 584 584 556 1015 667 667 722 722 667 611 778 722 278 500 667 556 833 722 778 667 778 722 667 611 722 667 944 667 667 611 278 278 278 469 556 333 556 556 500 556 556 278 556 556 222 222 500 222 833 556 556 556 556 333 500 278 556 500 722 500 500 500 334 260 334 584'),
+  'Helvetica-Bold': widths('278 333 474 556 556 889 722 238 333 333 389 584 278 333 278 278 556 556 556 556 556 556 556 556 556 556 333 333 584 584 584 611 975 722 722 722 722 667 611 778 722 278 556 722 611 833 722 778 667 778 722 667 611 722 667 944 667 667 611 333 278 333 584 556 333 556 611 556 611 556 333 611 611 278 278 556 278 889 611 611 611 611 389 556 333 611 556 778 556 556 500 389 280 389 584'),
+  Times: widths('250 333 408 500 500 833 778 180 333 333 500 564 250 333 250 278 500 500 500 500 500 500 500 500 500 500 278 278 564 564 564 444 921 722 667 667 722 611 556 722 722 333 389 722 611 889 722 722 556 722 667 556 611 722 722 944 722 722 611 333 278 333 469 500 333 444 500 444 500 444 333 500 500 278 278 500 278 778 500 500 500 500 333 389 278 500 500 722 500 500 444 480 200 480 541'),
+  'Times-Bold': widths('250 333 555 500 500 1000 833 278 333 333 500 570 250 333 250 278 500 500 500 500 500 500 500 500 500 500 333 333 570 570 570 500 930 722 667 722 722 667 611 778 778 389 500 778 667 944 722 778 611 778 722 556 667 722 722 1000 722 722 667 333 278 333 581 500 333 500 556 444 556 444 333 500 556 278 333 556 278 833 556 500 556 556 444 389 333 556 500 722 500 500 444 394 220 394 520'),
+  'Times-Italic': widths('250 333 420 500 500 833 778 214 333 333 500 675 250 333 250 278 500 500 500 500 500 500 500 500 500 500 333 333 675 675 675 500 920 611 611 667 722 611 611 722 722 333 444 667 556 833 667 722 611 722 611 500 556 722 611 833 611 556 556 389 278 389 422 500 333 500 500 444 500 444 278 500 500 278 278 444 278 722 500 500 500 500 389 389 278 500 444 667 444 444 389 400 275 400 541'),
+  'Times-BoldItalic': widths('250 389 555 500 500 833 778 278 333 333 500 570 250 333 250 278 500 500 500 500 500 500 500 500 500 500 333 333 570 570 570 500 832 667 667 667 722 667 667 722 778 389 500 667 611 889 722 722 611 722 667 556 611 722 667 889 667 611 611 333 278 333 570 500 333 500 500 444 500 444 333 500 556 278 278 500 278 778 556 500 500 500 389 389 278 556 444 667 500 444 389 348 220 348 570')
+};
+
+// Used for characters past ASCII, which the tables above leave out
+const AVERAGE_WIDTH: Record<PdfFontFamily, number> = { Helvetica: 556, Times: 500, Courier: 600 };
+
+// WinAnsi codes 128-159 that differ from Latin-1, by character
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Control point distance for a quarter ellipse drawn as a Bézier curve
+const KAPPA = 0.5522847498;
+
+function widths(list: string): number[] {
+  return list.split(' ').map(Number);
+}
+
+export function fontName(font: PdfFont): string {
+  if (font.family === 'Times') {
+    if (font.bold) return font.italic ? 'Times-BoldItalic' : 'Times-Bold';
+    return font.italic ? 'Times-Italic' : 'Times-Roman';
+  }
+  const style = `${font.bold ? 'Bold' : ''}${font.italic ? 'Oblique' : ''}`;
+  return style ? `${font.family}-${style}` : font.family;
+}
+
+/** Width of text in points; Helvetica's oblique faces share the upright widths */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  if (font.family === 'Courier') return text.length * 0.6 * size;
+  const table = WIDTHS[font.family === 'Times' ? fontName(font).replace('-Roman', '') : font.bold ? 'Helvetica-Bold' : 'Helvetica'];
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? table[code - 32] : AVERAGE_WIDTH[font.family];
+  }
+  return (total * size) / 1000;
+}
+
+/** Colors as the grid takes them ("#RGB", "#RRGGBB", "rgb()") as PDF color operands */
+function colorOperands(color: string): string {
+  const hex = hexColor(color) || '#000000';
+  return [1, 3, 5].map(start => number(parseInt(hex.slice(start, start + 2), 16) / 255)).join(' ');
+}
+
+function number(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/** A PDF literal string in WinAnsi, with bytes past ASCII as octal escapes */
+function pdfString(text: string): string {
+  let result = '(';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = code < 128 || (code >= 160 && code <= 255) ? code : WIN_ANSI[char] ?? 63;
+    const mapped = String.fromCharCode(byte);
+    if (mapped === '(' || mapped === ')' || mapped === '\\') result += `\\${mapped}`;
+    else if (byte < 32 || byte > 126) result += `\\${byte.toString(8).padStart(3, '0')}`;
+    else result += mapped;
+  }
+  return `${result})`;
+}
+
+/** Image size and color components from a JPEG's start-of-frame segment */
+function jpegInfo(data: Uint8Array): { width: number; height: number; components: number } {
+  if (data[0] !== 0xff || data[1] !== 0xd8) throw new Error('The image is not a JPEG file');
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) throw new Error('The JPEG file is damaged');
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    // SOF0-SOF15, leaving out DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+        components: data[offset + 9]
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('The JPEG file has no image size');
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  writer.write(new Uint8Array(data));
+  writer.close();
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+export function createPdf(info: { title?: string } = {}): PdfDocument {
+  const pages: { width: number; height: number; content: string[] }[] = [];
+  const images: { data: Uint8Array; width: number; height: number; components: number }[] = [];
+  const fonts = new Map<string, string>();
+  const opacities = new Map<number, string>();
+
+  const fontResource = (font: PdfFont) => {
+    const name = fontName(font);
+    if (!fonts.has(name)) fonts.set(name, `F${fonts.size + 1}`);
+    return fonts.get(name)!;
+  };
+
+  const addPage = (width: number, height: number): PdfPage => {
+    // Drawing is flipped to run down the page; text and images flip back where drawn
+    const content = [`1 0 0 -1 0 ${number(height)} cm`];
+    pages.push({ width, height, content });
+    const write = (operation: string) => content.push(operation);
+    const paint = (mode: PaintMode) => write(mode === 'fill' ? 'f' : mode === 'stroke' ? 'S' : 'B');
+
+    const path = (commands: PathCommand[], mode: PaintMode) => {
+      write(commands.map(command => {
+        const [operator, ...operands] = command;
+        if (operator === 'Z') return 'h';
+        const code = operator === 'M' ? 'm' : operator === 'L' ? 'l' : 'c';
+        return `${(operands as number[]).map(number).join(' ')} ${code}`;
+      }).join(' '));
+      paint(mode);
+    };
+
+    return {
+      width,
+      height,
+      save: () => write('q'),
+      restore: () => write('Q'),
+      setFillColor: color => write(`${colorOperands(color)} rg`),
+      setStrokeColor: color => write(`${colorOperands(color)} RG`),
+      setLineWidth: lineWidth => write(`${number(lineWidth)} w`),
+      setDash: pattern => write(`[${pattern.map(number).join(' ')}] 0 d`),
+      setOpacity: opacity => {
+        const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 100) / 100;
+        if (!opacities.has(alpha)) opacities.set(alpha, `GS${opacities.size + 1}`);
+        write(`/${opacities.get(alpha)} gs`);
+      },
+      rotate: (degrees, x, y) => {
+        const radians = (degrees * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        write(`1 0 0 1 ${number(x)} ${number(y)} cm ${number(cos)} ${number(sin)} ${number(-sin)} ${number(cos)} 0 0 cm 1 0 0 1 ${number(-x)} ${number(-y)} cm`);
+      },
+      clip: (x, y, clipWidth, clipHeight) => write(`${number(x)} ${number(y)} ${number(clipWidth)} ${number(clipHeight)} re W n`),
+      rect: (x, y, rectWidth, rectHeight, mode) => {
+        write(`${number(x)} ${number(y)} ${number(rectWidth)} ${number(rectHeight)} re`);
+        paint(mode);
+      },
+      line: (x1, y1, x2, y2) => write(`${number(x1)} ${number(y1)} m ${number(x2)} ${number(y2)} l S`),
+      path,
+      polygon: (points, mode) => {
+        if (points.length < 2) return;
+        path([['M', ...points[0]], ...points.slice(1).map((point): PathCommand => ['L', ...point]), ['Z']], mode);
+      },
+      ellipse: (cx, cy, rx, ry, mode) => {
+        const ox = rx * KAPPA;
+        const oy = ry * KAPPA;
+        path([
+          ['M', cx + rx, cy],
+          ['C', cx + rx, cy + oy, cx + ox, cy + ry, cx, cy + ry],
+          ['C', cx - ox, cy + ry, cx - rx, cy + oy, cx - rx, cy],
+          ['C', cx - rx, cy - oy, cx - ox, cy - ry, cx, cy - ry],
+          ['C', cx + ox, cy - ry, cx + rx, cy - oy, cx + rx, cy],
+          ['Z']
+        ], mode);
+      },
+      text: (text, x, y, font, size) => {
+        if (!text) return;
+        write(`BT /${fontResource(font)} ${number(size)} Tf 1 0 0 -1 ${number(x)} ${number(y)} Tm ${pdfString(text)} Tj ET`);
+      },
+      image: (image, x, y, imageWidth, imageHeight) => {
+        const index = images.findIndex(entry => entry === image);
+        if (index === -1) return;
+        write(`q ${number(imageWidth)} 0 0 ${number(-imageHeight)} ${number(x)} ${number(y + imageHeight)} cm /Im${index + 1} Do Q`);
+      }
+    };
+  };
+
+  const addJpeg = (data: Uint8Array): PdfImage => {
+    const image = { data, ...jpegInfo(data) };
+    images.push(image);
+    return image;
+  };
+
+  const save = async (): Promise<Uint8Array> => {
+    // Objects: 1 catalog, 2 page tree, 3 shared resources, 4 info, then fonts, images and pages
+    const objects: (string | { dictionary: string; stream: Uint8Array })[] = [];
+    const add = (object: string | { dictionary: string; stream: Uint8Array }) => objects.push(object);
+    const fontIds = new Map<string, number>();
+    const imageIds: number[] = [];
+    const firstPage = 5 + fonts.size + images.length;
+
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pages.map((_, index) => `${firstPage + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    add('');
+    add(`<< /Producer (EtherX Excel)${info.title ? ` /Title ${pdfString(info.title)}` : ''} >>`);
+    fonts.forEach((resource, name) => {
+      fontIds.set(resource, objects.length + 1);
+      add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`);
+    });
+    images.forEach(image => {
+      imageIds.push(objects.length + 1);
+      const colorSpace = image.components === 1 ? '/DeviceGray' : image.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      add({
+        dictionary: `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${image.components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : ''}`,
+        stream: image.data
+      });
+    });
+    objects[2] = `<< /Font << ${[...fontIds].map(([resource, id]) => `/${resource} ${id} 0 R`).join(' ')} >>`
+      + ` /ExtGState << ${[...opacities].map(([alpha, resource]) => `/${resource} << /ca ${alpha} /CA ${alpha} >>`).join(' ')} >>`
+      + ` /XObject << ${imageIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ')} >> >>`;
+    for (const page of pages) {
+      const id = objects.length + 1;
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}] /Resources 3 0 R /Contents ${id + 1} 0 R >>`);
+      add({ dictionary: '/Filter /FlateDecode', stream: await deflate(latin1(page.content.join('\n'))) });
+    }
+
+    // Binary comment bytes mark the file as binary for transfer programs
+    const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    const offsets: number[] = [];
+    let length = parts[0].length;
+    const push = (part: Uint8Array) => {
+      parts.push(part);
+      length += part.length;
+    };
+    objects.forEach((object, index) => {
+      offsets.push(length);
+      if (typeof object === 'string') {
+        push(latin1(`${index + 1} 0 obj\n${object}\nendobj\n`));
+      } else {
+        push(latin1(`${index + 1} 0 obj\n<< ${object.dictionary} /Length ${object.stream.length} >>\nstream\n`));
+        push(object.stream);
+        push(latin1('\nendstream\nendobj\n'));
+      }
+    });
+    const xref = length;
+    push(latin1([
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>`,
+      'startxref',
+      String(xref),
+      '%%EOF\n'
+    ].join('\n')));
+
+    const result = new Uint8Array(length);
+    let offset = 0;
+    parts.forEach(part => {
+      result.set(part, offset);
+      offset += part.length;
+    });
+    return result;
+  };
+
+  return { addPage, addJpeg, save };
+}
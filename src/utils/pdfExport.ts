@@ -0,0 +1,820 @@
+/**
+ * PDF Export - A sheet printed to PDF as Page Layout splits it: cells with their number
+ * formats, fonts, fills, borders and merges, row and column headings, headers and footers,
+ * and the charts, shapes, text boxes and pictures over the cells
+ *
+ * Everything on the sheet is measured in pixels at 100% zoom and printed at the layout's
+ * scale, so a page looks like the part of the grid it covers.
+ */
+
+import type { Shape } from '../types/shapes';
+import type { ProcessedChartData } from './chartDataProcessor';
+import { VERTICAL_TEXT_ROTATION } from './autoFit';
+import type { CellBorder } from './cellBorders';
+import type { CellRange } from './cellStore';
+import { formatCellValue, formatValue, isFormula, parseCellInput, shownInput, toCellRef } from './formulaEngine';
+import { indexToColumn } from './formula/references';
+import { resolveFormatCode } from './numberFormatPresets';
+import {
+  PRINT_HEADING_HEIGHT,
+  PRINT_HEADING_WIDTH,
+  createSheetAxes,
+  expandPageText,
+  layoutPages,
+  type PageLayout,
+  type PageSpan,
+  type PrintPage,
+  type PrintSettings,
+  type SheetAxes
+} from './pageLayout';
+import { createPdf, textWidth, type PathCommand, type PdfFont, type PdfImage, type PdfPage } from './pdf';
+import { usedArea, type FileCellFormat, type SheetFile } from './workbookFile';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+/** Objects drawn over the cells, placed in sheet pixels from the top-left corner of A1 */
+export type PrintDrawing =
+  | {
+      kind: 'chart';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      chartType: 'column' | 'line' | 'pie';
+      title?: string;
+      data: ProcessedChartData;
+      colors?: string[];
+      showLegend?: boolean;
+    }
+  | { kind: 'shape'; shape: Shape }
+  | {
+      kind: 'textBox';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      text: string;
+      fontSize: number;
+      fontFamily: string;
+      color: string;
+      backgroundColor: string;
+      borderColor: string;
+      borderWidth: number;
+      textAlign: 'left' | 'center' | 'right';
+      padding: number;
+      drawPath?: { x: number; y: number }[];
+    }
+  | { kind: 'image'; x: number; y: number; width: number; height: number; rotation: number; opacity: number; src: string };
+
+export interface PdfExportOptions {
+  drawings?: PrintDrawing[];
+  /** Rows a filter hides, which take no space on the page */
+  hiddenRows?: Set<number>;
+  /** A picture's source as a JPEG file, or null to leave the picture out */
+  loadImage?: (src: string) => Promise<Uint8Array | null>;
+  /** Date for {date} in headers and footers */
+  date?: Date;
+}
+
+// As the grid shows cells: 11px Calibri, 4px either side of the text
+const DEFAULT_FONT_SIZE = 11;
+const CELL_PADDING = 4;
+const INDENT_WIDTH = 9;
+const LINE_HEIGHT = 1.2;
+const GRIDLINE_COLOR = '#D0D0D0';
+const HEADING_FILL = '#F2F2F2';
+const HEADING_TEXT = '#444444';
+// Header and footer text is printed at a fixed size in the margins, not scaled with the sheet
+const MARGIN_TEXT_SIZE = 9;
+
+// The gold series colors the charts are drawn with on screen
+const CHART_COLORS = ['#FFD700', '#DAA520', '#FFDF00', '#B8860B', '#EEB422'];
+
+const BORDER_WIDTHS: Record<CellBorder['style'], number> = { thin: 1, medium: 2, thick: 3, dashed: 1, dotted: 1, double: 1 };
+
+/** Part of the sheet printed at a place on the page: the cells, or title rows and columns */
+interface Block {
+  rows: PageSpan;
+  columns: PageSpan;
+  /** Top-left corner on the page, in points */
+  x: number;
+  y: number;
+}
+
+interface PrintContext {
+  page: PdfPage;
+  sheet: SheetFile;
+  settings: PrintSettings;
+  axes: SheetAxes;
+  scale: number;
+  merges: CellRange[];
+  images: Map<string, PdfImage | null>;
+  drawings: PrintDrawing[];
+}
+
+/** The pages a sheet prints on, which Page Break Preview outlines on the grid */
+export function sheetPageLayout(
+  sheet: Pick<SheetFile, 'cells' | 'formats' | 'columnWidths' | 'rowHeights'>,
+  settings: PrintSettings,
+  options: Pick<PdfExportOptions, 'drawings' | 'hiddenRows'> = {}
+): { axes: SheetAxes; layout: PageLayout } {
+  const axes = createSheetAxes(sheet.columnWidths, sheet.rowHeights, options.hiddenRows);
+  return { axes, layout: layoutPages(settings, axes, printedArea(sheet, options.drawings || [], axes)) };
+}
+
+export async function writePdf(sheet: SheetFile, settings: PrintSettings, options: PdfExportOptions = {}): Promise<Uint8Array> {
+  const drawings = options.drawings || [];
+  const { axes, layout } = sheetPageLayout(sheet, settings, options);
+  if (!layout.pages.length) throw new Error('There is nothing to print on this sheet');
+
+  const pdf = createPdf({ title: sheet.name });
+  const images = new Map<string, PdfImage | null>();
+  for (const drawing of drawings) {
+    if (drawing.kind !== 'image' || images.has(drawing.src)) continue;
+    const jpeg = options.loadImage ? await options.loadImage(drawing.src) : null;
+    images.set(drawing.src, jpeg ? pdf.addJpeg(jpeg) : null);
+  }
+
+  const date = options.date || new Date();
+  layout.pages.forEach(printPage => {
+    const page = pdf.addPage(layout.paper.width, layout.paper.height);
+    const context: PrintContext = { page, sheet, settings, axes, scale: layout.scale, merges: sheet.merges, images, drawings };
+    drawPage(context, printPage, layout.content);
+
+    const fields = { page: printPage.number, pages: layout.pages.length, sheet: sheet.name, date };
+    const header = settings.headerText ? expandPageText(settings.headerText, fields) : '';
+    let footer = settings.footerText ? expandPageText(settings.footerText, fields) : '';
+    const numbered = /\{pages?\}/i.test(`${settings.headerText || ''}${settings.footerText || ''}`);
+    if (settings.pageNumbers && !numbered) footer = [footer, `Page ${printPage.number} of ${layout.pages.length}`].filter(Boolean).join('   ');
+    const font: PdfFont = { family: 'Helvetica' };
+    const center = (text: string) => (layout.paper.width - textWidth(text, font, MARGIN_TEXT_SIZE)) / 2;
+    page.setFillColor('#000000');
+    if (header) page.text(header, center(header), layout.content.y / 2 + MARGIN_TEXT_SIZE / 3, font, MARGIN_TEXT_SIZE);
+    if (footer) {
+      const bottom = layout.paper.height - layout.content.y - layout.content.height;
+      page.text(footer, center(footer), layout.paper.height - bottom / 2 + MARGIN_TEXT_SIZE / 3, font, MARGIN_TEXT_SIZE);
+    }
+  });
+
+  return pdf.save();
+}
+
+/** Last row and column with a cell, a format or a drawing over it */
+function printedArea(sheet: Pick<SheetFile, 'cells' | 'formats'>, drawings: PrintDrawing[], axes: SheetAxes): { row: number; col: number } {
+  const used = usedArea(sheet);
+  drawings.forEach(drawing => {
+    const box = drawingBox(drawing);
+    used.row = Math.max(used.row, axes.rows.indexAt(box.y + box.height - 1));
+    used.col = Math.max(used.col, axes.columns.indexAt(box.x + box.width - 1));
+  });
+  return used;
+}
+
+function drawingBox(drawing: PrintDrawing): { x: number; y: number; width: number; height: number } {
+  return drawing.kind === 'shape' ? drawing.shape : drawing;
+}
+
+function spanSize(axis: SheetAxes['rows'], span: PageSpan): number {
+  return axis.offsetOf(span.end + 1) - axis.offsetOf(span.start);
+}
+
+function drawPage(context: PrintContext, printPage: PrintPage, content: { x: number; y: number }) {
+  const { axes, scale, settings } = context;
+  const headingWidth = settings.showHeaders ? PRINT_HEADING_WIDTH * scale : 0;
+  const headingHeight = settings.showHeaders ? PRINT_HEADING_HEIGHT * scale : 0;
+  const titleWidth = printPage.titleColumns ? spanSize(axes.columns, printPage.titleColumns) * scale : 0;
+  const titleHeight = printPage.titleRows ? spanSize(axes.rows, printPage.titleRows) * scale : 0;
+  const left = content.x + headingWidth;
+  const top = content.y + headingHeight;
+
+  // Title rows and columns print where the rows and columns they repeat would be
+  const rowBlocks = [
+    ...(printPage.titleRows ? [{ span: printPage.titleRows, y: top }] : []),
+    { span: printPage.rows, y: top + titleHeight }
+  ];
+  const columnBlocks = [
+    ...(printPage.titleColumns ? [{ span: printPage.titleColumns, x: left }] : []),
+    { span: printPage.columns, x: left + titleWidth }
+  ];
+  rowBlocks.forEach(rows => columnBlocks.forEach(columns => {
+    drawBlock(context, { rows: rows.span, columns: columns.span, x: columns.x, y: rows.y });
+  }));
+
+  if (settings.showHeaders) {
+    const { page } = context;
+    const font: PdfFont = { family: 'Helvetica' };
+    const size = DEFAULT_FONT_SIZE * scale;
+    const heading = (text: string, x: number, y: number, width: number, height: number) => {
+      page.setFillColor(HEADING_FILL);
+      page.setStrokeColor(GRIDLINE_COLOR);
+      page.setLineWidth(0.5);
+      page.rect(x, y, width, height, 'fillStroke');
+      page.setFillColor(HEADING_TEXT);
+      page.text(text, x + (width - textWidth(text, font, size)) / 2, y + height / 2 + size * 0.35, font, size);
+    };
+    heading('', content.x, content.y, headingWidth, headingHeight);
+    columnBlocks.forEach(({ span, x }) => {
+      for (let col = span.start; col <= span.end; col++) {
+        const width = axes.columns.sizeOf(col) * scale;
+        if (width > 0) heading(indexToColumn(col), x + (axes.columns.offsetOf(col) - axes.columns.offsetOf(span.start)) * scale, content.y, width, headingHeight);
+      }
+    });
+    rowBlocks.forEach(({ span, y }) => {
+      for (let row = span.start; row <= span.end; row++) {
+        const height = axes.rows.sizeOf(row) * scale;
+        if (height > 0) heading(String(row + 1), content.x, y + (axes.rows.offsetOf(row) - axes.rows.offsetOf(span.start)) * scale, headingWidth, height);
+      }
+    });
+  }
+}
+
+function drawBlock(context: PrintContext, block: Block) {
+  const { page, sheet, settings, axes, scale } = context;
+  const originX = axes.columns.offsetOf(block.columns.start);
+  const originY = axes.rows.offsetOf(block.rows.start);
+  // Sheet pixels to page points within the block
+  const pageX = (px: number) => block.x + (px - originX) * scale;
+  const pageY = (px: number) => block.y + (px - originY) * scale;
+  const cellBox = (range: CellRange) => ({
+    x: pageX(axes.columns.offsetOf(range.startCol)),
+    y: pageY(axes.rows.offsetOf(range.startRow)),
+    width: (axes.columns.offsetOf(range.endCol + 1) - axes.columns.offsetOf(range.startCol)) * scale,
+    height: (axes.rows.offsetOf(range.endRow + 1) - axes.rows.offsetOf(range.startRow)) * scale
+  });
+  const blockRange: CellRange = { startRow: block.rows.start, startCol: block.columns.start, endRow: block.rows.end, endCol: block.columns.end };
+  const bounds = cellBox(blockRange);
+
+  const merges = context.merges.filter(merge => intersects(merge, blockRange));
+  const mergeAt = (row: number, col: number) => merges.find(merge => row >= merge.startRow && row <= merge.endRow && col >= merge.startCol && col <= merge.endCol);
+  // Each cell is drawn once, a merged area from its top-left cell
+  const cells: { range: CellRange; key: string }[] = [];
+  merges.forEach(merge => cells.push({ range: merge, key: toCellRef(merge.startRow, merge.startCol) }));
+  for (let row = block.rows.start; row <= block.rows.end; row++) {
+    if (axes.rows.sizeOf(row) === 0) continue;
+    for (let col = block.columns.start; col <= block.columns.end; col++) {
+      if (!mergeAt(row, col)) cells.push({ range: { startRow: row, startCol: col, endRow: row, endCol: col }, key: toCellRef(row, col) });
+    }
+  }
+
+  page.save();
+  page.clip(bounds.x, bounds.y, bounds.width, bounds.height);
+
+  if (settings.showGridlines) {
+    page.setStrokeColor(GRIDLINE_COLOR);
+    page.setLineWidth(0.5);
+    for (let row = block.rows.start; row <= block.rows.end + 1; row++) {
+      const y = pageY(axes.rows.offsetOf(row));
+      page.line(bounds.x, y, bounds.x + bounds.width, y);
+    }
+    for (let col = block.columns.start; col <= block.columns.end + 1; col++) {
+      const x = pageX(axes.columns.offsetOf(col));
+      page.line(x, bounds.y, x, bounds.y + bounds.height);
+    }
+  }
+
+  // Fills cover gridlines, as on screen; merged areas show none inside them
+  cells.forEach(({ range, key }) => {
+    const fill = sheet.formats[key]?.backgroundColor;
+    const isMerge = range.startRow !== range.endRow || range.startCol !== range.endCol;
+    if (!fill && !isMerge) return;
+    const box = cellBox(range);
+    page.setFillColor(fill || '#FFFFFF');
+    page.rect(box.x, box.y, box.width, box.height, 'fill');
+    if (!fill && settings.showGridlines) {
+      page.setStrokeColor(GRIDLINE_COLOR);
+      page.setLineWidth(0.5);
+      page.rect(box.x, box.y, box.width, box.height, 'stroke');
+    }
+  });
+
+  cells.forEach(cell => drawCellText(context, cell, cellBox, blockRange, mergeAt));
+  cells.forEach(({ range, key }) => {
+    const borders = sheet.formats[key]?.borders;
+    if (borders) drawBorders(page, cellBox(range), borders, scale);
+  });
+
+  context.drawings.forEach(drawing => {
+    const box = drawingBox(drawing);
+    const right = originX + bounds.width / scale;
+    const bottom = originY + bounds.height / scale;
+    if (box.x >= right || box.y >= bottom || box.x + box.width <= originX || box.y + box.height <= originY) return;
+    drawDrawing(context, drawing, pageX, pageY);
+  });
+
+  page.restore();
+}
+
+function intersects(a: CellRange, b: CellRange): boolean {
+  return a.startRow <= b.endRow && a.endRow >= b.startRow && a.startCol <= b.endCol && a.endCol >= b.startCol;
+}
+
+/** The text a cell shows, and the color its number format picks */
+function cellDisplay(sheet: SheetFile, key: string, format: FileCellFormat | undefined): { text: string; color?: string } | null {
+  const input = sheet.cells[key];
+  if (input === undefined || input === '') return null;
+  const formula = isFormula(input);
+  const code = resolveFormatCode(format?.numberFormat);
+  if (code) {
+    const formatted = formatCellValue(formula ? sheet.values[key] ?? null : parseCellInput(input), code);
+    // [ColorN] palette entries are not shown, as in the grid
+    return { text: formatted.text, color: formatted.color && !formatted.color.startsWith('color') ? formatted.color : undefined };
+  }
+  return { text: formula ? formatValue(sheet.values[key] ?? null) : shownInput(input) };
+}
+
+/** The standard font closest to a CSS font family */
+function pdfFont(fontFamily: string | undefined, bold?: boolean, italic?: boolean): PdfFont {
+  const family = (fontFamily || '').toLowerCase();
+  if (/courier|mono|consolas/.test(family)) return { family: 'Courier', bold, italic };
+  if (/times|georgia|garamond|cambria|book|(^|[^-])serif/.test(family.replace('sans-serif', ''))) return { family: 'Times', bold, italic };
+  return { family: 'Helvetica', bold, italic };
+}
+
+/** Font size in pixels; the grid takes plain numbers as pixels */
+function fontPixels(fontSize: string | number | undefined): number {
+  if (typeof fontSize === 'number') return fontSize;
+  const size = parseFloat(fontSize || '');
+  if (!size) return DEFAULT_FONT_SIZE;
+  return /pt$/i.test(fontSize!.trim()) ? (size * 4) / 3 : size;
+}
+
+function wrapLines(text: string, font: PdfFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach(word => {
+      const candidate = line + word;
+      if (line && textWidth(candidate.trimEnd(), font, size) > width) {
+        lines.push(line.trimEnd());
+        line = word.trimStart();
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+}
+
+function drawCellText(
+  context: PrintContext,
+  { range, key }: { range: CellRange; key: string },
+  cellBox: (range: CellRange) => { x: number; y: number; width: number; height: number },
+  blockRange: CellRange,
+  mergeAt: (row: number, col: number) => CellRange | undefined
+) {
+  const { page, sheet, scale } = context;
+  const format = sheet.formats[key];
+  const display = cellDisplay(sheet, key, format);
+  if (!display || !display.text) return;
+
+  const font = pdfFont(format?.fontFamily, format?.bold, format?.italic);
+  let size = fontPixels(format?.fontSize) * scale;
+  const box = cellBox(range);
+  const padding = CELL_PADDING * scale;
+  const indent = (format?.indent || 0) * INDENT_WIDTH * scale;
+  const align = format?.textAlign || 'left';
+  const rotation = format?.textRotation && format.textRotation !== VERTICAL_TEXT_ROTATION ? format.textRotation : 0;
+  const space = box.width - 2 * padding - indent;
+
+  let lines = format?.wrapText ? wrapLines(display.text, font, size, space) : [display.text.replace(/\r?\n/g, ' ')];
+  if (format?.shrinkToFit && !format.wrapText) {
+    const width = textWidth(lines[0], font, size);
+    if (width > space && width > 0) size *= Math.max(0.1, space / width);
+  }
+  if (format?.wrapText) lines = wrapLines(display.text, font, size, space);
+
+  // Text that does not fit runs on over empty cells beside it, as in the grid
+  let clip = box;
+  const single = range.startRow === range.endRow && range.startCol === range.endCol;
+  if (!format?.wrapText && !rotation && single && textWidth(lines[0], font, size) > space && align !== 'center') {
+    const step = align === 'right' ? -1 : 1;
+    let col = range.startCol + step;
+    let extended = { ...range };
+    while (col >= blockRange.startCol && col <= blockRange.endCol && !sheet.cells[toCellRef(range.startRow, col)] && !mergeAt(range.startRow, col)) {
+      extended = step > 0 ? { ...extended, endCol: col } : { ...extended, startCol: col };
+      if (textWidth(lines[0], font, size) <= cellBox(extended).width - 2 * padding - indent) break;
+      col += step;
+    }
+    clip = cellBox(extended);
+  }
+
+  const lineHeight = size * LINE_HEIGHT;
+  const textHeight = lines.length * lineHeight;
+  const vertical = format?.verticalAlign || 'middle';
+  const firstTop = vertical === 'top' ? box.y + padding / 2
+    : vertical === 'bottom' ? box.y + box.height - padding / 2 - textHeight
+    : box.y + (box.height - textHeight) / 2;
+
+  page.save();
+  page.clip(clip.x, clip.y, clip.width, clip.height);
+  if (rotation) page.rotate(-rotation, box.x + box.width / 2, box.y + box.height / 2);
+  const color = display.color || format?.color || '#000000';
+  page.setFillColor(color);
+  lines.forEach((line, index) => {
+    const width = textWidth(line, font, size);
+    const x = rotation || align === 'center' ? box.x + (box.width - width) / 2
+      : align === 'right' ? clip.x + clip.width - padding - indent - width
+      : clip.x + padding + indent;
+    const baseline = firstTop + index * lineHeight + (lineHeight - size) / 2 + size * 0.8;
+    page.text(line, x, baseline, font, size);
+    if (format?.underline) {
+      page.setStrokeColor(color);
+      page.setLineWidth(Math.max(0.25, size * 0.06));
+      page.line(x, baseline + size * 0.12, x + width, baseline + size * 0.12);
+    }
+  });
+  page.restore();
+}
+
+function drawBorders(page: PdfPage, box: { x: number; y: number; width: number; height: number }, borders: NonNullable<FileCellFormat['borders']>, scale: number) {
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+  const edges: [CellBorder | undefined, number, number, number, number, number, number][] = [
+    // Each edge with the direction a double line's second stroke is offset in
+    [borders.top, box.x, box.y, right, box.y, 0, 1],
+    [borders.bottom, box.x, bottom, right, bottom, 0, -1],
+    [borders.left, box.x, box.y, box.x, bottom, 1, 0],
+    [borders.right, right, box.y, right, bottom, -1, 0]
+  ];
+  edges.forEach(([border, x1, y1, x2, y2, dx, dy]) => {
+    if (!border) return;
+    page.setStrokeColor(border.color || '#000000');
+    page.setLineWidth(BORDER_WIDTHS[border.style] * scale);
+    page.setDash(border.style === 'dashed' ? [3 * scale, 2 * scale] : border.style === 'dotted' ? [scale, scale] : []);
+    page.line(x1, y1, x2, y2);
+    if (border.style === 'double') {
+      const gap = 2 * scale;
+      page.line(x1 + dx * gap, y1 + dy * gap, x2 + dx * gap, y2 + dy * gap);
+    }
+  });
+  page.setDash([]);
+}
+
+function drawDrawing(context: PrintContext, drawing: PrintDrawing, pageX: (px: number) => number, pageY: (px: number) => number) {
+  const { page, scale } = context;
+  if (drawing.kind === 'shape') {
+    drawShape(page, drawing.shape, pageX(drawing.shape.x), pageY(drawing.shape.y), scale);
+  } else if (drawing.kind === 'chart') {
+    drawChart(page, drawing, pageX(drawing.x), pageY(drawing.y), scale);
+  } else if (drawing.kind === 'textBox') {
+    drawTextBox(page, drawing, pageX(drawing.x), pageY(drawing.y), scale);
+  } else {
+    const image = context.images.get(drawing.src);
+    if (!image) return;
+    const x = pageX(drawing.x);
+    const y = pageY(drawing.y);
+    const width = drawing.width * scale;
+    const height = drawing.height * scale;
+    page.save();
+    page.setOpacity(drawing.opacity ?? 1);
+    if (drawing.rotation) page.rotate(drawing.rotation, x + width / 2, y + height / 2);
+    // Covering the box and cropped to it, as the grid shows pictures
+    const cover = Math.max(width / image.width, height / image.height);
+    page.clip(x, y, width, height);
+    page.image(image, x + (width - image.width * cover) / 2, y + (height - image.height * cover) / 2, image.width * cover, image.height * cover);
+    page.restore();
+  }
+}
+
+function isPainted(color: string | undefined): color is string {
+  return !!color && color !== 'none' && color !== 'transparent';
+}
+
+/** An arc from one angle to another (radians, clockwise from 3 o'clock) as Bézier curves */
+function arc(cx: number, cy: number, radius: number, from: number, to: number): PathCommand[] {
+  const commands: PathCommand[] = [];
+  const segments = Math.max(1, Math.ceil(Math.abs(to - from) / (Math.PI / 2)));
+  const step = (to - from) / segments;
+  const k = (4 / 3) * Math.tan(step / 4) * radius;
+  for (let i = 0; i < segments; i++) {
+    const a1 = from + i * step;
+    const a2 = a1 + step;
+    commands.push(['C',
+      cx + radius * Math.cos(a1) - k * Math.sin(a1), cy + radius * Math.sin(a1) + k * Math.cos(a1),
+      cx + radius * Math.cos(a2) + k * Math.sin(a2), cy + radius * Math.sin(a2) - k * Math.cos(a2),
+      cx + radius * Math.cos(a2), cy + radius * Math.sin(a2)]);
+  }
+  return commands;
+}
+
+function roundedRect(x: number, y: number, width: number, height: number, radius: number): PathCommand[] {
+  const r = Math.min(radius, width / 2, height / 2);
+  return [
+    ['M', x + r, y],
+    ['L', x + width - r, y],
+    ...arc(x + width - r, y + r, r, -Math.PI / 2, 0),
+    ['L', x + width, y + height - r],
+    ...arc(x + width - r, y + height - r, r, 0, Math.PI / 2),
+    ['L', x + r, y + height],
+    ...arc(x + r, y + height - r, r, Math.PI / 2, Math.PI),
+    ['L', x, y + r],
+    ...arc(x + r, y + r, r, Math.PI, Math.PI * 1.5),
+    ['Z']
+  ];
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+  // A circle's arc, stretched
+  return [['M', cx + rx, cy], ...arc(0, 0, 1, 0, Math.PI * 2).map(([operator, ...points]) =>
+    [operator, ...(points as number[]).map((value, index) => (index % 2 ? cy + value * ry : cx + value * rx))] as PathCommand
+  ), ['Z']];
+}
+
+function polygonPath(points: [number, number][]): PathCommand[] {
+  return [['M', ...points[0]], ...points.slice(1).map((point): PathCommand => ['L', ...point]), ['Z']];
+}
+
+/** Outlines of a shape in its own box, from 0,0 to width,height, as ShapeRenderer draws them */
+function shapeOutlines(shape: Shape, w: number, h: number, scale: number): { path: PathCommand[]; fill: boolean }[] {
+  const closed = (path: PathCommand[]) => ({ path, fill: true });
+  const open = (path: PathCommand[]) => ({ path, fill: false });
+  const points = (...list: number[]) => Array.from({ length: list.length / 2 }, (_, i): [number, number] => [list[2 * i], list[2 * i + 1]]);
+  const head = 15 * scale;
+  switch (shape.type) {
+    case 'rounded-rectangle':
+      return [closed(roundedRect(0, 0, w, h, (shape.style.cornerRadius || 8) * scale))];
+    case 'oval':
+      return [closed(ellipsePath(w / 2, h / 2, w / 2, h / 2))];
+    case 'line':
+      return [open([['M', 0, h / 2], ['L', w, h / 2]])];
+    case 'arrow':
+      return [open([['M', 0, h / 2], ['L', w - 10 * scale, h / 2]]), closed(polygonPath(points(w, h / 2, w - head, h / 2 - 8 * scale, w - head, h / 2 + 8 * scale)))];
+    case 'double-arrow':
+      return [
+        open([['M', head, h / 2], ['L', w - head, h / 2]]),
+        closed(polygonPath(points(0, h / 2, head, h / 2 - 8 * scale, head, h / 2 + 8 * scale))),
+        closed(polygonPath(points(w, h / 2, w - head, h / 2 - 8 * scale, w - head, h / 2 + 8 * scale)))
+      ];
+    case 'right-arrow':
+      return [closed(polygonPath(points(0, h * 0.3, w * 0.7, h * 0.3, w * 0.7, 0, w, h / 2, w * 0.7, h, w * 0.7, h * 0.7, 0, h * 0.7)))];
+    case 'left-arrow':
+      return [closed(polygonPath(points(w, h * 0.3, w * 0.3, h * 0.3, w * 0.3, 0, 0, h / 2, w * 0.3, h, w * 0.3, h * 0.7, w, h * 0.7)))];
+    case 'up-arrow':
+      return [closed(polygonPath(points(w * 0.3, h, w * 0.3, h * 0.3, 0, h * 0.3, w / 2, 0, w, h * 0.3, w * 0.7, h * 0.3, w * 0.7, h)))];
+    case 'down-arrow':
+      return [closed(polygonPath(points(w * 0.3, 0, w * 0.3, h * 0.7, 0, h * 0.7, w / 2, h, w, h * 0.7, w * 0.7, h * 0.7, w * 0.7, 0)))];
+    case 'triangle':
+      return [closed(polygonPath(points(0, h, w, h, w, 0)))];
+    case 'isosceles-triangle':
+      return [closed(polygonPath(points(w / 2, 0, w, h, 0, h)))];
+    case 'diamond':
+    case 'flowchart-decision':
+      return [closed(polygonPath(points(w / 2, 0, w, h / 2, w / 2, h, 0, h / 2)))];
+    case 'parallelogram':
+      return [closed(polygonPath(points(w * 0.2, 0, w, 0, w * 0.8, h, 0, h)))];
+    case 'trapezoid':
+      return [closed(polygonPath(points(w * 0.2, 0, w * 0.8, 0, w, h, 0, h)))];
+    case 'rounded-callout':
+      return [closed(roundedRect(0, 0, w * 0.85, h * 0.8, 10 * scale)), closed(polygonPath(points(w * 0.15, h * 0.8, w * 0.25, h * 0.8, w * 0.1, h)))];
+    case 'cloud-callout':
+      return [
+        ...[[0.25, 0.3, 0.2, 0.25], [0.5, 0.25, 0.25, 0.3], [0.75, 0.3, 0.2, 0.25], [0.2, 0.6, 0.18, 0.25], [0.5, 0.7, 0.3, 0.35], [0.8, 0.6, 0.18, 0.25]]
+          .map(([cx, cy, rx, ry]) => closed(ellipsePath(w * cx, h * cy, w * rx, h * ry))),
+        closed(polygonPath(points(w * 0.3, h * 0.85, w * 0.4, h * 0.85, w * 0.2, h)))
+      ];
+    case 'oval-callout':
+      return [closed(ellipsePath(w / 2, h * 0.4, w * 0.45, h * 0.35)), closed(polygonPath(points(w * 0.3, h * 0.7, w * 0.4, h * 0.7, w * 0.25, h)))];
+    case 'flowchart-terminator':
+      return [closed(roundedRect(0, 0, w, h, h / 2))];
+    case 'flowchart-data':
+      return [closed(polygonPath(points(w * 0.15, 0, w, 0, w * 0.85, h, 0, h)))];
+    case 'flowchart-predefined':
+      return [
+        closed(polygonPath(points(0, 0, w, 0, w, h, 0, h))),
+        open([['M', w * 0.15, 0], ['L', w * 0.15, h]]),
+        open([['M', w * 0.85, 0], ['L', w * 0.85, h]])
+      ];
+    case 'star-5': {
+      const radius = Math.min(w, h) / 2;
+      return [closed(polygonPath(Array.from({ length: 10 }, (_, i): [number, number] => {
+        const angle = (i * Math.PI) / 5 - Math.PI / 2;
+        const r = i % 2 === 0 ? radius : radius / 2;
+        return [w / 2 + r * Math.cos(angle), h / 2 + r * Math.sin(angle)];
+      })))];
+    }
+    case 'ribbon-banner': {
+      // Quadratic curves as cubic ones: control points two thirds of the way to the quadratic's
+      const quadratic = (x0: number, y0: number, qx: number, qy: number, x: number, y: number): PathCommand =>
+        ['C', x0 + (2 / 3) * (qx - x0), y0 + (2 / 3) * (qy - y0), x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), x, y];
+      return [
+        closed([
+          ['M', w * 0.1, h * 0.3],
+          quadratic(w * 0.1, h * 0.3, w * 0.5, h * 0.15, w * 0.9, h * 0.3),
+          ['L', w * 0.9, h * 0.7],
+          quadratic(w * 0.9, h * 0.7, w * 0.5, h * 0.85, w * 0.1, h * 0.7),
+          ['Z']
+        ]),
+        closed(polygonPath(points(w * 0.15, h * 0.7, w * 0.15, h, w * 0.25, h * 0.85))),
+        closed(polygonPath(points(w * 0.85, h * 0.7, w * 0.85, h, w * 0.75, h * 0.85)))
+      ];
+    }
+    default:
+      return [closed(polygonPath(points(0, 0, w, 0, w, h, 0, h)))];
+  }
+}
+
+function drawShape(page: PdfPage, shape: Shape, x: number, y: number, scale: number) {
+  const { style } = shape;
+  const width = shape.width * scale;
+  const height = shape.height * scale;
+  page.save();
+  // Shapes turn about their top-left corner, as ShapeRenderer rotates them
+  if (shape.rotation) page.rotate(shape.rotation, x, y);
+  page.setOpacity(style.opacity ?? 1);
+  page.setLineWidth(style.strokeWidth * scale);
+  page.setDash(style.strokeStyle === 'dashed' ? [5 * scale, 5 * scale] : style.strokeStyle === 'dotted' ? [2 * scale, 2 * scale] : []);
+  const fill = isPainted(style.fill);
+  const stroke = isPainted(style.stroke) && style.strokeWidth > 0;
+  if (fill) page.setFillColor(style.fill);
+  if (stroke) page.setStrokeColor(style.stroke);
+  shapeOutlines(shape, width, height, scale).forEach(outline => {
+    const path = outline.path.map(([operator, ...values]) =>
+      [operator, ...(values as number[]).map((value, index) => value + (index % 2 ? y : x))] as PathCommand
+    );
+    if (!outline.fill) {
+      if (stroke) page.path(path, 'stroke');
+    } else if (fill || stroke) {
+      page.path(path, fill && stroke ? 'fillStroke' : fill ? 'fill' : 'stroke');
+    }
+  });
+  if (shape.text) {
+    const font: PdfFont = { family: 'Helvetica' };
+    const size = 14 * scale;
+    page.setFillColor('#000000');
+    page.text(shape.text, x + (width - textWidth(shape.text, font, size)) / 2, y + height / 2 + size * 0.35, font, size);
+  }
+  page.restore();
+}
+
+function drawTextBox(page: PdfPage, box: Extract<PrintDrawing, { kind: 'textBox' }>, x: number, y: number, scale: number) {
+  const width = box.width * scale;
+  const height = box.height * scale;
+  page.save();
+  page.setLineWidth(box.borderWidth * scale);
+  const fill = isPainted(box.backgroundColor);
+  const stroke = isPainted(box.borderColor) && box.borderWidth > 0;
+  if (fill) page.setFillColor(box.backgroundColor);
+  if (stroke) page.setStrokeColor(box.borderColor);
+  if (fill || stroke) {
+    const mode = fill && stroke ? 'fillStroke' : fill ? 'fill' : 'stroke';
+    if (box.drawPath && box.drawPath.length > 2) page.polygon(box.drawPath.map(point => [x + point.x * scale, y + point.y * scale]), mode);
+    else page.rect(x, y, width, height, mode);
+  }
+
+  const padding = box.padding * scale;
+  const font = pdfFont(box.fontFamily);
+  const size = box.fontSize * scale;
+  page.clip(x, y, width, height);
+  page.setFillColor(box.color || '#000000');
+  wrapLines(box.text, font, size, width - 2 * padding).forEach((line, index) => {
+    const lineWidth = textWidth(line, font, size);
+    const left = box.textAlign === 'center' ? x + (width - lineWidth) / 2 : box.textAlign === 'right' ? x + width - padding - lineWidth : x + padding;
+    page.text(line, left, y + padding + index * size * LINE_HEIGHT + size * 0.9, font, size);
+  });
+  page.restore();
+}
+
+/** Round a step between axis ticks up to 1, 2 or 5 times a power of ten */
+function niceStep(range: number, ticks: number): number {
+  const rough = range / ticks || 1;
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  return [1, 2, 5, 10].map(factor => factor * power).find(step => step >= rough) || rough;
+}
+
+function drawChart(page: PdfPage, chart: Extract<PrintDrawing, { kind: 'chart' }>, x: number, y: number, scale: number) {
+  const width = chart.width * scale;
+  const height = chart.height * scale;
+  const font: PdfFont = { family: 'Helvetica' };
+  const small = 10 * scale;
+  const datasets = chart.data.datasets || [];
+  const labels = chart.data.labels || [];
+  const color = (index: number) => chart.colors?.[index] || CHART_COLORS[index % CHART_COLORS.length];
+  const fitText = (text: string, space: number) => {
+    let fitted = text;
+    while (fitted.length > 1 && textWidth(fitted, font, small) > space) fitted = fitted.slice(0, -1);
+    return fitted === text ? text : `${fitted.slice(0, -1)}…`;
+  };
+
+  page.save();
+  page.setFillColor('#FFFFFF');
+  page.setStrokeColor('#FFD700');
+  page.setLineWidth(3 * scale);
+  page.rect(x, y, width, height, 'fillStroke');
+  page.clip(x, y, width, height);
+
+  const padding = 10 * scale;
+  let top = y + padding;
+  if (chart.title) {
+    const titleFont: PdfFont = { family: 'Helvetica', bold: true };
+    const size = 14 * scale;
+    page.setFillColor('#000000');
+    page.text(chart.title, x + (width - textWidth(chart.title, titleFont, size)) / 2, top + size * 0.8, titleFont, size);
+    top += size * 1.5;
+  }
+
+  // Legend entries: the slices of a pie, or each series
+  const legend = chart.chartType === 'pie' ? labels : datasets.map(dataset => dataset.label);
+  let bottom = y + height - padding;
+  if (chart.showLegend !== false && legend.length && (chart.chartType === 'pie' || datasets.length > 1)) {
+    const swatch = 8 * scale;
+    let lineX = x + padding;
+    bottom -= small * 1.4;
+    legend.forEach((label, index) => {
+      const entryWidth = swatch + 4 * scale + textWidth(label, font, small) + 10 * scale;
+      if (lineX + entryWidth > x + width - padding && lineX > x + padding) return;
+      page.setFillColor(color(index));
+      page.rect(lineX, bottom + (small * 1.4 - swatch) / 2, swatch, swatch, 'fill');
+      page.setFillColor('#333333');
+      page.text(label, lineX + swatch + 4 * scale, bottom + small, font, small);
+      lineX += entryWidth;
+    });
+    bottom -= 4 * scale;
+  }
+
+  if (chart.chartType === 'pie') {
+    const values = (datasets[0]?.data || []).map(value => Math.max(0, Number(value) || 0));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const radius = Math.max(0, Math.min(width - 2 * padding, bottom - top) / 2);
+    const cx = x + width / 2;
+    const cy = top + (bottom - top) / 2;
+    let angle = -Math.PI / 2;
+    page.setStrokeColor('#FFFFFF');
+    page.setLineWidth(scale);
+    values.forEach((value, index) => {
+      if (!total || !value) return;
+      const sweep = (value / total) * Math.PI * 2;
+      page.setFillColor(color(index));
+      page.path(sweep >= Math.PI * 2 - 1e-9
+        ? ellipsePath(cx, cy, radius, radius)
+        : [['M', cx, cy], ['L', cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)], ...arc(cx, cy, radius, angle, angle + sweep), ['Z']], 'fillStroke');
+      angle += sweep;
+    });
+    page.restore();
+    return;
+  }
+
+  const values = datasets.flatMap(dataset => dataset.data.map(value => Number(value) || 0));
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const step = niceStep(max - min, 5);
+  const low = Math.floor(min / step) * step;
+  const high = Math.max(low + step, Math.ceil(max / step) * step);
+  const ticks: number[] = [];
+  for (let tick = low; tick <= high + step / 2; tick += step) ticks.push(Math.round(tick / step) * step);
+  const tickText = (tick: number) => String(Math.round(tick * 1e6) / 1e6);
+
+  const plotLeft = x + padding + Math.max(...ticks.map(tick => textWidth(tickText(tick), font, small))) + 4 * scale;
+  const plotRight = x + width - padding;
+  const plotTop = top;
+  const plotBottom = bottom - small * 1.6;
+  const valueY = (value: number) => plotBottom - ((value - low) / (high - low)) * (plotBottom - plotTop);
+
+  page.setLineWidth(0.5 * scale);
+  ticks.forEach(tick => {
+    const tickY = valueY(tick);
+    page.setStrokeColor('#E5E5E5');
+    page.line(plotLeft, tickY, plotRight, tickY);
+    const text = tickText(tick);
+    page.setFillColor('#666666');
+    page.text(text, plotLeft - 4 * scale - textWidth(text, font, small), tickY + small * 0.35, font, small);
+  });
+
+  const slot = labels.length ? (plotRight - plotLeft) / labels.length : 0;
+  // Labels that would overlap are thinned out to every n-th
+  const every = Math.max(1, Math.ceil(Math.max(0, ...labels.map(label => textWidth(label, font, small))) / Math.max(1, slot)));
+  labels.forEach((label, index) => {
+    if (index % every) return;
+    const text = fitText(label, slot * every);
+    page.setFillColor('#666666');
+    page.text(text, plotLeft + slot * (index + 0.5) - textWidth(text, font, small) / 2, plotBottom + small * 1.2, font, small);
+  });
+
+  if (chart.chartType === 'column') {
+    const groupWidth = slot * 0.8;
+    const barWidth = datasets.length ? groupWidth / datasets.length : 0;
+    datasets.forEach((dataset, series) => {
+      page.setFillColor(color(series));
+      dataset.data.forEach((value, index) => {
+        const barTop = valueY(Math.max(0, Number(value) || 0));
+        const barBottom = valueY(Math.min(0, Number(value) || 0));
+        page.rect(plotLeft + slot * index + slot * 0.1 + barWidth * series, barTop, barWidth, barBottom - barTop, 'fill');
+      });
+    });
+  } else {
+    datasets.forEach((dataset, series) => {
+      const points = dataset.data.map((value, index): [number, number] => [plotLeft + slot * (index + 0.5), valueY(Number(value) || 0)]);
+      if (!points.length) return;
+      page.setStrokeColor(color(series));
+      page.setLineWidth(2 * scale);
+      page.path([['M', ...points[0]], ...points.slice(1).map((point): PathCommand => ['L', ...point])], 'stroke');
+      page.setFillColor(color(series));
+      points.forEach(([pointX, pointY]) => page.ellipse(pointX, pointY, 2.5 * scale, 2.5 * scale, 'fill'));
+    });
+  }
+
+  page.setStrokeColor('#999999');
+  page.setLineWidth(0.75 * scale);
+  page.line(plotLeft, valueY(0), plotRight, valueY(0));
+  page.restore();
+}
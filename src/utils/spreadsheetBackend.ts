@@ -8,6 +8,9 @@ export interface SpreadsheetState {
   floatingShapes: any[];
   floatingCharts: any[];
   floatingTextBoxes: any[];
+  // Styles the workbook added or modified, and the name of its theme
+  cellStyles?: any[];
+  workbookTheme?: string;
   metadata: {
     name: string;
     owner: string;
@@ -31,6 +34,8 @@ export const saveSpreadsheetState = async (
     floatingShapes: state.floatingShapes || [],
     floatingCharts: state.floatingCharts || [],
     floatingTextBoxes: state.floatingTextBoxes || [],
+    cellStyles: state.cellStyles || [],
+    workbookTheme: state.workbookTheme,
     metadata: {
       name: spreadsheetName,
       owner: userEmail,
@@ -0,0 +1,257 @@
+/**
+ * Undo History - Commands recorded as the changes they made, entry by entry, so undo
+ * applies the values from before and redo the values from after. Each sheet keeps its own
+ * history, saved per spreadsheet so it survives a reload.
+ */
+
+import type { CellFormat, CellValidation } from '../types/spreadsheet';
+
+/** An entry's value before and after a command; undefined where the entry was absent */
+export type EntryChange<T = unknown> = [T | undefined, T | undefined];
+
+export interface EntryChanges<T = unknown> {
+  [key: string]: EntryChange<T>;
+}
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  /** When the command was recorded, or last extended by coalescing */
+  time: number;
+  /** Typing: a later edit of the same cell within the coalescing window extends this step */
+  coalesce?: boolean;
+  data: EntryChanges<string>;
+  formats: EntryChanges<CellFormat>;
+  validations: EntryChanges<CellValidation>;
+  /**
+   * Workbook parts a structural edit rewrote: whole values for names, rules, charts and
+   * sizes, and per-cell changes for the other sheets' cells
+   */
+  workbook?: {
+    before: { [part: string]: unknown };
+    after: { [part: string]: unknown };
+    sheets: { [sheetId: string]: EntryChanges<string> };
+  };
+}
+
+export interface SheetHistory {
+  /** Oldest first; the last command is the next one undone */
+  undo: HistoryCommand[];
+  redo: HistoryCommand[];
+}
+
+export interface WorkbookHistory {
+  [sheetId: string]: SheetHistory;
+}
+
+export const MAX_HISTORY = 100;
+export const COALESCE_WINDOW_MS = 1500;
+
+const STORAGE_PREFIX = 'history:';
+
+/**
+ * Entries that differ between two versions of a keyed collection. Unchanged collections
+ * are skipped without looking at their entries.
+ */
+export function diffEntries<T>(before: { [key: string]: T }, after: { [key: string]: T }): EntryChanges<T> {
+  const changes: EntryChanges<T> = {};
+  if (before === after) return changes;
+  Object.keys(after).forEach(key => {
+    if (!sameValue(before[key], after[key])) changes[key] = [before[key], after[key]];
+  });
+  Object.keys(before).forEach(key => {
+    if (!(key in after)) changes[key] = [before[key], undefined];
+  });
+  return changes;
+}
+
+/**
+ * A collection with one side of the changes applied (0 for before, 1 for after); the same
+ * object when there is nothing to apply
+ */
+export function applyEntries<T>(cells: { [key: string]: T }, changes: EntryChanges<T>, side: 0 | 1): { [key: string]: T } {
+  const keys = Object.keys(changes);
+  if (keys.length === 0) return cells;
+  const next = { ...cells };
+  keys.forEach(key => {
+    const value = changes[key][side];
+    // Absent entries come back from storage as null
+    if (value === undefined || value === null) delete next[key];
+    else next[key] = value;
+  });
+  return next;
+}
+
+export function isEmptyCommand(command: HistoryCommand): boolean {
+  const { workbook } = command;
+  return Object.keys(command.data).length === 0
+    && Object.keys(command.formats).length === 0
+    && Object.keys(command.validations).length === 0
+    && (!workbook || (Object.keys(workbook.before).length === 0
+      && Object.values(workbook.sheets).every(changes => Object.keys(changes).length === 0)));
+}
+
+/**
+ * One command doing what `earlier` and then `later` did. Entries the second put back the
+ * way the first found them drop out.
+ */
+export function mergeCommands(earlier: HistoryCommand, later: HistoryCommand): HistoryCommand {
+  const merged: HistoryCommand = {
+    ...earlier,
+    time: later.time,
+    data: mergeEntries(earlier.data, later.data),
+    formats: mergeEntries(earlier.formats, later.formats),
+    validations: mergeEntries(earlier.validations, later.validations)
+  };
+  if (earlier.workbook || later.workbook) {
+    const first = earlier.workbook || { before: {}, after: {}, sheets: {} };
+    const second = later.workbook || { before: {}, after: {}, sheets: {} };
+    const sheets = { ...first.sheets };
+    Object.entries(second.sheets).forEach(([sheetId, changes]) => {
+      sheets[sheetId] = mergeEntries(sheets[sheetId] || {}, changes);
+    });
+    merged.workbook = {
+      before: { ...second.before, ...first.before },
+      after: { ...first.after, ...second.after },
+      sheets
+    };
+  }
+  return merged;
+}
+
+/**
+ * Whether a typing step extends the one before it: both edit the same single cell, and the
+ * second comes within the coalescing window
+ */
+export function canCoalesce(previous: HistoryCommand | undefined, next: HistoryCommand): boolean {
+  if (!previous?.coalesce || !next.coalesce || previous.workbook || next.workbook) return false;
+  if (next.time - previous.time > COALESCE_WINDOW_MS) return false;
+  const cells = Object.keys(previous.data);
+  const nextCells = Object.keys(next.data);
+  return cells.length === 1 && nextCells.length === 1 && cells[0] === nextCells[0]
+    && Object.keys(previous.formats).length === 0 && Object.keys(next.formats).length === 0;
+}
+
+/**
+ * Label of a typing step, as Excel shows it: Typing "42" in B3
+ */
+export function typingLabel(command: HistoryCommand, fallback: string): string {
+  const cells = Object.keys(command.data);
+  if (!command.coalesce || cells.length !== 1 || Object.keys(command.formats).length > 0) return fallback;
+  const text = command.data[cells[0]][1] || '';
+  return `Typing "${text.length > 20 ? `${text.slice(0, 20)}…` : text}" in ${cells[0]}`;
+}
+
+/**
+ * Add a command to a sheet's history, extending the last one instead when `coalesce` is set.
+ * New commands clear the redo list; the oldest commands fall off past MAX_HISTORY.
+ */
+export function pushCommand(history: SheetHistory, command: HistoryCommand, coalesce: boolean): SheetHistory {
+  const undo = history.undo.slice();
+  if (coalesce && undo.length > 0) {
+    const merged = mergeCommands(undo.pop()!, command);
+    if (!isEmptyCommand(merged)) undo.push({ ...merged, label: typingLabel(merged, merged.label) });
+  } else {
+    undo.push(command);
+  }
+  return { undo: undo.slice(-MAX_HISTORY), redo: [] };
+}
+
+export interface HistorySheet {
+  id: string;
+  name: string;
+}
+
+// Saved with the sheets in tab order, as sheets get new IDs each time the workbook opens
+interface SavedHistory {
+  sheets: HistorySheet[];
+  history: WorkbookHistory;
+}
+
+/**
+ * A spreadsheet's saved history, moved onto the IDs its sheets have now. It is kept only
+ * while the workbook has the same sheets, by name and in the same order, as when it was
+ * saved; sheets added, deleted, renamed or moved in between drop it, as it could no longer
+ * be told which sheet it belongs to. IDs also appear inside commands (changes to other
+ * sheets, sheet-scoped names), so every key holding a saved ID is renamed.
+ */
+export function loadHistory(spreadsheetId: string, sheets: HistorySheet[]): WorkbookHistory {
+  try {
+    const saved = localStorage.getItem(`${STORAGE_PREFIX}${spreadsheetId}`);
+    if (!saved) return {};
+    const savedSheets = (JSON.parse(saved) as Partial<SavedHistory>).sheets || [];
+    const sameSheets = savedSheets.length === sheets.length
+      && savedSheets.every((sheet, index) => sheet?.name === sheets[index].name);
+    if (!sameSheets) return {};
+
+    const sheetIds = sheets.map(sheet => sheet.id);
+    const renamed = new Map(savedSheets.map((sheet, index) => [sheet.id, sheetIds[index]]));
+    const rename = (key: string) => renamed.get(key) ?? key;
+    const { history } = JSON.parse(saved, (key, value) => {
+      const revived = reviveMaps(key, value);
+      if (revived instanceof Map) return new Map(Array.from(revived, ([entryKey, entry]) => [rename(entryKey), entry]));
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+      return Object.fromEntries(Object.entries(value).map(([entryKey, entry]) => [rename(entryKey), entry]));
+    }) as Partial<SavedHistory>;
+    // Histories of sheets the workbook no longer has
+    return Object.fromEntries(Object.entries(history || {}).filter(([sheetId]) => sheetIds.includes(sheetId)));
+  } catch (error) {
+    console.error(`Failed to load undo history for ${spreadsheetId}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Save a spreadsheet's history for the sheets it has, in tab order. When storage is full the
+ * older half of every sheet's history is dropped and the save retried once.
+ */
+export function saveHistory(spreadsheetId: string, history: WorkbookHistory, sheets: HistorySheet[]): void {
+  const key = `${STORAGE_PREFIX}${spreadsheetId}`;
+  const write = (histories: WorkbookHistory) => {
+    const saved: SavedHistory = { sheets: sheets.map(({ id, name }) => ({ id, name })), history: histories };
+    localStorage.setItem(key, JSON.stringify(saved, replaceMaps));
+  };
+  const kept: WorkbookHistory = {};
+  sheets.forEach(({ id }) => {
+    if (history[id]) kept[id] = history[id];
+  });
+  try {
+    write(kept);
+  } catch {
+    const trimmed: WorkbookHistory = {};
+    Object.entries(kept).forEach(([sheetId, sheet]) => {
+      trimmed[sheetId] = { undo: sheet.undo.slice(Math.ceil(sheet.undo.length / 2)), redo: [] };
+    });
+    try {
+      write(trimmed);
+    } catch (error) {
+      console.error(`Failed to save undo history for ${spreadsheetId}:`, error);
+      localStorage.removeItem(key);
+    }
+  }
+}
+
+function mergeEntries<T>(earlier: EntryChanges<T>, later: EntryChanges<T>): EntryChanges<T> {
+  const merged = { ...earlier };
+  Object.entries(later).forEach(([key, [before, after]]) => {
+    const first = key in earlier ? earlier[key][0] : before;
+    if (sameValue(first, after)) delete merged[key];
+    else merged[key] = [first, after];
+  });
+  return merged;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a, replaceMaps) === JSON.stringify(b, replaceMaps);
+}
+
+// Workbook parts hold Maps (names, sizes), which JSON does not keep on its own
+function replaceMaps(_key: string, value: unknown): unknown {
+  return value instanceof Map ? { $map: Array.from(value.entries()) } : value;
+}
+
+function reviveMaps(_key: string, value: any): unknown {
+  return value && typeof value === 'object' && Array.isArray(value.$map) ? new Map(value.$map) : value;
+}
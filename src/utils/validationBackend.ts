@@ -1,4 +1,6 @@
 import { CellValidation } from '../types/spreadsheet';
+import { FormulaContext, FormulaError, parseFormula, evaluateFormula } from './formulaEngine';
+import { toBoolean } from './formula/values';
 
 export interface ValidationResult {
   valid: boolean;
@@ -8,7 +10,8 @@ export interface ValidationResult {
 }
 
 // Core validation function
-export function validateCellValue(value: string, validation: CellValidation): ValidationResult {
+// Custom formulas read other cells through `context`; without one they can only use $VALUE
+export function validateCellValue(value: string, validation: CellValidation, context?: FormulaContext): ValidationResult {
   // Allow blank if specified
   if (validation.allowBlank && (!value || value.trim() === '')) {
     return { valid: true };
@@ -44,7 +47,7 @@ export function validateCellValue(value: string, validation: CellValidation): Va
       return validateTextLength(value, validation);
     
     case 'custom':
-      return validateCustomFormula(value, validation);
+      return validateCustomFormula(value, validation, context);
     
     default:
       return { valid: true };
@@ -247,20 +250,32 @@ function validateTextLength(value: string, validation: CellValidation): Validati
   return { valid: true };
 }
 
-function validateCustomFormula(value: string, validation: CellValidation): ValidationResult {
+/**
+ * Turn the entered value into a formula literal so it can replace $VALUE
+ */
+function toFormulaLiteral(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed !== '' && !isNaN(Number(trimmed))) {
+    return trimmed;
+  }
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+const EMPTY_CONTEXT: FormulaContext = {
+  getCellValue: () => null
+};
+
+function validateCustomFormula(value: string, validation: CellValidation, context: FormulaContext = EMPTY_CONTEXT): ValidationResult {
   if (!validation.formula) {
     return { valid: true };
   }
 
   try {
-    // Replace cell reference with actual value
-    const formula = validation.formula.replace(/\$VALUE/g, `"${value}"`);
-    
-    // Basic formula evaluation (simplified)
-    // In production, use a proper formula parser
-    const result = eval(formula);
-    
-    if (result === true) {
+    // $VALUE stands for the value being entered, e.g. =AND($VALUE > 0, $VALUE < 100)
+    const formula = validation.formula.replace(/\$VALUE/gi, toFormulaLiteral(value));
+    const result = toBoolean(evaluateFormula(parseFormula(formula), context));
+
+    if (result) {
       return { valid: true };
     } else {
       return {
@@ -271,6 +286,15 @@ function validateCustomFormula(value: string, validation: CellValidation): Valid
       };
     }
   } catch (error) {
+    // Formula errors such as #VALUE! reject the entry; syntax errors mean the rule itself is broken
+    if (error instanceof FormulaError) {
+      return {
+        valid: false,
+        errorMessage: validation.errorMessage || 'Value does not meet the custom validation criteria',
+        errorTitle: validation.errorTitle || 'Validation Failed',
+        errorStyle: validation.errorStyle || 'stop'
+      };
+    }
     return {
       valid: false,
       errorMessage: validation.errorMessage || 'Invalid formula or value',
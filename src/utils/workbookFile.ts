@@ -0,0 +1,182 @@
+/**
+ * Workbook File - The workbook as spreadsheet file formats read and write it, independent
+ * of any one format
+ *
+ * Cells hold what the user would type (formulas with their "="); formats hold resolved
+ * formatting, with theme colors already looked up. Layout and validation belong to their
+ * sheet in a file, although the grid keeps one set for the sheet being shown.
+ */
+
+import type { CellValidation } from '../types/spreadsheet';
+import type { StyleFormat } from './cellStyles';
+import type { CellRange } from './cellStore';
+import { isFormula, parseCellRef, toCellRef } from './formulaEngine';
+import type { ScalarValue } from './formulaEngine';
+import { dateToSerial, serialToDate } from './formula/dates';
+
+/** Codes typed dates and times are written with when the cell has no number format */
+export const DATE_TIME_CODES = { date: 'm/d/yyyy', time: 'h:mm AM/PM', datetime: 'm/d/yyyy h:mm' };
+
+export interface FileCellFormat extends StyleFormat {
+  shrinkToFit?: boolean;
+}
+
+export interface SheetFile {
+  name: string;
+  /** Cell input by A1 key: constants as typed, formulas starting with "=" */
+  cells: { [key: string]: string };
+  /**
+   * Last calculated results of formula cells and of the cells their arrays spill into,
+   * written so readers need not recalculate
+   */
+  values: { [key: string]: ScalarValue };
+  /** Areas dynamic array formulas spill over, by the formula's cell */
+  spills: { [key: string]: CellRange };
+  formats: { [key: string]: FileCellFormat };
+  validations: { [key: string]: CellValidation };
+  merges: CellRange[];
+  /** Widths and heights in pixels, by 0-based column and row */
+  columnWidths: Map<number, number>;
+  rowHeights: Map<number, number>;
+  /** Rows and columns frozen at the top and left */
+  freezePanes: { row: number; col: number } | null;
+  /** Names scoped to this sheet */
+  names: Map<string, string>;
+}
+
+export interface WorkbookFile {
+  sheets: SheetFile[];
+  /** Workbook-scoped names: name -> reference or formula, without "=" */
+  names: Map<string, string>;
+  /** Index of the sheet shown when the file opens */
+  activeSheet: number;
+}
+
+export function createSheetFile(name: string): SheetFile {
+  return {
+    name,
+    cells: {},
+    values: {},
+    spills: {},
+    formats: {},
+    validations: {},
+    merges: [],
+    columnWidths: new Map(),
+    rowHeights: new Map(),
+    freezePanes: null,
+    names: new Map()
+  };
+}
+
+/** Last row and column (0-based) holding a cell or format; -1 for an empty sheet */
+export function usedArea(sheet: Pick<SheetFile, 'cells' | 'formats'>): { row: number; col: number } {
+  let row = -1;
+  let col = -1;
+  [...Object.keys(sheet.cells), ...Object.keys(sheet.formats)].forEach(key => {
+    const position = parseCellRef(key);
+    if (!position) return;
+    row = Math.max(row, position.row);
+    col = Math.max(col, position.col);
+  });
+  return { row, col };
+}
+
+export function rangeRef(range: CellRange): string {
+  const start = toCellRef(range.startRow, range.startCol);
+  const end = toCellRef(range.endRow, range.endCol);
+  return start === end ? start : `${start}:${end}`;
+}
+
+/** "A1:B2" (or "$A$1") as a range with its corners in order */
+export function parseRange(ref: string): CellRange | null {
+  const [startRef, endRef = startRef] = ref.replace(/\$/g, '').toUpperCase().split(':');
+  const start = parseCellRef(startRef);
+  const end = parseCellRef(endRef);
+  if (!start || !end) return null;
+  return {
+    startRow: Math.min(start.row, end.row),
+    startCol: Math.min(start.col, end.col),
+    endRow: Math.max(start.row, end.row),
+    endCol: Math.max(start.col, end.col)
+  };
+}
+
+/** "#RRGGBB", "#RGB" and "rgb(r, g, b)" as "#RRGGBB" */
+export function hexColor(color: string | undefined): string | undefined {
+  if (!color) return undefined;
+  let hex = color.trim();
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(hex);
+  if (rgb) hex = `#${rgb.slice(1, 4).map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('')}`;
+  if (/^#[0-9a-f]{3}$/i.test(hex)) hex = `#${hex.slice(1).split('').map(digit => digit + digit).join('')}`;
+  return /^#[0-9a-f]{6}$/i.test(hex) ? hex.toUpperCase() : undefined;
+}
+
+// Validation bounds: files hold numbers where the grid keeps "2024-01-31" and "13:30"
+
+export function numberText(value: number | undefined): string | undefined {
+  return value === undefined || value === null || Number.isNaN(value) ? undefined : String(value);
+}
+
+export function isoToSerial(iso: string | undefined): string | undefined {
+  const match = iso && /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(iso);
+  return match ? String(dateToSerial(Number(match[1]), Number(match[2]), Number(match[3]))) : undefined;
+}
+
+export function timeToFraction(time: string | undefined): string | undefined {
+  const match = time && /^(\d{1,2}):(\d{2})/.exec(time);
+  return match ? String((Number(match[1]) * 60 + Number(match[2])) / 1440) : undefined;
+}
+
+export function serialToIso(serial: number | undefined): string | undefined {
+  if (serial === undefined) return undefined;
+  const { year, month, day } = serialToDate(serial);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function fractionToTime(fraction: number | undefined): string | undefined {
+  if (fraction === undefined) return undefined;
+  const minutes = Math.round((fraction % 1) * 1440);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Replace the range (or name) a list validation reads its choices from with the choices,
+ * since list validation here holds its options. Readers leave the source in `formula`
+ * until every sheet's cells are read.
+ */
+export function resolveListSources(workbook: WorkbookFile) {
+  workbook.sheets.forEach(sheet => {
+    const resolved = new Map<CellValidation, CellValidation>();
+    Object.entries(sheet.validations).forEach(([key, validation]) => {
+      if (validation.type !== 'list' || validation.formula === undefined) return;
+      if (!resolved.has(validation)) {
+        const { formula, ...rest } = validation;
+        resolved.set(validation, { ...rest, options: listOptions(formula, sheet, workbook) });
+      }
+      sheet.validations[key] = resolved.get(validation)!;
+    });
+  });
+}
+
+function listOptions(formula: string, sheet: SheetFile, workbook: WorkbookFile, depth = 0): string[] {
+  const text = formula.replace(/^=/, '').trim();
+  const name = sheet.names.get(text) ?? workbook.names.get(text);
+  if (name !== undefined) return depth < 8 ? listOptions(name, sheet, workbook, depth + 1) : [];
+
+  const bang = text.lastIndexOf('!');
+  const sheetName = bang === -1 ? null : text.substring(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+  const source = sheetName === null ? sheet : workbook.sheets.find(candidate => candidate.name.toUpperCase() === sheetName.toUpperCase());
+  const range = source && parseRange(text.substring(bang + 1));
+  if (!source || !range) return [];
+
+  const options: string[] = [];
+  for (let row = range.startRow; row <= Math.min(range.endRow, range.startRow + 1000); row++) {
+    for (let col = range.startCol; col <= range.endCol; col++) {
+      const key = toCellRef(row, col);
+      const input = source.cells[key];
+      const shown = input !== undefined && isFormula(input) ? source.values[key] : input;
+      if (shown !== undefined && shown !== null && shown !== '') options.push(String(shown));
+    }
+  }
+  return options;
+}
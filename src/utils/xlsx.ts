@@ -0,0 +1,1087 @@
+/**
+ * XLSX - Reads and writes Excel workbooks (Office Open XML spreadsheets)
+ *
+ * Files hold every sheet with its formulas and their last results, number formats, fonts,
+ * fills, borders and alignment, merged cells, column widths and row heights, frozen panes,
+ * defined names and data validation. Charts, comments, conditional formatting and pivot
+ * tables are not read or written.
+ */
+
+import type { CellValidation } from '../types/spreadsheet';
+import { AUTO_FIT_CONSTANTS, VERTICAL_TEXT_ROTATION } from './autoFit';
+import type { BorderStyle, CellBorder, CellBorders } from './cellBorders';
+import { DEFAULT_THEME, ThemeColorSlot, WorkbookTheme, resolveThemeColor } from './cellStyles';
+import type { CellRange } from './cellStore';
+import {
+  ErrorCode,
+  ErrorValue,
+  ScalarValue,
+  formatSheetName,
+  isErrorValue,
+  isFormula,
+  parseCellInput,
+  parseCellRef,
+  readDateTime,
+  textInput,
+  toCellRef
+} from './formulaEngine';
+import { columnToIndex, indexToColumn } from './formula/references';
+import { resolveFormatCode } from './numberFormatPresets';
+import {
+  DATE_TIME_CODES,
+  FileCellFormat,
+  SheetFile,
+  WorkbookFile,
+  createSheetFile,
+  fractionToTime,
+  hexColor,
+  isoToSerial,
+  numberText,
+  parseRange,
+  rangeRef,
+  resolveListSources,
+  serialToIso,
+  timeToFraction,
+  usedArea
+} from './workbookFile';
+import {
+  XML_DECLARATION,
+  XmlElement,
+  attribute,
+  childElement,
+  childElements,
+  escapeXml,
+  parseXml,
+  textContent,
+  xmlElement
+} from './xml';
+import { ZipEntry, createZip, readZip, zipText } from './zip';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_OFFICE_DOCUMENT = `${NS_RELATIONSHIPS}/officeDocument`;
+const REL_WORKSHEET = `${NS_RELATIONSHIPS}/worksheet`;
+const REL_STYLES = `${NS_RELATIONSHIPS}/styles`;
+const REL_SHARED_STRINGS = `${NS_RELATIONSHIPS}/sharedStrings`;
+const REL_THEME = `${NS_RELATIONSHIPS}/theme`;
+const REL_SHEET_METADATA = `${NS_RELATIONSHIPS}/sheetMetadata`;
+const NS_DYNAMIC_ARRAY = 'http://schemas.microsoft.com/office/spreadsheetml/2017/dynamicarray';
+const CONTENT_TYPE_PREFIX = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+// Number formats every reader knows by id; custom codes are numbered from 164
+const BUILT_IN_FORMATS: { [id: number]: string } = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'm/d/yyyy',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'm/d/yyyy h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@'
+};
+const FIRST_CUSTOM_FORMAT = 164;
+
+// Functions added to Excel after 2007, which files name with a prefix
+const FUTURE_FUNCTIONS = new Set([
+  'AGGREGATE', 'ARABIC', 'BASE', 'BITAND', 'BITOR', 'BITXOR', 'BYCOL', 'BYROW', 'CEILING.MATH',
+  'CHOOSECOLS', 'CHOOSEROWS', 'CONCAT', 'CONFIDENCE.NORM', 'DAYS', 'DECIMAL', 'DROP', 'EXPAND',
+  'FLOOR.MATH', 'FORECAST.LINEAR', 'FORMULATEXT', 'HSTACK', 'IFNA', 'IFS', 'ISFORMULA', 'ISOMITTED',
+  'ISOWEEKNUM', 'LAMBDA', 'LET', 'MAKEARRAY', 'MAP', 'MAXIFS', 'MINIFS', 'MODE.SNGL', 'NORM.DIST',
+  'NORM.INV', 'NORM.S.DIST', 'NUMBERVALUE', 'PERCENTILE.EXC', 'PERCENTILE.INC', 'QUARTILE.EXC',
+  'QUARTILE.INC', 'RANDARRAY', 'RANK.AVG', 'RANK.EQ', 'REDUCE', 'SCAN', 'SEQUENCE', 'SHEET', 'SHEETS',
+  'SORTBY', 'STDEV.P', 'STDEV.S', 'SWITCH', 'T.TEST', 'TAKE', 'TEXTAFTER', 'TEXTBEFORE', 'TEXTJOIN',
+  'TEXTSPLIT', 'TOCOL', 'TOROW', 'UNICHAR', 'UNICODE', 'UNIQUE', 'VAR.P', 'VAR.S', 'VSTACK', 'WRAPCOLS',
+  'WRAPROWS', 'XLOOKUP', 'XMATCH', 'XOR'
+]);
+// ...and those that also carry the worksheet prefix
+const WORKSHEET_FUNCTIONS = new Set(['FILTER', 'SORT']);
+
+const BORDER_STYLES_WRITTEN: Record<BorderStyle, string> = {
+  thin: 'thin',
+  medium: 'medium',
+  thick: 'thick',
+  dashed: 'dashed',
+  dotted: 'dotted',
+  double: 'double'
+};
+
+const BORDER_STYLES_READ: { [style: string]: BorderStyle } = {
+  hair: 'thin',
+  thin: 'thin',
+  medium: 'medium',
+  thick: 'thick',
+  dashed: 'dashed',
+  mediumDashed: 'dashed',
+  dashDot: 'dashed',
+  mediumDashDot: 'dashed',
+  dashDotDot: 'dashed',
+  mediumDashDotDot: 'dashed',
+  slantDashDot: 'dashed',
+  dotted: 'dotted',
+  double: 'double'
+};
+
+const VALIDATION_TYPES: Record<CellValidation['type'], string> = {
+  wholeNumber: 'whole',
+  decimal: 'decimal',
+  list: 'list',
+  date: 'date',
+  time: 'time',
+  textLength: 'textLength',
+  custom: 'custom'
+};
+
+// Theme color indexes of a file, in the order files number them
+const THEME_SLOTS: ThemeColorSlot[] = [
+  'light1', 'dark1', 'light2', 'dark2', 'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6', 'hyperlink'
+];
+
+// The first colors of the legacy indexed palette
+const INDEXED_COLORS = [
+  '#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF',
+  '#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF',
+  '#800000', '#008000', '#000080', '#808000', '#800080', '#008080', '#C0C0C0', '#808080'
+];
+
+const DEFAULT_FONT = { family: 'Calibri', size: 11 };
+
+// Column widths are stored in characters of the default font, row heights in points
+const CHARACTER_WIDTH = 7;
+const COLUMN_PADDING = 5;
+const POINTS_PER_PIXEL = 0.75;
+
+const toColumnWidth = (px: number) => Math.max(0, Math.round(((px - COLUMN_PADDING) / CHARACTER_WIDTH) * 100) / 100);
+const fromColumnWidth = (width: number) => Math.round(width * CHARACTER_WIDTH + COLUMN_PADDING);
+const toPoints = (px: number) => Math.round(px * POINTS_PER_PIXEL * 100) / 100;
+const fromPoints = (points: number) => Math.round(points / POINTS_PER_PIXEL);
+
+/**
+ * Write a workbook as an .xlsx file
+ */
+export async function writeXlsx(workbook: WorkbookFile): Promise<Uint8Array> {
+  const styles = createStyleTable();
+  const strings = createSharedStrings();
+  const worksheets = workbook.sheets.map((sheet, index) =>
+    worksheetXml(sheet, index === workbook.activeSheet, styles, strings));
+  const dynamicArrays = workbook.sheets.some(sheet => Object.keys(sheet.spills).length > 0);
+
+  const entries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: contentTypesXml(workbook.sheets.length, dynamicArrays) },
+    { path: '_rels/.rels', data: relationshipsXml([{ type: REL_OFFICE_DOCUMENT, target: 'xl/workbook.xml' }]) },
+    { path: 'xl/workbook.xml', data: workbookXml(workbook) },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      data: relationshipsXml([
+        ...workbook.sheets.map((_, index) => ({ type: REL_WORKSHEET, target: `worksheets/sheet${index + 1}.xml` })),
+        { type: REL_STYLES, target: 'styles.xml' },
+        { type: REL_SHARED_STRINGS, target: 'sharedStrings.xml' },
+        ...(dynamicArrays ? [{ type: REL_SHEET_METADATA, target: 'metadata.xml' }] : [])
+      ])
+    },
+    { path: 'xl/styles.xml', data: styles.toXml() },
+    { path: 'xl/sharedStrings.xml', data: strings.toXml() },
+    ...(dynamicArrays ? [{ path: 'xl/metadata.xml', data: metadataXml() }] : []),
+    ...worksheets.map((xml, index) => ({ path: `xl/worksheets/sheet${index + 1}.xml`, data: xml }))
+  ];
+  return createZip(entries);
+}
+
+/**
+ * Read an .xlsx file. Formulas keep their last results in `values`; shared formulas are
+ * expanded into each cell and array formulas become dynamic arrays spilling from their
+ * first cell.
+ */
+export async function readXlsx(data: Uint8Array): Promise<WorkbookFile> {
+  const entries = await readZip(data);
+  const part = (path: string) => {
+    const text = zipText(entries, path);
+    return text === undefined ? undefined : parseXml(text);
+  };
+
+  const rootRelationships = readRelationships(part('_rels/.rels'), '');
+  const workbookPath = rootRelationships.find(relationship => relationship.type === REL_OFFICE_DOCUMENT)?.target || 'xl/workbook.xml';
+  const workbookXmlRoot = part(workbookPath);
+  if (!workbookXmlRoot) throw new Error('The file is not an Excel workbook');
+
+  const folder = workbookPath.substring(0, workbookPath.lastIndexOf('/') + 1);
+  const relationships = readRelationships(part(`${folder}_rels/${workbookPath.substring(folder.length)}.rels`), folder);
+  const byId = new Map(relationships.map(relationship => [relationship.id, relationship]));
+  const partOfType = (type: string) => {
+    const target = relationships.find(relationship => relationship.type === type)?.target;
+    return target ? part(target) : undefined;
+  };
+
+  const theme = readTheme(partOfType(REL_THEME));
+  const styles = readStyles(partOfType(REL_STYLES), theme);
+  const strings = readSharedStrings(partOfType(REL_SHARED_STRINGS));
+
+  const sheetElements = childElements(childElement(workbookXmlRoot, 'sheets'), 'sheet');
+  const sheets = sheetElements.map((element, index) => {
+    const sheet = createSheetFile(attribute(element, 'name') || `Sheet${index + 1}`);
+    const target = byId.get(attribute(element, 'id') || '')?.target;
+    const root = target ? part(target) : undefined;
+    if (root) readWorksheet(root, sheet, styles, strings);
+    return sheet;
+  });
+  if (sheets.length === 0) throw new Error('The workbook has no sheets');
+
+  const names = new Map<string, string>();
+  childElements(childElement(workbookXmlRoot, 'definedNames'), 'definedName').forEach(element => {
+    const name = attribute(element, 'name');
+    // Print areas, filter ranges and other names Excel keeps for itself
+    if (!name || name.startsWith('_xlnm.')) return;
+    const reference = fromFileFormula(textContent(element).trim());
+    const local = attribute(element, 'localSheetId');
+    const sheet = local === undefined ? undefined : sheets[parseInt(local, 10)];
+    (sheet ? sheet.names : names).set(name, reference);
+  });
+
+  const view = childElement(childElement(workbookXmlRoot, 'bookViews'), 'workbookView');
+  const activeSheet = Math.min(sheets.length - 1, parseInt(attribute(view, 'activeTab') || '0', 10) || 0);
+
+  const workbook: WorkbookFile = { sheets, names, activeSheet };
+  resolveListSources(workbook);
+  return workbook;
+}
+
+/**
+ * Text of a formula with the offsets of a shared formula's cell applied to its relative
+ * references, as the file expects readers to do
+ */
+function offsetFormula(formula: string, rows: number, cols: number): string {
+  const column = (absolute: string, letters: string) => {
+    if (absolute) return letters;
+    const index = columnToIndex(letters.toUpperCase()) + cols;
+    return index < 0 ? null : indexToColumn(index);
+  };
+  const row = (absolute: string, digits: string) => {
+    if (absolute) return digits;
+    const index = parseInt(digits, 10) + rows;
+    return index < 1 ? null : String(index);
+  };
+  const corner = (absolute: string, part: string) => (/\d/.test(part) ? row(absolute, part) : column(absolute, part));
+
+  return mapFormulaText(formula, text => text
+    .replace(/(?<![A-Za-z0-9_.$])(\$?)([A-Za-z]{1,3}|\d+):(\$?)([A-Za-z]{1,3}|\d+)(?![A-Za-z0-9_.(!])/g, (match, a1, p1, a2, p2) => {
+      if (/\d/.test(p1) !== /\d/.test(p2)) return match;
+      const first = corner(a1, p1);
+      const last = corner(a2, p2);
+      return first === null || last === null ? '#REF!' : `${a1}${first}:${a2}${last}`;
+    })
+    .replace(/(?<![A-Za-z0-9_.$])(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?![A-Za-z0-9_.(!])/g, (_, a1, letters, a2, digits) => {
+      const col = column(a1, letters);
+      const r = row(a2, digits);
+      return col === null || r === null ? '#REF!' : `${a1}${col}${a2}${r}`;
+    }));
+}
+
+// Apply `rewrite` to the parts of a formula outside string literals and quoted sheet names
+function mapFormulaText(formula: string, rewrite: (text: string) => string): string {
+  return formula.replace(/"(?:[^"]|"")*"|'(?:[^']|'')*'|[^"']+/g, part =>
+    (part[0] === '"' || part[0] === "'" ? part : rewrite(part)));
+}
+
+// Spill references (A1#, 'My Sheet'!A1#), skipping string literals and other quoted sheet names
+const SPILL_REFERENCE = /("(?:[^"]|"")*")|(?<![A-Za-z0-9_.$])((?:'(?:[^']|'')*'|[A-Za-z_][A-Za-z0-9_.]*)!)?(\$?[A-Za-z]{1,3}\$?\d+)#|'(?:[^']|'')*'/g;
+// Files write spill references as ANCHORARRAY calls
+const ANCHOR_ARRAY = /("(?:[^"]|"")*")|_xlfn\.ANCHORARRAY\(((?:'(?:[^']|'')*'|[^()'"])*)\)/gi;
+
+function toFileFormula(formula: string): string {
+  return mapFormulaText(formula, text => text.replace(/(?<![A-Za-z0-9_.])[A-Za-z][A-Za-z0-9.]*(?=\()/g, name => {
+    const upper = name.toUpperCase();
+    if (WORKSHEET_FUNCTIONS.has(upper)) return `_xlfn._xlws.${name}`;
+    return FUTURE_FUNCTIONS.has(upper) ? `_xlfn.${name}` : name;
+  })).replace(SPILL_REFERENCE, (match, string, sheet, cell) =>
+    (string || !cell ? match : `_xlfn.ANCHORARRAY(${sheet || ''}${cell})`));
+}
+
+function fromFileFormula(formula: string): string {
+  const spills = formula.replace(ANCHOR_ARRAY, (match, string, reference) => (string ? match : `${reference.trim()}#`));
+  return mapFormulaText(spills, text => text.replace(/_xl(fn|ws|pm)\./gi, ''));
+}
+
+// ---------------------------------------------------------------------------------------
+// Writing
+
+interface StyleTable {
+  /** Cell format index for a cell's formatting; `defaultCode` stands in for a missing number format */
+  indexOf: (format: FileCellFormat | undefined, defaultCode?: string) => number;
+  toXml: () => string;
+}
+
+function createStyleTable(): StyleTable {
+  const customFormats = new Map<string, number>();
+  const builtInIds = new Map(Object.entries(BUILT_IN_FORMATS).map(([id, code]) => [code, Number(id)]));
+  const fonts = createList(defaultFontXml());
+  const fills = createList('<fill><patternFill patternType="none"/></fill>');
+  fills.add('<fill><patternFill patternType="gray125"/></fill>');
+  const borders = createList('<border><left/><right/><top/><bottom/><diagonal/></border>');
+  const xfs = createList('<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>');
+
+  const formatId = (numberFormat: string | undefined) => {
+    const code = resolveFormatCode(numberFormat);
+    if (!code || code === 'General') return 0;
+    const builtIn = builtInIds.get(code);
+    if (builtIn !== undefined) return builtIn;
+    if (!customFormats.has(code)) customFormats.set(code, FIRST_CUSTOM_FORMAT + customFormats.size);
+    return customFormats.get(code)!;
+  };
+
+  const indexOf = (format: FileCellFormat | undefined, defaultCode?: string) => {
+    const numFmtId = formatId(format?.numberFormat || defaultCode);
+    if (!format && !numFmtId) return 0;
+    const font = fontXml(format || {});
+    const fill = fillXml(format || {});
+    const border = bordersXml(format?.borders);
+    const alignment = alignmentXml(format || {});
+    const fontId = font ? fonts.add(font) : 0;
+    const fillId = fill ? fills.add(fill) : 0;
+    const borderId = border ? borders.add(border) : 0;
+    return xfs.add(xmlElement('xf', {
+      numFmtId,
+      fontId,
+      fillId,
+      borderId,
+      xfId: 0,
+      applyNumberFormat: numFmtId ? 1 : undefined,
+      applyFont: fontId ? 1 : undefined,
+      applyFill: fillId ? 1 : undefined,
+      applyBorder: borderId ? 1 : undefined,
+      applyAlignment: alignment ? 1 : undefined
+    }, alignment));
+  };
+
+  const toXml = () => {
+    const numFmts = Array.from(customFormats, ([code, id]) => xmlElement('numFmt', { numFmtId: id, formatCode: code }));
+    return XML_DECLARATION + xmlElement('styleSheet', { xmlns: NS_MAIN }, [
+      numFmts.length ? xmlElement('numFmts', { count: numFmts.length }, numFmts) : '',
+      xmlElement('fonts', { count: fonts.items.length }, fonts.items),
+      xmlElement('fills', { count: fills.items.length }, fills.items),
+      xmlElement('borders', { count: borders.items.length }, borders.items),
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+      xmlElement('cellXfs', { count: xfs.items.length }, xfs.items),
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    ]);
+  };
+
+  return { indexOf, toXml };
+}
+
+// Markup kept once each, by position
+function createList(first: string) {
+  const items = [first];
+  const positions = new Map([[first, 0]]);
+  return {
+    items,
+    add: (xml: string) => {
+      let position = positions.get(xml);
+      if (position === undefined) {
+        position = items.length;
+        items.push(xml);
+        positions.set(xml, position);
+      }
+      return position;
+    }
+  };
+}
+
+// Null for the default font
+function fontXml(format: FileCellFormat): string | null {
+  const family = format.fontFamily?.split(',')[0].replace(/["']/g, '').trim() || DEFAULT_FONT.family;
+  const size = parseFloat(String(format.fontSize ?? '')) || DEFAULT_FONT.size;
+  const color = toArgb(format.color);
+  if (!format.bold && !format.italic && !format.underline && !color && family === DEFAULT_FONT.family && size === DEFAULT_FONT.size) {
+    return null;
+  }
+  return xmlElement('font', {}, [
+    format.bold ? '<b/>' : '',
+    format.italic ? '<i/>' : '',
+    format.underline ? '<u/>' : '',
+    xmlElement('sz', { val: size }),
+    color ? xmlElement('color', { rgb: color }) : '<color theme="1"/>',
+    xmlElement('name', { val: family }),
+    '<family val="2"/>'
+  ]);
+}
+
+function defaultFontXml(): string {
+  return xmlElement('font', {}, [
+    xmlElement('sz', { val: DEFAULT_FONT.size }),
+    '<color theme="1"/>',
+    xmlElement('name', { val: DEFAULT_FONT.family }),
+    '<family val="2"/>',
+    '<scheme val="minor"/>'
+  ]);
+}
+
+function fillXml(format: FileCellFormat): string | null {
+  const color = toArgb(format.backgroundColor);
+  if (!color) return null;
+  return `<fill><patternFill patternType="solid">${xmlElement('fgColor', { rgb: color })}<bgColor indexed="64"/></patternFill></fill>`;
+}
+
+function bordersXml(borders: CellBorders | undefined): string | null {
+  if (!borders || !(borders.left || borders.right || borders.top || borders.bottom)) return null;
+  const edge = (name: string, border: CellBorder | undefined) => {
+    if (!border) return `<${name}/>`;
+    return xmlElement(name, { style: BORDER_STYLES_WRITTEN[border.style] || 'thin' }, xmlElement('color', { rgb: toArgb(border.color) || 'FF000000' }));
+  };
+  return xmlElement('border', {}, [
+    edge('left', borders.left),
+    edge('right', borders.right),
+    edge('top', borders.top),
+    edge('bottom', borders.bottom),
+    '<diagonal/>'
+  ]);
+}
+
+function alignmentXml(format: FileCellFormat): string {
+  const rotation = format.textRotation;
+  const attributes = {
+    // Indents count from an aligned edge
+    horizontal: format.textAlign || (format.indent ? 'left' : undefined),
+    vertical: format.verticalAlign === 'middle' ? 'center' : format.verticalAlign,
+    textRotation: !rotation ? undefined : rotation === VERTICAL_TEXT_ROTATION ? 255 : rotation < 0 ? 90 - rotation : rotation,
+    wrapText: format.wrapText ? 1 : undefined,
+    indent: format.indent || undefined,
+    shrinkToFit: format.shrinkToFit && !format.wrapText ? 1 : undefined
+  };
+  return Object.values(attributes).some(value => value !== undefined) ? xmlElement('alignment', attributes) : '';
+}
+
+// Colors as the ARGB hex files use
+function toArgb(color: string | undefined): string | undefined {
+  const hex = hexColor(color);
+  return hex ? `FF${hex.slice(1)}` : undefined;
+}
+
+function createSharedStrings() {
+  const items: string[] = [];
+  const positions = new Map<string, number>();
+  let count = 0;
+  return {
+    add: (text: string) => {
+      count++;
+      let position = positions.get(text);
+      if (position === undefined) {
+        position = items.length;
+        items.push(text);
+        positions.set(text, position);
+      }
+      return position;
+    },
+    toXml: () => XML_DECLARATION + xmlElement('sst', { xmlns: NS_MAIN, count, uniqueCount: items.length },
+      items.map(text => `<si>${textXml(text)}</si>`))
+  };
+}
+
+function textXml(text: string): string {
+  const preserve = /^\s|\s$|\n/.test(text) ? ' xml:space="preserve"' : '';
+  return `<t${preserve}>${escapeXml(text)}</t>`;
+}
+
+function worksheetXml(sheet: SheetFile, selected: boolean, styles: StyleTable, strings: ReturnType<typeof createSharedStrings>): string {
+  const rows = new Map<number, { col: number; key: string }[]>();
+  new Set([...Object.keys(sheet.cells), ...Object.keys(sheet.formats), ...Object.keys(sheet.values)]).forEach(key => {
+    const position = parseCellRef(key);
+    if (!position) return;
+    if (!rows.has(position.row)) rows.set(position.row, []);
+    rows.get(position.row)!.push({ col: position.col, key: toCellRef(position.row, position.col) });
+  });
+  sheet.rowHeights.forEach((_, row) => {
+    if (!rows.has(row)) rows.set(row, []);
+  });
+
+  const sheetData = Array.from(rows.keys()).sort((a, b) => a - b).map(row => {
+    const cells = rows.get(row)!
+      .sort((a, b) => a.col - b.col)
+      .map(({ key }) => cellXml(key, sheet, styles, strings));
+    const height = sheet.rowHeights.get(row);
+    return xmlElement('row', {
+      r: row + 1,
+      ht: height === undefined ? undefined : toPoints(height),
+      customHeight: height === undefined ? undefined : 1
+    }, cells);
+  });
+
+  const used = usedArea(sheet);
+  const dimension = used.row < 0 ? 'A1' : `A1:${toCellRef(used.row, used.col)}`;
+  const validations = dataValidationsXml(sheet.validations);
+
+  return XML_DECLARATION + xmlElement('worksheet', { xmlns: NS_MAIN, 'xmlns:r': NS_RELATIONSHIPS }, [
+    xmlElement('dimension', { ref: dimension }),
+    xmlElement('sheetViews', {}, xmlElement('sheetView', { tabSelected: selected ? 1 : undefined, workbookViewId: 0 }, paneXml(sheet.freezePanes))),
+    xmlElement('sheetFormatPr', {
+      defaultColWidth: toColumnWidth(AUTO_FIT_CONSTANTS.DEFAULT_COLUMN_WIDTH),
+      defaultRowHeight: toPoints(AUTO_FIT_CONSTANTS.DEFAULT_ROW_HEIGHT),
+      customHeight: 1
+    }),
+    columnsXml(sheet.columnWidths),
+    `<sheetData>${sheetData.join('')}</sheetData>`,
+    sheet.merges.length
+      ? xmlElement('mergeCells', { count: sheet.merges.length }, sheet.merges.map(range => xmlElement('mergeCell', { ref: rangeRef(range) })))
+      : '',
+    validations
+  ]);
+}
+
+function cellXml(key: string, sheet: SheetFile, styles: StyleTable, strings: ReturnType<typeof createSharedStrings>): string {
+  const input = sheet.cells[key];
+  const format = sheet.formats[key];
+
+  if (input === undefined || input === '') {
+    const style = styles.indexOf(format);
+    // Cells a dynamic array spills into hold its results
+    const cached = cachedValue(sheet.values[key]);
+    if (cached.text !== undefined) {
+      return xmlElement('c', { r: key, s: style || undefined, t: cached.type }, xmlElement('v', {}, escapeXml(cached.text)));
+    }
+    return style ? xmlElement('c', { r: key, s: style }) : '';
+  }
+
+  if (isFormula(input)) {
+    const cached = cachedValue(sheet.values[key]);
+    const spill = sheet.spills[key];
+    return xmlElement('c', { r: key, s: styles.indexOf(format) || undefined, t: cached.type, cm: spill ? 1 : undefined }, [
+      xmlElement('f', spill ? { t: 'array', ref: rangeRef(spill) } : {}, escapeXml(toFileFormula(input.substring(1)))),
+      cached.text === undefined ? '' : xmlElement('v', {}, escapeXml(cached.text))
+    ]);
+  }
+
+  const value = parseCellInput(input);
+  const dateTime = typeof value === 'number' ? readDateTime(input) : null;
+  const style = styles.indexOf(format, dateTime ? DATE_TIME_CODES[dateTime.format] : undefined) || undefined;
+  if (typeof value === 'number') return xmlElement('c', { r: key, s: style }, xmlElement('v', {}, String(value)));
+  if (typeof value === 'boolean') return xmlElement('c', { r: key, s: style, t: 'b' }, xmlElement('v', {}, value ? '1' : '0'));
+  if (isErrorValue(value)) return xmlElement('c', { r: key, s: style, t: 'e' }, xmlElement('v', {}, escapeXml(value.code)));
+  return xmlElement('c', { r: key, s: style, t: 's' }, xmlElement('v', {}, String(strings.add(value as string))));
+}
+
+function cachedValue(value: ScalarValue | undefined): { type?: string; text?: string } {
+  if (value === null || value === undefined) return {};
+  if (typeof value === 'number') return Number.isFinite(value) ? { text: String(value) } : { type: 'e', text: '#NUM!' };
+  if (typeof value === 'boolean') return { type: 'b', text: value ? '1' : '0' };
+  if (isErrorValue(value)) return { type: 'e', text: value.code };
+  return { type: 'str', text: value };
+}
+
+function paneXml(freeze: SheetFile['freezePanes']): string {
+  if (!freeze || (!freeze.row && !freeze.col)) return '';
+  const activePane = freeze.row && freeze.col ? 'bottomRight' : freeze.row ? 'bottomLeft' : 'topRight';
+  return xmlElement('pane', {
+    xSplit: freeze.col || undefined,
+    ySplit: freeze.row || undefined,
+    topLeftCell: toCellRef(freeze.row, freeze.col),
+    activePane,
+    state: 'frozen'
+  }) + xmlElement('selection', { pane: activePane });
+}
+
+function columnsXml(widths: Map<number, number>): string {
+  const columns = Array.from(widths.keys()).sort((a, b) => a - b);
+  const spans: string[] = [];
+  let index = 0;
+  while (index < columns.length) {
+    const first = columns[index];
+    const width = widths.get(first)!;
+    let last = first;
+    while (index + 1 < columns.length && columns[index + 1] === last + 1 && widths.get(columns[index + 1]) === width) {
+      last = columns[++index];
+    }
+    spans.push(xmlElement('col', { min: first + 1, max: last + 1, width: toColumnWidth(width), customWidth: 1 }));
+    index++;
+  }
+  return spans.length ? `<cols>${spans.join('')}</cols>` : '';
+}
+
+function dataValidationsXml(validations: { [key: string]: CellValidation }): string {
+  // Cells sharing a rule are written once, as runs along each row
+  const groups = new Map<string, { validation: CellValidation; cells: { row: number; col: number }[] }>();
+  Object.entries(validations).forEach(([key, validation]) => {
+    const position = parseCellRef(key);
+    if (!position) return;
+    const id = JSON.stringify(validation);
+    if (!groups.has(id)) groups.set(id, { validation, cells: [] });
+    groups.get(id)!.cells.push(position);
+  });
+
+  const rules = Array.from(groups.values()).map(({ validation, cells }) => {
+    cells.sort((a, b) => a.row - b.row || a.col - b.col);
+    const runs: CellRange[] = [];
+    cells.forEach(({ row, col }) => {
+      const last = runs[runs.length - 1];
+      if (last && last.startRow === row && last.endCol === col - 1) last.endCol = col;
+      else runs.push({ startRow: row, startCol: col, endRow: row, endCol: col });
+    });
+    return dataValidationXml(validation, runs.map(rangeRef).join(' '));
+  });
+  return rules.length ? xmlElement('dataValidations', { count: rules.length }, rules) : '';
+}
+
+function dataValidationXml(validation: CellValidation, sqref: string): string {
+  let bounds: [string | undefined, string | undefined] = [undefined, undefined];
+  switch (validation.type) {
+    case 'wholeNumber':
+    case 'decimal':
+      bounds = [numberText(validation.min), numberText(validation.max)];
+      break;
+    case 'textLength':
+      bounds = [numberText(validation.minLength), numberText(validation.maxLength)];
+      break;
+    case 'date':
+      bounds = [isoToSerial(validation.startDate), isoToSerial(validation.endDate)];
+      break;
+    case 'time':
+      bounds = [timeToFraction(validation.startTime), timeToFraction(validation.endTime)];
+      break;
+  }
+
+  let operator: string | undefined;
+  let formulas: string[] = [];
+  if (validation.type === 'list') {
+    formulas = [`"${(validation.options || []).join(',').replace(/"/g, '""')}"`];
+  } else if (validation.type === 'custom') {
+    formulas = [toFileFormula((validation.formula || 'TRUE').replace(/^=/, ''))];
+  } else if (bounds[0] !== undefined && bounds[1] !== undefined) {
+    operator = 'between';
+    formulas = bounds as string[];
+  } else if (bounds[1] !== undefined) {
+    operator = 'lessThanOrEqual';
+    formulas = [bounds[1]];
+  } else {
+    operator = 'greaterThanOrEqual';
+    formulas = [bounds[0] ?? '0'];
+  }
+
+  return xmlElement('dataValidation', {
+    type: VALIDATION_TYPES[validation.type],
+    operator,
+    errorStyle: validation.errorStyle && validation.errorStyle !== 'stop' ? validation.errorStyle : undefined,
+    allowBlank: validation.allowBlank ? 1 : undefined,
+    showInputMessage: 1,
+    showErrorMessage: 1,
+    errorTitle: validation.errorTitle,
+    error: validation.errorMessage,
+    promptTitle: validation.inputTitle,
+    prompt: validation.inputMessage,
+    sqref
+  }, formulas.map((formula, index) => xmlElement(`formula${index + 1}`, {}, escapeXml(formula))));
+}
+
+function workbookXml(workbook: WorkbookFile): string {
+  const active = workbook.sheets[workbook.activeSheet] || workbook.sheets[0];
+  const definedNames = [
+    ...Array.from(workbook.names, ([name, reference]) =>
+      xmlElement('definedName', { name }, escapeXml(nameReference(reference, active.name)))),
+    ...workbook.sheets.flatMap((sheet, index) => Array.from(sheet.names, ([name, reference]) =>
+      xmlElement('definedName', { name, localSheetId: index }, escapeXml(nameReference(reference, sheet.name)))))
+  ];
+
+  return XML_DECLARATION + xmlElement('workbook', { xmlns: NS_MAIN, 'xmlns:r': NS_RELATIONSHIPS }, [
+    xmlElement('bookViews', {}, xmlElement('workbookView', { activeTab: workbook.activeSheet || undefined })),
+    xmlElement('sheets', {}, workbook.sheets.map((sheet, index) =>
+      xmlElement('sheet', { name: sheet.name, sheetId: index + 1, 'r:id': `rId${index + 1}` }))),
+    definedNames.length ? xmlElement('definedNames', {}, definedNames) : '',
+    '<calcPr calcId="191029" fullCalcOnLoad="1"/>'
+  ]);
+}
+
+/**
+ * A name's reference as files store it. Plain ranges are pinned to a sheet (the sheet a
+ * sheet-level name belongs to, or the active sheet) and made absolute, as Excel requires;
+ * formulas and constants are written as they are.
+ */
+function nameReference(reference: string, sheetName: string): string {
+  const text = reference.replace(/^=/, '');
+  const match = /^\$?([A-Za-z]{1,3})\$?(\d+)(?::\$?([A-Za-z]{1,3})\$?(\d+))?$/.exec(text);
+  if (!match) return toFileFormula(text);
+  const start = `$${match[1].toUpperCase()}$${match[2]}`;
+  const end = match[3] ? `:$${match[3].toUpperCase()}$${match[4]}` : '';
+  return `${formatSheetName(sheetName)}!${start}${end}`;
+}
+
+function relationshipsXml(relationships: { type: string; target: string }[]): string {
+  return XML_DECLARATION + xmlElement('Relationships', { xmlns: NS_PACKAGE_RELATIONSHIPS },
+    relationships.map(({ type, target }, index) => xmlElement('Relationship', { Id: `rId${index + 1}`, Type: type, Target: target })));
+}
+
+/**
+ * Cell metadata that marks array formulas as dynamic arrays (cm="1"), which Excel spills
+ * instead of showing their first value (=@SORT(...))
+ */
+function metadataXml(): string {
+  return XML_DECLARATION + xmlElement('metadata', { xmlns: NS_MAIN, 'xmlns:xda': NS_DYNAMIC_ARRAY }, [
+    xmlElement('metadataTypes', { count: 1 }, xmlElement('metadataType', {
+      name: 'XLDAPR', minSupportedVersion: 120000, copy: 1, pasteAll: 1, pasteValues: 1, merge: 1, splitFirst: 1,
+      rowColShift: 1, clearFormats: 1, clearComments: 1, assign: 1, coerce: 1, cellMeta: 1
+    })),
+    xmlElement('futureMetadata', { name: 'XLDAPR', count: 1 },
+      '<bk><extLst><ext uri="{bdbb8cdc-fa1e-496e-a857-3c3f30c029c3}"><xda:dynamicArrayProperties fDynamic="1" fCollapsed="0"/></ext></extLst></bk>'),
+    xmlElement('cellMetadata', { count: 1 }, '<bk><rc t="1" v="0"/></bk>')
+  ]);
+}
+
+function contentTypesXml(sheetCount: number, dynamicArrays: boolean): string {
+  return XML_DECLARATION + xmlElement('Types', { xmlns: 'http://schemas.openxmlformats.org/package/2006/content-types' }, [
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    xmlElement('Override', { PartName: '/xl/workbook.xml', ContentType: `${CONTENT_TYPE_PREFIX}.sheet.main+xml` }),
+    xmlElement('Override', { PartName: '/xl/styles.xml', ContentType: `${CONTENT_TYPE_PREFIX}.styles+xml` }),
+    xmlElement('Override', { PartName: '/xl/sharedStrings.xml', ContentType: `${CONTENT_TYPE_PREFIX}.sharedStrings+xml` }),
+    ...Array.from({ length: sheetCount }, (_, index) =>
+      xmlElement('Override', { PartName: `/xl/worksheets/sheet${index + 1}.xml`, ContentType: `${CONTENT_TYPE_PREFIX}.worksheet+xml` })),
+    dynamicArrays ? xmlElement('Override', { PartName: '/xl/metadata.xml', ContentType: `${CONTENT_TYPE_PREFIX}.sheetMetadata+xml` }) : ''
+  ]);
+}
+
+// ---------------------------------------------------------------------------------------
+// Reading
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+// Relationships with targets resolved to package paths
+function readRelationships(root: XmlElement | undefined, folder: string): Relationship[] {
+  return childElements(root, 'Relationship').map(element => {
+    const target = attribute(element, 'Target') || '';
+    return {
+      id: attribute(element, 'Id') || '',
+      type: attribute(element, 'Type') || '',
+      target: target.startsWith('/') ? target.substring(1) : normalizePath(folder + target)
+    };
+  });
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function readTheme(root: XmlElement | undefined): WorkbookTheme {
+  const scheme = childElement(childElement(root, 'themeElements'), 'clrScheme');
+  if (!scheme) return DEFAULT_THEME;
+  const colors = { ...DEFAULT_THEME.colors };
+  const slots: { [element: string]: ThemeColorSlot } = {
+    dk1: 'dark1', lt1: 'light1', dk2: 'dark2', lt2: 'light2', accent1: 'accent1', accent2: 'accent2',
+    accent3: 'accent3', accent4: 'accent4', accent5: 'accent5', accent6: 'accent6', hlink: 'hyperlink'
+  };
+  childElements(scheme).forEach(element => {
+    const slot = slots[element.name.substring(element.name.indexOf(':') + 1)];
+    const color = childElements(element)[0];
+    const hex = attribute(color, 'val') && /srgbClr$/.test(color.name) ? attribute(color, 'val') : attribute(color, 'lastClr');
+    if (slot && hex && /^[0-9a-f]{6}$/i.test(hex)) colors[slot] = `#${hex.toUpperCase()}`;
+  });
+  return { ...DEFAULT_THEME, name: 'File', colors };
+}
+
+function readColor(element: XmlElement | undefined, theme: WorkbookTheme): string | undefined {
+  if (!element || attribute(element, 'auto') === '1') return undefined;
+  const tint = parseFloat(attribute(element, 'tint') || '0');
+  const rgb = attribute(element, 'rgb');
+  if (rgb && /^[0-9a-f]{6,8}$/i.test(rgb)) return `#${rgb.slice(-6).toUpperCase()}`;
+  const themeIndex = attribute(element, 'theme');
+  if (themeIndex !== undefined) {
+    const slot = THEME_SLOTS[parseInt(themeIndex, 10)];
+    return slot ? resolveThemeColor(tint ? `theme:${slot}:${tint}` : `theme:${slot}`, theme) : undefined;
+  }
+  const indexed = attribute(element, 'indexed');
+  return indexed === undefined ? undefined : INDEXED_COLORS[parseInt(indexed, 10)];
+}
+
+// Formatting of each cell format (xf) of the file, by index
+function readStyles(root: XmlElement | undefined, theme: WorkbookTheme): (FileCellFormat | undefined)[] {
+  const codes = new Map<number, string>();
+  childElements(childElement(root, 'numFmts'), 'numFmt').forEach(element => {
+    codes.set(parseInt(attribute(element, 'numFmtId') || '0', 10), attribute(element, 'formatCode') || 'General');
+  });
+
+  const fonts = childElements(childElement(root, 'fonts'), 'font').map((font, index): FileCellFormat => {
+    // The first font is the workbook's default, which cells show without formatting
+    if (index === 0) return {};
+    const flag = (name: string) => {
+      const element = childElement(font, name);
+      return !!element && !['0', 'false', 'none'].includes(attribute(element, 'val') || '');
+    };
+    const size = parseFloat(attribute(childElement(font, 'sz'), 'val') || '');
+    return {
+      fontFamily: attribute(childElement(font, 'name'), 'val'),
+      fontSize: size ? `${size}px` : undefined,
+      bold: flag('b') || undefined,
+      italic: flag('i') || undefined,
+      underline: flag('u') || undefined,
+      color: readColor(childElement(font, 'color'), theme)
+    };
+  });
+
+  const fills = childElements(childElement(root, 'fills'), 'fill').map(fill => {
+    const pattern = childElement(fill, 'patternFill');
+    if (attribute(pattern, 'patternType') !== 'solid') return undefined;
+    return readColor(childElement(pattern, 'fgColor'), theme) || readColor(childElement(pattern, 'bgColor'), theme);
+  });
+
+  const borders = childElements(childElement(root, 'borders'), 'border').map(border => {
+    const result: CellBorders = {};
+    (['left', 'right', 'top', 'bottom'] as const).forEach(edge => {
+      const element = childElement(border, edge);
+      const style = BORDER_STYLES_READ[attribute(element, 'style') || ''];
+      if (style) result[edge] = { style, color: readColor(childElement(element, 'color'), theme) || '#000000' };
+    });
+    return Object.keys(result).length ? result : undefined;
+  });
+
+  return childElements(childElement(root, 'cellXfs'), 'xf').map(xf => {
+    const numFmtId = parseInt(attribute(xf, 'numFmtId') || '0', 10);
+    const code = codes.get(numFmtId) ?? BUILT_IN_FORMATS[numFmtId];
+    const alignment = childElement(xf, 'alignment');
+    const horizontal = attribute(alignment, 'horizontal');
+    const vertical = attribute(alignment, 'vertical');
+    const rotation = parseInt(attribute(alignment, 'textRotation') || '0', 10);
+    const indent = parseInt(attribute(alignment, 'indent') || '0', 10);
+
+    const format: FileCellFormat = {
+      ...fonts[parseInt(attribute(xf, 'fontId') || '0', 10)],
+      backgroundColor: fills[parseInt(attribute(xf, 'fillId') || '0', 10)],
+      borders: borders[parseInt(attribute(xf, 'borderId') || '0', 10)],
+      numberFormat: code && code !== 'General' ? code : undefined,
+      textAlign: horizontal === 'left' || horizontal === 'center' || horizontal === 'right' ? horizontal : undefined,
+      verticalAlign: vertical === 'center' ? 'middle' : vertical === 'top' || vertical === 'bottom' ? vertical : undefined,
+      wrapText: attribute(alignment, 'wrapText') === '1' || attribute(alignment, 'wrapText') === 'true' || undefined,
+      indent: indent || undefined,
+      textRotation: !rotation ? undefined : rotation === 255 ? VERTICAL_TEXT_ROTATION : rotation > 90 ? 90 - rotation : rotation,
+      shrinkToFit: attribute(alignment, 'shrinkToFit') === '1' || attribute(alignment, 'shrinkToFit') === 'true' || undefined
+    };
+    Object.keys(format).forEach(key => {
+      if (format[key as keyof FileCellFormat] === undefined) delete format[key as keyof FileCellFormat];
+    });
+    return Object.keys(format).length ? format : undefined;
+  });
+}
+
+function readSharedStrings(root: XmlElement | undefined): string[] {
+  return childElements(root, 'si').map(richText);
+}
+
+// Text of a string item: plain (<t>) or rich text runs (<r><t>), leaving out phonetic guides
+function richText(item: XmlElement | undefined): string {
+  return childElements(item).map(child => {
+    if (child.name === 't' || child.name.endsWith(':t')) return textContent(child);
+    if (child.name === 'r' || child.name.endsWith(':r')) return textContent(childElement(child, 't'));
+    return '';
+  }).join('');
+}
+
+function readWorksheet(root: XmlElement, sheet: SheetFile, styles: (FileCellFormat | undefined)[], strings: string[]) {
+  const sharedFormulas = new Map<string, { formula: string; row: number; col: number }>();
+  // Cells an array formula fills hold its results rather than constants of their own
+  const arrays: CellRange[] = [];
+  const filledByArray = (row: number, col: number) => arrays.some(area =>
+    row >= area.startRow && row <= area.endRow && col >= area.startCol && col <= area.endCol);
+
+  childElements(childElement(root, 'sheetData'), 'row').forEach((rowElement, rowIndex) => {
+    const row = parseInt(attribute(rowElement, 'r') || '', 10) - 1;
+    const rowNumber = Number.isNaN(row) ? rowIndex : row;
+    const height = parseFloat(attribute(rowElement, 'ht') || '');
+    const customHeight = attribute(rowElement, 'customHeight');
+    if (height && (customHeight === '1' || customHeight === 'true')) sheet.rowHeights.set(rowNumber, fromPoints(height));
+
+    let nextCol = 0;
+    childElements(rowElement, 'c').forEach(cell => {
+      const position = parseCellRef(attribute(cell, 'r') || '') || { row: rowNumber, col: nextCol };
+      nextCol = position.col + 1;
+      const key = toCellRef(position.row, position.col);
+
+      const format = styles[parseInt(attribute(cell, 's') || '0', 10)];
+      if (format) sheet.formats[key] = format;
+
+      const type = attribute(cell, 't') || 'n';
+      const valueText = textContent(childElement(cell, 'v'));
+      const value = readCellValue(type, valueText, cell, strings);
+
+      const formulaElement = childElement(cell, 'f');
+      let formula = formulaElement ? textContent(formulaElement).trim() : '';
+      if (formulaElement && attribute(formulaElement, 't') === 'shared') {
+        const index = attribute(formulaElement, 'si') || '';
+        const master = sharedFormulas.get(index);
+        if (formula) sharedFormulas.set(index, { formula, row: position.row, col: position.col });
+        else if (master) formula = offsetFormula(master.formula, position.row - master.row, position.col - master.col);
+      }
+      if (formula && formulaElement && attribute(formulaElement, 't') === 'array') {
+        const area = parseRange(attribute(formulaElement, 'ref') || key);
+        if (area) {
+          arrays.push(area);
+          sheet.spills[key] = area;
+        }
+      }
+
+      if (formula) {
+        sheet.cells[key] = `=${fromFileFormula(formula)}`;
+        sheet.values[key] = value;
+      } else if (filledByArray(position.row, position.col)) {
+        if (value !== null) sheet.values[key] = value;
+      } else if (value !== null) {
+        sheet.cells[key] = constantText(value, type);
+        if (type === 'd' && !format?.numberFormat) {
+          sheet.formats[key] = { ...format, numberFormat: Number.isInteger(value) ? DATE_TIME_CODES.date : DATE_TIME_CODES.datetime };
+        }
+      }
+    });
+  });
+
+  childElements(childElement(root, 'cols'), 'col').forEach(element => {
+    const first = parseInt(attribute(element, 'min') || '0', 10) - 1;
+    const last = parseInt(attribute(element, 'max') || '0', 10) - 1;
+    const width = parseFloat(attribute(element, 'width') || '');
+    // Spans reaching the last column set the sheet's default and are left at ours
+    if (first < 0 || !width || last - first > 1024) return;
+    for (let col = first; col <= last; col++) sheet.columnWidths.set(col, fromColumnWidth(width));
+  });
+
+  const pane = childElement(childElement(childElement(root, 'sheetViews'), 'sheetView'), 'pane');
+  if (pane && ['frozen', 'frozenSplit'].includes(attribute(pane, 'state') || '')) {
+    sheet.freezePanes = {
+      row: parseInt(attribute(pane, 'ySplit') || '0', 10) || 0,
+      col: parseInt(attribute(pane, 'xSplit') || '0', 10) || 0
+    };
+  }
+
+  childElements(childElement(root, 'mergeCells'), 'mergeCell').forEach(element => {
+    const range = parseRange(attribute(element, 'ref') || '');
+    if (range) sheet.merges.push(range);
+  });
+
+  const lastUsedRow = usedArea(sheet).row;
+  childElements(childElement(root, 'dataValidations'), 'dataValidation').forEach(element => {
+    const validation = readValidation(element);
+    if (!validation) return;
+    (attribute(element, 'sqref') || '').split(/\s+/).forEach(ref => {
+      const range = parseRange(ref);
+      if (!range) return;
+      // Whole columns are cut off at the cells in use
+      const lastRow = Math.min(range.endRow, Math.max(range.startRow, lastUsedRow));
+      for (let row = range.startRow; row <= lastRow; row++) {
+        for (let col = range.startCol; col <= Math.min(range.endCol, range.startCol + 1024); col++) {
+          sheet.validations[toCellRef(row, col)] = validation;
+        }
+      }
+    });
+  });
+}
+
+function readCellValue(type: string, text: string, cell: XmlElement, strings: string[]): ScalarValue {
+  switch (type) {
+    case 's':
+      return text === '' ? null : strings[parseInt(text, 10)] ?? '';
+    case 'inlineStr':
+      return richText(childElement(cell, 'is'));
+    case 'str':
+      return text;
+    case 'b':
+      return text === '' ? null : text === '1' || text.toLowerCase() === 'true';
+    case 'e':
+      return text === '' ? null : new ErrorValue(text as ErrorCode);
+    case 'd': {
+      const dateTime = readDateTime(text.replace('T', ' ').replace(/Z$/, '').replace(/(\d{4}-\d{2}-\d{2}) 00:00:00(\.0+)?$/, '$1'));
+      return dateTime ? dateTime.serial : text || null;
+    }
+    default:
+      return text === '' ? null : Number(text);
+  }
+}
+
+// A constant as typed into a cell
+function constantText(value: ScalarValue, type: string): string {
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (isErrorValue(value)) return value.code;
+  if (typeof value === 'number') return String(type === 'd' ? value : Number(value.toPrecision(15)));
+  return textInput(String(value ?? ''));
+}
+
+function readValidation(element: XmlElement): CellValidation | null {
+  const fileType = attribute(element, 'type') || 'none';
+  const type = (Object.keys(VALIDATION_TYPES) as CellValidation['type'][]).find(key => VALIDATION_TYPES[key] === fileType);
+  if (!type) return null;
+
+  const operator = attribute(element, 'operator') || 'between';
+  const first = textContent(childElement(element, 'formula1')).trim();
+  const second = textContent(childElement(element, 'formula2')).trim();
+  // Which of the formulas is the lower and which the upper bound
+  const [low, high] = operator === 'between' || operator === 'notBetween'
+    ? [first, second]
+    : operator === 'equal' ? [first, first]
+      : operator.startsWith('less') ? ['', first] : [first, ''];
+
+  const validation: CellValidation = { type };
+  const errorStyle = attribute(element, 'errorStyle');
+  const flag = (name: string) => ['1', 'true'].includes(attribute(element, name) || '');
+  if (flag('allowBlank')) validation.allowBlank = true;
+  if (errorStyle === 'warning' || errorStyle === 'information') validation.errorStyle = errorStyle;
+  if (attribute(element, 'errorTitle')) validation.errorTitle = attribute(element, 'errorTitle');
+  if (attribute(element, 'error')) validation.errorMessage = attribute(element, 'error');
+  if (attribute(element, 'promptTitle')) validation.inputTitle = attribute(element, 'promptTitle');
+  if (attribute(element, 'prompt')) validation.inputMessage = attribute(element, 'prompt');
+
+  const number = (text: string) => (text !== '' && !Number.isNaN(Number(text)) ? Number(text) : undefined);
+  switch (type) {
+    case 'wholeNumber':
+    case 'decimal':
+      validation.min = number(low);
+      validation.max = number(high);
+      break;
+    case 'textLength':
+      validation.minLength = number(low);
+      validation.maxLength = number(high);
+      break;
+    case 'date':
+      validation.startDate = serialToIso(number(low));
+      validation.endDate = serialToIso(number(high));
+      break;
+    case 'time':
+      validation.startTime = fractionToTime(number(low));
+      validation.endTime = fractionToTime(number(high));
+      break;
+    case 'list':
+      // Kept as the source formula until the workbook's cells are read (resolveListSources)
+      validation.options = first.startsWith('"')
+        ? first.slice(1, -1).replace(/""/g, '"').split(',').map(option => option.trim())
+        : [];
+      if (!first.startsWith('"')) validation.formula = fromFileFormula(first);
+      break;
+    case 'custom':
+      validation.formula = fromFileFormula(first);
+      break;
+  }
+  Object.keys(validation).forEach(key => {
+    if (validation[key as keyof CellValidation] === undefined) delete validation[key as keyof CellValidation];
+  });
+  return validation;
+}
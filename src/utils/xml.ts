@@ -0,0 +1,183 @@
+/**
+ * XML - A small reader and writer for the XML parts of spreadsheet files (OOXML, ODF)
+ *
+ * The reader builds a plain element tree; it skips comments, processing instructions and
+ * DOCTYPEs and does not check that the document is valid. Names keep their prefixes
+ * ("x:row"); `localName` drops them for files written with unusual prefixes.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: { [name: string]: string };
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Parse a document into its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    if (open === -1) {
+      appendText(stack[stack.length - 1], xml.substring(position));
+      break;
+    }
+    if (open > position) appendText(stack[stack.length - 1], xml.substring(position, open));
+
+    if (xml.startsWith('<!--', open)) {
+      position = endOf(xml, '-->', open);
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      const end = xml.indexOf(']]>', open);
+      const close = end === -1 ? xml.length : end;
+      stack[stack.length - 1].children.push(xml.substring(open + 9, close));
+      position = close + 3;
+    } else if (xml[open + 1] === '?' || xml[open + 1] === '!') {
+      position = endOf(xml, '>', open);
+    } else if (xml[open + 1] === '/') {
+      position = endOf(xml, '>', open);
+      if (stack.length > 1) stack.pop();
+    } else {
+      const { element, selfClosing, end } = readTag(xml, open);
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = end;
+    }
+  }
+
+  const element = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!element) throw new Error('The file holds no XML document');
+  return element;
+}
+
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.substring(colon + 1);
+}
+
+/** Child elements, optionally only those with a (local) name */
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (!name || child.name === name || localName(child.name) === name));
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/** Every element below this one with a (local) name, in document order */
+export function descendants(element: XmlElement | undefined, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    node.children.forEach(child => {
+      if (typeof child === 'string') return;
+      if (child.name === name || localName(child.name) === name) found.push(child);
+      visit(child);
+    });
+  };
+  if (element) visit(element);
+  return found;
+}
+
+/** Attribute by full or local name */
+export function attribute(element: XmlElement | undefined, name: string): string | undefined {
+  if (!element) return undefined;
+  if (name in element.attributes) return element.attributes[name];
+  const key = Object.keys(element.attributes).find(candidate => localName(candidate) === name);
+  return key === undefined ? undefined : element.attributes[key];
+}
+
+/** Text content of an element and everything inside it */
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) return '';
+  return element.children.map(child => (typeof child === 'string' ? child : textContent(child))).join('');
+}
+
+/**
+ * Markup for an element. Attributes left undefined are not written; children are markup
+ * already, so text must be escaped by the caller.
+ */
+export function xmlElement(name: string, attributes: { [name: string]: string | number | undefined } = {}, children?: string | string[]): string {
+  const written = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+  const content = Array.isArray(children) ? children.join('') : children;
+  return content === undefined || content === '' ? `<${name}${written}/>` : `<${name}${written}>${content}</${name}>`;
+}
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function appendText(element: XmlElement, raw: string) {
+  const text = decodeEntities(raw);
+  const last = element.children[element.children.length - 1];
+  if (typeof last === 'string') element.children[element.children.length - 1] = last + text;
+  else element.children.push(text);
+}
+
+function endOf(xml: string, terminator: string, from: number): number {
+  const end = xml.indexOf(terminator, from);
+  return end === -1 ? xml.length : end + terminator.length;
+}
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function readTag(xml: string, open: number): { element: XmlElement; selfClosing: boolean; end: number } {
+  // Find the closing ">" outside quoted attribute values
+  let position = open + 1;
+  let quote: string | null = null;
+  while (position < xml.length) {
+    const char = xml[position];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      break;
+    }
+    position++;
+  }
+  const inner = xml.substring(open + 1, position);
+  const selfClosing = inner.endsWith('/');
+  const body = selfClosing ? inner.substring(0, inner.length - 1) : inner;
+  const nameEnd = body.search(/[\s/]/);
+  const name = nameEnd === -1 ? body : body.substring(0, nameEnd);
+
+  const attributes: { [name: string]: string } = {};
+  ATTRIBUTE.lastIndex = 0;
+  const rest = nameEnd === -1 ? '' : body.substring(nameEnd);
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE.exec(rest))) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+  }
+  return { element: { name, attributes, children: [] }, selfClosing, end: position + 1 };
+}
@@ -0,0 +1,183 @@
+/**
+ * Zip - Reads and writes the ZIP packages spreadsheet files are stored in (.xlsx, .ods)
+ *
+ * Entries are deflated with the platform's CompressionStream, so no compression library
+ * is needed. ZIP64 archives (over 4 GB or 65,535 entries) and encrypted entries are not
+ * supported.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+  /** Store without compressing, as ODF requires for its "mimetype" entry */
+  stored?: boolean;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// Bit 11: names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Package entries into a ZIP archive, in the order given
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const compressed = entry.stored ? raw : await transform(raw, new CompressionStream('deflate-raw' as CompressionFormat));
+    const method = entry.stored ? METHOD_STORED : METHOD_DEFLATE;
+    const crc = crc32(raw);
+    const { time, date } = dosDateTime(new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, compressed);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, FLAG_UTF8, true);
+    header.setUint16(10, method, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, compressed.length, true);
+    header.setUint32(24, raw.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concat([...parts, ...central, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Entries of a ZIP archive by path, inflated. Entries are read through the central
+ * directory, so archives written with data descriptors are read too.
+ */
+export async function readZip(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const endOffset = findEndOfCentralDirectory(view);
+  if (endOffset === -1) throw new Error('The file is not a ZIP archive');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('The ZIP archive is damaged');
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 1) throw new Error(`${path} is encrypted`);
+    if (path.endsWith('/')) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = data.subarray(start, start + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.set(path, compressed);
+    } else if (method === METHOD_DEFLATE) {
+      entries.set(path, await transform(compressed, new DecompressionStream('deflate-raw' as CompressionFormat)));
+    } else {
+      throw new Error(`${path} uses an unsupported compression method (${method})`);
+    }
+  }
+  return entries;
+}
+
+export function zipText(entries: Map<string, Uint8Array>, path: string): string | undefined {
+  const entry = entries.get(path);
+  return entry ? decoder.decode(entry) : undefined;
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // A copy, as entries read from an archive are views into its buffer
+  writer.write(new Uint8Array(data));
+  writer.close();
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes, followed by a comment of up to 65,535 bytes
+  const last = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let position = view.byteLength - 22; position >= last; position--) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY) return position;
+  }
+  return -1;
+}
+
+function dosDateTime(when: Date): { time: number; date: number } {
+  return {
+    time: (when.getHours() << 11) | (when.getMinutes() << 5) | Math.floor(when.getSeconds() / 2),
+    date: ((Math.max(1980, when.getFullYear()) - 1980) << 9) | ((when.getMonth() + 1) << 5) | when.getDate()
+  };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}